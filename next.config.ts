@@ -11,6 +11,12 @@ const nextConfig: NextConfig = {
         protocol: "https",
         hostname: "images.unsplash.com",
       },
+      {
+        // Local storage driver (STORAGE_DRIVER=local) in development
+        protocol: "http",
+        hostname: "localhost",
+        pathname: "/api/uploads/**",
+      },
     ],
   },
   eslint: {
@@ -94,11 +94,43 @@ async function main() {
       },
     }),
     prisma.systemSetting.upsert({
-      where: { key: "return_request_hours" },
+      where: { key: "return_window" },
       update: {},
       create: {
-        key: "return_request_hours",
-        value: { hours: 24, description: "Hours after delivery within which return can be requested" },
+        key: "return_window",
+        value: { days: 1, description: "Days after delivery within which return can be requested" },
+      },
+    }),
+    prisma.systemSetting.upsert({
+      where: { key: "dispute_window" },
+      update: {},
+      create: {
+        key: "dispute_window",
+        value: { days: 7, description: "Days after delivery within which a dispute can be opened" },
+      },
+    }),
+    prisma.systemSetting.upsert({
+      where: { key: "payout_minimum" },
+      update: {},
+      create: {
+        key: "payout_minimum",
+        value: { amount: 1000, description: "Minimum vendor payout amount (Rs.)" },
+      },
+    }),
+    prisma.systemSetting.upsert({
+      where: { key: "low_stock_threshold" },
+      update: {},
+      create: {
+        key: "low_stock_threshold",
+        value: { defaultThreshold: 5, description: "Default low-stock alert level for new products" },
+      },
+    }),
+    prisma.systemSetting.upsert({
+      where: { key: "maintenance_mode" },
+      update: {},
+      create: {
+        key: "maintenance_mode",
+        value: { enabled: false, message: null },
       },
     }),
     prisma.systemSetting.upsert({
@@ -109,6 +141,19 @@ async function main() {
         value: { frequency: "weekly", day: "monday", description: "Vendor payout schedule" },
       },
     }),
+    prisma.systemSetting.upsert({
+      where: { key: "delivery_auto_confirm" },
+      update: {},
+      create: {
+        key: "delivery_auto_confirm",
+        value: {
+          enabled: true,
+          daysAfterShipped: 21,
+          warningDays: 2,
+          description: "Confirm delivery automatically this many days after the last shipment (customer warned beforehand)",
+        },
+      },
+    }),
   ]);
 
   console.log("✅ System settings created:", settings.length);
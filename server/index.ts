@@ -14,7 +14,7 @@ import { registerChatHandlers } from './socket/handlers/chatHandler';
 import { registerRoomHandlers, autoJoinUserRooms, handleUserDisconnect } from './socket/handlers/roomHandler';
 import { registerTypingHandlers } from './socket/handlers/typingHandler';
 import { registerNotificationHandlers } from './socket/handlers/notificationHandler';
-import { startTrackingPoller } from './services/trackingPoller';
+import { startJobScheduler, stopJobScheduler } from './jobs/scheduler';
 
 // Environment variables
 // Railway injects PORT automatically; SOCKET_PORT is used in local dev
@@ -117,8 +117,13 @@ async function bootstrap() {
       console.error('[Socket.io] Connection error:', err);
     });
 
-    // Start auto-tracking polling (disabled if AFTERSHIP_API_KEY not set)
-    startTrackingPoller();
+    // Run recurring background jobs (tracking poll, reservation sweep, refund
+    // retries, deferred emails, cleanups) — only the leader instance runs them
+    const jobClient = pubClient.duplicate();
+    jobClient.on('error', (err) => {
+      console.error('[Redis Jobs] Connection error:', err.message);
+    });
+    startJobScheduler(jobClient);
 
     // Start server
     httpServer.listen(PORT, () => {
@@ -131,8 +136,12 @@ async function bootstrap() {
     // Graceful shutdown
     process.on('SIGTERM', () => {
       console.log('[Socket.io] SIGTERM received, closing server...');
-      httpServer.close(() => {
+      httpServer.close(async () => {
         console.log('[Socket.io] Server closed');
+        await stopJobScheduler().catch((err) =>
+          console.error('[Socket.io] Failed to stop job scheduler:', err)
+        );
+        jobClient.quit();
         pubClient.quit();
         subClient.quit();
         process.exit(0);
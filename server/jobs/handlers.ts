@@ -0,0 +1,107 @@
+/**
+ * Background job handlers
+ *
+ * One handler per job in src/lib/jobs.ts. A handler returns a small summary
+ * of what it did, stored on the JobRun; throwing marks the run FAILED and the
+ * scheduler retries it with backoff.
+ *
+ * Dynamic imports keep path resolution consistent with the rest of the server.
+ */
+
+import type { JobName } from "../../src/lib/jobs";
+
+export type JobResult = Record<string, number>;
+
+export const JOB_HANDLERS: Record<JobName, () => Promise<JobResult>> = {
+  "tracking-poll": async () => {
+    const { pollTrackedShipments } = await import(
+      "../../src/lib/tracking/trackingService"
+    );
+    return pollTrackedShipments();
+  },
+
+  "reservation-sweep": async () => {
+    const { releaseExpiredReservations } = await import(
+      "../../src/lib/utils/stock"
+    );
+    return { cancelled: await releaseExpiredReservations() };
+  },
+
+  "refund-retry": async () => {
+    const { retryDueRefunds } = await import("../../src/lib/utils/refund");
+    return { succeeded: await retryDueRefunds() };
+  },
+
+  "deferred-emails": async () => {
+    const { sendDueDeferredEmails } = await import(
+      "../../src/lib/notifications/notificationEmail"
+    );
+    return { sent: await sendDueDeferredEmails() };
+  },
+
+  "notification-cleanup": async () => {
+    const { deleteExpiredNotifications } = await import(
+      "../../src/lib/notifications/notificationService"
+    );
+    return { deleted: await deleteExpiredNotifications() };
+  },
+
+  "otp-purge": async () => {
+    const { otpUtils } = await import("../../src/lib/otp");
+    return { deleted: await otpUtils.purgeExpired() };
+  },
+
+  "delivery-auto-confirm": async () => {
+    const { autoConfirmDeliveries } = await import(
+      "../../src/lib/utils/autoConfirmDelivery"
+    );
+    return autoConfirmDeliveries();
+  },
+
+  "maintenance-announce": async () => {
+    const { announceUpcomingMaintenance } = await import(
+      "../../src/lib/maintenance"
+    );
+    return announceUpcomingMaintenance();
+  },
+
+  "image-cleanup": async () => {
+    const { cleanupOrphanedImages } = await import(
+      "../../src/lib/storage/storageService"
+    );
+    return cleanupOrphanedImages();
+  },
+
+  "search-index": async () => {
+    const { indexUnindexedProducts } = await import(
+      "../../src/lib/search/searchIndex"
+    );
+    return indexUnindexedProducts();
+  },
+
+  "wishlist-alerts": async () => {
+    const { processWishlistAlerts } = await import(
+      "../../src/lib/utils/wishlist"
+    );
+    return processWishlistAlerts();
+  },
+
+  "product-stats": async () => {
+    const { rebuildProductStats } = await import(
+      "../../src/lib/utils/productStats"
+    );
+    return rebuildProductStats();
+  },
+
+  "shop-schedule": async () => {
+    const { processShopSchedules } = await import(
+      "../../src/lib/utils/shopStatus"
+    );
+    return processShopSchedules();
+  },
+
+  "session-purge": async () => {
+    const { purgeEndedSessions } = await import("../../src/lib/session");
+    return purgeEndedSessions();
+  },
+};
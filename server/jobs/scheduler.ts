@@ -0,0 +1,335 @@
+/**
+ * Background job scheduler
+ *
+ * Runs the recurring jobs defined in src/lib/jobs.ts. All scheduling state
+ * lives in Redis so it survives restarts and is shared between instances:
+ *
+ * - Leader: instances race for the `jobs:leader` lease (SET NX PX). Only the
+ *   leader runs jobs and it renews the lease every tick; if it dies another
+ *   instance takes over once the lease expires.
+ * - Schedule: each job's next run time and attempt number are kept in the
+ *   `jobs:state` hash. A job with no state (first deploy) runs immediately.
+ * - Retries: a failed run is retried with exponential backoff up to
+ *   JOB_MAX_ATTEMPTS, then the job waits for its next regular interval.
+ * - History: every run is recorded as a JobRun row.
+ * - Manual runs: the admin API pushes to `jobs:triggers`; the leader runs
+ *   them without changing the job's schedule.
+ *
+ * Configuration (env):
+ *   JOB_TICK_MS         - How often the scheduler checks for due jobs (default: 5 seconds)
+ *   JOB_LEADER_TTL_MS   - Leader lease length (default: 30 seconds)
+ */
+
+import { randomUUID } from "crypto";
+import type Redis from "ioredis";
+import {
+  JOBS,
+  JOB_KEYS,
+  JOB_MAX_ATTEMPTS,
+  JOB_NAMES,
+  getJobRetryDelay,
+  isJobName,
+  parseJobStates,
+  type JobName,
+  type JobState,
+  type JobTrigger,
+} from "../../src/lib/jobs";
+import { JOB_HANDLERS } from "./handlers";
+
+const TICK_MS = parseInt(process.env.JOB_TICK_MS ?? "5000", 10); // 5 seconds default
+const LEADER_TTL_MS = parseInt(process.env.JOB_LEADER_TTL_MS ?? "30000", 10); // 30 seconds default
+
+// Identifies this process in the leader lease and in JobRun history
+const INSTANCE_ID = `${process.env.RAILWAY_REPLICA_ID || process.pid}:${randomUUID().slice(0, 8)}`;
+
+// Extend or release the lease only if this instance still holds it
+const RENEW_LEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0`;
+const RELEASE_LEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+type RunTrigger = "schedule" | "retry" | "manual";
+
+let redis: Redis | null = null;
+let tickTimer: NodeJS.Timeout | null = null;
+let isLeader = false;
+let ticking = false;
+
+// Jobs currently executing in this process (a job never overlaps itself)
+const runningJobs = new Set<JobName>();
+
+/**
+ * Take or renew the leader lease.
+ *
+ * @returns true if this instance is the leader
+ */
+async function ensureLeadership(client: Redis): Promise<boolean> {
+  if (isLeader) {
+    const renewed = await client.eval(
+      RENEW_LEASE_SCRIPT,
+      1,
+      JOB_KEYS.leader,
+      INSTANCE_ID,
+      LEADER_TTL_MS
+    );
+    if (renewed === 1) return true;
+
+    isLeader = false;
+    console.warn("[JobScheduler] Lost leadership — another instance took over.");
+  }
+
+  const acquired = await client.set(
+    JOB_KEYS.leader,
+    INSTANCE_ID,
+    "PX",
+    LEADER_TTL_MS,
+    "NX"
+  );
+  if (acquired !== "OK") return false;
+
+  isLeader = true;
+  console.log(`[JobScheduler] Became leader (${INSTANCE_ID}).`);
+  await failInterruptedRuns();
+  return true;
+}
+
+/**
+ * Runs left RUNNING by a previous leader will never finish — mark them failed
+ * so the admin status page doesn't show them as in progress forever.
+ */
+async function failInterruptedRuns(): Promise<void> {
+  const { prisma } = await import("../../src/lib/prisma");
+
+  const { count } = await prisma.jobRun.updateMany({
+    where: { status: "RUNNING", instanceId: { not: INSTANCE_ID } },
+    data: {
+      status: "FAILED",
+      error: "Interrupted: the scheduler instance running this job stopped",
+      finishedAt: new Date(),
+    },
+  });
+
+  if (count > 0) {
+    console.warn(`[JobScheduler] Marked ${count} interrupted run(s) as failed.`);
+  }
+}
+
+async function saveJobState(
+  client: Redis,
+  jobName: JobName,
+  state: JobState
+): Promise<void> {
+  await client.hset(JOB_KEYS.state, jobName, JSON.stringify(state));
+}
+
+/**
+ * Execute one run of a job and record it in JobRun history.
+ * Scheduled and retry runs also move the job's schedule forward.
+ */
+async function runJob(
+  client: Redis,
+  jobName: JobName,
+  trigger: RunTrigger,
+  attempt: number,
+  requestedBy?: string
+): Promise<void> {
+  const { prisma } = await import("../../src/lib/prisma");
+
+  runningJobs.add(jobName);
+  const startedAt = new Date();
+
+  try {
+    const run = await prisma.jobRun.create({
+      data: {
+        jobName,
+        trigger,
+        attempt,
+        triggeredBy: requestedBy ?? null,
+        instanceId: INSTANCE_ID,
+        startedAt,
+      },
+    });
+
+    let nextState: JobState;
+
+    try {
+      const result = await JOB_HANDLERS[jobName]();
+      const finishedAt = new Date();
+
+      await prisma.jobRun.update({
+        where: { id: run.id },
+        data: {
+          status: "SUCCEEDED",
+          result,
+          finishedAt,
+          durationMs: finishedAt.getTime() - startedAt.getTime(),
+        },
+      });
+
+      nextState = {
+        nextRunAt: new Date(finishedAt.getTime() + JOBS[jobName].intervalMs).toISOString(),
+        attempt: 1,
+      };
+    } catch (error) {
+      const finishedAt = new Date();
+      const message = error instanceof Error ? error.message : String(error);
+
+      await prisma.jobRun.update({
+        where: { id: run.id },
+        data: {
+          status: "FAILED",
+          error: message,
+          finishedAt,
+          durationMs: finishedAt.getTime() - startedAt.getTime(),
+        },
+      });
+
+      if (attempt < JOB_MAX_ATTEMPTS) {
+        const delayMs = getJobRetryDelay(attempt);
+        console.error(
+          `[JobScheduler] ${jobName} failed (attempt ${attempt}/${JOB_MAX_ATTEMPTS}), retrying in ${Math.round(delayMs / 1000)}s:`,
+          message
+        );
+        nextState = {
+          nextRunAt: new Date(finishedAt.getTime() + delayMs).toISOString(),
+          attempt: attempt + 1,
+        };
+      } else {
+        console.error(
+          `[JobScheduler] ${jobName} failed after ${attempt} attempt(s), waiting for next interval:`,
+          message
+        );
+        nextState = {
+          nextRunAt: new Date(finishedAt.getTime() + JOBS[jobName].intervalMs).toISOString(),
+          attempt: 1,
+        };
+      }
+    }
+
+    // Manual runs are extra — they don't shift or reset the regular schedule
+    if (trigger !== "manual") {
+      await saveJobState(client, jobName, nextState);
+    }
+  } catch (error) {
+    // History/state writes failed (DB or Redis down); the job stays due and
+    // is picked up again on a later tick
+    console.error(`[JobScheduler] Error running ${jobName}:`, error);
+  } finally {
+    runningJobs.delete(jobName);
+  }
+}
+
+/**
+ * Start every manual run queued by admins
+ */
+async function runQueuedTriggers(client: Redis): Promise<void> {
+  let raw = await client.lpop(JOB_KEYS.triggers);
+
+  while (raw !== null) {
+    try {
+      const trigger = JSON.parse(raw) as JobTrigger;
+
+      if (!isJobName(trigger.jobName)) {
+        console.warn(`[JobScheduler] Ignoring manual run of unknown job "${trigger.jobName}".`);
+      } else if (runningJobs.has(trigger.jobName)) {
+        console.warn(
+          `[JobScheduler] Ignoring manual run of ${trigger.jobName} — already running.`
+        );
+      } else {
+        console.log(
+          `[JobScheduler] Manual run of ${trigger.jobName} requested by ${trigger.requestedBy}.`
+        );
+        void runJob(client, trigger.jobName, "manual", 1, trigger.requestedBy);
+      }
+    } catch {
+      console.warn("[JobScheduler] Ignoring malformed manual run request:", raw);
+    }
+
+    raw = await client.lpop(JOB_KEYS.triggers);
+  }
+}
+
+/**
+ * Start every enabled job whose next run time has passed
+ */
+async function runDueJobs(client: Redis): Promise<void> {
+  const states = parseJobStates(await client.hgetall(JOB_KEYS.state));
+  const now = Date.now();
+
+  for (const jobName of JOB_NAMES) {
+    if (!JOBS[jobName].enabled || runningJobs.has(jobName)) continue;
+
+    const state = states[jobName];
+    if (state && new Date(state.nextRunAt).getTime() > now) continue;
+
+    const attempt = state?.attempt ?? 1;
+    void runJob(client, jobName, attempt > 1 ? "retry" : "schedule", attempt);
+  }
+}
+
+/**
+ * One scheduler tick: keep the lease, then start queued and due jobs
+ */
+async function tick(client: Redis): Promise<void> {
+  if (!(await ensureLeadership(client))) return;
+
+  await runQueuedTriggers(client);
+  await runDueJobs(client);
+}
+
+/**
+ * Start the job scheduler.
+ * Call this after the Socket.io server is initialized.
+ *
+ * @param client - Dedicated Redis connection (not in subscriber mode)
+ */
+export function startJobScheduler(client: Redis): void {
+  redis = client;
+
+  const enabledJobs = JOB_NAMES.filter((name) => JOBS[name].enabled);
+  const disabledJobs = JOB_NAMES.filter((name) => !JOBS[name].enabled);
+
+  console.log(
+    `[JobScheduler] Enabled — ${enabledJobs.length} job(s), checking every ${Math.round(TICK_MS / 1000)} seconds.`
+  );
+  if (disabledJobs.length > 0) {
+    console.log(`[JobScheduler] Disabled by configuration: ${disabledJobs.join(", ")}`);
+  }
+
+  const runTick = () => {
+    // Skip if the previous tick is still waiting on Redis
+    if (ticking) return;
+    ticking = true;
+
+    tick(client)
+      .catch((err) => console.error("[JobScheduler] Tick error:", err))
+      .finally(() => {
+        ticking = false;
+      });
+  };
+
+  runTick();
+  tickTimer = setInterval(runTick, TICK_MS);
+}
+
+/**
+ * Stop scheduling and hand the lease to another instance straight away.
+ * Jobs already running are left to finish.
+ */
+export async function stopJobScheduler(): Promise<void> {
+  if (tickTimer) {
+    clearInterval(tickTimer);
+    tickTimer = null;
+  }
+
+  if (redis && isLeader) {
+    isLeader = false;
+    await redis.eval(RELEASE_LEASE_SCRIPT, 1, JOB_KEYS.leader, INSTANCE_ID);
+  }
+}
@@ -1,10 +1,11 @@
 /**
  * Socket.io Authentication Middleware
- * Verifies JWT token and attaches user data to socket
+ * Verifies JWT token and its session, and attaches user data to socket
  */
 
 import { Socket } from 'socket.io';
 import { tokenUtils, TokenPayload } from '../../../src/lib/auth';
+import { isSessionActive } from '../../../src/lib/session';
 
 // Extend Socket data type
 declare module 'socket.io' {
@@ -61,6 +62,12 @@ export async function authMiddleware(
       return next(new Error('Invalid or expired token'));
     }
 
+    // Logged out or revoked sessions can't connect
+    if (!payload.sessionId || !(await isSessionActive(payload.sessionId, payload.userId))) {
+      console.log('[Socket Auth] Session ended');
+      return next(new Error('Session has ended'));
+    }
+
     // Attach user data to socket for downstream handlers
     socket.data.userId = payload.userId;
     socket.data.role = payload.role;
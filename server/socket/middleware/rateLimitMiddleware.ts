@@ -1,49 +1,14 @@
 /**
  * Rate Limiting Middleware for Socket.io
  * Prevents spam by limiting message frequency per user
+ *
+ * Uses the same Redis sliding-window limiter as the HTTP API (see
+ * src/lib/rateLimit.ts), so limits hold across server restarts and instances.
  */
 
 import { Socket } from 'socket.io';
-import { RateLimiter } from 'limiter';
 import { SERVER_EVENTS } from '../events';
-
-// Store rate limiters per user
-const limiters = new Map<string, RateLimiter>();
-
-/**
- * Rate limit configuration
- * 5 messages per 10 seconds per user
- */
-const TOKENS_PER_INTERVAL = 5;
-const INTERVAL_MS = 10000; // 10 seconds
-
-/**
- * Get or create rate limiter for a user
- */
-function getRateLimiter(userId: string): RateLimiter {
-  if (!limiters.has(userId)) {
-    limiters.set(
-      userId,
-      new RateLimiter({
-        tokensPerInterval: TOKENS_PER_INTERVAL,
-        interval: INTERVAL_MS,
-      })
-    );
-  }
-  return limiters.get(userId)!;
-}
-
-/**
- * Cleanup old rate limiters (call periodically to prevent memory leaks)
- */
-function cleanupLimiters() {
-  // Clear all limiters every hour
-  // In a production system, you'd want more sophisticated cleanup
-  limiters.clear();
-}
-
-// Cleanup every hour
-setInterval(cleanupLimiters, 60 * 60 * 1000);
+import { consumeRateLimit, RATE_LIMIT_POLICIES } from '../../../src/lib/rateLimit';
 
 /**
  * Rate limit wrapper for event handlers
@@ -62,19 +27,17 @@ export function rateLimitMiddleware<T extends any[]>(
       return;
     }
 
-    // Get rate limiter for user
-    const limiter = getRateLimiter(userId);
-
-    // Try to remove a token
-    const remainingRequests = await limiter.removeTokens(1);
+    const result = await consumeRateLimit('chat-message', userId, socket.data.role);
 
-    if (remainingRequests < 0) {
+    if (!result.allowed) {
       // Rate limit exceeded
       console.warn(`[Rate Limit] User ${userId} exceeded rate limit`);
 
+      const { windowSeconds } = RATE_LIMIT_POLICIES['chat-message'];
       socket.emit(SERVER_EVENTS.MESSAGE_ERROR, {
-        message: 'Rate limit exceeded. Please slow down (max 5 messages per 10 seconds).',
+        message: `Rate limit exceeded. Please slow down (max ${result.limit} messages per ${windowSeconds} seconds).`,
         code: 'RATE_LIMIT_EXCEEDED',
+        retryAfter: Math.max(result.resetSeconds, 1),
       });
 
       return;
@@ -91,25 +54,3 @@ export function rateLimitMiddleware<T extends any[]>(
     }
   };
 }
-
-/**
- * Get current rate limit status for a user
- */
-export function getRateLimitStatus(userId: string): {
-  hasLimiter: boolean;
-  remainingTokens: number;
-} {
-  const limiter = limiters.get(userId);
-
-  if (!limiter) {
-    return {
-      hasLimiter: false,
-      remainingTokens: TOKENS_PER_INTERVAL,
-    };
-  }
-
-  return {
-    hasLimiter: true,
-    remainingTokens: limiter.getTokensRemaining(),
-  };
-}
@@ -0,0 +1,174 @@
+/**
+ * Local PayHere Merchant API stub
+ *
+ * Implements the OAuth token and refund endpoints used by
+ * src/lib/payhere-refund.ts so refunds can be exercised without sandbox
+ * credentials. Point the app at it with:
+ *
+ *   PAYHERE_API_URL="http://localhost:4010/merchant/v1"
+ *   PAYHERE_APP_ID="stub" PAYHERE_APP_SECRET="stub"
+ *
+ * Configuration (env):
+ *   PAYHERE_STUB_PORT      - Port to listen on (default: 4010)
+ *   PAYHERE_STUB_MODE      - success | reject | error | flaky (default: success)
+ *                              reject → refund declined (not retryable)
+ *                              error  → HTTP 500 on every refund (retryable)
+ *                              flaky  → HTTP 503 for the first PAYHERE_STUB_FAILURES requests
+ *   PAYHERE_STUB_FAILURES  - Failures before success in flaky mode (default: 2)
+ *
+ * Run: npm run dev:payhere-stub
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { randomUUID } from "crypto";
+
+const PORT = parseInt(process.env.PAYHERE_STUB_PORT ?? "4010", 10);
+const MODE = process.env.PAYHERE_STUB_MODE ?? "success";
+const FLAKY_FAILURES = parseInt(process.env.PAYHERE_STUB_FAILURES ?? "2", 10);
+
+interface StubRefund {
+  refundId: string;
+  paymentId: string;
+  amount: string | null; // null = full refund
+  description: string;
+  createdAt: string;
+}
+
+const issuedTokens = new Set<string>();
+const refunds: StubRefund[] = [];
+let refundRequestCount = 0;
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * POST /merchant/v1/oauth/token
+ */
+async function handleToken(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const auth = req.headers.authorization ?? "";
+  const body = await readBody(req);
+
+  if (!auth.startsWith("Basic ") || !body.includes("grant_type=client_credentials")) {
+    sendJson(res, 401, { error: "invalid_client" });
+    return;
+  }
+
+  const token = randomUUID();
+  issuedTokens.add(token);
+
+  sendJson(res, 200, {
+    access_token: token,
+    token_type: "bearer",
+    expires_in: 599,
+    scope: "SANDBOX",
+  });
+}
+
+/**
+ * POST /merchant/v1/payment/refund
+ */
+async function handleRefund(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const token = (req.headers.authorization ?? "").replace(/^Bearer /, "");
+  if (!issuedTokens.has(token)) {
+    sendJson(res, 401, { error: "invalid_token" });
+    return;
+  }
+
+  let payload: { payment_id?: string; description?: string; amount?: string };
+  try {
+    payload = JSON.parse(await readBody(req));
+  } catch {
+    sendJson(res, 400, { status: -1, msg: "Invalid JSON body", data: null });
+    return;
+  }
+
+  refundRequestCount++;
+
+  if (MODE === "error") {
+    sendJson(res, 500, { status: -1, msg: "Internal server error", data: null });
+    return;
+  }
+
+  if (MODE === "flaky" && refundRequestCount <= FLAKY_FAILURES) {
+    sendJson(res, 503, { status: -1, msg: "Service temporarily unavailable", data: null });
+    return;
+  }
+
+  if (MODE === "reject") {
+    sendJson(res, 400, { status: -1, msg: "Refund declined by acquirer", data: null });
+    return;
+  }
+
+  if (!payload.payment_id) {
+    sendJson(res, 400, { status: -1, msg: "payment_id is required", data: null });
+    return;
+  }
+
+  // Full refunds can only happen once per payment
+  const alreadyRefunded = refunds.some(
+    (r) => r.paymentId === payload.payment_id && r.amount === null
+  );
+  if (alreadyRefunded) {
+    sendJson(res, 400, { status: -1, msg: "Payment already refunded", data: null });
+    return;
+  }
+
+  const refund: StubRefund = {
+    refundId: String(Date.now()),
+    paymentId: payload.payment_id,
+    amount: payload.amount ?? null,
+    description: payload.description ?? "",
+    createdAt: new Date().toISOString(),
+  };
+  refunds.push(refund);
+
+  console.log("[PayHereStub] Refund accepted:", refund);
+
+  sendJson(res, 200, {
+    status: 1,
+    msg: "Successfully submitted the refund request",
+    data: refund.refundId,
+  });
+}
+
+const server = createServer((req, res) => {
+  const url = req.url ?? "";
+
+  if (req.method === "POST" && url === "/merchant/v1/oauth/token") {
+    handleToken(req, res).catch((err) => {
+      console.error("[PayHereStub] Token error:", err);
+      sendJson(res, 500, { error: "server_error" });
+    });
+    return;
+  }
+
+  if (req.method === "POST" && url === "/merchant/v1/payment/refund") {
+    handleRefund(req, res).catch((err) => {
+      console.error("[PayHereStub] Refund error:", err);
+      sendJson(res, 500, { status: -1, msg: "Internal server error", data: null });
+    });
+    return;
+  }
+
+  // Inspect accepted refunds while testing
+  if (req.method === "GET" && url === "/refunds") {
+    sendJson(res, 200, { refunds });
+    return;
+  }
+
+  sendJson(res, 404, { error: "Not found" });
+});
+
+server.listen(PORT, () => {
+  console.log(`[PayHereStub] Listening on http://localhost:${PORT} (mode: ${MODE})`);
+});
@@ -0,0 +1,442 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Eye, Loader2, ScrollText, Search, ShieldCheck, ShieldX } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ExportButton } from "@/components/reports/ExportButton";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  type AuditAction,
+  type AuditChainResult,
+  type AuditLogView,
+} from "@/types/audit";
+import { toast } from "sonner";
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+interface Filters {
+  action: string;
+  entityType: string;
+  actor: string;
+  entityId: string;
+  dateFrom: string;
+  dateTo: string;
+}
+
+const EMPTY_FILTERS: Filters = {
+  action: "all",
+  entityType: "all",
+  actor: "",
+  entityId: "",
+  dateFrom: "",
+  dateTo: "",
+};
+
+const actionLabel = (action: string) =>
+  AUDIT_ACTION_LABELS[action as AuditAction] ?? action;
+
+function filtersToParams(filters: Filters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.action !== "all") params.set("action", filters.action);
+  if (filters.entityType !== "all") params.set("entityType", filters.entityType);
+  if (filters.actor.trim()) params.set("actor", filters.actor.trim());
+  if (filters.entityId.trim()) params.set("entityId", filters.entityId.trim());
+  if (filters.dateFrom) params.set("dateFrom", filters.dateFrom);
+  if (filters.dateTo) params.set("dateTo", filters.dateTo);
+  return params;
+}
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div className="space-y-1 min-w-0">
+      <p className="text-sm font-medium">{label}</p>
+      {value == null ? (
+        <p className="text-sm text-muted-foreground">—</p>
+      ) : (
+        <pre className="max-h-72 overflow-auto rounded-md bg-muted p-3 text-xs">
+          {JSON.stringify(value, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+export default function AdminAuditLogPage() {
+  const [entries, setEntries] = useState<AuditLogView[]>([]);
+  const [entityTypes, setEntityTypes] = useState<string[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  // Text fields are applied on submit; selects and dates apply immediately
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [selected, setSelected] = useState<AuditLogView | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [chainResult, setChainResult] = useState<AuditChainResult | null>(null);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [page, filters]);
+
+  const fetchEntries = async () => {
+    setIsLoading(true);
+    try {
+      const params = filtersToParams(filters);
+      params.set("page", String(page));
+
+      const res = await fetch(`/api/admin/audit-logs?${params}`);
+      const data = await res.json();
+
+      if (data.success) {
+        setEntries(data.data.entries);
+        setEntityTypes(data.data.entityTypes);
+        setPagination(data.data.pagination);
+      } else {
+        toast.error(data.error || "Failed to load audit log");
+      }
+    } catch {
+      toast.error("Failed to load audit log");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const applyFilters = (next: Filters) => {
+    setDraft(next);
+    setFilters(next);
+    setPage(1);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    applyFilters(draft);
+  };
+
+  const handleExport = async () => {
+    const response = await fetch(`/api/admin/audit-logs/export?${filtersToParams(filters)}`);
+    if (!response.ok) throw new Error("Export failed");
+    const blob = await response.blob();
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `audit-log-${format(new Date(), "yyyy-MM-dd")}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      const res = await fetch("/api/admin/audit-logs/verify");
+      const data = await res.json();
+
+      if (data.success) {
+        setChainResult(data.data);
+      } else {
+        toast.error(data.error || "Failed to verify audit log");
+      }
+    } catch {
+      toast.error("Failed to verify audit log");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Every change made from the admin dashboard, who made it and when
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={handleVerify} disabled={isVerifying}>
+            {isVerifying ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ShieldCheck className="mr-2 h-4 w-4" />
+            )}
+            Verify Integrity
+          </Button>
+          <ExportButton onExport={handleExport} filename="audit-log" />
+        </div>
+      </div>
+
+      {chainResult &&
+        (chainResult.valid ? (
+          <Alert>
+            <ShieldCheck className="h-4 w-4" />
+            <AlertTitle>Audit log intact</AlertTitle>
+            <AlertDescription>
+              All {chainResult.checked} entries match their hashes.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Alert variant="destructive">
+            <ShieldX className="h-4 w-4" />
+            <AlertTitle>Audit log has been tampered with</AlertTitle>
+            <AlertDescription>
+              Entry #{chainResult.brokenAt?.sequence}: {chainResult.brokenAt?.reason}.{" "}
+              {chainResult.checked} earlier entries are intact.
+            </AlertDescription>
+          </Alert>
+        ))}
+
+      {/* Filters */}
+      <form onSubmit={handleSearch} className="flex flex-wrap items-center gap-3">
+        <Select
+          value={draft.action}
+          onValueChange={(action) => applyFilters({ ...draft, action })}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Action" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Actions</SelectItem>
+            {AUDIT_ACTIONS.map((action) => (
+              <SelectItem key={action} value={action}>
+                {AUDIT_ACTION_LABELS[action]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={draft.entityType}
+          onValueChange={(entityType) => applyFilters({ ...draft, entityType })}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue placeholder="Entity" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Entities</SelectItem>
+            {entityTypes.map((entityType) => (
+              <SelectItem key={entityType} value={entityType}>
+                {entityType}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Input
+          placeholder="Admin email"
+          value={draft.actor}
+          onChange={(e) => setDraft({ ...draft, actor: e.target.value })}
+          className="w-48"
+        />
+        <Input
+          placeholder="Entity ID"
+          value={draft.entityId}
+          onChange={(e) => setDraft({ ...draft, entityId: e.target.value })}
+          className="w-48"
+        />
+        <Input
+          type="date"
+          aria-label="From date"
+          value={draft.dateFrom}
+          onChange={(e) => applyFilters({ ...draft, dateFrom: e.target.value })}
+          className="w-40"
+        />
+        <Input
+          type="date"
+          aria-label="To date"
+          value={draft.dateTo}
+          onChange={(e) => applyFilters({ ...draft, dateTo: e.target.value })}
+          className="w-40"
+        />
+
+        <Button type="submit" variant="secondary">
+          <Search className="mr-2 h-4 w-4" />
+          Search
+        </Button>
+        {hasFilters && (
+          <Button type="button" variant="ghost" onClick={() => applyFilters(EMPTY_FILTERS)}>
+            Clear
+          </Button>
+        )}
+
+        {pagination && (
+          <p className="text-sm text-muted-foreground ml-auto">
+            {pagination.total} entr{pagination.total !== 1 ? "ies" : "y"}
+          </p>
+        )}
+      </form>
+
+      {/* Entries */}
+      <div className="border rounded-lg">
+        {isLoading ? (
+          <div className="p-4 space-y-3">
+            {Array.from({ length: 8 }).map((_, i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="p-12 text-center">
+            <ScrollText className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="font-semibold text-lg mb-1">No entries found</h3>
+            <p className="text-muted-foreground text-sm">
+              {hasFilters
+                ? "No audit entries match your current filters."
+                : "Admin actions will appear here."}
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">#</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Admin</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead>IP Address</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="text-muted-foreground">{entry.sequence}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(entry.createdAt), "MMM d, yyyy HH:mm:ss")}
+                  </TableCell>
+                  <TableCell>{entry.actorEmail ?? "System"}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{actionLabel(entry.action)}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <span className="font-medium">{entry.entityType}</span>
+                    {entry.entityId && (
+                      <span className="block text-xs text-muted-foreground font-mono">
+                        {entry.entityId}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {entry.ipAddress ?? "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSelected(entry)}
+                      title="View details"
+                      className="h-8 w-8 p-0"
+                    >
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2 pt-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page <= 1 || isLoading}
+          >
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {pagination.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => Math.min(pagination.totalPages, p + 1))}
+            disabled={page >= pagination.totalPages || isLoading}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+
+      {/* Entry details */}
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{actionLabel(selected.action)}</DialogTitle>
+                <DialogDescription>
+                  Entry #{selected.sequence} ·{" "}
+                  {format(new Date(selected.createdAt), "MMM d, yyyy HH:mm:ss")} by{" "}
+                  {selected.actorEmail ?? "System"}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <p>
+                    <span className="text-muted-foreground">Entity:</span>{" "}
+                    {selected.entityType}
+                    {selected.entityId && ` (${selected.entityId})`}
+                  </p>
+                  <p>
+                    <span className="text-muted-foreground">IP Address:</span>{" "}
+                    {selected.ipAddress ?? "—"}
+                  </p>
+                  {selected.userAgent && (
+                    <p className="col-span-2 text-xs text-muted-foreground break-all">
+                      {selected.userAgent}
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  <JsonBlock label="Before" value={selected.before} />
+                  <JsonBlock label="After" value={selected.after} />
+                </div>
+                {selected.metadata && <JsonBlock label="Details" value={selected.metadata} />}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -132,6 +132,7 @@ export default async function AdminDisputeDetailsPage({
               disputeId={dispute.id}
               orderTotal={dispute.order.totalAmount.toNumber()}
               refundCalculation={refundCalculation}
+              items={dispute.order.items}
               open={false}
               onOpenChange={() => {}}
             />
@@ -276,6 +277,7 @@ export default async function AdminDisputeDetailsPage({
                   disputeId={dispute.id}
                   orderTotal={dispute.order.totalAmount.toNumber()}
                   refundCalculation={refundCalculation}
+                  items={dispute.order.items}
                   open={false}
                   onOpenChange={() => {}}
                 />
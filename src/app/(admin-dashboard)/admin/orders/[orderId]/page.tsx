@@ -153,7 +153,7 @@ export default function AdminOrderDetailsPage({
         </div>
 
         {/* Order Summary */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
           <div className="border rounded-lg p-4 bg-card">
             <p className="text-sm text-muted-foreground mb-1">Subtotal</p>
             <p className="text-xl font-semibold">
@@ -174,6 +174,16 @@ export default function AdminOrderDetailsPage({
               })}
             </p>
           </div>
+          <div className="border rounded-lg p-4 bg-card">
+            <p className="text-sm text-muted-foreground mb-1">Shipping</p>
+            <p className="text-xl font-semibold">
+              Rs.{" "}
+              {order.shippingAmount.toLocaleString("en-LK", {
+                minimumFractionDigits: 2,
+                maximumFractionDigits: 2,
+              })}
+            </p>
+          </div>
           <div className="border rounded-lg p-4 bg-card">
             <p className="text-sm text-muted-foreground mb-1">Total</p>
             <p className="text-2xl font-bold">
@@ -214,6 +224,8 @@ export default function AdminOrderDetailsPage({
                   key={vendorGroup.vendorName}
                   vendorName={vendorGroup.vendorName}
                   items={vendorGroup.items}
+                  shippingAmount={vendorGroup.shippingAmount}
+                  shipments={vendorGroup.shipments}
                 />
               ))}
             </div>
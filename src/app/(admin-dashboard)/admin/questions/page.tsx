@@ -0,0 +1,393 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { HelpCircle, Check, Eye, EyeOff, Trash2, ShieldAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+
+type QuestionStatus = "PENDING" | "ANSWERED" | "HIDDEN";
+
+interface Question {
+  id: string;
+  question: string;
+  questionFiltered: string | null;
+  answer: string | null;
+  answerFiltered: string | null;
+  status: QuestionStatus;
+  isFlagged: boolean;
+  createdAt: string;
+  answeredAt: string | null;
+  reviewedAt: string | null;
+  product: {
+    id: string;
+    name: string;
+    slug: string;
+    vendorName: string;
+  };
+  customer: {
+    name: string;
+    email: string | null;
+  };
+}
+
+interface Pagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+const STATUS_LABELS: Record<QuestionStatus, string> = {
+  PENDING: "Unanswered",
+  ANSWERED: "Answered",
+  HIDDEN: "Hidden",
+};
+
+export default function AdminQuestionsPage() {
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [flaggedCount, setFlaggedCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [flaggedFilter, setFlaggedFilter] = useState("true");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [page, setPage] = useState(1);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [page, flaggedFilter, statusFilter]);
+
+  const fetchQuestions = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: "20" });
+      if (flaggedFilter !== "all") params.set("flagged", flaggedFilter);
+      if (statusFilter !== "all") params.set("status", statusFilter);
+
+      const res = await fetch(`/api/admin/questions?${params}`);
+      const data = await res.json();
+
+      if (data.success) {
+        setQuestions(data.data.questions);
+        setPagination(data.data.pagination);
+        setFlaggedCount(data.data.stats.flaggedCount);
+      }
+    } catch {
+      // silently fail
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleModerate = async (
+    question: Question,
+    action: "approve" | "hide" | "restore"
+  ) => {
+    try {
+      const res = await fetch(`/api/admin/questions/${question.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        const updated = data.data.question;
+        setQuestions((prev) =>
+          prev.map((q) =>
+            q.id === question.id
+              ? { ...q, status: updated.status, isFlagged: updated.isFlagged, reviewedAt: updated.reviewedAt }
+              : q
+          )
+        );
+        if (question.isFlagged) {
+          setFlaggedCount((count) => Math.max(0, count - 1));
+        }
+        toast.success(
+          action === "approve"
+            ? "Question approved"
+            : action === "hide"
+            ? "Question hidden from the product page"
+            : "Question restored"
+        );
+      } else {
+        toast.error("Failed to update question");
+      }
+    } catch {
+      toast.error("An error occurred");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    try {
+      const res = await fetch(`/api/admin/questions/${deleteId}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setQuestions((prev) => prev.filter((q) => q.id !== deleteId));
+        toast.success("Question deleted");
+      } else {
+        toast.error("Failed to delete question");
+      }
+    } catch {
+      toast.error("An error occurred");
+    } finally {
+      setDeleteId(null);
+    }
+  };
+
+  const handleFilterChange = (type: "flagged" | "status", value: string) => {
+    if (type === "flagged") setFlaggedFilter(value);
+    else setStatusFilter(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Product Q&amp;A Moderation</h1>
+        <p className="text-muted-foreground">
+          Questions and answers that matched the contact filter wait here before
+          they are shown on product pages
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={flaggedFilter} onValueChange={(v) => handleFilterChange("flagged", v)}>
+          <SelectTrigger className="w-44">
+            <SelectValue placeholder="Queue" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">Flagged ({flaggedCount})</SelectItem>
+            <SelectItem value="false">Not flagged</SelectItem>
+            <SelectItem value="all">All Questions</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={statusFilter} onValueChange={(v) => handleFilterChange("status", v)}>
+          <SelectTrigger className="w-36">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            <SelectItem value="PENDING">Unanswered</SelectItem>
+            <SelectItem value="ANSWERED">Answered</SelectItem>
+            <SelectItem value="HIDDEN">Hidden</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {pagination && (
+          <p className="text-sm text-muted-foreground ml-auto">
+            {pagination.total} question{pagination.total !== 1 ? "s" : ""}
+          </p>
+        )}
+      </div>
+
+      {/* Questions */}
+      <div className="space-y-3">
+        {isLoading ? (
+          Array.from({ length: 6 }).map((_, i) => (
+            <div key={i} className="border rounded-lg p-4">
+              <Skeleton className="h-4 w-48 mb-3" />
+              <Skeleton className="h-4 w-full mb-2" />
+              <Skeleton className="h-4 w-3/4" />
+            </div>
+          ))
+        ) : questions.length === 0 ? (
+          <div className="border rounded-lg p-12 text-center">
+            <HelpCircle className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="font-semibold text-lg mb-1">No questions found</h3>
+            <p className="text-muted-foreground text-sm">
+              {flaggedFilter === "true"
+                ? "The moderation queue is empty."
+                : "No questions match your current filters."}
+            </p>
+          </div>
+        ) : (
+          questions.map((question) => (
+            <div
+              key={question.id}
+              className={`border rounded-lg p-4 bg-card transition-opacity ${
+                question.status === "HIDDEN" ? "opacity-60" : ""
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2 flex-wrap">
+                <div>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Link
+                      href={`/products/${question.product.slug}`}
+                      className="font-medium hover:underline"
+                    >
+                      {question.product.name}
+                    </Link>
+                    <Badge variant="outline" className="text-xs py-0">
+                      {question.product.vendorName}
+                    </Badge>
+                    <Badge variant="secondary" className="text-xs py-0">
+                      {STATUS_LABELS[question.status]}
+                    </Badge>
+                    {question.isFlagged && (
+                      <Badge variant="destructive" className="text-xs py-0">
+                        <ShieldAlert className="w-3 h-3 mr-1" />
+                        Flagged
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Asked by {question.customer.name}
+                    {question.customer.email && ` (${question.customer.email})`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {question.isFlagged && question.status !== "HIDDEN" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleModerate(question, "approve")}
+                      title="Approve"
+                      className="h-8 w-8 p-0 text-green-600 hover:text-green-600"
+                    >
+                      <Check className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      handleModerate(question, question.status === "HIDDEN" ? "restore" : "hide")
+                    }
+                    title={question.status === "HIDDEN" ? "Restore question" : "Hide question"}
+                    className="h-8 w-8 p-0"
+                  >
+                    {question.status === "HIDDEN" ? (
+                      <Eye className="w-4 h-4" />
+                    ) : (
+                      <EyeOff className="w-4 h-4" />
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeleteId(question.id)}
+                    title="Delete question"
+                    className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {/* Original text, with the masked copy shoppers see */}
+              <div className="mt-3 space-y-2 text-sm">
+                <div>
+                  <p>
+                    <span className="font-semibold">Q:</span> {question.question}
+                  </p>
+                  {question.questionFiltered && (
+                    <p className="text-xs text-muted-foreground">
+                      Shown as: {question.questionFiltered}
+                    </p>
+                  )}
+                </div>
+                {question.answer && (
+                  <div>
+                    <p className="text-muted-foreground">
+                      <span className="font-semibold text-foreground">A:</span>{" "}
+                      {question.answer}
+                    </p>
+                    {question.answerFiltered && (
+                      <p className="text-xs text-muted-foreground">
+                        Shown as: {question.answerFiltered}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <p className="mt-2 text-xs text-muted-foreground">
+                {new Date(question.createdAt).toLocaleDateString("en-LK", {
+                  day: "numeric",
+                  month: "short",
+                  year: "numeric",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2 pt-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page <= 1 || isLoading}
+          >
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {pagination.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => Math.min(pagination.totalPages, p + 1))}
+            disabled={page >= pagination.totalPages || isLoading}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteId} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Question</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete the question and its answer. This action
+              cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from "react";
 import Image from "next/image";
-import { Star, Package, Eye, EyeOff, Trash2 } from "lucide-react";
+import { Star, Package, Eye, EyeOff, Trash2, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -31,6 +31,11 @@ interface Review {
   rating: number;
   comment: string | null;
   isVisible: boolean;
+  photos: string[];
+  helpfulCount: number;
+  vendorReply: string | null;
+  vendorRepliedAt: string | null;
+  isReplyVisible: boolean;
   createdAt: string;
   product: {
     id: string;
@@ -105,6 +110,8 @@ export default function AdminReviewsPage() {
     try {
       const res = await fetch(`/api/admin/reviews/${review.id}`, {
         method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "toggleVisibility" }),
       });
       const data = await res.json();
 
@@ -125,6 +132,60 @@ export default function AdminReviewsPage() {
     }
   };
 
+  const handleToggleReply = async (review: Review) => {
+    try {
+      const res = await fetch(`/api/admin/reviews/${review.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: review.isReplyVisible ? "hideReply" : "showReply",
+        }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setReviews((prev) =>
+          prev.map((r) =>
+            r.id === review.id ? { ...r, isReplyVisible: !r.isReplyVisible } : r
+          )
+        );
+        toast.success(
+          review.isReplyVisible ? "Vendor reply hidden" : "Vendor reply made visible"
+        );
+      } else {
+        toast.error(data.error || "Failed to update reply");
+      }
+    } catch {
+      toast.error("An error occurred");
+    }
+  };
+
+  const handleRemovePhoto = async (review: Review, photoUrl: string) => {
+    try {
+      const res = await fetch(`/api/admin/reviews/${review.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "removePhoto", photoUrl }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setReviews((prev) =>
+          prev.map((r) =>
+            r.id === review.id
+              ? { ...r, photos: r.photos.filter((url) => url !== photoUrl) }
+              : r
+          )
+        );
+        toast.success("Photo removed");
+      } else {
+        toast.error(data.error || "Failed to remove photo");
+      }
+    } catch {
+      toast.error("An error occurred");
+    }
+  };
+
   const handleDelete = async () => {
     if (!deleteId) return;
     try {
@@ -303,6 +364,65 @@ export default function AdminReviewsPage() {
                     </p>
                   )}
 
+                  {review.photos.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {review.photos.map((url, index) => (
+                        <div key={url} className="relative group">
+                          <a href={url} target="_blank" rel="noopener noreferrer">
+                            <img
+                              src={url}
+                              alt={`Review photo ${index + 1}`}
+                              className="w-16 h-16 object-cover rounded-md border"
+                            />
+                          </a>
+                          <button
+                            type="button"
+                            onClick={() => handleRemovePhoto(review, url)}
+                            title="Remove photo"
+                            className="absolute -top-1.5 -right-1.5 p-0.5 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {review.vendorReply && (
+                    <div
+                      className={`mt-2 rounded-md bg-muted p-3 ${
+                        !review.isReplyVisible ? "opacity-60" : ""
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <div className="flex items-center gap-2">
+                          <p className="text-xs font-semibold">
+                            Reply from {review.product.vendorName}
+                          </p>
+                          {!review.isReplyVisible && (
+                            <Badge variant="secondary" className="text-xs py-0">
+                              Hidden
+                            </Badge>
+                          )}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleToggleReply(review)}
+                          title={review.isReplyVisible ? "Hide reply" : "Show reply"}
+                          className="h-7 w-7 p-0"
+                        >
+                          {review.isReplyVisible ? (
+                            <EyeOff className="w-3.5 h-3.5" />
+                          ) : (
+                            <Eye className="w-3.5 h-3.5" />
+                          )}
+                        </Button>
+                      </div>
+                      <p className="text-sm">{review.vendorReply}</p>
+                    </div>
+                  )}
+
                   <p className="mt-2 text-xs text-muted-foreground">
                     {new Date(review.createdAt).toLocaleDateString("en-LK", {
                       day: "numeric",
@@ -311,6 +431,8 @@ export default function AdminReviewsPage() {
                       hour: "2-digit",
                       minute: "2-digit",
                     })}
+                    {review.helpfulCount > 0 &&
+                      ` · ${review.helpfulCount} found this helpful`}
                   </p>
                 </div>
               </div>
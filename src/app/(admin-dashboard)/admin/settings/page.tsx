@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { ActiveSessionsCard } from "@/components/auth/ActiveSessionsCard";
+import { TwoFactorCard } from "@/components/auth/TwoFactorCard";
 import { User, Lock, Mail } from "lucide-react";
 
 export default function AdminSettingsPage() {
@@ -190,6 +192,12 @@ export default function AdminSettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Two-Factor Authentication */}
+      <TwoFactorCard />
+
+      {/* Active Devices */}
+      <ActiveSessionsCard />
+
       {/* Platform Information */}
       <Card>
         <CardHeader>
@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ClipboardCheck, Search } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ReviewApplicationDialog } from "@/components/admin/vendors/ReviewApplicationDialog";
+import {
+  VENDOR_APPLICATION_STATUS_COLORS,
+  VENDOR_APPLICATION_STATUS_LABELS,
+  type VendorApplicationView,
+} from "@/types/vendor";
+
+type ApplicationRow = VendorApplicationView & {
+  vendorSlug: string | null;
+};
+
+interface Pagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export default function AdminVendorApplicationsPage() {
+  const [applications, setApplications] = useState<ApplicationRow[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("PENDING");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<ApplicationRow | null>(null);
+
+  useEffect(() => {
+    fetchApplications();
+  }, [page, statusFilter]);
+
+  const fetchApplications = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: "20" });
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      if (search.trim()) params.set("search", search.trim());
+
+      const res = await fetch(`/api/admin/vendor-applications?${params}`);
+      const data = await res.json();
+
+      if (data.success) {
+        setApplications(data.data.applications);
+        setPagination(data.data.pagination);
+        setPendingCount(data.data.stats.pendingCount);
+      }
+    } catch {
+      // silently fail
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (page === 1) fetchApplications();
+    else setPage(1);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Vendor Applications</h1>
+        <p className="text-muted-foreground">
+          Review sellers who applied on the storefront. Approving an application
+          creates the vendor account and emails the login details.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Select
+          value={statusFilter}
+          onValueChange={(v) => {
+            setStatusFilter(v);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="PENDING">Under Review ({pendingCount})</SelectItem>
+            <SelectItem value="CHANGES_REQUESTED">Changes Requested</SelectItem>
+            <SelectItem value="APPROVED">Approved</SelectItem>
+            <SelectItem value="REJECTED">Rejected</SelectItem>
+            <SelectItem value="all">All Applications</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Business, email or reg. number"
+            className="w-64"
+          />
+          <Button type="submit" variant="outline" size="icon" aria-label="Search">
+            <Search className="w-4 h-4" />
+          </Button>
+        </form>
+
+        {pagination && (
+          <p className="text-sm text-muted-foreground ml-auto">
+            {pagination.total} application{pagination.total !== 1 ? "s" : ""}
+          </p>
+        )}
+      </div>
+
+      {/* Applications */}
+      <div className="space-y-3">
+        {isLoading ? (
+          Array.from({ length: 5 }).map((_, i) => (
+            <div key={i} className="border rounded-lg p-4">
+              <Skeleton className="h-4 w-48 mb-3" />
+              <Skeleton className="h-4 w-3/4" />
+            </div>
+          ))
+        ) : applications.length === 0 ? (
+          <div className="border rounded-lg p-12 text-center">
+            <ClipboardCheck className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="font-semibold text-lg mb-1">No applications found</h3>
+            <p className="text-muted-foreground text-sm">
+              {statusFilter === "PENDING"
+                ? "There are no applications waiting for review."
+                : "No applications match your current filters."}
+            </p>
+          </div>
+        ) : (
+          applications.map((application) => (
+            <div
+              key={application.id}
+              className="border rounded-lg p-4 bg-card flex items-start justify-between gap-4 flex-wrap"
+            >
+              <div>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium">{application.businessName}</span>
+                  <Badge
+                    variant={VENDOR_APPLICATION_STATUS_COLORS[application.status]}
+                    className="text-xs py-0"
+                  >
+                    {VENDOR_APPLICATION_STATUS_LABELS[application.status]}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {application.ownerName} · {application.businessEmail} · Reg.{" "}
+                  {application.businessRegistrationNo}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Submitted{" "}
+                  {new Date(application.submittedAt).toLocaleDateString("en-LK", {
+                    day: "numeric",
+                    month: "short",
+                    year: "numeric",
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {application.vendorSlug && (
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href={`/vendors/${application.vendorSlug}`}>View Shop</Link>
+                  </Button>
+                )}
+                <Button
+                  variant={application.status === "PENDING" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setSelected(application)}
+                >
+                  {application.status === "PENDING" ? "Review" : "Details"}
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2 pt-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page <= 1 || isLoading}
+          >
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {pagination.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => Math.min(pagination.totalPages, p + 1))}
+            disabled={page >= pagination.totalPages || isLoading}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+
+      <ReviewApplicationDialog
+        application={selected}
+        onOpenChange={(open) => !open && setSelected(null)}
+        onReviewed={fetchApplications}
+      />
+    </div>
+  );
+}
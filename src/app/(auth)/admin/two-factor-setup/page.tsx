@@ -0,0 +1,51 @@
+import { Suspense } from "react";
+import { Metadata } from "next";
+import { TwoFactorSetup } from "@/components/auth/TwoFactorSetup";
+import { Shield, ShieldCheck } from "lucide-react";
+
+export const metadata: Metadata = {
+  title: "Set Up Two-Factor Authentication - Admin - PrimeWear",
+  description: "Secure your admin account with two-factor authentication",
+};
+
+function AdminTwoFactorSetupContent() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 via-white to-blue-50 px-4 py-8">
+      <div className="w-full max-w-md">
+        {/* Logo/Header */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-gradient-to-br from-purple-600 to-blue-600 rounded-2xl mb-4">
+            <ShieldCheck className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Two-Factor Authentication
+          </h1>
+          <p className="text-gray-600">
+            Admin accounts need a code from an authenticator app to sign in
+          </p>
+        </div>
+
+        {/* Setup Card */}
+        <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+          <TwoFactorSetup redirectUrl="/admin" />
+        </div>
+
+        {/* Security Info */}
+        <div className="mt-6 text-center">
+          <div className="flex items-center justify-center gap-2 text-xs text-gray-500">
+            <Shield className="w-4 h-4" />
+            <span>Your authenticator key is encrypted and secure</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function AdminTwoFactorSetupPage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <AdminTwoFactorSetupContent />
+    </Suspense>
+  );
+}
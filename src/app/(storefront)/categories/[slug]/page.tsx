@@ -71,8 +71,9 @@ export default function CategoryPage() {
   const search = searchParams.get("search") || "";
   const minPrice = searchParams.get("minPrice") || "";
   const maxPrice = searchParams.get("maxPrice") || "";
-  const sortBy = searchParams.get("sortBy") || "createdAt";
+  const sortBy = searchParams.get("sortBy") || ""; // API default: relevance when searching, else newest
   const inStock = searchParams.get("inStock") === "true";
+  const minRating = searchParams.get("minRating") || "";
 
   // Fetch category details
   useEffect(() => {
@@ -132,6 +133,7 @@ export default function CategoryPage() {
           ...(maxPrice && { maxPrice }),
           ...(sortBy && { sortBy }),
           ...(inStock && { inStock: "true" }),
+          ...(minRating && { minRating }),
         });
 
         const response = await fetch(`/api/products?${params}`);
@@ -150,7 +152,7 @@ export default function CategoryPage() {
     };
 
     fetchProducts();
-  }, [category, page, search, minPrice, maxPrice, sortBy, inStock]);
+  }, [category, page, search, minPrice, maxPrice, sortBy, inStock, minRating]);
 
   const updateURL = (newParams: Record<string, string>) => {
     const params = new URLSearchParams(searchParams.toString());
@@ -180,6 +182,7 @@ export default function CategoryPage() {
       maxPrice: filters.maxPrice || "",
       sortBy: filters.sortBy || "",
       inStock: filters.inStock ? "true" : "",
+      minRating: filters.minRating || "",
     });
   };
 
@@ -294,11 +297,13 @@ export default function CategoryPage() {
         <ProductFilters
           categories={allCategories}
           onFilterChange={handleFilterChange}
+          isSearching={Boolean(search)}
           initialFilters={{
             minPrice,
             maxPrice,
             sortBy,
             inStock,
+            minRating,
           }}
         />
       </div>
@@ -9,6 +9,7 @@ import { useRouter } from "next/navigation";
 import { useCartStore } from "@/stores/cartStore";
 import { Address } from "@/types/address";
 import { CouponValidation } from "@/types/coupon";
+import { ShippingQuote } from "@/types/shipping";
 import { AddressSelector } from "@/components/checkout/AddressSelector";
 import { AddressForm } from "@/components/checkout/AddressForm";
 import { CouponInput } from "@/components/checkout/CouponInput";
@@ -51,6 +52,9 @@ export default function CheckoutPage() {
   const [showAddressForm, setShowAddressForm] = useState(false);
   const [editingAddress, setEditingAddress] = useState<Address | null>(null);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [shippingQuote, setShippingQuote] = useState<ShippingQuote | null>(
+    null
+  );
 
   // Fetch initial data
   useEffect(() => {
@@ -118,10 +122,38 @@ export default function CheckoutPage() {
     initializeCheckout();
   }, []);
 
+  // Re-quote shipping when the selected address (or its province) changes
+  useEffect(() => {
+    if (!selectedAddressId) {
+      setShippingQuote(null);
+      return;
+    }
+
+    const fetchShippingQuote = async () => {
+      try {
+        const response = await fetch("/api/checkout/validate", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ shippingAddressId: selectedAddressId }),
+        });
+        const result = await response.json();
+
+        if (result.success && result.data) {
+          setShippingQuote(result.data.shipping);
+        }
+      } catch (error) {
+        console.error("Error fetching shipping quote:", error);
+      }
+    };
+
+    fetchShippingQuote();
+  }, [selectedAddressId, addresses]);
+
   // Calculate totals
   const subtotal = cartStore.items.reduce((sum, item) => sum + item.finalPrice * item.quantity, 0);
   const discount = appliedCoupon?.discount?.amount || 0;
-  const shippingAmount = 0; // Free shipping for now
+  const shippingAmount = shippingQuote?.totalAmount ?? 0;
   const total = subtotal - discount + shippingAmount;
 
   // Handle address operations
@@ -443,6 +475,7 @@ export default function CheckoutPage() {
             subtotal={subtotal}
             discount={discount}
             shippingAmount={shippingAmount}
+            shippingLines={shippingQuote?.lines}
             total={total}
           />
         </div>
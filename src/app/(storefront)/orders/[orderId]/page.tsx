@@ -10,6 +10,7 @@ import { OrderStatusBadge } from "@/components/orders/OrderStatusBadge";
 import { OrderTimeline } from "@/components/orders/OrderTimeline";
 import { VendorOrderGroup } from "@/components/orders/VendorOrderGroup";
 import { OrderActions } from "@/components/orders/OrderActions";
+import { OrderReturns } from "@/components/orders/OrderReturns";
 import { format } from "date-fns";
 import { Package, MapPin, CreditCard } from "lucide-react";
 import Link from "next/link";
@@ -67,6 +68,17 @@ export default async function OrderDetailsPage({
   const { order } = orderData;
   const { statusHistory, itemsByVendor, actions } = order;
 
+  // Items with units left to return (for the return request dialog)
+  const returnableItems = order.items
+    .filter((item: any) => item.returnableQuantity > 0)
+    .map((item: any) => ({
+      id: item.id,
+      name: item.productSnapshot.name,
+      variantLabel: item.variantSnapshot?.value ?? null,
+      image: item.variantSnapshot?.imageUrl || item.productSnapshot.image || null,
+      returnableQuantity: item.returnableQuantity,
+    }));
+
   return (
     <div className="container max-w-6xl mx-auto px-4 py-8">
       {/* Back Button */}
@@ -90,7 +102,7 @@ export default async function OrderDetailsPage({
         </div>
 
         {/* Order Summary */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
           <div className="border rounded-lg p-4 bg-card">
             <p className="text-sm text-muted-foreground mb-1">Subtotal</p>
             <p className="text-xl font-semibold">
@@ -111,6 +123,16 @@ export default async function OrderDetailsPage({
               })}
             </p>
           </div>
+          <div className="border rounded-lg p-4 bg-card">
+            <p className="text-sm text-muted-foreground mb-1">Shipping</p>
+            <p className="text-xl font-semibold">
+              Rs.{" "}
+              {order.shippingAmount.toLocaleString("en-LK", {
+                minimumFractionDigits: 2,
+                maximumFractionDigits: 2,
+              })}
+            </p>
+          </div>
           <div className="border rounded-lg p-4 bg-card">
             <p className="text-sm text-muted-foreground mb-1">Total</p>
             <p className="text-2xl font-bold">
@@ -138,6 +160,7 @@ export default async function OrderDetailsPage({
               orderId={order.id}
               orderNumber={order.orderNumber}
               actions={actions}
+              returnableItems={returnableItems}
             />
           </div>
         )}
@@ -159,12 +182,19 @@ export default async function OrderDetailsPage({
                   vendorName={vendorGroup.vendorName}
                   items={vendorGroup.items}
                   chatRoomId={vendorGroup.chatRoomId}
+                  shippingAmount={vendorGroup.shippingAmount}
+                  shipments={vendorGroup.shipments}
                   orderStatus={order.status}
                 />
               ))}
             </div>
           </div>
 
+          {/* Returns */}
+          {order.returns && order.returns.length > 0 && (
+            <OrderReturns returns={order.returns} />
+          )}
+
           {/* Timeline */}
           {statusHistory && statusHistory.length > 0 && (
             <div>
@@ -233,6 +263,31 @@ export default async function OrderDetailsPage({
             </div>
           )}
 
+          {/* Refunds */}
+          {order.refunds && order.refunds.length > 0 && (
+            <div className="border rounded-lg p-4 bg-card">
+              <h3 className="font-semibold mb-3">Refunds</h3>
+              <div className="text-sm space-y-2">
+                {order.refunds.map((refund: any) => (
+                  <div key={refund.id} className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      Rs.{" "}
+                      {refund.amount.toLocaleString("en-LK", {
+                        minimumFractionDigits: 2,
+                        maximumFractionDigits: 2,
+                      })}
+                    </span>
+                    <span
+                      className={`font-medium ${refund.status === "SUCCEEDED" ? "text-green-600" : "text-amber-600"}`}
+                    >
+                      {refund.status === "SUCCEEDED" ? "Refunded" : "Processing"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Coupon Applied */}
           {order.couponSnapshot && (
             <div className="border rounded-lg p-4 bg-card">
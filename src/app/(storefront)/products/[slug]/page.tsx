@@ -5,11 +5,14 @@ import { useParams } from "next/navigation";
 import Link from "next/link";
 import { ProductImageGallery } from "@/components/products/ProductImageGallery";
 import { ProductGrid } from "@/components/products/ProductGrid";
+import { ProductQuestions } from "@/components/products/ProductQuestions";
+import { ProductReviews } from "@/components/products/ProductReviews";
 import { AddToCartButton } from "@/components/cart/AddToCartButton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Star, Store, ChevronRight, Package } from "lucide-react";
+import { Star, Store, ChevronRight, Package, Clock } from "lucide-react";
 import { toast } from "sonner";
 interface ProductVariant {
   id: string;
@@ -18,18 +21,13 @@ interface ProductVariant {
   stock: number;
   name: string;
   value: string;
+  options: Record<string, string>;
+  imageUrl: string | null;
 }
 
-interface Review {
-  id: string;
-  rating: number;
-  comment: string;
-  createdAt: string;
-  customer: {
-    user: {
-      name: string | null;
-    };
-  };
+interface ProductOption {
+  name: string;
+  values: string[];
 }
 
 interface Product {
@@ -59,9 +57,12 @@ interface Product {
     slug: string;
     description: string | null;
     logo: string | null;
+    isShopOpen: boolean;
+    shopClosedReason: string | null;
+    shopReopensAt: string | null;
   };
+  options: ProductOption[];
   variants: ProductVariant[];
-  reviews: Review[];
 }
 
 export default function ProductDetailPage() {
@@ -181,7 +182,11 @@ export default function ProductDetailPage() {
       {/* Product Details */}
       <div className="grid md:grid-cols-2 gap-8 mb-12">
         {/* Image Gallery */}
-        <ProductImageGallery images={product.images} productName={product.name} />
+        <ProductImageGallery
+          images={product.images}
+          productName={product.name}
+          activeImage={activeVariant?.imageUrl}
+        />
 
         {/* Product Info */}
         <div className="space-y-6">
@@ -240,6 +245,18 @@ export default function ProductDetailPage() {
             </div>
           </Link>
 
+          {!product.vendor.isShopOpen && (
+            <Alert className="border-amber-600 bg-amber-50">
+              <Clock className="h-4 w-4 text-amber-600" />
+              <AlertDescription className="text-amber-800">
+                <span className="font-semibold">This shop is temporarily closed.</span>
+                {product.vendor.shopClosedReason && ` ${product.vendor.shopClosedReason}`}
+                {product.vendor.shopReopensAt &&
+                  ` Reopens on ${new Date(product.vendor.shopReopensAt).toLocaleDateString("en-LK")}.`}
+              </AlertDescription>
+            </Alert>
+          )}
+
           <Separator />
 
           {/* Add to Cart (includes variant selector internally) */}
@@ -262,10 +279,14 @@ export default function ProductDetailPage() {
               value: v.value,
               priceAdjustment: v.priceAdjustment,
               stock: v.stock,
+              options: v.options,
+              imageUrl: v.imageUrl,
             }))}
+            options={product.options}
             size="lg"
             showQuantitySelector={true}
             onVariantChange={setActiveVariant}
+            disabled={!product.vendor.isShopOpen}
           />
 
           <Separator />
@@ -294,39 +315,19 @@ export default function ProductDetailPage() {
         </div>
       </div>
 
-      {/* Reviews Section */}
-      {product.reviews && product.reviews.length > 0 && (
-        <div className="mb-12">
-          <h2 className="text-2xl font-bold mb-6">Customer Reviews</h2>
-          <div className="space-y-4">
-            {product.reviews.map((review) => (
-              <div key={review.id} className="border rounded-lg p-4">
-                <div className="flex items-center gap-2 mb-2">
-                  <div className="flex">
-                    {Array.from({ length: 5 }).map((_, i) => (
-                      <Star
-                        key={i}
-                        className={`w-4 h-4 ${
-                          i < review.rating
-                            ? "fill-yellow-400 text-yellow-400"
-                            : "text-gray-300"
-                        }`}
-                      />
-                    ))}
-                  </div>
-                  <span className="text-sm font-semibold">
-                    {review.customer.user.name || "Anonymous"}
-                  </span>
-                  <span className="text-sm text-muted-foreground">
-                    {new Date(review.createdAt).toLocaleDateString()}
-                  </span>
-                </div>
-                <p className="text-sm">{review.comment}</p>
-              </div>
-            ))}
-          </div>
-        </div>
-      )}
+      {/* Reviews */}
+      <ProductReviews
+        productId={product.id}
+        productSlug={product.slug}
+        vendorName={product.vendor.businessName}
+      />
+
+      {/* Questions & Answers */}
+      <ProductQuestions
+        productId={product.id}
+        productSlug={product.slug}
+        vendorName={product.vendor.businessName}
+      />
 
       {/* Related Products */}
       {relatedProducts && relatedProducts.length > 0 && (
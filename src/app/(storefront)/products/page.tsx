@@ -7,6 +7,7 @@ import { ProductFilters, FilterValues } from "@/components/products/ProductFilte
 import { Pagination } from "@/components/common/Pagination";
 import { SearchBar } from "@/components/common/SearchBar";
 import { Skeleton } from "@/components/ui/skeleton";
+import type { ProductSearchFacets } from "@/lib/search/productSearch";
 
 interface Product {
   id: string;
@@ -46,6 +47,8 @@ function ProductsPageContent() {
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [facets, setFacets] = useState<ProductSearchFacets | undefined>();
+  const [isFuzzy, setIsFuzzy] = useState(false);
   const [loading, setLoading] = useState(true);
   const [pagination, setPagination] = useState({
     page: 1,
@@ -60,9 +63,12 @@ function ProductsPageContent() {
   const categoryId = searchParams.get("categoryId") || "";
   const minPrice = searchParams.get("minPrice") || "";
   const maxPrice = searchParams.get("maxPrice") || "";
-  const sortBy = searchParams.get("sortBy") || "createdAt";
+  const sortBy = searchParams.get("sortBy") || ""; // API default: relevance when searching, else newest
   const inStock = searchParams.get("inStock") === "true";
   const vendorId = searchParams.get("vendorId") || "";
+  const size = searchParams.get("size") || "";
+  const colour = searchParams.get("colour") || "";
+  const minRating = searchParams.get("minRating") || "";
 
   // Fetch categories and vendors
   useEffect(() => {
@@ -128,6 +134,9 @@ function ProductsPageContent() {
           ...(sortBy && { sortBy }),
           ...(inStock && { inStock: "true" }),
           ...(vendorId && { vendorId }),
+          ...(size && { size }),
+          ...(colour && { colour }),
+          ...(minRating && { minRating }),
         });
 
         const response = await fetch(`/api/products?${params}`);
@@ -136,6 +145,8 @@ function ProductsPageContent() {
         if (data.success) {
           setProducts(data.data.products);
           setPagination(data.data.pagination);
+          setFacets(data.data.facets);
+          setIsFuzzy(data.data.fuzzy);
         }
       } catch (error) {
         console.error("Error fetching products:", error);
@@ -145,7 +156,7 @@ function ProductsPageContent() {
     };
 
     fetchProducts();
-  }, [page, search, categoryId, minPrice, maxPrice, sortBy, inStock, vendorId]);
+  }, [page, search, categoryId, minPrice, maxPrice, sortBy, inStock, vendorId, size, colour, minRating]);
 
   const updateURL = (newParams: Record<string, string>) => {
     const params = new URLSearchParams(searchParams.toString());
@@ -178,6 +189,9 @@ function ProductsPageContent() {
       sortBy: filters.sortBy || "",
       inStock: filters.inStock ? "true" : "",
       vendorId: filters.vendorId || "",
+      size: filters.size || "",
+      colour: filters.colour || "",
+      minRating: filters.minRating || "",
     });
   };
 
@@ -206,6 +220,8 @@ function ProductsPageContent() {
         <div className="text-sm text-muted-foreground">
           {loading ? (
             <Skeleton className="h-5 w-32" />
+          ) : isFuzzy && search ? (
+            `No exact matches for "${search}" - showing ${pagination.total} similar products`
           ) : (
             `${pagination.total} products found`
           )}
@@ -214,6 +230,8 @@ function ProductsPageContent() {
           categories={categories}
           vendors={vendors}
           onFilterChange={handleFilterChange}
+          facets={facets}
+          isSearching={Boolean(search)}
           initialFilters={{
             categoryId,
             minPrice,
@@ -221,6 +239,9 @@ function ProductsPageContent() {
             sortBy,
             inStock,
             vendorId,
+            size,
+            colour,
+            minRating,
           }}
         />
       </div>
@@ -67,12 +67,13 @@ export default function ReturnsPage() {
             <li>Go to <strong>My Orders</strong> in your account</li>
             <li>Select the order and find the item you want to return</li>
             <li>Click <strong>"Request Return"</strong> within 24 hours of confirming delivery</li>
-            <li>Select the reason and provide a brief description</li>
+            <li>Choose the items and quantities, select the reason and add photos if the item is damaged</li>
             <li>Submit your return request</li>
           </ol>
           <p>
-            Once submitted, the vendor and our support team will review your request. You will
-            receive a notification with the outcome.
+            Once submitted, the vendor will approve or reject your request. You will receive a
+            notification with the outcome. If the vendor rejects it, or does not respond within
+            5 days, you can escalate the return to our support team from your order details page.
           </p>
         </section>
 
@@ -84,8 +85,9 @@ export default function ReturnsPage() {
             error, the vendor is responsible for arranging or reimbursing return shipping.
           </p>
           <p>
-            Please do not send items back before your return request is approved. Unapproved
-            returns may not be accepted.
+            Please do not send items back before your return request is approved. Once approved,
+            print the return label from your order details page and attach it to the parcel (or
+            write the return number on it). Unapproved returns may not be accepted.
           </p>
         </section>
 
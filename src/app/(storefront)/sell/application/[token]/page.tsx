@@ -0,0 +1,26 @@
+/**
+ * Vendor Application Status Page
+ * Reached from the link emailed to the applicant; shows the review status and
+ * lets them resubmit when changes are requested
+ */
+
+import { VendorApplicationStatusView } from "@/components/vendor-applications/VendorApplicationStatusView";
+
+export const metadata = {
+  title: "Your Vendor Application | PrimeWear",
+  robots: { index: false },
+};
+
+interface VendorApplicationPageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function VendorApplicationPage({ params }: VendorApplicationPageProps) {
+  const { token } = await params;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-12">
+      <VendorApplicationStatusView token={token} />
+    </div>
+  );
+}
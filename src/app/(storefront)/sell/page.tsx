@@ -0,0 +1,48 @@
+import Link from "next/link";
+import { Separator } from "@/components/ui/separator";
+import { ShieldCheck, Store, Wallet } from "lucide-react";
+import { NewVendorApplication } from "@/components/vendor-applications/NewVendorApplication";
+
+export const metadata = {
+  title: "Sell on PrimeWear | PrimeWear",
+  description: "Apply to open your shop on PrimeWear and reach customers across Sri Lanka.",
+};
+
+export default function SellPage() {
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-12">
+      <h1 className="text-3xl font-bold mb-2">Sell on PrimeWear</h1>
+      <p className="text-muted-foreground text-sm mb-6">
+        Tell us about your business. Our team reviews every application, usually within
+        2 business days.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+        <div className="border rounded-lg p-4 space-y-2">
+          <Store className="h-5 w-5 text-primary" />
+          <p className="text-sm font-medium">Your own storefront</p>
+        </div>
+        <div className="border rounded-lg p-4 space-y-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          <p className="text-sm font-medium">Secure escrow payments</p>
+        </div>
+        <div className="border rounded-lg p-4 space-y-2">
+          <Wallet className="h-5 w-5 text-primary" />
+          <p className="text-sm font-medium">Payouts to your bank</p>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground mb-8">
+        Keep your business registration certificate, NIC and a bank statement or passbook
+        ready to upload. Already a vendor?{" "}
+        <Link href="/vendor/login" className="text-primary underline underline-offset-4">
+          Log in
+        </Link>
+        .
+      </p>
+      <Separator className="mb-8" />
+
+      <NewVendorApplication />
+    </div>
+  );
+}
@@ -10,7 +10,8 @@ import { Pagination } from "@/components/common/Pagination";
 import { SearchBar } from "@/components/common/SearchBar";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { ChevronRight, Store, Package } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ChevronRight, Store, Package, Star, ShoppingBag, Clock } from "lucide-react";
 import { toast } from "sonner";
 
 interface Vendor {
@@ -21,7 +22,12 @@ interface Vendor {
   logo: string | null;
   banner: string | null;
   shopOpen: boolean;
+  shopClosedReason: string | null;
+  shopReopensAt: string | null;
   productCount: number;
+  averageRating: number;
+  reviewCount: number;
+  unitsSold30d: number;
 }
 
 interface Product {
@@ -65,8 +71,9 @@ export default function VendorStorePage() {
   const categoryId = searchParams.get("categoryId") || "";
   const minPrice = searchParams.get("minPrice") || "";
   const maxPrice = searchParams.get("maxPrice") || "";
-  const sortBy = searchParams.get("sortBy") || "createdAt";
+  const sortBy = searchParams.get("sortBy") || ""; // API default: relevance when searching, else newest
   const inStock = searchParams.get("inStock") === "true";
+  const minRating = searchParams.get("minRating") || "";
 
   // Fetch vendor details
   useEffect(() => {
@@ -134,6 +141,7 @@ export default function VendorStorePage() {
           ...(maxPrice && { maxPrice }),
           ...(sortBy && { sortBy }),
           ...(inStock && { inStock: "true" }),
+          ...(minRating && { minRating }),
         });
 
         const response = await fetch(`/api/products?${params}`);
@@ -152,7 +160,7 @@ export default function VendorStorePage() {
     };
 
     fetchProducts();
-  }, [vendor, page, search, categoryId, minPrice, maxPrice, sortBy, inStock]);
+  }, [vendor, page, search, categoryId, minPrice, maxPrice, sortBy, inStock, minRating]);
 
   const updateURL = (newParams: Record<string, string>) => {
     const params = new URLSearchParams(searchParams.toString());
@@ -183,6 +191,7 @@ export default function VendorStorePage() {
       maxPrice: filters.maxPrice || "",
       sortBy: filters.sortBy || "",
       inStock: filters.inStock ? "true" : "",
+      minRating: filters.minRating || "",
     });
   };
 
@@ -259,7 +268,7 @@ export default function VendorStorePage() {
               </div>
 
               {/* Status */}
-              <div className="flex items-center gap-2 mb-4">
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mb-4">
                 <Badge
                   variant={vendor.shopOpen ? "default" : "secondary"}
                   className={vendor.shopOpen ? "bg-green-500" : ""}
@@ -270,12 +279,42 @@ export default function VendorStorePage() {
                   <Package className="w-4 h-4" />
                   <span>{vendor.productCount} products</span>
                 </div>
+                {vendor.reviewCount > 0 && (
+                  <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
+                    <span>
+                      <span className="font-semibold text-foreground">
+                        {vendor.averageRating.toFixed(1)}
+                      </span>{" "}
+                      ({vendor.reviewCount} {vendor.reviewCount === 1 ? "review" : "reviews"})
+                    </span>
+                  </div>
+                )}
+                {vendor.unitsSold30d > 0 && (
+                  <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <ShoppingBag className="w-4 h-4" />
+                    <span>{vendor.unitsSold30d} sold in the last 30 days</span>
+                  </div>
+                )}
               </div>
 
               {/* Description */}
               {vendor.description && (
                 <p className="text-muted-foreground">{vendor.description}</p>
               )}
+
+              {/* Closed shop banner - its products are hidden until it reopens */}
+              {!vendor.shopOpen && (
+                <Alert className="mt-4 border-amber-600 bg-amber-50">
+                  <Clock className="h-4 w-4 text-amber-600" />
+                  <AlertDescription className="text-amber-800">
+                    <span className="font-semibold">This shop is temporarily closed.</span>
+                    {vendor.shopClosedReason && ` ${vendor.shopClosedReason}`}
+                    {vendor.shopReopensAt &&
+                      ` Reopens on ${new Date(vendor.shopReopensAt).toLocaleDateString("en-LK")}.`}
+                  </AlertDescription>
+                </Alert>
+              )}
             </div>
           </div>
         </div>
@@ -302,12 +341,14 @@ export default function VendorStorePage() {
         <ProductFilters
           categories={allCategories}
           onFilterChange={handleFilterChange}
+          isSearching={Boolean(search)}
           initialFilters={{
             categoryId,
             minPrice,
             maxPrice,
             sortBy,
             inStock,
+            minRating,
           }}
         />
       </div>
@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Heart } from "lucide-react";
+import { useWishlistStore } from "@/stores/wishlistStore";
+import { useAuthStore } from "@/stores/authStore";
+import { WishlistItemCard } from "@/components/wishlist/WishlistItemCard";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+
+export default function WishlistPage() {
+  const { isAuthenticated } = useAuthStore();
+  const { items, fetchWishlist } = useWishlistStore();
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadWishlist = async () => {
+      if (isAuthenticated) {
+        await fetchWishlist();
+      }
+      setIsLoading(false);
+    };
+
+    loadWishlist();
+  }, [isAuthenticated, fetchWishlist]);
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <Skeleton className="h-10 w-48 mb-8" />
+        <div className="space-y-4">
+          <Skeleton className="h-32" />
+          <Skeleton className="h-32" />
+          <Skeleton className="h-32" />
+        </div>
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col items-center justify-center py-16 px-4">
+          <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mb-6">
+            <Heart className="w-12 h-12 text-gray-400" />
+          </div>
+
+          <h2 className="text-2xl font-semibold mb-2">Your wishlist is empty</h2>
+
+          <p className="text-muted-foreground text-center mb-8 max-w-md">
+            Tap the heart on any product to save it here. We&apos;ll let you know
+            when its price drops or it&apos;s back in stock.
+          </p>
+
+          <Link href="/products">
+            <Button size="lg">Browse Products</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-2xl md:text-3xl font-bold mb-8">
+        Wishlist ({items.length})
+      </h1>
+
+      {!isAuthenticated && (
+        <div className="mb-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <p className="text-sm text-blue-700">
+            <Link href="/login?redirect=/wishlist" className="font-medium underline">
+              Log in
+            </Link>{" "}
+            to keep your wishlist across devices and get price drop and back in
+            stock alerts.
+          </p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg border divide-y">
+        {items.map((item) => (
+          <WishlistItemCard key={item.id} item={item} />
+        ))}
+      </div>
+    </div>
+  );
+}
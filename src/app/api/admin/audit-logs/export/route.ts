@@ -0,0 +1,98 @@
+/**
+ * Admin audit log export API
+ * GET /api/admin/audit-logs/export - Download the filtered audit log as CSV
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import Papa from "papaparse";
+import { format } from "date-fns";
+import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/prisma";
+import { buildAuditLogWhere, recordAdminAction } from "@/lib/audit";
+import { auditLogFiltersSchema } from "@/lib/validations/audit";
+import { AUDIT_ACTION_LABELS, type AuditAction } from "@/types/audit";
+
+// Newest entries first; narrow the filters for older history
+const EXPORT_LIMIT = 10000;
+
+const toCell = (value: unknown) => (value == null ? "" : JSON.stringify(value));
+
+/**
+ * GET /api/admin/audit-logs/export
+ * Query: same filters as GET /api/admin/audit-logs
+ */
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request);
+
+    const { searchParams } = new URL(request.url);
+    const validation = auditLogFiltersSchema.safeParse({
+      action: searchParams.get("action") || undefined,
+      entityType: searchParams.get("entityType") || undefined,
+      entityId: searchParams.get("entityId") || undefined,
+      actor: searchParams.get("actor") || undefined,
+      dateFrom: searchParams.get("dateFrom") || undefined,
+      dateTo: searchParams.get("dateTo") || undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const entries = await prisma.auditLog.findMany({
+      where: buildAuditLogWhere(validation.data),
+      orderBy: { sequence: "desc" },
+      take: EXPORT_LIMIT,
+    });
+
+    const csv = Papa.unparse(
+      entries.map((entry) => ({
+        Sequence: entry.sequence,
+        Date: format(entry.createdAt, "yyyy-MM-dd HH:mm:ss"),
+        Actor: entry.actorEmail ?? "",
+        Role: entry.actorRole ?? "",
+        Action: AUDIT_ACTION_LABELS[entry.action as AuditAction] ?? entry.action,
+        "Action Code": entry.action,
+        "Entity Type": entry.entityType,
+        "Entity ID": entry.entityId ?? "",
+        Before: toCell(entry.before),
+        After: toCell(entry.after),
+        Details: toCell(entry.metadata),
+        "IP Address": entry.ipAddress ?? "",
+        "User Agent": entry.userAgent ?? "",
+        Hash: entry.hash,
+      })),
+      { header: true, quotes: true }
+    );
+
+    await recordAdminAction(request, {
+      action: "report.export",
+      entityType: "Report",
+      entityId: "audit_log",
+      metadata: { filters: validation.data, rows: entries.length },
+    });
+
+    const filename = `audit_log_${format(new Date(), "yyyy-MM-dd")}.csv`;
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv;charset=utf-8;",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[Admin Audit Log Export] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to export audit log" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Admin audit log API
+ * GET /api/admin/audit-logs - Search the audit log
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/prisma";
+import { buildAuditLogWhere, toAuditLogView } from "@/lib/audit";
+import { auditLogQuerySchema } from "@/lib/validations/audit";
+
+/**
+ * GET /api/admin/audit-logs
+ * Query: action, entityType, entityId, actor (email), dateFrom, dateTo, page, limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request);
+
+    const { searchParams } = new URL(request.url);
+    const validation = auditLogQuerySchema.safeParse({
+      action: searchParams.get("action") || undefined,
+      entityType: searchParams.get("entityType") || undefined,
+      entityId: searchParams.get("entityId") || undefined,
+      actor: searchParams.get("actor") || undefined,
+      dateFrom: searchParams.get("dateFrom") || undefined,
+      dateTo: searchParams.get("dateTo") || undefined,
+      page: searchParams.get("page") || "1",
+      limit: searchParams.get("limit") || "25",
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { page, limit, ...filters } = validation.data;
+    const where = buildAuditLogWhere(filters);
+
+    const [entries, total, entityTypes] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { sequence: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.auditLog.count({ where }),
+      prisma.auditLog.findMany({
+        distinct: ["entityType"],
+        select: { entityType: true },
+        orderBy: { entityType: "asc" },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        entries: entries.map(toAuditLogView),
+        entityTypes: entityTypes.map((row) => row.entityType),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("[Admin Audit Log] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch audit log" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Admin audit log verification API
+ * GET /api/admin/audit-logs/verify - Check the hash chain for tampering
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { verifyAuditChain } from "@/lib/audit";
+
+/**
+ * GET /api/admin/audit-logs/verify
+ * Recomputes every entry's hash; reports the first entry that was changed,
+ * removed or inserted out of order.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const adminUser = requireAdmin(request);
+
+    const result = await verifyAuditChain();
+
+    if (!result.valid) {
+      console.warn(
+        `[Audit] Chain verification by admin ${adminUser.userId} failed at entry ${result.brokenAt?.sequence}: ${result.brokenAt?.reason}`
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("[Admin Audit Log Verify] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to verify audit log" },
+      { status: 500 }
+    );
+  }
+}
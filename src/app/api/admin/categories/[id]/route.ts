@@ -3,6 +3,9 @@ import { prisma } from "@/lib/prisma";
 import { generateSlug, generateUniqueSlug } from "@/lib/utils/slug";
 import { updateCategorySchema } from "@/lib/validations/category";
 import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { releaseImages } from "@/lib/storage/storageService";
+import { refreshCategorySearchIndex } from "@/lib/search/searchIndex";
+import { recordAdminAction } from "@/lib/audit";
 
 // Helper: Check category depth (max 2 levels)
 async function getCategoryDepth(categoryId: string): Promise<number> {
@@ -231,6 +234,27 @@ export async function PATCH(
       },
     });
 
+    await recordAdminAction(request, {
+      action: "category.update",
+      entityType: "Category",
+      entityId: id,
+      before: existingCategory,
+      after: { ...category, parent: undefined, _count: undefined },
+    });
+
+    // Delete the replaced image if nothing else uses it
+    if (existingCategory.image && existingCategory.image !== category.image) {
+      await releaseImages([existingCategory.image]);
+    }
+
+    // Category names are part of the product search index
+    if (
+      category.name !== existingCategory.name ||
+      category.parentId !== existingCategory.parentId
+    ) {
+      await refreshCategorySearchIndex(id);
+    }
+
     return NextResponse.json({
       success: true,
       data: { category },
@@ -267,7 +291,7 @@ export async function DELETE(
     const { id } = await params;
 
     // Use transaction to check constraints and delete
-    await prisma.$transaction(async (tx) => {
+    const deleted = await prisma.$transaction(async (tx) => {
       // Check if category exists
       const category = await tx.category.findUnique({
         where: { id },
@@ -300,11 +324,28 @@ export async function DELETE(
       }
 
       // Safe to delete
-      await tx.category.delete({
+      const deletedCategory = await tx.category.delete({
         where: { id },
       });
+
+      await recordAdminAction(
+        request,
+        {
+          action: "category.delete",
+          entityType: "Category",
+          entityId: id,
+          before: deletedCategory,
+        },
+        tx
+      );
+
+      return deletedCategory;
     });
 
+    if (deleted.image) {
+      await releaseImages([deleted.image]);
+    }
+
     return NextResponse.json({
       success: true,
       data: {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { toggleCategoryStatusSchema } from "@/lib/validations/category";
 import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { recordAdminAction } from "@/lib/audit";
 
 /**
  * PATCH /api/admin/categories/[id]/toggle-status
@@ -54,6 +55,15 @@ export async function PATCH(
       data: { isActive },
     });
 
+    await recordAdminAction(request, {
+      action: "category.toggle_status",
+      entityType: "Category",
+      entityId: id,
+      before: { isActive: existingCategory.isActive },
+      after: { isActive: category.isActive },
+      metadata: { categoryName: category.name },
+    });
+
     return NextResponse.json({
       success: true,
       data: {
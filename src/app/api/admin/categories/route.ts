@@ -7,6 +7,7 @@ import {
 } from "@/lib/validations/category";
 import { Prisma } from "@prisma/client";
 import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { recordAdminAction } from "@/lib/audit";
 
 // Helper: Check category depth (max 2 levels)
 async function getCategoryDepth(categoryId: string): Promise<number> {
@@ -106,6 +107,13 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await recordAdminAction(request, {
+      action: "category.create",
+      entityType: "Category",
+      entityId: category.id,
+      after: category,
+    });
+
     return NextResponse.json({
       success: true,
       data: { category },
@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
 import { prisma } from "@/lib/prisma";
+import { recordAdminAction } from "@/lib/audit";
 import { updateCouponSchema } from "@/lib/validations/coupon";
 
 /**
@@ -217,6 +218,15 @@ export async function PATCH(
       },
     });
 
+    await recordAdminAction(request, {
+      action: "coupon.update",
+      entityType: "Coupon",
+      entityId: couponId,
+      before: existingCoupon,
+      after: { ...updatedCoupon, vendor: undefined },
+      metadata: { code: updatedCoupon.code },
+    });
+
     return NextResponse.json({
       success: true,
       data: updatedCoupon,
@@ -285,6 +295,13 @@ export async function DELETE(
       where: { id: couponId },
     });
 
+    await recordAdminAction(request, {
+      action: "coupon.delete",
+      entityType: "Coupon",
+      entityId: couponId,
+      before: { ...coupon, _count: undefined },
+    });
+
     return NextResponse.json({
       success: true,
       message: "Coupon deleted successfully",
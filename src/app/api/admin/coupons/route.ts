@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
 import { prisma } from "@/lib/prisma";
+import { recordAdminAction } from "@/lib/audit";
 import { Prisma } from "@prisma/client";
 import {
   createCouponSchema,
@@ -220,6 +221,13 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await recordAdminAction(request, {
+      action: "coupon.create",
+      entityType: "Coupon",
+      entityId: coupon.id,
+      after: coupon,
+    });
+
     return NextResponse.json({
       success: true,
       data: coupon,
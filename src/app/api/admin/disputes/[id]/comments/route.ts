@@ -5,6 +5,7 @@ import { addDisputeCommentSchema } from '@/lib/validations/dispute';
 import { DisputeStatus } from '@/types/dispute';
 import { createNotification } from '@/lib/notifications/notificationService';
 import { NotificationType } from '@/types/notification';
+import { recordAdminAction } from '@/lib/audit';
 
 /**
  * POST /api/admin/disputes/[id]/comments
@@ -113,6 +114,22 @@ export async function POST(
         });
       }
 
+      await recordAdminAction(
+        req,
+        {
+          action: 'dispute.comment',
+          entityType: 'Dispute',
+          entityId: disputeId,
+          before: { status: dispute.status },
+          after: {
+            status:
+              dispute.status === DisputeStatus.OPEN ? DisputeStatus.IN_REVIEW : dispute.status,
+          },
+          metadata: { commentId: comment.id, comment: content },
+        },
+        tx
+      );
+
       return comment;
     });
 
@@ -10,6 +10,8 @@ import {
 import { DisputeStatus, ResolutionType } from '@/types/dispute';
 import { createNotification } from '@/lib/notifications/notificationService';
 import { NotificationType } from '@/types/notification';
+import type { Refund } from '@prisma/client';
+import { recordAdminAction } from '@/lib/audit';
 
 /**
  * PATCH /api/admin/disputes/[id]/resolve
@@ -42,7 +44,7 @@ export async function PATCH(
       );
     }
 
-    const { resolutionType, adminNotes, refundAmount } = validation.data;
+    const { resolutionType, adminNotes, refundAmount, items } = validation.data;
 
     // Fetch dispute with order details
     const dispute = await prisma.dispute.findUnique({
@@ -54,6 +56,13 @@ export async function PATCH(
             orderNumber: true,
             totalAmount: true,
             status: true,
+            items: {
+              select: {
+                id: true,
+                quantity: true,
+                refundedQuantity: true,
+              },
+            },
           },
         },
       },
@@ -113,6 +122,32 @@ export async function PATCH(
       );
     }
 
+    // Validate item refunds before resolving (the refund itself runs after)
+    if (items) {
+      for (const refundItem of items) {
+        const orderItem = dispute.order.items.find(
+          (item) => item.id === refundItem.orderItemId
+        );
+        if (!orderItem) {
+          return NextResponse.json(
+            { success: false, error: 'Refund item does not belong to this order' },
+            { status: 400 }
+          );
+        }
+
+        const refundableQuantity = orderItem.quantity - orderItem.refundedQuantity;
+        if (refundItem.quantity > refundableQuantity) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: `Only ${refundableQuantity} unit(s) of this item can be refunded`,
+            },
+            { status: 400 }
+          );
+        }
+      }
+    }
+
     // Process resolution in a transaction
     const result = await prisma.$transaction(
       async (tx) => {
@@ -157,6 +192,25 @@ export async function PATCH(
           },
         });
 
+        await recordAdminAction(
+          req,
+          {
+            action: 'dispute.resolve',
+            entityType: 'Dispute',
+            entityId: disputeId,
+            before: { status: dispute.status },
+            after: { status: newStatus },
+            metadata: {
+              orderNumber: dispute.order.orderNumber,
+              resolutionType,
+              adminNotes,
+              refundAmount,
+              items,
+            },
+          },
+          tx
+        );
+
         return updatedDispute;
       },
       {
@@ -167,23 +221,44 @@ export async function PATCH(
 
     // CRITICAL: Process refund if resolved in customer's favor
     // This is done OUTSIDE the transaction to avoid long-running transactions
+    let refund: Refund | null = null;
     if (resolutionType === ResolutionType.CUSTOMER_FAVOR) {
       try {
-        await processDisputeRefund(
+        refund = await processDisputeRefund(
           dispute.orderId,
           disputeId,
-          refundAmount
+          refundAmount,
+          user.userId,
+          items
         );
 
-        // Add success comment
+        // Record the PayHere outcome (pending refunds are retried automatically)
         await prisma.disputeComment.create({
           data: {
             disputeId,
             userId: user.userId,
-            comment: `Refund processed successfully. Amount: Rs. ${(refundAmount || dispute.order.totalAmount.toNumber()).toFixed(2)}`,
+            comment:
+              refund.status === 'SUCCEEDED'
+                ? `Refund processed successfully. Amount: Rs. ${refund.amount.toFixed(2)}${refund.payhereRefundId ? ` (PayHere ref: ${refund.payhereRefundId})` : ''}`
+                : refund.status === 'PENDING'
+                  ? `Refund of Rs. ${refund.amount.toFixed(2)} submitted to PayHere and will be retried automatically. Last error: ${refund.lastError || 'None'}`
+                  : `⚠️ PayHere refund of Rs. ${refund.amount.toFixed(2)} failed. Please process manually. Error: ${refund.lastError || 'Unknown error'}`,
             isAdmin: true,
           },
         });
+
+        await recordAdminAction(req, {
+          action: 'order.refund',
+          entityType: 'Order',
+          entityId: dispute.orderId,
+          metadata: {
+            orderNumber: dispute.order.orderNumber,
+            disputeId,
+            refundId: refund.id,
+            amount: refund.amount.toFixed(2),
+            status: refund.status,
+          },
+        });
       } catch (refundError) {
         console.error('Error processing refund:', refundError);
 
@@ -215,14 +290,15 @@ export async function PATCH(
         userId: result.customer.user.id,
         type: NotificationType.DISPUTE_RESOLVED,
         title: 'Dispute Resolved',
-        message: `Your dispute for order ${dispute.order.orderNumber} has been resolved: ${resolutionType}${resolutionType === ResolutionType.CUSTOMER_FAVOR && refundAmount ? `. Refund of Rs. ${refundAmount.toFixed(2)} has been processed.` : '.'}`,
+        message: `Your dispute for order ${dispute.order.orderNumber} has been resolved: ${resolutionType}${refund ? `. A refund of Rs. ${refund.amount.toFixed(2)} has been ${refund.status === 'SUCCEEDED' ? 'issued to your original payment method' : 'approved and will be completed shortly'}.` : '.'}`,
         link: `/orders/disputes/${disputeId}`,
         metadata: {
           disputeId,
           orderId: dispute.orderId,
           orderNumber: dispute.order.orderNumber,
           resolutionType,
-          refundAmount: resolutionType === ResolutionType.CUSTOMER_FAVOR ? refundAmount || dispute.order.totalAmount.toNumber() : null,
+          refundAmount: refund ? refund.amount.toNumber() : undefined,
+          refundId: refund?.id,
         },
       });
     } catch (notifError) {
@@ -233,7 +309,14 @@ export async function PATCH(
       success: true,
       data: result,
       message: `Dispute resolved: ${resolutionType}`,
-      refundProcessed: resolutionType === ResolutionType.CUSTOMER_FAVOR,
+      refundProcessed: refund?.status === 'SUCCEEDED',
+      refund: refund
+        ? {
+            id: refund.id,
+            amount: refund.amount.toNumber(),
+            status: refund.status,
+          }
+        : null,
     });
   } catch (error) {
     const authError = handleAuthError(error);
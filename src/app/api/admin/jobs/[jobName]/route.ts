@@ -0,0 +1,89 @@
+/**
+ * Admin background job detail API
+ * GET /api/admin/jobs/[jobName] - Job status and run history
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/prisma";
+import { getJobStatuses, isJobName } from "@/lib/jobs";
+import { jobRunsQuerySchema } from "@/lib/validations/job";
+
+/**
+ * GET /api/admin/jobs/[jobName]
+ * Query: page, limit, status (RUNNING | SUCCEEDED | FAILED)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobName: string }> }
+) {
+  try {
+    requireAdmin(request);
+
+    const { jobName } = await params;
+
+    if (!isJobName(jobName)) {
+      return NextResponse.json(
+        { success: false, error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = jobRunsQuerySchema.safeParse({
+      page: searchParams.get("page") || "1",
+      limit: searchParams.get("limit") || "20",
+      status: searchParams.get("status") || undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { page, limit, status } = validation.data;
+
+    const where: Prisma.JobRunWhereInput = { jobName };
+    if (status) {
+      where.status = status;
+    }
+
+    const [statuses, runs, total] = await Promise.all([
+      getJobStatuses(),
+      prisma.jobRun.findMany({
+        where,
+        orderBy: { startedAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.jobRun.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        job: statuses.find((job) => job.name === jobName),
+        runs,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("[Admin Job Detail] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch job history" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Admin manual job run API
+ * POST /api/admin/jobs/[jobName]/run - Run a background job now
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import {
+  JOBS,
+  getJobLeader,
+  getJobStatuses,
+  isJobName,
+  requestJobRun,
+} from "@/lib/jobs";
+import { recordAdminAction } from "@/lib/audit";
+
+/**
+ * POST /api/admin/jobs/[jobName]/run
+ * Queues the run for the scheduler leader (picked up within a few seconds).
+ * The result appears in the job's run history; the regular schedule is unchanged.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobName: string }> }
+) {
+  try {
+    const adminUser = requireAdmin(request);
+
+    const { jobName } = await params;
+
+    if (!isJobName(jobName)) {
+      return NextResponse.json(
+        { success: false, error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!JOBS[jobName].enabled) {
+      return NextResponse.json(
+        { success: false, error: "This job is disabled by server configuration" },
+        { status: 400 }
+      );
+    }
+
+    const leader = await getJobLeader();
+    if (!leader) {
+      return NextResponse.json(
+        { success: false, error: "No job scheduler is running — start the socket server" },
+        { status: 503 }
+      );
+    }
+
+    const job = (await getJobStatuses()).find((status) => status.name === jobName);
+    if (job?.running) {
+      return NextResponse.json(
+        { success: false, error: "Job is already running" },
+        { status: 409 }
+      );
+    }
+
+    const trigger = await requestJobRun(jobName, adminUser.userId);
+
+    console.log(`[Admin] Job ${jobName} run requested by admin ${adminUser.userId}`);
+
+    await recordAdminAction(request, {
+      action: "job.run",
+      entityType: "Job",
+      entityId: jobName,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { trigger },
+        message: "Job run queued",
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("[Admin Run Job] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to queue job run" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Admin background jobs API
+ * GET /api/admin/jobs - Status of every scheduled job
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { getJobLeader, getJobStatuses } from "@/lib/jobs";
+
+/**
+ * GET /api/admin/jobs
+ * Returns each job's schedule, next run and most recent run, plus the
+ * socket server instance currently leading the scheduler (null if none)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request);
+
+    const [jobs, leader] = await Promise.all([
+      getJobStatuses(),
+      getJobLeader(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { jobs, leader },
+    });
+  } catch (error) {
+    console.error("[Admin Jobs] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch job status" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Admin maintenance window API
+ * PATCH  /api/admin/maintenance/[windowId] - Reschedule or edit a window
+ * DELETE /api/admin/maintenance/[windowId] - Cancel a window
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/prisma";
+import { updateMaintenanceWindowSchema } from "@/lib/validations/maintenance";
+import { recordAdminAction } from "@/lib/audit";
+
+/**
+ * Load a window that can still be changed (not cancelled, not finished)
+ */
+async function findEditableWindow(windowId: string) {
+  const window = await prisma.maintenanceWindow.findUnique({
+    where: { id: windowId },
+  });
+
+  if (!window) {
+    return { error: "Maintenance window not found", status: 404 } as const;
+  }
+
+  if (window.cancelledAt || window.endsAt <= new Date()) {
+    return { error: "Maintenance window has already been cancelled or finished", status: 400 } as const;
+  }
+
+  return { window } as const;
+}
+
+/**
+ * PATCH /api/admin/maintenance/[windowId]
+ * Body: any of { startsAt, endsAt, message, noticeHours }
+ * Moving the start time of an announced window announces it again.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ windowId: string }> }
+) {
+  try {
+    requireAdmin(request);
+    const { windowId } = await params;
+
+    const body = await request.json();
+    const validation = updateMaintenanceWindowSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const found = await findEditableWindow(windowId);
+    if ("error" in found) {
+      return NextResponse.json(
+        { success: false, error: found.error },
+        { status: found.status }
+      );
+    }
+
+    const changes = validation.data;
+    const startsAt = changes.startsAt ?? found.window.startsAt;
+    const endsAt = changes.endsAt ?? found.window.endsAt;
+
+    if (endsAt <= startsAt) {
+      return NextResponse.json(
+        { success: false, error: "End time must be after start time" },
+        { status: 400 }
+      );
+    }
+
+    if (endsAt <= new Date()) {
+      return NextResponse.json(
+        { success: false, error: "Maintenance window must end in the future" },
+        { status: 400 }
+      );
+    }
+
+    const rescheduled =
+      startsAt.getTime() !== found.window.startsAt.getTime() ||
+      endsAt.getTime() !== found.window.endsAt.getTime();
+
+    const window = await prisma.maintenanceWindow.update({
+      where: { id: windowId },
+      data: {
+        startsAt,
+        endsAt,
+        ...(changes.message !== undefined && { message: changes.message || null }),
+        ...(changes.noticeHours !== undefined && { noticeHours: changes.noticeHours }),
+        // Users were told the old times - announce the new ones
+        ...(rescheduled && { announcedAt: null }),
+      },
+    });
+
+    await recordAdminAction(request, {
+      action: "maintenance.update",
+      entityType: "MaintenanceWindow",
+      entityId: windowId,
+      before: found.window,
+      after: window,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { window },
+      message: "Maintenance window updated",
+    });
+  } catch (error) {
+    console.error("[Admin Maintenance] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to update maintenance window" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/maintenance/[windowId]
+ * Cancels the window (kept for history). A window in progress ends now.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ windowId: string }> }
+) {
+  try {
+    requireAdmin(request);
+    const { windowId } = await params;
+
+    const found = await findEditableWindow(windowId);
+    if ("error" in found) {
+      return NextResponse.json(
+        { success: false, error: found.error },
+        { status: found.status }
+      );
+    }
+
+    const window = await prisma.maintenanceWindow.update({
+      where: { id: windowId },
+      data: { cancelledAt: new Date() },
+    });
+
+    await recordAdminAction(request, {
+      action: "maintenance.cancel",
+      entityType: "MaintenanceWindow",
+      entityId: windowId,
+      before: found.window,
+      after: window,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { window },
+      message: "Maintenance window cancelled",
+    });
+  } catch (error) {
+    console.error("[Admin Maintenance] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to cancel maintenance window" },
+      { status: 500 }
+    );
+  }
+}
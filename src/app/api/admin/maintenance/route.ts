@@ -0,0 +1,141 @@
+/**
+ * Admin maintenance API
+ * GET  /api/admin/maintenance - Current maintenance status and scheduled windows
+ * POST /api/admin/maintenance - Schedule a maintenance window
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/prisma";
+import { getMaintenanceStatus } from "@/lib/maintenance";
+import { recordAdminAction } from "@/lib/audit";
+import {
+  createMaintenanceWindowSchema,
+  maintenanceWindowsQuerySchema,
+} from "@/lib/validations/maintenance";
+
+/**
+ * GET /api/admin/maintenance
+ * Query: includePast (default false), page, limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request);
+
+    const { searchParams } = new URL(request.url);
+    const validation = maintenanceWindowsQuerySchema.safeParse({
+      includePast: searchParams.get("includePast") || "false",
+      page: searchParams.get("page") || "1",
+      limit: searchParams.get("limit") || "20",
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { includePast, page, limit } = validation.data;
+
+    const where: Prisma.MaintenanceWindowWhereInput = includePast
+      ? {}
+      : { cancelledAt: null, endsAt: { gt: new Date() } };
+
+    const [status, windows, total] = await Promise.all([
+      getMaintenanceStatus(),
+      prisma.maintenanceWindow.findMany({
+        where,
+        orderBy: { startsAt: includePast ? "desc" : "asc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.maintenanceWindow.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        status,
+        windows,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("[Admin Maintenance] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch maintenance windows" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/maintenance
+ * Body: { startsAt, endsAt, message?, noticeHours? }
+ * The window is announced to all users noticeHours before it starts
+ * (immediately if that time has already passed).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const adminUser = requireAdmin(request);
+
+    const body = await request.json();
+    const validation = createMaintenanceWindowSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { startsAt, endsAt, message, noticeHours } = validation.data;
+
+    const window = await prisma.maintenanceWindow.create({
+      data: {
+        startsAt,
+        endsAt,
+        message: message || null,
+        noticeHours,
+        createdBy: adminUser.userId,
+      },
+    });
+
+    await recordAdminAction(request, {
+      action: "maintenance.schedule",
+      entityType: "MaintenanceWindow",
+      entityId: window.id,
+      after: window,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { window },
+        message: "Maintenance window scheduled",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("[Admin Maintenance] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to schedule maintenance window" },
+      { status: 500 }
+    );
+  }
+}
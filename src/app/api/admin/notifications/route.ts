@@ -9,6 +9,7 @@ import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
 import { prisma } from "@/lib/prisma";
 import { createNotification } from "@/lib/notifications";
 import { createAnnouncementSchema } from "@/lib/validations/notification";
+import { recordAdminAction } from "@/lib/audit";
 
 /**
  * POST /api/admin/notifications
@@ -92,6 +93,12 @@ export async function POST(request: NextRequest) {
 
     await Promise.all(notificationPromises);
 
+    await recordAdminAction(request, {
+      action: "notification.broadcast",
+      entityType: "Notification",
+      metadata: { title, message, type, recipientRole, recipientCount: recipients.length },
+    });
+
     return NextResponse.json({
       success: true,
       data: {
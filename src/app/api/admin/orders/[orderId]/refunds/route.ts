@@ -0,0 +1,145 @@
+/**
+ * Admin item refund API
+ * POST /api/admin/orders/[orderId]/refunds - Refund specific items/quantities of an order
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/prisma";
+import { refundOrderItemsSchema } from "@/lib/validations/order";
+import { processItemRefund } from "@/lib/utils/refund";
+import { recordAdminAction } from "@/lib/audit";
+
+/**
+ * POST /api/admin/orders/[orderId]/refunds
+ * Debits only the affected vendors' wallets and sends the customer refund
+ * (items minus their share of the coupon discount) to PayHere
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const adminUser = requireAdmin(request);
+
+    const { orderId } = await params;
+
+    const body = await request.json();
+    const validation = refundOrderItemsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { items, reason } = validation.data;
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        payment: { select: { status: true } },
+        items: {
+          select: {
+            id: true,
+            quantity: true,
+            refundedQuantity: true,
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    if (order.payment?.status !== "COMPLETED") {
+      return NextResponse.json(
+        { success: false, error: "Order has no completed payment to refund" },
+        { status: 400 }
+      );
+    }
+
+    for (const refundItem of items) {
+      const orderItem = order.items.find((item) => item.id === refundItem.orderItemId);
+      if (!orderItem) {
+        return NextResponse.json(
+          { success: false, error: "Refund item does not belong to this order" },
+          { status: 400 }
+        );
+      }
+
+      const refundableQuantity = orderItem.quantity - orderItem.refundedQuantity;
+      if (refundItem.quantity > refundableQuantity) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Only ${refundableQuantity} unit(s) of this item can be refunded`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const refund = await processItemRefund({
+      orderId,
+      items,
+      reason,
+      requestedBy: adminUser.userId,
+    });
+
+    console.log(`[Admin] Item refund created for order ${order.orderNumber}:`, {
+      refundId: refund.id,
+      amount: refund.amount.toFixed(2),
+      status: refund.status,
+      adminUserId: adminUser.userId,
+    });
+
+    await recordAdminAction(request, {
+      action: "order.refund",
+      entityType: "Order",
+      entityId: orderId,
+      metadata: {
+        orderNumber: order.orderNumber,
+        refundId: refund.id,
+        amount: refund.amount.toFixed(2),
+        status: refund.status,
+        items,
+        reason,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          refund: {
+            id: refund.id,
+            amount: refund.amount.toNumber(),
+            status: refund.status,
+            payhereRefundId: refund.payhereRefundId,
+            lastError: refund.lastError,
+          },
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("[Admin Item Refund] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to refund items",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -9,8 +9,10 @@ import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
 import { prisma } from "@/lib/prisma";
 import { overrideOrderStatusSchema } from "@/lib/validations/order";
 import { releaseVendorFunds } from "@/lib/utils/wallet";
+import { releaseOrderStock } from "@/lib/utils/stock";
 import { createNotification } from "@/lib/notifications/notificationService";
 import { NotificationType } from "@/types/notification";
+import { recordAdminAction } from "@/lib/audit";
 
 /**
  * PATCH /api/admin/orders/[orderId]/status
@@ -113,6 +115,34 @@ export async function PATCH(
         await releaseVendorFunds(orderId, order.orderNumber, tx);
       }
 
+      // 5. Return held stock when admin cancels the order
+      if (status === "CANCELLED") {
+        await releaseOrderStock(
+          orderId,
+          `Order ${order.orderNumber} cancelled by admin: ${reason}`,
+          tx,
+          adminUserId
+        );
+      }
+
+      // 6. Audit trail
+      await recordAdminAction(
+        request,
+        {
+          action: "order.status_override",
+          entityType: "Order",
+          entityId: orderId,
+          before: { status: order.status },
+          after: { status },
+          metadata: {
+            orderNumber: order.orderNumber,
+            reason,
+            fundsReleased: shouldReleaseFunds,
+          },
+        },
+        tx
+      );
+
       return updatedOrder;
     });
 
@@ -9,6 +9,7 @@ import { prisma } from "@/lib/prisma";
 import { completePayoutSchema } from "@/lib/validations/wallet";
 import { createNotification } from "@/lib/notifications/notificationService";
 import { NotificationType } from "@/types/notification";
+import { recordAdminAction } from "@/lib/audit";
 
 
 
@@ -89,6 +90,24 @@ export async function POST(
         },
       });
 
+      // 4. Audit trail
+      await recordAdminAction(
+        request,
+        {
+          action: "payout.complete",
+          entityType: "Payout",
+          entityId: payoutId,
+          before: { status: payout.status, transactionRef: payout.transactionRef },
+          after: { status: updated.status, transactionRef: updated.transactionRef },
+          metadata: {
+            vendor: payout.wallet.vendor.businessName,
+            amount: payout.amount.toFixed(2),
+            notes,
+          },
+        },
+        tx
+      );
+
       return updated;
     });
 
@@ -10,6 +10,7 @@ import { prisma } from "@/lib/prisma";
 import { failPayoutSchema } from "@/lib/validations/wallet";
 import { createNotification } from "@/lib/notifications/notificationService";
 import { NotificationType } from "@/types/notification";
+import { recordAdminAction } from "@/lib/audit";
 
 
 
@@ -113,6 +114,26 @@ export async function POST(
         },
       });
 
+      // 6. Audit trail
+      await recordAdminAction(
+        request,
+        {
+          action: "payout.fail",
+          entityType: "Payout",
+          entityId: payoutId,
+          before: { status: payout.status },
+          after: { status: updated.status },
+          metadata: {
+            vendor: payout.wallet.vendor.businessName,
+            amount: payout.amount.toFixed(2),
+            availableBalanceBefore: payout.wallet.availableBalance.toFixed(2),
+            availableBalanceAfter: newAvailableBalance.toFixed(2),
+            reason: notes,
+          },
+        },
+        tx
+      );
+
       return updated;
     });
 
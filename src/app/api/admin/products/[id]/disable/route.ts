@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { disableProductSchema } from "@/lib/validations/product";
 import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { recordAdminAction } from "@/lib/audit";
 
 /**
  * PATCH /api/admin/products/[id]/disable
@@ -57,6 +58,21 @@ export async function PATCH(
       },
     });
 
+    await recordAdminAction(request, {
+      action: isDisabledByAdmin ? "product.disable" : "product.enable",
+      entityType: "Product",
+      entityId: id,
+      before: {
+        isDisabledByAdmin: existingProduct.isDisabledByAdmin,
+        adminDisableReason: existingProduct.adminDisableReason,
+      },
+      after: {
+        isDisabledByAdmin: product.isDisabledByAdmin,
+        adminDisableReason: product.adminDisableReason,
+      },
+      metadata: { productName: product.name, vendorId: product.vendorId },
+    });
+
     return NextResponse.json({
       success: true,
       data: {
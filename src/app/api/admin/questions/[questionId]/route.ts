@@ -0,0 +1,124 @@
+/**
+ * Admin Question Detail API
+ * PATCH /api/admin/questions/[questionId] — Approve, hide or restore a question
+ * DELETE /api/admin/questions/[questionId] — Delete question permanently
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ProductQuestionStatus } from "@prisma/client";
+import { moderateQuestionSchema } from "@/lib/validations/productQuestion";
+import { recordAdminAction } from "@/lib/audit";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ questionId: string }> }
+) {
+  try {
+    const userRole = request.headers.get("X-User-Role");
+    if (userRole !== "ADMIN") {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = moderateQuestionSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { questionId } = await params;
+
+    const question = await prisma.productQuestion.findUnique({
+      where: { id: questionId },
+    });
+    if (!question) {
+      return NextResponse.json(
+        { success: false, error: "Question not found" },
+        { status: 404 }
+      );
+    }
+
+    const answeredStatus = question.answer
+      ? ProductQuestionStatus.ANSWERED
+      : ProductQuestionStatus.PENDING;
+
+    const data =
+      validation.data.action === "hide"
+        ? { status: ProductQuestionStatus.HIDDEN, isFlagged: false }
+        : validation.data.action === "restore"
+        ? { status: answeredStatus, isFlagged: false }
+        : { isFlagged: false };
+
+    const updated = await prisma.productQuestion.update({
+      where: { id: questionId },
+      data: { ...data, reviewedAt: new Date() },
+    });
+
+    await recordAdminAction(request, {
+      action: "question.moderate",
+      entityType: "ProductQuestion",
+      entityId: questionId,
+      before: { status: question.status, isFlagged: question.isFlagged },
+      after: { status: updated.status, isFlagged: updated.isFlagged },
+      metadata: { moderation: validation.data.action, productId: question.productId },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { question: updated },
+    });
+  } catch (error) {
+    console.error("Moderate question error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update question" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ questionId: string }> }
+) {
+  try {
+    const userRole = request.headers.get("X-User-Role");
+    if (userRole !== "ADMIN") {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { questionId } = await params;
+
+    const question = await prisma.productQuestion.delete({
+      where: { id: questionId },
+    });
+
+    await recordAdminAction(request, {
+      action: "question.delete",
+      entityType: "ProductQuestion",
+      entityId: questionId,
+      before: {
+        productId: question.productId,
+        question: question.question,
+        answer: question.answer,
+        status: question.status,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete question error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete question" },
+      { status: 500 }
+    );
+  }
+}
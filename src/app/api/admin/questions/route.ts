@@ -0,0 +1,109 @@
+/**
+ * Admin Questions API
+ * GET /api/admin/questions — Product Q&A moderation queue
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+export async function GET(request: NextRequest) {
+  try {
+    const userRole = request.headers.get("X-User-Role");
+    if (userRole !== "ADMIN") {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const pageSize = parseInt(searchParams.get("pageSize") || "20");
+    const statusFilter = searchParams.get("status"); // ProductQuestionStatus | null
+    const flaggedFilter = searchParams.get("flagged"); // "true" | "false" | null
+    const skip = (page - 1) * pageSize;
+
+    const where: any = {};
+    if (statusFilter === "PENDING" || statusFilter === "ANSWERED" || statusFilter === "HIDDEN")
+      where.status = statusFilter;
+    if (flaggedFilter !== null && flaggedFilter !== "")
+      where.isFlagged = flaggedFilter === "true";
+
+    const [questions, total, flaggedCount] = await Promise.all([
+      prisma.productQuestion.findMany({
+        where,
+        include: {
+          product: {
+            select: {
+              id: true,
+              name: true,
+              slug: true,
+              vendor: {
+                select: { businessName: true },
+              },
+            },
+          },
+          customer: {
+            include: {
+              user: {
+                select: { firstName: true, lastName: true, email: true },
+              },
+            },
+          },
+        },
+        orderBy: { updatedAt: "desc" },
+        skip,
+        take: pageSize,
+      }),
+      prisma.productQuestion.count({ where }),
+      prisma.productQuestion.count({ where: { isFlagged: true } }),
+    ]);
+
+    // Admins see the original text alongside the masked copy
+    return NextResponse.json({
+      success: true,
+      data: {
+        questions: questions.map((q) => ({
+          id: q.id,
+          question: q.question,
+          questionFiltered: q.questionFiltered,
+          answer: q.answer,
+          answerFiltered: q.answerFiltered,
+          status: q.status,
+          isFlagged: q.isFlagged,
+          createdAt: q.createdAt.toISOString(),
+          answeredAt: q.answeredAt?.toISOString() ?? null,
+          reviewedAt: q.reviewedAt?.toISOString() ?? null,
+          product: {
+            id: q.product.id,
+            name: q.product.name,
+            slug: q.product.slug,
+            vendorName: q.product.vendor.businessName,
+          },
+          customer: {
+            name:
+              [q.customer.user.firstName, q.customer.user.lastName]
+                .filter(Boolean)
+                .join(" ") || "Anonymous",
+            email: q.customer.user.email,
+          },
+        })),
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.ceil(total / pageSize),
+        },
+        stats: {
+          flaggedCount,
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Admin questions error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch questions" },
+      { status: 500 }
+    );
+  }
+}
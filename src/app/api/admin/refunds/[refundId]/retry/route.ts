@@ -0,0 +1,92 @@
+/**
+ * Admin retry refund API
+ * POST /api/admin/refunds/[refundId]/retry - Re-send a FAILED refund to PayHere
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/prisma";
+import { attemptRefund } from "@/lib/utils/refund";
+import { recordAdminAction } from "@/lib/audit";
+
+/**
+ * POST /api/admin/refunds/[refundId]/retry
+ * Resets a FAILED refund (e.g. after fixing PayHere credentials) and
+ * attempts it immediately; further failures are retried automatically
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ refundId: string }> }
+) {
+  try {
+    const adminUser = requireAdmin(request);
+
+    const { refundId } = await params;
+
+    const refund = await prisma.refund.findUnique({
+      where: { id: refundId },
+    });
+
+    if (!refund) {
+      return NextResponse.json(
+        { success: false, error: "Refund not found" },
+        { status: 404 }
+      );
+    }
+
+    if (refund.status !== "FAILED") {
+      return NextResponse.json(
+        { success: false, error: `Only failed refunds can be retried (current: ${refund.status})` },
+        { status: 400 }
+      );
+    }
+
+    // Reset attempts so the retrier gets a full set of tries
+    await prisma.refund.update({
+      where: { id: refundId },
+      data: {
+        status: "PENDING",
+        attempts: 0,
+        nextAttemptAt: null,
+        failedAt: null,
+      },
+    });
+
+    console.log(`[Admin] Refund ${refundId} retry requested by admin ${adminUser.userId}`);
+
+    const result = await attemptRefund(refundId);
+
+    await recordAdminAction(request, {
+      action: "refund.retry",
+      entityType: "Refund",
+      entityId: refundId,
+      before: { status: refund.status, lastError: refund.lastError },
+      after: { status: result.status, lastError: result.lastError },
+      metadata: { orderId: refund.orderId, amount: refund.amount.toFixed(2) },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        refund: {
+          id: result.id,
+          amount: result.amount.toNumber(),
+          status: result.status,
+          attempts: result.attempts,
+          payhereRefundId: result.payhereRefundId,
+          lastError: result.lastError,
+        },
+      },
+    });
+  } catch (error) {
+    console.error("[Admin Retry Refund] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to retry refund" },
+      { status: 500 }
+    );
+  }
+}
@@ -8,6 +8,7 @@ import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
 import { prisma } from "@/lib/prisma";
 import { exportRequestSchema } from "@/lib/validations/report";
 import { formatReportData } from "@/lib/utils/export";
+import { recordAdminAction } from "@/lib/audit";
 import Papa from "papaparse";
 import { format } from "date-fns";
 
@@ -192,6 +193,13 @@ export async function POST(request: NextRequest) {
     // Return CSV with proper headers
     const filename = `${reportType}_report_${format(new Date(), "yyyy-MM-dd")}.csv`;
 
+    await recordAdminAction(request, {
+      action: "report.export",
+      entityType: "Report",
+      entityId: reportType,
+      metadata: { filters, rows: formattedData.length },
+    });
+
     return new NextResponse(csv, {
       status: 200,
       headers: {
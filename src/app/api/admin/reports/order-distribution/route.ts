@@ -84,6 +84,7 @@ export async function GET(request: NextRequest) {
       "DELIVERED",
       "CANCELLED",
       "DISPUTED",
+      "PARTIALLY_REFUNDED",
       "REFUNDED",
     ];
 
@@ -1,11 +1,20 @@
 /**
  * Admin Review Detail API
- * PATCH /api/admin/reviews/[reviewId] — Toggle visibility
+ * PATCH /api/admin/reviews/[reviewId] — Moderate the review, its vendor reply or photos
  * DELETE /api/admin/reviews/[reviewId] — Delete review permanently
+ *
+ * PATCH body: { action: "toggleVisibility" | "hideReply" | "showReply" | "removePhoto", photoUrl? }
+ * An empty body toggles visibility.
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
+import { moderateReviewSchema } from "@/lib/validations/review";
+import { getReviewPhotos } from "@/lib/utils/review";
+import { releaseImages } from "@/lib/storage/storageService";
+import { refreshProductStats } from "@/lib/utils/productStats";
+import { recordAdminAction } from "@/lib/audit";
 
 export async function PATCH(
   request: NextRequest,
@@ -32,9 +41,71 @@ export async function PATCH(
       );
     }
 
+    const body = await request.json().catch(() => ({ action: "toggleVisibility" }));
+    const validation = moderateReviewSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { action, photoUrl } = validation.data;
+    const photos = getReviewPhotos(review.photos);
+    let data: Prisma.ProductReviewUpdateInput;
+
+    switch (action) {
+      case "toggleVisibility":
+        data = { isVisible: !review.isVisible };
+        break;
+      case "hideReply":
+      case "showReply":
+        if (!review.vendorReply) {
+          return NextResponse.json(
+            { success: false, error: "This review has no vendor reply" },
+            { status: 400 }
+          );
+        }
+        data = { isReplyVisible: action === "showReply" };
+        break;
+      case "removePhoto":
+        if (!photoUrl || !photos.includes(photoUrl)) {
+          return NextResponse.json(
+            { success: false, error: "Photo not found on this review" },
+            { status: 404 }
+          );
+        }
+        data = { photos: photos.filter((url) => url !== photoUrl) };
+        break;
+    }
+
     const updated = await prisma.productReview.update({
       where: { id: reviewId },
-      data: { isVisible: !review.isVisible },
+      data,
+    });
+
+    if (action === "toggleVisibility") {
+      await refreshProductStats([review.productId]);
+    }
+    if (action === "removePhoto" && photoUrl) {
+      await releaseImages([photoUrl]);
+    }
+
+    await recordAdminAction(request, {
+      action: "review.moderate",
+      entityType: "ProductReview",
+      entityId: reviewId,
+      before: {
+        isVisible: review.isVisible,
+        isReplyVisible: review.isReplyVisible,
+        photos,
+      },
+      after: {
+        isVisible: updated.isVisible,
+        isReplyVisible: updated.isReplyVisible,
+        photos: getReviewPhotos(updated.photos),
+      },
+      metadata: { moderation: action, productId: review.productId },
     });
 
     return NextResponse.json({
@@ -42,7 +113,7 @@ export async function PATCH(
       data: { review: updated },
     });
   } catch (error) {
-    console.error("Toggle review visibility error:", error);
+    console.error("Moderate review error:", error);
     return NextResponse.json(
       { success: false, error: "Failed to update review" },
       { status: 500 }
@@ -65,10 +136,26 @@ export async function DELETE(
 
     const { reviewId } = await params;
 
-    await prisma.productReview.delete({
+    const review = await prisma.productReview.delete({
       where: { id: reviewId },
     });
 
+    await refreshProductStats([review.productId]);
+    await releaseImages(getReviewPhotos(review.photos));
+
+    await recordAdminAction(request, {
+      action: "review.delete",
+      entityType: "ProductReview",
+      entityId: reviewId,
+      before: {
+        productId: review.productId,
+        customerId: review.customerId,
+        rating: review.rating,
+        comment: review.comment,
+        isVisible: review.isVisible,
+      },
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Delete review error:", error);
@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { getReviewPhotos } from "@/lib/utils/review";
 
 export async function GET(request: NextRequest) {
   try {
@@ -70,6 +71,11 @@ export async function GET(request: NextRequest) {
           rating: r.rating,
           comment: r.comment,
           isVisible: r.isVisible,
+          photos: getReviewPhotos(r.photos),
+          helpfulCount: r.helpfulCount,
+          vendorReply: r.vendorReply,
+          vendorRepliedAt: r.vendorRepliedAt?.toISOString() ?? null,
+          isReplyVisible: r.isReplyVisible,
           createdAt: r.createdAt.toISOString(),
           product: {
             id: r.product.id,
@@ -0,0 +1,97 @@
+/**
+ * Admin settings history API
+ * GET /api/admin/settings/history - Change history of platform settings
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/prisma";
+import { SETTINGS, SETTING_KEYS, type SettingKey } from "@/lib/settings";
+import { settingHistoryQuerySchema } from "@/lib/validations/settings";
+
+/**
+ * GET /api/admin/settings/history
+ * Query: key (optional), page, limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request);
+
+    const { searchParams } = new URL(request.url);
+    const validation = settingHistoryQuerySchema.safeParse({
+      key: searchParams.get("key") || undefined,
+      page: searchParams.get("page") || "1",
+      limit: searchParams.get("limit") || "20",
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { key, page, limit } = validation.data;
+
+    if (key && !SETTING_KEYS.includes(key as SettingKey)) {
+      return NextResponse.json(
+        { success: false, error: "Setting not found" },
+        { status: 404 }
+      );
+    }
+
+    const where: Prisma.SystemSettingChangeWhereInput = key ? { key } : {};
+
+    const [changes, total] = await Promise.all([
+      prisma.systemSettingChange.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.systemSettingChange.count({ where }),
+    ]);
+
+    // Resolve admin emails for display
+    const admins = await prisma.user.findMany({
+      where: { id: { in: [...new Set(changes.map((change) => change.changedBy))] } },
+      select: { id: true, email: true },
+    });
+    const adminEmails = new Map(admins.map((admin) => [admin.id, admin.email]));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        changes: changes.map((change) => ({
+          id: change.id,
+          key: change.key,
+          label: SETTINGS[change.key as SettingKey]?.label ?? change.key,
+          previousValue: change.previousValue,
+          newValue: change.newValue,
+          changedBy: {
+            id: change.changedBy,
+            email: adminEmails.get(change.changedBy) ?? null,
+          },
+          createdAt: change.createdAt.toISOString(),
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("[Admin Settings History] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch settings history" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Admin platform settings API
+ * GET /api/admin/settings - All settings with current values and defaults
+ * PATCH /api/admin/settings - Update one or more settings
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { getSettingDetails, updateSettings } from "@/lib/settings";
+import { updateSettingsSchema } from "@/lib/validations/settings";
+import { recordAdminAction } from "@/lib/audit";
+
+/**
+ * GET /api/admin/settings
+ */
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request);
+
+    const settings = await getSettingDetails();
+
+    return NextResponse.json({
+      success: true,
+      data: { settings },
+    });
+  } catch (error) {
+    console.error("[Admin Settings] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch settings" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/settings
+ * Body: { [key]: { ...fields to change } }, e.g. { "dispute_window": { "days": 14 } }
+ * Fields left out keep their current value. Every change is recorded in the
+ * settings history.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const adminUser = requireAdmin(request);
+
+    const body = await request.json();
+    const validation = updateSettingsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const previousSettings = await getSettingDetails();
+    const changed = await updateSettings(validation.data, adminUser.userId);
+    const settings = await getSettingDetails();
+
+    if (changed.length > 0) {
+      console.log(
+        `[Admin] Settings updated by admin ${adminUser.userId}: ${changed.join(", ")}`
+      );
+
+      const valuesOf = (details: typeof settings) =>
+        Object.fromEntries(
+          details
+            .filter((setting) => changed.includes(setting.key))
+            .map((setting) => [setting.key, setting.value])
+        );
+
+      await recordAdminAction(request, {
+        action: "settings.update",
+        entityType: "SystemSetting",
+        before: valuesOf(previousSettings),
+        after: valuesOf(settings),
+        metadata: { keys: changed },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { settings, changed },
+      message:
+        changed.length > 0 ? "Settings updated successfully" : "No changes to save",
+    });
+  } catch (error) {
+    console.error("[Admin Update Settings] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to update settings" },
+      { status: 500 }
+    );
+  }
+}
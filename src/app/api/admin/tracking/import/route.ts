@@ -0,0 +1,93 @@
+/**
+ * Admin tracking import API
+ * POST /api/admin/tracking/import - Import a local courier's CSV tracking export
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { trackingImportSchema } from "@/lib/validations/tracking";
+import { getCarrier } from "@/lib/tracking/carriers";
+import { TrackingPayloadError } from "@/lib/tracking/types";
+import {
+  getTrackingProvider,
+  ingestTrackingUpdates,
+} from "@/lib/tracking/trackingService";
+import { recordAdminAction } from "@/lib/audit";
+
+/**
+ * POST /api/admin/tracking/import
+ * Body: { carrier, csv }. Rows that can't be read are skipped and listed in
+ * the response; tracking numbers that match no shipped item are listed as unmatched.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const adminUser = requireAdmin(request);
+
+    const body = await request.json();
+    const validation = trackingImportSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { carrier, csv } = validation.data;
+    const provider = getTrackingProvider(carrier);
+
+    if (!provider.parseCsv) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${getCarrier(carrier).name} updates are fetched automatically and can't be imported`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { updates, skipped } = provider.parseCsv(csv);
+    const result = await ingestTrackingUpdates(carrier, updates);
+
+    console.log(
+      `[Admin] Tracking CSV for ${carrier} imported by admin ${adminUser.userId}: ${result.recorded} event(s) recorded`
+    );
+
+    await recordAdminAction(request, {
+      action: "tracking.import",
+      entityType: "Shipment",
+      metadata: {
+        carrier,
+        rows: updates.length,
+        skipped: skipped.length,
+        matchedItems: result.matchedItems,
+        recorded: result.recorded,
+        deliveredOrders: result.deliveredOrders,
+        unmatched: result.unmatched.length,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result, skipped },
+      message: `${result.recorded} tracking event(s) recorded`,
+    });
+  } catch (error) {
+    if (error instanceof TrackingPayloadError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Admin Tracking Import] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to import tracking updates" },
+      { status: 500 }
+    );
+  }
+}
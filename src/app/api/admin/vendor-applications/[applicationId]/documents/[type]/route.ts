@@ -0,0 +1,58 @@
+/**
+ * Admin Vendor Application Document API
+ * GET /api/admin/vendor-applications/[applicationId]/documents/[type] — View a KYC document
+ *
+ * Application documents (NIC, bank proof...) are stored privately and only
+ * served through this route and the applicant's token-authorised one.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { readApplicationDocument } from "@/lib/utils/vendorApplication";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ applicationId: string; type: string }> }
+) {
+  try {
+    const userId = request.headers.get("X-User-Id");
+    const userRole = request.headers.get("X-User-Role");
+    if (!userId || userRole !== "ADMIN") {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { applicationId, type } = await params;
+
+    const application = await prisma.vendorApplication.findUnique({
+      where: { id: applicationId },
+      select: { documents: true },
+    });
+    const file = application
+      ? await readApplicationDocument(application.documents, type)
+      : null;
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(file.body), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Get vendor application document error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch document" },
+      { status: 500 }
+    );
+  }
+}
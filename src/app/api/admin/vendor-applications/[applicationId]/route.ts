@@ -0,0 +1,177 @@
+/**
+ * Admin Vendor Application Detail API
+ * PATCH /api/admin/vendor-applications/[applicationId] — Approve, reject or request changes
+ *
+ * Approving creates the vendor (User + Vendor + Wallet) and emails the login
+ * details; the other decisions email the applicant the admin's comment.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { VendorApplicationStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { reviewVendorApplicationSchema } from "@/lib/validations/vendor";
+import { createVendorAccount } from "@/lib/utils/vendorAccount";
+import { notifyApplicant, toApplicantView } from "@/lib/utils/vendorApplication";
+import { recordAdminAction } from "@/lib/audit";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ applicationId: string }> }
+) {
+  try {
+    const userId = request.headers.get("X-User-Id");
+    const userRole = request.headers.get("X-User-Role");
+    if (!userId || userRole !== "ADMIN") {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = reviewVendorApplicationSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { action, note, commissionRate } = validation.data;
+    const { applicationId } = await params;
+
+    const application = await prisma.vendorApplication.findUnique({
+      where: { id: applicationId },
+    });
+    if (!application) {
+      return NextResponse.json(
+        { success: false, error: "Application not found" },
+        { status: 404 }
+      );
+    }
+
+    // Applications waiting on the applicant can still be rejected
+    const canDecide =
+      application.status === VendorApplicationStatus.PENDING ||
+      (action === "reject" &&
+        application.status === VendorApplicationStatus.CHANGES_REQUESTED);
+    if (!canDecide) {
+      return NextResponse.json(
+        { success: false, error: "This application is not waiting for review" },
+        { status: 409 }
+      );
+    }
+
+    const review = {
+      reviewNote: note || null,
+      reviewedBy: userId,
+      reviewedAt: new Date(),
+    };
+
+    if (action === "approve") {
+      const existingUser = await prisma.user.findUnique({
+        where: { email: application.businessEmail },
+        select: { id: true },
+      });
+      if (existingUser) {
+        return NextResponse.json(
+          { success: false, error: "A user with this email already exists" },
+          { status: 409 }
+        );
+      }
+
+      const result = await createVendorAccount(
+        {
+          businessName: application.businessName,
+          businessEmail: application.businessEmail,
+          businessPhone: application.businessPhone,
+          businessAddress: application.businessAddress,
+          description: application.description ?? undefined,
+          commissionRate,
+        },
+        async (tx, vendor) => {
+          // Guards against a second admin approving at the same time
+          const { count } = await tx.vendorApplication.updateMany({
+            where: { id: application.id, status: VendorApplicationStatus.PENDING },
+            data: { ...review, status: VendorApplicationStatus.APPROVED, vendorId: vendor.id },
+          });
+          if (count === 0) throw new Error("Application was already decided");
+
+          await recordAdminAction(
+            request,
+            {
+              action: "vendor_application.review",
+              entityType: "VendorApplication",
+              entityId: application.id,
+              before: { status: application.status },
+              after: { status: VendorApplicationStatus.APPROVED },
+              metadata: {
+                businessName: application.businessName,
+                vendorId: vendor.id,
+                commissionRate,
+                note,
+              },
+            },
+            tx
+          );
+        }
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          vendor: {
+            id: result.vendor.id,
+            businessName: result.vendor.businessName,
+            slug: result.vendor.slug,
+          },
+          emailSent: result.emailSent,
+          // Same fallback as creating a vendor: show the credentials if the email failed
+          ...((!result.emailSent || process.env.NODE_ENV === "development") && {
+            tempPassword: result.tempPassword,
+            warning: !result.emailSent
+              ? "Email failed to send. Please provide these credentials to the vendor manually."
+              : "Development mode: Credentials shown for testing purposes.",
+          }),
+        },
+        message: `${result.vendor.businessName} is now a vendor`,
+      });
+    }
+
+    const status =
+      action === "reject"
+        ? VendorApplicationStatus.REJECTED
+        : VendorApplicationStatus.CHANGES_REQUESTED;
+
+    const updated = await prisma.vendorApplication.update({
+      where: { id: application.id },
+      data: { ...review, status },
+    });
+
+    await recordAdminAction(request, {
+      action: "vendor_application.review",
+      entityType: "VendorApplication",
+      entityId: application.id,
+      before: { status: application.status },
+      after: { status: updated.status },
+      metadata: { businessName: application.businessName, note },
+    });
+
+    await notifyApplicant(updated, action === "reject" ? "REJECTED" : "CHANGES_REQUESTED");
+
+    return NextResponse.json({
+      success: true,
+      data: { application: toApplicantView(updated) },
+      message:
+        action === "reject"
+          ? "Application rejected"
+          : "Changes requested from the applicant",
+    });
+  } catch (error) {
+    console.error("Review vendor application error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to review application" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Admin Vendor Applications API
+ * GET /api/admin/vendor-applications — Vendor onboarding review queue
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma, VendorApplicationStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { toApplicantView } from "@/lib/utils/vendorApplication";
+
+export async function GET(request: NextRequest) {
+  try {
+    const userRole = request.headers.get("X-User-Role");
+    if (userRole !== "ADMIN") {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const pageSize = parseInt(searchParams.get("pageSize") || "20");
+    const statusFilter = searchParams.get("status"); // VendorApplicationStatus | null
+    const search = searchParams.get("search")?.trim();
+    const skip = (page - 1) * pageSize;
+
+    const where: Prisma.VendorApplicationWhereInput = {
+      ...(statusFilter &&
+        statusFilter in VendorApplicationStatus && {
+          status: statusFilter as VendorApplicationStatus,
+        }),
+      ...(search && {
+        OR: [
+          { businessName: { contains: search, mode: "insensitive" } },
+          { businessEmail: { contains: search, mode: "insensitive" } },
+          { businessRegistrationNo: { contains: search, mode: "insensitive" } },
+        ],
+      }),
+    };
+
+    const [applications, total, pendingCount] = await Promise.all([
+      prisma.vendorApplication.findMany({
+        where,
+        include: {
+          vendor: { select: { slug: true } },
+        },
+        // Oldest submissions first, so the queue is worked in order
+        orderBy: { submittedAt: statusFilter === "PENDING" ? "asc" : "desc" },
+        skip,
+        take: pageSize,
+      }),
+      prisma.vendorApplication.count({ where }),
+      prisma.vendorApplication.count({
+        where: { status: VendorApplicationStatus.PENDING },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        applications: applications.map((application) => ({
+          ...toApplicantView(application),
+          vendorSlug: application.vendor?.slug ?? null,
+          createdAt: application.createdAt,
+        })),
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.ceil(total / pageSize),
+        },
+        stats: {
+          pendingCount,
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Admin vendor applications error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch applications" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,21 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { updateVendorSchema } from "@/lib/validations/vendor";
 import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { refreshVendorSearchIndex } from "@/lib/search/searchIndex";
+import { recordAdminAction } from "@/lib/audit";
+import type { Vendor } from "@prisma/client";
+
+// Fields an admin can edit, as recorded in the audit log
+const auditedFields = (vendor: Vendor) => ({
+  businessName: vendor.businessName,
+  businessEmail: vendor.businessEmail,
+  businessPhone: vendor.businessPhone,
+  businessAddress: vendor.businessAddress,
+  description: vendor.description,
+  commissionRate: vendor.commissionRate,
+  isShopOpen: vendor.isShopOpen,
+  shopClosedReason: vendor.shopClosedReason,
+});
 
 /**
  * GET /api/admin/vendors/[id]
@@ -143,7 +158,11 @@ export async function PATCH(
         ...(data.commissionRate !== undefined && {
           commissionRate: data.commissionRate,
         }),
-        ...(data.isShopOpen !== undefined && { isShopOpen: data.isShopOpen }),
+        // An admin open/close replaces any automatic reopen the vendor set
+        ...(data.isShopOpen !== undefined && {
+          isShopOpen: data.isShopOpen,
+          shopReopensAt: null,
+        }),
         ...(data.shopClosedReason !== undefined && {
           shopClosedReason: data.shopClosedReason,
         }),
@@ -159,6 +178,19 @@ export async function PATCH(
       },
     });
 
+    // Vendor names are part of the product search index
+    if (updatedVendor.businessName !== existingVendor.businessName) {
+      await refreshVendorSearchIndex(id);
+    }
+
+    await recordAdminAction(request, {
+      action: "vendor.update",
+      entityType: "Vendor",
+      entityId: id,
+      before: auditedFields(existingVendor),
+      after: auditedFields(updatedVendor),
+    });
+
     return NextResponse.json({
       success: true,
       data: { vendor: updatedVendor },
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SessionRevokeReason } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { revokeUserSessions } from "@/lib/session";
+import { recordAdminAction } from "@/lib/audit";
+
+/**
+ * DELETE /api/admin/vendors/[id]/sessions
+ * Log the vendor out of every device
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    requireAdmin(request);
+
+    const { id } = await params;
+
+    const vendor = await prisma.vendor.findUnique({
+      where: { id },
+      select: { userId: true, businessName: true },
+    });
+
+    if (!vendor) {
+      return NextResponse.json(
+        { success: false, error: "Vendor not found" },
+        { status: 404 }
+      );
+    }
+
+    const count = await revokeUserSessions(vendor.userId, SessionRevokeReason.REVOKED_BY_ADMIN);
+
+    await recordAdminAction(request, {
+      action: "vendor.sessions_revoke",
+      entityType: "Vendor",
+      entityId: id,
+      metadata: { businessName: vendor.businessName, sessionsRevoked: count },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        revoked: count,
+        message:
+          count > 0
+            ? `${vendor.businessName} was logged out of ${count} device${count !== 1 ? "s" : ""}`
+            : `${vendor.businessName} has no active sessions`,
+      },
+    });
+  } catch (error) {
+    console.error("Error revoking vendor sessions:", error);
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+    return NextResponse.json(
+      { success: false, error: "Failed to revoke sessions" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { SessionRevokeReason } from "@prisma/client";
 import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { revokeUserSessions } from "@/lib/session";
+import { recordAdminAction } from "@/lib/audit";
 
 const toggleStatusSchema = z.object({
   isActive: z.boolean(),
@@ -10,6 +13,7 @@ const toggleStatusSchema = z.object({
 /**
  * PATCH /api/admin/vendors/[id]/status
  * Toggle vendor active status (enable/disable)
+ * Disabling also logs the vendor out of every device
  */
 export async function PATCH(
   request: NextRequest,
@@ -56,6 +60,19 @@ export async function PATCH(
       data: { isActive },
     });
 
+    const sessionsRevoked = isActive
+      ? 0
+      : await revokeUserSessions(vendor.userId, SessionRevokeReason.ACCOUNT_DEACTIVATED);
+
+    await recordAdminAction(request, {
+      action: "vendor.status",
+      entityType: "Vendor",
+      entityId: id,
+      before: { isActive: vendor.user.isActive },
+      after: { isActive },
+      metadata: { businessName: vendor.businessName, sessionsRevoked },
+    });
+
     return NextResponse.json({
       success: true,
       data: {
@@ -2,7 +2,10 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { passwordUtils } from "@/lib/auth";
+import { SessionRevokeReason } from "@prisma/client";
 import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { revokeUserSessions } from "@/lib/session";
+import { recordAdminAction } from "@/lib/audit";
 
 const resetSchema = z.object({
   vendorId: z.string().min(1, "Vendor ID is required"),
@@ -44,6 +47,20 @@ export async function POST(request: NextRequest) {
       data: { passwordHash, mustChangePassword: true },
     });
 
+    // The old password may be compromised; end the sessions logged in with it
+    const sessionsRevoked = await revokeUserSessions(
+      vendor.userId,
+      SessionRevokeReason.PASSWORD_CHANGED
+    );
+
+    // The temporary password itself is never recorded
+    await recordAdminAction(request, {
+      action: "vendor.reset_password",
+      entityType: "Vendor",
+      entityId: vendorId,
+      metadata: { businessName: vendor.businessName, email: vendor.user.email, sessionsRevoked },
+    });
+
     return NextResponse.json({
       success: true,
       data: {
@@ -1,14 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { passwordUtils } from "@/lib/auth";
-import { emailService } from "@/lib/email";
-import { generateSlug, generateUniqueSlug } from "@/lib/utils/slug";
+import { createVendorAccount } from "@/lib/utils/vendorAccount";
 import {
   createVendorSchema,
   vendorListQuerySchema,
 } from "@/lib/validations/vendor";
-import { Prisma, UserRole } from "@prisma/client";
+import { Prisma } from "@prisma/client";
 import { requireAdmin, handleAuthError } from "@/lib/auth-helpers";
+import { recordAdminAction } from "@/lib/audit";
 
 /**
  * POST /api/admin/vendors
@@ -50,76 +49,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate credentials
-    const tempPassword = passwordUtils.generateRandom(12);
-    const passwordHash = await passwordUtils.hash(tempPassword);
-
-    // Generate unique slug
-    const baseSlug = generateSlug(data.businessName);
-    const slug = await generateUniqueSlug(baseSlug, async (slug) => {
-      const existing = await prisma.vendor.findUnique({ where: { slug } });
-      return !!existing;
-    });
-
-    // Create vendor in transaction (User + Vendor + Wallet)
-    const result = await prisma.$transaction(async (tx) => {
-      // 1. Create User
-      const user = await tx.user.create({
-        data: {
-          email: data.businessEmail,
-          passwordHash,
-          role: UserRole.VENDOR,
-          mustChangePassword: true,
-          isActive: true,
-        },
-      });
-
-      // 2. Create Vendor
-      const vendor = await tx.vendor.create({
-        data: {
-          userId: user.id,
-          businessName: data.businessName,
-          businessEmail: data.businessEmail,
-          businessPhone: data.businessPhone,
-          businessAddress: data.businessAddress,
-          description: data.description,
-          slug,
-          commissionRate: data.commissionRate,
-          isApproved: true,
-          isShopOpen: true,
-        },
-      });
-
-      // 3. Create Wallet
-      const wallet = await tx.wallet.create({
-        data: {
-          vendorId: vendor.id,
-          pendingBalance: 0,
-          availableBalance: 0,
-          totalEarnings: 0,
-          totalWithdrawn: 0,
-        },
-      });
-
-      return { user, vendor, wallet };
+    // Create User + Vendor + Wallet and email the credentials
+    const result = await createVendorAccount(data);
+    const { emailSent, tempPassword } = result;
+
+    await recordAdminAction(request, {
+      action: "vendor.create",
+      entityType: "Vendor",
+      entityId: result.vendor.id,
+      after: {
+        businessName: result.vendor.businessName,
+        businessEmail: result.vendor.businessEmail,
+        businessPhone: result.vendor.businessPhone,
+        commissionRate: result.vendor.commissionRate,
+      },
+      metadata: { userId: result.user.id, credentialsEmailed: emailSent },
     });
 
-    // Send welcome email (non-blocking)
-    let emailSent = false;
-    try {
-      await emailService.sendVendorWelcomeEmail(
-        data.businessEmail,
-        data.businessName,
-        data.businessEmail,
-        tempPassword
-      );
-      emailSent = true;
-    } catch (error) {
-      console.error("Failed to send vendor welcome email:", error);
-      // Don't fail the request if email fails
-      // In development, we'll return the password in the response
-    }
-
     // Return success response
     return NextResponse.json({
       success: true,
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { SessionRevokeReason } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { passwordUtils, tokenUtils, getTokenFromHeaders } from "@/lib/auth";
 import { emailService } from "@/lib/email";
+import { isSessionActive, revokeUserSessions } from "@/lib/session";
 
 // Validation schema
 const changePasswordSchema = z.object({
@@ -63,7 +65,10 @@ export async function POST(request: NextRequest) {
 
     // Verify token
     const payload = tokenUtils.verifyAccessToken(token);
-    if (!payload) {
+    if (
+      !payload?.sessionId ||
+      !(await isSessionActive(payload.sessionId, payload.userId))
+    ) {
       return NextResponse.json(
         {
           success: false,
@@ -142,6 +147,11 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // Log out every other device; this one stays logged in
+    await revokeUserSessions(user.id, SessionRevokeReason.PASSWORD_CHANGED, {
+      exceptSessionId: payload.sessionId,
+    });
+
     // Send password changed notification email
     if (user.email) {
       const userName = user.firstName
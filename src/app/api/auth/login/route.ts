@@ -1,8 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
-import { passwordUtils, tokenUtils } from "@/lib/auth";
+import { passwordUtils } from "@/lib/auth";
+import { createSession, setAuthCookies } from "@/lib/session";
+import { twoFactorUtils } from "@/lib/twoFactor";
 import { UserRole } from "@prisma/client";
+import {
+  consumeRateLimit,
+  getClientKey,
+  peekRateLimit,
+  rateLimitExceededResponse,
+  resetRateLimit,
+  withRateLimit,
+} from "@/lib/rateLimit";
 
 // Validation schema
 const loginSchema = z.object({
@@ -10,7 +20,9 @@ const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit("auth-login", handlePOST);
+
+async function handlePOST(request: NextRequest) {
   try {
     const body = await request.json();
 
@@ -28,6 +40,15 @@ export async function POST(request: NextRequest) {
 
     const { email, password } = validation.data;
 
+    // Limit failed attempts per account and address as well. Only failures
+    // are counted and a successful login clears them, so attempts from
+    // elsewhere can't lock the owner out
+    const accountKey = `${email.toLowerCase()}:${getClientKey(request)}`;
+    const accountLimit = await peekRateLimit("auth-login-account", accountKey);
+    if (!accountLimit.allowed) {
+      return rateLimitExceededResponse(accountLimit);
+    }
+
     // Find user
     const user = await prisma.user.findUnique({
       where: { email },
@@ -38,6 +59,7 @@ export async function POST(request: NextRequest) {
 
     // Check if user exists
     if (!user) {
+      await consumeRateLimit("auth-login-account", accountKey);
       return NextResponse.json(
         {
           success: false,
@@ -86,6 +108,7 @@ export async function POST(request: NextRequest) {
     );
 
     if (!isPasswordValid) {
+      await consumeRateLimit("auth-login-account", accountKey);
       return NextResponse.json(
         {
           success: false,
@@ -95,6 +118,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await resetRateLimit("auth-login-account", accountKey);
+
     // For vendors, check if shop is approved
     if (user.role === UserRole.VENDOR && user.vendor) {
       if (!user.vendor.isApproved) {
@@ -109,12 +134,21 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Generate tokens
-    const tokens = tokenUtils.generateTokenPair({
-      userId: user.id,
-      email: user.email!,
-      role: user.role,
-    });
+    // With 2FA on, the password only unlocks the second step
+    // (POST /api/auth/login/two-factor)
+    if (user.twoFactorEnabled) {
+      const challengeToken = await twoFactorUtils.createChallenge(user.id);
+      return NextResponse.json({
+        success: true,
+        data: {
+          twoFactorRequired: true,
+          challengeToken,
+        },
+      });
+    }
+
+    // Start a session and issue its tokens
+    const tokens = await createSession(user, request);
 
     // Create response with user data and tokens
     const response = NextResponse.json({
@@ -130,27 +164,13 @@ export async function POST(request: NextRequest) {
         },
         accessToken: tokens.accessToken,
         refreshToken: tokens.refreshToken,
+        twoFactorSetupRequired:
+          twoFactorUtils.isRequired(user.role) && !user.twoFactorEnabled,
       },
     });
 
     // Set cookies for middleware authentication
-    // accessToken - httpOnly for security, 1 hour expiry
-    response.cookies.set("accessToken", tokens.accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 60 * 60, // 1 hour (matches JWT_ACCESS_EXPIRY)
-      path: "/",
-    });
-
-    // refreshToken - httpOnly for security, 7 days expiry
-    response.cookies.set("refreshToken", tokens.refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 7 * 24 * 60 * 60, // 7 days (matches JWT_REFRESH_EXPIRY)
-      path: "/",
-    });
+    setAuthCookies(response, tokens);
 
     return response;
   } catch (error) {
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSession, setAuthCookies } from "@/lib/session";
+import { twoFactorUtils } from "@/lib/twoFactor";
+import { withRateLimit } from "@/lib/rateLimit";
+
+// Validation schema
+const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, "Login expired. Please sign in again."),
+  code: z.string().trim().min(1, "Authentication code is required"),
+});
+
+export const POST = withRateLimit("auth-two-factor", handlePOST);
+
+async function handlePOST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validation = twoFactorLoginSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validation.error.issues[0].message,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { challengeToken, code } = validation.data;
+
+    // Verify the code from the authenticator app (or a recovery code)
+    const result = await twoFactorUtils.verifyChallenge(challengeToken, code);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.message,
+        },
+        { status: 401 }
+      );
+    }
+
+    const user = result.user;
+
+    // Start a session and issue its tokens
+    const tokens = await createSession(user, request);
+
+    // Create response with user data and tokens
+    const response = NextResponse.json({
+      success: true,
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          role: user.role,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          mustChangePassword: user.mustChangePassword,
+        },
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+      },
+    });
+
+    // Set cookies for middleware authentication
+    setAuthCookies(response, tokens);
+
+    return response;
+  } catch (error) {
+    console.error("Two-factor login error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "An error occurred during login",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
+import { SessionRevokeReason } from "@prisma/client";
+import { tokenUtils } from "@/lib/auth";
+import { getAuthUser } from "@/lib/auth-helpers";
+import { revokeSession, clearAuthCookies } from "@/lib/session";
 
 /**
- * Logout endpoint - clears authentication cookies
+ * Logout endpoint - ends the current session and clears authentication cookies
  */
 export async function POST(request: NextRequest) {
   try {
+    // The access token may have expired; the refresh token still names the session
+    const refreshToken = request.cookies.get("refreshToken")?.value;
+    const sessionId =
+      getAuthUser(request)?.sessionId ||
+      (refreshToken && tokenUtils.verifyRefreshToken(refreshToken)?.sessionId);
+
+    if (sessionId) {
+      await revokeSession(sessionId, SessionRevokeReason.LOGOUT);
+    }
+
     // Create response
     const response = NextResponse.json({
       success: true,
@@ -14,8 +28,7 @@ export async function POST(request: NextRequest) {
     });
 
     // Clear authentication cookies
-    response.cookies.delete("accessToken");
-    response.cookies.delete("refreshToken");
+    clearAuthCookies(response);
 
     return response;
   } catch (error) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { tokenUtils, getTokenFromHeaders } from "@/lib/auth";
+import { isSessionActive } from "@/lib/session";
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,7 +19,10 @@ export async function GET(request: NextRequest) {
 
     // Verify token
     const payload = tokenUtils.verifyAccessToken(token);
-    if (!payload) {
+    if (
+      !payload?.sessionId ||
+      !(await isSessionActive(payload.sessionId, payload.userId))
+    ) {
       return NextResponse.json(
         {
           success: false,
@@ -2,20 +2,19 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { otpUtils } from "@/lib/otp";
+import { getSetting } from "@/lib/settings";
 import { emailService } from "@/lib/email";
 import { UserRole } from "@prisma/client";
+import { withRateLimit } from "@/lib/rateLimit";
 
 // Validation schema
 const sendOTPSchema = z.object({
   email: z.string().email("Invalid email address"),
 });
 
-const OTP_EXPIRY_MINUTES = parseInt(
-  process.env.OTP_EXPIRY_MINUTES || "5",
-  10
-);
+export const POST = withRateLimit("auth-otp", handlePOST);
 
-export async function POST(request: NextRequest) {
+async function handlePOST(request: NextRequest) {
   try {
     const body = await request.json();
 
@@ -83,12 +82,13 @@ export async function POST(request: NextRequest) {
 
     // Store OTP in Redis
     await otpUtils.store(email, otpCode, "login");
+    const { minutes: expiryMinutes } = await getSetting("otp_expiry");
 
     // Send OTP email
     const emailResult = await emailService.sendOTPEmail(
       email,
       otpCode,
-      OTP_EXPIRY_MINUTES
+      expiryMinutes
     );
 
     if (!emailResult.success) {
@@ -105,7 +105,7 @@ export async function POST(request: NextRequest) {
       success: true,
       data: {
         message: "OTP sent successfully",
-        expiryMinutes: OTP_EXPIRY_MINUTES,
+        expiryMinutes,
       },
     });
   } catch (error) {
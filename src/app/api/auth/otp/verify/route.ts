@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { otpUtils } from "@/lib/otp";
-import { tokenUtils } from "@/lib/auth";
+import { createSession, setAuthCookies } from "@/lib/session";
 import { UserRole } from "@prisma/client";
+import { withRateLimit } from "@/lib/rateLimit";
 
 // Validation schema
 const verifyOTPSchema = z.object({
@@ -11,7 +12,9 @@ const verifyOTPSchema = z.object({
   code: z.string().length(6, "OTP must be 6 digits"),
 });
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit("auth-otp", handlePOST);
+
+async function handlePOST(request: NextRequest) {
   try {
     const body = await request.json();
 
@@ -85,12 +88,8 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Generate tokens
-    const tokens = tokenUtils.generateTokenPair({
-      userId: user.id,
-      email: user.email!,
-      role: user.role,
-    });
+    // Start a session and issue its tokens
+    const tokens = await createSession(user, request);
 
     // Create response with user data and tokens
     const response = NextResponse.json({
@@ -110,23 +109,7 @@ export async function POST(request: NextRequest) {
     });
 
     // Set cookies for middleware authentication
-    // accessToken - httpOnly for security, 1 hour expiry
-    response.cookies.set("accessToken", tokens.accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 60 * 60, // 1 hour (matches JWT_ACCESS_EXPIRY)
-      path: "/",
-    });
-
-    // refreshToken - httpOnly for security, 7 days expiry
-    response.cookies.set("refreshToken", tokens.refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 7 * 24 * 60 * 60, // 7 days (matches JWT_REFRESH_EXPIRY)
-      path: "/",
-    });
+    setAuthCookies(response, tokens);
 
     return response;
   } catch (error) {
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { tokenUtils } from "@/lib/auth";
-import { prisma } from "@/lib/prisma";
+import { refreshSession, setAuthCookies, clearAuthCookies } from "@/lib/session";
 
 /**
  * Refresh access token using refresh token
+ * The refresh token is rotated: the one sent here stops working, and sending
+ * it again ends the session (see lib/session.ts)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -24,66 +25,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify refresh token
-    const payload = tokenUtils.verifyRefreshToken(refreshToken);
+    const result = await refreshSession(refreshToken, request);
 
-    if (!payload) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Invalid or expired refresh token",
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify user still exists and is active
-    const user = await prisma.user.findUnique({
-      where: { id: payload.userId },
-    });
-
-    if (!user || !user.isActive) {
-      return NextResponse.json(
+    if (!result.success) {
+      const response = NextResponse.json(
         {
           success: false,
-          error: "User not found or inactive",
+          error: result.error,
         },
         { status: 401 }
       );
+      clearAuthCookies(response);
+      return response;
     }
 
-    // Generate new token pair
-    const tokens = tokenUtils.generateTokenPair({
-      userId: user.id,
-      email: user.email!,
-      role: user.role,
-    });
-
     // Create response
     const response = NextResponse.json({
       success: true,
       data: {
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
+        accessToken: result.tokens.accessToken,
+        refreshToken: result.tokens.refreshToken,
       },
     });
 
     // Set new cookies
-    response.cookies.set("accessToken", tokens.accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 15 * 60, // 15 minutes
-      path: "/",
-    });
-
-    response.cookies.set("refreshToken", tokens.refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 7 * 24 * 60 * 60, // 7 days
-      path: "/",
-    });
+    setAuthCookies(response, result.tokens);
 
     return response;
   } catch (error) {
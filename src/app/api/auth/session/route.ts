@@ -0,0 +1,36 @@
+/**
+ * Session Status API
+ * GET /api/auth/session — Whether the access token's session is still active
+ *
+ * Called by the middleware, which can't reach the database from the Edge
+ * Runtime, to reject tokens of sessions that were logged out or revoked.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth-helpers";
+import { isSessionActive } from "@/lib/session";
+
+export async function GET(request: NextRequest) {
+  try {
+    const payload = getAuthUser(request);
+    if (!payload?.sessionId) {
+      return NextResponse.json(
+        { success: false, error: "Invalid or expired token" },
+        { status: 401 }
+      );
+    }
+
+    const active = await isSessionActive(payload.sessionId, payload.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: { active },
+    });
+  } catch (error) {
+    console.error("Session status error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to check session" },
+      { status: 500 }
+    );
+  }
+}
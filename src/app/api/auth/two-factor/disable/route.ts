@@ -0,0 +1,78 @@
+/**
+ * Two-Factor Disable API
+ * POST /api/auth/two-factor/disable — Turn 2FA off (not allowed for admins)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireActiveSession, handleAuthError } from "@/lib/auth-helpers";
+import { twoFactorUtils } from "@/lib/twoFactor";
+
+const disableSchema = z.object({
+  code: z.string().trim().min(1, "Authentication code is required"),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await requireActiveSession(request);
+
+    const body = await request.json();
+    const validation = disableSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: authUser.userId },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    if (twoFactorUtils.isRequired(user.role)) {
+      return NextResponse.json(
+        { success: false, error: "Two-factor authentication is required for this account" },
+        { status: 403 }
+      );
+    }
+
+    if (!user.twoFactorEnabled) {
+      return NextResponse.json(
+        { success: false, error: "Two-factor authentication is not enabled" },
+        { status: 400 }
+      );
+    }
+
+    const result = await twoFactorUtils.verifyUserCode(user, validation.data.code);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.message },
+        { status: 400 }
+      );
+    }
+
+    await twoFactorUtils.disable(user.id);
+
+    return NextResponse.json({
+      success: true,
+      message: "Two-factor authentication disabled",
+    });
+  } catch (error) {
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    console.error("Two-factor disable error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to disable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
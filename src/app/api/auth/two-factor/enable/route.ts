@@ -0,0 +1,87 @@
+/**
+ * Two-Factor Enable API
+ * POST /api/auth/two-factor/enable — Finish enrolment with a code from the app
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireActiveSession, handleAuthError } from "@/lib/auth-helpers";
+import { reissueSessionTokens, setAuthCookies } from "@/lib/session";
+import { twoFactorUtils } from "@/lib/twoFactor";
+
+const enableSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your app"),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await requireActiveSession(request);
+
+    const body = await request.json();
+    const validation = enableSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: authUser.userId },
+      select: { id: true, email: true, role: true, twoFactorEnabled: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json(
+        { success: false, error: "Two-factor authentication is already enabled" },
+        { status: 400 }
+      );
+    }
+
+    const result = await twoFactorUtils.completeSetup(user.id, validation.data.code);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.message },
+        { status: 400 }
+      );
+    }
+
+    // The current tokens still say setup is required; swap them for new ones
+    const tokens = authUser.twoFactorSetupRequired
+      ? await reissueSessionTokens(authUser.sessionId, { ...user, twoFactorEnabled: true })
+      : null;
+
+    const response = NextResponse.json({
+      success: true,
+      message: "Two-factor authentication enabled",
+      data: {
+        recoveryCodes: result.recoveryCodes,
+        ...(tokens && {
+          accessToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+        }),
+      },
+    });
+
+    if (tokens) setAuthCookies(response, tokens);
+
+    return response;
+  } catch (error) {
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    console.error("Two-factor enable error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to enable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
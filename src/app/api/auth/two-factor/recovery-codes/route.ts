@@ -0,0 +1,72 @@
+/**
+ * Two-Factor Recovery Codes API
+ * POST /api/auth/two-factor/recovery-codes — Replace the recovery codes
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireActiveSession, handleAuthError } from "@/lib/auth-helpers";
+import { twoFactorUtils } from "@/lib/twoFactor";
+
+const regenerateSchema = z.object({
+  code: z.string().trim().min(1, "Authentication code is required"),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await requireActiveSession(request);
+
+    const body = await request.json();
+    const validation = regenerateSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: authUser.userId },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!user.twoFactorEnabled) {
+      return NextResponse.json(
+        { success: false, error: "Two-factor authentication is not enabled" },
+        { status: 400 }
+      );
+    }
+
+    const result = await twoFactorUtils.verifyUserCode(user, validation.data.code);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.message },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await twoFactorUtils.regenerateRecoveryCodes(user.id);
+
+    return NextResponse.json({
+      success: true,
+      message: "New recovery codes generated",
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    console.error("Regenerate recovery codes error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to generate recovery codes" },
+      { status: 500 }
+    );
+  }
+}
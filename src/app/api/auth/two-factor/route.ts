@@ -0,0 +1,52 @@
+/**
+ * Two-Factor Authentication API
+ * GET /api/auth/two-factor — 2FA status of the current user
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireActiveSession, handleAuthError } from "@/lib/auth-helpers";
+import { twoFactorUtils } from "@/lib/twoFactor";
+
+export async function GET(request: NextRequest) {
+  try {
+    const authUser = await requireActiveSession(request);
+
+    const user = await prisma.user.findUnique({
+      where: { id: authUser.userId },
+      select: {
+        role: true,
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: true,
+        twoFactorRecoveryCodes: true,
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        available: twoFactorUtils.isAvailable(user.role),
+        required: twoFactorUtils.isRequired(user.role),
+        enabled: user.twoFactorEnabled,
+        enabledAt: user.twoFactorEnabledAt,
+        recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+      },
+    });
+  } catch (error) {
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    console.error("Get two-factor status error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch two-factor status" },
+      { status: 500 }
+    );
+  }
+}
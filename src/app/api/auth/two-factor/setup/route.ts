@@ -0,0 +1,57 @@
+/**
+ * Two-Factor Setup API
+ * POST /api/auth/two-factor/setup — Start enrolment (secret and provisioning URI)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireActiveSession, handleAuthError } from "@/lib/auth-helpers";
+import { twoFactorUtils } from "@/lib/twoFactor";
+
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await requireActiveSession(request);
+
+    const user = await prisma.user.findUnique({
+      where: { id: authUser.userId },
+      select: { id: true, email: true, role: true, twoFactorEnabled: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!twoFactorUtils.isAvailable(user.role)) {
+      return NextResponse.json(
+        { success: false, error: "Two-factor authentication is not available for this account" },
+        { status: 403 }
+      );
+    }
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json(
+        { success: false, error: "Two-factor authentication is already enabled" },
+        { status: 400 }
+      );
+    }
+
+    const { secret, otpauthUrl } = await twoFactorUtils.startSetup(user);
+
+    return NextResponse.json({
+      success: true,
+      data: { secret, otpauthUrl },
+    });
+  } catch (error) {
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    console.error("Two-factor setup error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to start two-factor setup" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { convertDbCartItems, calculateCartTotals } from "@/lib/utils/cart";
+import { saveToWishlist } from "@/lib/utils/wishlist";
+
+/**
+ * Helper function to require customer authentication
+ */
+async function requireCustomer(request: NextRequest): Promise<string | null> {
+  const userId = request.headers.get("X-User-Id");
+  const userRole = request.headers.get("X-User-Role");
+
+  if (!userId || userRole !== UserRole.CUSTOMER) {
+    return null;
+  }
+
+  const customer = await prisma.customer.findUnique({
+    where: { userId },
+  });
+
+  return customer?.id || null;
+}
+
+/**
+ * POST /api/cart/[itemId]/save-for-later
+ * Move cart item to the wishlist, keeping its quantity
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ itemId: string }> }
+) {
+  try {
+    const customerId = await requireCustomer(request);
+
+    if (!customerId) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { itemId } = await params;
+
+    // Find cart item and verify it belongs to customer
+    const cartItem = await prisma.cartItem.findUnique({
+      where: { id: itemId },
+      include: {
+        cart: true,
+      },
+    });
+
+    if (!cartItem) {
+      return NextResponse.json(
+        { success: false, error: "Cart item not found" },
+        { status: 404 }
+      );
+    }
+
+    if (cartItem.cart.customerId !== customerId) {
+      return NextResponse.json(
+        { success: false, error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    const saved = await prisma.$transaction(async (tx) => {
+      const saved = await saveToWishlist(
+        tx,
+        customerId,
+        cartItem.productId,
+        cartItem.variantId,
+        cartItem.quantity
+      );
+
+      if (saved) {
+        await tx.cartItem.delete({
+          where: { id: itemId },
+        });
+      }
+
+      return saved;
+    });
+
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, error: "Product not available" },
+        { status: 400 }
+      );
+    }
+
+    // Fetch updated cart
+    const updatedCart = await prisma.cart.findUnique({
+      where: { id: cartItem.cartId },
+      include: {
+        items: {
+          include: {
+            product: {
+              include: {
+                images: {
+                  orderBy: { position: "asc" },
+                  take: 1,
+                },
+                vendor: {
+                  select: {
+                    id: true,
+                    businessName: true,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    // Fetch variant data separately
+    const itemsWithVariants = await Promise.all(
+      updatedCart!.items.map(async (item) => {
+        if (item.variantId) {
+          const variant = await prisma.productVariant.findUnique({
+            where: { id: item.variantId },
+          });
+          return { ...item, variant };
+        }
+        return { ...item, variant: null };
+      })
+    );
+
+    const cartItems = convertDbCartItems(itemsWithVariants as any);
+    const { itemCount, subtotal } = calculateCartTotals(cartItems);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        cart: {
+          id: updatedCart!.id,
+          items: cartItems,
+        },
+        itemCount,
+        subtotal,
+      },
+    });
+  } catch (error) {
+    console.error("Error saving cart item for later:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to save item for later" },
+      { status: 500 }
+    );
+  }
+}
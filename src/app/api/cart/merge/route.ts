@@ -141,6 +141,9 @@ export async function POST(request: NextRequest) {
                 user: true,
               },
             },
+            _count: {
+              select: { variants: true },
+            },
           },
         });
 
@@ -155,6 +158,12 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
+        // Skip items missing the variant of a product with variants
+        if (!guestItem.variantId && product._count.variants > 0) {
+          stats.itemsSkipped++;
+          continue;
+        }
+
         // Validate variant if specified
         let variant = null;
         if (guestItem.variantId) {
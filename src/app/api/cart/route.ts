@@ -162,6 +162,9 @@ export async function POST(request: NextRequest) {
             user: true,
           },
         },
+        _count: {
+          select: { variants: true },
+        },
       },
     });
 
@@ -178,6 +181,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!product.vendor.isShopOpen) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${product.vendor.businessName} is closed at the moment`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Products with variants must be added as a specific combination
+    if (!variantId && product._count.variants > 0) {
+      return NextResponse.json(
+        { success: false, error: "Please select a variant" },
+        { status: 400 }
+      );
+    }
+
     // If variant specified, validate it
     let variant = null;
     if (variantId) {
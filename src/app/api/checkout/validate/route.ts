@@ -6,7 +6,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { UserRole } from "@prisma/client";
-import { validateStockAvailability } from "@/lib/utils/order";
+import { validateStockAvailability, calculateItemPrice } from "@/lib/utils/order";
+import { quoteShipping } from "@/lib/utils/shipping";
+import { checkoutValidateSchema } from "@/lib/validations/checkout";
+import { ShippingQuote } from "@/types/shipping";
+import { withRateLimit } from "@/lib/rateLimit";
 
 async function requireCustomer(request: NextRequest): Promise<string | null> {
   const userId = request.headers.get("X-User-Id");
@@ -23,11 +27,14 @@ async function requireCustomer(request: NextRequest): Promise<string | null> {
   return customer?.id || null;
 }
 
+export const POST = withRateLimit("checkout-validate", handlePOST);
+
 /**
  * POST /api/checkout/validate
  * Validate cart and address before checkout
+ * Optional body { shippingAddressId } adds a per-vendor shipping quote
  */
-export async function POST(request: NextRequest) {
+async function handlePOST(request: NextRequest) {
   try {
     const customerId = await requireCustomer(request);
 
@@ -38,8 +45,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Body is optional (older clients post without one)
+    const body = await request.json().catch(() => ({}));
+    const validation = checkoutValidateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { shippingAddressId } = validation.data;
+
     const errors: any[] = [];
     const warnings: any[] = [];
+    let shipping: ShippingQuote | null = null;
 
     // Get cart items
     const cart = await prisma.cart.findUnique({
@@ -106,6 +127,35 @@ export async function POST(request: NextRequest) {
           });
         }
       });
+
+      // Quote shipping for the selected address
+      if (shippingAddressId) {
+        const shippingAddress = await prisma.shippingAddress.findUnique({
+          where: { id: shippingAddressId },
+        });
+
+        if (!shippingAddress || shippingAddress.customerId !== customerId) {
+          errors.push({
+            type: "address",
+            message: "Invalid shipping address",
+          });
+        } else {
+          shipping = await quoteShipping(
+            itemsWithVariants.map((item) => ({
+              vendorId: item.product.vendor.id,
+              vendorName: item.product.vendor.businessName,
+              quantity: item.quantity,
+              totalPrice:
+                calculateItemPrice(
+                  item.product.price,
+                  item.variant?.priceAdjustment
+                ) * item.quantity,
+              weightGrams: item.product.weightGrams,
+            })),
+            shippingAddress.province
+          );
+        }
+      }
     }
 
     // Check if customer has at least one address
@@ -126,6 +176,7 @@ export async function POST(request: NextRequest) {
         isValid: errors.length === 0,
         errors,
         warnings,
+        shipping,
       },
     });
   } catch (error) {
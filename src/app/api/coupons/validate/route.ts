@@ -8,6 +8,7 @@ import { prisma } from "@/lib/prisma";
 import { UserRole } from "@prisma/client";
 import { validateCouponSchema } from "@/lib/validations/checkout";
 import { calculateDiscount } from "@/lib/utils/order";
+import { withRateLimit } from "@/lib/rateLimit";
 
 async function requireCustomer(request: NextRequest): Promise<string | null> {
   const userId = request.headers.get("X-User-Id");
@@ -24,11 +25,13 @@ async function requireCustomer(request: NextRequest): Promise<string | null> {
   return customer?.id || null;
 }
 
+export const POST = withRateLimit("coupon-validate", handlePOST);
+
 /**
  * POST /api/coupons/validate
  * Validate coupon code and calculate discount
  */
-export async function POST(request: NextRequest) {
+async function handlePOST(request: NextRequest) {
   try {
     const customerId = await requireCustomer(request);
 
@@ -0,0 +1,28 @@
+/**
+ * Maintenance status API (public)
+ * GET /api/maintenance - Whether the platform is in maintenance
+ *
+ * Polled by the middleware (which cannot query the database from the Edge
+ * runtime).
+ */
+
+import { NextResponse } from "next/server";
+import { getMaintenanceStatus } from "@/lib/maintenance";
+
+export async function GET() {
+  try {
+    const status = await getMaintenanceStatus();
+
+    return NextResponse.json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    console.error("[Maintenance] Error fetching status:", error);
+
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch maintenance status" },
+      { status: 500 }
+    );
+  }
+}
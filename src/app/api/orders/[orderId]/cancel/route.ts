@@ -9,6 +9,13 @@ import { UserRole } from "@prisma/client";
 import { cancelOrderSchema } from "@/lib/validations/order";
 import { validateStatusTransition } from "@/lib/utils/order";
 import { refundOrder } from "@/lib/utils/wallet";
+import {
+  createRefund,
+  attemptRefund,
+  lockOrder,
+  getRefundableAmount,
+} from "@/lib/utils/refund";
+import { releaseOrderStock } from "@/lib/utils/stock";
 import { createNotification } from "@/lib/notifications/notificationService";
 import { NotificationType } from "@/types/notification";
 
@@ -67,10 +74,12 @@ export async function POST(
         items: {
           include: {
             product: true,
-            variant: true,
           },
         },
         payment: true,
+        customer: {
+          select: { userId: true },
+        },
       },
     });
 
@@ -107,6 +116,9 @@ export async function POST(
 
     // Cancel order in atomic transaction
     const result = await prisma.$transaction(async (tx) => {
+      // Wait for any in-flight item refund so its amount is seen below
+      await lockOrder(orderId, tx);
+
       // 1. Update order status
       const updatedOrder = await tx.order.update({
         where: { id: orderId },
@@ -127,62 +139,63 @@ export async function POST(
         },
       });
 
-      // 3. Restore stock for all items
-      for (const item of order.items) {
-        if (item.variantId) {
-          // Restore variant stock
-          await tx.productVariant.update({
-            where: { id: item.variantId },
-            data: {
-              stock: { increment: item.quantity },
-            },
-          });
-        } else {
-          // Restore product stock
-          await tx.product.update({
-            where: { id: item.productId },
-            data: {
-              stock: { increment: item.quantity },
-            },
-          });
-        }
-      }
+      // 3. Return reserved (unpaid) or sold (paid) stock for all items
+      await releaseOrderStock(
+        orderId,
+        `Order ${order.orderNumber} cancelled by customer`,
+        tx
+      );
 
-      // 4. If payment was completed, refund vendor wallets
+      // 4. If payment was completed, reverse vendor wallets and queue the
+      // customer refund for whatever earlier item refunds haven't returned
+      // (payment becomes REFUNDED once PayHere confirms)
+      let refundId: string | null = null;
       if (order.payment && order.payment.status === "COMPLETED") {
         await refundOrder(orderId, order.orderNumber, reason, tx);
 
-        // Update payment status to REFUNDED
-        await tx.payment.update({
-          where: { id: order.payment.id },
-          data: {
-            status: "REFUNDED",
-          },
-        });
+        const amount = await getRefundableAmount(orderId, order.payment.amount, tx);
+        if (!amount.isZero()) {
+          const refund = await createRefund(
+            {
+              paymentId: order.payment.id,
+              orderId,
+              amount,
+              reason: `Order cancelled by customer: ${reason}`,
+              requestedBy: order.customer.userId,
+            },
+            tx
+          );
+          refundId = refund.id;
+        }
       }
 
-      return updatedOrder;
+      return { updatedOrder, refundId };
     });
 
+    // 5. Send refund to PayHere (retried by the socket server if this attempt fails)
+    const refund = result.refundId ? await attemptRefund(result.refundId) : null;
+
     console.log(`[Order] Order ${order.orderNumber} cancelled by customer:`, {
       orderId,
       reason,
       hadPayment: !!order.payment,
+      refundStatus: refund?.status ?? null,
     });
 
-    // Send notification to customer
+    // Send notification to customer (refund completion is notified separately
+    // when PayHere confirms it)
     try {
       await createNotification({
-        userId: order.userId,
+        userId: order.customer.userId,
         type: NotificationType.ORDER_CANCELLED,
         title: "Order Cancelled",
-        message: `Your order ${order.orderNumber} has been cancelled${order.payment && order.payment.status === "COMPLETED" ? ". Refund has been processed." : "."}`,
+        message: `Your order ${order.orderNumber} has been cancelled${refund ? `. A refund of Rs. ${refund.amount.toFixed(2)} has been ${refund.status === "SUCCEEDED" ? "issued to your original payment method" : "requested and will be completed shortly"}.` : "."}`,
         link: `/orders/${orderId}`,
         metadata: {
           orderId,
           orderNumber: order.orderNumber,
-          reason,
-          refundAmount: order.payment && order.payment.status === "COMPLETED" ? order.total.toNumber() : null,
+          refundAmount: refund ? refund.amount.toNumber() : undefined,
+          refundId: refund?.id,
         },
       });
     } catch (notifError) {
@@ -193,12 +206,19 @@ export async function POST(
       success: true,
       data: {
         order: {
-          id: result.id,
-          orderNumber: result.orderNumber,
-          status: result.status,
-          cancelReason: result.cancelReason,
-          cancelledAt: result.cancelledAt?.toISOString() || null,
+          id: result.updatedOrder.id,
+          orderNumber: result.updatedOrder.orderNumber,
+          status: result.updatedOrder.status,
+          cancelReason: result.updatedOrder.cancelReason,
+          cancelledAt: result.updatedOrder.cancelledAt?.toISOString() || null,
         },
+        refund: refund
+          ? {
+              id: refund.id,
+              amount: refund.amount.toNumber(),
+              status: refund.status,
+            }
+          : null,
       },
     });
   } catch (error) {
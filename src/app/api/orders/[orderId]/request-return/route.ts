@@ -1,15 +1,15 @@
 /**
  * Request return API
- * POST /api/orders/[orderId]/request-return - Customer requests return (within 24h of delivery confirmation)
+ * POST /api/orders/[orderId]/request-return - Customer requests a return of delivered items (within the return window)
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { UserRole } from "@prisma/client";
-import { requestReturnSchema } from "@/lib/validations/order";
+import { requestReturnSchema } from "@/lib/validations/returnRequest";
 import { validateStatusTransition } from "@/lib/utils/order";
-import { createNotification } from "@/lib/notifications/notificationService";
-import { NotificationType } from "@/types/notification";
+import { createReturnRequests, ReturnRequestError } from "@/lib/utils/returnRequest";
+import { getSetting } from "@/lib/settings";
 
 async function requireCustomer(request: NextRequest): Promise<string | null> {
   const userId = request.headers.get("X-User-Id");
@@ -28,8 +28,8 @@ async function requireCustomer(request: NextRequest): Promise<string | null> {
 
 /**
  * POST /api/orders/[orderId]/request-return
- * Request return within 24 hours of delivery confirmation
- * Return processing (approval/refund) will be handled by Admin in Phase 14 (Dispute System)
+ * Request a return of specific items (and quantities) within the return window.
+ * Creates one return request per vendor; each vendor approves or rejects their own.
  */
 export async function POST(
   request: NextRequest,
@@ -53,12 +53,12 @@ export async function POST(
 
     if (!validation.success) {
       return NextResponse.json(
-        { success: false, error: validation.error.errors[0].message },
+        { success: false, error: validation.error.issues[0].message },
         { status: 400 }
       );
     }
 
-    const { reason, description } = validation.data;
+    const { reason, description, photos, items } = validation.data;
 
     // Fetch order
     const order = await prisma.order.findUnique({
@@ -80,13 +80,15 @@ export async function POST(
       );
     }
 
-    // Validate status transition (checks 24h window from delivery confirmation)
+    // Validate status transition (checks return window from delivery confirmation)
+    const { days: returnWindowDays } = await getSetting("return_window");
     const transitionValidation = validateStatusTransition(
       order.status,
       "RETURN_REQUESTED",
       "CUSTOMER",
       order.createdAt,
-      order.deliveryConfirmedAt
+      order.deliveryConfirmedAt,
+      returnWindowDays
     );
 
     if (!transitionValidation.isValid) {
@@ -96,75 +98,41 @@ export async function POST(
       );
     }
 
-    // Request return in atomic transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // 1. Update order status
-      const updatedOrder = await tx.order.update({
-        where: { id: orderId },
-        data: {
-          status: "RETURN_REQUESTED",
-        },
-      });
-
-      // 2. Create status history with return reason
-      await tx.orderStatusHistory.create({
-        data: {
-          orderId,
-          status: "RETURN_REQUESTED",
-          note: `Return requested by customer: ${reason}${
-            description ? `\n${description}` : ""
-          }`,
-          createdBy: null, // Customer action
-        },
-      });
-
-      // TODO: In Phase 15 (Notification System), notify:
-      // - Admin: Review return request
-      // - Vendor(s): Return request for their items
-      console.log(
-        `[Order] Return requested for order ${order.orderNumber}. Admin notification pending (Phase 15).`
-      );
-
-      return updatedOrder;
-    });
-
-    console.log(`[Order] Return requested for order ${order.orderNumber}:`, {
-      orderId,
+    // Creates the returns, moves the order to RETURN_REQUESTED and notifies customer and vendors
+    const returns = await createReturnRequests({
+      order,
       customerId,
       reason,
+      description,
+      photos,
+      items,
     });
 
-    // Send notification to customer
-    try {
-      await createNotification({
-        userId: order.userId,
-        type: NotificationType.ORDER_RETURN_REQUESTED,
-        title: "Return Request Submitted",
-        message: `Your return request for order ${order.orderNumber} has been submitted. An admin will review it shortly.`,
-        link: `/orders/${orderId}`,
-        metadata: {
-          orderId,
-          orderNumber: order.orderNumber,
-          reason,
-        },
-      });
-    } catch (notifError) {
-      console.error("[Order Request Return] Failed to send notification:", notifError);
-    }
-
     return NextResponse.json({
       success: true,
       data: {
         order: {
-          id: result.id,
-          orderNumber: result.orderNumber,
-          status: result.status,
+          id: order.id,
+          orderNumber: order.orderNumber,
+          status: "RETURN_REQUESTED",
         },
+        returns: returns.map((r) => ({
+          id: r.id,
+          returnNumber: r.returnNumber,
+          status: r.status,
+        })),
         message:
-          "Return request submitted. An admin will review your request shortly.",
+          "Return request submitted. The seller will review your request shortly.",
       },
     });
   } catch (error) {
+    if (error instanceof ReturnRequestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
     console.error("[Order Request Return] Error:", error);
     return NextResponse.json(
       {
@@ -7,6 +7,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { UserRole } from "@prisma/client";
 import { calculateOrderActions } from "@/lib/utils/order";
+import { getReviewPhotos } from "@/lib/utils/review";
+import { groupShipments } from "@/lib/tracking/trackingService";
+import { getSetting } from "@/lib/settings";
+import {
+  getReturnableQuantities,
+  RETURN_VIEW_INCLUDE,
+  toReturnRequestView,
+} from "@/lib/utils/returnRequest";
 
 /**
  * Helper to get authenticated user info
@@ -87,6 +95,9 @@ export async function GET(
             chatRoom: {
               select: { id: true },
             },
+            trackingEvents: {
+              orderBy: { occurredAt: "desc" },
+            },
           },
           orderBy: {
             createdAt: "asc",
@@ -105,6 +116,21 @@ export async function GET(
             createdAt: "desc",
           },
         },
+        shippingLines: true,
+        refunds: {
+          include: {
+            items: true,
+          },
+          orderBy: {
+            createdAt: "asc",
+          },
+        },
+        returnRequests: {
+          include: RETURN_VIEW_INCLUDE,
+          orderBy: {
+            createdAt: "desc",
+          },
+        },
       },
     });
 
@@ -140,22 +166,42 @@ export async function GET(
     // Admin can view all orders (no check needed)
 
     // Calculate available actions for customer
-    const actions = calculateOrderActions({
-      status: order.status,
-      createdAt: order.createdAt,
-      deliveryConfirmedAt: order.deliveryConfirmedAt,
-    });
+    const [returnWindow, disputeWindow, returnable] = await Promise.all([
+      getSetting("return_window"),
+      getSetting("dispute_window"),
+      getReturnableQuantities(order.id),
+    ]);
+    const actions = calculateOrderActions(
+      {
+        status: order.status,
+        createdAt: order.createdAt,
+        deliveryConfirmedAt: order.deliveryConfirmedAt,
+      },
+      {
+        returnWindowDays: returnWindow.days,
+        disputeWindowDays: disputeWindow.days,
+      }
+    );
+
+    // Nothing left to return once every unit is refunded or in a return
+    if (actions.canRequestReturn && ![...returnable.values()].some((qty) => qty > 0)) {
+      actions.canRequestReturn = false;
+      actions.returnReason = "All items have already been returned or refunded";
+    }
 
     // Fetch existing reviews for this customer's order items (customers only)
-    let reviewMap: Record<string, { id: string; rating: number; comment: string | null }> = {};
+    let reviewMap: Record<string, { id: string; rating: number; comment: string | null; photos: string[] }> = {};
     if (auth.role === UserRole.CUSTOMER) {
       const reviews = await prisma.productReview.findMany({
         where: { orderItemId: { in: order.items.map((i) => i.id) } },
-        select: { id: true, orderItemId: true, rating: true, comment: true },
+        select: { id: true, orderItemId: true, rating: true, comment: true, photos: true },
       });
       reviewMap = reviews.reduce(
-        (acc, r) => ({ ...acc, [r.orderItemId]: { id: r.id, rating: r.rating, comment: r.comment } }),
-        {} as Record<string, { id: string; rating: number; comment: string | null }>
+        (acc, r) => ({
+          ...acc,
+          [r.orderItemId]: { id: r.id, rating: r.rating, comment: r.comment, photos: getReviewPhotos(r.photos) },
+        }),
+        {} as Record<string, { id: string; rating: number; comment: string | null; photos: string[] }>
       );
     }
 
@@ -167,12 +213,19 @@ export async function GET(
           vendorId: item.vendor.id,
           vendorName: item.vendor.businessName,
           items: [],
+          shippingAmount:
+            order.shippingLines
+              .find((line) => line.vendorId === vendorId)
+              ?.amount.toNumber() ?? 0,
           // Get overall status of vendor items (all items have same vendor-level status)
           status: item.status,
           trackingNumber: item.trackingNumber,
           trackingUrl: item.trackingUrl,
           shippedAt: item.shippedAt?.toISOString() || null,
           chatRoomId: item.chatRoom?.id || null,
+          shipments: groupShipments(
+            order.items.filter((i) => i.vendorId === vendorId)
+          ),
         };
       }
       acc[vendorId].items.push({
@@ -181,6 +234,8 @@ export async function GET(
         variantSnapshot: item.variantSnapshot,
         unitPrice: item.unitPrice.toNumber(),
         quantity: item.quantity,
+        refundedQuantity: item.refundedQuantity,
+        returnableQuantity: returnable.get(item.id) ?? 0,
         totalPrice: item.totalPrice.toNumber(),
         status: item.status,
         chatRoomId: item.chatRoom?.id || null,
@@ -216,10 +271,14 @@ export async function GET(
             variantSnapshot: item.variantSnapshot,
             unitPrice: item.unitPrice.toNumber(),
             quantity: item.quantity,
+            refundedQuantity: item.refundedQuantity,
+            returnableQuantity: returnable.get(item.id) ?? 0,
             totalPrice: item.totalPrice.toNumber(),
             status: item.status,
             trackingNumber: item.trackingNumber,
             trackingUrl: item.trackingUrl,
+            carrier: item.carrier,
+            trackingStatus: item.trackingStatus,
             shippedAt: item.shippedAt?.toISOString() || null,
             chatRoomId: item.chatRoom?.id || null,
             vendor: {
@@ -236,6 +295,28 @@ export async function GET(
                 paidAt: order.payment.paidAt?.toISOString() || null,
               }
             : null,
+          refunds: order.refunds.map((refund) => ({
+            id: refund.id,
+            amount: refund.amount.toNumber(),
+            status: refund.status,
+            payhereRefundId: refund.payhereRefundId,
+            createdAt: refund.createdAt.toISOString(),
+            succeededAt: refund.succeededAt?.toISOString() || null,
+            items: refund.items.map((line) => ({
+              orderItemId: line.orderItemId,
+              quantity: line.quantity,
+              amount: line.amount.toNumber(),
+            })),
+            // Failure details are for admins only
+            ...(auth.role === UserRole.ADMIN && {
+              attempts: refund.attempts,
+              lastError: refund.lastError,
+            }),
+          })),
+          // Vendors only see returns for their own items
+          returns: order.returnRequests
+            .filter((r) => auth.role !== UserRole.VENDOR || r.vendorId === auth.vendorId)
+            .map(toReturnRequestView),
           statusHistory: order.statusHistory.map((history) => ({
             id: history.id,
             status: history.status,
@@ -16,6 +16,13 @@ import {
   validateStockAvailability,
 } from "@/lib/utils/order";
 import { createAddressSnapshot } from "@/lib/utils/address";
+import { quoteShipping } from "@/lib/utils/shipping";
+import {
+  reserveOrderStock,
+  getReservationExpiry,
+  InsufficientStockError,
+  type ReservableItem,
+} from "@/lib/utils/stock";
 
 async function requireCustomer(request: NextRequest): Promise<string | null> {
   const userId = request.headers.get("X-User-Id");
@@ -202,10 +209,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Calculate shipping (one line per vendor)
+    const shippingQuote = await quoteShipping(
+      itemsWithVariants.map((item) => ({
+        vendorId: item.product.vendor.id,
+        vendorName: item.product.vendor.businessName,
+        quantity: item.quantity,
+        totalPrice:
+          calculateItemPrice(item.product.price, item.variant?.priceAdjustment) *
+          item.quantity,
+        weightGrams: item.product.weightGrams,
+      })),
+      shippingAddress.province
+    );
+
     // Calculate totals
-    const shippingAmount = 0; // Will be implemented in Phase 9
+    const shippingAmount = shippingQuote.totalAmount;
     const totalAmount = subtotal - discountAmount + shippingAmount;
 
+    // Unpaid orders hold stock until this time
+    const reservationExpiresAt = getReservationExpiry();
+
     // Create order in transaction
     const result = await prisma.$transaction(async (tx) => {
       // Generate order number
@@ -227,10 +251,25 @@ export async function POST(request: NextRequest) {
           shippingAddressJson: addressSnapshot as any,
           couponId: coupon?.id || null,
           notes: notes || null,
+          reservationExpiresAt,
         },
       });
 
+      // Create shipping lines (credited to each vendor on payment)
+      for (const line of shippingQuote.lines) {
+        await tx.orderShippingLine.create({
+          data: {
+            orderId: order.id,
+            vendorId: line.vendorId,
+            amount: new Prisma.Decimal(line.amount),
+            snapshot: line.snapshot as any,
+          },
+        });
+      }
+
       // Create order items
+      const reservableItems: ReservableItem[] = [];
+
       for (const cartItem of itemsWithVariants) {
         const product = cartItem.product;
         const variant = cartItem.variant;
@@ -243,7 +282,7 @@ export async function POST(request: NextRequest) {
         );
         const totalPrice = unitPrice * cartItem.quantity;
 
-        await tx.orderItem.create({
+        const orderItem = await tx.orderItem.create({
           data: {
             orderId: order.id,
             productId: product.id,
@@ -257,8 +296,25 @@ export async function POST(request: NextRequest) {
             status: "PENDING_PAYMENT",
           },
         });
+
+        reservableItems.push({
+          orderItemId: orderItem.id,
+          productId: product.id,
+          productName: product.name,
+          variantId: variant?.id || null,
+          quantity: cartItem.quantity,
+        });
       }
 
+      // Reserve stock (throws InsufficientStockError and rolls back if sold out)
+      await reserveOrderStock(
+        order.id,
+        orderNumber,
+        reservableItems,
+        reservationExpiresAt,
+        tx
+      );
+
       // Create coupon usage if coupon applied
       if (coupon) {
         await tx.couponUsage.create({
@@ -294,7 +350,9 @@ export async function POST(request: NextRequest) {
         orderId: order.id,
         orderNumber: order.orderNumber,
         totalAmount: order.totalAmount.toNumber(),
+        shippingAmount: order.shippingAmount.toNumber(),
         itemCount: itemsWithVariants.length,
+        reservationExpiresAt: reservationExpiresAt.toISOString(),
       };
     });
 
@@ -303,6 +361,14 @@ export async function POST(request: NextRequest) {
       data: result,
     });
   } catch (error) {
+    // Stock sold out between validation and reservation
+    if (error instanceof InsufficientStockError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
     console.error("Error creating order:", error);
     return NextResponse.json(
       { success: false, error: "Failed to create order" },
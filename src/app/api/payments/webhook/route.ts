@@ -10,6 +10,8 @@ import { prisma } from "@/lib/prisma";
 import { payhereWebhookSchema } from "@/lib/validations/payment";
 import { verifyWebhookSignature, parseStatusCode } from "@/lib/payhere";
 import { calculateVendorEarnings, creditVendorWallets } from "@/lib/utils/wallet";
+import { commitOrderStock, releaseOrderStock } from "@/lib/utils/stock";
+import { createRefund, attemptRefund, lockOrder } from "@/lib/utils/refund";
 import { createChatRoomsForOrder } from "@/lib/chat/roomManager";
 import { createNotification } from "@/lib/notifications/notificationService";
 import { NotificationType } from "@/types/notification";
@@ -99,6 +101,7 @@ export async function POST(request: NextRequest) {
             },
           },
         },
+        shippingLines: true,
       },
     });
 
@@ -125,39 +128,91 @@ export async function POST(request: NextRequest) {
     console.log("[PayHere Webhook] Status:", paymentStatus, "-", statusMessage);
 
     // Perform atomic transaction
-    await prisma.$transaction(
+    const { lateRefundId, confirmed } = await prisma.$transaction(
       async (tx) => {
+        // Wait for concurrent deliveries of this notification and for the
+        // reservation expiry job, then re-read what they may have changed
+        await lockOrder(order.id, tx);
+
+        const current = await tx.order.findUniqueOrThrow({
+          where: { id: order.id },
+          select: {
+            status: true,
+            payment: { select: { id: true, status: true } },
+          },
+        });
+
+        if (current.payment && current.payment.status !== "PENDING") {
+          console.log("[PayHere Webhook] Payment processed concurrently (idempotent):", {
+            order_id: webhookData.order_id,
+            payment_id: webhookData.payment_id,
+            existing_status: current.payment.status,
+          });
+          return { lateRefundId: null, confirmed: false };
+        }
+
+        // Payment arrived after the order was cancelled (e.g. its stock reservation
+        // expired): the released stock may already be sold to someone else, so the
+        // order stays CANCELLED and the payment is refunded in full
+        const paidAfterCancellation =
+          paymentStatus === "COMPLETED" && current.status === "CANCELLED";
+
         // Update or create Payment record
-        if (order.payment) {
-          await tx.payment.update({
-            where: { id: order.payment.id },
+        const payment = current.payment
+          ? await tx.payment.update({
+              where: { id: current.payment.id },
+              data: {
+                payherePaymentId: webhookData.payment_id,
+                status: paymentStatus,
+                paymentMethod: webhookData.method || null,
+                paidAt: paymentStatus === "COMPLETED" ? new Date() : null,
+                paymentHash: webhookData.md5sig,
+                notificationData: payload,
+              },
+            })
+          : await tx.payment.create({
+              data: {
+                orderId: order.id,
+                payherePaymentId: webhookData.payment_id,
+                amount: order.totalAmount,
+                currency: "LKR",
+                status: paymentStatus,
+                paymentMethod: webhookData.method || null,
+                paidAt: paymentStatus === "COMPLETED" ? new Date() : null,
+                paymentHash: webhookData.md5sig,
+                notificationData: payload,
+              },
+            });
+
+        if (paidAfterCancellation) {
+          console.warn(
+            "[PayHere Webhook] Payment completed for a cancelled order, refunding:",
+            { order_id: order.orderNumber }
+          );
+
+          await tx.orderStatusHistory.create({
             data: {
-              payherePaymentId: webhookData.payment_id,
-              status: paymentStatus,
-              paymentMethod: webhookData.method || null,
-              paidAt: paymentStatus === "COMPLETED" ? new Date() : null,
-              paymentHash: webhookData.md5sig,
-              notificationData: payload,
+              orderId: order.id,
+              status: "CANCELLED",
+              note: "Payment received after the order was cancelled. Full refund issued.",
+              createdBy: null, // System action
             },
           });
-        } else {
-          await tx.payment.create({
-            data: {
+
+          const refund = await createRefund(
+            {
+              paymentId: payment.id,
               orderId: order.id,
-              payherePaymentId: webhookData.payment_id,
-              amount: order.totalAmount,
-              currency: "LKR",
-              status: paymentStatus,
-              paymentMethod: webhookData.method || null,
-              paidAt: paymentStatus === "COMPLETED" ? new Date() : null,
-              paymentHash: webhookData.md5sig,
-              notificationData: payload,
+              amount: payment.amount,
+              reason: "Payment received after the order was cancelled",
             },
-          });
+            tx
+          );
+          return { lateRefundId: refund.id, confirmed: false };
         }
 
         // Update order status based on payment status
-        let newOrderStatus = order.status;
+        let newOrderStatus = current.status;
 
         if (paymentStatus === "COMPLETED") {
           newOrderStatus = "PAYMENT_CONFIRMED";
@@ -166,7 +221,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Only update if status changed
-        if (newOrderStatus !== order.status) {
+        if (newOrderStatus !== current.status) {
           await tx.order.update({
             where: { id: order.id },
             data: { status: newOrderStatus },
@@ -184,19 +239,33 @@ export async function POST(request: NextRequest) {
 
           console.log("[PayHere Webhook] Order status updated:", {
             order_id: order.orderNumber,
-            old_status: order.status,
+            old_status: current.status,
             new_status: newOrderStatus,
           });
 
           // (Post-transaction side effects handled after the transaction below)
         }
 
+        // Commit stock reservations on success, return held stock on failure
+        if (paymentStatus === "COMPLETED") {
+          await commitOrderStock(order.id, order.orderNumber, tx);
+        } else if (paymentStatus === "FAILED" || paymentStatus === "CANCELLED") {
+          await releaseOrderStock(
+            order.id,
+            `Payment ${paymentStatus.toLowerCase()} for order ${order.orderNumber}`,
+            tx
+          );
+        }
+
         // If payment successful, credit vendor wallets
         if (paymentStatus === "COMPLETED") {
           console.log("[PayHere Webhook] Processing wallet credits...");
 
-          // Calculate vendor earnings
-          const vendorEarnings = calculateVendorEarnings(order.items);
+          // Calculate vendor earnings (including each vendor's shipping line)
+          const vendorEarnings = calculateVendorEarnings(
+            order.items,
+            order.shippingLines
+          );
 
           console.log("[PayHere Webhook] Vendor earnings calculated:", {
             vendor_count: vendorEarnings.length,
@@ -215,14 +284,43 @@ export async function POST(request: NextRequest) {
 
           console.log("[PayHere Webhook] Vendor wallets credited successfully");
         }
+
+        return {
+          lateRefundId: null,
+          confirmed: paymentStatus === "COMPLETED" && current.status === "PENDING_PAYMENT",
+        };
       },
       {
         timeout: 30000, // 30 second timeout for long transactions
       }
     );
 
+    // Late payment on a cancelled order: send the refund to PayHere (retried
+    // by the socket server if this attempt fails) and tell the customer
+    if (lateRefundId) {
+      const refund = await attemptRefund(lateRefundId);
+
+      try {
+        await createNotification({
+          userId: order.customer.user.id,
+          type: NotificationType.ORDER_CANCELLED,
+          title: "Order Cancelled",
+          message: `Your payment for order ${order.orderNumber} arrived after the order was cancelled. A refund of Rs. ${refund.amount.toFixed(2)} has been ${refund.status === "SUCCEEDED" ? "issued to your original payment method" : "requested and will be completed shortly"}.`,
+          link: `/orders/${order.id}`,
+          metadata: {
+            orderId: order.id,
+            orderNumber: order.orderNumber,
+            refundAmount: refund.amount.toNumber(),
+            refundId: refund.id,
+          },
+        });
+      } catch (notifError) {
+        console.error("[PayHere Webhook] Failed to send notification:", notifError);
+      }
+    }
+
     // Post-transaction side effects for PAYMENT_CONFIRMED
-    if (paymentStatus === "COMPLETED" && order.status === "PENDING_PAYMENT") {
+    if (confirmed) {
       // Create chat rooms (after transaction commits so order status is PAYMENT_CONFIRMED)
       try {
         console.log("[PayHere Webhook] Creating chat rooms for order:", order.id);
@@ -0,0 +1,85 @@
+/**
+ * Public Product Questions API
+ * GET /api/products/[slug]/questions - Answered questions for a product
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ProductQuestionStatus } from "@prisma/client";
+import { getVisibleQuestionText } from "@/lib/utils/productQuestion";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(parseInt(searchParams.get("page") || "1"), 1);
+    const pageSize = Math.min(parseInt(searchParams.get("pageSize") || "10"), 50);
+    const skip = (page - 1) * pageSize;
+
+    const product = await prisma.product.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+
+    if (!product) {
+      return NextResponse.json(
+        { success: false, error: "Product not found" },
+        { status: 404 }
+      );
+    }
+
+    // Flagged questions wait for admin approval before they are shown
+    const where = {
+      productId: product.id,
+      status: ProductQuestionStatus.ANSWERED,
+      isFlagged: false,
+    };
+
+    const [questions, total] = await Promise.all([
+      prisma.productQuestion.findMany({
+        where,
+        include: {
+          customer: {
+            include: {
+              user: {
+                select: { firstName: true },
+              },
+            },
+          },
+        },
+        orderBy: { answeredAt: "desc" },
+        skip,
+        take: pageSize,
+      }),
+      prisma.productQuestion.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        questions: questions.map((q) => ({
+          id: q.id,
+          ...getVisibleQuestionText(q),
+          askedBy: q.customer.user.firstName || "Shopper",
+          createdAt: q.createdAt.toISOString(),
+          answeredAt: q.answeredAt?.toISOString() ?? null,
+        })),
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.ceil(total / pageSize),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Product questions error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch questions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Public Product Reviews API
+ * GET /api/products/[slug]/reviews - Visible reviews with rating histogram
+ *
+ * Query: sort=helpful|newest (default helpful), page, pageSize
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getRatingSummary, toPublicReview } from "@/lib/utils/review";
+import type { ReviewSort } from "@/types/review";
+
+const REVIEW_ORDER: Record<ReviewSort, Prisma.ProductReviewOrderByWithRelationInput[]> = {
+  helpful: [{ helpfulCount: "desc" }, { createdAt: "desc" }],
+  newest: [{ createdAt: "desc" }],
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const { searchParams } = new URL(request.url);
+    const sort: ReviewSort = searchParams.get("sort") === "newest" ? "newest" : "helpful";
+    const page = Math.max(parseInt(searchParams.get("page") || "1"), 1);
+    const pageSize = Math.min(parseInt(searchParams.get("pageSize") || "10"), 50);
+    const skip = (page - 1) * pageSize;
+
+    const product = await prisma.product.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+
+    if (!product) {
+      return NextResponse.json(
+        { success: false, error: "Product not found" },
+        { status: 404 }
+      );
+    }
+
+    const where = { productId: product.id, isVisible: true };
+
+    const [reviews, summary] = await Promise.all([
+      prisma.productReview.findMany({
+        where,
+        include: {
+          customer: {
+            include: {
+              user: { select: { firstName: true, lastName: true } },
+            },
+          },
+        },
+        orderBy: REVIEW_ORDER[sort],
+        skip,
+        take: pageSize,
+      }),
+      getRatingSummary(product.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        reviews: reviews.map(toPublicReview),
+        summary,
+        pagination: {
+          page,
+          pageSize,
+          total: summary.reviewCount,
+          totalPages: Math.ceil(summary.reviewCount / pageSize),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Product reviews error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch reviews" },
+      { status: 500 }
+    );
+  }
+}
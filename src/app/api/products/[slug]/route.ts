@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import {
+  PRODUCT_OPTIONS_INCLUDE,
+  getProductOptions,
+  getVariantOptionMap,
+} from "@/lib/utils/variants";
 
 export async function GET(
   request: NextRequest,
@@ -40,6 +45,9 @@ export async function GET(
             slug: true,
             description: true,
             logo: true,
+            isShopOpen: true,
+            shopClosedReason: true,
+            shopReopensAt: true,
             user: {
               select: {
                 id: true,
@@ -48,6 +56,7 @@ export async function GET(
             },
           },
         },
+        options: PRODUCT_OPTIONS_INCLUDE,
         variants: {
           orderBy: {
             createdAt: "asc",
@@ -71,26 +80,6 @@ export async function GET(
       );
     }
 
-    // Fetch visible reviews with customer info
-    const reviews = await prisma.productReview.findMany({
-      where: { productId: product.id, isVisible: true },
-      include: {
-        customer: {
-          include: {
-            user: { select: { firstName: true, lastName: true } },
-          },
-        },
-      },
-      orderBy: { createdAt: "desc" },
-      take: 20,
-    });
-
-    const reviewCount = reviews.length;
-    const avgRating =
-      reviewCount > 0
-        ? reviews.reduce((sum, r) => sum + r.rating, 0) / reviewCount
-        : 0;
-
     // Get related products (same category, different product)
     const relatedProducts = await prisma.product.findMany({
       where: {
@@ -100,6 +89,7 @@ export async function GET(
         isDisabledByAdmin: false,
         vendor: {
           isApproved: true,
+          isShopOpen: true,
           user: {
             isActive: true,
           },
@@ -142,26 +132,14 @@ export async function GET(
           ...product,
           price: product.price.toNumber(),
           images: product.images.map((img) => img.url),
+          options: getProductOptions(product),
           variants: product.variants.map((v) => ({
             ...v,
+            options: getVariantOptionMap(v),
             priceAdjustment: v.priceAdjustment ? v.priceAdjustment.toNumber() : null,
           })),
-          averageRating: Math.round(avgRating * 10) / 10,
-          reviewCount,
-          reviews: reviews.map((r) => ({
-            id: r.id,
-            rating: r.rating,
-            comment: r.comment,
-            createdAt: r.createdAt.toISOString(),
-            customer: {
-              user: {
-                name:
-                  [r.customer.user.firstName, r.customer.user.lastName]
-                    .filter(Boolean)
-                    .join(" ") || null,
-              },
-            },
-          })),
+          averageRating: product.averageRating,
+          reviewCount: product.reviewCount,
         },
         relatedProducts: relatedProducts.map((p) => {
           const basePrice = p.price.toNumber();
@@ -179,8 +157,8 @@ export async function GET(
             totalStock,
             images: p.images.map((img) => img.url),
             variants: undefined,
-            averageRating: 0,
-            reviewCount: 0,
+            averageRating: p.averageRating,
+            reviewCount: p.reviewCount,
           };
         }),
       },
@@ -1,146 +1,113 @@
+/**
+ * Public Products API
+ * GET /api/products - Search, filter and paginate active products (no auth required)
+ *
+ * Query params: page, limit, search, categoryId, vendorId, minPrice, maxPrice,
+ * minRating, size, colour, inStock, sortBy (relevance | createdAt | price |
+ * name | rating | bestselling), sortOrder (asc | desc)
+ *
+ * Searches are sorted by relevance unless sortBy is given. The response
+ * includes facet counts and whether the results are fuzzy (misspelling) matches.
+ */
+
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { Prisma } from "@prisma/client";
+import { searchProducts, type ProductSortField } from "@/lib/search/productSearch";
+
+const SORT_FIELDS: ProductSortField[] = [
+  "relevance",
+  "createdAt",
+  "price",
+  "name",
+  "rating",
+  "bestselling",
+];
+
+const parseNumber = (value: string | null) => {
+  const number = value ? parseFloat(value) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+};
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
 
     // Pagination
-    const page = parseInt(searchParams.get("page") || "1");
-    const limit = parseInt(searchParams.get("limit") || "12");
+    const page = Math.max(parseInt(searchParams.get("page") || "1") || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "12") || 12, 1), 100);
     const skip = (page - 1) * limit;
 
     // Filters
-    const search = searchParams.get("search") || "";
-    const categoryId = searchParams.get("categoryId") || "";
-    const vendorId = searchParams.get("vendorId") || "";
-    const minPrice = searchParams.get("minPrice");
-    const maxPrice = searchParams.get("maxPrice");
-    const sortBy = searchParams.get("sortBy") || "createdAt";
-    const sortOrder = searchParams.get("sortOrder") || "desc";
-    const inStock = searchParams.get("inStock") === "true";
-
-    // Build where clause
-    const where: Prisma.ProductWhereInput = {
-      isActive: true,
-      isDisabledByAdmin: false,
-      vendor: {
-        isApproved: true,
-        user: {
-          isActive: true,
-        },
-      },
-    };
-
-    // Search in name and description
-    if (search) {
-      where.OR = [
-        { name: { contains: search, mode: "insensitive" } },
-        { description: { contains: search, mode: "insensitive" } },
-      ];
-    }
-
-    // Filter by category (including subcategories)
-    if (categoryId) {
-      where.OR = [
-        { categoryId },
-        { category: { parentId: categoryId } },
-      ];
-    }
-
-    // Filter by vendor
-    if (vendorId) {
-      where.vendorId = vendorId;
-    }
-
-    // Filter by price range
-    if (minPrice || maxPrice) {
-      where.price = {};
-      if (minPrice) {
-        where.price.gte = parseFloat(minPrice);
-      }
-      if (maxPrice) {
-        where.price.lte = parseFloat(maxPrice);
-      }
-    }
+    const sortBy = searchParams.get("sortBy") as ProductSortField | null;
+    const sortOrder = searchParams.get("sortOrder");
 
-    // Filter by stock availability
-    if (inStock) {
-      where.stock = { gt: 0 };
-    }
-
-    // Build orderBy clause
-    const orderBy: Prisma.ProductOrderByWithRelationInput = {};
-    if (sortBy === "price") {
-      orderBy.price = sortOrder as "asc" | "desc";
-    } else if (sortBy === "name") {
-      orderBy.name = sortOrder as "asc" | "desc";
-    } else {
-      orderBy.createdAt = sortOrder as "asc" | "desc";
-    }
+    const { hits, total, facets, fuzzy } = await searchProducts({
+      search: searchParams.get("search") || "",
+      categoryId: searchParams.get("categoryId") || undefined,
+      vendorId: searchParams.get("vendorId") || undefined,
+      minPrice: parseNumber(searchParams.get("minPrice")),
+      maxPrice: parseNumber(searchParams.get("maxPrice")),
+      minRating: parseNumber(searchParams.get("minRating")),
+      size: searchParams.get("size") || undefined,
+      colour: searchParams.get("colour") || undefined,
+      inStock: searchParams.get("inStock") === "true",
+      sortBy: sortBy && SORT_FIELDS.includes(sortBy) ? sortBy : undefined,
+      // Price and name read low-to-high unless asked otherwise
+      sortOrder:
+        sortOrder === "asc" || sortOrder === "desc"
+          ? sortOrder
+          : sortBy === "price" || sortBy === "name"
+          ? "asc"
+          : "desc",
+      skip,
+      take: limit,
+    });
 
-    // Fetch products with pagination
-    const [products, total] = await Promise.all([
-      prisma.product.findMany({
-        where,
-        include: {
-          images: {
-            select: { url: true },
-            orderBy: { position: "asc" },
-          },
-          category: {
-            select: {
-              id: true,
-              name: true,
-              slug: true,
-            },
+    const products = await prisma.product.findMany({
+      where: { id: { in: hits.map((hit) => hit.id) } },
+      include: {
+        images: {
+          select: { url: true },
+          orderBy: { position: "asc" },
+        },
+        category: {
+          select: {
+            id: true,
+            name: true,
+            slug: true,
           },
-          vendor: {
-            select: {
-              id: true,
-              businessName: true,
-              slug: true,
-              user: {
-                select: {
-                  id: true,
-                },
+        },
+        vendor: {
+          select: {
+            id: true,
+            businessName: true,
+            slug: true,
+            user: {
+              select: {
+                id: true,
               },
             },
           },
-          variants: {
-            select: { priceAdjustment: true, stock: true },
-          },
         },
-        orderBy,
-        skip,
-        take: limit,
-      }),
-      prisma.product.count({ where }),
-    ]);
+      },
+    });
+    const productsById = new Map(products.map((product) => [product.id, product]));
 
-    // Flatten images, compute display price and total stock for variant products
-    const productsWithRatings = products.map((product) => {
-      const basePrice = product.price.toNumber();
-      const hasVariants = product.variants.length > 0;
-      // Minimum absolute price across all variants
-      const displayPrice = hasVariants
-        ? Math.min(...product.variants.map((v) => basePrice + (v.priceAdjustment ? v.priceAdjustment.toNumber() : 0)))
-        : basePrice;
-      // Total stock across all variants (or base stock for simple products)
-      const totalStock = hasVariants
-        ? product.variants.reduce((sum, v) => sum + v.stock, 0)
-        : product.stock;
-      return {
-        ...product,
-        price: basePrice,
-        displayPrice,
-        totalStock,
-        images: product.images.map((img) => img.url),
-        variants: undefined, // don't expose raw variants to card
-        averageRating: 0,
-        reviewCount: 0,
-      };
+    // Keep the search order; display price and stock span all variants
+    const productsWithRatings = hits.flatMap((hit) => {
+      const product = productsById.get(hit.id);
+      if (!product) return [];
+      return [
+        {
+          ...product,
+          price: product.price.toNumber(),
+          displayPrice: hit.displayPrice,
+          totalStock: hit.totalStock,
+          images: product.images.map((img) => img.url),
+          averageRating: hit.averageRating,
+          reviewCount: hit.reviewCount,
+        },
+      ];
     });
 
     const totalPages = Math.ceil(total / limit);
@@ -156,6 +123,8 @@ export async function GET(request: NextRequest) {
           totalPages,
           hasMore: page < totalPages,
         },
+        facets,
+        fuzzy,
       },
     });
   } catch (error) {
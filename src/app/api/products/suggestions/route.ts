@@ -0,0 +1,25 @@
+/**
+ * Search Suggestions API
+ * GET /api/products/suggestions?q= - Autocomplete product names and categories (no auth required)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSearchSuggestions } from "@/lib/search/productSearch";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const suggestions = await getSearchSuggestions(searchParams.get("q") || "");
+
+    return NextResponse.json({
+      success: true,
+      data: suggestions,
+    });
+  } catch (error) {
+    console.error("Error fetching search suggestions:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch suggestions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Product Questions API
+ * POST /api/questions — Customer asks a question about a product
+ * GET  /api/questions?productId= — Customer's own questions on a product
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ProductQuestionStatus } from "@prisma/client";
+import { askQuestionSchema } from "@/lib/validations/productQuestion";
+import {
+  MAX_PENDING_QUESTIONS_PER_PRODUCT,
+  getVisibleQuestionText,
+  moderateQuestionText,
+  previewText,
+} from "@/lib/utils/productQuestion";
+import { createNotification } from "@/lib/notifications";
+import { NotificationType } from "@/types/notification";
+import { withRateLimit } from "@/lib/rateLimit";
+
+export const POST = withRateLimit("question-create", handlePOST);
+
+async function handlePOST(request: NextRequest) {
+  try {
+    const userId = request.headers.get("X-User-Id");
+    const userRole = request.headers.get("X-User-Role");
+
+    if (!userId || userRole !== "CUSTOMER") {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Get customer record
+    const customer = await prisma.customer.findUnique({
+      where: { userId },
+    });
+    if (!customer) {
+      return NextResponse.json(
+        { success: false, error: "Customer not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = askQuestionSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { productId, question } = validation.data;
+
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      include: {
+        vendor: {
+          select: {
+            userId: true,
+            isApproved: true,
+            user: { select: { isActive: true } },
+          },
+        },
+      },
+    });
+
+    if (
+      !product ||
+      !product.isActive ||
+      product.isDisabledByAdmin ||
+      !product.vendor.isApproved ||
+      !product.vendor.user.isActive
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Product not available" },
+        { status: 404 }
+      );
+    }
+
+    const pendingCount = await prisma.productQuestion.count({
+      where: {
+        productId,
+        customerId: customer.id,
+        status: ProductQuestionStatus.PENDING,
+      },
+    });
+    if (pendingCount >= MAX_PENDING_QUESTIONS_PER_PRODUCT) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Please wait for the seller to answer your earlier questions",
+        },
+        { status: 429 }
+      );
+    }
+
+    const moderation = moderateQuestionText(question);
+
+    const created = await prisma.productQuestion.create({
+      data: {
+        productId,
+        customerId: customer.id,
+        question,
+        questionFiltered: moderation.filtered,
+        isFlagged: moderation.flagged,
+      },
+    });
+
+    // Let the vendor know a shopper is waiting
+    await createNotification({
+      userId: product.vendor.userId,
+      type: NotificationType.PRODUCT_QUESTION_ASKED,
+      metadata: {
+        questionId: created.id,
+        productId,
+        productName: product.name,
+        productSlug: product.slug,
+        questionPreview: previewText(moderation.filtered ?? question),
+        actionRequired: true,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        question: {
+          id: created.id,
+          ...getVisibleQuestionText(created),
+          status: created.status,
+          createdAt: created.createdAt.toISOString(),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Ask question error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to submit question" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = request.headers.get("X-User-Id");
+    const userRole = request.headers.get("X-User-Role");
+
+    if (!userId || userRole !== "CUSTOMER") {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { userId },
+    });
+    if (!customer) {
+      return NextResponse.json(
+        { success: false, error: "Customer not found" },
+        { status: 404 }
+      );
+    }
+
+    const productId = new URL(request.url).searchParams.get("productId");
+    if (!productId) {
+      return NextResponse.json(
+        { success: false, error: "productId is required" },
+        { status: 400 }
+      );
+    }
+
+    const questions = await prisma.productQuestion.findMany({
+      where: {
+        productId,
+        customerId: customer.id,
+        status: { not: ProductQuestionStatus.HIDDEN },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        questions: questions.map((q) => ({
+          id: q.id,
+          ...getVisibleQuestionText(q),
+          status: q.status,
+          createdAt: q.createdAt.toISOString(),
+          answeredAt: q.answeredAt?.toISOString() ?? null,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Customer questions error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch questions" },
+      { status: 500 }
+    );
+  }
+}
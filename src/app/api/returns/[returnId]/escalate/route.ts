@@ -0,0 +1,79 @@
+/**
+ * Return escalation API
+ * POST /api/returns/[returnId]/escalate - Customer escalates a rejected or stalled return to a dispute
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireCustomer, handleAuthError } from "@/lib/auth-helpers";
+import { escalateReturnSchema } from "@/lib/validations/returnRequest";
+import { escalateReturn, ReturnRequestError } from "@/lib/utils/returnRequest";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ returnId: string }> }
+) {
+  try {
+    const user = requireCustomer(request);
+
+    const customer = await prisma.customer.findUnique({
+      where: { userId: user.userId },
+      select: { id: true },
+    });
+
+    if (!customer) {
+      return NextResponse.json(
+        { success: false, error: "Customer not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = escalateReturnSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { returnId } = await params;
+
+    const { returnRequest, disputeId } = await escalateReturn({
+      returnId,
+      customerId: customer.id,
+      message: validation.data.message,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        returnRequest: {
+          id: returnRequest.id,
+          returnNumber: returnRequest.returnNumber,
+          status: returnRequest.status,
+        },
+        disputeId,
+      },
+      message: "Your return has been escalated to a dispute. An admin will review it.",
+    });
+  } catch (error) {
+    if (error instanceof ReturnRequestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("[Return Escalate] Error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { success: false, error: "Failed to escalate return" },
+      { status: 500 }
+    );
+  }
+}
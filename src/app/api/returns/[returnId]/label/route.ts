@@ -0,0 +1,143 @@
+/**
+ * Return label API
+ * GET /api/returns/[returnId]/label - Printable return label (customer, vendor or admin)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { format } from "date-fns";
+import { UserRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { RETURN_VIEW_INCLUDE, toReturnRequestView } from "@/lib/utils/returnRequest";
+import type { ReturnLabel, ReturnRequestView } from "@/types/returnRequest";
+
+const APP_NAME = process.env.NEXT_PUBLIC_APP_NAME || "PrimeWear";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Render the label as a standalone page the customer prints and attaches to the parcel
+ */
+function renderLabel(view: ReturnRequestView, label: ReturnLabel): string {
+  const items = view.items
+    .map(
+      (item) =>
+        `<tr><td>${escapeHtml(item.productName)}${item.variantLabel ? ` (${escapeHtml(item.variantLabel)})` : ""}</td><td style="text-align: right;">${item.quantity}</td></tr>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Return Label ${escapeHtml(label.reference)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; color: #18181b; margin: 0; padding: 24px; }
+    .label { max-width: 640px; margin: 0 auto; border: 2px dashed #18181b; padding: 24px; }
+    .reference { font-family: monospace; font-size: 32px; font-weight: 700; letter-spacing: 2px; text-align: center; border: 2px solid #18181b; padding: 12px; margin: 16px 0; }
+    .address { border: 1px solid #d4d4d8; padding: 12px; margin-bottom: 12px; }
+    .address h3 { margin: 0 0 6px; font-size: 12px; text-transform: uppercase; color: #71717a; }
+    .address p { margin: 2px 0; }
+    table { width: 100%; border-collapse: collapse; font-size: 14px; }
+    th, td { border-bottom: 1px solid #e4e4e7; padding: 6px 0; text-align: left; }
+    .muted { color: #71717a; font-size: 12px; }
+    @media print { .no-print { display: none; } body { padding: 0; } }
+  </style>
+</head>
+<body>
+  <div class="no-print" style="text-align: center; margin-bottom: 16px;">
+    <button onclick="window.print()" style="padding: 8px 20px; font-size: 14px; cursor: pointer;">Print label</button>
+  </div>
+  <div class="label">
+    <strong>${APP_NAME} Return</strong>
+    <span class="muted" style="float: right;">Order ${escapeHtml(view.orderNumber)}</span>
+    <div class="reference">${escapeHtml(label.reference)}</div>
+    <div class="address">
+      <h3>Ship to</h3>
+      <p><strong>${escapeHtml(label.shipTo.name)}</strong></p>
+      <p>${escapeHtml(label.shipTo.address || "Contact the seller for the return address")}</p>
+      <p>${escapeHtml(label.shipTo.phone)}</p>
+    </div>
+    <div class="address">
+      <h3>From</h3>
+      <p><strong>${escapeHtml(label.shipFrom.name)}</strong></p>
+      <p>${escapeHtml(label.shipFrom.address)}</p>
+      ${label.shipFrom.phone ? `<p>${escapeHtml(label.shipFrom.phone)}</p>` : ""}
+    </div>
+    <table>
+      <thead><tr><th>Item</th><th style="text-align: right;">Qty</th></tr></thead>
+      <tbody>${items}</tbody>
+    </table>
+    <p class="muted">Write the return number on the parcel if you can't attach this label. Issued ${format(new Date(label.issuedAt), "d MMM yyyy")}.</p>
+  </div>
+</body>
+</html>`;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ returnId: string }> }
+) {
+  try {
+    const userId = request.headers.get("X-User-Id");
+    const userRole = request.headers.get("X-User-Role");
+
+    if (!userId || !userRole) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { returnId } = await params;
+
+    const returnRequest = await prisma.returnRequest.findUnique({
+      where: { id: returnId },
+      include: {
+        ...RETURN_VIEW_INCLUDE,
+        customer: { select: { userId: true } },
+        vendor: { select: { businessName: true, userId: true } },
+      },
+    });
+
+    // Only the customer, the vendor and admins may see the label
+    const canView =
+      returnRequest &&
+      (userRole === UserRole.ADMIN ||
+        (userRole === UserRole.CUSTOMER && returnRequest.customer.userId === userId) ||
+        (userRole === UserRole.VENDOR && returnRequest.vendor.userId === userId));
+
+    if (!returnRequest || !canView) {
+      return NextResponse.json(
+        { success: false, error: "Return request not found" },
+        { status: 404 }
+      );
+    }
+
+    const view = toReturnRequestView(returnRequest);
+
+    if (!view.returnLabel) {
+      return NextResponse.json(
+        { success: false, error: "A return label is issued once the seller approves the return" },
+        { status: 400 }
+      );
+    }
+
+    return new NextResponse(renderLabel(view, view.returnLabel), {
+      status: 200,
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error("[Return Label] Error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load return label" },
+      { status: 500 }
+    );
+  }
+}
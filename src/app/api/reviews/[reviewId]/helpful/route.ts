@@ -0,0 +1,147 @@
+/**
+ * Review Helpful Votes API
+ * POST   /api/reviews/[reviewId]/helpful — Customer marks a review as helpful
+ * DELETE /api/reviews/[reviewId]/helpful — Customer removes their vote
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+async function getCustomerId(request: NextRequest): Promise<string | null> {
+  const userId = request.headers.get("X-User-Id");
+  const userRole = request.headers.get("X-User-Role");
+
+  if (!userId || userRole !== "CUSTOMER") return null;
+
+  const customer = await prisma.customer.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+
+  return customer?.id ?? null;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ reviewId: string }> }
+) {
+  try {
+    const customerId = await getCustomerId(request);
+    if (!customerId) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { reviewId } = await params;
+
+    const review = await prisma.productReview.findUnique({
+      where: { id: reviewId },
+      select: { customerId: true, isVisible: true, helpfulCount: true },
+    });
+
+    if (!review || !review.isVisible) {
+      return NextResponse.json(
+        { success: false, error: "Review not found" },
+        { status: 404 }
+      );
+    }
+
+    if (review.customerId === customerId) {
+      return NextResponse.json(
+        { success: false, error: "You cannot vote on your own review" },
+        { status: 400 }
+      );
+    }
+
+    // Voting again is a no-op
+    const existingVote = await prisma.reviewHelpfulVote.findUnique({
+      where: { reviewId_customerId: { reviewId, customerId } },
+    });
+    if (existingVote) {
+      return NextResponse.json({
+        success: true,
+        data: { helpful: true, helpfulCount: review.helpfulCount },
+      });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.reviewHelpfulVote.create({
+        data: { reviewId, customerId },
+      });
+      return tx.productReview.update({
+        where: { id: reviewId },
+        data: { helpfulCount: { increment: 1 } },
+        select: { helpfulCount: true },
+      });
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { helpful: true, helpfulCount: updated.helpfulCount },
+    });
+  } catch (error) {
+    console.error("Helpful vote error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to record vote" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ reviewId: string }> }
+) {
+  try {
+    const customerId = await getCustomerId(request);
+    if (!customerId) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { reviewId } = await params;
+
+    const helpfulCount = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.reviewHelpfulVote.deleteMany({
+        where: { reviewId, customerId },
+      });
+
+      if (count === 0) {
+        const review = await tx.productReview.findUnique({
+          where: { id: reviewId },
+          select: { helpfulCount: true },
+        });
+        return review?.helpfulCount ?? null;
+      }
+
+      const review = await tx.productReview.update({
+        where: { id: reviewId },
+        data: { helpfulCount: { decrement: count } },
+        select: { helpfulCount: true },
+      });
+      return review.helpfulCount;
+    });
+
+    if (helpfulCount === null) {
+      return NextResponse.json(
+        { success: false, error: "Review not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { helpful: false, helpfulCount },
+    });
+  } catch (error) {
+    console.error("Remove helpful vote error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to remove vote" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Customer Helpful Votes API
+ * GET /api/reviews/helpful?productId= — Reviews of a product the customer marked as helpful
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = request.headers.get("X-User-Id");
+    const userRole = request.headers.get("X-User-Role");
+
+    if (!userId || userRole !== "CUSTOMER") {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const productId = new URL(request.url).searchParams.get("productId");
+    if (!productId) {
+      return NextResponse.json(
+        { success: false, error: "productId is required" },
+        { status: 400 }
+      );
+    }
+
+    const votes = await prisma.reviewHelpfulVote.findMany({
+      where: {
+        customer: { userId },
+        review: { productId },
+      },
+      select: { reviewId: true },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { reviewIds: votes.map((v) => v.reviewId) },
+    });
+  } catch (error) {
+    console.error("Helpful votes error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch votes" },
+      { status: 500 }
+    );
+  }
+}
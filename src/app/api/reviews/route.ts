@@ -6,15 +6,15 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { z } from "zod";
+import { createReviewSchema } from "@/lib/validations/review";
+import { getReviewPhotos } from "@/lib/utils/review";
+import { releaseImages } from "@/lib/storage/storageService";
+import { refreshProductStats } from "@/lib/utils/productStats";
+import { withRateLimit } from "@/lib/rateLimit";
 
-const createReviewSchema = z.object({
-  orderItemId: z.string().min(1),
-  rating: z.number().int().min(1).max(5),
-  comment: z.string().max(1000).optional().nullable(),
-});
+export const POST = withRateLimit("review-create", handlePOST);
 
-export async function POST(request: NextRequest) {
+async function handlePOST(request: NextRequest) {
   try {
     const userId = request.headers.get("X-User-Id");
     const userRole = request.headers.get("X-User-Role");
@@ -46,7 +46,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { orderItemId, rating, comment } = validation.data;
+    const { orderItemId, rating, comment, photos } = validation.data;
 
     // Fetch the order item and verify ownership + order status
     const orderItem = await prisma.orderItem.findUnique({
@@ -76,7 +76,7 @@ export async function POST(request: NextRequest) {
 
     // Only allow reviews after delivery is confirmed
     if (
-      !["DELIVERY_CONFIRMED", "RETURN_REQUESTED", "RETURNED", "DISPUTED", "REFUNDED"].includes(
+      !["DELIVERY_CONFIRMED", "RETURN_REQUESTED", "RETURNED", "DISPUTED", "PARTIALLY_REFUNDED", "REFUNDED"].includes(
         orderItem.order.status
       )
     ) {
@@ -98,13 +98,25 @@ export async function POST(request: NextRequest) {
         orderItemId,
         rating,
         comment: comment || null,
+        photos,
       },
       update: {
         rating,
         comment: comment || null,
+        photos,
       },
     });
 
+    await refreshProductStats([orderItem.productId]);
+
+    // Delete photos removed while editing the review
+    if (orderItem.review) {
+      const removed = getReviewPhotos(orderItem.review.photos).filter(
+        (url) => !photos.includes(url)
+      );
+      await releaseImages(removed);
+    }
+
     return NextResponse.json({
       success: true,
       data: { review },
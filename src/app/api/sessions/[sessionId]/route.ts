@@ -0,0 +1,50 @@
+/**
+ * Session API
+ * DELETE /api/sessions/[sessionId] — Log out one device
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { SessionRevokeReason } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { revokeSession } from "@/lib/session";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const userId = request.headers.get("X-User-Id");
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { sessionId } = await params;
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true },
+    });
+    if (!session || session.userId !== userId) {
+      return NextResponse.json(
+        { success: false, error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    await revokeSession(sessionId, SessionRevokeReason.REVOKED_BY_USER);
+
+    return NextResponse.json({
+      success: true,
+      message: "Device logged out",
+    });
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to log out device" },
+      { status: 500 }
+    );
+  }
+}
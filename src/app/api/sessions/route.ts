@@ -0,0 +1,76 @@
+/**
+ * Sessions API
+ * GET    /api/sessions — Devices the user is logged in on
+ * DELETE /api/sessions — Log out all other devices
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { SessionRevokeReason } from "@prisma/client";
+import { describeDevice, listActiveSessions, revokeUserSessions } from "@/lib/session";
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = request.headers.get("X-User-Id");
+    const sessionId = request.headers.get("X-Session-Id");
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const sessions = await listActiveSessions(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        sessions: sessions.map((session) => ({
+          id: session.id,
+          device: describeDevice(session.userAgent),
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt,
+          lastActiveAt: session.lastActiveAt,
+          isCurrent: session.id === sessionId,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Get sessions error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = request.headers.get("X-User-Id");
+    const sessionId = request.headers.get("X-Session-Id");
+    if (!userId || !sessionId) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const count = await revokeUserSessions(userId, SessionRevokeReason.REVOKED_BY_USER, {
+      exceptSessionId: sessionId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { revoked: count },
+      message:
+        count > 0
+          ? `Logged out of ${count} other device${count !== 1 ? "s" : ""}`
+          : "No other devices were logged in",
+    });
+  } catch (error) {
+    console.error("Revoke sessions error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to log out other devices" },
+      { status: 500 }
+    );
+  }
+}
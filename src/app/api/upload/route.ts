@@ -1,41 +1,38 @@
+/**
+ * Image upload API
+ * POST /api/upload - Upload an image (multipart: file, folder)
+ *
+ * Each folder has its own allow-list of roles (UPLOAD_FOLDERS). Images are
+ * identified by their content, re-encoded and stored with responsive sizes
+ * through the configured storage adapter.
+ */
+
 import { NextRequest, NextResponse } from "next/server";
-import { uploadImage } from "@/lib/cloudinary";
+import { requireAuth, handleAuthError } from "@/lib/auth-helpers";
 import { IMAGE_CONFIG } from "@/lib/utils/image";
+import { canUploadToFolder, storeImage } from "@/lib/storage/storageService";
+import { ImageUploadError } from "@/lib/storage/types";
 
-/**
- * POST /api/upload
- * Upload image to Cloudinary with validation
- */
 export async function POST(request: NextRequest) {
   try {
+    const user = requireAuth(request);
+
     // Get form data
     const formData = await request.formData();
-    const file = formData.get("file") as File;
+    const file = formData.get("file");
     const folder = (formData.get("folder") as string) || "products";
 
-    if (!file) {
+    if (!(file instanceof File)) {
       return NextResponse.json(
         { success: false, error: "No file provided" },
         { status: 400 }
       );
     }
 
-    // Validate file type
-    if (!file.type.startsWith("image/")) {
-      return NextResponse.json(
-        { success: false, error: "File must be an image" },
-        { status: 400 }
-      );
-    }
-
-    // Validate file format
-    if (!IMAGE_CONFIG.allowedFormats.includes(file.type)) {
+    if (!canUploadToFolder(folder, user.role)) {
       return NextResponse.json(
-        {
-          success: false,
-          error: "Invalid file format. Only JPG, PNG, and WEBP are allowed.",
-        },
-        { status: 400 }
+        { success: false, error: "You cannot upload images here" },
+        { status: 403 }
       );
     }
 
@@ -51,19 +48,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Convert to buffer
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-
-    // Upload to Cloudinary
-    const result = await uploadImage(buffer, folder);
+    // File type is checked from the content, not the reported MIME type
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const result = await storeImage(buffer, folder, user.userId);
 
     return NextResponse.json({
       success: true,
-      data: result,
+      data: { ...result, publicId: result.key },
     });
   } catch (error) {
+    if (error instanceof ImageUploadError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
     console.error("Upload error:", error);
+
+    const authError = handleAuthError(error);
+    if (authError) return authError;
+
     return NextResponse.json(
       {
         success: false,
@@ -0,0 +1,43 @@
+/**
+ * Local upload file server (public)
+ * GET /api/uploads/[...key] - Serve an image stored by the local storage adapter
+ *
+ * Only used when STORAGE_DRIVER is "local"; Cloudinary serves its own URLs.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { readFile } from "fs/promises";
+import { resolveLocalUploadPath } from "@/lib/storage/localAdapter";
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  const { key } = await params;
+  const filePath = resolveLocalUploadPath(key.join("/"));
+  const contentType = CONTENT_TYPES[filePath?.split(".").pop() ?? ""];
+
+  if (!filePath || !contentType) {
+    return NextResponse.json({ success: false, error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const file = await readFile(filePath);
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        "Content-Type": contentType,
+        // Keys are unique per upload, so files never change
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch {
+    return NextResponse.json({ success: false, error: "Not found" }, { status: 404 });
+  }
+}
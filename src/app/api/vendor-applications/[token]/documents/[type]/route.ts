@@ -0,0 +1,48 @@
+/**
+ * Vendor Application Document API (public, authorised by the access token)
+ * GET /api/vendor-applications/[token]/documents/[type] — View an uploaded document
+ *
+ * Lets the applicant see the documents they submitted when resubmitting.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { readApplicationDocument } from "@/lib/utils/vendorApplication";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string; type: string }> }
+) {
+  try {
+    const { token, type } = await params;
+
+    const application = await prisma.vendorApplication.findUnique({
+      where: { accessToken: token },
+      select: { documents: true },
+    });
+    const file = application
+      ? await readApplicationDocument(application.documents, type)
+      : null;
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(file.body), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Get vendor application document error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch document" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Vendor Application Status API (public, authorised by the access token)
+ * GET /api/vendor-applications/[token] — View the application and review comments
+ * PUT /api/vendor-applications/[token] — Resubmit after changes were requested
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { VendorApplicationStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { vendorApplicationSchema } from "@/lib/validations/vendor";
+import { releaseImages } from "@/lib/storage/storageService";
+import {
+  areApplicationUploads,
+  getApplicationDocuments,
+  notifyAdminsOfApplication,
+  notifyApplicant,
+  toApplicantView,
+} from "@/lib/utils/vendorApplication";
+import { withRateLimit } from "@/lib/rateLimit";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const application = await prisma.vendorApplication.findUnique({
+      where: { accessToken: token },
+    });
+    if (!application) {
+      return NextResponse.json(
+        { success: false, error: "Application not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { application: toApplicantView(application) },
+    });
+  } catch (error) {
+    console.error("Get vendor application error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch application" },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = withRateLimit("vendor-application", handlePUT);
+
+async function handlePUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const application = await prisma.vendorApplication.findUnique({
+      where: { accessToken: token },
+    });
+    if (!application) {
+      return NextResponse.json(
+        { success: false, error: "Application not found" },
+        { status: 404 }
+      );
+    }
+
+    if (application.status !== VendorApplicationStatus.CHANGES_REQUESTED) {
+      return NextResponse.json(
+        { success: false, error: "This application can no longer be changed" },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = vendorApplicationSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+
+    if (data.businessEmail !== application.businessEmail) {
+      const existingUser = await prisma.user.findUnique({
+        where: { email: data.businessEmail },
+        select: { id: true },
+      });
+      if (existingUser) {
+        return NextResponse.json(
+          { success: false, error: "An account with this email already exists" },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Documents kept from the previous submission are already stored
+    const previousKeys = getApplicationDocuments(application.documents).map((doc) => doc.key);
+    const newKeys = data.documents
+      .map((doc) => doc.key)
+      .filter((key) => !previousKeys.includes(key));
+
+    if (!(await areApplicationUploads(newKeys))) {
+      return NextResponse.json(
+        { success: false, error: "Please upload your documents again" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.vendorApplication.update({
+      where: { id: application.id },
+      data: {
+        ...data,
+        branchCode: data.branchCode || null,
+        description: data.description || null,
+        status: VendorApplicationStatus.PENDING,
+        submittedAt: new Date(),
+      },
+    });
+
+    // Delete documents the applicant replaced
+    // (private uploads are recorded with their key as url)
+    const keptKeys = data.documents.map((doc) => doc.key);
+    await releaseImages(previousKeys.filter((key) => !keptKeys.includes(key)));
+
+    await notifyApplicant(updated, "RECEIVED");
+    await notifyAdminsOfApplication(updated, true);
+
+    return NextResponse.json({
+      success: true,
+      data: { application: toApplicantView(updated) },
+      message: "Application resubmitted",
+    });
+  } catch (error) {
+    console.error("Resubmit vendor application error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to resubmit application" },
+      { status: 500 }
+    );
+  }
+}
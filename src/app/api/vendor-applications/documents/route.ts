@@ -0,0 +1,60 @@
+/**
+ * Vendor Application Documents API (public)
+ * POST /api/vendor-applications/documents — Upload a document image (multipart: file)
+ *
+ * Applicants don't have an account yet, so documents can't go through
+ * POST /api/upload. Documents are stored privately and only the storage key is
+ * returned; admins and the applicant view them through the document routes.
+ * Uploads that no application refers to are deleted by the image-cleanup job.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { IMAGE_CONFIG } from "@/lib/utils/image";
+import { storePrivateImage } from "@/lib/storage/storageService";
+import { ImageUploadError } from "@/lib/storage/types";
+import { withRateLimit } from "@/lib/rateLimit";
+
+export const POST = withRateLimit("vendor-application-document", handlePOST);
+
+async function handlePOST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: "No file provided" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > IMAGE_CONFIG.maxSize) {
+      const maxSizeMB = IMAGE_CONFIG.maxSize / 1024 / 1024;
+      return NextResponse.json(
+        { success: false, error: `File size must be less than ${maxSizeMB}MB` },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const result = await storePrivateImage(buffer, "vendor-applications", null);
+
+    return NextResponse.json({
+      success: true,
+      data: { key: result.key },
+    });
+  } catch (error) {
+    if (error instanceof ImageUploadError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Application document upload error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to upload document. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Vendor Applications API (public)
+ * POST /api/vendor-applications — Apply to sell on PrimeWear
+ *
+ * Documents are uploaded first through POST /api/vendor-applications/documents.
+ * The applicant follows the application through the status link that is
+ * returned and emailed to them.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { VendorApplicationStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { vendorApplicationSchema } from "@/lib/validations/vendor";
+import {
+  areApplicationUploads,
+  generateApplicationToken,
+  getApplicationLink,
+  notifyAdminsOfApplication,
+  notifyApplicant,
+} from "@/lib/utils/vendorApplication";
+import { withRateLimit } from "@/lib/rateLimit";
+
+export const POST = withRateLimit("vendor-application", handlePOST);
+
+async function handlePOST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validation = vendorApplicationSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: data.businessEmail },
+      select: { id: true },
+    });
+    if (existingUser) {
+      return NextResponse.json(
+        { success: false, error: "An account with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    const openApplication = await prisma.vendorApplication.findFirst({
+      where: {
+        businessEmail: data.businessEmail,
+        status: {
+          in: [VendorApplicationStatus.PENDING, VendorApplicationStatus.CHANGES_REQUESTED],
+        },
+      },
+      select: { id: true },
+    });
+    if (openApplication) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            "An application for this email is already in progress. Use the link in your confirmation email to follow it.",
+        },
+        { status: 409 }
+      );
+    }
+
+    if (!(await areApplicationUploads(data.documents.map((doc) => doc.key)))) {
+      return NextResponse.json(
+        { success: false, error: "Please upload your documents again" },
+        { status: 400 }
+      );
+    }
+
+    const application = await prisma.vendorApplication.create({
+      data: {
+        ...data,
+        branchCode: data.branchCode || null,
+        description: data.description || null,
+        accessToken: generateApplicationToken(),
+      },
+    });
+
+    await notifyApplicant(application, "RECEIVED");
+    await notifyAdminsOfApplication(application, false);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: application.id,
+          statusLink: getApplicationLink(application.accessToken),
+        },
+        message: "Application submitted",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Submit vendor application error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to submit application" },
+      { status: 500 }
+    );
+  }
+}
@@ -58,7 +58,12 @@ export async function GET(
           logo: vendor.logo,
           banner: vendor.banner,
           shopOpen: vendor.isShopOpen,
+          shopClosedReason: vendor.isShopOpen ? null : vendor.shopClosedReason,
+          shopReopensAt: vendor.isShopOpen ? null : vendor.shopReopensAt,
           productCount: vendor._count.products,
+          averageRating: vendor.averageRating,
+          reviewCount: vendor.reviewCount,
+          unitsSold30d: vendor.unitsSold30d,
         },
       },
     });
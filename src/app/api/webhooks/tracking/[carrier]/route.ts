@@ -0,0 +1,107 @@
+/**
+ * Local courier tracking webhook API
+ * POST /api/webhooks/tracking/[carrier] - Receive checkpoint updates from a courier
+ *
+ * Authenticated with the shared secret in the X-Tracking-Secret header
+ * (TRACKING_WEBHOOK_SECRET). Body: a single event or { events: [...] }.
+ */
+
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { CARRIERS } from "@/lib/tracking/carriers";
+import { TrackingPayloadError } from "@/lib/tracking/types";
+import {
+  getTrackingProvider,
+  ingestTrackingUpdates,
+} from "@/lib/tracking/trackingService";
+
+/**
+ * Compare the request's secret with the configured one in constant time
+ */
+function isValidSecret(received: string | null, expected: string): boolean {
+  if (!received) return false;
+
+  try {
+    return crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected));
+  } catch {
+    // If lengths don't match, timingSafeEqual throws
+    return false;
+  }
+}
+
+/**
+ * POST /api/webhooks/tracking/[carrier]
+ * Store the pushed checkpoints against the matching order items
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ carrier: string }> }
+) {
+  try {
+    const { carrier } = await params;
+
+    const courier = CARRIERS.find((c) => c.slug === carrier);
+    const provider = courier ? getTrackingProvider(courier.slug) : null;
+
+    if (!courier || !provider?.parseWebhook) {
+      return NextResponse.json(
+        { success: false, error: "Unknown carrier" },
+        { status: 404 }
+      );
+    }
+
+    const secret = process.env.TRACKING_WEBHOOK_SECRET;
+
+    if (!secret) {
+      console.error("[Tracking Webhook] TRACKING_WEBHOOK_SECRET not configured");
+      return NextResponse.json(
+        { success: false, error: "Tracking webhooks are not configured" },
+        { status: 503 }
+      );
+    }
+
+    if (!isValidSecret(request.headers.get("x-tracking-secret"), secret)) {
+      console.warn(`[Tracking Webhook] Invalid secret for carrier ${carrier}`);
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const { updates, skipped } = provider.parseWebhook(body);
+    const result = await ingestTrackingUpdates(courier.slug, updates);
+
+    console.log(
+      `[Tracking Webhook] ${courier.name}: ${result.recorded} event(s) recorded, ${result.unmatched.length} unmatched, ${skipped.length} skipped`
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result, skipped },
+    });
+  } catch (error) {
+    if (error instanceof TrackingPayloadError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Tracking Webhook] Error:", error);
+
+    return NextResponse.json(
+      { success: false, error: "Failed to process tracking update" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import {
+  WISHLIST_PRODUCT_INCLUDE,
+  getWishlistItems,
+  isProductAvailable,
+} from "@/lib/utils/wishlist";
+
+/**
+ * Helper function to require customer authentication
+ */
+async function requireCustomer(request: NextRequest): Promise<string | null> {
+  const userId = request.headers.get("X-User-Id");
+  const userRole = request.headers.get("X-User-Role");
+
+  if (!userId || userRole !== UserRole.CUSTOMER) {
+    return null;
+  }
+
+  const customer = await prisma.customer.findUnique({
+    where: { userId },
+  });
+
+  return customer?.id || null;
+}
+
+/**
+ * POST /api/wishlist/[itemId]/move-to-cart
+ * Move wishlist item into the cart with its saved quantity
+ * (capped at available stock)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ itemId: string }> }
+) {
+  try {
+    const customerId = await requireCustomer(request);
+
+    if (!customerId) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { itemId } = await params;
+
+    // Find wishlist item and verify it belongs to customer
+    const wishlistItem = await prisma.wishlistItem.findUnique({
+      where: { id: itemId },
+      include: {
+        wishlist: true,
+        product: { include: WISHLIST_PRODUCT_INCLUDE },
+      },
+    });
+
+    if (!wishlistItem) {
+      return NextResponse.json(
+        { success: false, error: "Wishlist item not found" },
+        { status: 404 }
+      );
+    }
+
+    if (wishlistItem.wishlist.customerId !== customerId) {
+      return NextResponse.json(
+        { success: false, error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    const { product, variantId } = wishlistItem;
+
+    if (!isProductAvailable(product)) {
+      return NextResponse.json(
+        { success: false, error: "Product not available" },
+        { status: 404 }
+      );
+    }
+
+    // Products with variants must be added as a specific combination
+    const variant = variantId
+      ? product.variants.find((v) => v.id === variantId)
+      : null;
+
+    if (!variant && product.variants.length > 0) {
+      return NextResponse.json(
+        { success: false, error: "Please select a variant" },
+        { status: 400 }
+      );
+    }
+
+    const availableStock = variant ? variant.stock : product.stock;
+
+    if (availableStock === 0) {
+      return NextResponse.json(
+        { success: false, error: "Product is out of stock" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const cart = await tx.cart.upsert({
+        where: { customerId },
+        create: { customerId },
+        update: {},
+      });
+
+      const existingItem = await tx.cartItem.findFirst({
+        where: {
+          cartId: cart.id,
+          productId: product.id,
+          variantId: variant?.id || null,
+        },
+      });
+
+      if (existingItem) {
+        await tx.cartItem.update({
+          where: { id: existingItem.id },
+          data: {
+            quantity: Math.min(
+              existingItem.quantity + wishlistItem.quantity,
+              availableStock
+            ),
+          },
+        });
+      } else {
+        await tx.cartItem.create({
+          data: {
+            cartId: cart.id,
+            productId: product.id,
+            variantId: variant?.id || null,
+            quantity: Math.min(wishlistItem.quantity, availableStock),
+          },
+        });
+      }
+
+      await tx.wishlistItem.delete({
+        where: { id: itemId },
+      });
+    });
+
+    const items = await getWishlistItems(customerId);
+
+    return NextResponse.json({
+      success: true,
+      data: { items },
+    });
+  } catch (error) {
+    console.error("Error moving wishlist item to cart:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to move item to cart" },
+      { status: 500 }
+    );
+  }
+}
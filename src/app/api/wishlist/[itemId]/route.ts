@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { getWishlistItems } from "@/lib/utils/wishlist";
+
+/**
+ * Helper function to require customer authentication
+ */
+async function requireCustomer(request: NextRequest): Promise<string | null> {
+  const userId = request.headers.get("X-User-Id");
+  const userRole = request.headers.get("X-User-Role");
+
+  if (!userId || userRole !== UserRole.CUSTOMER) {
+    return null;
+  }
+
+  const customer = await prisma.customer.findUnique({
+    where: { userId },
+  });
+
+  return customer?.id || null;
+}
+
+/**
+ * DELETE /api/wishlist/[itemId]
+ * Remove item from wishlist
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ itemId: string }> }
+) {
+  try {
+    const customerId = await requireCustomer(request);
+
+    if (!customerId) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { itemId } = await params;
+
+    // Find wishlist item and verify it belongs to customer
+    const wishlistItem = await prisma.wishlistItem.findUnique({
+      where: { id: itemId },
+      include: {
+        wishlist: true,
+      },
+    });
+
+    if (!wishlistItem) {
+      return NextResponse.json(
+        { success: false, error: "Wishlist item not found" },
+        { status: 404 }
+      );
+    }
+
+    if (wishlistItem.wishlist.customerId !== customerId) {
+      return NextResponse.json(
+        { success: false, error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    await prisma.wishlistItem.delete({
+      where: { id: itemId },
+    });
+
+    const items = await getWishlistItems(customerId);
+
+    return NextResponse.json({
+      success: true,
+      data: { items },
+    });
+  } catch (error) {
+    console.error("Error removing wishlist item:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to remove wishlist item" },
+      { status: 500 }
+    );
+  }
+}
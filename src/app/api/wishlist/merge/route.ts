@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { mergeWishlistSchema } from "@/lib/validations/wishlist";
+import { getWishlistItems, saveToWishlist } from "@/lib/utils/wishlist";
+
+/**
+ * Helper function to require customer authentication
+ */
+async function requireCustomer(request: NextRequest): Promise<string | null> {
+  const userId = request.headers.get("X-User-Id");
+  const userRole = request.headers.get("X-User-Role");
+
+  if (!userId || userRole !== UserRole.CUSTOMER) {
+    return null;
+  }
+
+  const customer = await prisma.customer.findUnique({
+    where: { userId },
+  });
+
+  return customer?.id || null;
+}
+
+/**
+ * POST /api/wishlist/merge
+ * Merge guest wishlist items into customer wishlist after login
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const customerId = await requireCustomer(request);
+
+    if (!customerId) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = mergeWishlistSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { guestItems } = validation.data;
+    const merged = { itemsAdded: 0, itemsSkipped: 0 };
+
+    if (guestItems.length > 0) {
+      // Use transaction for merge operation
+      await prisma.$transaction(async (tx) => {
+        for (const guestItem of guestItems) {
+          const saved = await saveToWishlist(
+            tx,
+            customerId,
+            guestItem.productId,
+            guestItem.variantId || null
+          );
+
+          // Skip products that were removed or disabled since being saved
+          if (saved) {
+            merged.itemsAdded++;
+          } else {
+            merged.itemsSkipped++;
+          }
+        }
+      });
+    }
+
+    const items = await getWishlistItems(customerId);
+
+    return NextResponse.json({
+      success: true,
+      data: { items, merged },
+    });
+  } catch (error) {
+    console.error("Error merging wishlist:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to merge wishlist" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { addToWishlistSchema } from "@/lib/validations/wishlist";
+import { getWishlistItems, saveToWishlist } from "@/lib/utils/wishlist";
+
+/**
+ * Helper function to require customer authentication
+ */
+async function requireCustomer(request: NextRequest): Promise<string | null> {
+  const userId = request.headers.get("X-User-Id");
+  const userRole = request.headers.get("X-User-Role");
+
+  if (!userId || userRole !== UserRole.CUSTOMER) {
+    return null;
+  }
+
+  const customer = await prisma.customer.findUnique({
+    where: { userId },
+  });
+
+  return customer?.id || null;
+}
+
+/**
+ * GET /api/wishlist
+ * Fetch customer's wishlist with current prices and stock
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const customerId = await requireCustomer(request);
+
+    if (!customerId) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const items = await getWishlistItems(customerId);
+
+    return NextResponse.json({
+      success: true,
+      data: { items },
+    });
+  } catch (error) {
+    console.error("Error fetching wishlist:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch wishlist" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/wishlist
+ * Add product (optionally a specific variant) to wishlist
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const customerId = await requireCustomer(request);
+
+    if (!customerId) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = addToWishlistSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { productId, variantId } = validation.data;
+
+    const saved = await saveToWishlist(prisma, customerId, productId, variantId || null);
+
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, error: "Product not available" },
+        { status: 404 }
+      );
+    }
+
+    const items = await getWishlistItems(customerId);
+
+    return NextResponse.json({
+      success: true,
+      data: { items },
+    });
+  } catch (error) {
+    console.error("Error adding to wishlist:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to add to wishlist" },
+      { status: 500 }
+    );
+  }
+}
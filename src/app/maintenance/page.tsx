@@ -0,0 +1,42 @@
+import Link from "next/link";
+import { Wrench } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getMaintenanceStatus, DEFAULT_MAINTENANCE_MESSAGE } from "@/lib/maintenance";
+
+// Served by the middleware during maintenance - always render the live status
+export const dynamic = "force-dynamic";
+
+export default async function MaintenancePage() {
+  const status = await getMaintenanceStatus();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background">
+      <div className="text-center px-4">
+        <div className="flex justify-center mb-6">
+          <div className="rounded-full bg-amber-100 p-6">
+            <Wrench className="h-16 w-16 text-amber-600" />
+          </div>
+        </div>
+        <h1 className="text-4xl font-bold mb-4">Under Maintenance</h1>
+        <p className="text-muted-foreground mb-4 max-w-md mx-auto">
+          {status.message || DEFAULT_MAINTENANCE_MESSAGE}
+        </p>
+        {status.endsAt && (
+          <p className="text-sm text-muted-foreground mb-8">
+            Expected back by{" "}
+            {new Date(status.endsAt).toLocaleString("en-LK", {
+              dateStyle: "medium",
+              timeStyle: "short",
+              timeZone: "Asia/Colombo",
+            })}
+          </p>
+        )}
+        {!status.active && (
+          <Button asChild className="mt-4">
+            <Link href="/">Go to Homepage</Link>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
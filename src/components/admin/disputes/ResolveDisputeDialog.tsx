@@ -29,10 +29,19 @@ import {
 } from '@/types/dispute';
 import { Loader2, AlertTriangle, DollarSign } from 'lucide-react';
 
+interface RefundableItem {
+  id: string;
+  quantity: number;
+  refundedQuantity: number;
+  unitPrice: number | string;
+  product?: { name: string } | null;
+}
+
 interface ResolveDisputeDialogProps {
   disputeId: string;
   orderTotal: number;
   refundCalculation: DisputeRefundCalculation | null;
+  items?: RefundableItem[];
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
@@ -41,6 +50,7 @@ export function ResolveDisputeDialog({
   disputeId,
   orderTotal,
   refundCalculation,
+  items = [],
   open,
   onOpenChange,
 }: ResolveDisputeDialogProps) {
@@ -49,8 +59,14 @@ export function ResolveDisputeDialog({
   const [resolutionType, setResolutionType] = useState<ResolutionType | ''>('');
   const [adminNotes, setAdminNotes] = useState('');
   const [customRefund, setCustomRefund] = useState('');
+  const [refundQuantities, setRefundQuantities] = useState<Record<string, string>>({});
   const [error, setError] = useState('');
 
+  // Items with a refund quantity entered
+  const selectedItems = Object.entries(refundQuantities)
+    .map(([orderItemId, value]) => ({ orderItemId, quantity: parseInt(value, 10) }))
+    .filter((item) => !isNaN(item.quantity) && item.quantity > 0);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -65,6 +81,15 @@ export function ResolveDisputeDialog({
       return;
     }
 
+    if (
+      customRefund &&
+      selectedItems.length > 0 &&
+      resolutionType === ResolutionType.CUSTOMER_FAVOR
+    ) {
+      setError('Enter either a custom refund amount or items to refund, not both');
+      return;
+    }
+
     // Validate custom refund if provided
     if (customRefund && resolutionType === ResolutionType.CUSTOMER_FAVOR) {
       const refundAmount = parseFloat(customRefund);
@@ -91,6 +116,11 @@ export function ResolveDisputeDialog({
         payload.refundAmount = parseFloat(customRefund);
       }
 
+      // Add item-level refund if items were selected
+      if (selectedItems.length > 0 && resolutionType === ResolutionType.CUSTOMER_FAVOR) {
+        payload.items = selectedItems;
+      }
+
       const response = await fetch(`/api/admin/disputes/${disputeId}/resolve`, {
         method: 'PATCH',
         headers: {
@@ -217,6 +247,48 @@ export function ResolveDisputeDialog({
             </div>
           )}
 
+          {/* Item-level Refund */}
+          {resolutionType === ResolutionType.CUSTOMER_FAVOR && items.length > 0 && (
+            <div className="space-y-2">
+              <Label>Refund Specific Items (Optional)</Label>
+              <div className="space-y-2">
+                {items.map((item) => {
+                  const refundable = item.quantity - item.refundedQuantity;
+                  return (
+                    <div key={item.id} className="flex items-center justify-between gap-4">
+                      <div className="text-sm">
+                        <p className="font-medium">{item.product?.name || 'Item'}</p>
+                        <p className="text-muted-foreground">
+                          Rs. {Number(item.unitPrice).toFixed(2)} × {refundable} refundable
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        className="w-24"
+                        min="0"
+                        max={refundable}
+                        step="1"
+                        placeholder="0"
+                        disabled={refundable === 0}
+                        value={refundQuantities[item.id] ?? ''}
+                        onChange={(e) =>
+                          setRefundQuantities((prev) => ({
+                            ...prev,
+                            [item.id]: e.target.value,
+                          }))
+                        }
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Only the selling vendors are debited. The coupon discount is pro-rated and
+                shipping is not refunded.
+              </p>
+            </div>
+          )}
+
           {/* Admin Notes */}
           <div className="space-y-2">
             <Label htmlFor="adminNotes">
@@ -55,7 +55,7 @@ export function CreateVendorDialog({
       businessPhone: "",
       businessAddress: "",
       description: "",
-      commissionRate: 10,
+      commissionRate: undefined,
     },
   });
 
@@ -245,12 +245,18 @@ export function CreateVendorDialog({
                       min="0"
                       max="100"
                       step="0.01"
+                      placeholder="Platform default"
                       {...field}
-                      onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                      value={field.value ?? ""}
+                      onChange={(e) =>
+                        field.onChange(
+                          e.target.value === "" ? undefined : parseFloat(e.target.value)
+                        )
+                      }
                     />
                   </FormControl>
                   <FormDescription>
-                    Platform commission percentage (default: 10%)
+                    Platform commission percentage (leave empty for the platform default)
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -0,0 +1,286 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { VendorCredentialsDialog } from "./VendorCredentialsDialog";
+import {
+  VENDOR_APPLICATION_DOCUMENT_LABELS,
+  VENDOR_APPLICATION_STATUS_COLORS,
+  VENDOR_APPLICATION_STATUS_LABELS,
+  type VendorApplicationDocumentType,
+  type VendorApplicationView,
+} from "@/types/vendor";
+
+type ReviewAction = "approve" | "reject" | "requestChanges";
+
+// Documents are stored privately and served by an admin-only route
+const getDocumentUrl = (applicationId: string, type: VendorApplicationDocumentType) =>
+  `/api/admin/vendor-applications/${applicationId}/documents/${type}`;
+
+interface ReviewApplicationDialogProps {
+  application: VendorApplicationView | null;
+  onOpenChange: (open: boolean) => void;
+  onReviewed: () => void;
+}
+
+export function ReviewApplicationDialog({
+  application,
+  onOpenChange,
+  onReviewed,
+}: ReviewApplicationDialogProps) {
+  const [note, setNote] = useState("");
+  const [commissionRate, setCommissionRate] = useState("");
+  const [submitting, setSubmitting] = useState<ReviewAction | null>(null);
+  const [credentials, setCredentials] = useState<{
+    businessName: string;
+    email: string;
+    tempPassword: string;
+  } | null>(null);
+  const { toast } = useToast();
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setNote("");
+      setCommissionRate("");
+    }
+    onOpenChange(open);
+  };
+
+  const handleReview = async (action: ReviewAction) => {
+    if (!application) return;
+
+    if (action !== "approve" && note.trim().length < 5) {
+      toast({
+        title: "Comment Required",
+        description: "Tell the applicant why (at least 5 characters)",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(action);
+    try {
+      const res = await fetch(`/api/admin/vendor-applications/${application.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          ...(note.trim() && { note: note.trim() }),
+          ...(action === "approve" &&
+            commissionRate && { commissionRate: parseFloat(commissionRate) }),
+        }),
+      });
+      const result = await res.json();
+
+      if (!result.success) {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to review application",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({ title: "Success", description: result.message });
+
+      // Same fallback as creating a vendor directly
+      if (action === "approve" && result.data.tempPassword) {
+        setCredentials({
+          businessName: application.businessName,
+          email: application.businessEmail,
+          tempPassword: result.data.tempPassword,
+        });
+      }
+
+      handleOpenChange(false);
+      onReviewed();
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to review application",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const isPending = application?.status === "PENDING";
+  const canReject = isPending || application?.status === "CHANGES_REQUESTED";
+
+  return (
+    <>
+      <Dialog open={!!application} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          {application && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {application.businessName}
+                  <Badge variant={VENDOR_APPLICATION_STATUS_COLORS[application.status]}>
+                    {VENDOR_APPLICATION_STATUS_LABELS[application.status]}
+                  </Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  Submitted {new Date(application.submittedAt).toLocaleString("en-LK")}
+                </DialogDescription>
+              </DialogHeader>
+
+              <dl className="grid gap-3 text-sm sm:grid-cols-2">
+                {[
+                  ["Business Email", application.businessEmail],
+                  ["Business Phone", application.businessPhone],
+                  ["Registration Number", application.businessRegistrationNo],
+                  ["Business Address", application.businessAddress],
+                  ["Owner", application.ownerName],
+                  ["NIC Number", application.nicNumber],
+                  ["Bank", application.bankName],
+                  ["Branch Code", application.branchCode || "—"],
+                  ["Account Holder", application.accountHolder],
+                  ["Account Number", application.accountNumber],
+                ].map(([label, value]) => (
+                  <div key={label}>
+                    <dt className="text-muted-foreground">{label}</dt>
+                    <dd className="font-medium whitespace-pre-wrap">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+
+              {application.description && (
+                <div className="text-sm">
+                  <p className="text-muted-foreground">What they sell</p>
+                  <p className="whitespace-pre-wrap">{application.description}</p>
+                </div>
+              )}
+
+              <Separator />
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Documents</p>
+                <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+                  {application.documents.map((doc) => (
+                    <a
+                      key={doc.type}
+                      href={getDocumentUrl(application.id, doc.type)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="space-y-1"
+                    >
+                      <img
+                        src={getDocumentUrl(application.id, doc.type)}
+                        alt={VENDOR_APPLICATION_DOCUMENT_LABELS[doc.type]}
+                        className="w-full aspect-[4/3] object-cover rounded border hover:opacity-80 transition-opacity"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {VENDOR_APPLICATION_DOCUMENT_LABELS[doc.type]}
+                      </p>
+                    </a>
+                  ))}
+                </div>
+              </div>
+
+              {application.reviewNote && (
+                <div className="rounded-lg border p-3 text-sm">
+                  <p className="text-muted-foreground">Last comment</p>
+                  <p className="whitespace-pre-wrap">{application.reviewNote}</p>
+                </div>
+              )}
+
+              {canReject && (
+                <>
+                  <Separator />
+                  <div className="space-y-4">
+                    <div>
+                      <Label htmlFor="reviewNote">Comment for the applicant</Label>
+                      <Textarea
+                        id="reviewNote"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="Required when rejecting or requesting changes"
+                        maxLength={1000}
+                        rows={3}
+                        className="mt-1.5"
+                      />
+                    </div>
+                    {isPending && (
+                      <div>
+                        <Label htmlFor="commissionRate">Commission Rate (%)</Label>
+                        <Input
+                          id="commissionRate"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="100"
+                          value={commissionRate}
+                          onChange={(e) => setCommissionRate(e.target.value)}
+                          placeholder="Platform default"
+                          className="mt-1.5 w-40"
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  <DialogFooter className="gap-2">
+                    <Button
+                      variant="destructive"
+                      onClick={() => handleReview("reject")}
+                      disabled={!!submitting}
+                    >
+                      {submitting === "reject" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Reject
+                    </Button>
+                    {isPending && (
+                      <>
+                        <Button
+                          variant="outline"
+                          onClick={() => handleReview("requestChanges")}
+                          disabled={!!submitting}
+                        >
+                          {submitting === "requestChanges" && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          )}
+                          Request Changes
+                        </Button>
+                        <Button onClick={() => handleReview("approve")} disabled={!!submitting}>
+                          {submitting === "approve" && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          )}
+                          Approve
+                        </Button>
+                      </>
+                    )}
+                  </DialogFooter>
+                </>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {credentials && (
+        <VendorCredentialsDialog
+          open={!!credentials}
+          onOpenChange={(open) => !open && setCredentials(null)}
+          businessName={credentials.businessName}
+          email={credentials.email}
+          tempPassword={credentials.tempPassword}
+        />
+      )}
+    </>
+  );
+}
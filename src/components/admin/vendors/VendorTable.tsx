@@ -2,7 +2,7 @@
 
 import { useState } from "react";
 import { formatDistance } from "date-fns";
-import { Edit, Eye, KeyRound, MoreVertical } from "lucide-react";
+import { Edit, Eye, KeyRound, LogOut, MoreVertical } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import {
   Table,
@@ -39,6 +39,7 @@ export function VendorTable({ vendors, onVendorUpdated }: VendorTableProps) {
     tempPassword: string;
   } | null>(null);
   const [resettingId, setResettingId] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
   const { toast } = useToast();
 
   const handleResetPassword = async (vendor: VendorWithUser) => {
@@ -66,6 +67,25 @@ export function VendorTable({ vendors, onVendorUpdated }: VendorTableProps) {
     }
   };
 
+  const handleRevokeSessions = async (vendor: VendorWithUser) => {
+    setRevokingId(vendor.id);
+    try {
+      const response = await fetch(`/api/admin/vendors/${vendor.id}/sessions`, {
+        method: "DELETE",
+      });
+      const result = await response.json();
+      if (!result.success) {
+        toast({ variant: "destructive", title: "Error", description: result.error || "Failed to revoke sessions" });
+        return;
+      }
+      toast({ title: "Success", description: result.data.message });
+    } catch {
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred" });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
   const formatCurrency = (amount: Decimal) => {
     return `Rs. ${Number(amount).toLocaleString("en-LK", {
       minimumFractionDigits: 2,
@@ -152,6 +172,10 @@ export function VendorTable({ vendors, onVendorUpdated }: VendorTableProps) {
                           <KeyRound className="mr-2 h-4 w-4" />
                           {resettingId === vendor.id ? "Resetting..." : "Reset Password"}
                         </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleRevokeSessions(vendor)} disabled={revokingId === vendor.id}>
+                          <LogOut className="mr-2 h-4 w-4" />
+                          {revokingId === vendor.id ? "Logging out..." : "Log Out All Devices"}
+                        </DropdownMenuItem>
                         <DropdownMenuItem>
                           <Eye className="mr-2 h-4 w-4" />
                           View Details
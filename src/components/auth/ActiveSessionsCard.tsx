@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatDistance } from "date-fns";
+import { Laptop, LogOut, MonitorSmartphone } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+
+interface ActiveSession {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  isCurrent: boolean;
+}
+
+export function ActiveSessionsCard() {
+  const [sessions, setSessions] = useState<ActiveSession[] | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchSessions = async () => {
+    try {
+      const response = await fetch("/api/sessions");
+      const result = await response.json();
+      if (result.success) setSessions(result.data.sessions);
+    } catch {
+      // silently fail
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const revoke = async (sessionId: string | "others") => {
+    setRevokingId(sessionId);
+    try {
+      const response = await fetch(
+        sessionId === "others" ? "/api/sessions" : `/api/sessions/${sessionId}`,
+        { method: "DELETE" }
+      );
+      const result = await response.json();
+
+      if (result.success) {
+        toast({ title: "Success", description: result.message });
+        await fetchSessions();
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to log out device",
+          variant: "destructive",
+        });
+      }
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to log out device",
+        variant: "destructive",
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const otherSessions = sessions?.filter((session) => !session.isCurrent) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          Active Devices
+        </CardTitle>
+        <CardDescription>
+          Devices logged in to your account. Log out any you don&apos;t recognise
+          and change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!sessions ? (
+          <div className="space-y-3">
+            <Skeleton className="h-14 w-full" />
+            <Skeleton className="h-14 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="divide-y rounded-lg border">
+              {sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between gap-3 p-3"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Laptop className="h-5 w-5 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{session.device}</span>
+                        {session.isCurrent && <Badge variant="secondary">This device</Badge>}
+                      </div>
+                      <p className="text-muted-foreground">
+                        {session.ipAddress && `${session.ipAddress} · `}
+                        Active{" "}
+                        {formatDistance(new Date(session.lastActiveAt), new Date(), {
+                          addSuffix: true,
+                        })}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.isCurrent && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revoke(session.id)}
+                      disabled={revokingId !== null}
+                    >
+                      {revokingId === session.id ? "Logging out..." : "Log Out"}
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {otherSessions.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => revoke("others")}
+                disabled={revokingId !== null}
+              >
+                <LogOut className="mr-2 h-4 w-4" />
+                {revokingId === "others" ? "Logging out..." : "Log Out All Other Devices"}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,16 +8,28 @@ import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useAuthStore } from "@/stores/authStore";
+import { useAuthStore, type User } from "@/stores/authStore";
 import { toast } from "sonner";
-import { Loader2, Eye, EyeOff } from "lucide-react";
+import { Loader2, Eye, EyeOff, ShieldCheck } from "lucide-react";
 
 const loginSchema = z.object({
   email: z.string().email("Invalid email address"),
   password: z.string().min(1, "Password is required"),
 });
 
+const twoFactorSchema = z.object({
+  code: z.string().trim().min(1, "Authentication code is required"),
+});
+
 type LoginFormData = z.infer<typeof loginSchema>;
+type TwoFactorFormData = z.infer<typeof twoFactorSchema>;
+
+interface LoginResponseData {
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+  twoFactorSetupRequired?: boolean;
+}
 
 interface LoginFormProps {
   redirectUrl?: string;
@@ -29,6 +41,7 @@ export function LoginForm({ redirectUrl, userType }: LoginFormProps) {
   const { setAuth } = useAuthStore();
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
 
   const {
     register,
@@ -38,6 +51,56 @@ export function LoginForm({ redirectUrl, userType }: LoginFormProps) {
     resolver: zodResolver(loginSchema),
   });
 
+  const twoFactorForm = useForm<TwoFactorFormData>({
+    resolver: zodResolver(twoFactorSchema),
+  });
+
+  // Shared by both steps once the API has started a session
+  const completeLogin = async (data: LoginResponseData) => {
+    // Validate that the logged-in user's role matches the login page
+    const expectedRole = userType === "admin" ? "ADMIN" : "VENDOR";
+    if (data.user.role !== expectedRole) {
+      toast.error(
+        `This account is not a ${userType}. Please use the ${data.user.role === "ADMIN" ? "Admin" : "Vendor"} login page.`
+      );
+      // Clear the cookies that were just set by the API
+      await fetch("/api/auth/logout", { method: "POST" });
+      setChallengeToken(null);
+      return;
+    }
+
+    // Store auth data
+    setAuth(
+      data.user,
+      data.accessToken,
+      data.refreshToken
+    );
+
+    // Admins must enrol in two-factor authentication first
+    if (data.twoFactorSetupRequired) {
+      toast.info("Please set up two-factor authentication to continue");
+      router.push("/admin/two-factor-setup");
+      return;
+    }
+
+    // Check if user must change password
+    if (data.user.mustChangePassword) {
+      toast.info("Please change your password to continue");
+      router.push(`/${userType}/change-password`);
+      return;
+    }
+
+    // Success
+    toast.success("Login successful!");
+
+    // Redirect
+    if (redirectUrl) {
+      router.push(redirectUrl);
+    } else {
+      router.push(`/${userType}`);
+    }
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     setIsLoading(true);
 
@@ -57,48 +120,110 @@ export function LoginForm({ redirectUrl, userType }: LoginFormProps) {
         return;
       }
 
-      // Validate that the logged-in user's role matches the login page
-      const expectedRole = userType === "admin" ? "ADMIN" : "VENDOR";
-      if (result.data.user.role !== expectedRole) {
-        toast.error(
-          `This account is not a ${userType}. Please use the ${result.data.user.role === "ADMIN" ? "Admin" : "Vendor"} login page.`
-        );
-        // Clear the cookies that were just set by the API
-        await fetch("/api/auth/logout", { method: "POST" });
+      // Two-factor accounts confirm with a code before getting a session
+      if (result.data.twoFactorRequired) {
+        setChallengeToken(result.data.challengeToken);
         return;
       }
 
-      // Store auth data
-      setAuth(
-        result.data.user,
-        result.data.accessToken,
-        result.data.refreshToken
-      );
+      await completeLogin(result.data);
+    } catch (error) {
+      console.error("Login error:", error);
+      toast.error("An error occurred during login");
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      // Check if user must change password
-      if (result.data.user.mustChangePassword) {
-        toast.info("Please change your password to continue");
-        router.push(`/${userType}/change-password`);
-        return;
-      }
+  const onSubmitCode = async (data: TwoFactorFormData) => {
+    setIsLoading(true);
 
-      // Success
-      toast.success("Login successful!");
+    try {
+      const response = await fetch("/api/auth/login/two-factor", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ challengeToken, code: data.code }),
+      });
+
+      const result = await response.json();
 
-      // Redirect
-      if (redirectUrl) {
-        router.push(redirectUrl);
-      } else {
-        router.push(`/${userType}`);
+      if (!result.success) {
+        toast.error(result.error || "Verification failed");
+        // The challenge has ended; start over with the password
+        if (response.status === 401 && /sign in again/i.test(result.error || "")) {
+          setChallengeToken(null);
+          twoFactorForm.reset();
+        }
+        return;
       }
+
+      await completeLogin(result.data);
     } catch (error) {
-      console.error("Login error:", error);
+      console.error("Two-factor login error:", error);
       toast.error("An error occurred during login");
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (challengeToken) {
+    return (
+      <form onSubmit={twoFactorForm.handleSubmit(onSubmitCode)} className="space-y-4">
+        <div className="flex items-start gap-3 rounded-lg bg-gray-50 p-3 text-sm text-gray-600">
+          <ShieldCheck className="h-5 w-5 shrink-0 text-gray-500" />
+          <p>
+            Enter the 6-digit code from your authenticator app, or one of your
+            recovery codes.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="code">Authentication Code</Label>
+          <Input
+            id="code"
+            inputMode="text"
+            autoComplete="one-time-code"
+            autoFocus
+            placeholder="123456"
+            {...twoFactorForm.register("code")}
+            disabled={isLoading}
+          />
+          {twoFactorForm.formState.errors.code && (
+            <p className="text-sm text-red-500">
+              {twoFactorForm.formState.errors.code.message}
+            </p>
+          )}
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            "Verify"
+          )}
+        </Button>
+
+        <Button
+          type="button"
+          variant="ghost"
+          className="w-full"
+          onClick={() => {
+            setChallengeToken(null);
+            twoFactorForm.reset();
+          }}
+          disabled={isLoading}
+        >
+          Back to sign in
+        </Button>
+      </form>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
       <div className="space-y-2">
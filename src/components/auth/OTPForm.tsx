@@ -10,6 +10,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useAuthStore } from "@/stores/authStore";
 import { useCartStore } from "@/stores/cartStore";
+import { useWishlistStore } from "@/stores/wishlistStore";
 import { toast } from "sonner";
 import { Loader2, Mail } from "lucide-react";
 
@@ -33,6 +34,7 @@ export function OTPForm({ redirectUrl }: OTPFormProps) {
   const { setAuth } = useAuthStore();
   const { mergeGuestCart, items: cartItems } = useCartStore();
   const itemCount = cartItems.reduce((sum, item) => sum + item.quantity, 0);
+  const { mergeGuestWishlist, items: wishlistItems } = useWishlistStore();
   const [step, setStep] = useState<"email" | "otp">("email");
   const [email, setEmail] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -129,6 +131,15 @@ export function OTPForm({ redirectUrl }: OTPFormProps) {
         }
       }
 
+      // Merge guest wishlist the same way
+      if (wishlistItems.length > 0) {
+        try {
+          await mergeGuestWishlist();
+        } catch (error) {
+          console.error("Failed to merge wishlist:", error);
+        }
+      }
+
       // Redirect
       if (redirectUrl) {
         router.push(redirectUrl);
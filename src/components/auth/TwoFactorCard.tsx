@@ -0,0 +1,243 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { KeyRound, Loader2, ShieldCheck } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { RecoveryCodesList, TwoFactorSetup } from "@/components/auth/TwoFactorSetup";
+
+interface TwoFactorStatus {
+  required: boolean;
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+type CodeAction = "disable" | "recovery-codes";
+
+export function TwoFactorCard() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isSetupOpen, setIsSetupOpen] = useState(false);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+  const { toast } = useToast();
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetch("/api/auth/two-factor");
+      const result = await response.json();
+      if (result.success) setStatus(result.data);
+    } catch {
+      // silently fail
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const closeCodeDialog = () => {
+    setCodeAction(null);
+    setCode("");
+    setNewRecoveryCodes(null);
+  };
+
+  const submitCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!codeAction) return;
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/auth/two-factor/${codeAction}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to verify code",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({ title: "Success", description: result.message });
+      if (codeAction === "recovery-codes") {
+        setNewRecoveryCodes(result.data.recoveryCodes);
+        setCode("");
+      } else {
+        closeCodeDialog();
+      }
+      await fetchStatus();
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to verify code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          Sign in with a code from an authenticator app as well as your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!status ? (
+          <Skeleton className="h-14 w-full" />
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">Status</span>
+                  {status.enabled ? (
+                    <Badge className="bg-green-100 text-green-800">Enabled</Badge>
+                  ) : (
+                    <Badge variant="secondary">Disabled</Badge>
+                  )}
+                </div>
+                {status.enabled && (
+                  <p className="text-muted-foreground">
+                    {status.enabledAt &&
+                      `Enabled on ${format(new Date(status.enabledAt), "MMM d, yyyy")} · `}
+                    {status.recoveryCodesRemaining} recovery codes left
+                  </p>
+                )}
+                {status.required && (
+                  <p className="text-muted-foreground">
+                    Required for admin accounts
+                  </p>
+                )}
+              </div>
+              {!status.enabled && (
+                <Button onClick={() => setIsSetupOpen(true)}>Enable</Button>
+              )}
+            </div>
+
+            {status.enabled && (
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => setCodeAction("recovery-codes")}>
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  New Recovery Codes
+                </Button>
+                {!status.required && (
+                  <Button variant="outline" onClick={() => setCodeAction("disable")}>
+                    Disable
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Enrolment */}
+      <Dialog open={isSetupOpen} onOpenChange={setIsSetupOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Enable Two-Factor Authentication</DialogTitle>
+            <DialogDescription>
+              You&apos;ll need a code from your authenticator app each time you sign in.
+            </DialogDescription>
+          </DialogHeader>
+          {isSetupOpen && (
+            <TwoFactorSetup
+              onComplete={() => {
+                setIsSetupOpen(false);
+                fetchStatus();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Actions that need a current code */}
+      <Dialog open={codeAction !== null} onOpenChange={(open) => !open && closeCodeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {codeAction === "disable"
+                ? "Disable Two-Factor Authentication"
+                : "New Recovery Codes"}
+            </DialogTitle>
+            <DialogDescription>
+              {codeAction === "disable"
+                ? "Your account will be protected by your password only."
+                : "Your current recovery codes will stop working."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {newRecoveryCodes ? (
+            <div className="space-y-4">
+              <RecoveryCodesList codes={newRecoveryCodes} />
+              <DialogFooter>
+                <Button onClick={closeCodeDialog}>Done</Button>
+              </DialogFooter>
+            </div>
+          ) : (
+            <form onSubmit={submitCode} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-confirm-code">Authentication Code</Label>
+                <Input
+                  id="two-factor-confirm-code"
+                  autoComplete="one-time-code"
+                  placeholder="Code from your app or a recovery code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={closeCodeDialog}
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  variant={codeAction === "disable" ? "destructive" : "default"}
+                  disabled={isSubmitting || !code.trim()}
+                >
+                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {codeAction === "disable" ? "Disable" : "Generate"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,224 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Check, Copy, Download, Loader2, Smartphone } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuthStore } from "@/stores/authStore";
+
+interface SetupData {
+  secret: string;
+  otpauthUrl: string;
+}
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+/**
+ * One-time recovery codes with copy and download actions
+ */
+export function RecoveryCodesList({ codes }: RecoveryCodesListProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const downloadCodes = () => {
+    const blob = new Blob(
+      [`PrimeWear recovery codes\n\n${codes.join("\n")}\n\nEach code can be used once.\n`],
+      { type: "text/plain" }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "primewear-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Alert className="border-amber-600 bg-amber-50">
+        <AlertDescription>
+          Save these recovery codes somewhere safe. Each one can be used once to
+          sign in if you lose your phone. They won&apos;t be shown again.
+        </AlertDescription>
+      </Alert>
+
+      <div className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+          {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={downloadCodes}>
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface TwoFactorSetupProps {
+  onComplete?: () => void;
+  redirectUrl?: string; // Where to go afterwards (enforced setup after login)
+}
+
+/**
+ * Enrolment: add the key to an authenticator app, confirm a code, then save
+ * the recovery codes
+ */
+export function TwoFactorSetup({ onComplete, redirectUrl }: TwoFactorSetupProps) {
+  const router = useRouter();
+  const { user, updateTokens } = useAuthStore();
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const startSetup = async () => {
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/two-factor/setup", { method: "POST" });
+      const result = await response.json();
+      if (result.success) {
+        setSetup(result.data);
+      } else {
+        setError(result.error || "Failed to start two-factor setup");
+      }
+    } catch {
+      setError("Failed to start two-factor setup");
+    }
+  };
+
+  useEffect(() => {
+    startSetup();
+  }, []);
+
+  const verify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsVerifying(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/two-factor/enable", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.error || "Failed to verify code");
+        return;
+      }
+
+      if (result.data.accessToken) {
+        updateTokens(result.data.accessToken, result.data.refreshToken);
+      }
+      setRecoveryCodes(result.data.recoveryCodes);
+    } catch {
+      setError("Failed to verify code");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const finish = () => {
+    onComplete?.();
+    if (redirectUrl) {
+      // A required password change comes next
+      router.push(user?.mustChangePassword ? "/admin/change-password" : redirectUrl);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button className="w-full" onClick={finish}>
+          {redirectUrl ? "Continue" : "Done"}
+        </Button>
+      </div>
+    );
+  }
+
+  if (!setup) {
+    return error ? (
+      <div className="space-y-3">
+        <p className="text-sm text-red-500">{error}</p>
+        <Button variant="outline" onClick={startSetup}>
+          Try Again
+        </Button>
+      </div>
+    ) : (
+      <div className="space-y-3">
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={verify} className="space-y-4">
+      <div className="space-y-2 text-sm">
+        <p className="font-medium">1. Add PrimeWear to your authenticator app</p>
+        <p className="text-muted-foreground">
+          Use Google Authenticator, Microsoft Authenticator, 1Password or any
+          TOTP app. On your phone,{" "}
+          <a href={setup.otpauthUrl} className="text-primary underline">
+            open the setup link
+          </a>
+          , or enter this key manually:
+        </p>
+        <div className="flex items-center gap-2 rounded-lg border bg-muted/50 p-3">
+          <Smartphone className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <code className="break-all font-mono text-sm">
+            {setup.secret.match(/.{1,4}/g)?.join(" ")}
+          </code>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-code">2. Enter the 6-digit code from the app</Label>
+        <Input
+          id="two-factor-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          placeholder="123456"
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+          disabled={isVerifying}
+        />
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isVerifying || code.length !== 6}>
+        {isVerifying ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          "Enable Two-Factor Authentication"
+        )}
+      </Button>
+    </form>
+  );
+}
@@ -23,6 +23,13 @@ interface ProductVariant {
   value: string;
   priceAdjustment: number | null;
   stock: number;
+  options?: Record<string, string>; // { Size: "L", Colour: "Black" }
+  imageUrl?: string | null;
+}
+
+interface ProductOption {
+  name: string;
+  values: string[];
 }
 
 interface AddToCartButtonProps {
@@ -39,34 +46,56 @@ interface AddToCartButtonProps {
     };
   };
   variants?: ProductVariant[];
+  options?: ProductOption[]; // Shows one selector per option instead of a single variant list
   size?: "sm" | "md" | "lg";
   showQuantitySelector?: boolean;
   onVariantChange?: (variant: ProductVariant | null) => void;
+  disabled?: boolean; // e.g. the vendor's shop is closed
 }
 
 export function AddToCartButton({
   product,
   variants = [],
+  options = [],
   size = "lg",
   showQuantitySelector = true,
   onVariantChange,
+  disabled = false,
 }: AddToCartButtonProps) {
   const { isAuthenticated } = useAuthStore();
   const { addToGuestCart, addToCart, getItemQuantity } = useCartStore();
   const { toast } = useToast();
 
   const hasVariants = variants.length > 0;
+  const useOptionPicker = hasVariants && options.length > 0 && variants.every((v) => v.options);
 
-  const [selectedVariantId, setSelectedVariantId] = useState<string | null>(
-    hasVariants ? null : null
-  );
+  const [pickedVariantId, setPickedVariantId] = useState<string | null>(null);
+  const [selectedOptions, setSelectedOptions] = useState<Record<string, string>>({});
   const [quantity, setQuantity] = useState(1);
   const [isAdding, setIsAdding] = useState(false);
   const [justAdded, setJustAdded] = useState(false);
 
-  const selectedVariant = hasVariants
-    ? variants.find((v) => v.id === selectedVariantId)
-    : null;
+  // With the option picker, the variant is the one matching every selected option
+  const selectedVariant = !hasVariants
+    ? null
+    : useOptionPicker
+    ? variants.find((v) => options.every((o) => v.options?.[o.name] === selectedOptions[o.name]))
+    : variants.find((v) => v.id === pickedVariantId);
+  const selectedVariantId = selectedVariant?.id ?? null;
+
+  // A value is available if an in-stock variant has it together with the other selected options
+  const isOptionValueAvailable = (optionName: string, value: string) =>
+    variants.some(
+      (v) =>
+        v.stock > 0 &&
+        v.options?.[optionName] === value &&
+        options.every(
+          (o) =>
+            o.name === optionName ||
+            !selectedOptions[o.name] ||
+            v.options?.[o.name] === selectedOptions[o.name]
+        )
+    );
 
   useEffect(() => {
     onVariantChange?.(selectedVariant ?? null);
@@ -88,6 +117,7 @@ export function AddToCartButton({
   );
 
   const canAdd =
+    !disabled &&
     availableStock > 0 &&
     quantity + currentQuantityInCart <= availableStock &&
     (!hasVariants || selectedVariantId !== null);
@@ -125,7 +155,7 @@ export function AddToCartButton({
           productId: product.id,
           productName: product.name,
           productSlug: product.slug,
-          productImage: product.images[0]?.url || "",
+          productImage: selectedVariant?.imageUrl || product.images[0]?.url || "",
           basePrice: product.price,
           quantity,
           variantId: selectedVariantId,
@@ -161,7 +191,9 @@ export function AddToCartButton({
     }
   };
 
-  const buttonText = justAdded
+  const buttonText = disabled
+    ? "Currently Unavailable"
+    : justAdded
     ? "Added!"
     : currentQuantityInCart > 0
     ? `In Cart (${currentQuantityInCart})`
@@ -169,15 +201,52 @@ export function AddToCartButton({
 
   return (
     <div className="space-y-4">
+      {/* Option Selectors */}
+      {useOptionPicker &&
+        options.map((option) => (
+          <div key={option.name} className="space-y-2">
+            <label className="text-sm font-medium">
+              {option.name}
+              {selectedOptions[option.name] && (
+                <span className="text-muted-foreground font-normal">
+                  : {selectedOptions[option.name]}
+                </span>
+              )}
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {option.values.map((value) => {
+                const isSelected = selectedOptions[option.name] === value;
+                const isAvailable = isOptionValueAvailable(option.name, value);
+                return (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() =>
+                      setSelectedOptions((prev) => ({ ...prev, [option.name]: value }))
+                    }
+                    className={`px-3 py-1.5 rounded-md text-sm border transition-colors ${
+                      isSelected
+                        ? "bg-primary text-primary-foreground border-primary"
+                        : "bg-background hover:bg-accent border-border"
+                    } ${!isAvailable ? "opacity-50 line-through" : ""}`}
+                  >
+                    {value}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
       {/* Variant Selector */}
-      {hasVariants && (
+      {hasVariants && !useOptionPicker && (
         <div className="space-y-2">
           <label className="text-sm font-medium">
             Select {variants[0]?.name || "Variant"}
           </label>
           <Select
             value={selectedVariantId || ""}
-            onValueChange={(value) => setSelectedVariantId(value)}
+            onValueChange={(value) => setPickedVariantId(value)}
           >
             <SelectTrigger>
               <SelectValue placeholder={`Choose ${variants[0]?.name || "variant"}`} />
@@ -254,7 +323,9 @@ export function AddToCartButton({
       {/* Validation Messages */}
       {hasVariants && !selectedVariantId && (
         <p className="text-sm text-muted-foreground text-center">
-          Please select a variant
+          {useOptionPicker && options.every((o) => selectedOptions[o.name])
+            ? "This combination is not available"
+            : "Please select a variant"}
         </p>
       )}
 
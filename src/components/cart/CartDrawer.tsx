@@ -1,7 +1,7 @@
 "use client";
 
 import { useCartStore } from "@/stores/cartStore";
-import { formatPrice } from "@/lib/utils/cart";
+import { formatPrice, formatVariantDisplay } from "@/lib/utils/cart";
 import {
   Sheet,
   SheetContent,
@@ -95,7 +95,7 @@ export function CartDrawer({ open, onOpenChange }: CartDrawerProps) {
 
                       {item.variantName && item.variantValue && (
                         <p className="text-xs text-muted-foreground mt-1">
-                          {item.variantName}: {item.variantValue}
+                          {formatVariantDisplay(item.variantName, item.variantValue)}
                         </p>
                       )}
 
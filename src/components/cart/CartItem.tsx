@@ -3,9 +3,10 @@
 import { CartItem as CartItemType } from "@/types/cart";
 import { useCartStore } from "@/stores/cartStore";
 import { useAuthStore } from "@/stores/authStore";
+import { useWishlistStore } from "@/stores/wishlistStore";
 import { QuantitySelector } from "./QuantitySelector";
-import { formatPrice, getStockStatus } from "@/lib/utils/cart";
-import { X, AlertCircle } from "lucide-react";
+import { formatPrice, formatVariantDisplay, getStockStatus } from "@/lib/utils/cart";
+import { X, AlertCircle, Heart } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import Link from "next/link";
@@ -19,11 +20,18 @@ interface CartItemProps {
 
 export function CartItem({ item, showVendor = true }: CartItemProps) {
   const { isAuthenticated } = useAuthStore();
-  const { updateGuestCartItem, removeGuestCartItem, updateCartItem, removeCartItem } =
-    useCartStore();
+  const {
+    updateGuestCartItem,
+    removeGuestCartItem,
+    updateCartItem,
+    removeCartItem,
+    saveForLater,
+  } = useCartStore();
+  const { addToGuestWishlist, fetchWishlist } = useWishlistStore();
 
   const [isUpdating, setIsUpdating] = useState(false);
   const [isRemoving, setIsRemoving] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
 
   const stockStatus = getStockStatus(item.stock, item.quantity);
 
@@ -55,6 +63,37 @@ export function CartItem({ item, showVendor = true }: CartItemProps) {
     setIsRemoving(false);
   };
 
+  const handleSaveForLater = async () => {
+    if (isSaving) return;
+
+    setIsSaving(true);
+
+    if (isAuthenticated) {
+      if (await saveForLater(item.id)) {
+        await fetchWishlist();
+      }
+    } else {
+      addToGuestWishlist({
+        id: "",
+        productId: item.productId,
+        productName: item.productName,
+        productSlug: item.productSlug,
+        productImage: item.productImage || null,
+        variantId: item.variantId,
+        variantLabel: formatVariantDisplay(item.variantName, item.variantValue),
+        price: item.finalPrice,
+        savedPrice: item.finalPrice,
+        quantity: item.quantity,
+        inStock: item.stock > 0,
+        isAvailable: true,
+        vendorName: item.vendorName,
+      });
+      removeGuestCartItem(item.id);
+    }
+
+    setIsSaving(false);
+  };
+
   return (
     <div className="flex gap-4 py-4 border-b last:border-b-0">
       {/* Product Image */}
@@ -91,7 +130,7 @@ export function CartItem({ item, showVendor = true }: CartItemProps) {
         {/* Variant */}
         {item.variantName && item.variantValue && (
           <p className="text-sm text-muted-foreground mb-2">
-            {item.variantName}: <span className="font-medium">{item.variantValue}</span>
+            {formatVariantDisplay(item.variantName, item.variantValue)}
           </p>
         )}
 
@@ -140,6 +179,18 @@ export function CartItem({ item, showVendor = true }: CartItemProps) {
             {formatPrice(item.finalPrice * item.quantity)}
           </p>
         </div>
+
+        {/* Save for Later */}
+        <Button
+          variant="link"
+          size="sm"
+          onClick={handleSaveForLater}
+          disabled={isSaving}
+          className="h-auto p-0 mt-2 text-xs text-muted-foreground"
+        >
+          <Heart className="mr-1 h-3 w-3" />
+          Save for later
+        </Button>
       </div>
 
       {/* Remove Button */}
@@ -7,12 +7,14 @@
 import { Card } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { formatPrice } from "@/lib/utils/cart";
+import { VendorShippingLine } from "@/types/shipping";
 
 interface CheckoutSummaryProps {
   itemCount: number;
   subtotal: number;
   discount?: number;
   shippingAmount?: number;
+  shippingLines?: VendorShippingLine[];
   total: number;
 }
 
@@ -21,6 +23,7 @@ export function CheckoutSummary({
   subtotal,
   discount = 0,
   shippingAmount = 0,
+  shippingLines,
   total,
 }: CheckoutSummaryProps) {
   return (
@@ -58,6 +61,23 @@ export function CheckoutSummary({
           </span>
         </div>
 
+        {/* Per-vendor shipping breakdown (multi-vendor carts) */}
+        {shippingLines && shippingLines.length > 1 && (
+          <div className="space-y-1 pl-3">
+            {shippingLines.map((line) => (
+              <div
+                key={line.vendorId}
+                className="flex justify-between text-xs text-muted-foreground"
+              >
+                <span>{line.vendorName}</span>
+                <span>
+                  {line.amount === 0 ? "Free" : formatPrice(line.amount)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         <Separator />
 
         {/* Total */}
@@ -6,7 +6,7 @@
 
 import Image from "next/image";
 import { CartItem } from "@/types/cart";
-import { formatPrice } from "@/lib/utils/cart";
+import { formatPrice, formatVariantDisplay } from "@/lib/utils/cart";
 import { Card } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Store } from "lucide-react";
@@ -68,7 +68,7 @@ export function OrderReview({ items }: OrderReviewProps) {
                     </h4>
                     {item.variantName && (
                       <p className="text-xs text-muted-foreground">
-                        {item.variantName}: {item.variantValue}
+                        {formatVariantDisplay(item.variantName, item.variantValue)}
                       </p>
                     )}
                     <p className="text-sm text-muted-foreground mt-1">
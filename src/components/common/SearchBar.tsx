@@ -1,39 +1,182 @@
 "use client";
 
-import { useState } from "react";
-import { Search } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Search, Folder, Package } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { SearchSuggestions } from "@/lib/search/productSearch";
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
   placeholder?: string;
   defaultValue?: string;
+  showSuggestions?: boolean;
 }
 
+const SUGGESTION_DELAY_MS = 250;
+
 export function SearchBar({
   onSearch,
   placeholder = "Search products...",
   defaultValue = "",
+  showSuggestions = true,
 }: SearchBarProps) {
+  const router = useRouter();
   const [query, setQuery] = useState(defaultValue);
+  const [suggestions, setSuggestions] = useState<SearchSuggestions | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Fetch suggestions after the user stops typing
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!showSuggestions || trimmed.length < 2) {
+      setSuggestions(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/products/suggestions?q=${encodeURIComponent(trimmed)}`,
+          { signal: controller.signal }
+        );
+        const result = await response.json();
+        if (result.success) {
+          setSuggestions(result.data);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        if ((error as Error).name !== "AbortError") {
+          console.error("Error fetching search suggestions:", error);
+        }
+      }
+    }, SUGGESTION_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, showSuggestions]);
+
+  // Close the dropdown when clicking elsewhere
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, []);
+
+  const items = suggestions
+    ? [
+        ...suggestions.categories.map((category) => ({
+          key: `category-${category.slug}`,
+          href: `/categories/${category.slug}`,
+          label: category.name,
+          image: null as string | null,
+          isCategory: true,
+        })),
+        ...suggestions.products.map((product) => ({
+          key: `product-${product.slug}`,
+          href: `/products/${product.slug}`,
+          label: product.name,
+          image: product.image,
+          isCategory: false,
+        })),
+      ]
+    : [];
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    setIsOpen(false);
+
+    if (activeIndex >= 0 && items[activeIndex]) {
+      router.push(items[activeIndex].href);
+      return;
+    }
     onSearch(query);
   };
 
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || items.length === 0) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % items.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => (i <= 0 ? items.length - 1 : i - 1));
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
   return (
     <form onSubmit={handleSubmit} className="flex gap-2 w-full">
-      <div className="relative flex-1">
+      <div ref={containerRef} className="relative flex-1">
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
         <Input
           type="text"
           placeholder={placeholder}
           value={query}
-          onChange={(e) => setQuery(e.target.value)}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
           className="pl-10"
+          role="combobox"
+          aria-expanded={isOpen && items.length > 0}
+          aria-autocomplete="list"
         />
+
+        {isOpen && items.length > 0 && (
+          <ul
+            role="listbox"
+            className="absolute z-50 mt-1 w-full overflow-hidden rounded-md border bg-popover shadow-md"
+          >
+            {items.map((item, index) => (
+              <li key={item.key} role="option" aria-selected={index === activeIndex}>
+                <Link
+                  href={item.href}
+                  onClick={() => setIsOpen(false)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={cn(
+                    "flex items-center gap-3 px-3 py-2 text-sm",
+                    index === activeIndex && "bg-accent"
+                  )}
+                >
+                  {item.image ? (
+                    <img
+                      src={item.image}
+                      alt=""
+                      className="h-8 w-8 rounded object-cover shrink-0"
+                    />
+                  ) : item.isCategory ? (
+                    <Folder className="h-4 w-4 text-muted-foreground shrink-0" />
+                  ) : (
+                    <Package className="h-4 w-4 text-muted-foreground shrink-0" />
+                  )}
+                  <span className="truncate">{item.label}</span>
+                  {item.isCategory && (
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      Category
+                    </span>
+                  )}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
       <Button type="submit">Search</Button>
     </form>
@@ -80,9 +80,10 @@ export function DisputeForm({
           continue;
         }
 
-        // Upload to Cloudinary via API
+        // Upload via API
         const formData = new FormData();
         formData.append('file', file);
+        formData.append('folder', 'disputes');
 
         const response = await fetch('/api/upload', {
           method: 'POST',
@@ -93,8 +94,8 @@ export function DisputeForm({
           throw new Error('Failed to upload image');
         }
 
-        const data = await response.json();
-        uploadedUrls.push(data.url);
+        const result = await response.json();
+        uploadedUrls.push(result.data.url);
       }
 
       setEvidenceUrls((prev) => [...prev, ...uploadedUrls]);
@@ -78,6 +78,14 @@ export function StorefrontFooter() {
                   New Arrivals
                 </Link>
               </li>
+              <li>
+                <Link
+                  href="/sell"
+                  className="text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  Sell on PrimeWear
+                </Link>
+              </li>
             </ul>
           </div>
 
@@ -8,6 +8,7 @@ import { Input } from "@/components/ui/input";
 import { Logo } from "../shared/Logo";
 import { ThemeToggle } from "../shared/ThemeToggle";
 import { CartButton } from "./CartButton";
+import { WishlistButton } from "./WishlistButton";
 import { UserMenu } from "./UserMenu";
 import { NotificationDropdown } from "@/components/notifications/NotificationDropdown";
 import { useAuthStore } from "@/stores/authStore";
@@ -88,6 +89,7 @@ export function StorefrontHeader({ onMobileMenuToggle }: StorefrontHeaderProps)
               <NotificationDropdown />
             </div>
           )}
+          <WishlistButton />
           <CartButton />
           <UserMenu />
         </div>
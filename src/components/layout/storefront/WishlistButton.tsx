@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { Heart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useWishlistStore } from "@/stores/wishlistStore";
+import { useAuthStore } from "@/stores/authStore";
+
+export function WishlistButton() {
+  const { isAuthenticated, user } = useAuthStore();
+  const { items, fetchWishlist } = useWishlistStore();
+
+  const isCustomer = isAuthenticated && user?.role === "CUSTOMER";
+
+  useEffect(() => {
+    // Only fetch wishlist for authenticated customers — not vendors or admins
+    if (isCustomer) {
+      fetchWishlist();
+    }
+  }, [isCustomer, fetchWishlist]);
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="relative"
+      asChild
+    >
+      <Link href="/wishlist" aria-label={`Wishlist with ${items.length} items`}>
+        <Heart className="h-5 w-5" />
+        {items.length > 0 && (
+          <Badge
+            variant="destructive"
+            className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center p-0 text-xs"
+          >
+            {items.length}
+          </Badge>
+        )}
+      </Link>
+    </Button>
+  );
+}
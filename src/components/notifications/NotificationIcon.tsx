@@ -17,6 +17,12 @@ import {
   XOctagon,
   Bell,
   Info,
+  Clock,
+  TrendingDown,
+  PackageCheck,
+  HelpCircle,
+  MessageSquareReply,
+  Store,
 } from "lucide-react";
 
 interface NotificationIconProps {
@@ -37,9 +43,15 @@ export function NotificationIcon({
     ORDER_DELIVERY_CONFIRMED: (
       <CheckCircle className={`${className} text-green-600`} />
     ),
+    ORDER_DELIVERY_AUTO_CONFIRM_WARNING: (
+      <Clock className={`${className} text-amber-600`} />
+    ),
     ORDER_RETURN_REQUESTED: (
       <RotateCcw className={`${className} text-amber-600`} />
     ),
+    ORDER_SHIPMENT_EXCEPTION: (
+      <AlertTriangle className={`${className} text-amber-600`} />
+    ),
     ORDER_ITEM_PROCESSING: (
       <Package className={`${className} text-blue-600`} />
     ),
@@ -47,6 +59,28 @@ export function NotificationIcon({
     ORDER_STATUS_OVERRIDE: (
       <AlertTriangle className={`${className} text-amber-600`} />
     ),
+    ORDER_REFUND_COMPLETED: (
+      <DollarSign className={`${className} text-green-600`} />
+    ),
+    ORDER_REFUND_FAILED: <XOctagon className={`${className} text-red-600`} />,
+    ORDER_RETURN_APPROVED: (
+      <PackageCheck className={`${className} text-green-600`} />
+    ),
+    ORDER_RETURN_REJECTED: <XCircle className={`${className} text-red-600`} />,
+    ORDER_RETURN_RECEIVED: (
+      <RotateCcw className={`${className} text-green-600`} />
+    ),
+    ORDER_RETURN_ESCALATED: (
+      <AlertTriangle className={`${className} text-red-600`} />
+    ),
+
+    // Wishlist notifications
+    WISHLIST_PRICE_DROP: (
+      <TrendingDown className={`${className} text-green-600`} />
+    ),
+    WISHLIST_BACK_IN_STOCK: (
+      <PackageCheck className={`${className} text-blue-600`} />
+    ),
 
     // Dispute notifications
     DISPUTE_CREATED: (
@@ -76,6 +110,17 @@ export function NotificationIcon({
       <MessageSquare className={`${className} text-blue-600`} />
     ),
 
+    // Product Q&A notifications
+    PRODUCT_QUESTION_ASKED: (
+      <HelpCircle className={`${className} text-purple-600`} />
+    ),
+    PRODUCT_QUESTION_ANSWERED: (
+      <MessageSquareReply className={`${className} text-purple-600`} />
+    ),
+
+    // Vendor onboarding notifications
+    VENDOR_APPLICATION_SUBMITTED: <Store className={`${className} text-blue-600`} />,
+
     // System notifications
     SYSTEM_ANNOUNCEMENT: <Bell className={`${className} text-purple-600`} />,
     SYSTEM_MAINTENANCE: <Info className={`${className} text-amber-600`} />,
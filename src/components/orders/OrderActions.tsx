@@ -9,7 +9,7 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { CancelOrderDialog } from "./CancelOrderDialog";
 import { ConfirmDeliveryDialog } from "./ConfirmDeliveryDialog";
-import { RequestReturnDialog } from "./RequestReturnDialog";
+import { RequestReturnDialog, type ReturnableItem } from "./RequestReturnDialog";
 import { DisputeForm } from "@/components/disputes/DisputeForm";
 import { XCircle, CheckCircle, PackageX, AlertTriangle } from "lucide-react";
 
@@ -24,6 +24,7 @@ interface OrderActionsProps {
     cancelReason?: string;
     returnReason?: string;
   };
+  returnableItems?: ReturnableItem[];
   onSuccess?: () => void;
 }
 
@@ -31,6 +32,7 @@ export function OrderActions({
   orderId,
   orderNumber,
   actions,
+  returnableItems = [],
   onSuccess,
 }: OrderActionsProps) {
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
@@ -104,6 +106,7 @@ export function OrderActions({
           <RequestReturnDialog
             orderId={orderId}
             orderNumber={orderNumber}
+            items={returnableItems}
             open={returnDialogOpen}
             onOpenChange={setReturnDialogOpen}
             onSuccess={onSuccess}
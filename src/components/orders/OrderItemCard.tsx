@@ -6,6 +6,7 @@
 import Image from "next/image";
 import Link from "next/link";
 import { OrderStatusBadge } from "./OrderStatusBadge";
+import { formatVariantDisplay } from "@/lib/utils/cart";
 import { OrderStatus } from "@prisma/client";
 
 interface ProductSnapshot {
@@ -74,7 +75,7 @@ export function OrderItemCard({
         {/* Variant */}
         {variantSnapshot && (
           <p className="text-sm text-muted-foreground mt-1">
-            {variantSnapshot.name}: {variantSnapshot.value}
+            {formatVariantDisplay(variantSnapshot.name, variantSnapshot.value)}
           </p>
         )}
 
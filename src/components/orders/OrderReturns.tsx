@@ -0,0 +1,228 @@
+/**
+ * Order Returns Component
+ * Shows the customer's return requests on an order: status, return label,
+ * refund and escalation to a dispute
+ */
+
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Loader2, Printer, RotateCcw } from "lucide-react";
+import {
+  RETURN_ESCALATION_DAYS,
+  RETURN_REASON_LABELS,
+  RETURN_STATUS_COLORS,
+  RETURN_STATUS_LABELS,
+  type ReturnRequestView,
+} from "@/types/returnRequest";
+
+interface OrderReturnsProps {
+  returns: ReturnRequestView[];
+}
+
+export function OrderReturns({ returns }: OrderReturnsProps) {
+  const router = useRouter();
+  const [escalating, setEscalating] = useState<ReturnRequestView | null>(null);
+  const [message, setMessage] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleEscalate = async () => {
+    if (!escalating) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/returns/${escalating.id}/escalate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: message.trim() }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        toast.error(data.error || "Failed to escalate return");
+        return;
+      }
+
+      toast.success("Return escalated. An admin will review your case.");
+      setEscalating(null);
+      setMessage("");
+      router.refresh();
+    } catch {
+      toast.error("An error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+        <RotateCcw className="w-5 h-5" />
+        Returns
+      </h2>
+      <div className="space-y-4">
+        {returns.map((returnRequest) => (
+          <div key={returnRequest.id} className="border rounded-lg p-4 bg-card space-y-3">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <p className="font-mono font-semibold">{returnRequest.returnNumber}</p>
+                <p className="text-sm text-muted-foreground">
+                  {returnRequest.vendorName} &middot; Requested{" "}
+                  {format(new Date(returnRequest.createdAt), "PPP")}
+                </p>
+              </div>
+              <Badge variant={RETURN_STATUS_COLORS[returnRequest.status]}>
+                {RETURN_STATUS_LABELS[returnRequest.status]}
+              </Badge>
+            </div>
+
+            <ul className="text-sm space-y-1">
+              {returnRequest.items.map((item) => (
+                <li key={item.id} className="flex justify-between gap-2">
+                  <span>
+                    {item.productName}
+                    {item.variantLabel && (
+                      <span className="text-muted-foreground"> ({item.variantLabel})</span>
+                    )}
+                  </span>
+                  <span className="text-muted-foreground">&times; {item.quantity}</span>
+                </li>
+              ))}
+            </ul>
+
+            <p className="text-sm">
+              <span className="text-muted-foreground">Reason:</span>{" "}
+              {RETURN_REASON_LABELS[returnRequest.reason]}
+            </p>
+
+            {returnRequest.vendorNote && (
+              <div className="text-sm border-l-4 border-muted pl-3">
+                <p className="text-muted-foreground">Seller&apos;s note</p>
+                <p className="whitespace-pre-wrap">{returnRequest.vendorNote}</p>
+              </div>
+            )}
+
+            {returnRequest.status === "APPROVED" && (
+              <p className="text-sm text-muted-foreground">
+                Print the return label, attach it to the parcel and send the items
+                back to the seller. You will be refunded once they receive it.
+              </p>
+            )}
+
+            {returnRequest.refundAmount !== null && (
+              <p className="text-sm">
+                <span className="text-muted-foreground">Refund:</span>{" "}
+                Rs.{" "}
+                {returnRequest.refundAmount.toLocaleString("en-LK", {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                })}{" "}
+                <span
+                  className={
+                    returnRequest.refundStatus === "SUCCEEDED"
+                      ? "text-green-600"
+                      : "text-amber-600"
+                  }
+                >
+                  ({returnRequest.refundStatus === "SUCCEEDED" ? "Refunded" : "Processing"})
+                </span>
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {returnRequest.status === "APPROVED" && returnRequest.returnLabel && (
+                <Button variant="outline" size="sm" asChild>
+                  <a
+                    href={`/api/returns/${returnRequest.id}/label`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    <Printer className="w-4 h-4 mr-2" />
+                    Print Return Label
+                  </a>
+                </Button>
+              )}
+              {returnRequest.canEscalate && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="border-orange-500 text-orange-600 hover:bg-orange-50"
+                  onClick={() => setEscalating(returnRequest)}
+                >
+                  <AlertTriangle className="w-4 h-4 mr-2" />
+                  Escalate to Dispute
+                </Button>
+              )}
+              {returnRequest.disputeId && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/orders/disputes/${returnRequest.disputeId}`}>
+                    View Dispute
+                  </Link>
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Dialog
+        open={escalating !== null}
+        onOpenChange={(open) => !open && setEscalating(null)}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Escalate Return</DialogTitle>
+            <DialogDescription>
+              {escalating?.status === "REJECTED"
+                ? "The seller rejected this return."
+                : `The seller has not acted on this return within ${RETURN_ESCALATION_DAYS} days.`}{" "}
+              An admin will review your case, including the photos you uploaded.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="escalate-message">
+              Why are you escalating? <span className="text-destructive">*</span>
+            </Label>
+            <Textarea
+              id="escalate-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={4}
+              maxLength={1000}
+              placeholder="Explain the problem and what you expect (minimum 20 characters)..."
+              disabled={isLoading}
+            />
+            <p className="text-xs text-muted-foreground">{message.length}/1000 characters</p>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEscalating(null)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button onClick={handleEscalate} disabled={isLoading || message.trim().length < 20}>
+              {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Escalate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -67,6 +67,15 @@ const STATUS_CONFIG: Record<
     variant: "destructive",
     className: "bg-red-600 text-white",
   },
+  PARTIALLY_REFUNDED: {
+    label: "Partially Refunded",
+    variant: "outline",
+    className: "border-red-500 text-red-700 bg-red-50",
+  },
+  REFUNDED: {
+    label: "Refunded",
+    variant: "secondary",
+  },
 };
 
 export function OrderStatusBadge({ status, className }: OrderStatusBadgeProps) {
@@ -1,12 +1,14 @@
 /**
  * Request Return Dialog Component
- * Allows customer to request return within 24h of delivery confirmation
+ * Lets the customer pick items and quantities to return within the return window.
+ * Items from different sellers become separate returns, each reviewed by its seller.
  */
 
 "use client";
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import type { ReturnReason } from "@prisma/client";
 import {
   Dialog,
   DialogContent,
@@ -16,14 +18,33 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle, Loader2, PackageX } from "lucide-react";
+import { AlertCircle, Loader2, PackageX, Upload, X } from "lucide-react";
+import { MAX_RETURN_PHOTOS, RETURN_REASON_LABELS } from "@/types/returnRequest";
+
+export interface ReturnableItem {
+  id: string;
+  name: string;
+  variantLabel: string | null;
+  image: string | null;
+  returnableQuantity: number;
+}
 
 interface RequestReturnDialogProps {
   orderId: string;
   orderNumber: string;
+  items: ReturnableItem[];
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess?: () => void;
@@ -32,19 +53,96 @@ interface RequestReturnDialogProps {
 export function RequestReturnDialog({
   orderId,
   orderNumber,
+  items,
   open,
   onOpenChange,
   onSuccess,
 }: RequestReturnDialogProps) {
   const router = useRouter();
-  const [reason, setReason] = useState("");
+  const [reason, setReason] = useState<ReturnReason | "">("");
   const [description, setDescription] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [photoUrls, setPhotoUrls] = useState<string[]>([]);
+  const [uploadingPhotos, setUploadingPhotos] = useState(false);
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
+  const selectedItems = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+
+  const toggleItem = (item: ReturnableItem, checked: boolean) => {
+    setQuantities((prev) => ({ ...prev, [item.id]: checked ? item.returnableQuantity : 0 }));
+  };
+
+  const setItemQuantity = (item: ReturnableItem, value: string) => {
+    const quantity = Math.min(Math.max(parseInt(value) || 0, 0), item.returnableQuantity);
+    setQuantities((prev) => ({ ...prev, [item.id]: quantity }));
+  };
+
+  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+
+    if (photoUrls.length + files.length > MAX_RETURN_PHOTOS) {
+      setError(
+        `Maximum ${MAX_RETURN_PHOTOS} photos allowed. You can upload ${MAX_RETURN_PHOTOS - photoUrls.length} more.`
+      );
+      return;
+    }
+
+    setUploadingPhotos(true);
+    setError("");
+
+    try {
+      const uploadedUrls: string[] = [];
+
+      for (const file of Array.from(files)) {
+        if (!file.type.startsWith("image/")) {
+          setError("Only image files are allowed");
+          continue;
+        }
+
+        if (file.size > 5 * 1024 * 1024) {
+          setError("Image size must be less than 5MB");
+          continue;
+        }
+
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("folder", "returns");
+
+        const response = await fetch("/api/upload", {
+          method: "POST",
+          body: formData,
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to upload image");
+        }
+
+        const result = await response.json();
+        uploadedUrls.push(result.data.url);
+      }
+
+      setPhotoUrls((prev) => [...prev, ...uploadedUrls]);
+    } catch (err) {
+      setError("Failed to upload photos. Please try again.");
+      console.error("Photo upload error:", err);
+    } finally {
+      setUploadingPhotos(false);
+      e.target.value = "";
+    }
+  };
+
   const handleSubmit = async () => {
-    if (reason.trim().length < 10) {
-      setError("Please provide a reason of at least 10 characters");
+    if (!reason) {
+      setError("Please select a reason for the return");
+      return;
+    }
+
+    if (selectedItems.length === 0) {
+      setError("Select at least one item to return");
       return;
     }
 
@@ -58,8 +156,10 @@ export function RequestReturnDialog({
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          reason: reason.trim(),
+          reason,
           description: description.trim() || null,
+          photos: photoUrls,
+          items: selectedItems,
         }),
       });
 
@@ -74,6 +174,8 @@ export function RequestReturnDialog({
       onOpenChange(false);
       setReason("");
       setDescription("");
+      setQuantities({});
+      setPhotoUrls([]);
       if (onSuccess) {
         onSuccess();
       } else {
@@ -88,15 +190,16 @@ export function RequestReturnDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <PackageX className="w-5 h-5 text-orange-600" />
             Request Return
           </DialogTitle>
           <DialogDescription>
-            Request a return for order {orderNumber}. Our team will review your
-            request and respond within 24-48 hours.
+            Request a return for order {orderNumber}. The seller will review
+            your request; once approved you can print a return label from this
+            page.
           </DialogDescription>
         </DialogHeader>
 
@@ -105,29 +208,86 @@ export function RequestReturnDialog({
           <Alert>
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
-              <strong>Note:</strong> Returns must be requested within 24 hours
-              of delivery confirmation. Return shipping costs are paid by the
-              customer.
+              <strong>Note:</strong> Return shipping costs are paid by the
+              customer. You are refunded once the seller receives the items.
             </AlertDescription>
           </Alert>
 
-          {/* Reason Input */}
+          {/* Items */}
+          <div className="space-y-2">
+            <Label>
+              Items to return <span className="text-destructive">*</span>
+            </Label>
+            <div className="border rounded-lg divide-y">
+              {items.map((item) => {
+                const quantity = quantities[item.id] ?? 0;
+                return (
+                  <div key={item.id} className="flex items-center gap-3 p-3">
+                    <Checkbox
+                      id={`return-item-${item.id}`}
+                      checked={quantity > 0}
+                      onCheckedChange={(checked) => toggleItem(item, checked === true)}
+                      disabled={isLoading}
+                    />
+                    {item.image && (
+                      <img
+                        src={item.image}
+                        alt={item.name}
+                        className="w-10 h-10 rounded object-cover border"
+                      />
+                    )}
+                    <label
+                      htmlFor={`return-item-${item.id}`}
+                      className="flex-1 min-w-0 text-sm cursor-pointer"
+                    >
+                      <span className="font-medium line-clamp-1">{item.name}</span>
+                      {item.variantLabel && (
+                        <span className="text-xs text-muted-foreground">
+                          {item.variantLabel}
+                        </span>
+                      )}
+                    </label>
+                    {item.returnableQuantity > 1 && quantity > 0 && (
+                      <Input
+                        type="number"
+                        min={1}
+                        max={item.returnableQuantity}
+                        value={quantity}
+                        onChange={(e) => setItemQuantity(item, e.target.value)}
+                        className="w-16 h-8"
+                        disabled={isLoading}
+                      />
+                    )}
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      of {item.returnableQuantity}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Reason */}
           <div className="space-y-2">
             <Label htmlFor="return-reason">
               Reason for return <span className="text-destructive">*</span>
             </Label>
-            <Textarea
-              id="return-reason"
-              placeholder="e.g., Wrong size, damaged item, not as described..."
+            <Select
               value={reason}
-              onChange={(e) => setReason(e.target.value)}
-              rows={3}
-              maxLength={500}
+              onValueChange={(value) => setReason(value as ReturnReason)}
               disabled={isLoading}
-            />
-            <p className="text-xs text-muted-foreground">
-              {reason.length}/500 characters (minimum 10)
-            </p>
+            >
+              <SelectTrigger id="return-reason">
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(RETURN_REASON_LABELS).map(([key, label]) => (
+                  <SelectItem key={key} value={key}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           {/* Additional Description (Optional) */}
@@ -137,7 +297,7 @@ export function RequestReturnDialog({
             </Label>
             <Textarea
               id="return-description"
-              placeholder="Provide any additional information that may help us process your return..."
+              placeholder="Describe the problem to help the seller process your return..."
               value={description}
               onChange={(e) => setDescription(e.target.value)}
               rows={3}
@@ -149,6 +309,69 @@ export function RequestReturnDialog({
             </p>
           </div>
 
+          {/* Photos (Optional) */}
+          <div className="space-y-2">
+            <Label>
+              Photos <span className="text-muted-foreground">(optional)</span>
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              Up to {MAX_RETURN_PHOTOS} photos of the item or damage (max 5MB each)
+            </p>
+
+            {photoUrls.length < MAX_RETURN_PHOTOS && (
+              <div>
+                <Input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={handlePhotoUpload}
+                  disabled={uploadingPhotos || isLoading}
+                  className="hidden"
+                  id="return-photo-upload"
+                />
+                <Label
+                  htmlFor="return-photo-upload"
+                  className="flex items-center justify-center gap-2 border-2 border-dashed rounded-lg p-4 cursor-pointer hover:bg-accent transition-colors"
+                >
+                  {uploadingPhotos ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span>Uploading...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Upload className="h-4 w-4" />
+                      <span>Click to upload photos</span>
+                    </>
+                  )}
+                </Label>
+              </div>
+            )}
+
+            {photoUrls.length > 0 && (
+              <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                {photoUrls.map((url, index) => (
+                  <div key={url} className="relative group">
+                    <img
+                      src={url}
+                      alt={`Return photo ${index + 1}`}
+                      className="w-full h-16 object-cover rounded border"
+                    />
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setPhotoUrls((prev) => prev.filter((_, i) => i !== index))
+                      }
+                      className="absolute top-1 right-1 p-0.5 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Error Message */}
           {error && (
             <Alert variant="destructive">
@@ -168,7 +391,7 @@ export function RequestReturnDialog({
           </Button>
           <Button
             onClick={handleSubmit}
-            disabled={isLoading || reason.trim().length < 10}
+            disabled={isLoading || uploadingPhotos || !reason || selectedItems.length === 0}
           >
             {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
             Submit Request
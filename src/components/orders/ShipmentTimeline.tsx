@@ -0,0 +1,122 @@
+/**
+ * Shipment Timeline Component
+ * Displays courier checkpoints for one tracked shipment, most recent first
+ */
+
+import { format } from "date-fns";
+import { AlertTriangle, CheckCircle2, Circle, ExternalLink, MapPin, Truck } from "lucide-react";
+import { TrackingEventStatus } from "@prisma/client";
+import { TRACKING_STATUS_LABELS } from "@/lib/tracking/carriers";
+import type { ShipmentDetails } from "@/types/order";
+
+const PROBLEM_STATUSES: TrackingEventStatus[] = [
+  "FAILED_ATTEMPT",
+  "EXCEPTION",
+  "RETURNED_TO_SENDER",
+];
+
+interface ShipmentTimelineProps {
+  shipment: ShipmentDetails;
+}
+
+function EventIcon({ status, isLatest }: { status: TrackingEventStatus; isLatest: boolean }) {
+  if (PROBLEM_STATUSES.includes(status)) {
+    return (
+      <div className="w-6 h-6 rounded-full bg-amber-100 flex items-center justify-center">
+        <AlertTriangle className="w-4 h-4 text-amber-600" />
+      </div>
+    );
+  }
+
+  if (status === "DELIVERED") {
+    return (
+      <div className="w-6 h-6 rounded-full bg-green-100 flex items-center justify-center">
+        <CheckCircle2 className="w-4 h-4 text-green-600" />
+      </div>
+    );
+  }
+
+  if (isLatest) {
+    return (
+      <div className="w-6 h-6 rounded-full bg-blue-100 flex items-center justify-center">
+        <Truck className="w-4 h-4 text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-6 h-6 rounded-full bg-muted flex items-center justify-center">
+      <Circle className="w-3 h-3 text-muted-foreground" />
+    </div>
+  );
+}
+
+export function ShipmentTimeline({ shipment }: ShipmentTimelineProps) {
+  return (
+    <div className="space-y-3">
+      {/* Shipment Header */}
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm">
+          <p className="font-medium">
+            {shipment.carrierName}
+            {shipment.trackingStatus && (
+              <span className="text-muted-foreground font-normal">
+                {" "}
+                · {TRACKING_STATUS_LABELS[shipment.trackingStatus]}
+              </span>
+            )}
+          </p>
+          <p className="text-muted-foreground">Tracking #: {shipment.trackingNumber}</p>
+        </div>
+        {shipment.trackingUrl && (
+          <a
+            href={shipment.trackingUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-primary hover:underline flex items-center gap-1"
+          >
+            Track
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+      </div>
+
+      {shipment.events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No courier updates yet. Updates appear here once the courier scans the parcel.
+        </p>
+      ) : (
+        <div className="relative">
+          {/* Vertical line */}
+          <div className="absolute left-3 top-0 bottom-0 w-0.5 bg-border" />
+
+          <div className="space-y-4">
+            {shipment.events.map((event, index) => (
+              <div key={event.id} className="relative flex gap-3">
+                <div className="relative z-10">
+                  <EventIcon status={event.status} isLatest={index === 0} />
+                </div>
+
+                <div className="flex-1 text-sm">
+                  <p className="font-medium">{TRACKING_STATUS_LABELS[event.status]}</p>
+                  {event.description !== TRACKING_STATUS_LABELS[event.status] && (
+                    <p className="text-muted-foreground">{event.description}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                    {format(new Date(event.occurredAt), "PPP 'at' p")}
+                    {event.location && (
+                      <>
+                        <MapPin className="w-3 h-3 ml-2" />
+                        {event.location}
+                      </>
+                    )}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,11 +4,13 @@
  */
 
 import { OrderItemCard } from "./OrderItemCard";
+import { ShipmentTimeline } from "./ShipmentTimeline";
 import { OrderStatus } from "@prisma/client";
 import { Package, Truck, ExternalLink } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { MessageVendorButton } from "@/components/chat/MessageVendorButton";
 import { WriteReviewButton } from "@/components/reviews/WriteReviewButton";
+import type { ShipmentDetails } from "@/types/order";
 
 interface ProductSnapshot {
   productId: string;
@@ -31,6 +33,7 @@ interface ExistingReview {
   id: string;
   rating: number;
   comment: string | null;
+  photos?: string[];
 }
 
 interface OrderItem {
@@ -52,6 +55,8 @@ interface VendorOrderGroupProps {
   items: OrderItem[];
   chatRoomId?: string | null;
   orderStatus?: string;
+  shippingAmount?: number;
+  shipments?: ShipmentDetails[];
 }
 
 export function VendorOrderGroup({
@@ -59,6 +64,8 @@ export function VendorOrderGroup({
   items,
   chatRoomId,
   orderStatus,
+  shippingAmount,
+  shipments = [],
 }: VendorOrderGroupProps) {
   // Check if any item has tracking info
   const trackingItem = items.find((item) => item.trackingNumber);
@@ -130,6 +137,38 @@ export function VendorOrderGroup({
           </div>
         ))}
       </div>
+
+      {/* Shipment Tracking */}
+      {shipments.length > 0 && (
+        <div className="px-4 py-3 border-t space-y-4">
+          {shipments.map((shipment) => (
+            <ShipmentTimeline key={shipment.trackingNumber} shipment={shipment} />
+          ))}
+        </div>
+      )}
+
+      {/* Vendor Shipping */}
+      {shippingAmount !== undefined && (
+        <div className="px-4 py-3 border-t flex items-center justify-between text-sm">
+          <span className="flex items-center gap-2 text-muted-foreground">
+            <Truck className="w-4 h-4" />
+            Shipping
+          </span>
+          <span className="font-medium">
+            {shippingAmount === 0 ? (
+              <span className="text-green-600">Free</span>
+            ) : (
+              <>
+                Rs.{" "}
+                {shippingAmount.toLocaleString("en-LK", {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                })}
+              </>
+            )}
+          </span>
+        </div>
+      )}
     </div>
   );
 }
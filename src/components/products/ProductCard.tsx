@@ -5,6 +5,7 @@ import Link from "next/link";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Star } from "lucide-react";
+import { WishlistToggle } from "@/components/wishlist/WishlistToggle";
 
 interface ProductCardProps {
   product: {
@@ -53,6 +54,20 @@ export function ProductCard({ product }: ProductCardProps) {
             </div>
           )}
 
+          {/* Wishlist */}
+          <WishlistToggle
+            product={{
+              id: product.id,
+              name: product.name,
+              slug: product.slug,
+              price: shownPrice,
+              image: product.images?.[0] || null,
+              stock: effectiveStock,
+              vendorName: product.vendor?.businessName || "",
+            }}
+            className="absolute top-2 left-2"
+          />
+
           {/* Stock Badge */}
           {isOutOfStock && (
             <Badge
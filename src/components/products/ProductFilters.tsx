@@ -21,6 +21,7 @@ import {
   SheetTitle,
   SheetTrigger,
 } from "@/components/ui/sheet";
+import type { FacetCount, ProductSearchFacets } from "@/lib/search/productSearch";
 
 interface Category {
   id: string;
@@ -42,6 +43,9 @@ export interface FilterValues {
   sortOrder?: string;
   inStock?: boolean;
   vendorId?: string;
+  size?: string;
+  colour?: string;
+  minRating?: string;
 }
 
 interface ProductFiltersProps {
@@ -49,6 +53,15 @@ interface ProductFiltersProps {
   vendors?: Vendor[];
   onFilterChange: (filters: FilterValues) => void;
   initialFilters?: FilterValues;
+  facets?: ProductSearchFacets; // Counts for the current search
+  isSearching?: boolean; // Offer (and default to) relevance sorting
+}
+
+// Append the facet count to an option label, e.g. "Shirts (12)"
+function withCount(label: string, value: string, counts?: FacetCount[]) {
+  if (!counts) return label;
+  const count = counts.find((facet) => facet.value === value)?.count ?? 0;
+  return `${label} (${count})`;
 }
 
 export function ProductFilters({
@@ -56,6 +69,8 @@ export function ProductFilters({
   vendors = [],
   onFilterChange,
   initialFilters = {},
+  facets,
+  isSearching = false,
 }: ProductFiltersProps) {
   const [filters, setFilters] = useState<FilterValues>(initialFilters);
   const [isOpen, setIsOpen] = useState(false);
@@ -76,7 +91,16 @@ export function ProductFilters({
     onFilterChange(clearedFilters);
   };
 
-  const filterKeys: (keyof FilterValues)[] = ["categoryId", "minPrice", "maxPrice", "inStock", "vendorId"];
+  const filterKeys: (keyof FilterValues)[] = [
+    "categoryId",
+    "minPrice",
+    "maxPrice",
+    "inStock",
+    "vendorId",
+    "size",
+    "colour",
+    "minRating",
+  ];
   const hasActiveFilters = filterKeys.some(
     (key) => filters[key] !== undefined && filters[key] !== "" && filters[key] !== false
   );
@@ -89,7 +113,7 @@ export function ProductFilters({
           Sort by:
         </Label>
         <Select
-          value={filters.sortBy || "createdAt"}
+          value={filters.sortBy || (isSearching ? "relevance" : "createdAt")}
           onValueChange={(value) => {
             const newFilters = { ...filters, sortBy: value };
             setFilters(newFilters);
@@ -100,9 +124,12 @@ export function ProductFilters({
             <SelectValue placeholder="Sort by" />
           </SelectTrigger>
           <SelectContent>
+            {isSearching && <SelectItem value="relevance">Best match</SelectItem>}
             <SelectItem value="createdAt">Newest</SelectItem>
             <SelectItem value="price">Price: Low to High</SelectItem>
             <SelectItem value="name">Name: A to Z</SelectItem>
+            <SelectItem value="rating">Top Rated</SelectItem>
+            <SelectItem value="bestselling">Best Selling</SelectItem>
           </SelectContent>
         </Select>
       </div>
@@ -145,7 +172,7 @@ export function ProductFilters({
                   <SelectItem value="all">All Categories</SelectItem>
                   {categories.map((category) => (
                     <SelectItem key={category.id} value={category.id}>
-                      {category.name}
+                      {withCount(category.name, category.id, facets?.categories)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -169,7 +196,7 @@ export function ProductFilters({
                     <SelectItem value="all">All Vendors</SelectItem>
                     {vendors.map((vendor) => (
                       <SelectItem key={vendor.id} value={vendor.id}>
-                        {vendor.businessName}
+                        {withCount(vendor.businessName, vendor.id, facets?.vendors)}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -196,6 +223,66 @@ export function ProductFilters({
               </div>
             </div>
 
+            {/* Size and Colour (values from the current results) */}
+            {(
+              [
+                ["size", "Size", facets?.sizes],
+                ["colour", "Colour", facets?.colours],
+              ] as const
+            ).map(
+              ([key, label, values]) =>
+                values &&
+                values.length > 0 && (
+                  <div key={key} className="space-y-2">
+                    <Label>{label}</Label>
+                    <Select
+                      value={filters[key] || "all"}
+                      onValueChange={(value) =>
+                        handleFilterChange(key, value === "all" ? undefined : value)
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder={`Any ${label.toLowerCase()}`} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Any {label.toLowerCase()}</SelectItem>
+                        {values.map((facet) => (
+                          <SelectItem key={facet.value} value={facet.value}>
+                            {facet.label} ({facet.count})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )
+            )}
+
+            {/* Rating */}
+            <div className="space-y-2">
+              <Label>Rating</Label>
+              <Select
+                value={filters.minRating || "all"}
+                onValueChange={(value) =>
+                  handleFilterChange("minRating", value === "all" ? undefined : value)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Any rating" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any rating</SelectItem>
+                  {[4, 3, 2, 1].map((stars) => {
+                    const count = facets?.ratings.find((r) => r.minRating === stars)?.count;
+                    return (
+                      <SelectItem key={stars} value={String(stars)}>
+                        {stars} stars & up{count !== undefined && ` (${count})`}
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Availability */}
             <div className="flex items-center space-x-2">
               <Checkbox
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import Image from "next/image";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -8,14 +8,23 @@ import { Button } from "@/components/ui/button";
 interface ProductImageGalleryProps {
   images: string[];
   productName: string;
+  activeImage?: string | null; // e.g. the selected variant's image
 }
 
 export function ProductImageGallery({
   images,
   productName,
+  activeImage,
 }: ProductImageGalleryProps) {
   const [selectedImage, setSelectedImage] = useState(0);
 
+  // Jump to the active image when it changes
+  useEffect(() => {
+    if (!activeImage) return;
+    const index = images.indexOf(activeImage);
+    if (index !== -1) setSelectedImage(index);
+  }, [activeImage, images]);
+
   if (!images || images.length === 0) {
     return (
       <div className="aspect-square bg-gray-100 rounded-lg flex items-center justify-center">
@@ -0,0 +1,225 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { HelpCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuthStore } from "@/stores/authStore";
+import { validateMessageContent } from "@/lib/utils/contactFilter";
+import { toast } from "sonner";
+
+interface PublicQuestion {
+  id: string;
+  question: string;
+  answer: string | null;
+  askedBy: string;
+  createdAt: string;
+  answeredAt: string | null;
+}
+
+interface OwnQuestion {
+  id: string;
+  question: string;
+  answer: string | null;
+  status: "PENDING" | "ANSWERED";
+  createdAt: string;
+}
+
+interface ProductQuestionsProps {
+  productId: string;
+  productSlug: string;
+  vendorName: string;
+}
+
+const PAGE_SIZE = 5;
+
+export function ProductQuestions({ productId, productSlug, vendorName }: ProductQuestionsProps) {
+  const { isAuthenticated, user } = useAuthStore();
+  const isCustomer = isAuthenticated && user?.role === "CUSTOMER";
+
+  const [questions, setQuestions] = useState<PublicQuestion[]>([]);
+  const [ownQuestions, setOwnQuestions] = useState<OwnQuestion[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchQuestions = useCallback(
+    async (pageToLoad: number) => {
+      setIsLoading(true);
+      try {
+        const res = await fetch(
+          `/api/products/${productSlug}/questions?page=${pageToLoad}&pageSize=${PAGE_SIZE}`
+        );
+        const data = await res.json();
+
+        if (data.success) {
+          setQuestions((prev) =>
+            pageToLoad === 1 ? data.data.questions : [...prev, ...data.data.questions]
+          );
+          setTotal(data.data.pagination.total);
+          setPage(pageToLoad);
+        }
+      } catch (error) {
+        console.error("Error fetching product questions:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [productSlug]
+  );
+
+  useEffect(() => {
+    fetchQuestions(1);
+  }, [fetchQuestions]);
+
+  // Customers also see their own questions that are still waiting for an answer
+  useEffect(() => {
+    if (!isCustomer) return;
+
+    fetch(`/api/questions?productId=${productId}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setOwnQuestions(data.data.questions);
+      })
+      .catch((error) => console.error("Error fetching your questions:", error));
+  }, [isCustomer, productId]);
+
+  const pendingOwnQuestions = ownQuestions.filter((q) => q.status === "PENDING");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const question = draft.trim();
+    if (!question) return;
+
+    // Same pre-send check as chat; the server masks anything that slips through
+    const warning = validateMessageContent(question);
+    if (warning && !warning.startsWith("Warning")) {
+      toast.error(warning);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch("/api/questions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ productId, question }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setOwnQuestions((prev) => [data.data.question, ...prev]);
+        setDraft("");
+        toast.success(`Question sent to ${vendorName}. We'll notify you when it's answered.`);
+      } else {
+        toast.error(data.error || "Failed to submit question");
+      }
+    } catch {
+      toast.error("Failed to submit question");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div id="questions" className="mb-12 scroll-mt-20">
+      <h2 className="text-2xl font-bold mb-6">Questions &amp; Answers</h2>
+
+      {/* Ask a question */}
+      {isCustomer ? (
+        <form onSubmit={handleSubmit} className="mb-6 space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Ask about fit, fabric, sizing..."
+            maxLength={500}
+            rows={3}
+          />
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              Questions are public. Please don&apos;t share contact details.
+            </p>
+            <Button type="submit" size="sm" disabled={isSubmitting || draft.trim().length < 10}>
+              {isSubmitting ? "Sending..." : "Ask Question"}
+            </Button>
+          </div>
+        </form>
+      ) : !isAuthenticated ? (
+        <p className="mb-6 text-sm text-muted-foreground">
+          <Link
+            href={`/login?redirect=/products/${productSlug}`}
+            className="font-medium text-primary hover:underline"
+          >
+            Log in
+          </Link>{" "}
+          to ask the seller a question.
+        </p>
+      ) : null}
+
+      {/* Your unanswered questions */}
+      {pendingOwnQuestions.length > 0 && (
+        <div className="mb-6 space-y-2">
+          {pendingOwnQuestions.map((q) => (
+            <div key={q.id} className="border border-dashed rounded-lg p-4">
+              <div className="flex items-center gap-2 mb-1">
+                <Badge variant="secondary" className="text-xs">
+                  Waiting for the seller
+                </Badge>
+              </div>
+              <p className="text-sm">
+                <span className="font-semibold">Q:</span> {q.question}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Answered questions */}
+      {questions.length === 0 && !isLoading ? (
+        <div className="border rounded-lg p-8 text-center">
+          <HelpCircle className="w-10 h-10 mx-auto text-muted-foreground mb-3" />
+          <p className="text-sm text-muted-foreground">
+            No questions yet. Be the first to ask.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {questions.map((q) => (
+            <div key={q.id} className="border rounded-lg p-4">
+              <p className="text-sm font-medium">
+                <span className="font-semibold">Q:</span> {q.question}
+              </p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Asked by {q.askedBy} on {new Date(q.createdAt).toLocaleDateString()}
+              </p>
+              <p className="text-sm mt-3">
+                <span className="font-semibold">A:</span> {q.answer}
+              </p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Answered by {vendorName}
+                {q.answeredAt && ` on ${new Date(q.answeredAt).toLocaleDateString()}`}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {questions.length < total && (
+        <div className="mt-4 text-center">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fetchQuestions(page + 1)}
+            disabled={isLoading}
+          >
+            Show More Questions
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Star, ThumbsUp, Store } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuthStore } from "@/stores/authStore";
+import type { PublicReview, RatingSummary, ReviewSort } from "@/types/review";
+import { toast } from "sonner";
+
+interface ProductReviewsProps {
+  productId: string;
+  productSlug: string;
+  vendorName: string;
+}
+
+const PAGE_SIZE = 5;
+
+export function ProductReviews({ productId, productSlug, vendorName }: ProductReviewsProps) {
+  const { isAuthenticated, user } = useAuthStore();
+  const isCustomer = isAuthenticated && user?.role === "CUSTOMER";
+
+  const [reviews, setReviews] = useState<PublicReview[]>([]);
+  const [summary, setSummary] = useState<RatingSummary | null>(null);
+  const [sort, setSort] = useState<ReviewSort>("helpful");
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [votedIds, setVotedIds] = useState<Set<string>>(new Set());
+  const [votingId, setVotingId] = useState<string | null>(null);
+
+  const fetchReviews = useCallback(
+    async (pageToLoad: number) => {
+      setIsLoading(true);
+      try {
+        const res = await fetch(
+          `/api/products/${productSlug}/reviews?sort=${sort}&page=${pageToLoad}&pageSize=${PAGE_SIZE}`
+        );
+        const data = await res.json();
+
+        if (data.success) {
+          setReviews((prev) =>
+            pageToLoad === 1 ? data.data.reviews : [...prev, ...data.data.reviews]
+          );
+          setSummary(data.data.summary);
+          setPage(pageToLoad);
+        }
+      } catch (error) {
+        console.error("Error fetching product reviews:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [productSlug, sort]
+  );
+
+  useEffect(() => {
+    fetchReviews(1);
+  }, [fetchReviews]);
+
+  // Highlight reviews the customer already marked as helpful
+  useEffect(() => {
+    if (!isCustomer) return;
+
+    fetch(`/api/reviews/helpful?productId=${productId}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setVotedIds(new Set(data.data.reviewIds));
+      })
+      .catch((error) => console.error("Error fetching helpful votes:", error));
+  }, [isCustomer, productId]);
+
+  const handleHelpful = async (reviewId: string) => {
+    if (!isCustomer) {
+      toast.error("Log in as a customer to vote on reviews");
+      return;
+    }
+
+    const hasVoted = votedIds.has(reviewId);
+    setVotingId(reviewId);
+    try {
+      const res = await fetch(`/api/reviews/${reviewId}/helpful`, {
+        method: hasVoted ? "DELETE" : "POST",
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setVotedIds((prev) => {
+          const next = new Set(prev);
+          if (data.data.helpful) next.add(reviewId);
+          else next.delete(reviewId);
+          return next;
+        });
+        setReviews((prev) =>
+          prev.map((r) =>
+            r.id === reviewId ? { ...r, helpfulCount: data.data.helpfulCount } : r
+          )
+        );
+      } else {
+        toast.error(data.error || "Failed to record vote");
+      }
+    } catch {
+      toast.error("Failed to record vote");
+    } finally {
+      setVotingId(null);
+    }
+  };
+
+  // Like before, the section only appears once the product has reviews
+  if (!summary || summary.reviewCount === 0) return null;
+
+  return (
+    <div id="reviews" className="mb-12 scroll-mt-20">
+      <h2 className="text-2xl font-bold mb-6">Customer Reviews</h2>
+
+      <div className="grid gap-8 md:grid-cols-[240px_1fr]">
+        {/* Rating summary */}
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <Star className="w-6 h-6 fill-yellow-400 text-yellow-400" />
+            <span className="text-3xl font-bold">{summary.averageRating.toFixed(1)}</span>
+            <span className="text-sm text-muted-foreground">out of 5</span>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            {summary.reviewCount} {summary.reviewCount === 1 ? "review" : "reviews"}
+          </p>
+          <div className="space-y-1.5">
+            {([5, 4, 3, 2, 1] as const).map((stars) => {
+              const count = summary.histogram[stars];
+              const percent = Math.round((count / summary.reviewCount) * 100);
+              return (
+                <div key={stars} className="flex items-center gap-2 text-sm">
+                  <span className="w-10 shrink-0">{stars} star</span>
+                  <div className="h-2 flex-1 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className="h-full bg-yellow-400"
+                      style={{ width: `${percent}%` }}
+                    />
+                  </div>
+                  <span className="w-10 shrink-0 text-right text-muted-foreground">
+                    {percent}%
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Review list */}
+        <div>
+          <div className="flex justify-end mb-4">
+            <Select value={sort} onValueChange={(value) => setSort(value as ReviewSort)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="helpful">Most helpful</SelectItem>
+                <SelectItem value="newest">Newest</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-4">
+            {reviews.map((review) => (
+              <div key={review.id} className="border rounded-lg p-4">
+                <div className="flex items-center gap-2 mb-2">
+                  <div className="flex">
+                    {Array.from({ length: 5 }).map((_, i) => (
+                      <Star
+                        key={i}
+                        className={`w-4 h-4 ${
+                          i < review.rating
+                            ? "fill-yellow-400 text-yellow-400"
+                            : "text-gray-300"
+                        }`}
+                      />
+                    ))}
+                  </div>
+                  <span className="text-sm font-semibold">
+                    {review.customerName || "Anonymous"}
+                  </span>
+                  <span className="text-sm text-muted-foreground">
+                    {new Date(review.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+
+                {review.comment && <p className="text-sm">{review.comment}</p>}
+
+                {review.photos.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {review.photos.map((url, index) => (
+                      <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                        <img
+                          src={url}
+                          alt={`Review photo ${index + 1}`}
+                          className="w-20 h-20 object-cover rounded-md border hover:opacity-90"
+                        />
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                {review.vendorReply && (
+                  <div className="mt-3 rounded-md bg-muted p-3">
+                    <p className="flex items-center gap-1.5 text-xs font-semibold mb-1">
+                      <Store className="w-3.5 h-3.5" />
+                      Response from {vendorName}
+                      <span className="font-normal text-muted-foreground">
+                        · {new Date(review.vendorReply.repliedAt).toLocaleDateString()}
+                      </span>
+                    </p>
+                    <p className="text-sm">{review.vendorReply.content}</p>
+                  </div>
+                )}
+
+                <div className="mt-3">
+                  <Button
+                    variant={votedIds.has(review.id) ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-8 gap-1.5 text-xs"
+                    onClick={() => handleHelpful(review.id)}
+                    disabled={votingId === review.id}
+                  >
+                    <ThumbsUp
+                      className={`w-3.5 h-3.5 ${votedIds.has(review.id) ? "fill-current" : ""}`}
+                    />
+                    Helpful{review.helpfulCount > 0 && ` (${review.helpfulCount})`}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {reviews.length < summary.reviewCount && (
+            <div className="mt-4 text-center">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fetchReviews(page + 1)}
+                disabled={isLoading}
+              >
+                Show More Reviews
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 "use client";
 
 import { useState } from "react";
-import { Star, CheckCircle2, Loader2 } from "lucide-react";
+import { Star, CheckCircle2, Loader2, ImagePlus, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   Dialog,
   DialogContent,
@@ -14,11 +15,13 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
+import { MAX_REVIEW_PHOTOS } from "@/types/review";
 
 interface ExistingReview {
   id: string;
   rating: number;
   comment: string | null;
+  photos?: string[];
 }
 
 interface WriteReviewButtonProps {
@@ -114,8 +117,60 @@ function ReviewDialog({
   const [rating, setRating] = useState(existingReview?.rating || 0);
   const [hovered, setHovered] = useState(0);
   const [comment, setComment] = useState(existingReview?.comment || "");
+  const [photos, setPhotos] = useState<string[]>(existingReview?.photos || []);
+  const [isUploading, setIsUploading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  async function handlePhotoUpload(e: React.ChangeEvent<HTMLInputElement>) {
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+
+    if (photos.length + files.length > MAX_REVIEW_PHOTOS) {
+      toast.error(
+        `You can add up to ${MAX_REVIEW_PHOTOS} photos (${MAX_REVIEW_PHOTOS - photos.length} more)`
+      );
+      e.target.value = "";
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const uploadedUrls: string[] = [];
+
+      for (const file of Array.from(files)) {
+        if (!file.type.startsWith("image/")) {
+          toast.error("Only image files are allowed");
+          continue;
+        }
+        if (file.size > 5 * 1024 * 1024) {
+          toast.error("Image size must be less than 5MB");
+          continue;
+        }
+
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("folder", "reviews");
+
+        const res = await fetch("/api/upload", {
+          method: "POST",
+          body: formData,
+        });
+        const data = await res.json();
+        if (!data.success) {
+          throw new Error(data.error || "Failed to upload photo");
+        }
+        uploadedUrls.push(data.data.url);
+      }
+
+      setPhotos((prev) => [...prev, ...uploadedUrls]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to upload photo");
+    } finally {
+      setIsUploading(false);
+      e.target.value = "";
+    }
+  }
+
   async function handleSubmit() {
     if (rating === 0) {
       toast.error("Please select a star rating");
@@ -131,6 +186,7 @@ function ReviewDialog({
           orderItemId,
           rating,
           comment: comment.trim() || null,
+          photos,
         }),
       });
 
@@ -144,7 +200,12 @@ function ReviewDialog({
       toast.success(
         existingReview ? "Review updated!" : "Review submitted — thank you!"
       );
-      onSuccess({ id: data.data.review.id, rating, comment: comment.trim() || null });
+      onSuccess({
+        id: data.data.review.id,
+        rating,
+        comment: comment.trim() || null,
+        photos,
+      });
     } catch {
       toast.error("An error occurred. Please try again.");
     } finally {
@@ -224,6 +285,61 @@ function ReviewDialog({
               {comment.length}/1000
             </p>
           </div>
+
+          {/* Photos */}
+          <div className="space-y-2">
+            <Label>
+              Photos{" "}
+              <span className="text-muted-foreground font-normal">
+                (optional, up to {MAX_REVIEW_PHOTOS})
+              </span>
+            </Label>
+            <div className="flex flex-wrap gap-2">
+              {photos.map((url, index) => (
+                <div key={url} className="relative group">
+                  <img
+                    src={url}
+                    alt={`Review photo ${index + 1}`}
+                    className="w-16 h-16 object-cover rounded-md border"
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setPhotos((prev) => prev.filter((p) => p !== url))
+                    }
+                    disabled={isSubmitting}
+                    className="absolute -top-1.5 -right-1.5 p-0.5 bg-red-500 text-white rounded-full"
+                    aria-label="Remove photo"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_REVIEW_PHOTOS && (
+                <>
+                  <Input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    onChange={handlePhotoUpload}
+                    disabled={isUploading || isSubmitting}
+                    className="hidden"
+                    id="review-photo-upload"
+                  />
+                  <Label
+                    htmlFor="review-photo-upload"
+                    className="flex items-center justify-center w-16 h-16 border-2 border-dashed rounded-md cursor-pointer hover:bg-accent transition-colors"
+                  >
+                    {isUploading ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <ImagePlus className="w-5 h-5 text-muted-foreground" />
+                    )}
+                  </Label>
+                </>
+              )}
+            </div>
+          </div>
         </div>
 
         <DialogFooter>
@@ -236,7 +352,7 @@ function ReviewDialog({
           </Button>
           <Button
             onClick={handleSubmit}
-            disabled={isSubmitting || rating === 0}
+            disabled={isSubmitting || isUploading || rating === 0}
           >
             {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
             {existingReview ? "Update Review" : "Submit Review"}
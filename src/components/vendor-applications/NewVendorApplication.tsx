@@ -0,0 +1,44 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { VendorApplicationForm } from "./VendorApplicationForm";
+import type { VendorApplicationInput } from "@/lib/validations/vendor";
+
+export function NewVendorApplication() {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (data: VendorApplicationInput) => {
+    setIsSubmitting(true);
+    try {
+      const res = await fetch("/api/vendor-applications", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      const result = await res.json();
+
+      if (!result.success) {
+        toast.error(result.error || "Failed to submit application");
+        return;
+      }
+
+      toast.success(result.message || "Application submitted");
+      router.push(result.data.statusLink);
+    } catch {
+      toast.error("Failed to submit application");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <VendorApplicationForm
+      submitLabel="Submit Application"
+      isSubmitting={isSubmitting}
+      onSubmit={handleSubmit}
+    />
+  );
+}
@@ -0,0 +1,472 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { CheckCircle2, FileImage, Loader2, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import {
+  vendorApplicationSchema,
+  type VendorApplicationInput,
+} from "@/lib/validations/vendor";
+import { SRI_LANKAN_BANKS } from "@/lib/validations/wallet";
+import {
+  REQUIRED_APPLICATION_DOCUMENTS,
+  VENDOR_APPLICATION_DOCUMENT_LABELS,
+  VENDOR_APPLICATION_DOCUMENT_TYPES,
+  type VendorApplicationDocument,
+  type VendorApplicationDocumentType,
+} from "@/types/vendor";
+
+interface VendorApplicationFormProps {
+  initialValues?: VendorApplicationInput; // Resubmitting after changes were requested
+  applicationToken?: string; // Shows the documents already submitted
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (data: VendorApplicationInput) => Promise<void>;
+}
+
+export function VendorApplicationForm({
+  initialValues,
+  applicationToken,
+  submitLabel,
+  isSubmitting,
+  onSubmit,
+}: VendorApplicationFormProps) {
+  const [uploadingType, setUploadingType] = useState<VendorApplicationDocumentType | null>(null);
+  // Documents are private, so new uploads are previewed from the local file
+  const [previews, setPreviews] = useState<
+    Partial<Record<VendorApplicationDocumentType, string>>
+  >({});
+
+  const form = useForm<VendorApplicationInput>({
+    resolver: zodResolver(vendorApplicationSchema),
+    defaultValues: initialValues ?? {
+      businessName: "",
+      businessEmail: "",
+      businessPhone: "",
+      businessAddress: "",
+      description: "",
+      businessRegistrationNo: "",
+      ownerName: "",
+      nicNumber: "",
+      bankName: undefined,
+      accountNumber: "",
+      accountHolder: "",
+      branchCode: "",
+      documents: [],
+    },
+  });
+
+  const documents = form.watch("documents");
+
+  const setDocuments = (next: VendorApplicationDocument[]) => {
+    form.setValue("documents", next, { shouldValidate: form.formState.isSubmitted });
+  };
+
+  const handleUpload = async (
+    type: VendorApplicationDocumentType,
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast.error("Upload a photo or scan of the document (JPG, PNG or WebP)");
+      return;
+    }
+    if (file.size > 5 * 1024 * 1024) {
+      toast.error("Documents must be smaller than 5MB");
+      return;
+    }
+
+    setUploadingType(type);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const res = await fetch("/api/vendor-applications/documents", {
+        method: "POST",
+        body: formData,
+      });
+      const result = await res.json();
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to upload document");
+      }
+
+      setDocuments([
+        ...form.getValues("documents").filter((doc) => doc.type !== type),
+        { type, key: result.data.key },
+      ]);
+      setPreviews((prev) => {
+        if (prev[type]) URL.revokeObjectURL(prev[type]);
+        return { ...prev, [type]: URL.createObjectURL(file) };
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to upload document");
+    } finally {
+      setUploadingType(null);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+        {/* Business */}
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold">Business Details</h2>
+
+          <FormField
+            control={form.control}
+            name="businessName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Business Name *</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., Fashion House LK" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="businessEmail"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Business Email *</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="you@business.lk" {...field} />
+                  </FormControl>
+                  <FormDescription>Your login email once approved</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="businessPhone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Business Phone *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="0771234567" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="businessRegistrationNo"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Business Registration Number *</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., PV 123456" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="businessAddress"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Business Address *</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder="Registered business address"
+                    className="resize-none"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>What do you sell?</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder="Tell us about your products and brand"
+                    className="resize-none"
+                    rows={3}
+                    {...field}
+                    value={field.value || ""}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </section>
+
+        <Separator />
+
+        {/* Owner */}
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold">Owner Details</h2>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="ownerName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Full Name *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="As shown on your NIC" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="nicNumber"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>NIC Number *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="901234567V or 199012345678" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </section>
+
+        <Separator />
+
+        {/* Bank */}
+        <section className="space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold">Bank Details</h2>
+            <p className="text-sm text-muted-foreground">Where we send your payouts</p>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="bankName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Bank *</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select your bank" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {SRI_LANKAN_BANKS.map((bank) => (
+                        <SelectItem key={bank} value={bank}>
+                          {bank}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="branchCode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Branch Code</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="3-digit branch code"
+                      {...field}
+                      value={field.value || ""}
+                      maxLength={3}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="accountHolder"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Account Holder Name *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Name on the bank account" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="accountNumber"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Account Number *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="8-20 digits" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </section>
+
+        <Separator />
+
+        {/* Documents */}
+        <FormField
+          control={form.control}
+          name="documents"
+          render={() => (
+            <FormItem className="space-y-4">
+              <div>
+                <h2 className="text-lg font-semibold">Documents</h2>
+                <p className="text-sm text-muted-foreground">
+                  Clear photos or scans (JPG, PNG or WebP, up to 5MB each)
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                {VENDOR_APPLICATION_DOCUMENT_TYPES.map((type) => {
+                  const doc = documents.find((d) => d.type === type);
+                  const previewUrl = doc
+                    ? previews[type] ??
+                      (applicationToken &&
+                        `/api/vendor-applications/${applicationToken}/documents/${type}`)
+                    : undefined;
+                  const isRequired = REQUIRED_APPLICATION_DOCUMENTS.includes(type);
+                  const inputId = `application-document-${type}`;
+
+                  return (
+                    <div
+                      key={type}
+                      className="flex items-center justify-between gap-3 rounded-lg border p-3"
+                    >
+                      <div className="flex items-center gap-3 min-w-0">
+                        {previewUrl ? (
+                          <a href={previewUrl} target="_blank" rel="noopener noreferrer">
+                            <img
+                              src={previewUrl}
+                              alt={VENDOR_APPLICATION_DOCUMENT_LABELS[type]}
+                              className="w-12 h-12 object-cover rounded border"
+                            />
+                          </a>
+                        ) : (
+                          <div className="flex w-12 h-12 items-center justify-center rounded border border-dashed">
+                            <FileImage className="w-5 h-5 text-muted-foreground" />
+                          </div>
+                        )}
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium">
+                            {VENDOR_APPLICATION_DOCUMENT_LABELS[type]}
+                            {isRequired && " *"}
+                          </p>
+                          {doc && (
+                            <p className="flex items-center gap-1 text-xs text-green-600">
+                              <CheckCircle2 className="w-3 h-3" />
+                              Uploaded
+                            </p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-2">
+                        {doc && !isRequired && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setDocuments(documents.filter((d) => d.type !== type))}
+                            disabled={isSubmitting}
+                            aria-label="Remove document"
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                        <Input
+                          id={inputId}
+                          type="file"
+                          accept="image/*"
+                          className="hidden"
+                          onChange={(e) => handleUpload(type, e)}
+                          disabled={uploadingType !== null || isSubmitting}
+                        />
+                        <Button type="button" variant="outline" size="sm" asChild>
+                          <label htmlFor={inputId} className="cursor-pointer">
+                            {uploadingType === type ? (
+                              <Loader2 className="mr-2 w-4 h-4 animate-spin" />
+                            ) : (
+                              <Upload className="mr-2 w-4 h-4" />
+                            )}
+                            {doc ? "Replace" : "Upload"}
+                          </label>
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button
+          type="submit"
+          size="lg"
+          className="w-full"
+          disabled={isSubmitting || uploadingType !== null}
+        >
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
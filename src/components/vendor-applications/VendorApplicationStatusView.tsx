@@ -0,0 +1,187 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { AlertCircle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { VendorApplicationForm } from "./VendorApplicationForm";
+import type { VendorApplicationInput } from "@/lib/validations/vendor";
+import {
+  VENDOR_APPLICATION_DOCUMENT_LABELS,
+  VENDOR_APPLICATION_STATUS_COLORS,
+  VENDOR_APPLICATION_STATUS_LABELS,
+  type VendorApplicationView,
+} from "@/types/vendor";
+
+interface VendorApplicationStatusViewProps {
+  token: string;
+}
+
+const STATUS_MESSAGES: Record<VendorApplicationView["status"], string> = {
+  PENDING:
+    "Our team is reviewing your application. We'll email you as soon as there's a decision.",
+  CHANGES_REQUESTED:
+    "Our team needs a few changes before your application can be approved. Update the details below and resubmit.",
+  APPROVED:
+    "Welcome to PrimeWear! We've emailed your login details to your business email.",
+  REJECTED: "Unfortunately your application was not approved.",
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString("en-LK", { dateStyle: "medium", timeStyle: "short" });
+
+export function VendorApplicationStatusView({ token }: VendorApplicationStatusViewProps) {
+  const [application, setApplication] = useState<VendorApplicationView | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/vendor-applications/${token}`)
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success) setApplication(result.data.application);
+        else setNotFound(true);
+      })
+      .catch(() => setNotFound(true));
+  }, [token]);
+
+  const handleResubmit = async (data: VendorApplicationInput) => {
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(`/api/vendor-applications/${token}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      const result = await res.json();
+
+      if (!result.success) {
+        toast.error(result.error || "Failed to resubmit application");
+        return;
+      }
+
+      toast.success(result.message || "Application resubmitted");
+      setApplication(result.data.application);
+      window.scrollTo({ top: 0, behavior: "smooth" });
+    } catch {
+      toast.error("Failed to resubmit application");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (notFound) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <h1 className="text-2xl font-bold">Application not found</h1>
+        <p className="text-muted-foreground">
+          Check the link in your email, or start a new application.
+        </p>
+        <Button asChild>
+          <Link href="/sell">Apply to Sell</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (!application) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const isChangesRequested = application.status === "CHANGES_REQUESTED";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <h1 className="text-3xl font-bold">{application.businessName}</h1>
+        <Badge variant={VENDOR_APPLICATION_STATUS_COLORS[application.status]}>
+          {VENDOR_APPLICATION_STATUS_LABELS[application.status]}
+        </Badge>
+      </div>
+      <p className="text-muted-foreground text-sm">
+        Submitted {formatDate(application.submittedAt)}
+      </p>
+
+      <p>{STATUS_MESSAGES[application.status]}</p>
+
+      {application.reviewNote && application.status !== "PENDING" && (
+        <Alert
+          className={isChangesRequested ? "border-amber-600 bg-amber-50" : undefined}
+          variant={application.status === "REJECTED" ? "destructive" : "default"}
+        >
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Comments from our team</AlertTitle>
+          <AlertDescription className="whitespace-pre-wrap">
+            {application.reviewNote}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {application.status === "APPROVED" && (
+        <Button asChild>
+          <Link href="/vendor/login">Log In to Your Vendor Dashboard</Link>
+        </Button>
+      )}
+
+      <Separator />
+
+      {isChangesRequested ? (
+        <VendorApplicationForm
+          initialValues={{
+            businessName: application.businessName,
+            businessEmail: application.businessEmail,
+            businessPhone: application.businessPhone,
+            businessAddress: application.businessAddress,
+            description: application.description ?? "",
+            businessRegistrationNo: application.businessRegistrationNo,
+            ownerName: application.ownerName,
+            nicNumber: application.nicNumber,
+            bankName: application.bankName as VendorApplicationInput["bankName"],
+            accountNumber: application.accountNumber,
+            accountHolder: application.accountHolder,
+            branchCode: application.branchCode ?? "",
+            documents: application.documents,
+          }}
+          applicationToken={token}
+          submitLabel="Resubmit Application"
+          isSubmitting={isSubmitting}
+          onSubmit={handleResubmit}
+        />
+      ) : (
+        <dl className="grid gap-4 text-sm sm:grid-cols-2">
+          {[
+            ["Business Email", application.businessEmail],
+            ["Business Phone", application.businessPhone],
+            ["Registration Number", application.businessRegistrationNo],
+            ["Owner", application.ownerName],
+            ["NIC Number", application.nicNumber],
+            ["Bank", application.bankName],
+            ["Business Address", application.businessAddress],
+            [
+              "Documents",
+              application.documents
+                .map((doc) => VENDOR_APPLICATION_DOCUMENT_LABELS[doc.type])
+                .join(", "),
+            ],
+          ].map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="font-medium whitespace-pre-wrap">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { ShoppingCart, TrendingDown, X } from "lucide-react";
+import { WishlistItem } from "@/types/wishlist";
+import { useWishlistStore } from "@/stores/wishlistStore";
+import { useCartStore } from "@/stores/cartStore";
+import { useAuthStore } from "@/stores/authStore";
+import { formatPrice } from "@/lib/utils/cart";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+
+interface WishlistItemCardProps {
+  item: WishlistItem;
+}
+
+export function WishlistItemCard({ item }: WishlistItemCardProps) {
+  const router = useRouter();
+  const { isAuthenticated } = useAuthStore();
+  const { removeWishlistItem, removeGuestWishlistItem, moveToCart } = useWishlistStore();
+  const { fetchCart } = useCartStore();
+  const { toast } = useToast();
+
+  const [isMoving, setIsMoving] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  const priceDropped = item.price < item.savedPrice;
+
+  const handleRemove = async () => {
+    if (isRemoving) return;
+
+    setIsRemoving(true);
+
+    if (isAuthenticated) {
+      await removeWishlistItem(item.id);
+    } else {
+      removeGuestWishlistItem(item.id);
+    }
+
+    setIsRemoving(false);
+  };
+
+  const handleMoveToCart = async () => {
+    // Guests (and products saved without a variant) pick options on the product page
+    if (!isAuthenticated) {
+      router.push(`/products/${item.productSlug}`);
+      return;
+    }
+
+    setIsMoving(true);
+
+    if (await moveToCart(item.id)) {
+      await fetchCart();
+      toast({
+        title: "Moved to cart",
+        description: item.productName,
+      });
+    } else {
+      const error = useWishlistStore.getState().error;
+      if (error === "Please select a variant") {
+        router.push(`/products/${item.productSlug}`);
+      } else {
+        toast({
+          title: "Couldn't move to cart",
+          description: error || "Please try again",
+          variant: "destructive",
+        });
+      }
+    }
+
+    setIsMoving(false);
+  };
+
+  return (
+    <div className="flex gap-4 p-4">
+      {/* Product Image */}
+      <Link
+        href={`/products/${item.productSlug}`}
+        className="flex-shrink-0 relative w-24 h-24 bg-gray-100 rounded-md overflow-hidden"
+      >
+        {item.productImage ? (
+          <Image
+            src={item.productImage}
+            alt={item.productName}
+            fill
+            sizes="96px"
+            className="object-cover"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-xs text-gray-400">
+            No Image
+          </div>
+        )}
+      </Link>
+
+      {/* Product Info */}
+      <div className="flex-1 min-w-0">
+        <Link
+          href={`/products/${item.productSlug}`}
+          className="font-medium text-sm hover:underline line-clamp-2"
+        >
+          {item.productName}
+        </Link>
+        <p className="text-xs text-muted-foreground mt-0.5">by {item.vendorName}</p>
+
+        {item.variantLabel && (
+          <p className="text-sm text-muted-foreground mt-1">{item.variantLabel}</p>
+        )}
+
+        {/* Price */}
+        <div className="flex items-center gap-2 mt-2">
+          <p className="font-semibold">{formatPrice(item.price)}</p>
+          {priceDropped && (
+            <>
+              <span className="text-xs text-muted-foreground line-through">
+                {formatPrice(item.savedPrice)}
+              </span>
+              <Badge variant="secondary" className="text-xs text-green-700 bg-green-50">
+                <TrendingDown className="mr-1 h-3 w-3" />
+                Price dropped
+              </Badge>
+            </>
+          )}
+        </div>
+
+        {/* Availability */}
+        {!item.isAvailable && item.shopClosed ? (
+          <Badge variant="secondary" className="mt-2 text-xs">
+            Shop temporarily closed
+          </Badge>
+        ) : !item.isAvailable ? (
+          <Badge variant="destructive" className="mt-2 text-xs">
+            No longer available
+          </Badge>
+        ) : !item.inStock ? (
+          <Badge variant="secondary" className="mt-2 text-xs">
+            Out of stock — we&apos;ll let you know when it&apos;s back
+          </Badge>
+        ) : (
+          <Button
+            size="sm"
+            className="mt-3"
+            onClick={handleMoveToCart}
+            disabled={isMoving}
+          >
+            <ShoppingCart className="mr-2 h-4 w-4" />
+            {isAuthenticated ? "Move to Cart" : "View Product"}
+          </Button>
+        )}
+      </div>
+
+      {/* Remove Button */}
+      <div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleRemove}
+          disabled={isRemoving}
+          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+          aria-label="Remove from wishlist"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { Heart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useWishlistStore } from "@/stores/wishlistStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface WishlistToggleProps {
+  product: {
+    id: string;
+    name: string;
+    slug: string;
+    price: number;
+    image: string | null;
+    stock: number;
+    vendorName: string;
+  };
+  variantId?: string | null;
+  variantLabel?: string;
+  className?: string;
+}
+
+/**
+ * Heart button that adds or removes a product (or variant) from the wishlist
+ * Guests save to localStorage; the list is merged into their account on login.
+ */
+export function WishlistToggle({
+  product,
+  variantId = null,
+  variantLabel,
+  className,
+}: WishlistToggleProps) {
+  const { isAuthenticated, user } = useAuthStore();
+  const {
+    findItem,
+    addToGuestWishlist,
+    removeGuestWishlistItem,
+    addToWishlist,
+    removeWishlistItem,
+  } = useWishlistStore();
+  const { toast } = useToast();
+  const [isPending, setIsPending] = useState(false);
+
+  // Vendors and admins browsing the storefront have no wishlist
+  if (isAuthenticated && user?.role !== "CUSTOMER") return null;
+
+  const savedItem = findItem(product.id, variantId);
+  const isSaved = !!savedItem;
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // The toggle sits inside product card links
+    e.preventDefault();
+    e.stopPropagation();
+    if (isPending) return;
+
+    setIsPending(true);
+
+    if (isAuthenticated) {
+      if (savedItem) {
+        await removeWishlistItem(savedItem.id);
+      } else {
+        const success = await addToWishlist(product.id, variantId);
+        if (!success) {
+          toast({
+            title: "Couldn't save item",
+            description: useWishlistStore.getState().error || "Please try again",
+            variant: "destructive",
+          });
+        }
+      }
+    } else if (savedItem) {
+      removeGuestWishlistItem(savedItem.id);
+    } else {
+      addToGuestWishlist({
+        id: "",
+        productId: product.id,
+        productName: product.name,
+        productSlug: product.slug,
+        productImage: product.image,
+        variantId,
+        variantLabel,
+        price: product.price,
+        savedPrice: product.price,
+        quantity: 1,
+        inStock: product.stock > 0,
+        isAvailable: true,
+        vendorName: product.vendorName,
+      });
+    }
+
+    setIsPending(false);
+  };
+
+  return (
+    <Button
+      type="button"
+      variant="secondary"
+      size="icon"
+      onClick={handleClick}
+      disabled={isPending}
+      className={cn("h-8 w-8 rounded-full bg-white/90 hover:bg-white", className)}
+      aria-label={isSaved ? "Remove from wishlist" : "Save to wishlist"}
+      aria-pressed={isSaved}
+    >
+      <Heart
+        className={cn("h-4 w-4", isSaved && "fill-red-500 text-red-500")}
+      />
+    </Button>
+  );
+}
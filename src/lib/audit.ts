@@ -0,0 +1,280 @@
+/**
+ * Admin audit log
+ *
+ * Every /api/admin mutation records who did what with recordAdminAction().
+ * Entries are append-only and hash-chained: each hash covers the entry's
+ * content and the previous entry's hash, so editing or deleting a row is
+ * caught by verifyAuditChain().
+ *
+ * Chain writes are serialised with a transaction-scoped advisory lock so two
+ * entries can't claim the same position. Pass the caller's transaction client
+ * to record an entry atomically with the change it describes; otherwise the
+ * entry is written on its own and a failure is only logged, since the change
+ * has already happened.
+ */
+
+import { createHash } from "crypto";
+import { endOfDay } from "date-fns";
+import type { NextRequest } from "next/server";
+import { Prisma, type AuditLog, type UserRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getClientIp } from "@/lib/rateLimit";
+import type { AuditLogFilters } from "@/lib/validations/audit";
+import type { AuditAction, AuditChainResult, AuditLogView } from "@/types/audit";
+
+// prevHash of the first entry
+const GENESIS_HASH = "0".repeat(64);
+
+// pg_advisory_xact_lock key for chain writes
+const AUDIT_CHAIN_LOCK = 7342001;
+
+const VERIFY_BATCH_SIZE = 500;
+
+// Bookkeeping fields left out when comparing snapshots
+const IGNORED_DIFF_FIELDS = new Set(["updatedAt"]);
+
+type Snapshot = Record<string, unknown>;
+
+export interface AuditActor {
+  actorId: string | null;
+  actorEmail: string | null;
+  actorRole: UserRole | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: string;
+  entityId?: string | null;
+  // Full snapshots are fine: only the fields that changed are stored
+  before?: Snapshot | null;
+  after?: Snapshot | null;
+  metadata?: Snapshot;
+}
+
+type HashedFields = Omit<AuditLog, "id" | "hash">;
+
+// JSON-safe copy, matching what comes back from the database (Dates become
+// ISO strings, Decimals strings, undefined fields are dropped)
+function toJson(value: Snapshot | null | undefined): Snapshot | null {
+  return value == null ? null : JSON.parse(JSON.stringify(value));
+}
+
+// JSON with sorted keys; jsonb doesn't keep key order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const object = value as Snapshot;
+    return `{${Object.keys(object)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(object[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function hashEntry(fields: HashedFields): string {
+  return createHash("sha256")
+    .update(
+      canonicalJson({
+        ...fields,
+        createdAt: fields.createdAt.toISOString(),
+      })
+    )
+    .digest("hex");
+}
+
+// Keep only the fields whose value changed
+function diffSnapshots(
+  before: Snapshot | null,
+  after: Snapshot | null
+): { before: Snapshot | null; after: Snapshot | null } {
+  if (!before || !after) return { before, after };
+
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (IGNORED_DIFF_FIELDS.has(key)) continue;
+    if (canonicalJson(before[key]) !== canonicalJson(after[key])) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+async function appendEntry(
+  tx: Prisma.TransactionClient,
+  actor: AuditActor,
+  entry: AuditEntry
+): Promise<AuditLog> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK})`;
+
+  const last = await tx.auditLog.findFirst({
+    orderBy: { sequence: "desc" },
+    select: { sequence: true, hash: true },
+  });
+
+  const { before, after } = diffSnapshots(toJson(entry.before), toJson(entry.after));
+  const fields: HashedFields = {
+    sequence: (last?.sequence ?? 0) + 1,
+    prevHash: last?.hash ?? GENESIS_HASH,
+    ...actor,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId ?? null,
+    before: before as Prisma.JsonValue,
+    after: after as Prisma.JsonValue,
+    metadata: toJson(entry.metadata) as Prisma.JsonValue,
+    createdAt: new Date(),
+  };
+
+  return tx.auditLog.create({
+    data: {
+      ...fields,
+      before: fields.before ?? Prisma.DbNull,
+      after: fields.after ?? Prisma.DbNull,
+      metadata: fields.metadata ?? Prisma.DbNull,
+      hash: hashEntry(fields),
+    },
+  });
+}
+
+/**
+ * Who is making a request (from the headers set by the middleware)
+ */
+export function getAuditActor(request: NextRequest): AuditActor {
+  return {
+    actorId: request.headers.get("X-User-Id"),
+    actorEmail: request.headers.get("X-User-Email"),
+    actorRole: request.headers.get("X-User-Role") as UserRole | null,
+    ipAddress: getClientIp(request),
+    userAgent: request.headers.get("user-agent")?.slice(0, 500) || null,
+  };
+}
+
+/**
+ * Append an entry to the audit log
+ *
+ * @param tx - Record inside the caller's transaction (rolled back with it)
+ */
+export async function recordAuditLog(
+  actor: AuditActor,
+  entry: AuditEntry,
+  tx?: Prisma.TransactionClient
+): Promise<void> {
+  if (tx) {
+    await appendEntry(tx, actor, entry);
+    return;
+  }
+
+  try {
+    await prisma.$transaction((client) => appendEntry(client, actor, entry));
+  } catch (error) {
+    console.error(`[Audit] Failed to record ${entry.action}:`, error, { actor, entry });
+  }
+}
+
+/**
+ * Append an entry for the admin making this request
+ */
+export async function recordAdminAction(
+  request: NextRequest,
+  entry: AuditEntry,
+  tx?: Prisma.TransactionClient
+): Promise<void> {
+  await recordAuditLog(getAuditActor(request), entry, tx);
+}
+
+/**
+ * Where clause for the viewer's filters (shared by the list and CSV export)
+ */
+export function buildAuditLogWhere(filters: AuditLogFilters): Prisma.AuditLogWhereInput {
+  return {
+    ...(filters.action && { action: filters.action }),
+    ...(filters.entityType && { entityType: filters.entityType }),
+    ...(filters.entityId && { entityId: filters.entityId }),
+    ...(filters.actor && {
+      actorEmail: { contains: filters.actor, mode: "insensitive" as const },
+    }),
+    ...((filters.dateFrom || filters.dateTo) && {
+      createdAt: {
+        ...(filters.dateFrom && { gte: filters.dateFrom }),
+        ...(filters.dateTo && { lte: endOfDay(filters.dateTo) }),
+      },
+    }),
+  };
+}
+
+export function toAuditLogView(entry: AuditLog): AuditLogView {
+  return {
+    id: entry.id,
+    sequence: entry.sequence,
+    actorId: entry.actorId,
+    actorEmail: entry.actorEmail,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    before: entry.before as AuditLogView["before"],
+    after: entry.after as AuditLogView["after"],
+    metadata: entry.metadata as AuditLogView["metadata"],
+    ipAddress: entry.ipAddress,
+    userAgent: entry.userAgent,
+    createdAt: entry.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Recompute the hash chain from the first entry
+ */
+export async function verifyAuditChain(): Promise<AuditChainResult> {
+  let previous: { sequence: number; hash: string } = { sequence: 0, hash: GENESIS_HASH };
+  let checked = 0;
+
+  for (;;) {
+    const entries = await prisma.auditLog.findMany({
+      where: { sequence: { gt: previous.sequence } },
+      orderBy: { sequence: "asc" },
+      take: VERIFY_BATCH_SIZE,
+    });
+    if (entries.length === 0) break;
+
+    for (const entry of entries) {
+      const { id, hash, ...fields } = entry;
+
+      if (entry.sequence !== previous.sequence + 1) {
+        return {
+          valid: false,
+          checked,
+          brokenAt: {
+            sequence: previous.sequence + 1,
+            id: null,
+            reason: "Entry is missing",
+          },
+        };
+      }
+      if (entry.prevHash !== previous.hash) {
+        return {
+          valid: false,
+          checked,
+          brokenAt: { sequence: entry.sequence, id, reason: "Previous hash doesn't match" },
+        };
+      }
+      if (hashEntry(fields) !== hash) {
+        return {
+          valid: false,
+          checked,
+          brokenAt: { sequence: entry.sequence, id, reason: "Entry was modified" },
+        };
+      }
+
+      previous = { sequence: entry.sequence, hash };
+      checked++;
+    }
+  }
+
+  return { valid: true, checked };
+}
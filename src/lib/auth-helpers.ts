@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { tokenUtils, TokenPayload } from "./auth";
 import { UserRole } from "@prisma/client";
+import { isSessionActive } from "./session";
 
 /**
  * Auth error response
@@ -52,6 +53,20 @@ export function requireAuth(request: NextRequest): TokenPayload {
   return user;
 }
 
+/**
+ * Require authentication with a session that hasn't ended
+ * For /api/auth routes, which the middleware doesn't check
+ */
+export async function requireActiveSession(request: NextRequest): Promise<TokenPayload> {
+  const user = requireAuth(request);
+
+  if (!user.sessionId || !(await isSessionActive(user.sessionId, user.userId))) {
+    throw new AuthError("Invalid or expired token", 401);
+  }
+
+  return user;
+}
+
 /**
  * Require admin role - returns admin user or throws 403
  */
@@ -17,6 +17,12 @@ export interface TokenPayload {
   userId: string;
   email: string;
   role: UserRole;
+  sessionId: string; // Server-side session (see lib/session.ts)
+  twoFactorSetupRequired?: boolean; // Admin hasn't enrolled in 2FA yet (see lib/twoFactor.ts)
+}
+
+export interface RefreshTokenPayload extends TokenPayload {
+  tokenId: string; // Changes on every refresh; older tokens are rejected
 }
 
 export interface TokenPair {
@@ -84,7 +90,7 @@ export const tokenUtils = {
   /**
    * Generate refresh token (long-lived)
    */
-  generateRefreshToken(payload: TokenPayload): string {
+  generateRefreshToken(payload: RefreshTokenPayload): string {
     return jwt.sign(payload, JWT_REFRESH_SECRET, {
       expiresIn: JWT_REFRESH_EXPIRY,
     } as SignOptions);
@@ -93,10 +99,10 @@ export const tokenUtils = {
   /**
    * Generate both access and refresh tokens
    */
-  generateTokenPair(payload: TokenPayload): TokenPair {
+  generateTokenPair(payload: TokenPayload, tokenId: string): TokenPair {
     return {
       accessToken: this.generateAccessToken(payload),
-      refreshToken: this.generateRefreshToken(payload),
+      refreshToken: this.generateRefreshToken({ ...payload, tokenId }),
     };
   },
 
@@ -114,9 +120,9 @@ export const tokenUtils = {
   /**
    * Verify refresh token
    */
-  verifyRefreshToken(token: string): TokenPayload | null {
+  verifyRefreshToken(token: string): RefreshTokenPayload | null {
     try {
-      return jwt.verify(token, JWT_REFRESH_SECRET!) as TokenPayload;
+      return jwt.verify(token, JWT_REFRESH_SECRET!) as RefreshTokenPayload;
     } catch (error) {
       return null;
     }
@@ -6,6 +6,18 @@ const resend = new Resend(process.env.RESEND_API_KEY);
 const EMAIL_FROM = process.env.EMAIL_FROM || "PrimeWear <noreply@primewear.lk>";
 const APP_NAME = process.env.NEXT_PUBLIC_APP_NAME || "PrimeWear";
 
+/**
+ * Escape user-supplied text before embedding it in email HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
 export const emailService = {
   /**
    * Send OTP email for customer login
@@ -177,6 +189,123 @@ export const emailService = {
     }
   },
 
+  /**
+   * Send a vendor application update to the applicant
+   * (received, changes requested or rejected; approval sends the welcome email)
+   */
+  async sendVendorApplicationUpdateEmail(
+    to: string,
+    data: {
+      businessName: string;
+      event: "RECEIVED" | "CHANGES_REQUESTED" | "REJECTED";
+      note?: string | null;
+      statusLink: string;
+    }
+  ) {
+    const content = {
+      RECEIVED: {
+        subject: `${APP_NAME} - We received your seller application`,
+        heading: "Application Received",
+        message: `Thank you for applying to sell on ${APP_NAME}. Our team will review your details and documents and get back to you, usually within 2 business days.`,
+      },
+      CHANGES_REQUESTED: {
+        subject: `${APP_NAME} - Your seller application needs changes`,
+        heading: "Changes Requested",
+        message: "We reviewed your application and need a few changes before we can approve it. Please update your application and resubmit it.",
+      },
+      REJECTED: {
+        subject: `${APP_NAME} - Your seller application`,
+        heading: "Application Not Approved",
+        message: `Thank you for your interest in selling on ${APP_NAME}. Unfortunately we are unable to approve your application at this time.`,
+      },
+    }[data.event];
+
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: content.subject,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${content.heading}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">${content.heading}</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${escapeHtml(data.businessName)},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">${content.message}</p>
+              ${
+                data.note
+                  ? `
+              <!-- Reviewer Comment -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #f4f4f5; border-left: 4px solid #667eea; border-radius: 8px;">
+                    <p style="margin: 0 0 8px; color: #71717a; font-size: 14px; font-weight: 600;">Comments from our team:</p>
+                    <p style="margin: 0; color: #3f3f46; font-size: 14px; line-height: 1.5;">${escapeHtml(data.note)}</p>
+                  </td>
+                </tr>
+              </table>`
+                  : ""
+              }
+
+              <!-- CTA Button -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td align="center" style="padding: 30px 0 20px;">
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.statusLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">${data.event === "CHANGES_REQUESTED" ? "Update Application" : "View Application"}</a>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 0; color: #71717a; font-size: 14px; line-height: 1.5;">Keep this email - the link above is the only way to view your application.</p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send vendor application email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending vendor application email:", error);
+      return { success: false, error };
+    }
+  },
+
   /**
    * Send password changed notification
    */
@@ -733,30 +862,36 @@ export const emailService = {
   },
 
   /**
-   * Send order return requested email
+   * Warn customer that delivery will be confirmed automatically
    */
-  async sendOrderReturnRequestedEmail(
+  async sendOrderDeliveryAutoConfirmWarningEmail(
     to: string,
     data: {
-      recipientName: string;
+      customerName: string;
       orderNumber: string;
-      reason: string;
+      autoConfirmAt?: string;
       orderLink: string;
-      isVendor?: boolean;
     }
   ) {
+    const autoConfirmDate = data.autoConfirmAt
+      ? new Date(data.autoConfirmAt).toLocaleDateString("en-LK", {
+          dateStyle: "long",
+          timeZone: "Asia/Colombo",
+        })
+      : null;
+
     try {
       const { data: result, error } = await resend.emails.send({
         from: EMAIL_FROM,
         to,
-        subject: `${APP_NAME} - Return Request ${data.isVendor ? "Received" : "Submitted"}`,
+        subject: `${APP_NAME} - Order ${data.orderNumber} Will Be Marked as Delivered`,
         html: `
 <!DOCTYPE html>
 <html>
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Return Request ${data.isVendor ? "Received" : "Submitted"}</title>
+  <title>Delivery Will Be Confirmed Soon</title>
 </head>
 <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
   <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
@@ -773,60 +908,27 @@ export const emailService = {
           <!-- Content -->
           <tr>
             <td style="padding: 40px;">
-              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">Return Request ${data.isVendor ? "Received" : "Submitted"}</h2>
-              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.recipientName},</p>
-              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">
-                ${
-                  data.isVendor
-                    ? "A customer has requested a return for an order."
-                    : "Your return request has been submitted successfully."
-                }
-              </p>
-
-              <!-- Return Info Box -->
-              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
-                <tr>
-                  <td style="padding: 20px; background-color: #fef9ec; border-left: 4px solid #f59e0b; border-radius: 8px;">
-                    <p style="margin: 0 0 8px; color: #92400e; font-size: 14px;"><strong>Order Number:</strong> ${data.orderNumber}</p>
-                    <p style="margin: 0; color: #92400e; font-size: 14px;"><strong>Reason:</strong> ${data.reason}</p>
-                  </td>
-                </tr>
-              </table>
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">Did Your Order Arrive?</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.customerName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">Your order <strong>${data.orderNumber}</strong> was shipped a while ago and hasn't been confirmed as delivered yet. It will be confirmed automatically${autoConfirmDate ? ` on <strong>${autoConfirmDate}</strong>` : " soon"}, and payment will then be released to the vendor.</p>
 
-              ${
-                data.isVendor
-                  ? `
-              <!-- Vendor Instructions -->
+              <!-- Warning Box -->
               <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
                 <tr>
-                  <td style="padding: 20px; background-color: #eff6ff; border-left: 4px solid #3b82f6; border-radius: 8px; margin-top: 20px;">
-                    <p style="margin: 0; color: #1e40af; font-size: 14px;">Please review the return request and coordinate with the customer regarding return shipping arrangements.</p>
-                  </td>
-                </tr>
-              </table>
-              `
-                  : `
-              <!-- Customer Instructions -->
-              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
-                <tr>
-                  <td style="padding: 20px; background-color: #eff6ff; border-left: 4px solid #3b82f6; border-radius: 8px; margin-top: 20px;">
-                    <p style="margin: 0; color: #1e40af; font-size: 14px;"><strong>Note:</strong> Return shipping costs are to be paid by the customer. The vendor will contact you with return instructions.</p>
+                  <td style="padding: 20px; background-color: #fffbeb; border-left: 4px solid #f59e0b; border-radius: 8px;">
+                    <p style="margin: 0; color: #92400e; font-size: 14px;">If your order hasn't arrived or something is wrong with it, please open a dispute before this date.</p>
                   </td>
                 </tr>
               </table>
-              `
-              }
 
               <!-- CTA Button -->
               <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
                 <tr>
                   <td align="center" style="padding: 30px 0 20px;">
-                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.orderLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">View Details</a>
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.orderLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">View Order</a>
                   </td>
                 </tr>
               </table>
-
-              <p style="margin: 0; color: #71717a; font-size: 14px; line-height: 1.5;">If you have any questions, please contact our support team.</p>
             </td>
           </tr>
 
@@ -846,42 +948,45 @@ export const emailService = {
       });
 
       if (error) {
-        console.error("Failed to send order return requested email:", error);
+        console.error("Failed to send auto-confirm warning email:", error);
         return { success: false, error };
       }
 
       return { success: true, data: result };
     } catch (error) {
-      console.error("Error sending order return requested email:", error);
+      console.error("Error sending auto-confirm warning email:", error);
       return { success: false, error };
     }
   },
 
   /**
-   * Send dispute created email
+   * Send shipment exception email (failed delivery, exception, return to sender)
    */
-  async sendDisputeCreatedEmail(
+  async sendOrderShipmentExceptionEmail(
     to: string,
     data: {
       recipientName: string;
       orderNumber: string;
-      reason: string;
-      disputeLink: string;
-      isAdmin?: boolean;
+      productName?: string;
+      trackingNumber?: string;
+      statusLabel: string;
+      description?: string;
+      orderLink: string;
+      isVendor: boolean;
     }
   ) {
     try {
       const { data: result, error } = await resend.emails.send({
         from: EMAIL_FROM,
         to,
-        subject: `${APP_NAME} - ${data.isAdmin ? "New Dispute Filed" : "Dispute Submitted"} for Order ${data.orderNumber}`,
+        subject: `${APP_NAME} - Delivery Problem with Order ${data.orderNumber}`,
         html: `
 <!DOCTYPE html>
 <html>
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Dispute ${data.isAdmin ? "Filed" : "Submitted"}</title>
+  <title>Delivery Problem</title>
 </head>
 <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
   <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
@@ -898,20 +1003,25 @@ export const emailService = {
           <!-- Content -->
           <tr>
             <td style="padding: 40px;">
-              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">${data.isAdmin ? "⚠️ New Dispute Filed" : "Dispute Submitted"}</h2>
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">Delivery Problem</h2>
               <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.recipientName},</p>
-              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">${
-                data.isAdmin
-                  ? `A dispute has been filed for Order ${data.orderNumber}. Immediate review required.`
-                  : `Your dispute for Order ${data.orderNumber} has been submitted and is under review.`
-              }</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">The courier reported a problem delivering ${data.productName ? `<strong>${escapeHtml(data.productName)}</strong> from ` : ""}order <strong>${data.orderNumber}</strong>.</p>
 
-              <!-- Dispute Info Box -->
+              <!-- Tracking Info Box -->
               <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
                 <tr>
-                  <td style="padding: 20px; background-color: #fef2f2; border-left: 4px solid #ef4444; border-radius: 8px;">
-                    <p style="margin: 0 0 8px; color: #991b1b; font-size: 14px;"><strong>Order Number:</strong> ${data.orderNumber}</p>
-                    <p style="margin: 0; color: #991b1b; font-size: 14px;"><strong>Reason:</strong> ${data.reason}</p>
+                  <td style="padding: 20px; background-color: #fffbeb; border-left: 4px solid #f59e0b; border-radius: 8px;">
+                    <p style="margin: 0 0 8px; color: #92400e; font-size: 14px;"><strong>Status:</strong> ${data.statusLabel}</p>
+                    ${
+                      data.description
+                        ? `<p style="margin: 0 0 8px; color: #92400e; font-size: 14px;"><strong>Courier Update:</strong> ${escapeHtml(data.description)}</p>`
+                        : ""
+                    }
+                    ${
+                      data.trackingNumber
+                        ? `<p style="margin: 0; color: #92400e; font-size: 14px;"><strong>Tracking Number:</strong> ${escapeHtml(data.trackingNumber)}</p>`
+                        : ""
+                    }
                   </td>
                 </tr>
               </table>
@@ -920,15 +1030,15 @@ export const emailService = {
               <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
                 <tr>
                   <td align="center" style="padding: 30px 0 20px;">
-                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.disputeLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">View Dispute</a>
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.orderLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">View Order</a>
                   </td>
                 </tr>
               </table>
 
               <p style="margin: 0; color: #71717a; font-size: 14px; line-height: 1.5;">${
-                data.isAdmin
-                  ? "Please review this dispute at your earliest convenience."
-                  : "We'll review your dispute and get back to you soon."
+                data.isVendor
+                  ? "Please contact the courier or the customer to arrange redelivery."
+                  : "Please contact the courier or the vendor through order chat to arrange redelivery."
               }</p>
             </td>
           </tr>
@@ -949,42 +1059,42 @@ export const emailService = {
       });
 
       if (error) {
-        console.error("Failed to send dispute created email:", error);
+        console.error("Failed to send shipment exception email:", error);
         return { success: false, error };
       }
 
       return { success: true, data: result };
     } catch (error) {
-      console.error("Error sending dispute created email:", error);
+      console.error("Error sending shipment exception email:", error);
       return { success: false, error };
     }
   },
 
   /**
-   * Send dispute resolved email
+   * Send order return requested email
    */
-  async sendDisputeResolvedEmail(
+  async sendOrderReturnRequestedEmail(
     to: string,
     data: {
       recipientName: string;
       orderNumber: string;
-      resolutionType: string;
-      refundAmount?: number;
-      disputeLink: string;
+      reason: string;
+      orderLink: string;
+      isVendor?: boolean;
     }
   ) {
     try {
       const { data: result, error } = await resend.emails.send({
         from: EMAIL_FROM,
         to,
-        subject: `${APP_NAME} - Dispute Resolved for Order ${data.orderNumber}`,
+        subject: `${APP_NAME} - Return Request ${data.isVendor ? "Received" : "Submitted"}`,
         html: `
 <!DOCTYPE html>
 <html>
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Dispute Resolved</title>
+  <title>Return Request ${data.isVendor ? "Received" : "Submitted"}</title>
 </head>
 <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
   <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
@@ -1001,40 +1111,60 @@ export const emailService = {
           <!-- Content -->
           <tr>
             <td style="padding: 40px;">
-              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">Dispute Resolved</h2>
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">Return Request ${data.isVendor ? "Received" : "Submitted"}</h2>
               <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.recipientName},</p>
-              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">Your dispute for Order ${data.orderNumber} has been resolved.</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">
+                ${
+                  data.isVendor
+                    ? "A customer has requested a return for an order."
+                    : "Your return request has been submitted successfully."
+                }
+              </p>
 
-              <!-- Resolution Info Box -->
+              <!-- Return Info Box -->
               <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
                 <tr>
-                  <td style="padding: 20px; background-color: ${
-                    data.refundAmount ? "#f0fdf4" : "#eff6ff"
-                  }; border-left: 4px solid ${
-          data.refundAmount ? "#22c55e" : "#3b82f6"
-        }; border-radius: 8px;">
-                    <p style="margin: 0 0 8px; color: ${
-                      data.refundAmount ? "#166534" : "#1e40af"
-                    }; font-size: 14px;"><strong>Resolution:</strong> ${data.resolutionType}</p>
-                    ${
-                      data.refundAmount
-                        ? `<p style="margin: 0; color: #166534; font-size: 14px;"><strong>Refund Amount:</strong> Rs. ${data.refundAmount.toFixed(2)} credited to your wallet</p>`
-                        : ""
-                    }
+                  <td style="padding: 20px; background-color: #fef9ec; border-left: 4px solid #f59e0b; border-radius: 8px;">
+                    <p style="margin: 0 0 8px; color: #92400e; font-size: 14px;"><strong>Order Number:</strong> ${data.orderNumber}</p>
+                    <p style="margin: 0; color: #92400e; font-size: 14px;"><strong>Reason:</strong> ${data.reason}</p>
+                  </td>
+                </tr>
+              </table>
+
+              ${
+                data.isVendor
+                  ? `
+              <!-- Vendor Instructions -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #eff6ff; border-left: 4px solid #3b82f6; border-radius: 8px; margin-top: 20px;">
+                    <p style="margin: 0; color: #1e40af; font-size: 14px;">Please approve or reject the return from your Returns page. Approving it issues a return label to the customer.</p>
+                  </td>
+                </tr>
+              </table>
+              `
+                  : `
+              <!-- Customer Instructions -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #eff6ff; border-left: 4px solid #3b82f6; border-radius: 8px; margin-top: 20px;">
+                    <p style="margin: 0; color: #1e40af; font-size: 14px;"><strong>Note:</strong> Return shipping costs are to be paid by the customer. Once the seller approves your return, you can print the return label from your order page.</p>
                   </td>
                 </tr>
               </table>
+              `
+              }
 
               <!-- CTA Button -->
               <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
                 <tr>
                   <td align="center" style="padding: 30px 0 20px;">
-                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.disputeLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">View Details</a>
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.orderLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">View Details</a>
                   </td>
                 </tr>
               </table>
 
-              <p style="margin: 0; color: #71717a; font-size: 14px; line-height: 1.5;">Thank you for your patience while we reviewed this matter.</p>
+              <p style="margin: 0; color: #71717a; font-size: 14px; line-height: 1.5;">If you have any questions, please contact our support team.</p>
             </td>
           </tr>
 
@@ -1054,40 +1184,71 @@ export const emailService = {
       });
 
       if (error) {
-        console.error("Failed to send dispute resolved email:", error);
+        console.error("Failed to send order return requested email:", error);
         return { success: false, error };
       }
 
       return { success: true, data: result };
     } catch (error) {
-      console.error("Error sending dispute resolved email:", error);
+      console.error("Error sending order return requested email:", error);
       return { success: false, error };
     }
   },
 
   /**
-   * Send payout approved email
+   * Send return request update email (approved / rejected / received / escalated)
    */
-  async sendPayoutApprovedEmail(
+  async sendOrderReturnUpdateEmail(
     to: string,
     data: {
-      vendorName: string;
-      amount: number;
-      bankName: string;
+      recipientName: string;
+      event: "APPROVED" | "REJECTED" | "RECEIVED" | "ESCALATED";
+      orderNumber: string;
+      returnNumber: string;
+      vendorName?: string;
+      note?: string | null;
+      refundAmount?: number;
+      returnLink: string;
     }
   ) {
+    const seller = escapeHtml(data.vendorName || "The seller");
+    const content = {
+      APPROVED: {
+        heading: "Return Approved",
+        message: `${seller} approved your return. Print the return label from your order page, attach it to the parcel and send the items back.`,
+        action: "Get Return Label",
+      },
+      REJECTED: {
+        heading: "Return Rejected",
+        message: `${seller} rejected your return. If you disagree, you can escalate it to a dispute from your order page and our team will review it.`,
+        action: "View Order",
+      },
+      RECEIVED: {
+        heading: "Return Received",
+        message: data.refundAmount
+          ? `${seller} received your returned items. Rs. ${data.refundAmount.toFixed(2)} is being refunded to your original payment method.`
+          : `${seller} received your returned items. Your refund is being processed.`,
+        action: "View Order",
+      },
+      ESCALATED: {
+        heading: "Return Escalated to Dispute",
+        message: "The customer escalated this return to a dispute. An admin will review the case and may contact you for details.",
+        action: "View Returns",
+      },
+    }[data.event];
+
     try {
       const { data: result, error } = await resend.emails.send({
         from: EMAIL_FROM,
         to,
-        subject: `${APP_NAME} - Payout Approved`,
+        subject: `${APP_NAME} - ${content.heading} (${data.returnNumber})`,
         html: `
 <!DOCTYPE html>
 <html>
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Payout Approved</title>
+  <title>${content.heading}</title>
 </head>
 <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
   <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
@@ -1104,21 +1265,1264 @@ export const emailService = {
           <!-- Content -->
           <tr>
             <td style="padding: 40px;">
-              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">✓ Payout Approved</h2>
-              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.vendorName},</p>
-              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">Great news! Your payout request has been approved and is being processed.</p>
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">${content.heading}</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${escapeHtml(data.recipientName)},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">${content.message}</p>
 
-              <!-- Payout Info Box -->
+              <!-- Return Info Box -->
               <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
                 <tr>
-                  <td style="padding: 20px; background-color: #f0fdf4; border-left: 4px solid #22c55e; border-radius: 8px;">
-                    <p style="margin: 0 0 8px; color: #166534; font-size: 14px;"><strong>Amount:</strong> Rs. ${data.amount.toFixed(2)}</p>
-                    <p style="margin: 0; color: #166534; font-size: 14px;"><strong>Bank:</strong> ${data.bankName}</p>
-                  </td>
+                  <td style="padding: 20px; background-color: #fef9ec; border-left: 4px solid #f59e0b; border-radius: 8px;">
+                    <p style="margin: 0 0 8px; color: #92400e; font-size: 14px;"><strong>Order Number:</strong> ${data.orderNumber}</p>
+                    <p style="margin: 0; color: #92400e; font-size: 14px;"><strong>Return Number:</strong> ${data.returnNumber}</p>
+                  </td>
+                </tr>
+              </table>
+              ${
+                data.note
+                  ? `
+              <!-- Seller Comment -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #f4f4f5; border-left: 4px solid #667eea; border-radius: 8px;">
+                    <p style="margin: 0 0 8px; color: #71717a; font-size: 14px; font-weight: 600;">Comments from the seller:</p>
+                    <p style="margin: 0; color: #3f3f46; font-size: 14px; line-height: 1.5;">${escapeHtml(data.note)}</p>
+                  </td>
+                </tr>
+              </table>`
+                  : ""
+              }
+
+              <!-- CTA Button -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td align="center" style="padding: 30px 0 20px;">
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.returnLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">${content.action}</a>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 0; color: #71717a; font-size: 14px; line-height: 1.5;">If you have any questions, please contact our support team.</p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send order return update email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending order return update email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send dispute created email
+   */
+  async sendDisputeCreatedEmail(
+    to: string,
+    data: {
+      recipientName: string;
+      orderNumber: string;
+      reason: string;
+      disputeLink: string;
+      isAdmin?: boolean;
+    }
+  ) {
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - ${data.isAdmin ? "New Dispute Filed" : "Dispute Submitted"} for Order ${data.orderNumber}`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Dispute ${data.isAdmin ? "Filed" : "Submitted"}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">${data.isAdmin ? "⚠️ New Dispute Filed" : "Dispute Submitted"}</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.recipientName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">${
+                data.isAdmin
+                  ? `A dispute has been filed for Order ${data.orderNumber}. Immediate review required.`
+                  : `Your dispute for Order ${data.orderNumber} has been submitted and is under review.`
+              }</p>
+
+              <!-- Dispute Info Box -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #fef2f2; border-left: 4px solid #ef4444; border-radius: 8px;">
+                    <p style="margin: 0 0 8px; color: #991b1b; font-size: 14px;"><strong>Order Number:</strong> ${data.orderNumber}</p>
+                    <p style="margin: 0; color: #991b1b; font-size: 14px;"><strong>Reason:</strong> ${data.reason}</p>
+                  </td>
+                </tr>
+              </table>
+
+              <!-- CTA Button -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td align="center" style="padding: 30px 0 20px;">
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.disputeLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">View Dispute</a>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 0; color: #71717a; font-size: 14px; line-height: 1.5;">${
+                data.isAdmin
+                  ? "Please review this dispute at your earliest convenience."
+                  : "We'll review your dispute and get back to you soon."
+              }</p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send dispute created email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending dispute created email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send dispute resolved email
+   */
+  async sendDisputeResolvedEmail(
+    to: string,
+    data: {
+      recipientName: string;
+      orderNumber: string;
+      resolutionType: string;
+      refundAmount?: number;
+      disputeLink: string;
+    }
+  ) {
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - Dispute Resolved for Order ${data.orderNumber}`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Dispute Resolved</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">Dispute Resolved</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.recipientName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">Your dispute for Order ${data.orderNumber} has been resolved.</p>
+
+              <!-- Resolution Info Box -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: ${
+                    data.refundAmount ? "#f0fdf4" : "#eff6ff"
+                  }; border-left: 4px solid ${
+          data.refundAmount ? "#22c55e" : "#3b82f6"
+        }; border-radius: 8px;">
+                    <p style="margin: 0 0 8px; color: ${
+                      data.refundAmount ? "#166534" : "#1e40af"
+                    }; font-size: 14px;"><strong>Resolution:</strong> ${data.resolutionType}</p>
+                    ${
+                      data.refundAmount
+                        ? `<p style="margin: 0; color: #166534; font-size: 14px;"><strong>Refund Amount:</strong> Rs. ${data.refundAmount.toFixed(2)} credited to your wallet</p>`
+                        : ""
+                    }
+                  </td>
+                </tr>
+              </table>
+
+              <!-- CTA Button -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td align="center" style="padding: 30px 0 20px;">
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.disputeLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">View Details</a>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 0; color: #71717a; font-size: 14px; line-height: 1.5;">Thank you for your patience while we reviewed this matter.</p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send dispute resolved email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending dispute resolved email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send payout approved email
+   */
+  async sendPayoutApprovedEmail(
+    to: string,
+    data: {
+      vendorName: string;
+      amount: number;
+      bankName: string;
+    }
+  ) {
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - Payout Approved`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Payout Approved</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">✓ Payout Approved</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.vendorName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">Great news! Your payout request has been approved and is being processed.</p>
+
+              <!-- Payout Info Box -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #f0fdf4; border-left: 4px solid #22c55e; border-radius: 8px;">
+                    <p style="margin: 0 0 8px; color: #166534; font-size: 14px;"><strong>Amount:</strong> Rs. ${data.amount.toFixed(2)}</p>
+                    <p style="margin: 0; color: #166534; font-size: 14px;"><strong>Bank:</strong> ${data.bankName}</p>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 30px 0 0; color: #71717a; font-size: 14px; line-height: 1.5;">Funds will be transferred shortly. You'll receive a confirmation once the transfer is complete.</p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send payout approved email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending payout approved email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send payout completed email
+   */
+  async sendPayoutCompletedEmail(
+    to: string,
+    data: {
+      vendorName: string;
+      amount: number;
+      transactionRef: string;
+      bankName: string;
+    }
+  ) {
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - Payout Completed`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Payout Completed</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">🎉 Payout Completed</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.vendorName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">Your payout has been successfully transferred!</p>
+
+              <!-- Payout Info Box -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #f0fdf4; border-left: 4px solid #22c55e; border-radius: 8px;">
+                    <p style="margin: 0 0 8px; color: #166534; font-size: 14px;"><strong>Amount:</strong> Rs. ${data.amount.toFixed(2)}</p>
+                    <p style="margin: 0 0 8px; color: #166534; font-size: 14px;"><strong>Bank:</strong> ${data.bankName}</p>
+                    <p style="margin: 0; color: #166534; font-size: 14px;"><strong>Reference:</strong> ${data.transactionRef}</p>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 30px 0 0; color: #71717a; font-size: 14px; line-height: 1.5;">Please allow 1-2 business days for the funds to appear in your account.</p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send payout completed email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending payout completed email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send payout failed email
+   */
+  async sendPayoutFailedEmail(
+    to: string,
+    data: {
+      vendorName: string;
+      amount: number;
+      failureReason: string;
+    }
+  ) {
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - Payout Failed`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Payout Failed</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">Payout Failed</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.vendorName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">Unfortunately, your payout request could not be processed.</p>
+
+              <!-- Failure Info Box -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #fef2f2; border-left: 4px solid #ef4444; border-radius: 8px;">
+                    <p style="margin: 0 0 8px; color: #991b1b; font-size: 14px;"><strong>Amount:</strong> Rs. ${data.amount.toFixed(2)}</p>
+                    <p style="margin: 0; color: #991b1b; font-size: 14px;"><strong>Reason:</strong> ${data.failureReason}</p>
+                  </td>
+                </tr>
+              </table>
+
+              <!-- Refund Info -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #eff6ff; border-left: 4px solid #3b82f6; border-radius: 8px; margin-top: 20px;">
+                    <p style="margin: 0; color: #1e40af; font-size: 14px;">The amount has been returned to your available balance. You can try requesting a payout again or contact support for assistance.</p>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send payout failed email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending payout failed email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send order status override email (admin changed order status)
+   */
+  async sendOrderStatusOverrideEmail(
+    to: string,
+    data: {
+      customerName: string;
+      orderNumber: string;
+      newStatus?: string;
+      reason?: string;
+      orderLink: string;
+    }
+  ) {
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - Order ${data.orderNumber} Status Updated`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Order Status Updated</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">Order Status Updated</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.customerName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">An administrator has updated the status of Order ${data.orderNumber}.</p>
+
+              <!-- Status Info Box -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #fffbeb; border-left: 4px solid #f59e0b; border-radius: 8px;">
+                    ${
+                      data.newStatus
+                        ? `<p style="margin: 0 0 8px; color: #92400e; font-size: 14px;"><strong>New Status:</strong> ${data.newStatus.replace(/_/g, " ")}</p>`
+                        : ""
+                    }
+                    <p style="margin: 0; color: #92400e; font-size: 14px;"><strong>Reason:</strong> ${data.reason ? escapeHtml(data.reason) : "Not specified"}</p>
+                  </td>
+                </tr>
+              </table>
+
+              <!-- CTA Button -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td align="center" style="padding: 30px 0 20px;">
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.orderLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">View Order</a>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 0; color: #71717a; font-size: 14px; line-height: 1.5;">If you have any questions about this change, please contact our support team.</p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send order status override email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending order status override email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send refund completed email
+   */
+  async sendOrderRefundCompletedEmail(
+    to: string,
+    data: {
+      customerName: string;
+      orderNumber: string;
+      refundAmount?: number;
+      orderLink: string;
+    }
+  ) {
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - Refund Completed for Order ${data.orderNumber}`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Refund Completed</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">✓ Refund Completed</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.customerName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">Your refund for Order ${data.orderNumber} has been processed by our payment provider.</p>
+
+              <!-- Refund Info Box -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #f0fdf4; border-left: 4px solid #22c55e; border-radius: 8px;">
+                    ${
+                      data.refundAmount
+                        ? `<p style="margin: 0 0 8px; color: #166534; font-size: 14px;"><strong>Refund Amount:</strong> Rs. ${data.refundAmount.toFixed(2)}</p>`
+                        : ""
+                    }
+                    <p style="margin: 0; color: #166534; font-size: 14px;">The money has been returned to your original payment method. Depending on your bank it may take 5-10 working days to appear.</p>
+                  </td>
+                </tr>
+              </table>
+
+              <!-- CTA Button -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td align="center" style="padding: 30px 0 20px;">
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.orderLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">View Order</a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send refund completed email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending refund completed email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send refund failed email (admin action required)
+   */
+  async sendOrderRefundFailedEmail(
+    to: string,
+    data: {
+      recipientName: string;
+      orderNumber: string;
+      refundAmount?: number;
+      failureReason?: string;
+      orderLink: string;
+    }
+  ) {
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - Action Required: Refund Failed for Order ${data.orderNumber}`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Refund Failed</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">Refund Failed</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.recipientName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">The PayHere refund for Order ${data.orderNumber} could not be completed after repeated attempts and needs to be processed manually.</p>
+
+              <!-- Failure Info Box -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #fef2f2; border-left: 4px solid #ef4444; border-radius: 8px;">
+                    ${
+                      data.refundAmount
+                        ? `<p style="margin: 0 0 8px; color: #991b1b; font-size: 14px;"><strong>Amount:</strong> Rs. ${data.refundAmount.toFixed(2)}</p>`
+                        : ""
+                    }
+                    <p style="margin: 0; color: #991b1b; font-size: 14px;"><strong>Reason:</strong> ${data.failureReason ? escapeHtml(data.failureReason) : "Unknown error"}</p>
+                  </td>
+                </tr>
+              </table>
+
+              <!-- CTA Button -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td align="center" style="padding: 30px 0 20px;">
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.orderLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">View Order</a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send refund failed email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending refund failed email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send wishlist price drop email
+   */
+  async sendWishlistPriceDropEmail(
+    to: string,
+    data: {
+      customerName: string;
+      productName: string;
+      variantLabel?: string;
+      previousPrice?: number;
+      newPrice: number;
+      productLink: string;
+    }
+  ) {
+    const productName = escapeHtml(
+      data.variantLabel ? `${data.productName} (${data.variantLabel})` : data.productName
+    );
+
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - Price Drop: ${data.productName}`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Price Drop on Your Wishlist</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">Price Drop on Your Wishlist</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.customerName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">Good news! <strong>${productName}</strong> from your wishlist just got cheaper.</p>
+
+              <!-- Price Box -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #f0fdf4; border-left: 4px solid #22c55e; border-radius: 8px;">
+                    ${
+                      data.previousPrice
+                        ? `<p style="margin: 0 0 8px; color: #166534; font-size: 14px;"><strong>Was:</strong> <span style="text-decoration: line-through;">Rs. ${data.previousPrice.toFixed(2)}</span></p>`
+                        : ""
+                    }
+                    <p style="margin: 0; color: #166534; font-size: 14px;"><strong>Now:</strong> Rs. ${data.newPrice.toFixed(2)}</p>
+                  </td>
+                </tr>
+              </table>
+
+              <!-- CTA Button -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td align="center" style="padding: 30px 0 20px;">
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.productLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">View Product</a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send wishlist price drop email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending wishlist price drop email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send wishlist back in stock email
+   */
+  async sendWishlistBackInStockEmail(
+    to: string,
+    data: {
+      customerName: string;
+      productName: string;
+      variantLabel?: string;
+      productLink: string;
+    }
+  ) {
+    const productName = escapeHtml(
+      data.variantLabel ? `${data.productName} (${data.variantLabel})` : data.productName
+    );
+
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - Back in Stock: ${data.productName}`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Back in Stock</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">Back in Stock</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.customerName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;"><strong>${productName}</strong> from your wishlist is available again. Stock may be limited, so don't wait too long.</p>
+
+              <!-- CTA Button -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td align="center" style="padding: 10px 0 20px;">
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.productLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">Shop Now</a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send wishlist back in stock email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending wishlist back in stock email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send dispute comment added email
+   */
+  async sendDisputeCommentAddedEmail(
+    to: string,
+    data: {
+      recipientName: string;
+      orderNumber: string;
+      disputeLink: string;
+      isAdmin?: boolean;
+    }
+  ) {
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - New Comment on Dispute for Order ${data.orderNumber}`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>New Dispute Comment</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">New Comment on Dispute</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.recipientName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">${
+                data.isAdmin
+                  ? `The customer has added a comment to the dispute for Order ${data.orderNumber}.`
+                  : `An administrator has responded to your dispute for Order ${data.orderNumber}.`
+              }</p>
+
+              <!-- CTA Button -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td align="center" style="padding: 0 0 20px;">
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.disputeLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">View Dispute</a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send dispute comment email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending dispute comment email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send payout requested email (to admins)
+   */
+  async sendPayoutRequestedEmail(
+    to: string,
+    data: {
+      recipientName: string;
+      vendorName: string;
+      amount?: number;
+      payoutLink: string;
+    }
+  ) {
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - New Payout Request from ${data.vendorName}`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Payout Requested</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">New Payout Request</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.recipientName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">${data.vendorName} has requested a payout. Please review and process the request.</p>
+
+              <!-- Payout Info Box -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #eff6ff; border-left: 4px solid #3b82f6; border-radius: 8px;">
+                    <p style="margin: 0 0 8px; color: #1e40af; font-size: 14px;"><strong>Vendor:</strong> ${data.vendorName}</p>
+                    <p style="margin: 0; color: #1e40af; font-size: 14px;"><strong>Amount:</strong> ${data.amount ? `Rs. ${data.amount.toFixed(2)}` : "See payout details"}</p>
+                  </td>
+                </tr>
+              </table>
+
+              <!-- CTA Button -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td align="center" style="padding: 30px 0 20px;">
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.payoutLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">Review Payout</a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send payout requested email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending payout requested email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send new chat message email
+   */
+  async sendChatMessageEmail(
+    to: string,
+    data: {
+      recipientName: string;
+      senderName: string;
+      messagePreview: string;
+      chatLink: string;
+    }
+  ) {
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - New message from ${data.senderName}`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>New Message</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">New Message</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.recipientName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">You have a new message from ${escapeHtml(data.senderName)}.</p>
+
+              <!-- Message Preview Box -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #f4f4f5; border-left: 4px solid #a855f7; border-radius: 8px;">
+                    <p style="margin: 0; color: #3f3f46; font-size: 14px; line-height: 1.5;">${escapeHtml(data.messagePreview)}</p>
+                  </td>
                 </tr>
               </table>
 
-              <p style="margin: 30px 0 0; color: #71717a; font-size: 14px; line-height: 1.5;">Funds will be transferred shortly. You'll receive a confirmation once the transfer is complete.</p>
+              <!-- CTA Button -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td align="center" style="padding: 30px 0 20px;">
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.chatLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">Reply</a>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 0; color: #71717a; font-size: 14px; line-height: 1.5;">You are receiving this because chat emails are enabled in your notification preferences.</p>
             </td>
           </tr>
 
@@ -1138,41 +2542,41 @@ export const emailService = {
       });
 
       if (error) {
-        console.error("Failed to send payout approved email:", error);
+        console.error("Failed to send chat message email:", error);
         return { success: false, error };
       }
 
       return { success: true, data: result };
     } catch (error) {
-      console.error("Error sending payout approved email:", error);
+      console.error("Error sending chat message email:", error);
       return { success: false, error };
     }
   },
 
   /**
-   * Send payout completed email
+   * Send product question email (to vendor)
    */
-  async sendPayoutCompletedEmail(
+  async sendProductQuestionAskedEmail(
     to: string,
     data: {
       vendorName: string;
-      amount: number;
-      transactionRef: string;
-      bankName: string;
+      productName: string;
+      question: string;
+      questionsLink: string;
     }
   ) {
     try {
       const { data: result, error } = await resend.emails.send({
         from: EMAIL_FROM,
         to,
-        subject: `${APP_NAME} - Payout Completed`,
+        subject: `${APP_NAME} - New question about ${data.productName}`,
         html: `
 <!DOCTYPE html>
 <html>
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Payout Completed</title>
+  <title>New Product Question</title>
 </head>
 <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
   <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
@@ -1189,22 +2593,29 @@ export const emailService = {
           <!-- Content -->
           <tr>
             <td style="padding: 40px;">
-              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">🎉 Payout Completed</h2>
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">New Product Question</h2>
               <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.vendorName},</p>
-              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">Your payout has been successfully transferred!</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">A shopper asked a question about <strong>${escapeHtml(data.productName)}</strong>. Answered questions appear on the product page and help other shoppers decide.</p>
 
-              <!-- Payout Info Box -->
+              <!-- Question Box -->
               <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
                 <tr>
-                  <td style="padding: 20px; background-color: #f0fdf4; border-left: 4px solid #22c55e; border-radius: 8px;">
-                    <p style="margin: 0 0 8px; color: #166534; font-size: 14px;"><strong>Amount:</strong> Rs. ${data.amount.toFixed(2)}</p>
-                    <p style="margin: 0 0 8px; color: #166534; font-size: 14px;"><strong>Bank:</strong> ${data.bankName}</p>
-                    <p style="margin: 0; color: #166534; font-size: 14px;"><strong>Reference:</strong> ${data.transactionRef}</p>
+                  <td style="padding: 20px; background-color: #f4f4f5; border-left: 4px solid #a855f7; border-radius: 8px;">
+                    <p style="margin: 0; color: #3f3f46; font-size: 14px; line-height: 1.5;">${escapeHtml(data.question)}</p>
                   </td>
                 </tr>
               </table>
 
-              <p style="margin: 30px 0 0; color: #71717a; font-size: 14px; line-height: 1.5;">Please allow 1-2 business days for the funds to appear in your account.</p>
+              <!-- CTA Button -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td align="center" style="padding: 30px 0 20px;">
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.questionsLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">Answer Question</a>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 0; color: #71717a; font-size: 14px; line-height: 1.5;">Contact details are masked in questions and answers. Please keep the conversation on ${APP_NAME}.</p>
             </td>
           </tr>
 
@@ -1224,40 +2635,43 @@ export const emailService = {
       });
 
       if (error) {
-        console.error("Failed to send payout completed email:", error);
+        console.error("Failed to send product question email:", error);
         return { success: false, error };
       }
 
       return { success: true, data: result };
     } catch (error) {
-      console.error("Error sending payout completed email:", error);
+      console.error("Error sending product question email:", error);
       return { success: false, error };
     }
   },
 
   /**
-   * Send payout failed email
+   * Send product question answered email (to customer)
    */
-  async sendPayoutFailedEmail(
+  async sendProductQuestionAnsweredEmail(
     to: string,
     data: {
+      customerName: string;
       vendorName: string;
-      amount: number;
-      failureReason: string;
+      productName: string;
+      question: string;
+      answer: string;
+      productLink: string;
     }
   ) {
     try {
       const { data: result, error } = await resend.emails.send({
         from: EMAIL_FROM,
         to,
-        subject: `${APP_NAME} - Payout Failed`,
+        subject: `${APP_NAME} - Your question about ${data.productName} was answered`,
         html: `
 <!DOCTYPE html>
 <html>
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Payout Failed</title>
+  <title>Your Question Was Answered</title>
 </head>
 <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
   <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
@@ -1274,25 +2688,25 @@ export const emailService = {
           <!-- Content -->
           <tr>
             <td style="padding: 40px;">
-              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">Payout Failed</h2>
-              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.vendorName},</p>
-              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">Unfortunately, your payout request could not be processed.</p>
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">Your Question Was Answered</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.customerName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">${escapeHtml(data.vendorName)} answered your question about <strong>${escapeHtml(data.productName)}</strong>.</p>
 
-              <!-- Failure Info Box -->
+              <!-- Q&A Box -->
               <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
                 <tr>
-                  <td style="padding: 20px; background-color: #fef2f2; border-left: 4px solid #ef4444; border-radius: 8px;">
-                    <p style="margin: 0 0 8px; color: #991b1b; font-size: 14px;"><strong>Amount:</strong> Rs. ${data.amount.toFixed(2)}</p>
-                    <p style="margin: 0; color: #991b1b; font-size: 14px;"><strong>Reason:</strong> ${data.failureReason}</p>
+                  <td style="padding: 20px; background-color: #f4f4f5; border-left: 4px solid #a855f7; border-radius: 8px;">
+                    <p style="margin: 0 0 10px; color: #71717a; font-size: 14px; line-height: 1.5;"><strong>Q:</strong> ${escapeHtml(data.question)}</p>
+                    <p style="margin: 0; color: #3f3f46; font-size: 14px; line-height: 1.5;"><strong>A:</strong> ${escapeHtml(data.answer)}</p>
                   </td>
                 </tr>
               </table>
 
-              <!-- Refund Info -->
+              <!-- CTA Button -->
               <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
                 <tr>
-                  <td style="padding: 20px; background-color: #eff6ff; border-left: 4px solid #3b82f6; border-radius: 8px; margin-top: 20px;">
-                    <p style="margin: 0; color: #1e40af; font-size: 14px;">The amount has been returned to your available balance. You can try requesting a payout again or contact support for assistance.</p>
+                  <td align="center" style="padding: 30px 0 20px;">
+                    <a href="${process.env.NEXT_PUBLIC_APP_URL}${data.productLink}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">View Product</a>
                   </td>
                 </tr>
               </table>
@@ -1315,13 +2729,180 @@ export const emailService = {
       });
 
       if (error) {
-        console.error("Failed to send payout failed email:", error);
+        console.error("Failed to send product question answered email:", error);
         return { success: false, error };
       }
 
       return { success: true, data: result };
     } catch (error) {
-      console.error("Error sending payout failed email:", error);
+      console.error("Error sending product question answered email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send system announcement email
+   */
+  async sendSystemAnnouncementEmail(
+    to: string,
+    data: {
+      recipientName: string;
+      title: string;
+      message: string;
+      link?: string | null;
+    }
+  ) {
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - ${data.title}`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(data.title)}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">${escapeHtml(data.title)}</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.recipientName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5; white-space: pre-line;">${escapeHtml(data.message)}</p>
+              ${
+                data.link
+                  ? `<table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td align="center" style="padding: 0 0 20px;">
+                    <a href="${data.link.startsWith("http") ? data.link : `${process.env.NEXT_PUBLIC_APP_URL}${data.link}`}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">Learn More</a>
+                  </td>
+                </tr>
+              </table>`
+                  : ""
+              }
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send system announcement email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending system announcement email:", error);
+      return { success: false, error };
+    }
+  },
+
+  /**
+   * Send scheduled maintenance email
+   */
+  async sendSystemMaintenanceEmail(
+    to: string,
+    data: {
+      recipientName: string;
+      message: string;
+      maintenanceWindow?: string;
+    }
+  ) {
+    try {
+      const { data: result, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to,
+        subject: `${APP_NAME} - Scheduled Maintenance`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Scheduled Maintenance</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">${APP_NAME}</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; color: #18181b; font-size: 24px; font-weight: 600;">Scheduled Maintenance</h2>
+              <p style="margin: 0 0 20px; color: #52525b; font-size: 16px; line-height: 1.5;">Hi ${data.recipientName},</p>
+              <p style="margin: 0 0 30px; color: #52525b; font-size: 16px; line-height: 1.5;">${escapeHtml(data.message)}</p>
+
+              <!-- Maintenance Info Box -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+                <tr>
+                  <td style="padding: 20px; background-color: #fffbeb; border-left: 4px solid #f59e0b; border-radius: 8px;">
+                    <p style="margin: 0; color: #92400e; font-size: 14px;"><strong>Window:</strong> ${data.maintenanceWindow ? escapeHtml(data.maintenanceWindow) : "To be announced"}</p>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 30px 0 0; color: #71717a; font-size: 14px; line-height: 1.5;">Some features may be temporarily unavailable during this time. We apologise for any inconvenience.</p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; color: #a1a1aa; font-size: 12px; border-top: 1px solid #e4e4e7;">
+              <p style="margin: 0;">© ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+        `,
+      });
+
+      if (error) {
+        console.error("Failed to send system maintenance email:", error);
+        return { success: false, error };
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Error sending system maintenance email:", error);
       return { success: false, error };
     }
   },
@@ -0,0 +1,291 @@
+/**
+ * Background job catalog
+ *
+ * Recurring platform jobs are executed by the scheduler in the Socket.io
+ * server (server/jobs/scheduler.ts). Only the leader instance runs jobs; the
+ * scheduler keeps each job's next run time in Redis and records every run as
+ * a JobRun row. This module is shared by the scheduler and the admin jobs API.
+ *
+ * Configuration (env):
+ *   TRACKING_POLL_INTERVAL_MS           - Carrier tracking poll (default: 6 hours, needs AFTERSHIP_API_KEY)
+ *   RESERVATION_SWEEP_INTERVAL_MS       - Unpaid order cancellation (default: 1 minute)
+ *   REFUND_RETRY_INTERVAL_MS            - PayHere refund retries (default: 1 minute)
+ *   DEFERRED_EMAIL_INTERVAL_MS          - Quiet-hours email sender (default: 1 minute)
+ *   NOTIFICATION_CLEANUP_INTERVAL_MS    - Expired notification cleanup (default: 1 day)
+ *   OTP_PURGE_INTERVAL_MS               - Expired OTP purge (default: 1 hour)
+ *   DELIVERY_AUTO_CONFIRM_INTERVAL_MS   - Automatic delivery confirmation (default: 1 hour)
+ *   MAINTENANCE_ANNOUNCE_INTERVAL_MS    - Scheduled maintenance announcements (default: 5 minutes)
+ *   IMAGE_CLEANUP_INTERVAL_MS           - Orphaned image cleanup (default: 1 day)
+ *   SEARCH_INDEX_INTERVAL_MS            - Index products missing from the search index (default: 15 minutes)
+ *   WISHLIST_ALERT_INTERVAL_MS          - Wishlist price drop / back in stock alerts (default: 1 hour)
+ *   PRODUCT_STATS_INTERVAL_MS           - Product/vendor rating and sales aggregate rebuild (default: 1 day)
+ *   SHOP_SCHEDULE_INTERVAL_MS           - Scheduled shop holidays and automatic reopening (default: 5 minutes)
+ *   SESSION_PURGE_INTERVAL_MS           - Ended login session purge (default: 1 day)
+ *   JOB_MAX_ATTEMPTS                    - Tries per run before waiting for the next interval (default: 3)
+ *   JOB_RETRY_BASE_MS                   - First retry delay, doubled on each attempt (default: 30 seconds)
+ */
+
+import type { JobRunStatus } from "@prisma/client";
+
+export const JOB_NAMES = [
+  "tracking-poll",
+  "reservation-sweep",
+  "refund-retry",
+  "deferred-emails",
+  "notification-cleanup",
+  "otp-purge",
+  "delivery-auto-confirm",
+  "maintenance-announce",
+  "image-cleanup",
+  "search-index",
+  "wishlist-alerts",
+  "product-stats",
+  "shop-schedule",
+  "session-purge",
+] as const;
+
+export type JobName = (typeof JOB_NAMES)[number];
+
+export interface JobConfig {
+  description: string;
+  intervalMs: number;
+  enabled: boolean;
+}
+
+const intervalFromEnv = (value: string | undefined, fallbackMs: number) =>
+  parseInt(value ?? String(fallbackMs), 10) || fallbackMs;
+
+export const JOBS: Record<JobName, JobConfig> = {
+  "tracking-poll": {
+    description: "Fetch AfterShip checkpoints for shipped items and release escrow on delivery",
+    intervalMs: intervalFromEnv(process.env.TRACKING_POLL_INTERVAL_MS, 21600000), // 6 hours
+    enabled: Boolean(process.env.AFTERSHIP_API_KEY),
+  },
+  "reservation-sweep": {
+    description: "Cancel unpaid orders whose stock hold has expired",
+    intervalMs: intervalFromEnv(process.env.RESERVATION_SWEEP_INTERVAL_MS, 60000), // 1 minute
+    enabled: true,
+  },
+  "refund-retry": {
+    description: "Re-send PayHere refunds that failed with a retryable error",
+    intervalMs: intervalFromEnv(process.env.REFUND_RETRY_INTERVAL_MS, 60000), // 1 minute
+    enabled: true,
+  },
+  "deferred-emails": {
+    description: "Send notification emails held back during quiet hours",
+    intervalMs: intervalFromEnv(process.env.DEFERRED_EMAIL_INTERVAL_MS, 60000), // 1 minute
+    enabled: true,
+  },
+  "notification-cleanup": {
+    description: "Delete notifications past their expiry date",
+    intervalMs: intervalFromEnv(process.env.NOTIFICATION_CLEANUP_INTERVAL_MS, 86400000), // 1 day
+    enabled: true,
+  },
+  "otp-purge": {
+    description: "Delete expired OTP audit records",
+    intervalMs: intervalFromEnv(process.env.OTP_PURGE_INTERVAL_MS, 3600000), // 1 hour
+    enabled: true,
+  },
+  "delivery-auto-confirm": {
+    description: "Confirm delivery of shipped orders the customer never confirmed",
+    intervalMs: intervalFromEnv(process.env.DELIVERY_AUTO_CONFIRM_INTERVAL_MS, 3600000), // 1 hour
+    enabled: true,
+  },
+  "maintenance-announce": {
+    description: "Notify all users of maintenance windows whose notice period has started",
+    intervalMs: intervalFromEnv(process.env.MAINTENANCE_ANNOUNCE_INTERVAL_MS, 300000), // 5 minutes
+    enabled: true,
+  },
+  "image-cleanup": {
+    description: "Delete uploaded images that nothing refers to",
+    intervalMs: intervalFromEnv(process.env.IMAGE_CLEANUP_INTERVAL_MS, 86400000), // 1 day
+    enabled: true,
+  },
+  "search-index": {
+    description: "Add products that have never been indexed to the search index",
+    intervalMs: intervalFromEnv(process.env.SEARCH_INDEX_INTERVAL_MS, 900000), // 15 minutes
+    enabled: true,
+  },
+  "wishlist-alerts": {
+    description: "Notify customers of price drops and restocks on wishlisted products",
+    intervalMs: intervalFromEnv(process.env.WISHLIST_ALERT_INTERVAL_MS, 3600000), // 1 hour
+    enabled: true,
+  },
+  "product-stats": {
+    description: "Rebuild product and vendor ratings and 30 day sales counts",
+    intervalMs: intervalFromEnv(process.env.PRODUCT_STATS_INTERVAL_MS, 86400000), // 1 day
+    enabled: true,
+  },
+  "shop-schedule": {
+    description: "Close shops whose holiday has started and reopen shops due to reopen",
+    intervalMs: intervalFromEnv(process.env.SHOP_SCHEDULE_INTERVAL_MS, 300000), // 5 minutes
+    enabled: true,
+  },
+  "session-purge": {
+    description: "Delete login sessions that expired or were revoked over 30 days ago",
+    intervalMs: intervalFromEnv(process.env.SESSION_PURGE_INTERVAL_MS, 86400000), // 1 day
+    enabled: true,
+  },
+};
+
+export const JOB_MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || "3", 10);
+const JOB_RETRY_BASE_MS = parseInt(process.env.JOB_RETRY_BASE_MS || "30000", 10);
+
+// Redis keys shared by the scheduler and the admin API
+export const JOB_KEYS = {
+  leader: "jobs:leader", // Instance ID of the scheduler leader (lease, renewed every tick)
+  state: "jobs:state", // Hash: job name → JobState JSON
+  triggers: "jobs:triggers", // List of queued manual runs (JobTrigger JSON)
+};
+
+/**
+ * Schedule of a job as persisted by the scheduler leader
+ */
+export interface JobState {
+  nextRunAt: string; // ISO timestamp
+  attempt: number; // Attempt number of the next run (1 unless retrying)
+}
+
+/**
+ * Manual run requested by an admin
+ */
+export interface JobTrigger {
+  jobName: JobName;
+  requestedBy: string;
+  requestedAt: string;
+}
+
+export interface JobStatus {
+  name: JobName;
+  description: string;
+  intervalMs: number;
+  enabled: boolean;
+  running: boolean;
+  nextRunAt: string | null;
+  attempt: number;
+  lastRun: {
+    id: string;
+    status: JobRunStatus;
+    trigger: string;
+    attempt: number;
+    startedAt: Date;
+    finishedAt: Date | null;
+    durationMs: number | null;
+    error: string | null;
+  } | null;
+}
+
+export function isJobName(value: string): value is JobName {
+  return (JOB_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Delay before retrying a failed run: base, 2×base, 4×base, ...
+ *
+ * @param attempt - Attempt number that just failed (1-based)
+ */
+export function getJobRetryDelay(attempt: number): number {
+  return JOB_RETRY_BASE_MS * 2 ** (attempt - 1);
+}
+
+/**
+ * Parse the scheduler's Redis state hash, ignoring unknown or corrupt entries
+ */
+export function parseJobStates(
+  raw: Record<string, string>
+): Partial<Record<JobName, JobState>> {
+  const states: Partial<Record<JobName, JobState>> = {};
+
+  for (const [name, value] of Object.entries(raw)) {
+    if (!isJobName(name)) continue;
+    try {
+      states[name] = JSON.parse(value) as JobState;
+    } catch {
+      // Skip — the scheduler rewrites the entry after the job's next run
+    }
+  }
+
+  return states;
+}
+
+/**
+ * Get the schedule and most recent run of every job
+ */
+export async function getJobStatuses(): Promise<JobStatus[]> {
+  const { redis } = await import("@/lib/redis");
+  const { prisma } = await import("@/lib/prisma");
+
+  const [rawStates, lastRuns] = await Promise.all([
+    redis.hgetall(JOB_KEYS.state),
+    prisma.jobRun.findMany({
+      distinct: ["jobName"],
+      orderBy: { startedAt: "desc" },
+      select: {
+        id: true,
+        jobName: true,
+        status: true,
+        trigger: true,
+        attempt: true,
+        startedAt: true,
+        finishedAt: true,
+        durationMs: true,
+        error: true,
+      },
+    }),
+  ]);
+
+  const states = parseJobStates(rawStates);
+
+  return JOB_NAMES.map((name) => {
+    const state = states[name];
+    const lastRun = lastRuns.find((run) => run.jobName === name);
+
+    return {
+      name,
+      ...JOBS[name],
+      running: lastRun?.status === "RUNNING",
+      nextRunAt: state?.nextRunAt ?? null,
+      attempt: state?.attempt ?? 1,
+      lastRun: lastRun
+        ? {
+            id: lastRun.id,
+            status: lastRun.status,
+            trigger: lastRun.trigger,
+            attempt: lastRun.attempt,
+            startedAt: lastRun.startedAt,
+            finishedAt: lastRun.finishedAt,
+            durationMs: lastRun.durationMs,
+            error: lastRun.error,
+          }
+        : null,
+    };
+  });
+}
+
+/**
+ * Get the instance ID of the current scheduler leader (null if no socket
+ * server is running jobs)
+ */
+export async function getJobLeader(): Promise<string | null> {
+  const { redis } = await import("@/lib/redis");
+  return redis.get(JOB_KEYS.leader);
+}
+
+/**
+ * Queue a manual run; the scheduler leader picks it up on its next tick
+ */
+export async function requestJobRun(
+  jobName: JobName,
+  requestedBy: string
+): Promise<JobTrigger> {
+  const { redis } = await import("@/lib/redis");
+
+  const trigger: JobTrigger = {
+    jobName,
+    requestedBy,
+    requestedAt: new Date().toISOString(),
+  };
+
+  await redis.rpush(JOB_KEYS.triggers, JSON.stringify(trigger));
+  return trigger;
+}
@@ -0,0 +1,157 @@
+/**
+ * Maintenance mode
+ *
+ * The platform is in maintenance while the maintenance_mode setting is
+ * enabled (manual switch) or a scheduled MaintenanceWindow is in progress.
+ * During maintenance the middleware serves the maintenance page to
+ * storefront and customer routes; admins and payment/courier webhooks keep
+ * working.
+ *
+ * Scheduled windows are announced to every active user (SYSTEM_MAINTENANCE
+ * notification, socket + email) noticeHours before they start by the
+ * maintenance-announce background job.
+ */
+
+import type { MaintenanceWindow } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getSetting } from "@/lib/settings";
+import { createNotification } from "@/lib/notifications/notificationService";
+import { generateNotificationContent } from "@/lib/notifications/notificationTemplates";
+import { NotificationType } from "@/types/notification";
+
+export interface MaintenanceStatus {
+  active: boolean;
+  source: "manual" | "scheduled" | null;
+  message: string | null;
+  endsAt: string | null; // ISO timestamp, null if manual or not active
+}
+
+export const DEFAULT_MAINTENANCE_MESSAGE =
+  "PrimeWear is undergoing scheduled maintenance. We'll be back shortly.";
+
+/**
+ * Describe a window for notifications ("Oct 24, 2026, 2:00 AM – 4:00 AM")
+ */
+export function formatMaintenanceWindow(window: { startsAt: Date; endsAt: Date }): string {
+  const options: Intl.DateTimeFormatOptions = {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: "Asia/Colombo",
+  };
+  return `${window.startsAt.toLocaleString("en-LK", options)} – ${window.endsAt.toLocaleString("en-LK", options)}`;
+}
+
+/**
+ * Current maintenance state (manual switch first, then scheduled windows)
+ */
+export async function getMaintenanceStatus(): Promise<MaintenanceStatus> {
+  const manual = await getSetting("maintenance_mode");
+
+  if (manual.enabled) {
+    return {
+      active: true,
+      source: "manual",
+      message: manual.message || DEFAULT_MAINTENANCE_MESSAGE,
+      endsAt: null,
+    };
+  }
+
+  const now = new Date();
+  const window = await prisma.maintenanceWindow.findFirst({
+    where: {
+      cancelledAt: null,
+      startsAt: { lte: now },
+      endsAt: { gt: now },
+    },
+    orderBy: { endsAt: "desc" },
+  });
+
+  if (!window) {
+    return { active: false, source: null, message: null, endsAt: null };
+  }
+
+  return {
+    active: true,
+    source: "scheduled",
+    message: window.message || DEFAULT_MAINTENANCE_MESSAGE,
+    endsAt: window.endsAt.toISOString(),
+  };
+}
+
+/**
+ * Broadcast a SYSTEM_MAINTENANCE notification for one window to every
+ * active user
+ *
+ * @returns Number of users notified
+ */
+async function broadcastMaintenanceWindow(window: MaintenanceWindow): Promise<number> {
+  const maintenanceWindow = formatMaintenanceWindow(window);
+  const content = generateNotificationContent(NotificationType.SYSTEM_MAINTENANCE, {
+    maintenanceWindow,
+  });
+  const message = window.message ? `${content.message} ${window.message}` : content.message;
+
+  const users = await prisma.user.findMany({
+    where: { isActive: true },
+    select: { id: true },
+  });
+
+  let notified = 0;
+
+  for (const user of users) {
+    const notification = await createNotification({
+      userId: user.id,
+      type: NotificationType.SYSTEM_MAINTENANCE,
+      message,
+      metadata: { maintenanceWindow },
+    });
+    if (notification) notified++;
+  }
+
+  return notified;
+}
+
+/**
+ * Announce every window whose notice period has started. Run by the
+ * maintenance-announce background job.
+ *
+ * @returns Number of windows announced and users notified
+ */
+export async function announceUpcomingMaintenance(): Promise<{
+  announced: number;
+  notified: number;
+}> {
+  const now = new Date();
+
+  const candidates = await prisma.maintenanceWindow.findMany({
+    where: {
+      cancelledAt: null,
+      announcedAt: null,
+      endsAt: { gt: now },
+    },
+    orderBy: { startsAt: "asc" },
+  });
+
+  const totals = { announced: 0, notified: 0 };
+
+  for (const window of candidates) {
+    const noticeStartsAt = new Date(window.startsAt.getTime() - window.noticeHours * 3600000);
+    if (noticeStartsAt > now) continue;
+
+    // Claim the window so a retried run never announces it twice
+    const claimed = await prisma.maintenanceWindow.updateMany({
+      where: { id: window.id, announcedAt: null, cancelledAt: null },
+      data: { announcedAt: now },
+    });
+    if (claimed.count === 0) continue;
+
+    totals.announced++;
+    totals.notified += await broadcastMaintenanceWindow(window);
+
+    console.log(
+      `[Maintenance] Announced window ${window.id} (${formatMaintenanceWindow(window)})`
+    );
+  }
+
+  return totals;
+}
@@ -17,6 +17,10 @@ import {
   ShoppingBag,
   Percent,
   MessageSquare,
+  HelpCircle,
+  ClipboardCheck,
+  ScrollText,
+  RotateCcw,
 } from "lucide-react";
 
 export interface NavItem {
@@ -38,6 +42,11 @@ export const adminNavItems: NavItem[] = [
     href: "/admin/vendors",
     icon: Users,
   },
+  {
+    label: "Vendor Applications",
+    href: "/admin/vendor-applications",
+    icon: ClipboardCheck,
+  },
   {
     label: "Categories",
     href: "/admin/categories",
@@ -83,11 +92,21 @@ export const adminNavItems: NavItem[] = [
     href: "/admin/reviews",
     icon: Star,
   },
+  {
+    label: "Product Q&A",
+    href: "/admin/questions",
+    icon: HelpCircle,
+  },
   {
     label: "Reports",
     href: "/admin/reports",
     icon: BarChart3,
   },
+  {
+    label: "Audit Log",
+    href: "/admin/audit-log",
+    icon: ScrollText,
+  },
   {
     label: "Settings",
     href: "/admin/settings",
@@ -111,6 +130,11 @@ export const vendorNavItems: NavItem[] = [
     href: "/vendor/orders",
     icon: ShoppingCart,
   },
+  {
+    label: "Returns",
+    href: "/vendor/returns",
+    icon: RotateCcw,
+  },
   {
     label: "Coupons",
     href: "/vendor/coupons",
@@ -126,6 +150,11 @@ export const vendorNavItems: NavItem[] = [
     href: "/vendor/reviews",
     icon: Star,
   },
+  {
+    label: "Questions",
+    href: "/vendor/questions",
+    icon: HelpCircle,
+  },
   {
     label: "Settings",
     href: "/vendor/settings",
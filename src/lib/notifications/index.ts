@@ -4,3 +4,4 @@
 export * from "./notificationService";
 export * from "./notificationTemplates";
 export * from "./notificationBroadcast";
+export * from "./notificationEmail";
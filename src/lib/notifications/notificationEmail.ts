@@ -0,0 +1,562 @@
+// Notification Emails
+// Maps every notification type to its email template, applies email
+// preferences and quiet hours, and queues deferred emails in Redis
+
+import { prisma } from "@/lib/prisma";
+import { emailService } from "@/lib/email";
+import {
+  NotificationType,
+  NotificationCategory,
+  NOTIFICATION_CONFIGS,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type NotificationMetadata,
+  type NotificationPreferences,
+} from "@/types/notification";
+import { TRACKING_STATUS_LABELS } from "@/lib/tracking/carriers";
+import type { NotificationPreference, TrackingEventStatus } from "@prisma/client";
+
+// ==================== TYPES ====================
+
+export interface NotificationEmailContent {
+  title: string;
+  message: string;
+  link: string | null;
+}
+
+export interface DeferredNotificationEmail {
+  type: NotificationType;
+  userId: string;
+  metadata?: NotificationMetadata;
+  content: NotificationEmailContent;
+  queuedAt: string;
+}
+
+export type EmailDecision =
+  | { action: "send" }
+  | { action: "defer"; sendAt: Date }
+  | { action: "skip"; reason: string };
+
+interface EmailRecipient {
+  email: string;
+  name: string;
+}
+
+type EmailResult = { success: boolean; error?: unknown };
+
+type NotificationEmailSender = (
+  to: EmailRecipient,
+  metadata: NotificationMetadata,
+  content: NotificationEmailContent
+) => Promise<EmailResult>;
+
+// ==================== CONSTANTS ====================
+
+// Sorted set of deferred emails, scored by send time (ms)
+const DEFERRED_EMAIL_QUEUE_KEY = "notifications:email:deferred";
+
+// Quiet hours are stored in Sri Lankan time (UTC+05:30, no DST)
+const SRI_LANKA_UTC_OFFSET_MINUTES = 330;
+
+const DEFAULT_QUIET_HOURS_START = 22;
+const DEFAULT_QUIET_HOURS_END = 7;
+
+// ==================== TEMPLATE MAPPING ====================
+
+/**
+ * Email sender for every notification type
+ * Record<NotificationType, ...> makes adding a type without an email a type error.
+ */
+const NOTIFICATION_EMAIL_SENDERS: Record<NotificationType, NotificationEmailSender> = {
+  // ==================== ORDERS ====================
+  [NotificationType.ORDER_PAYMENT_CONFIRMED]: (to, metadata, content) =>
+    emailService.sendOrderPaymentConfirmedEmail(to.email, {
+      customerName: to.name,
+      orderNumber: metadata.orderNumber || "#N/A",
+      amount: metadata.amount ?? 0,
+      orderLink: content.link || `/orders/${metadata.orderId}`,
+    }),
+
+  [NotificationType.ORDER_CANCELLED]: (to, metadata, content) =>
+    emailService.sendOrderCancelledEmail(to.email, {
+      customerName: to.name,
+      orderNumber: metadata.orderNumber || "#N/A",
+      refundAmount: metadata.refundAmount ?? metadata.amount,
+      orderLink: content.link || `/orders/${metadata.orderId}`,
+    }),
+
+  [NotificationType.ORDER_DELIVERY_CONFIRMED]: (to, metadata, content) =>
+    emailService.sendOrderDeliveryConfirmedEmail(to.email, {
+      customerName: to.name,
+      orderNumber: metadata.orderNumber || "#N/A",
+      orderLink: content.link || `/orders/${metadata.orderId}`,
+    }),
+
+  [NotificationType.ORDER_DELIVERY_AUTO_CONFIRM_WARNING]: (to, metadata, content) =>
+    emailService.sendOrderDeliveryAutoConfirmWarningEmail(to.email, {
+      customerName: to.name,
+      orderNumber: metadata.orderNumber || "#N/A",
+      autoConfirmAt: metadata.autoConfirmAt,
+      orderLink: content.link || `/orders/${metadata.orderId}`,
+    }),
+
+  [NotificationType.ORDER_SHIPMENT_EXCEPTION]: (to, metadata, content) =>
+    emailService.sendOrderShipmentExceptionEmail(to.email, {
+      recipientName: to.name,
+      orderNumber: metadata.orderNumber || "#N/A",
+      productName: metadata.productName,
+      trackingNumber: metadata.trackingNumber,
+      statusLabel:
+        TRACKING_STATUS_LABELS[metadata.trackingStatus as TrackingEventStatus] ??
+        "Delivery problem",
+      description: metadata.reason,
+      orderLink: content.link || `/orders/${metadata.orderId}`,
+      isVendor: metadata.recipientRole === "VENDOR",
+    }),
+
+  [NotificationType.ORDER_RETURN_REQUESTED]: (to, metadata, content) =>
+    emailService.sendOrderReturnRequestedEmail(to.email, {
+      recipientName: to.name,
+      orderNumber: metadata.orderNumber || "#N/A",
+      reason: metadata.reason || "Not specified",
+      orderLink: content.link || `/orders/${metadata.orderId}`,
+      isVendor:
+        metadata.recipientRole === "VENDOR" || metadata.recipientRole === "ADMIN",
+    }),
+
+  [NotificationType.ORDER_ITEM_PROCESSING]: (to, metadata, content) =>
+    emailService.sendOrderItemProcessingEmail(to.email, {
+      customerName: to.name,
+      orderNumber: metadata.orderNumber || "#N/A",
+      productName: metadata.productName || "your item",
+      vendorName: metadata.vendorName || "The vendor",
+      orderLink: content.link || `/orders/${metadata.orderId}`,
+    }),
+
+  [NotificationType.ORDER_ITEM_SHIPPED]: (to, metadata, content) =>
+    emailService.sendOrderItemShippedEmail(to.email, {
+      customerName: to.name,
+      orderNumber: metadata.orderNumber || "#N/A",
+      productName: metadata.productName || "your item",
+      vendorName: metadata.vendorName || "The vendor",
+      trackingNumber: metadata.trackingNumber,
+      orderLink: content.link || `/orders/${metadata.orderId}`,
+    }),
+
+  [NotificationType.ORDER_STATUS_OVERRIDE]: (to, metadata, content) =>
+    emailService.sendOrderStatusOverrideEmail(to.email, {
+      customerName: to.name,
+      orderNumber: metadata.orderNumber || "#N/A",
+      newStatus: metadata.newStatus,
+      reason: metadata.reason,
+      orderLink: content.link || `/orders/${metadata.orderId}`,
+    }),
+
+  [NotificationType.ORDER_REFUND_COMPLETED]: (to, metadata, content) =>
+    emailService.sendOrderRefundCompletedEmail(to.email, {
+      customerName: to.name,
+      orderNumber: metadata.orderNumber || "#N/A",
+      refundAmount: metadata.refundAmount,
+      orderLink: content.link || `/orders/${metadata.orderId}`,
+    }),
+
+  [NotificationType.ORDER_REFUND_FAILED]: (to, metadata, content) =>
+    emailService.sendOrderRefundFailedEmail(to.email, {
+      recipientName: to.name,
+      orderNumber: metadata.orderNumber || "#N/A",
+      refundAmount: metadata.refundAmount,
+      failureReason: metadata.failureReason,
+      orderLink: content.link || `/admin/orders/${metadata.orderId}`,
+    }),
+
+  [NotificationType.ORDER_RETURN_APPROVED]: (to, metadata, content) =>
+    emailService.sendOrderReturnUpdateEmail(to.email, {
+      recipientName: to.name,
+      event: "APPROVED",
+      orderNumber: metadata.orderNumber || "#N/A",
+      returnNumber: metadata.returnNumber || "",
+      vendorName: metadata.vendorName,
+      note: metadata.reason,
+      refundAmount: metadata.refundAmount,
+      returnLink: content.link || `/orders/${metadata.orderId}`,
+    }),
+
+  [NotificationType.ORDER_RETURN_REJECTED]: (to, metadata, content) =>
+    emailService.sendOrderReturnUpdateEmail(to.email, {
+      recipientName: to.name,
+      event: "REJECTED",
+      orderNumber: metadata.orderNumber || "#N/A",
+      returnNumber: metadata.returnNumber || "",
+      vendorName: metadata.vendorName,
+      note: metadata.reason,
+      refundAmount: metadata.refundAmount,
+      returnLink: content.link || `/orders/${metadata.orderId}`,
+    }),
+
+  [NotificationType.ORDER_RETURN_RECEIVED]: (to, metadata, content) =>
+    emailService.sendOrderReturnUpdateEmail(to.email, {
+      recipientName: to.name,
+      event: "RECEIVED",
+      orderNumber: metadata.orderNumber || "#N/A",
+      returnNumber: metadata.returnNumber || "",
+      vendorName: metadata.vendorName,
+      note: metadata.reason,
+      refundAmount: metadata.refundAmount,
+      returnLink: content.link || `/orders/${metadata.orderId}`,
+    }),
+
+  [NotificationType.ORDER_RETURN_ESCALATED]: (to, metadata, content) =>
+    emailService.sendOrderReturnUpdateEmail(to.email, {
+      recipientName: to.name,
+      event: "ESCALATED",
+      orderNumber: metadata.orderNumber || "#N/A",
+      returnNumber: metadata.returnNumber || "",
+      vendorName: metadata.vendorName,
+      note: metadata.reason,
+      refundAmount: metadata.refundAmount,
+      returnLink: content.link || "/vendor/returns",
+    }),
+
+  // ==================== WISHLIST ====================
+  [NotificationType.WISHLIST_PRICE_DROP]: (to, metadata, content) =>
+    emailService.sendWishlistPriceDropEmail(to.email, {
+      customerName: to.name,
+      productName: metadata.productName || "An item on your wishlist",
+      variantLabel: metadata.variantLabel,
+      previousPrice: metadata.previousPrice,
+      newPrice: metadata.newPrice ?? 0,
+      productLink: content.link || "/wishlist",
+    }),
+
+  [NotificationType.WISHLIST_BACK_IN_STOCK]: (to, metadata, content) =>
+    emailService.sendWishlistBackInStockEmail(to.email, {
+      customerName: to.name,
+      productName: metadata.productName || "An item on your wishlist",
+      variantLabel: metadata.variantLabel,
+      productLink: content.link || "/wishlist",
+    }),
+
+  // ==================== DISPUTES ====================
+  [NotificationType.DISPUTE_CREATED]: (to, metadata, content) =>
+    emailService.sendDisputeCreatedEmail(to.email, {
+      recipientName: to.name,
+      orderNumber: metadata.orderNumber || "#N/A",
+      reason: metadata.disputeReason || "Not specified",
+      disputeLink: content.link || `/orders/disputes/${metadata.disputeId}`,
+      isAdmin: metadata.recipientRole === "ADMIN",
+    }),
+
+  [NotificationType.DISPUTE_COMMENT_ADDED]: (to, metadata, content) =>
+    emailService.sendDisputeCommentAddedEmail(to.email, {
+      recipientName: to.name,
+      orderNumber: metadata.orderNumber || "#N/A",
+      disputeLink: content.link || `/orders/disputes/${metadata.disputeId}`,
+      isAdmin: metadata.recipientRole === "ADMIN",
+    }),
+
+  [NotificationType.DISPUTE_RESOLVED]: (to, metadata, content) =>
+    emailService.sendDisputeResolvedEmail(to.email, {
+      recipientName: to.name,
+      orderNumber: metadata.orderNumber || "#N/A",
+      resolutionType: metadata.resolutionType || "Resolved",
+      refundAmount: metadata.refundAmount,
+      disputeLink: content.link || `/orders/disputes/${metadata.disputeId}`,
+    }),
+
+  // ==================== PAYOUTS ====================
+  [NotificationType.PAYOUT_REQUESTED]: (to, metadata, content) =>
+    emailService.sendPayoutRequestedEmail(to.email, {
+      recipientName: to.name,
+      vendorName: metadata.vendorName || "A vendor",
+      amount: metadata.payoutAmount ?? metadata.amount,
+      payoutLink: content.link || "/admin/payouts",
+    }),
+
+  [NotificationType.PAYOUT_APPROVED]: (to, metadata) =>
+    emailService.sendPayoutApprovedEmail(to.email, {
+      vendorName: metadata.vendorName || to.name,
+      amount: metadata.payoutAmount ?? metadata.amount ?? 0,
+      bankName: metadata.bankName || "your bank",
+    }),
+
+  [NotificationType.PAYOUT_COMPLETED]: (to, metadata) =>
+    emailService.sendPayoutCompletedEmail(to.email, {
+      vendorName: metadata.vendorName || to.name,
+      amount: metadata.payoutAmount ?? metadata.amount ?? 0,
+      transactionRef: metadata.transactionRef || "N/A",
+      bankName: metadata.bankName || "your bank",
+    }),
+
+  [NotificationType.PAYOUT_FAILED]: (to, metadata) =>
+    emailService.sendPayoutFailedEmail(to.email, {
+      vendorName: metadata.vendorName || to.name,
+      amount: metadata.payoutAmount ?? metadata.amount ?? 0,
+      failureReason: metadata.failureReason || "Not specified",
+    }),
+
+  // ==================== CHAT ====================
+  [NotificationType.CHAT_NEW_MESSAGE]: (to, metadata, content) =>
+    emailService.sendChatMessageEmail(to.email, {
+      recipientName: to.name,
+      senderName: metadata.senderName || "Someone",
+      messagePreview: metadata.messagePreview || content.message,
+      chatLink: content.link || "/chat",
+    }),
+
+  // ==================== PRODUCT Q&A ====================
+  [NotificationType.PRODUCT_QUESTION_ASKED]: (to, metadata, content) =>
+    emailService.sendProductQuestionAskedEmail(to.email, {
+      vendorName: to.name,
+      productName: metadata.productName || "one of your products",
+      question: metadata.questionPreview || "",
+      questionsLink: content.link || "/vendor/questions",
+    }),
+
+  [NotificationType.PRODUCT_QUESTION_ANSWERED]: (to, metadata, content) =>
+    emailService.sendProductQuestionAnsweredEmail(to.email, {
+      customerName: to.name,
+      vendorName: metadata.vendorName || "The seller",
+      productName: metadata.productName || "a product",
+      question: metadata.questionPreview || "",
+      answer: metadata.answerPreview || "",
+      productLink: content.link || "/products",
+    }),
+
+  // ==================== VENDOR ONBOARDING ====================
+  [NotificationType.VENDOR_APPLICATION_SUBMITTED]: (to, _metadata, content) =>
+    emailService.sendSystemAnnouncementEmail(to.email, {
+      recipientName: to.name,
+      title: content.title,
+      message: content.message,
+      link: content.link,
+    }),
+
+  // ==================== SYSTEM ====================
+  [NotificationType.SYSTEM_ANNOUNCEMENT]: (to, _metadata, content) =>
+    emailService.sendSystemAnnouncementEmail(to.email, {
+      recipientName: to.name,
+      title: content.title,
+      message: content.message,
+      link: content.link,
+    }),
+
+  [NotificationType.SYSTEM_MAINTENANCE]: (to, metadata, content) =>
+    emailService.sendSystemMaintenanceEmail(to.email, {
+      recipientName: to.name,
+      message: content.message,
+      maintenanceWindow: metadata.maintenanceWindow,
+    }),
+};
+
+// ==================== PREFERENCES & QUIET HOURS ====================
+
+/**
+ * Decide whether a notification email is sent now, deferred until quiet
+ * hours end, or skipped
+ *
+ * - Global email toggle and the category's `email` preference must be on
+ * - Minor updates (defaultEmailEnabled: false) are only emailed in categories
+ *   that are opt-in by default (e.g. CHAT) and the user has switched on
+ * - Inside quiet hours the email is deferred, not dropped
+ */
+export function getEmailDecision(
+  preferences: NotificationPreference,
+  type: NotificationType,
+  now: Date = new Date()
+): EmailDecision {
+  if (!preferences.emailEnabled) {
+    return { action: "skip", reason: "email disabled" };
+  }
+
+  const config = NOTIFICATION_CONFIGS[type];
+  const categoryPref = (preferences.preferences as unknown as NotificationPreferences)?.[
+    config.category as NotificationCategory
+  ];
+  if (!categoryPref?.email) {
+    return { action: "skip", reason: "category email disabled" };
+  }
+
+  const optInCategory = !DEFAULT_NOTIFICATION_PREFERENCES[config.category].email;
+  if (!config.defaultEmailEnabled && !optInCategory) {
+    return { action: "skip", reason: "in-app only" };
+  }
+
+  const quietHoursEnd = getQuietHoursEnd(preferences, now);
+  if (quietHoursEnd) {
+    return { action: "defer", sendAt: quietHoursEnd };
+  }
+
+  return { action: "send" };
+}
+
+/**
+ * If `now` falls inside the user's quiet hours, return when they end
+ * Hours are Sri Lankan local time; overnight ranges (e.g. 22 → 7) are supported.
+ *
+ * @returns End of the current quiet period, or null when outside quiet hours
+ */
+export function getQuietHoursEnd(
+  preferences: Pick<
+    NotificationPreference,
+    "quietHoursEnabled" | "quietHoursStart" | "quietHoursEnd"
+  >,
+  now: Date = new Date()
+): Date | null {
+  if (!preferences.quietHoursEnabled) {
+    return null;
+  }
+
+  const start = preferences.quietHoursStart ?? DEFAULT_QUIET_HOURS_START;
+  const end = preferences.quietHoursEnd ?? DEFAULT_QUIET_HOURS_END;
+  if (start === end) {
+    return null;
+  }
+
+  const offsetMs = SRI_LANKA_UTC_OFFSET_MINUTES * 60 * 1000;
+  const localNow = new Date(now.getTime() + offsetMs);
+  const hour = localNow.getUTCHours();
+
+  const inQuietHours =
+    start > end
+      ? hour >= start || hour < end // Overnight (e.g. 22:00 - 07:00)
+      : hour >= start && hour < end; // Same day (e.g. 01:00 - 05:00)
+
+  if (!inQuietHours) {
+    return null;
+  }
+
+  // Next occurrence of `end`:00 local time
+  const endLocal = Date.UTC(
+    localNow.getUTCFullYear(),
+    localNow.getUTCMonth(),
+    localNow.getUTCDate(),
+    end
+  );
+  const dayMs = 24 * 60 * 60 * 1000;
+  const endUtc = endLocal - offsetMs;
+  return new Date(endUtc > now.getTime() ? endUtc : endUtc + dayMs);
+}
+
+// ==================== SENDING ====================
+
+/**
+ * Send the email for a notification using its mapped template
+ *
+ * @returns false if the user has no email address or the provider rejected it
+ */
+export async function sendNotificationEmail(
+  type: NotificationType,
+  userId: string,
+  metadata: NotificationMetadata | undefined,
+  content: NotificationEmailContent
+): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, firstName: true, lastName: true },
+  });
+
+  if (!user || !user.email) {
+    console.log(`[Notifications] No email for user ${userId}, skipping email`);
+    return false;
+  }
+
+  const name = `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email;
+  const sender = NOTIFICATION_EMAIL_SENDERS[type];
+
+  const result = await sender({ email: user.email, name }, metadata || {}, content);
+
+  if (!result.success) {
+    console.error(
+      `[Notifications] Email ${NOTIFICATION_CONFIGS[type].emailTemplate} to ${user.email} failed:`,
+      result.error
+    );
+    return false;
+  }
+
+  console.log(
+    `[Notifications] Sent email: ${NOTIFICATION_CONFIGS[type].emailTemplate} to ${user.email}`
+  );
+  return true;
+}
+
+// ==================== DEFERRED QUEUE ====================
+
+/**
+ * Queue an email until the user's quiet hours end
+ */
+export async function deferNotificationEmail(
+  email: Omit<DeferredNotificationEmail, "queuedAt">,
+  sendAt: Date
+): Promise<void> {
+  const { redis } = await import("@/lib/redis");
+
+  const payload: DeferredNotificationEmail = {
+    ...email,
+    queuedAt: new Date().toISOString(),
+  };
+
+  await redis.zadd(DEFERRED_EMAIL_QUEUE_KEY, sendAt.getTime(), JSON.stringify(payload));
+
+  console.log(
+    `[Notifications] Deferred email ${NOTIFICATION_CONFIGS[email.type].emailTemplate} for user ${email.userId} until ${sendAt.toISOString()}`
+  );
+}
+
+/**
+ * Send deferred emails whose quiet hours have ended
+ * Preferences are re-checked at send time, so emails are dropped if the user
+ * has since disabled them (or re-deferred if quiet hours were extended).
+ * Intended to be run periodically by the socket server.
+ *
+ * @returns Number of emails sent
+ */
+export async function sendDueDeferredEmails(limit = 100): Promise<number> {
+  const { redis } = await import("@/lib/redis");
+  const { getUserPreferences } = await import("./notificationService");
+
+  const due = await redis.zrangebyscore(
+    DEFERRED_EMAIL_QUEUE_KEY,
+    "-inf",
+    Date.now(),
+    "LIMIT",
+    0,
+    limit
+  );
+
+  let sent = 0;
+
+  for (const entry of due) {
+    // Claim the entry; another server instance may have taken it
+    const claimed = await redis.zrem(DEFERRED_EMAIL_QUEUE_KEY, entry);
+    if (claimed === 0) continue;
+
+    try {
+      const email = JSON.parse(entry) as DeferredNotificationEmail;
+      const preferences = await getUserPreferences(email.userId);
+      const decision = getEmailDecision(preferences, email.type);
+
+      if (decision.action === "skip") {
+        console.log(
+          `[Notifications] Dropped deferred email for user ${email.userId} (${decision.reason})`
+        );
+        continue;
+      }
+
+      if (decision.action === "defer") {
+        await redis.zadd(DEFERRED_EMAIL_QUEUE_KEY, decision.sendAt.getTime(), entry);
+        continue;
+      }
+
+      if (await sendNotificationEmail(email.type, email.userId, email.metadata, email.content)) {
+        sent++;
+      }
+    } catch (error) {
+      console.error("[Notifications] Deferred email failed:", error);
+    }
+  }
+
+  if (due.length > 0) {
+    console.log(`[Notifications] Processed ${due.length} deferred email(s), ${sent} sent`);
+  }
+
+  return sent;
+}
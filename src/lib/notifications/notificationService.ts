@@ -2,17 +2,20 @@
 // Core orchestrator for creating and managing notifications
 
 import { prisma } from "@/lib/prisma";
-import { emailService } from "@/lib/email";
 import {
   NotificationType,
   NotificationCategory,
-  NotificationPriority,
   NotificationMetadata,
   NOTIFICATION_CONFIGS,
   DEFAULT_NOTIFICATION_PREFERENCES,
   type NotificationPreferences,
 } from "@/types/notification";
 import { generateNotificationContent } from "./notificationTemplates";
+import {
+  getEmailDecision,
+  sendNotificationEmail,
+  deferNotificationEmail,
+} from "./notificationEmail";
 import type { Notification, NotificationPreference } from "@prisma/client";
 
 // ==================== TYPES ====================
@@ -49,7 +52,7 @@ export interface ListNotificationsResult {
  * Create a notification
  * - Saves to database
  * - Emits Socket.io event for real-time delivery
- * - Sends email if enabled in preferences
+ * - Sends email if enabled in preferences (deferred during quiet hours)
  *
  * NON-BLOCKING: Errors are logged but don't throw
  */
@@ -112,13 +115,21 @@ export async function createNotification(
     }
 
     // 5. Send email if enabled (non-blocking)
-    if (shouldSendEmail(preferences, config.category, type)) {
-      try {
-        await sendNotificationEmail(type, userId, metadata);
-      } catch (error) {
-        console.error("[Notifications] Email send failed:", error);
-        // Continue - notification is still in DB
+    try {
+      const decision = getEmailDecision(preferences, type);
+      const emailContent = { title, message, link };
+
+      if (decision.action === "send") {
+        await sendNotificationEmail(type, userId, metadata, emailContent);
+      } else if (decision.action === "defer") {
+        await deferNotificationEmail(
+          { type, userId, metadata, content: emailContent },
+          decision.sendAt
+        );
       }
+    } catch (error) {
+      console.error("[Notifications] Email send failed:", error);
+      // Continue - notification is still in DB
     }
 
     return notification;
@@ -340,105 +351,22 @@ export async function updateUserPreferences(
   });
 }
 
-// ==================== HELPER FUNCTIONS ====================
-
-/**
- * Check if email should be sent based on preferences
- */
-function shouldSendEmail(
-  preferences: NotificationPreference,
-  category: NotificationCategory,
-  type: NotificationType
-): boolean {
-  // Global email disabled
-  if (!preferences.emailEnabled) {
-    return false;
-  }
-
-  // Check quiet hours
-  if (preferences.quietHoursEnabled) {
-    const now = new Date();
-    const currentHour = now.getHours();
-    const start = preferences.quietHoursStart || 22;
-    const end = preferences.quietHoursEnd || 7;
-
-    // Handle overnight quiet hours (e.g., 22:00 - 07:00)
-    if (start > end) {
-      if (currentHour >= start || currentHour < end) {
-        return false; // Within quiet hours
-      }
-    } else {
-      // Normal hours (e.g., 01:00 - 05:00)
-      if (currentHour >= start && currentHour < end) {
-        return false; // Within quiet hours
-      }
-    }
-  }
-
-  // Check category preferences
-  const categoryPref = (preferences.preferences as any)[category];
-  if (!categoryPref || !categoryPref.email) {
-    return false;
-  }
-
-  // Check notification config default
-  const config = NOTIFICATION_CONFIGS[type];
-  return config.defaultEmailEnabled;
-}
-
-/**
- * Send notification email (delegates to email service)
- */
-async function sendNotificationEmail(
-  type: NotificationType,
-  userId: string,
-  metadata?: NotificationMetadata
-): Promise<void> {
-  // Get user email
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { email: true, firstName: true, lastName: true },
-  });
-
-  if (!user || !user.email) {
-    console.log(`[Notifications] No email for user ${userId}, skipping email`);
-    return;
-  }
-
-  const userName = `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email;
-
-  // Map notification type to email service method
-  const config = NOTIFICATION_CONFIGS[type];
-  const emailTemplate = config.emailTemplate;
-
-  // Note: Email service methods will be created in Day 4
-  // For now, log the email that would be sent
-  console.log(`[Notifications] Would send email: ${emailTemplate} to ${user.email}`);
-
-  // TODO: Day 4 - Call actual email service method
-  // Example: await emailService[emailTemplate](user.email, metadata);
-}
-
 // ==================== CLEANUP ====================
 
 /**
  * Delete expired notifications (90+ days old)
- * Should be run as a cron job
+ * Run by the notification-cleanup background job; errors are thrown so the
+ * job scheduler can retry
  */
 export async function deleteExpiredNotifications(): Promise<number> {
-  try {
-    const result = await prisma.notification.deleteMany({
-      where: {
-        expiresAt: {
-          lt: new Date(),
-        },
+  const result = await prisma.notification.deleteMany({
+    where: {
+      expiresAt: {
+        lt: new Date(),
       },
-    });
+    },
+  });
 
-    console.log(`[Notifications] Deleted ${result.count} expired notifications`);
-    return result.count;
-  } catch (error) {
-    console.error("[Notifications] Cleanup failed:", error);
-    return 0;
-  }
+  console.log(`[Notifications] Deleted ${result.count} expired notifications`);
+  return result.count;
 }
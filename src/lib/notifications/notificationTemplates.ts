@@ -45,6 +45,13 @@ export function generateNotificationContent(
         link: `/orders/${metadata?.orderId}`,
       };
 
+    case NotificationType.ORDER_DELIVERY_AUTO_CONFIRM_WARNING:
+      return {
+        title: "Delivery Will Be Confirmed Soon",
+        message: `Order ${metadata?.orderNumber || "#N/A"} will be automatically confirmed as delivered${metadata?.autoConfirmAt ? ` on ${new Date(metadata.autoConfirmAt).toLocaleDateString("en-LK", { dateStyle: "medium", timeZone: "Asia/Colombo" })}` : " soon"}. If something is wrong with your order, please open a dispute before then.`,
+        link: `/orders/${metadata?.orderId}`,
+      };
+
     case NotificationType.ORDER_RETURN_REQUESTED:
       return {
         title: metadata?.recipientRole === "ADMIN" || metadata?.recipientRole === "VENDOR"
@@ -56,9 +63,29 @@ export function generateNotificationContent(
         link: metadata?.recipientRole === "ADMIN"
           ? `/admin/orders/${metadata?.orderId}`
           : metadata?.recipientRole === "VENDOR"
+          ? "/vendor/returns"
+          : `/orders/${metadata?.orderId}`,
+      };
+
+    case NotificationType.ORDER_SHIPMENT_EXCEPTION: {
+      const problem =
+        metadata?.trackingStatus === "RETURNED_TO_SENDER"
+          ? "is being returned to the sender"
+          : metadata?.trackingStatus === "FAILED_ATTEMPT"
+          ? "could not be delivered"
+          : "has a delivery problem";
+      const item = metadata?.productName || "A shipment";
+
+      return {
+        title: "Delivery Problem",
+        message: metadata?.recipientRole === "VENDOR"
+          ? `${item} in Order ${metadata?.orderNumber || "#N/A"} ${problem}${metadata?.reason ? `: ${metadata.reason}` : "."} Please contact the courier or the customer.`
+          : `${item} in Order ${metadata?.orderNumber || "#N/A"} ${problem}${metadata?.reason ? `: ${metadata.reason}` : "."} Please contact the courier or the vendor to arrange redelivery.`,
+        link: metadata?.recipientRole === "VENDOR"
           ? `/vendor/orders/${metadata?.orderId}`
           : `/orders/${metadata?.orderId}`,
       };
+    }
 
     case NotificationType.ORDER_ITEM_PROCESSING:
       return {
@@ -85,6 +112,68 @@ export function generateNotificationContent(
         link: `/orders/${metadata?.orderId}`,
       };
 
+    case NotificationType.ORDER_REFUND_COMPLETED:
+      return {
+        title: "Refund Completed",
+        message: metadata?.refundAmount
+          ? `Rs. ${metadata.refundAmount.toFixed(2)} for Order ${metadata?.orderNumber || "#N/A"} has been refunded to your original payment method.`
+          : `Your refund for Order ${metadata?.orderNumber || "#N/A"} has been completed.`,
+        link: `/orders/${metadata?.orderId}`,
+      };
+
+    case NotificationType.ORDER_REFUND_FAILED:
+      return {
+        title: "Refund Failed",
+        message: `PayHere refund for Order ${metadata?.orderNumber || "#N/A"} failed${metadata?.failureReason ? `: ${metadata.failureReason}` : ""}. Please process it manually.`,
+        link: `/admin/orders/${metadata?.orderId}`,
+      };
+
+    case NotificationType.ORDER_RETURN_APPROVED:
+      return {
+        title: "Return Approved",
+        message: `${metadata?.vendorName || "The seller"} approved return ${metadata?.returnNumber || ""} for Order ${metadata?.orderNumber || "#N/A"}. Print the return label from your order page and send the items back.`,
+        link: `/orders/${metadata?.orderId}`,
+      };
+
+    case NotificationType.ORDER_RETURN_REJECTED:
+      return {
+        title: "Return Rejected",
+        message: `${metadata?.vendorName || "The seller"} rejected return ${metadata?.returnNumber || ""} for Order ${metadata?.orderNumber || "#N/A"}${metadata?.reason ? `: ${metadata.reason}` : "."} If you disagree, you can escalate it to a dispute from your order page.`,
+        link: `/orders/${metadata?.orderId}`,
+      };
+
+    case NotificationType.ORDER_RETURN_RECEIVED:
+      return {
+        title: "Return Received",
+        message: metadata?.refundAmount
+          ? `${metadata?.vendorName || "The seller"} received your return ${metadata?.returnNumber || ""}. Rs. ${metadata.refundAmount.toFixed(2)} is being refunded to your original payment method.`
+          : `${metadata?.vendorName || "The seller"} received your return ${metadata?.returnNumber || ""}. Your refund is being processed.`,
+        link: `/orders/${metadata?.orderId}`,
+      };
+
+    case NotificationType.ORDER_RETURN_ESCALATED:
+      return {
+        title: "Return Escalated to Dispute",
+        message: `The customer escalated return ${metadata?.returnNumber || ""} for Order ${metadata?.orderNumber || "#N/A"} to a dispute. An admin will review it.`,
+        link: "/vendor/returns",
+      };
+
+    // ==================== WISHLIST ====================
+
+    case NotificationType.WISHLIST_PRICE_DROP:
+      return {
+        title: "Price Drop on Your Wishlist",
+        message: `${metadata?.productName || "An item on your wishlist"}${metadata?.variantLabel ? ` (${metadata.variantLabel})` : ""} is now Rs. ${metadata?.newPrice?.toFixed(2) || "0.00"}${metadata?.previousPrice ? `, down from Rs. ${metadata.previousPrice.toFixed(2)}` : ""}.`,
+        link: metadata?.productSlug ? `/products/${metadata.productSlug}` : "/wishlist",
+      };
+
+    case NotificationType.WISHLIST_BACK_IN_STOCK:
+      return {
+        title: "Back in Stock",
+        message: `${metadata?.productName || "An item on your wishlist"}${metadata?.variantLabel ? ` (${metadata.variantLabel})` : ""} is back in stock. Get it before it sells out again.`,
+        link: metadata?.productSlug ? `/products/${metadata.productSlug}` : "/wishlist",
+      };
+
     // ==================== DISPUTES ====================
 
     case NotificationType.DISPUTE_CREATED:
@@ -175,6 +264,33 @@ export function generateNotificationContent(
         link: `/chat?roomId=${metadata?.roomId || ""}`,
       };
 
+    // ==================== PRODUCT Q&A ====================
+
+    case NotificationType.PRODUCT_QUESTION_ASKED:
+      return {
+        title: "New Product Question",
+        message: `A shopper asked about ${metadata?.productName || "one of your products"}: "${metadata?.questionPreview || ""}"`,
+        link: "/vendor/questions",
+      };
+
+    case NotificationType.PRODUCT_QUESTION_ANSWERED:
+      return {
+        title: "Your Question Was Answered",
+        message: `${metadata?.vendorName || "The seller"} answered your question about ${metadata?.productName || "a product"}: "${metadata?.answerPreview || ""}"`,
+        link: metadata?.productSlug ? `/products/${metadata.productSlug}#questions` : null,
+      };
+
+    // ==================== VENDOR ONBOARDING ====================
+
+    case NotificationType.VENDOR_APPLICATION_SUBMITTED:
+      return {
+        title: metadata?.isResubmission ? "Vendor Application Updated" : "New Vendor Application",
+        message: `${metadata?.businessName || "A business"} ${
+          metadata?.isResubmission ? "resubmitted its application" : "applied to sell on PrimeWear"
+        } and is waiting for review.`,
+        link: "/admin/vendor-applications",
+      };
+
     // ==================== SYSTEM ====================
 
     case NotificationType.SYSTEM_ANNOUNCEMENT:
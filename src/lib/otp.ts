@@ -1,12 +1,13 @@
 import { redis, redisHelpers } from "./redis";
 import { prisma } from "./prisma";
+import { getSetting } from "./settings";
 
-// Configuration from environment
-const OTP_EXPIRY_MINUTES = parseInt(
-  process.env.OTP_EXPIRY_MINUTES || "5",
-  10
-);
+// Configuration from environment (expiry is the otp_expiry platform setting)
 const OTP_MAX_ATTEMPTS = parseInt(process.env.OTP_MAX_ATTEMPTS || "3", 10);
+const OTP_RETENTION_HOURS = parseInt(
+  process.env.OTP_RETENTION_HOURS || "24",
+  10
+); // Expired OTP audit records are kept this long
 const OTP_RATE_LIMIT_WINDOW = 60; // 1 minute
 const OTP_RATE_LIMIT_MAX = 3; // 3 OTPs per minute
 
@@ -52,7 +53,8 @@ export const otpUtils = {
     purpose: OTPPurpose
   ): Promise<void> {
     const key = otpKey(identifier, purpose);
-    const expiryInSeconds = OTP_EXPIRY_MINUTES * 60;
+    const { minutes } = await getSetting("otp_expiry");
+    const expiryInSeconds = minutes * 60;
     const expiresAt = Date.now() + expiryInSeconds * 1000;
 
     const otpData: OTPData = {
@@ -180,4 +182,22 @@ export const otpUtils = {
     const exists = await redisHelpers.exists(key);
     return exists === 1;
   },
+
+  /**
+   * Delete OTP audit records that expired more than OTP_RETENTION_HOURS ago
+   * (run by the otp-purge background job)
+   */
+  async purgeExpired(): Promise<number> {
+    const cutoff = new Date(Date.now() - OTP_RETENTION_HOURS * 60 * 60 * 1000);
+
+    const result = await prisma.oTP.deleteMany({
+      where: { expiresAt: { lt: cutoff } },
+    });
+
+    if (result.count > 0) {
+      console.log(`[OTP] Purged ${result.count} expired OTP record(s)`);
+    }
+
+    return result.count;
+  },
 };
@@ -0,0 +1,173 @@
+/**
+ * PayHere Refund API client
+ * Obtains an OAuth access token with the merchant app credentials and
+ * submits refund requests for captured payments.
+ *
+ * Configuration (env):
+ *   PAYHERE_APP_ID      - Merchant API app ID (Settings → API Keys)
+ *   PAYHERE_APP_SECRET  - Merchant API app secret
+ *   PAYHERE_API_URL     - Override API base URL (e.g. local stub server)
+ */
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * Thrown when PayHere rejects or cannot process a refund request
+ * `retryable` is false when retrying will not help (e.g. already refunded)
+ */
+export class PayHereRefundError extends Error {
+  constructor(
+    message: string,
+    public retryable: boolean,
+    public httpStatus?: number
+  ) {
+    super(message);
+    this.name = "PayHereRefundError";
+  }
+}
+
+export interface PayHereRefundResult {
+  refundId: string | null; // PayHere refund reference
+  message: string;
+}
+
+// Cached OAuth token (tokens are valid for several minutes)
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+/**
+ * Get PayHere Merchant API base URL based on mode (sandbox or live)
+ */
+export function getPayHereApiURL(): string {
+  if (process.env.PAYHERE_API_URL) {
+    return process.env.PAYHERE_API_URL.replace(/\/$/, "");
+  }
+
+  const mode = process.env.PAYHERE_MODE || "sandbox";
+  return mode === "live"
+    ? "https://www.payhere.lk/merchant/v1"
+    : "https://sandbox.payhere.lk/merchant/v1";
+}
+
+/**
+ * Fetch with timeout; network errors become retryable PayHereRefundErrors
+ */
+async function payHereFetch(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new PayHereRefundError(
+      `PayHere request failed: ${error instanceof Error ? error.message : "Network error"}`,
+      true
+    );
+  }
+}
+
+/**
+ * Get an OAuth access token (client credentials grant)
+ */
+async function getAccessToken(): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.value;
+  }
+
+  const appId = process.env.PAYHERE_APP_ID;
+  const appSecret = process.env.PAYHERE_APP_SECRET;
+
+  if (!appId || !appSecret) {
+    throw new PayHereRefundError(
+      "PayHere refund API is not configured (PAYHERE_APP_ID / PAYHERE_APP_SECRET missing)",
+      false
+    );
+  }
+
+  const authCode = Buffer.from(`${appId}:${appSecret}`).toString("base64");
+
+  const response = await payHereFetch(`${getPayHereApiURL()}/oauth/token`, {
+    method: "POST",
+    headers: {
+      Authorization: `Basic ${authCode}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: "grant_type=client_credentials",
+  });
+
+  if (!response.ok) {
+    throw new PayHereRefundError(
+      `PayHere authentication failed (HTTP ${response.status})`,
+      response.status >= 500,
+      response.status
+    );
+  }
+
+  const data = await response.json();
+  if (!data.access_token) {
+    throw new PayHereRefundError("PayHere authentication returned no token", true);
+  }
+
+  // Refresh a minute before PayHere expires the token
+  const expiresInSeconds = Number(data.expires_in) || 300;
+  cachedToken = {
+    value: data.access_token,
+    expiresAt: Date.now() + Math.max(expiresInSeconds - 60, 0) * 1000,
+  };
+
+  return cachedToken.value;
+}
+
+/**
+ * Request a refund for a captured PayHere payment
+ *
+ * @param params.paymentId - PayHere payment ID (Payment.payherePaymentId)
+ * @param params.description - Reason shown in the PayHere merchant portal
+ * @param params.amount - Partial refund amount in LKR (omit for full refund)
+ * @throws PayHereRefundError when the refund is rejected or PayHere is unreachable
+ */
+export async function requestPayHereRefund(params: {
+  paymentId: string;
+  description: string;
+  amount?: number;
+}): Promise<PayHereRefundResult> {
+  const token = await getAccessToken();
+
+  const response = await payHereFetch(`${getPayHereApiURL()}/payment/refund`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      payment_id: params.paymentId,
+      description: params.description,
+      ...(params.amount !== undefined && { amount: params.amount.toFixed(2) }),
+    }),
+  });
+
+  // Token revoked/expired early — drop it so the next attempt re-authenticates
+  if (response.status === 401) {
+    cachedToken = null;
+    throw new PayHereRefundError("PayHere access token rejected", true, 401);
+  }
+
+  let data: { status?: number; msg?: string; data?: unknown } = {};
+  try {
+    data = await response.json();
+  } catch {
+    // Non-JSON body (gateway error page)
+  }
+
+  if (!response.ok || data.status !== 1) {
+    throw new PayHereRefundError(
+      data.msg || `PayHere refund failed (HTTP ${response.status})`,
+      response.status >= 500 || response.status === 429,
+      response.status
+    );
+  }
+
+  return {
+    refundId: data.data !== undefined && data.data !== null ? String(data.data) : null,
+    message: data.msg || "Refund successful",
+  };
+}
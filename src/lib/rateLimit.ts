@@ -0,0 +1,233 @@
+/**
+ * API rate limiting
+ *
+ * Sliding-window limits kept in Redis, so they hold across every Next.js
+ * instance and the Socket.io server. Each policy sets how many requests fit in
+ * its window, whether they're counted per user or per IP, and optionally a
+ * different limit per role.
+ *
+ * Route handlers opt in with withRateLimit(). Responses carry the standard
+ * RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset headers, and blocked
+ * requests get a 429 with Retry-After. If Redis is unreachable requests are
+ * let through rather than failing the API.
+ */
+
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import type { UserRole } from "@prisma/client";
+import { redisHelpers } from "./redis";
+
+interface RateLimitPolicy {
+  limit: number;
+  windowSeconds: number;
+  // "user" counts logged-in users by id and guests by IP. Omitted for policies
+  // the route counts itself with consumeRateLimit and its own identifier
+  by?: "ip" | "user";
+  roleLimits?: Partial<Record<UserRole, number>>;
+}
+
+export const RATE_LIMIT_POLICIES = {
+  // Credential stuffing: attempts from one address, and failed attempts
+  // against one account from one address (counted by the login route and
+  // cleared on success, so nobody else can lock the account out)
+  "auth-login": { limit: 20, windowSeconds: 15 * 60, by: "ip" },
+  "auth-login-account": { limit: 10, windowSeconds: 15 * 60 },
+  "auth-two-factor": { limit: 20, windowSeconds: 15 * 60, by: "ip" },
+  "auth-otp": { limit: 20, windowSeconds: 15 * 60, by: "ip" },
+  // Coupon code guessing
+  "coupon-validate": { limit: 10, windowSeconds: 60, by: "user" },
+  "checkout-validate": { limit: 30, windowSeconds: 60, by: "user" },
+  "review-create": { limit: 10, windowSeconds: 60 * 60, by: "user" },
+  "question-create": { limit: 20, windowSeconds: 60 * 60, by: "user" },
+  // Public vendor onboarding: applications and their document uploads
+  "vendor-application": { limit: 5, windowSeconds: 60 * 60, by: "ip" },
+  "vendor-application-document": { limit: 30, windowSeconds: 60 * 60, by: "ip" },
+  // Socket.io chat (vendors answer many customers at once)
+  "chat-message": {
+    limit: 5,
+    windowSeconds: 10,
+    by: "user",
+    roleLimits: { VENDOR: 15 },
+  },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number; // Until the oldest counted request leaves the window
+}
+
+// Proxies in front of the app that append to X-Forwarded-For (load balancer,
+// CDN...). Entries left of the ones they added are sent by the client and
+// can be forged, so only the address the outermost trusted proxy saw is used.
+// Without a proxy the whole header is client-controlled, so it is ignored
+// unless this is set for the deployment.
+const TRUSTED_PROXY_HOPS = (() => {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 0);
+  if (Number.isInteger(hops) && hops >= 0) return hops;
+  console.warn(`[RateLimit] Invalid TRUSTED_PROXY_HOPS "${process.env.TRUSTED_PROXY_HOPS}", ignoring X-Forwarded-For`);
+  return 0;
+})();
+
+if (TRUSTED_PROXY_HOPS === 0 && process.env.NODE_ENV === "production") {
+  console.warn("[RateLimit] TRUSTED_PROXY_HOPS is not set: client IPs are unknown and IP rate limits are off");
+}
+
+/**
+ * Client IP address as seen by the outermost trusted proxy
+ * (TRUSTED_PROXY_HOPS entries from the right of X-Forwarded-For).
+ * Null when not behind a proxy (TRUSTED_PROXY_HOPS=0) or the header is missing.
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  if (!forwardedFor || TRUSTED_PROXY_HOPS === 0) return null;
+
+  const hops = forwardedFor
+    .split(",")
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+  return hops[Math.max(hops.length - TRUSTED_PROXY_HOPS, 0)] ?? null;
+}
+
+/**
+ * Who a guest request is counted for: its client IP, or a one-off ID when
+ * the IP is unknown. Requests without an IP are never pooled into one shared
+ * bucket that anyone could fill to lock everybody else out.
+ */
+export function getClientKey(request: NextRequest): string {
+  const ip = getClientIp(request);
+  return ip ? `ip:${ip}` : `request:${randomUUID()}`;
+}
+
+/**
+ * Count a request against a policy
+ *
+ * @param identifier - Who the request is counted for (user id, IP, email...)
+ */
+export async function consumeRateLimit(
+  policyName: RateLimitPolicyName,
+  identifier: string,
+  role?: UserRole | null
+): Promise<RateLimitResult> {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[policyName];
+  const limit = (role && policy.roleLimits?.[role]) || policy.limit;
+
+  try {
+    const { allowed, count, resetMs } = await redisHelpers.slidingWindow(
+      `ratelimit:${policyName}:${identifier}`,
+      limit,
+      policy.windowSeconds * 1000
+    );
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(limit - count, 0),
+      resetSeconds: Math.ceil(resetMs / 1000),
+    };
+  } catch (error) {
+    console.error(`[RateLimit] ${policyName} check failed, allowing request:`, error);
+    return { allowed: true, limit, remaining: limit, resetSeconds: 0 };
+  }
+}
+
+/**
+ * Check a policy without counting a request, for policies that only count
+ * some outcomes (e.g. failed logins): check first, consume on failure
+ */
+export async function peekRateLimit(
+  policyName: RateLimitPolicyName,
+  identifier: string
+): Promise<RateLimitResult> {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[policyName];
+
+  try {
+    const { count, resetMs } = await redisHelpers.slidingWindowCount(
+      `ratelimit:${policyName}:${identifier}`,
+      policy.windowSeconds * 1000
+    );
+
+    return {
+      allowed: count < policy.limit,
+      limit: policy.limit,
+      remaining: Math.max(policy.limit - count, 0),
+      resetSeconds: Math.ceil(resetMs / 1000),
+    };
+  } catch (error) {
+    console.error(`[RateLimit] ${policyName} check failed, allowing request:`, error);
+    return { allowed: true, limit: policy.limit, remaining: policy.limit, resetSeconds: 0 };
+  }
+}
+
+/**
+ * Clear what has been counted for an identifier (e.g. after a successful login)
+ */
+export async function resetRateLimit(
+  policyName: RateLimitPolicyName,
+  identifier: string
+): Promise<void> {
+  try {
+    await redisHelpers.delete(`ratelimit:${policyName}:${identifier}`);
+  } catch (error) {
+    console.error(`[RateLimit] Failed to reset ${policyName}:`, error);
+  }
+}
+
+/**
+ * Add the RateLimit-* headers (and Retry-After when blocked) to a response
+ */
+export function setRateLimitHeaders(response: Response, result: RateLimitResult): void {
+  response.headers.set("RateLimit-Limit", String(result.limit));
+  response.headers.set("RateLimit-Remaining", String(result.remaining));
+  response.headers.set("RateLimit-Reset", String(result.resetSeconds));
+  if (!result.allowed) {
+    response.headers.set("Retry-After", String(Math.max(result.resetSeconds, 1)));
+  }
+}
+
+/**
+ * 429 response for a blocked request
+ */
+export function rateLimitExceededResponse(result: RateLimitResult): NextResponse {
+  const response = NextResponse.json(
+    {
+      success: false,
+      error: `Too many requests. Please try again in ${Math.max(result.resetSeconds, 1)} seconds.`,
+    },
+    { status: 429 }
+  );
+  setRateLimitHeaders(response, result);
+  return response;
+}
+
+/**
+ * Rate limit a route handler
+ * Usage: export const POST = withRateLimit("coupon-validate", handlePOST);
+ */
+export function withRateLimit<Args extends unknown[]>(
+  policyName: RateLimitPolicyName,
+  handler: (request: NextRequest, ...args: Args) => Promise<Response>
+): (request: NextRequest, ...args: Args) => Promise<Response> {
+  return async (request: NextRequest, ...args: Args) => {
+    const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[policyName];
+
+    // X-User-* headers are set by the middleware on protected routes
+    const userId = request.headers.get("X-User-Id");
+    const role = request.headers.get("X-User-Role") as UserRole | null;
+    const identifier =
+      policy.by === "user" && userId ? `user:${userId}` : getClientKey(request);
+
+    const result = await consumeRateLimit(policyName, identifier, role);
+    if (!result.allowed) {
+      console.warn(`[RateLimit] ${policyName} exceeded by ${identifier}`);
+      return rateLimitExceededResponse(result);
+    }
+
+    const response = await handler(request, ...args);
+    setRateLimitHeaders(response, result);
+    return response;
+  };
+}
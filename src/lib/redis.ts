@@ -30,6 +30,34 @@ const getRedisClient = () => {
 // Export singleton instance
 export const redis = getRedisClient();
 
+// Sliding-window log: drops entries older than the window, then records the
+// request if there's room. Returns [allowed, count, oldest entry time]
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], 0, now - window)
+local count = redis.call("ZCARD", KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call("ZADD", KEYS[1], now, ARGV[4])
+  redis.call("PEXPIRE", KEYS[1], window)
+  count = count + 1
+  allowed = 1
+end
+local oldest = redis.call("ZRANGE", KEYS[1], 0, 0, "WITHSCORES")
+return { allowed, count, tonumber(oldest[2] or now) }
+`;
+
+// Increments a hash field only while the hash exists, so an expired or
+// deleted key isn't recreated without a TTL. Returns nil when it's gone
+const INCREMENT_IF_EXISTS_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then
+  return false
+end
+return redis.call("HINCRBY", KEYS[1], ARGV[1], 1)
+`;
+
 // Helper functions for common operations
 export const redisHelpers = {
   /**
@@ -71,10 +99,82 @@ export const redisHelpers = {
     return results?.[0]?.[1] as number;
   },
 
+  /**
+   * Set the fields of a hash with expiration in seconds
+   */
+  async setHashWithExpiry(
+    key: string,
+    fields: Record<string, string | number>,
+    expiryInSeconds: number
+  ) {
+    return redis.multi().hset(key, fields).expire(key, expiryInSeconds).exec();
+  },
+
+  /**
+   * Get a hash field
+   */
+  async getHashField(key: string, field: string) {
+    return redis.hget(key, field);
+  },
+
+  /**
+   * Atomically increment a hash field if the hash still exists
+   * Returns null when the key has expired or been deleted
+   */
+  async incrementHashFieldIfExists(key: string, field: string) {
+    const value = (await redis.eval(INCREMENT_IF_EXISTS_SCRIPT, 1, key, field)) as number | null;
+    return value ?? null;
+  },
+
   /**
    * Get remaining TTL for a key
    */
   async ttl(key: string) {
     return redis.ttl(key);
   },
+
+  /**
+   * Record a hit in a sliding window if fewer than `limit` hits happened in
+   * the last `windowMs`
+   */
+  async slidingWindow(key: string, limit: number, windowMs: number) {
+    const now = Date.now();
+    const member = `${now}:${Math.random().toString(36).slice(2)}`;
+    const [allowed, count, oldest] = (await redis.eval(
+      SLIDING_WINDOW_SCRIPT,
+      1,
+      key,
+      now,
+      windowMs,
+      limit,
+      member
+    )) as [number, number, number];
+
+    return {
+      allowed: allowed === 1,
+      count,
+      resetMs: Math.max(oldest + windowMs - now, 0),
+    };
+  },
+
+  /**
+   * Count the hits in a sliding window without recording one
+   */
+  async slidingWindowCount(key: string, windowMs: number) {
+    const now = Date.now();
+    const results = await redis
+      .pipeline()
+      .zremrangebyscore(key, 0, now - windowMs)
+      .zcard(key)
+      .zrange(key, 0, 0, "WITHSCORES")
+      .exec();
+
+    const count = (results?.[1]?.[1] as number) ?? 0;
+    const oldest = Number((results?.[2]?.[1] as string[] | undefined)?.[1] ?? now);
+
+    return {
+      count,
+      resetMs: Math.max(oldest + windowMs - now, 0),
+    };
+  },
 };
@@ -0,0 +1,398 @@
+/**
+ * Storefront product search
+ *
+ * Queries are matched against the product search index (see searchIndex.ts)
+ * with PostgreSQL full-text search and ranked by relevance. When nothing
+ * matches the full-text query (usually a misspelling), the search falls back
+ * to pg_trgm word similarity against the indexed text.
+ *
+ * Facet counts are computed over the matching products with every filter
+ * applied except the facet's own, so picking a vendor still shows how many
+ * products the other vendors have.
+ *
+ * Ratings and units sold come from the aggregates on Product (see
+ * src/lib/utils/productStats.ts).
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { SEARCH_CONFIG } from "./searchIndex";
+
+// Minimum pg_trgm word similarity for fuzzy matches and suggestions
+const FUZZY_MATCH_THRESHOLD = 0.3;
+const MAX_QUERY_LENGTH = 100;
+const MAX_OPTION_FACET_VALUES = 30;
+const MAX_SUGGESTIONS = 6;
+
+// Lower bounds of the price facet buckets (Rs.)
+export const PRICE_BUCKET_BOUNDS = [1000, 2500, 5000, 10000];
+
+// Product option names that feed the size and colour facets
+const OPTION_FACETS = {
+  size: ["size"],
+  colour: ["colour", "color"],
+} as const;
+
+type OptionFacet = keyof typeof OPTION_FACETS;
+type FacetKey = "category" | "vendor" | "price" | "rating" | OptionFacet;
+
+export type ProductSortField =
+  | "relevance"
+  | "createdAt"
+  | "price"
+  | "name"
+  | "rating"
+  | "bestselling";
+
+export interface ProductSearchFilters {
+  search?: string;
+  categoryId?: string;
+  vendorId?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  size?: string;
+  colour?: string;
+  minRating?: number;
+}
+
+export interface ProductSearchOptions extends ProductSearchFilters {
+  sortBy?: ProductSortField;
+  sortOrder?: "asc" | "desc";
+  skip: number;
+  take: number;
+}
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface ProductSearchFacets {
+  categories: FacetCount[];
+  vendors: FacetCount[];
+  priceRanges: { min: number; max: number | null; count: number }[];
+  sizes: FacetCount[];
+  colours: FacetCount[];
+  ratings: { minRating: number; count: number }[]; // "4 stars & up" etc.
+}
+
+export interface ProductSearchHit {
+  id: string;
+  displayPrice: number; // Lowest price across variants
+  totalStock: number; // Summed across variants
+  averageRating: number;
+  reviewCount: number;
+}
+
+export interface ProductSearchResult {
+  hits: ProductSearchHit[];
+  total: number;
+  facets: ProductSearchFacets;
+  fuzzy: boolean; // Results are similar-spelling matches, not exact ones
+}
+
+export interface SearchSuggestions {
+  products: { name: string; slug: string; image: string | null }[];
+  categories: { name: string; slug: string }[];
+}
+
+type MatchMode = "fulltext" | "fuzzy";
+
+const VISIBLE_PRODUCT = Prisma.sql`
+  p."isActive" AND NOT p."isDisabledByAdmin" AND v."isApproved" AND v."isShopOpen" AND u."isActive"
+`;
+
+/**
+ * Trim, collapse whitespace and cap the length of a search query
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query.trim().replace(/\s+/g, " ").slice(0, MAX_QUERY_LENGTH);
+}
+
+// Scope the trigram threshold to the surrounding transaction
+const setFuzzyThreshold = () =>
+  prisma.$queryRaw`
+    SELECT set_config('pg_trgm.word_similarity_threshold', ${String(FUZZY_MATCH_THRESHOLD)}, true)
+  `;
+
+/**
+ * `WITH catalog AS (...)` - visible products matching the query with the
+ * values the filters, facets and sorting need
+ */
+function catalogCte(query: string, mode: MatchMode): Prisma.Sql {
+  let match = Prisma.sql`TRUE`;
+  let rank = Prisma.sql`0`;
+
+  if (query && mode === "fulltext") {
+    const tsquery = Prisma.sql`websearch_to_tsquery(${SEARCH_CONFIG}::regconfig, ${query})`;
+    match = Prisma.sql`p."searchVector" @@ ${tsquery}`;
+    rank = Prisma.sql`ts_rank_cd(p."searchVector", ${tsquery})`;
+  } else if (query) {
+    const lowered = query.toLowerCase();
+    match = Prisma.sql`${lowered} <% p."searchText"`;
+    rank = Prisma.sql`word_similarity(${lowered}, p."searchText")`;
+  }
+
+  return Prisma.sql`
+    WITH catalog AS (
+      SELECT
+        p.id,
+        p."categoryId",
+        c."parentId" AS "parentCategoryId",
+        p."vendorId",
+        p.name,
+        p."createdAt",
+        coalesce(
+          (SELECT min(p.price + coalesce(pv."priceAdjustment", 0)) FROM "ProductVariant" pv WHERE pv."productId" = p.id),
+          p.price
+        )::float AS price,
+        coalesce(
+          (SELECT sum(pv.stock) FROM "ProductVariant" pv WHERE pv."productId" = p.id),
+          p.stock
+        )::int AS stock,
+        p."averageRating" AS rating,
+        p."reviewCount",
+        p."unitsSold30d" AS "unitsSold",
+        ${rank} AS rank
+      FROM "Product" p
+      JOIN "Category" c ON c.id = p."categoryId"
+      JOIN "Vendor" v ON v.id = p."vendorId"
+      JOIN "User" u ON u.id = v."userId"
+      WHERE ${VISIBLE_PRODUCT} AND ${match}
+    )
+  `;
+}
+
+function optionCondition(facet: OptionFacet, value: string): Prisma.Sql {
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM "ProductOption" o
+    JOIN "ProductOptionValue" ov ON ov."optionId" = o.id
+    WHERE o."productId" = cat.id
+      AND lower(o.name) IN (${Prisma.join([...OPTION_FACETS[facet]])})
+      AND lower(ov.value) = ${value.toLowerCase()}
+  )`;
+}
+
+/**
+ * Filter conditions on `cat` (the catalog CTE), optionally leaving out one
+ * facet's own filter
+ */
+function filterConditions(filters: ProductSearchFilters, except?: FacetKey): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filters.categoryId && except !== "category") {
+    // Includes subcategories
+    conditions.push(
+      Prisma.sql`(cat."categoryId" = ${filters.categoryId} OR cat."parentCategoryId" = ${filters.categoryId})`
+    );
+  }
+  if (filters.vendorId && except !== "vendor") {
+    conditions.push(Prisma.sql`cat."vendorId" = ${filters.vendorId}`);
+  }
+  if (filters.minPrice !== undefined && except !== "price") {
+    conditions.push(Prisma.sql`cat.price >= ${filters.minPrice}`);
+  }
+  if (filters.maxPrice !== undefined && except !== "price") {
+    conditions.push(Prisma.sql`cat.price <= ${filters.maxPrice}`);
+  }
+  if (filters.minRating !== undefined && except !== "rating") {
+    conditions.push(Prisma.sql`cat.rating >= ${filters.minRating}`);
+  }
+  if (filters.size && except !== "size") {
+    conditions.push(optionCondition("size", filters.size));
+  }
+  if (filters.colour && except !== "colour") {
+    conditions.push(optionCondition("colour", filters.colour));
+  }
+  if (filters.inStock) {
+    conditions.push(Prisma.sql`cat.stock > 0`);
+  }
+
+  return conditions.length > 0 ? Prisma.join(conditions, " AND ") : Prisma.sql`TRUE`;
+}
+
+function orderByClause(sortBy: ProductSortField, sortOrder: "asc" | "desc"): Prisma.Sql {
+  const direction = Prisma.raw(sortOrder === "asc" ? "ASC" : "DESC");
+
+  switch (sortBy) {
+    case "relevance":
+      return Prisma.sql`cat.rank DESC, cat."createdAt" DESC, cat.id`;
+    case "price":
+      return Prisma.sql`cat.price ${direction}, cat.id`;
+    case "name":
+      return Prisma.sql`cat.name ${direction}, cat.id`;
+    case "rating":
+      return Prisma.sql`cat.rating ${direction}, cat."reviewCount" DESC, cat.id`;
+    case "bestselling":
+      return Prisma.sql`cat."unitsSold" ${direction}, cat.rating DESC, cat.id`;
+    default:
+      return Prisma.sql`cat."createdAt" ${direction}, cat.id`;
+  }
+}
+
+function optionFacetQuery(cte: Prisma.Sql, filters: ProductSearchFilters, facet: OptionFacet) {
+  return prisma.$queryRaw<FacetCount[]>`
+    ${cte}
+    SELECT ov.value AS value, ov.value AS label, count(DISTINCT cat.id)::int AS count
+    FROM catalog cat
+    JOIN "ProductOption" o ON o."productId" = cat.id
+    JOIN "ProductOptionValue" ov ON ov."optionId" = o.id
+    WHERE ${filterConditions(filters, facet)}
+      AND lower(o.name) IN (${Prisma.join([...OPTION_FACETS[facet]])})
+    GROUP BY ov.value
+    ORDER BY count DESC, ov.value
+    LIMIT ${MAX_OPTION_FACET_VALUES}
+  `;
+}
+
+/**
+ * Whether any visible product matches the full-text query
+ */
+async function hasFullTextMatch(query: string): Promise<boolean> {
+  const [row] = await prisma.$queryRaw<{ matched: boolean }[]>`
+    ${catalogCte(query, "fulltext")}
+    SELECT EXISTS (SELECT 1 FROM catalog) AS matched
+  `;
+  return row?.matched ?? false;
+}
+
+/**
+ * Search, filter, sort and paginate storefront products
+ */
+export async function searchProducts(options: ProductSearchOptions): Promise<ProductSearchResult> {
+  const query = normalizeSearchQuery(options.search ?? "");
+  const mode: MatchMode =
+    !query || (await hasFullTextMatch(query)) ? "fulltext" : "fuzzy";
+
+  const filters: ProductSearchFilters = { ...options, search: query };
+  const sortBy = options.sortBy ?? (query ? "relevance" : "createdAt");
+  const cte = catalogCte(query, mode);
+  const where = filterConditions(filters);
+
+  const [, hits, totals, categories, vendors, priceBuckets, sizes, colours, ratings] =
+    await prisma.$transaction([
+      setFuzzyThreshold(),
+      prisma.$queryRaw<ProductSearchHit[]>`
+        ${cte}
+        SELECT
+          cat.id,
+          cat.price AS "displayPrice",
+          cat.stock AS "totalStock",
+          cat.rating AS "averageRating",
+          cat."reviewCount"
+        FROM catalog cat
+        WHERE ${where}
+        ORDER BY ${orderByClause(sortBy, options.sortOrder ?? "desc")}
+        LIMIT ${options.take} OFFSET ${options.skip}
+      `,
+      prisma.$queryRaw<{ total: number }[]>`
+        ${cte}
+        SELECT count(*)::int AS total FROM catalog cat WHERE ${where}
+      `,
+      prisma.$queryRaw<FacetCount[]>`
+        ${cte}
+        SELECT c.id AS value, c.name AS label, count(*)::int AS count
+        FROM catalog cat
+        JOIN "Category" c ON c.id = cat."categoryId"
+        WHERE ${filterConditions(filters, "category")}
+        GROUP BY c.id, c.name
+        ORDER BY count DESC, c.name
+      `,
+      prisma.$queryRaw<FacetCount[]>`
+        ${cte}
+        SELECT v.id AS value, v."businessName" AS label, count(*)::int AS count
+        FROM catalog cat
+        JOIN "Vendor" v ON v.id = cat."vendorId"
+        WHERE ${filterConditions(filters, "vendor")}
+        GROUP BY v.id, v."businessName"
+        ORDER BY count DESC, v."businessName"
+      `,
+      prisma.$queryRaw<{ bucket: number; count: number }[]>`
+        ${cte}
+        SELECT width_bucket(cat.price, ${PRICE_BUCKET_BOUNDS}::float8[]) AS bucket, count(*)::int AS count
+        FROM catalog cat
+        WHERE ${filterConditions(filters, "price")}
+        GROUP BY bucket
+      `,
+      optionFacetQuery(cte, filters, "size"),
+      optionFacetQuery(cte, filters, "colour"),
+      prisma.$queryRaw<{ stars: number; count: number }[]>`
+        ${cte}
+        SELECT floor(cat.rating)::int AS stars, count(*)::int AS count
+        FROM catalog cat
+        WHERE ${filterConditions(filters, "rating")} AND cat."reviewCount" > 0
+        GROUP BY stars
+      `,
+    ]);
+
+  const bounds = [0, ...PRICE_BUCKET_BOUNDS];
+  const priceRanges = bounds.map((min, i) => ({
+    min,
+    max: PRICE_BUCKET_BOUNDS[i] ?? null,
+    count: priceBuckets.find((b) => b.bucket === i)?.count ?? 0,
+  }));
+
+  // Cumulative: a 4.5 star product counts towards "4 & up" and below
+  const ratingFacets = [4, 3, 2, 1].map((minRating) => ({
+    minRating,
+    count: ratings.filter((r) => r.stars >= minRating).reduce((sum, r) => sum + r.count, 0),
+  }));
+
+  return {
+    hits,
+    total: totals[0]?.total ?? 0,
+    facets: {
+      categories,
+      vendors,
+      priceRanges,
+      sizes,
+      colours,
+      ratings: ratingFacets,
+    },
+    fuzzy: mode === "fuzzy",
+  };
+}
+
+/**
+ * Autocomplete suggestions for the search bar: product names containing or
+ * resembling the query, and matching categories
+ */
+export async function getSearchSuggestions(rawQuery: string): Promise<SearchSuggestions> {
+  const query = normalizeSearchQuery(rawQuery);
+  if (query.length < 2) return { products: [], categories: [] };
+
+  const escaped = query.replace(/[\\%_]/g, "\\$&");
+
+  const [, products, categories] = await prisma.$transaction([
+    setFuzzyThreshold(),
+    prisma.$queryRaw<SearchSuggestions["products"]>`
+      SELECT
+        p.name,
+        p.slug,
+        (SELECT i.url FROM "ProductImage" i WHERE i."productId" = p.id ORDER BY i.position LIMIT 1) AS image
+      FROM "Product" p
+      JOIN "Vendor" v ON v.id = p."vendorId"
+      JOIN "User" u ON u.id = v."userId"
+      WHERE ${VISIBLE_PRODUCT}
+        AND (p.name ILIKE ${`%${escaped}%`} OR ${query.toLowerCase()} <% p.name)
+      ORDER BY
+        (p.name ILIKE ${`${escaped}%`}) DESC,
+        word_similarity(${query.toLowerCase()}, p.name) DESC,
+        p.name
+      LIMIT ${MAX_SUGGESTIONS}
+    `,
+    prisma.category.findMany({
+      where: {
+        isActive: true,
+        name: { contains: query, mode: "insensitive" },
+      },
+      select: { name: true, slug: true },
+      orderBy: { sortOrder: "asc" },
+      take: 3,
+    }),
+  ]);
+
+  return { products, categories };
+}
@@ -0,0 +1,121 @@
+/**
+ * Product search index
+ *
+ * Each product stores a weighted `searchVector` (tsvector) and a plain
+ * `searchText` for trigram matching. Both are derived from the product, its
+ * category (and parent category), its vendor and its variant values, so they
+ * are refreshed whenever any of those change:
+ *   A - product name
+ *   B - category and vendor names
+ *   C - variant values (sizes, colours, ...)
+ *   D - description
+ *
+ * Refreshes never throw - a failed refresh must not fail the save that
+ * triggered it. Products that have never been indexed (new databases, seed
+ * data, failed refreshes on create) are picked up by the search-index job.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export const SEARCH_CONFIG = "english";
+
+const INDEX_BATCH_SIZE = 500;
+
+/**
+ * Recompute the search columns for the products matching a condition on
+ * `p` (Product), `c` (Category) or `pc` (parent Category)
+ *
+ * @returns Number of products updated
+ */
+async function refreshWhere(condition: Prisma.Sql): Promise<number> {
+  return prisma.$executeRaw`
+    WITH src AS (
+      SELECT
+        p.id,
+        p.name,
+        p.description,
+        concat_ws(' ', c.name, pc.name) AS category,
+        v."businessName" AS vendor,
+        coalesce(
+          (SELECT string_agg(DISTINCT pv.value, ' ') FROM "ProductVariant" pv WHERE pv."productId" = p.id),
+          ''
+        ) AS variants
+      FROM "Product" p
+      JOIN "Category" c ON c.id = p."categoryId"
+      LEFT JOIN "Category" pc ON pc.id = c."parentId"
+      JOIN "Vendor" v ON v.id = p."vendorId"
+      WHERE ${condition}
+    )
+    UPDATE "Product" p SET
+      "searchVector" =
+        setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, src.name), 'A') ||
+        setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, src.category || ' ' || src.vendor), 'B') ||
+        setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, src.variants), 'C') ||
+        setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, src.description), 'D'),
+      "searchText" = lower(concat_ws(' ', src.name, src.category, src.vendor, src.variants))
+    FROM src
+    WHERE p.id = src.id
+  `;
+}
+
+async function safeRefresh(condition: Prisma.Sql, label: string): Promise<number> {
+  try {
+    return await refreshWhere(condition);
+  } catch (error) {
+    console.error(`[Search] Failed to refresh search index for ${label}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Refresh products after they (or their variants) were created or edited
+ */
+export async function refreshProductSearchIndex(productIds: string[]): Promise<number> {
+  if (productIds.length === 0) return 0;
+  return safeRefresh(
+    Prisma.sql`p.id IN (${Prisma.join([...new Set(productIds)])})`,
+    `${productIds.length} product(s)`
+  );
+}
+
+/**
+ * Refresh the products in a category (or its subcategories) after it was
+ * renamed or moved
+ */
+export async function refreshCategorySearchIndex(categoryId: string): Promise<number> {
+  return safeRefresh(
+    Prisma.sql`(c.id = ${categoryId} OR c."parentId" = ${categoryId})`,
+    `category ${categoryId}`
+  );
+}
+
+/**
+ * Refresh a vendor's products after the business name changed
+ */
+export async function refreshVendorSearchIndex(vendorId: string): Promise<number> {
+  return safeRefresh(Prisma.sql`p."vendorId" = ${vendorId}`, `vendor ${vendorId}`);
+}
+
+/**
+ * Index products that have never been indexed (background job)
+ */
+export async function indexUnindexedProducts(): Promise<{ indexed: number }> {
+  let indexed = 0;
+
+  while (true) {
+    const count = await refreshWhere(
+      Prisma.sql`p.id IN (
+        SELECT id FROM "Product" WHERE "searchVector" IS NULL LIMIT ${INDEX_BATCH_SIZE}
+      )`
+    );
+    indexed += count;
+    if (count < INDEX_BATCH_SIZE) break;
+  }
+
+  if (indexed > 0) {
+    console.log(`[Search] Indexed ${indexed} product(s)`);
+  }
+
+  return { indexed };
+}
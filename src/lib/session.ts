@@ -0,0 +1,312 @@
+/**
+ * Server-side login sessions
+ *
+ * Every login creates a Session row, and both tokens carry its id. The
+ * middleware rejects access tokens whose session has ended (see
+ * /api/auth/session), so logging out, revoking a device, deactivating an
+ * account or resetting a password takes effect right away.
+ *
+ * Refresh tokens are rotated on every use. A session only accepts its latest
+ * refresh token; presenting an older one means the token was copied, so the
+ * whole session is revoked (reuse detection).
+ */
+
+import { randomBytes } from "crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import { SessionRevokeReason, type Session, type User } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { tokenUtils, type TokenPair, type TokenPayload } from "@/lib/auth";
+import { twoFactorUtils } from "@/lib/twoFactor";
+import { getClientIp } from "@/lib/rateLimit";
+
+// Cookie lifetimes (match JWT_ACCESS_EXPIRY / JWT_REFRESH_EXPIRY)
+const ACCESS_COOKIE_MAX_AGE = 60 * 60; // 1 hour
+const REFRESH_COOKIE_MAX_AGE = 7 * 24 * 60 * 60; // 7 days
+
+// How often lastActiveAt is written while a session is in use
+const ACTIVITY_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+// Ended sessions are kept this long (for the device list and auditing)
+const ENDED_SESSION_RETENTION_DAYS = 30;
+
+// User agent patterns for the device list (checked in order)
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser/, "Samsung Internet"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+type SessionUser = Pick<User, "id" | "email" | "role" | "twoFactorEnabled">;
+
+export type RefreshResult =
+  | { success: true; tokens: TokenPair; user: User }
+  | { success: false; error: string };
+
+const generateTokenId = () => randomBytes(24).toString("base64url");
+
+function buildTokenPayload(user: SessionUser, sessionId: string): TokenPayload {
+  return {
+    userId: user.id,
+    email: user.email!,
+    role: user.role,
+    sessionId,
+    // Limits the session to 2FA enrolment until the user completes it
+    ...(twoFactorUtils.isRequired(user.role) &&
+      !user.twoFactorEnabled && { twoFactorSetupRequired: true }),
+  };
+}
+
+// Expiry of a freshly signed refresh token
+function getRefreshExpiry(refreshToken: string): Date {
+  const { exp } = tokenUtils.decode(refreshToken) as unknown as { exp: number };
+  return new Date(exp * 1000);
+}
+
+function getClientInfo(request: NextRequest) {
+  return {
+    userAgent: request.headers.get("user-agent")?.slice(0, 500) || null,
+    ipAddress: getClientIp(request),
+  };
+}
+
+/**
+ * Start a session for a user who just logged in and issue its tokens
+ */
+export async function createSession(
+  user: SessionUser,
+  request: NextRequest
+): Promise<TokenPair> {
+  const refreshTokenId = generateTokenId();
+
+  // Tokens need the session id and the row needs the token's expiry, so the
+  // id is generated up front
+  const sessionId = generateTokenId();
+  const tokens = tokenUtils.generateTokenPair(buildTokenPayload(user, sessionId), refreshTokenId);
+
+  await prisma.session.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      refreshTokenId,
+      expiresAt: getRefreshExpiry(tokens.refreshToken),
+      ...getClientInfo(request),
+    },
+  });
+
+  return tokens;
+}
+
+/**
+ * Exchange a refresh token for a new token pair (rotation with reuse detection)
+ */
+export async function refreshSession(
+  refreshToken: string,
+  request: NextRequest
+): Promise<RefreshResult> {
+  const payload = tokenUtils.verifyRefreshToken(refreshToken);
+  if (!payload?.sessionId || !payload.tokenId) {
+    return { success: false, error: "Invalid or expired refresh token" };
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: payload.sessionId },
+    include: { user: true },
+  });
+
+  if (
+    !session ||
+    session.userId !== payload.userId ||
+    session.revokedAt ||
+    session.expiresAt <= new Date()
+  ) {
+    return { success: false, error: "Session has ended. Please log in again." };
+  }
+
+  if (session.refreshTokenId !== payload.tokenId) {
+    await revokeSession(session.id, SessionRevokeReason.TOKEN_REUSE);
+    console.warn(`[Session] Refresh token reuse detected, revoked session ${session.id}`);
+    return { success: false, error: "Session has ended. Please log in again." };
+  }
+
+  if (!session.user.isActive) {
+    await revokeSession(session.id, SessionRevokeReason.ACCOUNT_DEACTIVATED);
+    return { success: false, error: "User not found or inactive" };
+  }
+
+  const user = session.user;
+  const refreshTokenId = generateTokenId();
+  const tokens = tokenUtils.generateTokenPair(buildTokenPayload(user, session.id), refreshTokenId);
+
+  // Guarded on the old token id: of two requests racing with the same
+  // token, only one gets new tokens and the other counts as reuse
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenId: payload.tokenId, revokedAt: null },
+    data: {
+      refreshTokenId,
+      expiresAt: getRefreshExpiry(tokens.refreshToken),
+      lastActiveAt: new Date(),
+      ...getClientInfo(request),
+    },
+  });
+
+  if (count === 0) {
+    await revokeSession(session.id, SessionRevokeReason.TOKEN_REUSE);
+    return { success: false, error: "Session has ended. Please log in again." };
+  }
+
+  return { success: true, tokens, user };
+}
+
+/**
+ * Issue new tokens for a session after the user's claims changed (e.g. 2FA
+ * was enabled); the previous refresh token stops working
+ *
+ * @returns null if the session has ended
+ */
+export async function reissueSessionTokens(
+  sessionId: string,
+  user: SessionUser
+): Promise<TokenPair | null> {
+  const refreshTokenId = generateTokenId();
+  const tokens = tokenUtils.generateTokenPair(buildTokenPayload(user, sessionId), refreshTokenId);
+
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, userId: user.id, revokedAt: null, expiresAt: { gt: new Date() } },
+    data: { refreshTokenId, expiresAt: getRefreshExpiry(tokens.refreshToken) },
+  });
+
+  return count > 0 ? tokens : null;
+}
+
+/**
+ * Whether a session can still be used; records activity while it is
+ */
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true, expiresAt: true, lastActiveAt: true },
+  });
+
+  const now = new Date();
+  if (!session || session.userId !== userId || session.revokedAt || session.expiresAt <= now) {
+    return false;
+  }
+
+  if (now.getTime() - session.lastActiveAt.getTime() > ACTIVITY_UPDATE_INTERVAL_MS) {
+    await prisma.session.update({
+      where: { id: sessionId },
+      data: { lastActiveAt: now },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * End one session
+ */
+export async function revokeSession(
+  sessionId: string,
+  reason: SessionRevokeReason
+): Promise<boolean> {
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return count > 0;
+}
+
+/**
+ * End every session of a user, optionally keeping the current one
+ *
+ * @returns Number of sessions ended
+ */
+export async function revokeUserSessions(
+  userId: string,
+  reason: SessionRevokeReason,
+  options: { exceptSessionId?: string } = {}
+): Promise<number> {
+  const { count } = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(options.exceptSessionId && { id: { not: options.exceptSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return count;
+}
+
+/**
+ * A user's sessions that can still be used, most recently active first
+ */
+export async function listActiveSessions(userId: string): Promise<Session[]> {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastActiveAt: "desc" },
+  });
+}
+
+/**
+ * Delete sessions that expired or were revoked more than 30 days ago
+ */
+export async function purgeEndedSessions(): Promise<{ deleted: number }> {
+  const cutoff = new Date(Date.now() - ENDED_SESSION_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const { count } = await prisma.session.deleteMany({
+    where: {
+      OR: [{ expiresAt: { lt: cutoff } }, { revokedAt: { lt: cutoff } }],
+    },
+  });
+  return { deleted: count };
+}
+
+/**
+ * Short device description from a user agent, e.g. "Chrome on Windows"
+ */
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? "Browser";
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * Set the auth cookies read by the middleware
+ */
+export function setAuthCookies(response: NextResponse, tokens: TokenPair): void {
+  response.cookies.set("accessToken", tokens.accessToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: ACCESS_COOKIE_MAX_AGE,
+    path: "/",
+  });
+
+  response.cookies.set("refreshToken", tokens.refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: REFRESH_COOKIE_MAX_AGE,
+    path: "/",
+  });
+}
+
+/**
+ * Clear the auth cookies
+ */
+export function clearAuthCookies(response: NextResponse): void {
+  response.cookies.delete("accessToken");
+  response.cookies.delete("refreshToken");
+}
@@ -0,0 +1,257 @@
+/**
+ * Platform settings
+ *
+ * Typed registry of the admin-editable settings stored in SystemSetting.
+ * Every key has a validation schema and a default; a missing or invalid
+ * stored value falls back to the default, so settings never need seeding.
+ *
+ * Values are cached in memory for SETTINGS_CACHE_TTL_MS (default 30s). An
+ * update clears the cache of the instance that made it; other instances (and
+ * the Socket.io server) pick the change up when their cache expires.
+ */
+
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { DISPUTE_WINDOW_DAYS } from "@/types/dispute";
+import {
+  platformCommissionSettingSchema,
+  payoutMinimumSettingSchema,
+  returnWindowSettingSchema,
+  disputeWindowSettingSchema,
+  otpExpirySettingSchema,
+  maintenanceModeSettingSchema,
+  lowStockThresholdSettingSchema,
+  deliveryAutoConfirmSettingSchema,
+  type UpdateSettingsInput,
+} from "@/lib/validations/settings";
+
+interface SettingDefinition<S extends z.ZodTypeAny> {
+  label: string;
+  description: string;
+  schema: S;
+  defaultValue: z.infer<S>;
+}
+
+const defineSetting = <S extends z.ZodTypeAny>(definition: SettingDefinition<S>) =>
+  definition;
+
+export const SETTINGS = {
+  platform_commission: defineSetting({
+    label: "Default commission rate",
+    description: "Platform commission (%) for new vendors created without a rate",
+    schema: platformCommissionSettingSchema,
+    defaultValue: { rate: parseFloat(process.env.DEFAULT_COMMISSION_RATE || "10") },
+  }),
+  payout_minimum: defineSetting({
+    label: "Minimum payout amount",
+    description: "Smallest payout (Rs.) a vendor can request",
+    schema: payoutMinimumSettingSchema,
+    defaultValue: { amount: 1000 },
+  }),
+  return_window: defineSetting({
+    label: "Return window",
+    description: "Days after delivery within which a customer can request a return",
+    schema: returnWindowSettingSchema,
+    defaultValue: { days: 1 },
+  }),
+  dispute_window: defineSetting({
+    label: "Dispute window",
+    description: "Days after delivery within which a customer can open a dispute",
+    schema: disputeWindowSettingSchema,
+    defaultValue: { days: DISPUTE_WINDOW_DAYS },
+  }),
+  otp_expiry: defineSetting({
+    label: "OTP expiry",
+    description: "Minutes a login code stays valid",
+    schema: otpExpirySettingSchema,
+    defaultValue: { minutes: parseInt(process.env.OTP_EXPIRY_MINUTES || "5", 10) },
+  }),
+  maintenance_mode: defineSetting({
+    label: "Maintenance mode",
+    description: "Take the storefront offline with a message for customers",
+    schema: maintenanceModeSettingSchema,
+    defaultValue: { enabled: false, message: null },
+  }),
+  low_stock_threshold: defineSetting({
+    label: "Default low-stock threshold",
+    description: "Low-stock alert level for new products created without one",
+    schema: lowStockThresholdSettingSchema,
+    defaultValue: { defaultThreshold: 5 },
+  }),
+  delivery_auto_confirm: defineSetting({
+    label: "Delivery auto-confirm",
+    description:
+      "Confirm delivery automatically this many days after the last shipment (customer warned beforehand)",
+    schema: deliveryAutoConfirmSettingSchema,
+    defaultValue: { enabled: true, daysAfterShipped: 21, warningDays: 2 },
+  }),
+};
+
+export type SettingKey = keyof typeof SETTINGS;
+export type SettingValue<K extends SettingKey> = z.infer<(typeof SETTINGS)[K]["schema"]>;
+export type PlatformSettings = { [K in SettingKey]: SettingValue<K> };
+
+export const SETTING_KEYS = Object.keys(SETTINGS) as SettingKey[];
+
+export interface SettingDetails<K extends SettingKey = SettingKey> {
+  key: K;
+  label: string;
+  description: string;
+  value: SettingValue<K>;
+  defaultValue: SettingValue<K>;
+  isDefault: boolean;
+  updatedAt: string | null;
+}
+
+const CACHE_TTL_MS = parseInt(process.env.SETTINGS_CACHE_TTL_MS || "30000", 10);
+
+interface StoredSetting {
+  value: Prisma.JsonValue;
+  updatedAt: Date;
+}
+
+let cache: { rows: Map<string, StoredSetting>; expiresAt: number } | null = null;
+
+/**
+ * Load stored values for all registered keys (cached)
+ */
+async function loadStoredSettings(): Promise<Map<string, StoredSetting>> {
+  if (cache && cache.expiresAt > Date.now()) {
+    return cache.rows;
+  }
+
+  const rows = await prisma.systemSetting.findMany({
+    where: { key: { in: SETTING_KEYS } },
+    select: { key: true, value: true, updatedAt: true },
+  });
+
+  const stored = new Map(
+    rows.map((row) => [row.key, { value: row.value, updatedAt: row.updatedAt }])
+  );
+  cache = { rows: stored, expiresAt: Date.now() + CACHE_TTL_MS };
+
+  return stored;
+}
+
+/**
+ * Merge a stored value over the default and validate it.
+ * Fields missing from the stored value (e.g. added in a later release) take
+ * their default; an invalid value falls back to the default entirely.
+ */
+function resolveSetting<K extends SettingKey>(
+  key: K,
+  stored: Prisma.JsonValue | undefined
+): SettingValue<K> {
+  const definition = SETTINGS[key];
+
+  if (stored === undefined || stored === null || typeof stored !== "object" || Array.isArray(stored)) {
+    return definition.defaultValue as SettingValue<K>;
+  }
+
+  const validation = definition.schema.safeParse({ ...definition.defaultValue, ...stored });
+
+  if (!validation.success) {
+    console.warn(
+      `[Settings] Invalid stored value for ${key}, using default:`,
+      validation.error.issues[0].message
+    );
+    return definition.defaultValue as SettingValue<K>;
+  }
+
+  return validation.data as SettingValue<K>;
+}
+
+/**
+ * Get one platform setting
+ */
+export async function getSetting<K extends SettingKey>(key: K): Promise<SettingValue<K>> {
+  const stored = await loadStoredSettings();
+  return resolveSetting(key, stored.get(key)?.value);
+}
+
+/**
+ * Get every platform setting with its metadata (admin settings page)
+ */
+export async function getSettingDetails(): Promise<SettingDetails[]> {
+  const stored = await loadStoredSettings();
+
+  return SETTING_KEYS.map((key) => {
+    const row = stored.get(key);
+    const value = resolveSetting(key, row?.value);
+
+    return {
+      key,
+      label: SETTINGS[key].label,
+      description: SETTINGS[key].description,
+      value,
+      defaultValue: SETTINGS[key].defaultValue,
+      isDefault: JSON.stringify(value) === JSON.stringify(SETTINGS[key].defaultValue),
+      updatedAt: row?.updatedAt.toISOString() ?? null,
+    };
+  });
+}
+
+/**
+ * Drop cached values so the next read goes to the database
+ */
+export function invalidateSettingsCache(): void {
+  cache = null;
+}
+
+/**
+ * Apply an admin's changes and record each changed key in SystemSettingChange
+ *
+ * @param changes - Partial values per key (already validated)
+ * @param adminUserId - Admin making the change
+ * @returns Keys whose value actually changed
+ */
+export async function updateSettings(
+  changes: UpdateSettingsInput,
+  adminUserId: string
+): Promise<SettingKey[]> {
+  const keys = Object.keys(changes) as SettingKey[];
+
+  const changed = await prisma.$transaction(async (tx) => {
+    const rows = await tx.systemSetting.findMany({
+      where: { key: { in: keys } },
+      select: { key: true, value: true },
+    });
+    const current = new Map(rows.map((row) => [row.key, row.value]));
+
+    const changedKeys: SettingKey[] = [];
+
+    for (const key of keys) {
+      const previousValue = current.has(key)
+        ? resolveSetting(key, current.get(key))
+        : null;
+      const base = previousValue ?? SETTINGS[key].defaultValue;
+      const newValue = SETTINGS[key].schema.parse({ ...base, ...changes[key] });
+
+      if (JSON.stringify(newValue) === JSON.stringify(base)) continue;
+
+      await tx.systemSetting.upsert({
+        where: { key },
+        update: { value: newValue },
+        create: { key, value: newValue },
+      });
+
+      await tx.systemSettingChange.create({
+        data: {
+          key,
+          previousValue: previousValue ?? Prisma.JsonNull,
+          newValue,
+          changedBy: adminUserId,
+        },
+      });
+
+      changedKeys.push(key);
+    }
+
+    return changedKeys;
+  });
+
+  invalidateSettingsCache();
+
+  return changed;
+}
@@ -0,0 +1,79 @@
+/**
+ * Cloudinary storage adapter
+ * Images are processed before upload, so they are stored as-is (no
+ * incoming transformations). Keys map to public IDs under "primewear/".
+ * Private files are "authenticated" assets, fetched server-side through a
+ * short-lived signed download URL.
+ */
+
+import { v2 as cloudinary } from "cloudinary";
+import type { StorageAdapter } from "./types";
+
+cloudinary.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET,
+});
+
+// "products/abc.jpg" → "primewear/products/abc"
+const toPublicId = (key: string) => `primewear/${key.replace(/\.[a-z0-9]+$/i, "")}`;
+
+// Lifetime of the signed URL used to read a private file
+const PRIVATE_URL_TTL_SECONDS = 60;
+
+export const cloudinaryAdapter: StorageAdapter = {
+  driver: "cloudinary",
+
+  async put(key, body, contentType) {
+    const result = await cloudinary.uploader.upload(
+      `data:${contentType};base64,${body.toString("base64")}`,
+      {
+        public_id: toPublicId(key),
+        resource_type: "image",
+        overwrite: false,
+      }
+    );
+    return result.secure_url;
+  },
+
+  async delete(keys) {
+    if (keys.length === 0) return;
+    await cloudinary.api.delete_resources(keys.map(toPublicId));
+  },
+
+  async putPrivate(key, body, contentType) {
+    await cloudinary.uploader.upload(
+      `data:${contentType};base64,${body.toString("base64")}`,
+      {
+        public_id: toPublicId(key),
+        resource_type: "image",
+        type: "authenticated",
+        overwrite: false,
+      }
+    );
+  },
+
+  async getPrivate(key) {
+    const format = key.split(".").pop() ?? "";
+    const url = cloudinary.utils.private_download_url(toPublicId(key), format, {
+      resource_type: "image",
+      type: "authenticated",
+      expires_at: Math.floor(Date.now() / 1000) + PRIVATE_URL_TTL_SECONDS,
+    });
+
+    const response = await fetch(url, { cache: "no-store" });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Cloudinary download failed with status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  },
+
+  async deletePrivate(keys) {
+    if (keys.length === 0) return;
+    await cloudinary.api.delete_resources(keys.map(toPublicId), {
+      resource_type: "image",
+      type: "authenticated",
+    });
+  },
+};
@@ -0,0 +1,106 @@
+/**
+ * Server-side image processing
+ *
+ * Uploads are identified by their magic bytes (the browser-reported MIME type
+ * is not trusted), decoded, auto-rotated and stripped of metadata (EXIF GPS
+ * etc.), capped at MAX_IMAGE_DIMENSION and re-encoded in their own format.
+ * Smaller copies are generated for responsive `srcset`s.
+ */
+
+import sharp from "sharp";
+import { ImageUploadError } from "./types";
+
+export type ImageFormat = "jpeg" | "png" | "webp";
+
+export const MAX_IMAGE_DIMENSION = 1200;
+export const RESPONSIVE_IMAGE_WIDTHS = [320, 640] as const;
+
+const FORMATS: Record<ImageFormat, { contentType: string; extension: string }> = {
+  jpeg: { contentType: "image/jpeg", extension: "jpg" },
+  png: { contentType: "image/png", extension: "png" },
+  webp: { contentType: "image/webp", extension: "webp" },
+};
+
+export interface ProcessedImage {
+  format: ImageFormat;
+  contentType: string;
+  extension: string;
+  width: number;
+  height: number;
+  body: Buffer;
+  sizes: { width: number; body: Buffer }[]; // Only widths smaller than the full image
+}
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0) =>
+  bytes.every((byte, i) => buffer[offset + i] === byte);
+
+/**
+ * Identify an image by its leading bytes
+ *
+ * @returns null if the file is not a JPEG, PNG or WebP image
+ */
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png";
+  // "RIFF" <size> "WEBP"
+  if (startsWith(buffer, [0x52, 0x49, 0x46, 0x46]) && startsWith(buffer, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return "webp";
+  }
+  return null;
+}
+
+function encode(image: sharp.Sharp, format: ImageFormat): sharp.Sharp {
+  switch (format) {
+    case "jpeg":
+      return image.jpeg({ quality: 82, mozjpeg: true });
+    case "png":
+      return image.png({ compressionLevel: 9 });
+    case "webp":
+      return image.webp({ quality: 82 });
+  }
+}
+
+/**
+ * Validate and process an uploaded image
+ *
+ * @throws ImageUploadError if the file is not a supported, readable image
+ */
+export async function processImage(buffer: Buffer): Promise<ProcessedImage> {
+  const format = detectImageFormat(buffer);
+  if (!format) {
+    throw new ImageUploadError("Invalid file format. Only JPG, PNG, and WEBP are allowed.");
+  }
+
+  let full: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    full = await encode(
+      sharp(buffer)
+        .rotate() // Apply EXIF orientation before the metadata is dropped
+        .resize(MAX_IMAGE_DIMENSION, MAX_IMAGE_DIMENSION, {
+          fit: "inside",
+          withoutEnlargement: true,
+        }),
+      format
+    ).toBuffer({ resolveWithObject: true });
+  } catch {
+    throw new ImageUploadError("The image could not be read. It may be corrupted.");
+  }
+
+  const sizes: ProcessedImage["sizes"] = [];
+  for (const width of RESPONSIVE_IMAGE_WIDTHS) {
+    if (width >= full.info.width) continue;
+    sizes.push({
+      width,
+      body: await encode(sharp(full.data).resize({ width }), format).toBuffer(),
+    });
+  }
+
+  return {
+    format,
+    ...FORMATS[format],
+    width: full.info.width,
+    height: full.info.height,
+    body: full.data,
+    sizes,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Local filesystem storage adapter (development and test environments)
+ *
+ * Files are written under UPLOAD_DIR (default: .uploads in the project root)
+ * and served by GET /api/uploads/[...key]. URLs are absolute (based on
+ * NEXT_PUBLIC_APP_URL) so they pass the same URL validation as Cloudinary's.
+ * Private files go to PRIVATE_UPLOAD_DIR (default: .uploads-private), which
+ * nothing serves.
+ */
+
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import type { StorageAdapter } from "./types";
+
+export const LOCAL_UPLOAD_URL_PREFIX = "/api/uploads";
+
+export function getLocalUploadDir(): string {
+  return path.resolve(process.env.UPLOAD_DIR || path.join(process.cwd(), ".uploads"));
+}
+
+function getPrivateUploadDir(): string {
+  return path.resolve(
+    process.env.PRIVATE_UPLOAD_DIR || path.join(process.cwd(), ".uploads-private")
+  );
+}
+
+function resolveInside(root: string, key: string): string | null {
+  const filePath = path.resolve(root, key);
+  return filePath.startsWith(root + path.sep) ? filePath : null;
+}
+
+/**
+ * Resolve a key to a path inside the upload directory
+ *
+ * @returns null if the key would escape the upload directory
+ */
+export function resolveLocalUploadPath(key: string): string | null {
+  return resolveInside(getLocalUploadDir(), key);
+}
+
+export const localAdapter: StorageAdapter = {
+  driver: "local",
+
+  async put(key, body) {
+    const filePath = resolveLocalUploadPath(key);
+    if (!filePath) throw new Error(`Invalid storage key: ${key}`);
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    return `${appUrl}${LOCAL_UPLOAD_URL_PREFIX}/${key}`;
+  },
+
+  async delete(keys) {
+    for (const key of keys) {
+      const filePath = resolveLocalUploadPath(key);
+      if (filePath) await rm(filePath, { force: true });
+    }
+  },
+
+  async putPrivate(key, body) {
+    const filePath = resolveInside(getPrivateUploadDir(), key);
+    if (!filePath) throw new Error(`Invalid storage key: ${key}`);
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+  },
+
+  async getPrivate(key) {
+    const filePath = resolveInside(getPrivateUploadDir(), key);
+    if (!filePath) return null;
+
+    try {
+      return await readFile(filePath);
+    } catch {
+      return null;
+    }
+  },
+
+  async deletePrivate(keys) {
+    for (const key of keys) {
+      const filePath = resolveInside(getPrivateUploadDir(), key);
+      if (filePath) await rm(filePath, { force: true });
+    }
+  },
+};
@@ -0,0 +1,329 @@
+/**
+ * Image storage service
+ *
+ * Stores uploads through the configured storage adapter and records each one
+ * as a StoredImage, so images nothing refers to any more can be deleted:
+ * - releaseImages: called when image references are removed (product images,
+ *   products, review photos, application documents); deletes the images no
+ *   other record uses
+ * - cleanupOrphanedImages: background job for uploads that were never used
+ *   (e.g. removed from a form before submitting) or missed by releaseImages
+ *
+ * Uploads in private folders (identity documents) are stored without a public
+ * URL: their StoredImage url is the key, and they are only read back through
+ * readPrivateImage by routes that check who is asking.
+ *
+ * Configuration (env):
+ *   STORAGE_DRIVER             - "cloudinary" or "local" (default: cloudinary
+ *                                when CLOUDINARY_CLOUD_NAME is set, else local)
+ *   UPLOAD_DIR                 - Local driver directory (default: .uploads)
+ *   PRIVATE_UPLOAD_DIR         - Local driver directory for private uploads
+ *                                (default: .uploads-private)
+ *   IMAGE_ORPHAN_GRACE_HOURS   - Age before an unused upload is deleted (default: 24)
+ */
+
+import { randomUUID } from "crypto";
+import type { Prisma, UserRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { processImage } from "./imagePipeline";
+import { cloudinaryAdapter } from "./cloudinaryAdapter";
+import { localAdapter } from "./localAdapter";
+import { ImageUploadError, type StorageAdapter, type StorageDriver } from "./types";
+
+/**
+ * Upload folders and the roles allowed to upload into each
+ */
+export const UPLOAD_FOLDERS: Record<string, UserRole[]> = {
+  products: ["VENDOR", "ADMIN"],
+  categories: ["ADMIN"],
+  vendors: ["VENDOR", "ADMIN"],
+  disputes: ["CUSTOMER", "ADMIN"],
+  reviews: ["CUSTOMER", "ADMIN"],
+  returns: ["CUSTOMER", "ADMIN"],
+  // Applicants have no account: uploaded through /api/vendor-applications/documents
+  "vendor-applications": [],
+};
+
+/**
+ * Folders whose uploads are never publicly served (see storePrivateImage)
+ */
+export const PRIVATE_UPLOAD_FOLDERS = ["vendor-applications"];
+
+const ADAPTERS: Record<StorageDriver, StorageAdapter> = {
+  cloudinary: cloudinaryAdapter,
+  local: localAdapter,
+};
+
+// Unused uploads older than the grace period but younger than this are swept
+const ORPHAN_LOOKBACK_DAYS = 7;
+const CLEANUP_BATCH_SIZE = 200;
+
+export interface StoredImageSize {
+  width: number;
+  key: string;
+  url: string;
+}
+
+export interface StoredImageResult {
+  url: string;
+  key: string;
+  width: number;
+  height: number;
+  format: string;
+  sizes: { width: number; url: string }[];
+}
+
+/**
+ * Get the configured storage adapter
+ */
+export function getStorageAdapter(): StorageAdapter {
+  const driver = process.env.STORAGE_DRIVER as StorageDriver | undefined;
+  if (driver && ADAPTERS[driver]) return ADAPTERS[driver];
+  return process.env.CLOUDINARY_CLOUD_NAME ? cloudinaryAdapter : localAdapter;
+}
+
+/**
+ * Whether a role may upload into a folder
+ */
+export function canUploadToFolder(folder: string, role: UserRole): boolean {
+  return UPLOAD_FOLDERS[folder]?.includes(role) ?? false;
+}
+
+/**
+ * Process and store an uploaded image with its responsive sizes
+ *
+ * @throws ImageUploadError if the folder is unknown or the file is not a valid image
+ */
+export async function storeImage(
+  file: Buffer,
+  folder: string,
+  uploadedBy: string | null
+): Promise<StoredImageResult> {
+  if (!UPLOAD_FOLDERS[folder] || PRIVATE_UPLOAD_FOLDERS.includes(folder)) {
+    throw new ImageUploadError(`Unknown upload folder "${folder}"`);
+  }
+
+  const image = await processImage(file);
+  const adapter = getStorageAdapter();
+  const baseKey = `${folder}/${randomUUID()}`;
+
+  const key = `${baseKey}.${image.extension}`;
+  const url = await adapter.put(key, image.body, image.contentType);
+
+  const sizes: StoredImageSize[] = [];
+  for (const size of image.sizes) {
+    const sizeKey = `${baseKey}_w${size.width}.${image.extension}`;
+    sizes.push({
+      width: size.width,
+      key: sizeKey,
+      url: await adapter.put(sizeKey, size.body, image.contentType),
+    });
+  }
+
+  await prisma.storedImage.create({
+    data: {
+      key,
+      url,
+      folder,
+      contentType: image.contentType,
+      size: image.body.length,
+      width: image.width,
+      height: image.height,
+      sizes: sizes as unknown as Prisma.InputJsonValue,
+      uploadedBy,
+    },
+  });
+
+  return {
+    url,
+    key,
+    width: image.width,
+    height: image.height,
+    format: image.format,
+    sizes: sizes.map(({ width, url }) => ({ width, url })),
+  };
+}
+
+/**
+ * Process and store an image in a private folder (no responsive sizes)
+ *
+ * @returns The storage key, which is also recorded as the StoredImage url
+ * @throws ImageUploadError if the folder is not private or the file is not a valid image
+ */
+export async function storePrivateImage(
+  file: Buffer,
+  folder: string,
+  uploadedBy: string | null
+): Promise<{ key: string }> {
+  if (!PRIVATE_UPLOAD_FOLDERS.includes(folder)) {
+    throw new ImageUploadError(`Unknown upload folder "${folder}"`);
+  }
+
+  const image = await processImage(file);
+  const key = `${folder}/${randomUUID()}.${image.extension}`;
+  await getStorageAdapter().putPrivate(key, image.body, image.contentType);
+
+  await prisma.storedImage.create({
+    data: {
+      key,
+      url: key,
+      folder,
+      contentType: image.contentType,
+      size: image.body.length,
+      width: image.width,
+      height: image.height,
+      sizes: [],
+      uploadedBy,
+    },
+  });
+
+  return { key };
+}
+
+/**
+ * Read a private upload; callers must check the requester may see it
+ *
+ * @returns null if the key is not a private upload or the file is gone
+ */
+export async function readPrivateImage(
+  key: string
+): Promise<{ body: Buffer; contentType: string } | null> {
+  const image = await prisma.storedImage.findUnique({ where: { key } });
+  if (!image || !PRIVATE_UPLOAD_FOLDERS.includes(image.folder)) return null;
+
+  const body = await getStorageAdapter().getPrivate(key);
+  return body ? { body, contentType: image.contentType } : null;
+}
+
+// Every place an uploaded image URL can be stored
+const IMAGE_REFERENCES: ((url: string) => Promise<number>)[] = [
+  (url) => prisma.productImage.count({ where: { url } }),
+  (url) => prisma.productVariant.count({ where: { imageUrl: url } }),
+  (url) => prisma.category.count({ where: { image: url } }),
+  (url) => prisma.vendor.count({ where: { OR: [{ logo: url }, { banner: url }] } }),
+  (url) => prisma.dispute.count({ where: { evidence: { array_contains: [url] } } }),
+  (url) => prisma.productReview.count({ where: { photos: { array_contains: [url] } } }),
+  (url) => prisma.returnRequest.count({ where: { photos: { array_contains: [url] } } }),
+  // Application documents are private: referenced by key (= their url)
+  (url) =>
+    prisma.vendorApplication.count({ where: { documents: { array_contains: [{ key: url }] } } }),
+  (url) =>
+    prisma.orderItem.count({
+      where: {
+        OR: [
+          { productSnapshot: { path: ["image"], equals: url } },
+          { variantSnapshot: { path: ["imageUrl"], equals: url } },
+        ],
+      },
+    }),
+];
+
+/**
+ * Whether any record still uses an image URL
+ */
+export async function isImageReferenced(url: string): Promise<boolean> {
+  const counts = await Promise.all(IMAGE_REFERENCES.map((count) => count(url)));
+  return counts.some((count) => count > 0);
+}
+
+/**
+ * Delete a stored image and its sizes if nothing uses it any more
+ *
+ * @returns Whether the image was deleted
+ */
+async function deleteIfUnreferenced(image: {
+  id: string;
+  key: string;
+  url: string;
+  folder: string;
+  sizes: unknown;
+}): Promise<boolean> {
+  if (await isImageReferenced(image.url)) return false;
+
+  const adapter = getStorageAdapter();
+  if (PRIVATE_UPLOAD_FOLDERS.includes(image.folder)) {
+    await adapter.deletePrivate([image.key]);
+  } else {
+    const sizes = (image.sizes as StoredImageSize[] | null) ?? [];
+    await adapter.delete([image.key, ...sizes.map((s) => s.key)]);
+  }
+  await prisma.storedImage.delete({ where: { id: image.id } });
+  return true;
+}
+
+/**
+ * Delete the given images that are no longer used anywhere. Call after the
+ * records referring to them have been removed. URLs that weren't uploaded
+ * through storeImage (e.g. seed data) are ignored. Never throws - a failed
+ * deletion is left to cleanupOrphanedImages.
+ *
+ * @returns Number of images deleted
+ */
+export async function releaseImages(urls: string[]): Promise<number> {
+  if (urls.length === 0) return 0;
+
+  let deleted = 0;
+
+  try {
+    const images = await prisma.storedImage.findMany({
+      where: { url: { in: [...new Set(urls)] } },
+    });
+
+    for (const image of images) {
+      try {
+        if (await deleteIfUnreferenced(image)) deleted++;
+      } catch (error) {
+        console.error(`[Storage] Failed to delete image ${image.key}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[Storage] Error releasing images:", error);
+  }
+
+  return deleted;
+}
+
+/**
+ * Delete recent uploads that nothing refers to (background job)
+ */
+export async function cleanupOrphanedImages(): Promise<{
+  checked: number;
+  deleted: number;
+}> {
+  const graceHours = Number(process.env.IMAGE_ORPHAN_GRACE_HOURS) || 24;
+  const before = new Date(Date.now() - graceHours * 60 * 60 * 1000);
+  const after = new Date(before.getTime() - ORPHAN_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  let checked = 0;
+  let deleted = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    const images = await prisma.storedImage.findMany({
+      where: {
+        createdAt: { gte: after, lt: before },
+        ...(cursor && { id: { gt: cursor } }),
+      },
+      orderBy: { id: "asc" },
+      take: CLEANUP_BATCH_SIZE,
+    });
+    if (images.length === 0) break;
+
+    for (const image of images) {
+      checked++;
+      try {
+        if (await deleteIfUnreferenced(image)) deleted++;
+      } catch (error) {
+        console.error(`[Storage] Failed to delete orphaned image ${image.key}:`, error);
+      }
+    }
+
+    cursor = images[images.length - 1].id;
+  }
+
+  if (deleted > 0) {
+    console.log(`[Storage] Deleted ${deleted} orphaned image(s)`);
+  }
+
+  return { checked, deleted };
+}
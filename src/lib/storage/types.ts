@@ -0,0 +1,48 @@
+/**
+ * Storage adapter contracts
+ * Uploaded files are addressed by a key ("products/<uuid>.jpg"); the adapter
+ * decides where the bytes live and which public URL serves them. Private
+ * files have no URL and are only read back on the server.
+ */
+
+export type StorageDriver = "cloudinary" | "local";
+
+export interface StorageAdapter {
+  driver: StorageDriver;
+  /**
+   * Store a file under a key
+   * @returns Public URL of the stored file
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  /**
+   * Delete stored files; keys that don't exist are ignored
+   */
+  delete(keys: string[]): Promise<void>;
+  /**
+   * Store a file that must never be publicly reachable (identity documents)
+   */
+  putPrivate(key: string, body: Buffer, contentType: string): Promise<void>;
+  /**
+   * Read a privately stored file
+   * @returns null if it doesn't exist
+   */
+  getPrivate(key: string): Promise<Buffer | null>;
+  /**
+   * Delete privately stored files; keys that don't exist are ignored
+   */
+  deletePrivate(keys: string[]): Promise<void>;
+}
+
+/**
+ * Thrown when an upload is rejected (unsupported or corrupt file, folder not
+ * allowed); the message is safe to show to the user
+ */
+export class ImageUploadError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "ImageUploadError";
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * AfterShip tracking provider
+ *
+ * Registers the tracking number with AfterShip (idempotent) and reads back
+ * its checkpoints. Used for international couriers and for items shipped
+ * without a carrier, where AfterShip auto-detects the courier.
+ *
+ * Configuration (env):
+ *   AFTERSHIP_API_KEY   - AfterShip API key (required)
+ *
+ * AfterShip free tier: 100 trackings/month — suitable for small platforms.
+ * To get an API key: https://www.aftership.com/
+ */
+
+import type { TrackingEventStatus } from "@prisma/client";
+import type { Shipment, TrackingCheckpoint, TrackingProvider } from "./types";
+
+const AFTERSHIP_API_URL = "https://api.aftership.com/v4";
+
+// AfterShip tag → normalised status (Pending / Expired carry no checkpoint info)
+const TAG_STATUS: Record<string, TrackingEventStatus> = {
+  InfoReceived: "INFO_RECEIVED",
+  InTransit: "IN_TRANSIT",
+  OutForDelivery: "OUT_FOR_DELIVERY",
+  AvailableForPickup: "AVAILABLE_FOR_PICKUP",
+  Delivered: "DELIVERED",
+  AttemptFail: "FAILED_ATTEMPT",
+  Exception: "EXCEPTION",
+};
+
+// Exception subtags meaning the parcel is going back to the sender
+const RETURN_SUBTAGS = ["Exception_010", "Exception_011"];
+
+interface AfterShipCheckpoint {
+  tag: string;
+  subtag?: string;
+  message?: string;
+  location?: string | null;
+  city?: string | null;
+  country_name?: string | null;
+  checkpoint_time: string;
+}
+
+interface AfterShipTracking {
+  tag: string;
+  slug: string;
+  tracking_number: string;
+  checkpoints?: AfterShipCheckpoint[];
+}
+
+interface AfterShipResponse {
+  meta: { code: number; message: string };
+  data?: { tracking?: AfterShipTracking };
+}
+
+function toCheckpoint(checkpoint: AfterShipCheckpoint): TrackingCheckpoint | null {
+  const status =
+    checkpoint.tag === "Exception" && RETURN_SUBTAGS.includes(checkpoint.subtag ?? "")
+      ? "RETURNED_TO_SENDER"
+      : TAG_STATUS[checkpoint.tag];
+
+  const occurredAt = new Date(checkpoint.checkpoint_time);
+  if (!status || isNaN(occurredAt.getTime())) return null;
+
+  return {
+    status,
+    description: checkpoint.message || checkpoint.tag,
+    location:
+      checkpoint.location ||
+      [checkpoint.city, checkpoint.country_name].filter(Boolean).join(", ") ||
+      null,
+    occurredAt,
+  };
+}
+
+/**
+ * Create or retrieve a tracking in AfterShip.
+ * POST is idempotent: returns 201 (new) or 4003 (existing); an existing
+ * tracking is re-read by slug to get its checkpoints.
+ */
+async function fetchCheckpoints(shipment: Shipment): Promise<TrackingCheckpoint[]> {
+  const apiKey = process.env.AFTERSHIP_API_KEY;
+  if (!apiKey) {
+    throw new Error("AFTERSHIP_API_KEY is not set");
+  }
+
+  const response = await fetch(`${AFTERSHIP_API_URL}/trackings`, {
+    method: "POST",
+    headers: {
+      "aftership-api-key": apiKey,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      tracking: { tracking_number: shipment.trackingNumber },
+    }),
+  });
+
+  const data = (await response.json()) as AfterShipResponse;
+  let tracking = data.data?.tracking;
+
+  if (tracking?.slug && !tracking.checkpoints) {
+    const getResponse = await fetch(
+      `${AFTERSHIP_API_URL}/trackings/${tracking.slug}/${encodeURIComponent(shipment.trackingNumber)}`,
+      {
+        headers: { "aftership-api-key": apiKey },
+      }
+    );
+    const getData = (await getResponse.json()) as AfterShipResponse;
+    tracking = getData.data?.tracking ?? tracking;
+  }
+
+  if (!tracking) {
+    throw new Error(`AfterShip error ${data.meta?.code}: ${data.meta?.message}`);
+  }
+
+  return (tracking.checkpoints ?? [])
+    .map(toCheckpoint)
+    .filter((checkpoint): checkpoint is TrackingCheckpoint => checkpoint !== null);
+}
+
+export const aftershipProvider: TrackingProvider = {
+  id: "aftership",
+  fetchCheckpoints,
+};
@@ -0,0 +1,54 @@
+/**
+ * Supported couriers
+ * Safe to import from client components (no server dependencies).
+ *
+ * Each carrier is handled by one tracking provider:
+ * - aftership     → polled by the tracking-poll background job
+ * - local-courier → pushed by the courier webhook or an admin CSV import
+ */
+
+import type { TrackingEventStatus } from "@prisma/client";
+
+export type TrackingProviderId = "aftership" | "local-courier";
+
+export interface Carrier {
+  slug: string;
+  name: string;
+  provider: TrackingProviderId;
+}
+
+export const CARRIERS: Carrier[] = [
+  { slug: "domex", name: "Domex", provider: "local-courier" },
+  { slug: "pronto", name: "Pronto Lanka", provider: "local-courier" },
+  { slug: "koombiyo", name: "Koombiyo Delivery", provider: "local-courier" },
+  { slug: "aftership", name: "Other (tracked via AfterShip)", provider: "aftership" },
+];
+
+export const CARRIER_SLUGS = CARRIERS.map((carrier) => carrier.slug) as [
+  string,
+  ...string[],
+];
+
+/**
+ * Look up a carrier by slug
+ * Items shipped without a carrier (before carriers were recorded) are tracked
+ * through AfterShip's courier auto-detection.
+ */
+export function getCarrier(slug: string | null | undefined): Carrier {
+  return (
+    CARRIERS.find((carrier) => carrier.slug === slug) ??
+    CARRIERS.find((carrier) => carrier.slug === "aftership")!
+  );
+}
+
+// Customer-facing wording for each tracking status
+export const TRACKING_STATUS_LABELS: Record<TrackingEventStatus, string> = {
+  INFO_RECEIVED: "Shipment booked",
+  IN_TRANSIT: "In transit",
+  OUT_FOR_DELIVERY: "Out for delivery",
+  AVAILABLE_FOR_PICKUP: "Ready for pickup",
+  DELIVERED: "Delivered",
+  FAILED_ATTEMPT: "Delivery attempt failed",
+  EXCEPTION: "Shipment problem",
+  RETURNED_TO_SENDER: "Returned to sender",
+};
@@ -0,0 +1,163 @@
+/**
+ * Local courier tracking provider (Domex, Pronto, Koombiyo, ...)
+ *
+ * Sri Lankan couriers don't offer a common tracking API, so their updates are
+ * pushed to us instead: either by the courier's webhook
+ * (POST /api/webhooks/tracking/[carrier]) or by an admin uploading the
+ * courier's CSV export (POST /api/admin/tracking/import).
+ *
+ * Both accept the same fields:
+ *   trackingNumber, status, description?, location?, occurredAt?
+ * `status` is the courier's own wording ("Out for delivery", "Undelivered -
+ * customer not available", "RTS", ...) and is mapped by keyword.
+ */
+
+import Papa from "papaparse";
+import type { TrackingEventStatus } from "@prisma/client";
+import {
+  courierTrackingEventSchema,
+  courierWebhookSchema,
+  type CourierTrackingEventInput,
+} from "@/lib/validations/tracking";
+import {
+  TrackingPayloadError,
+  type TrackingParseResult,
+  type TrackingProvider,
+  type TrackingUpdate,
+} from "./types";
+
+// Checked in order — "undelivered" must hit FAILED_ATTEMPT before DELIVERED
+const STATUS_KEYWORDS: [RegExp, TrackingEventStatus][] = [
+  [/return|\brts\b/, "RETURNED_TO_SENDER"],
+  [/fail|unsuccess|undeliver|attempt|not available|refus|reschedul/, "FAILED_ATTEMPT"],
+  [/out for delivery|with rider|on route|\bofd\b/, "OUT_FOR_DELIVERY"],
+  [/deliver/, "DELIVERED"],
+  [/available for pick|ready for (collection|pick)|pickup point/, "AVAILABLE_FOR_PICKUP"],
+  [/hold|damage|lost|missing|delay|exception/, "EXCEPTION"],
+  [/transit|dispatch|picked|collected|arrived|hub|branch|forward/, "IN_TRANSIT"],
+  [/book|created|info|received|pending|accept/, "INFO_RECEIVED"],
+];
+
+// CSV header aliases seen in courier exports → our field names
+const CSV_HEADERS: Record<string, keyof CourierTrackingEventInput> = {
+  trackingnumber: "trackingNumber",
+  tracking: "trackingNumber",
+  waybill: "trackingNumber",
+  waybillno: "trackingNumber",
+  status: "status",
+  description: "description",
+  remark: "description",
+  remarks: "description",
+  location: "location",
+  branch: "location",
+  occurredat: "occurredAt",
+  date: "occurredAt",
+  datetime: "occurredAt",
+  updatedat: "occurredAt",
+};
+
+/**
+ * Map a courier's status text to a tracking status
+ *
+ * @returns null if the wording is not recognised
+ */
+export function normalizeCourierStatus(raw: string): TrackingEventStatus | null {
+  const text = raw.toLowerCase().replace(/[_-]+/g, " ");
+  const match = STATUS_KEYWORDS.find(([pattern]) => pattern.test(text));
+  return match ? match[1] : null;
+}
+
+/**
+ * Convert validated courier events into tracking updates (one per tracking number)
+ */
+function toUpdates(
+  events: { event: CourierTrackingEventInput; label: string }[]
+): TrackingParseResult {
+  const byNumber = new Map<string, TrackingUpdate>();
+  const skipped: string[] = [];
+
+  for (const { event, label } of events) {
+    const status = normalizeCourierStatus(event.status);
+    if (!status) {
+      skipped.push(`${label}: unrecognised status "${event.status}"`);
+      continue;
+    }
+
+    const update = byNumber.get(event.trackingNumber) ?? {
+      trackingNumber: event.trackingNumber,
+      checkpoints: [],
+    };
+
+    update.checkpoints.push({
+      status,
+      description: event.description || event.status,
+      location: event.location || null,
+      occurredAt: event.occurredAt ?? new Date(),
+    });
+
+    byNumber.set(event.trackingNumber, update);
+  }
+
+  return { updates: [...byNumber.values()], skipped };
+}
+
+function parseWebhook(payload: unknown): TrackingParseResult {
+  const validation = courierWebhookSchema.safeParse(payload);
+
+  if (!validation.success) {
+    throw new TrackingPayloadError(validation.error.issues[0].message);
+  }
+
+  const events = "events" in validation.data ? validation.data.events : [validation.data];
+
+  return toUpdates(
+    events.map((event, index) => ({ event, label: `Event ${index + 1}` }))
+  );
+}
+
+function parseCsv(csv: string): TrackingParseResult {
+  const parsed = Papa.parse<Record<string, string>>(csv.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) =>
+      CSV_HEADERS[header.toLowerCase().replace(/[^a-z]/g, "")] ?? header,
+  });
+
+  const fields = parsed.meta.fields ?? [];
+  if (!fields.includes("trackingNumber") || !fields.includes("status")) {
+    throw new TrackingPayloadError(
+      "CSV must have a header row with tracking number and status columns"
+    );
+  }
+
+  const events: { event: CourierTrackingEventInput; label: string }[] = [];
+  const skipped: string[] = [];
+
+  parsed.data.forEach((row, index) => {
+    // Header is line 1
+    const label = `Row ${index + 2}`;
+    const validation = courierTrackingEventSchema.safeParse({
+      trackingNumber: row.trackingNumber,
+      status: row.status,
+      description: row.description || null,
+      location: row.location || null,
+      occurredAt: row.occurredAt || undefined,
+    });
+
+    if (!validation.success) {
+      skipped.push(`${label}: ${validation.error.issues[0].message}`);
+      return;
+    }
+
+    events.push({ event: validation.data, label });
+  });
+
+  const result = toUpdates(events);
+  return { updates: result.updates, skipped: [...skipped, ...result.skipped] };
+}
+
+export const localCourierProvider: TrackingProvider = {
+  id: "local-courier",
+  parseWebhook,
+  parseCsv,
+};
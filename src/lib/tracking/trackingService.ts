@@ -0,0 +1,385 @@
+/**
+ * Shipment tracking service
+ *
+ * Stores checkpoints from any tracking provider against the matching order
+ * items and reacts to them:
+ * - DELIVERED on every tracked item of a SHIPPED order → markOrderDelivered
+ *   (releases escrow)
+ * - Failed delivery, exceptions and return-to-sender → customer and vendor
+ *   are notified
+ */
+
+import type { TrackingEvent, TrackingEventStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { markOrderDelivered } from "@/lib/utils/markOrderDelivered";
+import { createNotification } from "@/lib/notifications/notificationService";
+import { NotificationType } from "@/types/notification";
+import type { ShipmentDetails } from "@/types/order";
+import { getCarrier, type TrackingProviderId } from "./carriers";
+import { aftershipProvider } from "./aftershipProvider";
+import { localCourierProvider } from "./localCourierProvider";
+import type { TrackingCheckpoint, TrackingProvider, TrackingUpdate } from "./types";
+
+const PROVIDERS: Record<TrackingProviderId, TrackingProvider> = {
+  aftership: aftershipProvider,
+  "local-courier": localCourierProvider,
+};
+
+// Statuses that need the customer's or vendor's attention
+const EXCEPTION_STATUSES: TrackingEventStatus[] = [
+  "FAILED_ATTEMPT",
+  "EXCEPTION",
+  "RETURNED_TO_SENDER",
+];
+
+export interface RecordTrackingResult {
+  matchedItems: number;
+  recorded: number;
+  deliveredOrders: number;
+}
+
+/**
+ * Get the provider responsible for a carrier
+ */
+export function getTrackingProvider(carrier: string | null): TrackingProvider {
+  return PROVIDERS[getCarrier(carrier).provider];
+}
+
+const checkpointKey = (checkpoint: { status: string; occurredAt: Date }) =>
+  `${checkpoint.status}|${checkpoint.occurredAt.getTime()}`;
+
+/**
+ * Group order items into shipments for display, one per tracking number.
+ * Items shipped together carry copies of the same checkpoints, so events are
+ * de-duplicated.
+ */
+export function groupShipments(
+  items: {
+    trackingNumber: string | null;
+    trackingUrl: string | null;
+    carrier: string | null;
+    trackingStatus: TrackingEventStatus | null;
+    trackingEvents: TrackingEvent[];
+  }[]
+): ShipmentDetails[] {
+  const shipments = new Map<string, ShipmentDetails>();
+
+  for (const item of items) {
+    if (!item.trackingNumber) continue;
+
+    const shipment = shipments.get(item.trackingNumber) ?? {
+      trackingNumber: item.trackingNumber,
+      trackingUrl: item.trackingUrl,
+      carrier: item.carrier,
+      carrierName: getCarrier(item.carrier).name,
+      trackingStatus: item.trackingStatus,
+      events: [],
+    };
+
+    const seen = new Set(
+      shipment.events.map((event) =>
+        checkpointKey({ status: event.status, occurredAt: new Date(event.occurredAt) })
+      )
+    );
+
+    for (const event of item.trackingEvents) {
+      if (seen.has(checkpointKey(event))) continue;
+      seen.add(checkpointKey(event));
+      shipment.events.push({
+        id: event.id,
+        status: event.status,
+        description: event.description,
+        location: event.location,
+        occurredAt: event.occurredAt.toISOString(),
+      });
+    }
+
+    shipments.set(item.trackingNumber, shipment);
+  }
+
+  return [...shipments.values()].map((shipment) => ({
+    ...shipment,
+    events: shipment.events.sort((a, b) => b.occurredAt.localeCompare(a.occurredAt)),
+  }));
+}
+
+/**
+ * Notify the customer and vendor about a delivery problem (non-blocking)
+ */
+async function notifyShipmentException(
+  item: {
+    id: string;
+    orderId: string;
+    productSnapshot: unknown;
+    trackingNumber: string | null;
+    order: { orderNumber: string; customer: { userId: string } };
+    vendor: { userId: string };
+  },
+  checkpoint: TrackingCheckpoint
+): Promise<void> {
+  const productName = (item.productSnapshot as { name?: string } | null)?.name;
+
+  const recipients = [
+    { userId: item.order.customer.userId, recipientRole: "CUSTOMER" },
+    { userId: item.vendor.userId, recipientRole: "VENDOR" },
+  ];
+
+  for (const recipient of recipients) {
+    try {
+      await createNotification({
+        userId: recipient.userId,
+        type: NotificationType.ORDER_SHIPMENT_EXCEPTION,
+        metadata: {
+          orderId: item.orderId,
+          orderNumber: item.order.orderNumber,
+          orderItemId: item.id,
+          productName,
+          trackingNumber: item.trackingNumber ?? undefined,
+          trackingStatus: checkpoint.status,
+          reason: checkpoint.description,
+          recipientRole: recipient.recipientRole,
+        },
+      });
+    } catch (notifError) {
+      console.error("[Tracking] Failed to send exception notification:", notifError);
+    }
+  }
+}
+
+/**
+ * Mark the order delivered once every tracked item has been delivered
+ *
+ * @returns true if the order was marked delivered by this call
+ */
+async function completeOrderIfDelivered(orderId: string): Promise<boolean> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      status: true,
+      deliveryConfirmedAt: true,
+      items: {
+        where: { trackingNumber: { not: null } },
+        select: { trackingStatus: true },
+      },
+    },
+  });
+
+  if (
+    !order ||
+    order.status !== "SHIPPED" ||
+    order.deliveryConfirmedAt !== null ||
+    !order.items.every((item) => item.trackingStatus === "DELIVERED")
+  ) {
+    return false;
+  }
+
+  const result = await markOrderDelivered(orderId, "tracking");
+  if (!result.success) {
+    console.warn(`[Tracking] Could not mark order ${orderId} delivered: ${result.message}`);
+  }
+  return result.success && !result.alreadyDelivered;
+}
+
+/**
+ * Store the checkpoints of one tracking number against every order item
+ * shipped with it. Checkpoints already stored are ignored, so providers can
+ * resend their full history.
+ *
+ * @param provider - Provider that reported the update
+ * @param carrier - Courier slug the items were shipped with (null = not recorded)
+ * @param update - Tracking number and its checkpoints
+ */
+export async function recordTrackingUpdate(
+  provider: TrackingProviderId,
+  carrier: string | null,
+  update: TrackingUpdate
+): Promise<RecordTrackingResult> {
+  const items = await prisma.orderItem.findMany({
+    where: {
+      trackingNumber: update.trackingNumber,
+      carrier,
+      status: { notIn: ["CANCELLED", "REFUNDED"] },
+    },
+    select: {
+      id: true,
+      orderId: true,
+      productSnapshot: true,
+      trackingNumber: true,
+      trackingStatus: true,
+      order: {
+        select: {
+          orderNumber: true,
+          customer: { select: { userId: true } },
+        },
+      },
+      vendor: { select: { userId: true } },
+      trackingEvents: {
+        select: { status: true, occurredAt: true },
+      },
+    },
+  });
+
+  const result: RecordTrackingResult = {
+    matchedItems: items.length,
+    recorded: 0,
+    deliveredOrders: 0,
+  };
+
+  const ordersToCheck = new Set<string>();
+
+  for (const item of items) {
+    const seen = new Set(item.trackingEvents.map(checkpointKey));
+    const fresh: TrackingCheckpoint[] = [];
+
+    for (const checkpoint of update.checkpoints) {
+      const key = checkpointKey(checkpoint);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      fresh.push(checkpoint);
+    }
+
+    if (fresh.length === 0) continue;
+
+    const { count } = await prisma.trackingEvent.createMany({
+      data: fresh.map((checkpoint) => ({
+        orderItemId: item.id,
+        provider,
+        carrier,
+        status: checkpoint.status,
+        description: checkpoint.description,
+        location: checkpoint.location,
+        occurredAt: checkpoint.occurredAt,
+      })),
+      skipDuplicates: true,
+    });
+    result.recorded += count;
+
+    // The item's status follows its most recent checkpoint
+    const latest = [...item.trackingEvents, ...fresh].reduce((a, b) =>
+      b.occurredAt > a.occurredAt ? b : a
+    );
+
+    if (latest.status !== item.trackingStatus) {
+      await prisma.orderItem.update({
+        where: { id: item.id },
+        data: { trackingStatus: latest.status },
+      });
+    }
+
+    // Only alert on a problem that is still the current state
+    const latestFresh = fresh.reduce((a, b) => (b.occurredAt > a.occurredAt ? b : a));
+    if (latestFresh === latest && EXCEPTION_STATUSES.includes(latestFresh.status)) {
+      await notifyShipmentException(item, latestFresh);
+    }
+
+    if (latest.status === "DELIVERED") {
+      ordersToCheck.add(item.orderId);
+    }
+  }
+
+  for (const orderId of ordersToCheck) {
+    if (await completeOrderIfDelivered(orderId)) {
+      result.deliveredOrders++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Record updates pushed for a carrier (webhook or CSV import)
+ *
+ * @returns Totals plus the tracking numbers that matched no shipped item
+ */
+export async function ingestTrackingUpdates(
+  carrier: string,
+  updates: TrackingUpdate[]
+): Promise<RecordTrackingResult & { unmatched: string[] }> {
+  const provider = getCarrier(carrier).provider;
+  const totals = { matchedItems: 0, recorded: 0, deliveredOrders: 0 };
+  const unmatched: string[] = [];
+
+  for (const update of updates) {
+    const result = await recordTrackingUpdate(provider, carrier, update);
+
+    if (result.matchedItems === 0) {
+      unmatched.push(update.trackingNumber);
+      continue;
+    }
+
+    totals.matchedItems += result.matchedItems;
+    totals.recorded += result.recorded;
+    totals.deliveredOrders += result.deliveredOrders;
+  }
+
+  return { ...totals, unmatched };
+}
+
+/**
+ * One poll cycle: fetch checkpoints for every shipped item tracked by a
+ * polling provider (AfterShip). Run by the tracking-poll background job.
+ *
+ * @returns Number of shipments checked, events recorded and orders delivered
+ */
+export async function pollTrackedShipments(): Promise<{
+  checked: number;
+  recorded: number;
+  delivered: number;
+}> {
+  const shippedItems = await prisma.orderItem.findMany({
+    where: {
+      status: "SHIPPED",
+      trackingNumber: { not: null },
+      order: {
+        status: "SHIPPED",
+        deliveryConfirmedAt: null,
+      },
+    },
+    select: { trackingNumber: true, carrier: true },
+  });
+
+  // One request per shipment, even if it carries several items
+  const shipments = new Map<string, { trackingNumber: string; carrier: string | null }>();
+  for (const item of shippedItems) {
+    const provider = getTrackingProvider(item.carrier);
+    if (!provider.fetchCheckpoints) continue;
+    shipments.set(`${item.carrier}|${item.trackingNumber}`, {
+      trackingNumber: item.trackingNumber!,
+      carrier: item.carrier,
+    });
+  }
+
+  const totals = { checked: 0, recorded: 0, delivered: 0 };
+
+  for (const shipment of shipments.values()) {
+    const provider = getTrackingProvider(shipment.carrier);
+
+    try {
+      const checkpoints = await provider.fetchCheckpoints!(shipment);
+      const result = await recordTrackingUpdate(provider.id, shipment.carrier, {
+        trackingNumber: shipment.trackingNumber,
+        checkpoints,
+      });
+
+      totals.checked++;
+      totals.recorded += result.recorded;
+      totals.delivered += result.deliveredOrders;
+    } catch (error) {
+      console.error(
+        `[Tracking] Error checking tracking ${shipment.trackingNumber}:`,
+        error
+      );
+    }
+
+    // Brief pause between provider requests to avoid rate-limiting
+    await new Promise<void>((resolve) => setTimeout(resolve, 300));
+  }
+
+  if (totals.recorded > 0) {
+    console.log(
+      `[Tracking] Poll: ${totals.checked} shipment(s) checked, ${totals.recorded} new event(s), ${totals.delivered} order(s) delivered`
+    );
+  }
+
+  return totals;
+}
@@ -0,0 +1,68 @@
+/**
+ * Tracking provider contracts
+ * Every provider normalises its courier's statuses to TrackingEventStatus so
+ * checkpoints from any source can be stored and shown the same way.
+ */
+
+import type { TrackingEventStatus } from "@prisma/client";
+import type { TrackingProviderId } from "./carriers";
+
+/**
+ * A single courier checkpoint
+ */
+export interface TrackingCheckpoint {
+  status: TrackingEventStatus;
+  description: string;
+  location: string | null;
+  occurredAt: Date;
+}
+
+/**
+ * Checkpoints reported for one tracking number
+ */
+export interface TrackingUpdate {
+  trackingNumber: string;
+  checkpoints: TrackingCheckpoint[];
+}
+
+/**
+ * Result of parsing pushed tracking data; rows that could not be understood
+ * are reported in `skipped` rather than failing the whole batch
+ */
+export interface TrackingParseResult {
+  updates: TrackingUpdate[];
+  skipped: string[];
+}
+
+export interface Shipment {
+  trackingNumber: string;
+  carrier: string | null;
+}
+
+export interface TrackingProvider {
+  id: TrackingProviderId;
+  /**
+   * Polling providers: fetch all checkpoints for a shipment
+   */
+  fetchCheckpoints?(shipment: Shipment): Promise<TrackingCheckpoint[]>;
+  /**
+   * Push providers: parse a webhook body
+   * @throws TrackingPayloadError when the body is invalid
+   */
+  parseWebhook?(payload: unknown): TrackingParseResult;
+  /**
+   * Push providers: parse a courier CSV export
+   * @throws TrackingPayloadError when the file is invalid
+   */
+  parseCsv?(csv: string): TrackingParseResult;
+}
+
+/**
+ * Thrown when pushed tracking data cannot be parsed
+ */
+export class TrackingPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrackingPayloadError";
+  }
+}
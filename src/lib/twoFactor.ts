@@ -0,0 +1,357 @@
+/**
+ * Two-factor authentication (TOTP, RFC 6238)
+ *
+ * Admins must enrol before they can use the dashboard; vendors can opt in
+ * from their settings. Enrolment generates a secret that is kept in Redis
+ * until the user proves their authenticator app works, then stored encrypted
+ * on the user together with hashed one-time recovery codes.
+ *
+ * Logging in with 2FA is two steps: the password step returns a short-lived
+ * challenge token instead of a session, and the challenge is completed with a
+ * code from the app or a recovery code. Code checks share the OTP rate limit
+ * (otpUtils.checkRateLimit) and a used code can't be replayed.
+ *
+ * Configuration (env):
+ *   TWO_FACTOR_ENCRYPTION_KEY - Key for secrets at rest (default: derived from JWT_SECRET)
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from "crypto";
+import { UserRole, type User } from "@prisma/client";
+import { prisma } from "./prisma";
+import { redisHelpers } from "./redis";
+import { otpUtils } from "./otp";
+
+export const TWO_FACTOR_ISSUER = "PrimeWear";
+
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Accept the previous and next code for clock drift
+const RECOVERY_CODE_COUNT = 10;
+const SETUP_TTL_SECONDS = 10 * 60; // Finish enrolment within 10 minutes
+const CHALLENGE_TTL_SECONDS = 5 * 60; // Finish login within 5 minutes
+const CHALLENGE_MAX_ATTEMPTS = 5;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// Redis key patterns
+const setupKey = (userId: string) => `2fa:setup:${userId}`;
+const challengeKey = (token: string) => `2fa:challenge:${token}`;
+const lastUsedStepKey = (userId: string) => `2fa:used:${userId}`;
+const rateLimitIdentifier = (userId: string) => `2fa:${userId}`;
+
+export type TwoFactorResult =
+  | { success: true }
+  | { success: false; message: string };
+
+const encryptionKey = createHash("sha256")
+  .update(process.env.TWO_FACTOR_ENCRYPTION_KEY || `2fa:${process.env.JWT_SECRET}`)
+  .digest();
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.replace(/=+$/, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// HOTP (RFC 4226) code for a counter
+function generateHotp(secret: string, counter: number): string {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(buffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+// Time step the code matches, or null
+function matchTotp(secret: string, code: string): number | null {
+  if (!/^\d{6}$/.test(code)) return null;
+
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    if (generateHotp(secret, currentStep + offset) === code) {
+      return currentStep + offset;
+    }
+  }
+  return null;
+}
+
+function encryptSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(":");
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split(":").map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, "").toLowerCase();
+
+const hashRecoveryCode = (code: string) =>
+  createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Check a TOTP code against a secret, rejecting codes already used by this
+ * user (a code stays valid for up to 90 seconds)
+ */
+async function verifyTotpOnce(userId: string, secret: string, code: string): Promise<boolean> {
+  const step = matchTotp(secret, code);
+  if (step === null) return false;
+
+  const lastUsed = await redisHelpers.get(lastUsedStepKey(userId));
+  if (lastUsed && step <= parseInt(lastUsed, 10)) return false;
+
+  await redisHelpers.setWithExpiry(
+    lastUsedStepKey(userId),
+    String(step),
+    TOTP_PERIOD_SECONDS * (TOTP_WINDOW * 2 + 1)
+  );
+  return true;
+}
+
+export const twoFactorUtils = {
+  /**
+   * Whether the role must use two-factor authentication
+   */
+  isRequired(role: UserRole): boolean {
+    return role === UserRole.ADMIN;
+  },
+
+  /**
+   * Whether the role can use two-factor authentication
+   */
+  isAvailable(role: UserRole): boolean {
+    return role === UserRole.ADMIN || role === UserRole.VENDOR;
+  },
+
+  /**
+   * Provisioning URI for authenticator apps (the content of the setup QR code)
+   */
+  getOtpauthUrl(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${TWO_FACTOR_ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: TWO_FACTOR_ISSUER,
+      algorithm: "SHA1",
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params}`;
+  },
+
+  /**
+   * Start enrolment: generate a secret and keep it until the user verifies it
+   */
+  async startSetup(
+    user: Pick<User, "id" | "email">
+  ): Promise<{ secret: string; otpauthUrl: string }> {
+    const secret = base32Encode(randomBytes(20));
+    await redisHelpers.setWithExpiry(setupKey(user.id), encryptSecret(secret), SETUP_TTL_SECONDS);
+
+    return { secret, otpauthUrl: this.getOtpauthUrl(secret, user.email || user.id) };
+  },
+
+  /**
+   * Finish enrolment with a code from the app
+   *
+   * @returns The recovery codes (shown to the user once)
+   */
+  async completeSetup(
+    userId: string,
+    code: string
+  ): Promise<{ success: true; recoveryCodes: string[] } | { success: false; message: string }> {
+    if (!(await otpUtils.checkRateLimit(rateLimitIdentifier(userId)))) {
+      return { success: false, message: "Too many attempts. Please wait a minute." };
+    }
+
+    const pending = await redisHelpers.get(setupKey(userId));
+    if (!pending) {
+      return { success: false, message: "Setup expired. Please start again." };
+    }
+
+    const secret = decryptSecret(pending);
+    if (!(await verifyTotpOnce(userId, secret, code))) {
+      return { success: false, message: "Invalid code. Check your authenticator app and try again." };
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorSecret: pending,
+        twoFactorRecoveryCodes: hashes,
+        twoFactorEnabledAt: new Date(),
+      },
+    });
+    await redisHelpers.delete(setupKey(userId));
+
+    return { success: true, recoveryCodes: codes };
+  },
+
+  /**
+   * Check a code from the app or an unused recovery code (which is used up)
+   */
+  async verifyUserCode(
+    user: Pick<User, "id" | "twoFactorSecret" | "twoFactorRecoveryCodes">,
+    code: string
+  ): Promise<TwoFactorResult> {
+    if (!user.twoFactorSecret) {
+      return { success: false, message: "Two-factor authentication is not enabled" };
+    }
+
+    if (!(await otpUtils.checkRateLimit(rateLimitIdentifier(user.id)))) {
+      return { success: false, message: "Too many attempts. Please wait a minute." };
+    }
+
+    const trimmed = code.trim();
+    if (await verifyTotpOnce(user.id, decryptSecret(user.twoFactorSecret), trimmed)) {
+      return { success: true };
+    }
+
+    const hash = hashRecoveryCode(trimmed);
+    if (user.twoFactorRecoveryCodes.includes(hash)) {
+      // Guarded on the code still being there, so it can only be used once
+      const { count } = await prisma.user.updateMany({
+        where: { id: user.id, twoFactorRecoveryCodes: { has: hash } },
+        data: {
+          twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter((h) => h !== hash),
+        },
+      });
+      if (count > 0) return { success: true };
+    }
+
+    return { success: false, message: "Invalid authentication code" };
+  },
+
+  /**
+   * Replace the recovery codes
+   */
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const { codes, hashes } = generateRecoveryCodes();
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorRecoveryCodes: hashes },
+    });
+    return codes;
+  },
+
+  /**
+   * Turn two-factor authentication off
+   */
+  async disable(userId: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorEnabledAt: null,
+      },
+    });
+  },
+
+  /**
+   * Second login step: issue a challenge after the password was accepted
+   */
+  async createChallenge(userId: string): Promise<string> {
+    const token = randomBytes(24).toString("base64url");
+    await redisHelpers.setHashWithExpiry(
+      challengeKey(token),
+      { userId, attempts: 0 },
+      CHALLENGE_TTL_SECONDS
+    );
+    return token;
+  },
+
+  /**
+   * Complete a login challenge
+   *
+   * @returns The user to log in when the code is valid
+   */
+  async verifyChallenge(
+    token: string,
+    code: string
+  ): Promise<{ success: true; user: User } | { success: false; message: string }> {
+    const key = challengeKey(token);
+
+    // Count the attempt before checking the code, atomically, so parallel
+    // requests can't all pass the limit
+    const attempts = await redisHelpers.incrementHashFieldIfExists(key, "attempts");
+    if (attempts === null) {
+      return { success: false, message: "Login expired. Please sign in again." };
+    }
+    if (attempts > CHALLENGE_MAX_ATTEMPTS) {
+      await redisHelpers.delete(key);
+      return { success: false, message: "Maximum verification attempts exceeded. Please sign in again." };
+    }
+
+    const userId = await redisHelpers.getHashField(key, "userId");
+    const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
+    if (!user || !user.isActive || !user.twoFactorEnabled) {
+      await redisHelpers.delete(key);
+      return { success: false, message: "Login expired. Please sign in again." };
+    }
+
+    const result = await this.verifyUserCode(user, code);
+    if (!result.success) {
+      return result;
+    }
+
+    // Consume the challenge; only the request that deletes it logs in
+    const consumed = await redisHelpers.delete(key);
+    if (consumed !== 1) {
+      return { success: false, message: "Login expired. Please sign in again." };
+    }
+    return { success: true, user };
+  },
+};
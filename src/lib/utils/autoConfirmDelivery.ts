@@ -0,0 +1,216 @@
+/**
+ * Automatic delivery confirmation
+ *
+ * Customers often never click "Confirm delivery", which would leave vendor
+ * funds in escrow indefinitely. Once a shipped order's grace period has passed
+ * it is confirmed through markOrderDelivered, which releases the funds.
+ *
+ * - The grace period starts at the order's last shipment
+ * - The customer is warned `warningDays` before confirmation
+ * - An open dispute pauses the timer; time spent in dispute is added back
+ *
+ * Configured by the `delivery_auto_confirm` platform setting:
+ *   { "enabled": true, "daysAfterShipped": 21, "warningDays": 2 }
+ */
+
+import { DisputeStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { markOrderDelivered } from "@/lib/utils/markOrderDelivered";
+import { createNotification } from "@/lib/notifications/notificationService";
+import { NotificationType } from "@/types/notification";
+import { getSetting, type SettingValue } from "@/lib/settings";
+
+export type AutoConfirmSettings = SettingValue<"delivery_auto_confirm">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Disputes that pause the timer
+const OPEN_DISPUTE_STATUSES: DisputeStatus[] = ["OPEN", "IN_REVIEW"];
+
+interface DisputePeriod {
+  createdAt: Date;
+  resolvedAt: Date | null;
+  updatedAt: Date;
+}
+
+/**
+ * Read the auto-confirm setting; the warning never starts before shipping
+ */
+export async function getAutoConfirmSettings(): Promise<AutoConfirmSettings> {
+  const settings = await getSetting("delivery_auto_confirm");
+
+  return {
+    ...settings,
+    warningDays: Math.min(settings.warningDays, settings.daysAfterShipped),
+  };
+}
+
+/**
+ * When an order's delivery will be auto-confirmed: the grace period after its
+ * last shipment, extended by the time it spent in (closed) disputes since then
+ */
+export function getAutoConfirmDate(
+  lastShippedAt: Date,
+  disputes: DisputePeriod[],
+  settings: AutoConfirmSettings
+): Date {
+  const pausedMs = disputes.reduce((sum, dispute) => {
+    const start = Math.max(dispute.createdAt.getTime(), lastShippedAt.getTime());
+    const end = (dispute.resolvedAt ?? dispute.updatedAt).getTime();
+    return sum + Math.max(end - start, 0);
+  }, 0);
+
+  return new Date(
+    lastShippedAt.getTime() + settings.daysAfterShipped * DAY_MS + pausedMs
+  );
+}
+
+/**
+ * Warn the customer (once) that delivery will be confirmed automatically
+ *
+ * @returns false if another run already warned this order
+ */
+async function sendAutoConfirmWarning(
+  order: { id: string; orderNumber: string; customerUserId: string },
+  autoConfirmAt: Date
+): Promise<boolean> {
+  const claimed = await prisma.order.updateMany({
+    where: { id: order.id, autoConfirmWarnedAt: null },
+    data: { autoConfirmWarnedAt: new Date() },
+  });
+
+  if (claimed.count === 0) return false;
+
+  try {
+    await createNotification({
+      userId: order.customerUserId,
+      type: NotificationType.ORDER_DELIVERY_AUTO_CONFIRM_WARNING,
+      metadata: {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        autoConfirmAt: autoConfirmAt.toISOString(),
+      },
+    });
+  } catch (notifErr) {
+    console.error(
+      "[AutoConfirm] Warning notification failed (non-critical):",
+      notifErr
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Warn customers whose orders are close to auto-confirmation and confirm
+ * delivery of SHIPPED orders past the grace period.
+ * Run by the delivery-auto-confirm background job.
+ *
+ * @returns Number of customers warned and orders confirmed
+ */
+export async function autoConfirmDeliveries(): Promise<{
+  warned: number;
+  confirmed: number;
+}> {
+  const settings = await getAutoConfirmSettings();
+  if (!settings.enabled) return { warned: 0, confirmed: 0 };
+
+  const now = new Date();
+
+  // Disputes only push dates later, so nothing shipped after this is due yet
+  const earliestDueShipment = new Date(
+    now.getTime() - (settings.daysAfterShipped - settings.warningDays) * DAY_MS
+  );
+
+  const candidates = await prisma.order.findMany({
+    where: {
+      status: "SHIPPED",
+      deliveryConfirmedAt: null,
+      items: {
+        some: { shippedAt: { lt: earliestDueShipment } },
+        none: { shippedAt: { gte: earliestDueShipment } },
+      },
+      disputes: {
+        none: { status: { in: OPEN_DISPUTE_STATUSES } },
+      },
+    },
+    select: {
+      id: true,
+      orderNumber: true,
+      autoConfirmWarnedAt: true,
+      customer: { select: { userId: true } },
+      items: { select: { shippedAt: true } },
+      disputes: {
+        select: { createdAt: true, resolvedAt: true, updatedAt: true },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+    take: 200,
+  });
+
+  let confirmed = 0;
+  let warned = 0;
+
+  for (const order of candidates) {
+    const lastShippedAt = new Date(
+      Math.max(...order.items.map((item) => item.shippedAt?.getTime() ?? 0))
+    );
+
+    let autoConfirmAt = getAutoConfirmDate(lastShippedAt, order.disputes, settings);
+
+    try {
+      if (settings.warningDays > 0) {
+        if (!order.autoConfirmWarnedAt) {
+          const warnAt = autoConfirmAt.getTime() - settings.warningDays * DAY_MS;
+          if (now.getTime() < warnAt) continue;
+
+          // Always give the customer the full warning period
+          const confirmAt = new Date(
+            Math.max(autoConfirmAt.getTime(), now.getTime() + settings.warningDays * DAY_MS)
+          );
+          const sent = await sendAutoConfirmWarning(
+            {
+              id: order.id,
+              orderNumber: order.orderNumber,
+              customerUserId: order.customer.userId,
+            },
+            confirmAt
+          );
+          if (sent) warned++;
+          continue;
+        }
+
+        autoConfirmAt = new Date(
+          Math.max(
+            autoConfirmAt.getTime(),
+            order.autoConfirmWarnedAt.getTime() + settings.warningDays * DAY_MS
+          )
+        );
+      }
+
+      if (now < autoConfirmAt) continue;
+
+      const result = await markOrderDelivered(order.id, "auto");
+      if (result.success && !result.alreadyDelivered) {
+        confirmed++;
+      } else if (!result.success) {
+        console.warn(
+          `[AutoConfirm] Could not confirm ${order.orderNumber}: ${result.message}`
+        );
+      }
+    } catch (error) {
+      console.error(
+        `[AutoConfirm] Failed to process ${order.orderNumber}:`,
+        error
+      );
+    }
+  }
+
+  if (warned > 0 || confirmed > 0) {
+    console.log(
+      `[AutoConfirm] Warned ${warned} customer(s), auto-confirmed ${confirmed} order(s)`
+    );
+  }
+
+  return { warned, confirmed };
+}
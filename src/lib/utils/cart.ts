@@ -1,5 +1,6 @@
 import { CartItem, DbCartItem } from "@/types/cart";
 import { Decimal } from "@prisma/client/runtime/library";
+import { parseVariantLabel } from "./variants";
 
 /**
  * Calculate cart totals (item count and subtotal)
@@ -58,14 +59,16 @@ export function isQuantityValid(
 
 /**
  * Format variant display text
- * Example: "Size: XL" or "Color: Red"
+ * Example: "Size: XL" or "Size: XL, Colour: Red"
  */
 export function formatVariantDisplay(
-  variantName?: string,
-  variantValue?: string
+  variantName?: string | null,
+  variantValue?: string | null
 ): string | undefined {
   if (!variantName || !variantValue) return undefined;
-  return `${variantName}: ${variantValue}`;
+  return parseVariantLabel(variantName, variantValue)
+    .map((option) => `${option.name}: ${option.value}`)
+    .join(", ");
 }
 
 /**
@@ -82,7 +85,7 @@ export function dbCartItemToCartItem(dbItem: DbCartItem): CartItem {
     productId: dbItem.product.id,
     productName: dbItem.product.name,
     productSlug: dbItem.product.slug,
-    productImage: dbItem.product.images[0]?.url || "",
+    productImage: dbItem.variant?.imageUrl || dbItem.product.images[0]?.url || "",
     basePrice,
     quantity: dbItem.quantity,
     variantId: dbItem.variantId,
@@ -18,6 +18,7 @@ export const CHART_COLORS = {
     DELIVERED: "#059669",
     CANCELLED: "#ef4444",
     DISPUTED: "#f97316",
+    PARTIALLY_REFUNDED: "#f87171",
     REFUNDED: "#dc2626",
     CLOSED: "#6b7280",
   },
@@ -5,9 +5,17 @@ import {
   DisputeEligibilityResult,
   DisputeRefundCalculation,
   DISPUTE_ELIGIBLE_ORDER_STATUSES,
-  DISPUTE_WINDOW_DAYS,
 } from '@/types/dispute';
 import { Decimal } from '@prisma/client/runtime/library';
+import type { Refund } from '@prisma/client';
+import {
+  createRefund,
+  attemptRefund,
+  processItemRefund,
+  lockOrder,
+  getRefundableAmount,
+} from '@/lib/utils/refund';
+import { getSetting } from '@/lib/settings';
 
 /**
  * Check if an order is eligible for dispute creation
@@ -77,16 +85,17 @@ export async function checkDisputeEligibility(
     };
   }
 
-  // Check time window (7 days after delivery)
+  // Check time window (dispute_window setting, days after delivery)
   const deliveryDate = order.statusHistory[0]?.createdAt;
   if (deliveryDate) {
+    const { days: disputeWindowDays } = await getSetting('dispute_window');
     const daysSinceDelivery = Math.floor(
       (Date.now() - deliveryDate.getTime()) / (1000 * 60 * 60 * 24)
     );
-    if (daysSinceDelivery > DISPUTE_WINDOW_DAYS) {
+    if (daysSinceDelivery > disputeWindowDays) {
       return {
         eligible: false,
-        reason: `Disputes must be opened within ${DISPUTE_WINDOW_DAYS} days of delivery`,
+        reason: `Disputes must be opened within ${disputeWindowDays} days of delivery`,
       };
     }
   }
@@ -183,16 +192,70 @@ export async function calculateDisputeRefund(
 
 /**
  * Process dispute refund (reverse wallet transactions)
- * This is called when a dispute is resolved in customer's favor
+ * This is called when a dispute is resolved in customer's favor.
+ * Vendor wallets are debited immediately; the customer refund is sent to
+ * PayHere afterwards and the order only becomes REFUNDED once it succeeds.
+ * When items are given, only those items/quantities are refunded (see processItemRefund).
+ * Amount-based refunds are rejected once items have been refunded (their vendor
+ * split would ignore those refunds) and are capped at the unrefunded payment.
+ *
+ * @returns The refund after the first PayHere attempt
  */
 export async function processDisputeRefund(
   orderId: string,
   disputeId: string,
-  customRefundAmount?: number
-): Promise<void> {
+  customRefundAmount?: number,
+  requestedBy?: string,
+  items?: Array<{ orderItemId: string; quantity: number }>
+): Promise<Refund> {
+  if (items && items.length > 0) {
+    return processItemRefund({
+      orderId,
+      items,
+      reason: `Dispute #${disputeId.slice(0, 8)} resolved in customer's favor`,
+      disputeId,
+      requestedBy,
+    });
+  }
+
   const refundCalc = await calculateDisputeRefund(orderId, customRefundAmount);
 
-  await prisma.$transaction(async (tx) => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { payment: true },
+  });
+
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  if (!order.payment || order.payment.status !== 'COMPLETED') {
+    throw new Error('Order has no completed payment to refund');
+  }
+
+  const payment = order.payment;
+
+  // Funds are in availableBalance once delivery was confirmed, pendingBalance otherwise
+  const fundsReleased = order.deliveryConfirmedAt !== null;
+
+  const refund = await prisma.$transaction(async (tx) => {
+    await lockOrder(orderId, tx);
+
+    const refundedItem = await tx.orderItem.findFirst({
+      where: { orderId, refundedQuantity: { gt: 0 } },
+      select: { id: true },
+    });
+    if (refundedItem) {
+      throw new Error('Order has item refunds; refund the remaining items instead of an amount');
+    }
+
+    const refundable = await getRefundableAmount(orderId, payment.amount, tx);
+    if (new Decimal(refundCalc.refundAmount).greaterThan(refundable)) {
+      throw new Error(
+        `Refund amount exceeds the refundable amount of Rs. ${refundable.toFixed(2)}`
+      );
+    }
+
     // Process refund for each vendor
     for (const vendorRefund of refundCalc.vendorRefunds) {
       const wallet = await tx.wallet.findUnique({
@@ -203,24 +266,32 @@ export async function processDisputeRefund(
         throw new Error(`Wallet not found for vendor ${vendorRefund.vendorId}`);
       }
 
-      // Reverse the HOLD transaction (subtract from available balance)
-      // Note: If funds were already released, they'll be in availableBalance
-      // If not yet released, they'll be in pendingBalance
       const vendorAmount = new Decimal(vendorRefund.amount);
       const commissionAmount = new Decimal(vendorRefund.commissionReversed);
 
-      // Calculate net amount vendor received (amount - commission)
+      // Vendor only gives back what they netted (platform returns its commission)
       const vendorNetAmount = vendorAmount.minus(commissionAmount);
 
-      // Deduct from available balance (if released) or pending balance (if not)
+      const balanceBefore = fundsReleased
+        ? wallet.availableBalance
+        : wallet.pendingBalance;
+      const balanceAfter = balanceBefore.minus(vendorNetAmount);
+
+      if (balanceAfter.isNegative()) {
+        console.warn(
+          `[Dispute] Refund exceeds ${fundsReleased ? 'available' : 'pending'} balance for vendor ${vendorRefund.vendorId}. ` +
+          `Balance: ${balanceBefore.toFixed(2)}, Required: ${vendorNetAmount.toFixed(2)}`
+        );
+      }
+
       await tx.wallet.update({
-        where: { vendorId: vendorRefund.vendorId },
+        where: { id: wallet.id },
         data: {
-          availableBalance: {
-            decrement: vendorNetAmount,
-          },
+          ...(fundsReleased
+            ? { availableBalance: balanceAfter }
+            : { pendingBalance: balanceAfter }),
           totalEarnings: {
-            decrement: vendorAmount,
+            decrement: vendorNetAmount,
           },
         },
       });
@@ -230,43 +301,40 @@ export async function processDisputeRefund(
         data: {
           walletId: wallet.id,
           type: 'REFUND',
-          amount: vendorAmount.negated(), // Negative amount to indicate refund
-          description: `Refund for dispute #${disputeId.slice(0, 8)} - Order ${orderId.slice(0, 8)}`,
-          referenceId: disputeId,
-          referenceType: 'DISPUTE',
-        },
-      });
-
-      // Reverse commission (create COMMISSION_REVERSAL transaction)
-      await tx.walletTransaction.create({
-        data: {
-          walletId: wallet.id,
-          type: 'COMMISSION',
-          amount: commissionAmount, // Positive amount (commission returned to vendor)
-          description: `Commission reversal for dispute #${disputeId.slice(0, 8)}`,
-          referenceId: disputeId,
-          referenceType: 'DISPUTE',
+          amount: vendorNetAmount,
+          balanceBefore,
+          balanceAfter,
+          description: `Refund for dispute #${disputeId.slice(0, 8)} - Order ${order.orderNumber}`,
+          metadata: {
+            orderId,
+            orderNumber: order.orderNumber,
+            disputeId,
+            vendorId: vendorRefund.vendorId,
+            balance: fundsReleased ? 'available' : 'pending',
+            grossAmount: vendorAmount.toNumber(),
+            commissionReversed: commissionAmount.toNumber(),
+            netAmount: vendorNetAmount.toNumber(),
+          },
         },
       });
     }
 
-    // Update order status to indicate refund processed
-    await tx.order.update({
-      where: { id: orderId },
-      data: {
-        status: 'REFUNDED',
-      },
-    });
-
-    // Create order status history
-    await tx.orderStatusHistory.create({
-      data: {
+    // Queue the customer refund
+    return createRefund(
+      {
+        paymentId: payment.id,
         orderId,
-        status: 'REFUNDED',
-        notes: `Order refunded due to dispute resolution (Dispute #${disputeId.slice(0, 8)})`,
+        disputeId,
+        amount: refundCalc.refundAmount,
+        reason: `Dispute #${disputeId.slice(0, 8)} resolved in customer's favor`,
+        requestedBy,
       },
-    });
+      tx
+    );
   });
+
+  // Send to PayHere (retried by the socket server if this attempt fails)
+  return attemptRefund(refund.id);
 }
 
 /**
@@ -5,18 +5,20 @@
  * - Customer confirm-delivery API  (triggeredBy: "customer")
  * - Admin status override           (triggeredBy: "admin")
  * - Auto-tracking polling service   (triggeredBy: "tracking")
+ * - Delivery auto-confirm job        (triggeredBy: "auto")
  *
  * CRITICAL: This is the single source of truth for the escrow-release step.
- * All three entry points must go through this function to ensure funds
+ * All entry points must go through this function to ensure funds
  * are always released exactly once.
  */
 
 import { prisma } from "@/lib/prisma";
 import { releaseVendorFunds } from "@/lib/utils/wallet";
+import { refreshOrderProductStats } from "@/lib/utils/productStats";
 import { createNotification } from "@/lib/notifications/notificationService";
 import { NotificationType } from "@/types/notification";
 
-export type DeliveryTrigger = "customer" | "admin" | "tracking";
+export type DeliveryTrigger = "customer" | "admin" | "tracking" | "auto";
 
 export interface MarkDeliveredResult {
   success: boolean;
@@ -81,18 +83,27 @@ export async function markOrderDelivered(
       ? "Customer confirmed delivery"
       : triggeredBy === "admin"
       ? "Admin confirmed delivery"
+      : triggeredBy === "auto"
+      ? "Auto-confirmed: customer did not confirm delivery in time"
       : "Auto-delivered: carrier tracking confirmed";
 
-  // 5. Atomic transaction: update status + set timestamp + release vendor funds
-  await prisma.$transaction(async (tx) => {
-    await tx.order.update({
-      where: { id: orderId },
+  // 5. Atomic transaction: update status + set timestamp + release vendor funds.
+  // The update only applies while the order is still SHIPPED, so when several
+  // triggers race (customer, tracking poller, auto-confirm job) exactly one of
+  // them moves it and releases the funds
+  const delivered = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.order.updateMany({
+      where: { id: orderId, status: "SHIPPED", deliveryConfirmedAt: null },
       data: {
         status: "DELIVERED",
         deliveryConfirmedAt: new Date(),
       },
     });
 
+    if (count !== 1) {
+      return false;
+    }
+
     await tx.orderStatusHistory.create({
       data: {
         orderId,
@@ -104,15 +115,29 @@ export async function markOrderDelivered(
 
     // CRITICAL: Move funds from pendingBalance → availableBalance
     await releaseVendorFunds(orderId, order.orderNumber, tx);
+    return true;
   });
 
-  // 6. Notify customer (non-blocking — failure must not break the delivery confirmation)
+  if (!delivered) {
+    return {
+      success: true,
+      message: "Order already delivered",
+      alreadyDelivered: true,
+    };
+  }
+
+  // 6. Count the delivered units towards best-seller stats (never throws)
+  await refreshOrderProductStats(orderId);
+
+  // 7. Notify customer (non-blocking — failure must not break the delivery confirmation)
   try {
     const message =
       triggeredBy === "customer"
         ? `Thank you for confirming delivery of order ${order.orderNumber}. Your order is now complete.`
         : triggeredBy === "admin"
         ? `Your order ${order.orderNumber} has been confirmed as delivered by our team.`
+        : triggeredBy === "auto"
+        ? `Your order ${order.orderNumber} has been automatically confirmed as delivered.`
         : `Your order ${order.orderNumber} has been confirmed as delivered by the carrier.`;
 
     await createNotification({
@@ -4,6 +4,8 @@
 
 import { Decimal } from "@prisma/client/runtime/library";
 import { CouponType, OrderStatus } from "@prisma/client";
+import { parseVariantLabel } from "./variants";
+import { RETURN_ELIGIBLE_ORDER_STATUSES } from "@/types/returnRequest";
 
 /**
  * Generate unique order number
@@ -92,6 +94,9 @@ export function createVariantSnapshot(variant: any): any | null {
     variantId: variant.id,
     name: variant.name,
     value: variant.value,
+    options: parseVariantLabel(variant.name, variant.value),
+    sku: variant.sku || null,
+    imageUrl: variant.imageUrl || null,
     priceAdjustment: variant.priceAdjustment?.toNumber() || 0,
   };
 }
@@ -126,6 +131,13 @@ export function validateStockAvailability(cartItems: any[]): {
   for (const item of cartItems) {
     const product = item.product;
     const variant = item.variant;
+
+    // The variant combination was removed (or belongs to another product)
+    if (item.variantId && (!variant || variant.productId !== product.id)) {
+      errors.push(`${product.name}: the selected variant is no longer available`);
+      continue;
+    }
+
     const availableStock = variant ? variant.stock : product.stock;
 
     if (availableStock === 0) {
@@ -144,6 +156,10 @@ export function validateStockAvailability(cartItems: any[]): {
     // Check if vendor is active
     if (!product.vendor.isApproved || !product.vendor.user.isActive) {
       errors.push(`${product.name} is from an inactive vendor`);
+    } else if (!product.vendor.isShopOpen) {
+      errors.push(
+        `${product.name}: ${product.vendor.businessName} is closed at the moment`
+      );
     }
   }
 
@@ -153,6 +169,33 @@ export function validateStockAvailability(cartItems: any[]): {
   };
 }
 
+/**
+ * Return and dispute windows (return_window / dispute_window platform settings)
+ */
+export interface OrderWindows {
+  returnWindowDays: number;
+  disputeWindowDays: number;
+}
+
+export const DEFAULT_ORDER_WINDOWS: OrderWindows = {
+  returnWindowDays: 1,
+  disputeWindowDays: 7,
+};
+
+/**
+ * Describe a window in days for messages ("24 hours", "3 days")
+ */
+function formatWindow(days: number): string {
+  return days <= 1 ? `${Math.round(days * 24)} hours` : `${days} days`;
+}
+
+/**
+ * Whether a return can be requested from an order status
+ */
+function isReturnEligibleStatus(status: OrderStatus): boolean {
+  return (RETURN_ELIGIBLE_ORDER_STATUSES as readonly OrderStatus[]).includes(status);
+}
+
 /**
  * Validate status transition based on role and business rules
  *
@@ -161,6 +204,7 @@ export function validateStockAvailability(cartItems: any[]): {
  * @param role - User role (CUSTOMER, VENDOR, ADMIN)
  * @param orderCreatedAt - Order creation timestamp
  * @param deliveryConfirmedAt - Delivery confirmation timestamp (if confirmed)
+ * @param returnWindowDays - Days after delivery a return can be requested (return_window setting)
  * @returns Validation result with error message if invalid
  */
 export function validateStatusTransition(
@@ -168,7 +212,8 @@ export function validateStatusTransition(
   newStatus: OrderStatus,
   role: "CUSTOMER" | "VENDOR" | "ADMIN",
   orderCreatedAt: Date,
-  deliveryConfirmedAt?: Date | null
+  deliveryConfirmedAt?: Date | null,
+  returnWindowDays: number = DEFAULT_ORDER_WINDOWS.returnWindowDays
 ): { isValid: boolean; error?: string } {
   const now = new Date();
 
@@ -216,8 +261,9 @@ export function validateStatusTransition(
       return { isValid: true };
     }
 
+    // Further returns may be requested while earlier ones are open or settled
     if (newStatus === "RETURN_REQUESTED") {
-      if (!["DELIVERY_CONFIRMED", "DELIVERED"].includes(currentStatus)) {
+      if (!isReturnEligibleStatus(currentStatus)) {
         return {
           isValid: false,
           error: "Can only request return after delivery is confirmed"
@@ -232,10 +278,10 @@ export function validateStatusTransition(
       }
 
       const hoursSinceDelivery = (now.getTime() - deliveryConfirmedAt.getTime()) / (1000 * 60 * 60);
-      if (hoursSinceDelivery > 24) {
+      if (hoursSinceDelivery > returnWindowDays * 24) {
         return {
           isValid: false,
-          error: "Return window (24 hours) has expired"
+          error: `Return window (${formatWindow(returnWindowDays)}) has expired`
         };
       }
 
@@ -282,13 +328,17 @@ export function validateStatusTransition(
  * Used to determine which action buttons to show in UI
  *
  * @param order - Order with status and timestamps
+ * @param windows - Return and dispute windows (platform settings)
  * @returns Object with action availability flags and reason messages
  */
-export function calculateOrderActions(order: {
-  status: OrderStatus;
-  createdAt: Date;
-  deliveryConfirmedAt?: Date | null;
-}): {
+export function calculateOrderActions(
+  order: {
+    status: OrderStatus;
+    createdAt: Date;
+    deliveryConfirmedAt?: Date | null;
+  },
+  windows: OrderWindows = DEFAULT_ORDER_WINDOWS
+): {
   canCancel: boolean;
   canConfirmDelivery: boolean;
   canRequestReturn: boolean;
@@ -301,6 +351,7 @@ export function calculateOrderActions(order: {
   const hoursSinceDelivery = order.deliveryConfirmedAt
     ? (now.getTime() - order.deliveryConfirmedAt.getTime()) / (1000 * 60 * 60)
     : null;
+  const returnWindowHours = windows.returnWindowDays * 24;
 
   return {
     canCancel:
@@ -316,16 +367,17 @@ export function calculateOrderActions(order: {
     // DELIVERED and DELIVERY_CONFIRMED are already terminal delivery states
     canConfirmDelivery: order.status === "SHIPPED",
     canRequestReturn:
-      ["DELIVERED", "DELIVERY_CONFIRMED"].includes(order.status) &&
-      (hoursSinceDelivery ?? 25) <= 24,
+      isReturnEligibleStatus(order.status) &&
+      hoursSinceDelivery !== null &&
+      hoursSinceDelivery <= returnWindowHours,
     returnReason:
-      (hoursSinceDelivery ?? 25) > 24
-        ? "Return window expired (must be within 24 hours of delivery confirmation)"
+      hoursSinceDelivery === null || hoursSinceDelivery > returnWindowHours
+        ? `Return window expired (must be within ${formatWindow(windows.returnWindowDays)} of delivery confirmation)`
         : undefined,
-    // Dispute window: 7 days after delivery confirmation (DELIVERED or DELIVERY_CONFIRMED)
+    // Dispute window: days after delivery confirmation (DELIVERED or DELIVERY_CONFIRMED)
     canOpenDispute:
       ["DELIVERED", "DELIVERY_CONFIRMED"].includes(order.status) &&
       order.deliveryConfirmedAt !== null &&
-      (hoursSinceDelivery ?? 0) <= 7 * 24,
+      (hoursSinceDelivery ?? 0) <= windows.disputeWindowDays * 24,
   };
 }
@@ -0,0 +1,546 @@
+/**
+ * Vendor product catalogue CSV import/export
+ *
+ * One row per variant (or one row for a product without variants). Rows
+ * sharing a SKU are the same product; product columns are read from its
+ * first row and may be left blank on the others.
+ *
+ *   sku, name, description, category (slug), price, compareAtPrice, stock,
+ *   lowStockThreshold, weightGrams, isActive, images (URLs separated by "|"),
+ *   option1Name, option1Value, ... option3Name, option3Value,
+ *   variantSku, variantPriceAdjustment, variantStock, variantImage
+ *
+ * Products are matched to the vendor's existing products by SKU: matches are
+ * updated (images, options and variants replaced), others are created.
+ */
+
+import Papa from "papaparse";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { generateSlug, generateUniqueSlug } from "./slug";
+import { getSetting } from "@/lib/settings";
+import { releaseImages } from "@/lib/storage/storageService";
+import { refreshProductSearchIndex } from "@/lib/search/searchIndex";
+import {
+  createProductSchema,
+  type CreateProductInput,
+} from "@/lib/validations/product";
+import {
+  MAX_PRODUCT_OPTIONS,
+  PRODUCT_OPTIONS_INCLUDE,
+  getProductOptions,
+  getVariantOptionMap,
+  syncProductVariants,
+  validateVariantMatrix,
+  type ProductOptionInput,
+  type VariantInput,
+} from "./variants";
+
+export const MAX_IMPORT_ROWS = 5000;
+const IMAGE_SEPARATOR = "|";
+
+const OPTION_COLUMNS = Array.from({ length: MAX_PRODUCT_OPTIONS }, (_, i) => [
+  `option${i + 1}Name`,
+  `option${i + 1}Value`,
+]).flat();
+
+export const PRODUCT_CSV_COLUMNS = [
+  "sku",
+  "name",
+  "description",
+  "category",
+  "price",
+  "compareAtPrice",
+  "stock",
+  "lowStockThreshold",
+  "weightGrams",
+  "isActive",
+  "images",
+  ...OPTION_COLUMNS,
+  "variantSku",
+  "variantPriceAdjustment",
+  "variantStock",
+  "variantImage",
+];
+
+const REQUIRED_COLUMNS = ["sku", "name", "category", "price"];
+
+type CsvRow = Record<string, string | undefined>;
+
+export interface ProductImportError {
+  row: number; // CSV line number (the header is line 1)
+  sku: string | null;
+  errors: string[];
+}
+
+export interface ProductImportResult {
+  row: number;
+  sku: string;
+  name: string;
+  action: "create" | "update";
+  variants: number;
+  productId: string | null; // null in a dry run for new products
+}
+
+export interface ProductImportReport {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  failed: number;
+  results: ProductImportResult[];
+  errors: ProductImportError[];
+}
+
+/**
+ * Thrown when the CSV itself can't be imported (missing columns, too many rows)
+ */
+export class ProductCsvError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductCsvError";
+  }
+}
+
+// ─── export ─────────────────────────────────────────────────────────────────
+
+/**
+ * Export all of a vendor's products in the import format
+ */
+export async function exportVendorProductsCsv(vendorId: string): Promise<string> {
+  const products = await prisma.product.findMany({
+    where: { vendorId },
+    orderBy: { createdAt: "asc" },
+    include: {
+      category: { select: { slug: true } },
+      images: { orderBy: { position: "asc" } },
+      options: PRODUCT_OPTIONS_INCLUDE,
+      variants: { orderBy: { createdAt: "asc" } },
+    },
+  });
+
+  const rows: Record<string, string | number>[] = [];
+
+  for (const product of products) {
+    const productColumns = {
+      sku: product.sku ?? "",
+      name: product.name,
+      description: product.description,
+      category: product.category.slug,
+      price: product.price.toNumber(),
+      compareAtPrice: product.compareAtPrice?.toNumber() ?? "",
+      stock: product.stock,
+      lowStockThreshold: product.lowStockThreshold,
+      weightGrams: product.weightGrams ?? "",
+      isActive: product.isActive ? "true" : "false",
+      images: product.images.map((img) => img.url).join(IMAGE_SEPARATOR),
+    };
+
+    if (product.variants.length === 0) {
+      rows.push(productColumns);
+      continue;
+    }
+
+    const options = getProductOptions(product);
+
+    product.variants.forEach((variant, index) => {
+      const variantOptions = getVariantOptionMap(variant);
+      const optionColumns: Record<string, string> = {};
+      options.forEach((option, i) => {
+        optionColumns[`option${i + 1}Name`] = option.name;
+        optionColumns[`option${i + 1}Value`] = variantOptions[option.name] ?? "";
+      });
+
+      rows.push({
+        // Product columns only on the first row, like the import expects
+        ...(index === 0 ? productColumns : { sku: productColumns.sku }),
+        ...optionColumns,
+        variantSku: variant.sku ?? "",
+        variantPriceAdjustment: variant.priceAdjustment?.toNumber() ?? 0,
+        variantStock: variant.stock,
+        variantImage: variant.imageUrl ?? "",
+      });
+    });
+  }
+
+  return Papa.unparse(
+    { fields: PRODUCT_CSV_COLUMNS, data: rows.map((row) => PRODUCT_CSV_COLUMNS.map((c) => row[c] ?? "")) },
+    { quotes: true }
+  );
+}
+
+// ─── import ─────────────────────────────────────────────────────────────────
+
+interface ParsedProduct {
+  row: number;
+  sku: string;
+  category: string;
+  input: Omit<CreateProductInput, "categoryId"> & { isActive?: boolean };
+}
+
+const cell = (row: CsvRow, column: string) => row[column]?.trim() ?? "";
+
+function parseNumber(
+  row: CsvRow,
+  column: string,
+  errors: string[]
+): number | undefined {
+  const value = cell(row, column);
+  if (!value) return undefined;
+
+  const number = Number(value.replace(/,/g, ""));
+  if (!Number.isFinite(number)) {
+    errors.push(`${column} must be a number`);
+    return undefined;
+  }
+  return number;
+}
+
+function parseBoolean(
+  row: CsvRow,
+  column: string,
+  errors: string[]
+): boolean | undefined {
+  const value = cell(row, column).toLowerCase();
+  if (!value) return undefined;
+  if (["true", "yes", "1"].includes(value)) return true;
+  if (["false", "no", "0"].includes(value)) return false;
+
+  errors.push(`${column} must be true or false`);
+  return undefined;
+}
+
+/**
+ * Read a row's variant (its option values and variant columns)
+ *
+ * @returns null if the row has no option values
+ */
+function parseVariantRow(row: CsvRow, errors: string[]): VariantInput | null {
+  const options: Record<string, string> = {};
+
+  for (let i = 1; i <= MAX_PRODUCT_OPTIONS; i++) {
+    const name = cell(row, `option${i}Name`);
+    const value = cell(row, `option${i}Value`);
+    if (!name && !value) continue;
+
+    if (!name || !value) {
+      errors.push(`option${i}Name and option${i}Value must be filled in together`);
+      continue;
+    }
+    options[name] = value;
+  }
+
+  if (Object.keys(options).length === 0) return null;
+
+  const stock = parseNumber(row, "variantStock", errors);
+  if (stock === undefined && !cell(row, "variantStock")) {
+    errors.push("variantStock is required for variant rows");
+  }
+
+  return {
+    options,
+    priceAdjustment: parseNumber(row, "variantPriceAdjustment", errors),
+    stock: stock ?? 0,
+    sku: cell(row, "variantSku") || undefined,
+    imageUrl: cell(row, "variantImage") || null,
+  };
+}
+
+/**
+ * Group CSV rows into products (by SKU) and read their fields
+ */
+function parseProductRows(rows: CsvRow[]): {
+  products: ParsedProduct[];
+  errors: ProductImportError[];
+} {
+  const groups = new Map<string, { row: number; rows: CsvRow[] }>();
+  const errors: ProductImportError[] = [];
+
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const sku = cell(row, "sku");
+
+    if (!sku) {
+      errors.push({ row: line, sku: null, errors: ["sku is required"] });
+      return;
+    }
+
+    const group = groups.get(sku) ?? { row: line, rows: [] };
+    group.rows.push(row);
+    groups.set(sku, group);
+  });
+
+  const products: ParsedProduct[] = [];
+
+  for (const [sku, group] of groups) {
+    const [first] = group.rows;
+    const rowErrors: string[] = [];
+
+    // Options in order of first appearance, with their values in order
+    const options: ProductOptionInput[] = [];
+    const variants: VariantInput[] = [];
+
+    for (const row of group.rows) {
+      const variant = parseVariantRow(row, rowErrors);
+      if (!variant) continue;
+
+      for (const [name, value] of Object.entries(variant.options)) {
+        let option = options.find((o) => o.name === name);
+        if (!option) {
+          option = { name, values: [] };
+          options.push(option);
+        }
+        if (!option.values.includes(value)) option.values.push(value);
+      }
+      variants.push(variant);
+    }
+
+    if (group.rows.length > 1 && variants.length !== group.rows.length) {
+      rowErrors.push("Every row of a product with several rows must be a variant");
+    }
+
+    const images = cell(first, "images")
+      .split(IMAGE_SEPARATOR)
+      .map((url) => url.trim())
+      .filter(Boolean)
+      .map((url, position) => ({ url, position }));
+
+    const input = {
+      name: cell(first, "name"),
+      description: cell(first, "description"),
+      price: parseNumber(first, "price", rowErrors) ?? 0,
+      compareAtPrice: parseNumber(first, "compareAtPrice", rowErrors),
+      sku,
+      stock: parseNumber(first, "stock", rowErrors) ?? 0,
+      lowStockThreshold: parseNumber(first, "lowStockThreshold", rowErrors),
+      weightGrams: parseNumber(first, "weightGrams", rowErrors) ?? null,
+      isActive: parseBoolean(first, "isActive", rowErrors),
+      images,
+      options,
+      variants,
+    };
+
+    if (rowErrors.length > 0) {
+      errors.push({ row: group.row, sku, errors: [...new Set(rowErrors)] });
+      continue;
+    }
+
+    products.push({ row: group.row, sku, category: cell(first, "category"), input });
+  }
+
+  return { products, errors };
+}
+
+/**
+ * Create or update one imported product
+ *
+ * @returns Product ID and the URLs of the images it replaced
+ */
+async function saveImportedProduct(
+  tx: Prisma.TransactionClient,
+  vendorId: string,
+  data: CreateProductInput & { isActive?: boolean },
+  existingId: string | null,
+  defaultLowStockThreshold: number
+): Promise<{ productId: string; replacedImageUrls: string[] }> {
+  const fields = {
+    categoryId: data.categoryId,
+    name: data.name,
+    description: data.description,
+    price: data.price,
+    compareAtPrice: data.compareAtPrice ?? null,
+    stock: data.stock,
+    weightGrams: data.weightGrams ?? null,
+    ...(data.isActive !== undefined && { isActive: data.isActive }),
+  };
+
+  let productId: string;
+  let replacedImageUrls: string[] = [];
+
+  if (existingId) {
+    await tx.product.update({
+      where: { id: existingId },
+      data: {
+        ...fields,
+        ...(data.lowStockThreshold !== undefined && {
+          lowStockThreshold: data.lowStockThreshold,
+        }),
+      },
+    });
+    const replaced = await tx.productImage.findMany({
+      where: { productId: existingId },
+      select: { url: true },
+    });
+    replacedImageUrls = replaced.map((img) => img.url);
+
+    await tx.productImage.deleteMany({ where: { productId: existingId } });
+    productId = existingId;
+  } else {
+    const slug = await generateUniqueSlug(generateSlug(data.name), async (slug) => {
+      const existing = await tx.product.findUnique({ where: { slug } });
+      return !!existing;
+    });
+
+    const product = await tx.product.create({
+      data: {
+        ...fields,
+        vendorId,
+        slug,
+        sku: data.sku,
+        lowStockThreshold: data.lowStockThreshold ?? defaultLowStockThreshold,
+      },
+    });
+    productId = product.id;
+  }
+
+  await tx.productImage.createMany({
+    data: data.images.map((img) => ({
+      productId,
+      url: img.url,
+      altText: img.altText,
+      position: img.position,
+    })),
+  });
+
+  await syncProductVariants(tx, productId, data.options ?? [], data.variants ?? []);
+
+  return { productId, replacedImageUrls };
+}
+
+/**
+ * Import a vendor's products from CSV
+ *
+ * Every product is validated like POST /api/vendor/products; invalid products
+ * are listed in the report and skipped. Each valid product is saved in its
+ * own transaction, so one failure doesn't undo the rest. In a dry run nothing
+ * is saved and the report previews what would happen.
+ */
+export async function importVendorProductsCsv(
+  vendorId: string,
+  csv: string,
+  dryRun: boolean
+): Promise<ProductImportReport> {
+  const parsed = Papa.parse<CsvRow>(csv, {
+    header: true,
+    skipEmptyLines: "greedy",
+    transformHeader: (header) => header.trim(),
+  });
+
+  const columns = parsed.meta.fields ?? [];
+  const missing = REQUIRED_COLUMNS.filter((c) => !columns.includes(c));
+  if (missing.length > 0) {
+    throw new ProductCsvError(`Missing column(s): ${missing.join(", ")}`);
+  }
+  if (parsed.data.length === 0) {
+    throw new ProductCsvError("The CSV has no product rows");
+  }
+  if (parsed.data.length > MAX_IMPORT_ROWS) {
+    throw new ProductCsvError(`Maximum ${MAX_IMPORT_ROWS} rows per import`);
+  }
+
+  const { products, errors } = parseProductRows(parsed.data);
+
+  // Resolve category slugs and existing products (by SKU) in bulk
+  const categories = await prisma.category.findMany({
+    where: { slug: { in: [...new Set(products.map((p) => p.category.toLowerCase()))] } },
+    select: { id: true, slug: true },
+  });
+  const categoryIds = new Map(categories.map((c) => [c.slug, c.id]));
+
+  const existingProducts = await prisma.product.findMany({
+    where: { vendorId, sku: { in: products.map((p) => p.sku) } },
+    select: { id: true, sku: true },
+  });
+  const existingBySku = new Map<string, string[]>();
+  for (const product of existingProducts) {
+    existingBySku.set(product.sku!, [...(existingBySku.get(product.sku!) ?? []), product.id]);
+  }
+
+  const defaultLowStockThreshold = (await getSetting("low_stock_threshold"))
+    .defaultThreshold;
+
+  const report: ProductImportReport = {
+    dryRun,
+    created: 0,
+    updated: 0,
+    failed: 0,
+    results: [],
+    errors,
+  };
+
+  for (const product of products) {
+    const fail = (message: string) => {
+      report.errors.push({ row: product.row, sku: product.sku, errors: [message] });
+    };
+
+    const categoryId = categoryIds.get(product.category.toLowerCase());
+    if (!categoryId) {
+      fail(product.category ? `Unknown category "${product.category}"` : "category is required");
+      continue;
+    }
+
+    const validation = createProductSchema.safeParse({ ...product.input, categoryId });
+    if (!validation.success) {
+      report.errors.push({
+        row: product.row,
+        sku: product.sku,
+        errors: [...new Set(validation.error.issues.map((issue) => issue.message))],
+      });
+      continue;
+    }
+
+    const data = { ...validation.data, isActive: product.input.isActive };
+
+    const matrixError = validateVariantMatrix(data.options ?? [], data.variants ?? []);
+    if (matrixError) {
+      fail(matrixError);
+      continue;
+    }
+
+    const matches = existingBySku.get(product.sku) ?? [];
+    if (matches.length > 1) {
+      fail(`SKU ${product.sku} matches ${matches.length} of your products`);
+      continue;
+    }
+    const existingId = matches[0] ?? null;
+
+    let productId = existingId;
+    if (!dryRun) {
+      try {
+        const saved = await prisma.$transaction(
+          (tx) => saveImportedProduct(tx, vendorId, data, existingId, defaultLowStockThreshold),
+          { timeout: 30000 }
+        );
+        productId = saved.productId;
+
+        // Images dropped from the CSV are deleted unless still used
+        await releaseImages(saved.replacedImageUrls);
+      } catch (error) {
+        console.error(`[Product Import] Failed to save SKU ${product.sku}:`, error);
+        fail("Failed to save this product");
+        continue;
+      }
+    }
+
+    report.results.push({
+      row: product.row,
+      sku: product.sku,
+      name: data.name,
+      action: existingId ? "update" : "create",
+      variants: data.variants?.length ?? 0,
+      productId,
+    });
+    if (existingId) report.updated++;
+    else report.created++;
+  }
+
+  report.errors.sort((a, b) => a.row - b.row);
+  report.failed = report.errors.length;
+
+  if (!dryRun) {
+    await refreshProductSearchIndex(
+      report.results.flatMap((result) => (result.productId ? [result.productId] : []))
+    );
+  }
+
+  return report;
+}
@@ -0,0 +1,51 @@
+/**
+ * Product Q&A utilities
+ *
+ * Questions and answers are public, so both pass through the same contact
+ * filter as chat messages. The original text is kept for admins; everyone
+ * else sees the masked copy. Any match (including contact phrases that are
+ * not masked) flags the question for the admin moderation queue, and flagged
+ * questions stay off the product page until an admin approves them.
+ */
+
+import type { ProductQuestion } from "@prisma/client";
+import { filterContactInfo } from "./contactFilter";
+
+// Unanswered questions a customer may have open on one product
+export const MAX_PENDING_QUESTIONS_PER_PRODUCT = 3;
+
+/**
+ * Run Q&A text through the contact filter
+ *
+ * @returns Masked text (null if nothing was masked) and whether to flag it
+ */
+export function moderateQuestionText(text: string): {
+  filtered: string | null;
+  flagged: boolean;
+} {
+  const result = filterContactInfo(text);
+
+  return {
+    filtered: result.hasBlockedContent ? result.filteredContent : null,
+    flagged: !result.isClean,
+  };
+}
+
+/**
+ * Text shown outside the admin panel
+ */
+export function getVisibleQuestionText(
+  question: Pick<ProductQuestion, "question" | "questionFiltered" | "answer" | "answerFiltered">
+): { question: string; answer: string | null } {
+  return {
+    question: question.questionFiltered ?? question.question,
+    answer: question.answerFiltered ?? question.answer,
+  };
+}
+
+/**
+ * Shorten text for notification previews
+ */
+export function previewText(text: string, length = 100): string {
+  return text.length > length ? `${text.substring(0, length)}...` : text;
+}
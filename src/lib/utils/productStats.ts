@@ -0,0 +1,140 @@
+/**
+ * Product and vendor rating/sales aggregates
+ *
+ * Products and vendors store their average rating, review count and units
+ * sold in the last 30 days, so listings can filter and sort by them without
+ * scanning reviews and order items. They are refreshed:
+ * - when a review is created, edited, hidden, shown or deleted
+ * - when an order is confirmed as delivered
+ * - by the product-stats job, which rebuilds every product and vendor
+ *   (units sold drop out of the 30 day window without any event)
+ *
+ * Units sold count delivered order items (less refunded units) whose order
+ * was confirmed as delivered in the window; returned, refunded and cancelled
+ * items are left out.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export const SALES_WINDOW_DAYS = 30;
+
+// Item statuses that no longer count as sold
+const UNSOLD_ITEM_STATUSES = ["CANCELLED", "RETURNED", "REFUNDED"];
+
+function salesCutoff(): Date {
+  return new Date(Date.now() - SALES_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Recompute the aggregates of the given products (or all products)
+ *
+ * @returns Number of products updated
+ */
+async function updateProducts(productIds: string[] | null): Promise<number> {
+  const scope = productIds
+    ? Prisma.sql`p.id IN (${Prisma.join(productIds)})`
+    : Prisma.sql`TRUE`;
+
+  return prisma.$executeRaw`
+    UPDATE "Product" p SET
+      "averageRating" = coalesce(r.rating, 0),
+      "reviewCount" = coalesce(r.count, 0),
+      "unitsSold30d" = coalesce(s.units, 0)
+    FROM "Product" p2
+    LEFT JOIN LATERAL (
+      SELECT round(avg(pr.rating), 2)::float AS rating, count(*)::int AS count
+      FROM product_reviews pr
+      WHERE pr."productId" = p2.id AND pr."isVisible"
+    ) r ON true
+    LEFT JOIN LATERAL (
+      SELECT sum(oi.quantity - oi."refundedQuantity")::int AS units
+      FROM "OrderItem" oi
+      JOIN "Order" o ON o.id = oi."orderId"
+      WHERE oi."productId" = p2.id
+        AND o."deliveryConfirmedAt" >= ${salesCutoff()}
+        AND oi.status::text NOT IN (${Prisma.join(UNSOLD_ITEM_STATUSES)})
+    ) s ON true
+    WHERE p.id = p2.id AND ${scope}
+  `;
+}
+
+/**
+ * Recompute the aggregates of the given vendors (or all vendors)
+ *
+ * @returns Number of vendors updated
+ */
+async function updateVendors(vendorIds: string[] | null): Promise<number> {
+  const scope = vendorIds
+    ? Prisma.sql`v.id IN (${Prisma.join(vendorIds)})`
+    : Prisma.sql`TRUE`;
+
+  return prisma.$executeRaw`
+    UPDATE "Vendor" v SET
+      "averageRating" = coalesce(r.rating, 0),
+      "reviewCount" = coalesce(r.count, 0),
+      "unitsSold30d" = coalesce(s.units, 0)
+    FROM "Vendor" v2
+    LEFT JOIN LATERAL (
+      SELECT round(avg(pr.rating), 2)::float AS rating, count(*)::int AS count
+      FROM product_reviews pr
+      JOIN "Product" p ON p.id = pr."productId"
+      WHERE p."vendorId" = v2.id AND pr."isVisible"
+    ) r ON true
+    LEFT JOIN LATERAL (
+      SELECT sum(oi.quantity - oi."refundedQuantity")::int AS units
+      FROM "OrderItem" oi
+      JOIN "Order" o ON o.id = oi."orderId"
+      WHERE oi."vendorId" = v2.id
+        AND o."deliveryConfirmedAt" >= ${salesCutoff()}
+        AND oi.status::text NOT IN (${Prisma.join(UNSOLD_ITEM_STATUSES)})
+    ) s ON true
+    WHERE v.id = v2.id AND ${scope}
+  `;
+}
+
+/**
+ * Refresh the aggregates of some products and their vendors. Never throws -
+ * a failed refresh is corrected by the next product-stats run.
+ */
+export async function refreshProductStats(productIds: string[]): Promise<void> {
+  const ids = [...new Set(productIds)];
+  if (ids.length === 0) return;
+
+  try {
+    const products = await prisma.product.findMany({
+      where: { id: { in: ids } },
+      select: { vendorId: true },
+    });
+
+    await updateProducts(ids);
+    await updateVendors([...new Set(products.map((p) => p.vendorId))]);
+  } catch (error) {
+    console.error("[ProductStats] Failed to refresh product stats:", error);
+  }
+}
+
+/**
+ * Refresh the aggregates of the products in an order (after delivery)
+ */
+export async function refreshOrderProductStats(orderId: string): Promise<void> {
+  try {
+    const items = await prisma.orderItem.findMany({
+      where: { orderId },
+      select: { productId: true },
+    });
+    await refreshProductStats(items.map((item) => item.productId));
+  } catch (error) {
+    console.error(`[ProductStats] Failed to refresh stats for order ${orderId}:`, error);
+  }
+}
+
+/**
+ * Recompute the aggregates of every product and vendor (background job)
+ */
+export async function rebuildProductStats(): Promise<{ products: number; vendors: number }> {
+  const products = await updateProducts(null);
+  const vendors = await updateVendors(null);
+
+  return { products, vendors };
+}
@@ -0,0 +1,489 @@
+/**
+ * Refund utilities
+ * Persists customer refunds and pushes them to PayHere with retries.
+ * A refund is only reported to the customer once PayHere has confirmed it.
+ *
+ * Lifecycle:
+ *   createRefund (inside the cancel/dispute transaction) → PENDING
+ *   processItemRefund (item-level refund, creates RefundItem lines) → PENDING
+ *   createItemRefund (same, inside a caller's transaction, e.g. received return) → PENDING
+ *   attemptRefund → SUCCEEDED                     (payment marked REFUNDED when fully refunded,
+ *                                                  order/items moved to (PARTIALLY_)REFUNDED)
+ *                 → PENDING + nextAttemptAt       (retryable error, exponential backoff)
+ *                 → FAILED                        (non-retryable or max attempts reached)
+ *   retryDueRefunds (socket server) re-attempts PENDING refunds that are due
+ */
+
+import { OrderStatus, Prisma, Refund, UserRole } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma } from "@/lib/prisma";
+import {
+  requestPayHereRefund,
+  PayHereRefundError,
+  type PayHereRefundResult,
+} from "@/lib/payhere-refund";
+import { refundOrderItems } from "@/lib/utils/wallet";
+import { createNotification } from "@/lib/notifications/notificationService";
+import { NotificationType } from "@/types/notification";
+
+// Attempts before a refund is marked FAILED and handed to an admin
+export const REFUND_MAX_ATTEMPTS = parseInt(
+  process.env.PAYHERE_REFUND_MAX_ATTEMPTS || "5",
+  10
+);
+
+const RETRY_BASE_DELAY_MS = 60 * 1000; // 1 minute, doubled per attempt
+const ATTEMPT_LOCK_MS = 5 * 60 * 1000; // Claim window while a request is in flight
+
+/**
+ * Delay before the next attempt (1m, 2m, 4m, 8m, ...)
+ */
+function getRetryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0));
+}
+
+/**
+ * Create a PENDING refund record
+ * Call inside the same transaction that reverses vendor wallets so the
+ * ledger and the refund request are committed together.
+ *
+ * @returns The created refund (pass its ID to attemptRefund after commit)
+ */
+export async function createRefund(
+  data: {
+    paymentId: string;
+    orderId: string;
+    amount: Decimal | number;
+    reason: string;
+    disputeId?: string | null;
+    requestedBy?: string | null;
+  },
+  tx: Prisma.TransactionClient
+): Promise<Refund> {
+  return tx.refund.create({
+    data: {
+      paymentId: data.paymentId,
+      orderId: data.orderId,
+      disputeId: data.disputeId || null,
+      amount: new Decimal(data.amount),
+      reason: data.reason,
+      status: "PENDING",
+      requestedBy: data.requestedBy || null,
+    },
+  });
+}
+
+/**
+ * Refund specific order items (or quantities)
+ * Debits the owning vendors' wallets, records the refund with one RefundItem
+ * per order item, then sends it to PayHere. Shipping is not refunded.
+ *
+ * @param params.items - Order item IDs and quantities to refund
+ * @returns The refund after the first PayHere attempt
+ * @throws Error if the order has no completed payment or a quantity is not refundable
+ */
+export async function processItemRefund(
+  params: ItemRefundParams
+): Promise<Refund> {
+  const refund = await prisma.$transaction((tx) => createItemRefund(params, tx));
+
+  // Send to PayHere (retried by the socket server if this attempt fails)
+  return attemptRefund(refund.id);
+}
+
+export interface ItemRefundParams {
+  orderId: string;
+  items: Array<{ orderItemId: string; quantity: number }>;
+  reason: string;
+  disputeId?: string | null;
+  requestedBy?: string | null;
+}
+
+/**
+ * Lock an order row until the transaction ends
+ * Item refunds and return requests take this lock before reading refunded or
+ * returned quantities, so concurrent requests wait for each other instead of
+ * both passing the quantity checks (READ COMMITTED alone doesn't prevent it).
+ */
+export async function lockOrder(
+  orderId: string,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM "Order" WHERE id = ${orderId} FOR UPDATE`;
+}
+
+/**
+ * Part of a payment not already claimed by earlier refunds of the order
+ * FAILED refunds still count — they are owed to the customer and settled manually.
+ * Call after lockOrder so concurrent refunds are included.
+ */
+export async function getRefundableAmount(
+  orderId: string,
+  paymentAmount: Decimal,
+  tx: Prisma.TransactionClient
+): Promise<Decimal> {
+  const refunded = await tx.refund.aggregate({
+    where: { orderId },
+    _sum: { amount: true },
+  });
+
+  const remaining = paymentAmount.sub(refunded._sum.amount ?? 0);
+  return remaining.isNegative() ? new Decimal(0) : remaining;
+}
+
+/**
+ * Record an item-level refund inside an existing transaction
+ * Use when the refund must commit together with other changes (e.g. a
+ * received return); call attemptRefund with the returned ID after commit.
+ *
+ * @returns The created PENDING refund
+ * @throws Error if the order has no completed payment or a quantity is not refundable
+ */
+export async function createItemRefund(
+  params: ItemRefundParams,
+  tx: Prisma.TransactionClient
+): Promise<Refund> {
+  await lockOrder(params.orderId, tx);
+
+  const order = await tx.order.findUnique({
+    where: { id: params.orderId },
+    include: { payment: true },
+  });
+
+  if (!order) {
+    throw new Error("Order not found");
+  }
+
+  if (!order.payment || order.payment.status !== "COMPLETED") {
+    throw new Error("Order has no completed payment to refund");
+  }
+
+  const lines = await refundOrderItems(
+    order.id,
+    order.orderNumber,
+    params.items,
+    params.reason,
+    tx
+  );
+
+  const refund = await createRefund(
+    {
+      paymentId: order.payment.id,
+      orderId: order.id,
+      amount: lines.reduce((sum, line) => sum.add(line.amount), new Decimal(0)),
+      reason: params.reason,
+      disputeId: params.disputeId,
+      requestedBy: params.requestedBy,
+    },
+    tx
+  );
+
+  await tx.refundItem.createMany({
+    data: lines.map((line) => ({
+      refundId: refund.id,
+      orderItemId: line.orderItemId,
+      quantity: line.quantity,
+      grossAmount: line.grossAmount,
+      discountAmount: line.discountAmount,
+      commissionReversed: line.commissionReversed,
+      vendorAmount: line.vendorAmount,
+      amount: line.amount,
+    })),
+  });
+
+  return refund;
+}
+
+// Orders still being fulfilled: a partial item refund leaves their status alone
+// so the remaining items can still ship, be delivered and have funds released
+const FULFILMENT_ORDER_STATUSES: OrderStatus[] = ["PAYMENT_CONFIRMED", "PROCESSING", "SHIPPED"];
+
+/**
+ * Move order (and refunded items) to PARTIALLY_REFUNDED or REFUNDED
+ * Item refunds are judged on refunded quantities, amount-based dispute refunds
+ * on the total refunded. Cancellation refunds leave the order CANCELLED.
+ * Before delivery a partial item refund is tracked on the items only.
+ */
+async function applyRefundedStatus(
+  refund: Refund & { items: Array<{ orderItemId: string }> },
+  order: { id: string; totalAmount: Decimal },
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  let orderStatus: OrderStatus;
+
+  if (refund.items.length > 0) {
+    const items = await tx.orderItem.findMany({
+      where: { orderId: order.id },
+      select: { id: true, quantity: true, refundedQuantity: true },
+    });
+
+    for (const item of items) {
+      if (!refund.items.some((line) => line.orderItemId === item.id)) continue;
+      await tx.orderItem.update({
+        where: { id: item.id },
+        data: {
+          status: item.refundedQuantity >= item.quantity ? "REFUNDED" : "PARTIALLY_REFUNDED",
+        },
+      });
+    }
+
+    if (items.every((item) => item.refundedQuantity >= item.quantity)) {
+      orderStatus = "REFUNDED";
+    } else {
+      const current = await tx.order.findUniqueOrThrow({
+        where: { id: order.id },
+        select: { status: true },
+      });
+      if (FULFILMENT_ORDER_STATUSES.includes(current.status)) return;
+      orderStatus = "PARTIALLY_REFUNDED";
+    }
+  } else if (refund.disputeId) {
+    const refunded = await tx.refund.aggregate({
+      where: { orderId: order.id, status: "SUCCEEDED" },
+      _sum: { amount: true },
+    });
+    orderStatus = (refunded._sum.amount ?? new Decimal(0)).greaterThanOrEqualTo(order.totalAmount)
+      ? "REFUNDED"
+      : "PARTIALLY_REFUNDED";
+  } else {
+    return;
+  }
+
+  await tx.order.update({
+    where: { id: order.id },
+    data: { status: orderStatus },
+  });
+
+  await tx.orderStatusHistory.create({
+    data: {
+      orderId: order.id,
+      status: orderStatus,
+      note: refund.disputeId
+        ? `Rs. ${refund.amount.toFixed(2)} refunded due to dispute resolution (Dispute #${refund.disputeId.slice(0, 8)})`
+        : `Rs. ${refund.amount.toFixed(2)} refunded: ${refund.reason}`,
+      createdBy: refund.requestedBy,
+    },
+  });
+}
+
+/**
+ * Send a refund to PayHere and record the outcome
+ * Safe to call concurrently: the attempt is claimed before PayHere is called.
+ *
+ * @param refundId - Refund ID
+ * @returns The refund after this attempt (or unchanged if not due / already final)
+ */
+export async function attemptRefund(refundId: string): Promise<Refund> {
+  const now = new Date();
+
+  // Claim the attempt (skip if final, or another worker holds it)
+  const claimed = await prisma.refund.updateMany({
+    where: {
+      id: refundId,
+      status: "PENDING",
+      OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+    },
+    data: {
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(now.getTime() + ATTEMPT_LOCK_MS),
+    },
+  });
+
+  const refund = await prisma.refund.findUniqueOrThrow({
+    where: { id: refundId },
+    include: {
+      payment: true,
+      items: { select: { orderItemId: true } },
+      order: {
+        select: {
+          id: true,
+          orderNumber: true,
+          totalAmount: true,
+          customer: { select: { userId: true } },
+        },
+      },
+    },
+  });
+
+  if (claimed.count === 0) {
+    return refund;
+  }
+
+  const { payment, order } = refund;
+
+  // Only the PayHere call is retried; once it succeeds the refund must never
+  // be re-sent, even if recording the outcome below fails
+  let result: PayHereRefundResult;
+  try {
+    if (!payment.payherePaymentId) {
+      throw new PayHereRefundError("Payment has no PayHere payment ID", false);
+    }
+
+    // PayHere refunds the full payment when no amount is given
+    const isFullRefund = refund.amount.greaterThanOrEqualTo(payment.amount);
+
+    result = await requestPayHereRefund({
+      paymentId: payment.payherePaymentId,
+      description: `Order ${order.orderNumber}: ${refund.reason}`.slice(0, 255),
+      ...(!isFullRefund && { amount: refund.amount.toNumber() }),
+    });
+  } catch (error) {
+    return recordRefundFailure(refund, order, error);
+  }
+
+  // Record success first so the sweeper can never pick this refund up again
+  const succeeded = await prisma.refund.update({
+    where: { id: refund.id },
+    data: {
+      status: "SUCCEEDED",
+      payhereRefundId: result.refundId,
+      succeededAt: new Date(),
+      nextAttemptAt: null,
+      lastError: null,
+    },
+  });
+
+  await prisma.$transaction(async (tx) => {
+    // Mark payment REFUNDED once the whole amount has gone back
+    const refunded = await tx.refund.aggregate({
+      where: { paymentId: payment.id, status: "SUCCEEDED" },
+      _sum: { amount: true },
+    });
+    if ((refunded._sum.amount ?? new Decimal(0)).greaterThanOrEqualTo(payment.amount)) {
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { status: "REFUNDED" },
+      });
+    }
+
+    // Order status only changes once money has moved
+    await applyRefundedStatus(refund, order, tx);
+  });
+
+  console.log(`[Refund] PayHere refund succeeded for order ${order.orderNumber}:`, {
+    refundId: refund.id,
+    payhereRefundId: result.refundId,
+    amount: refund.amount.toFixed(2),
+    attempts: refund.attempts,
+  });
+
+  // Notify customer (non-blocking)
+  try {
+    await createNotification({
+      userId: order.customer.userId,
+      type: NotificationType.ORDER_REFUND_COMPLETED,
+      metadata: {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        refundId: refund.id,
+        refundAmount: refund.amount.toNumber(),
+        payhereRefundId: result.refundId || undefined,
+      },
+    });
+  } catch (notifError) {
+    console.error("[Refund] Failed to send notification:", notifError);
+  }
+
+  return succeeded;
+}
+
+/**
+ * Record a failed attempt: schedule a retry, or mark FAILED and alert admins
+ */
+async function recordRefundFailure(
+  refund: Refund,
+  order: { id: string; orderNumber: string },
+  error: unknown
+): Promise<Refund> {
+  const message = error instanceof Error ? error.message : "Unknown error";
+  const retryable = error instanceof PayHereRefundError ? error.retryable : true;
+  const giveUp = !retryable || refund.attempts >= REFUND_MAX_ATTEMPTS;
+
+  const updated = await prisma.refund.update({
+    where: { id: refund.id },
+    data: giveUp
+      ? { status: "FAILED", failedAt: new Date(), nextAttemptAt: null, lastError: message }
+      : {
+          nextAttemptAt: new Date(Date.now() + getRetryDelay(refund.attempts)),
+          lastError: message,
+        },
+  });
+
+  if (!giveUp) {
+    console.warn(
+      `[Refund] Attempt ${refund.attempts}/${REFUND_MAX_ATTEMPTS} failed for order ${order.orderNumber}, will retry:`,
+      message
+    );
+    return updated;
+  }
+
+  console.error(`[Refund] Refund failed for order ${order.orderNumber}:`, {
+    refundId: refund.id,
+    attempts: refund.attempts,
+    error: message,
+  });
+
+  // Notify admins so the refund can be processed manually (non-blocking)
+  try {
+    const admins = await prisma.user.findMany({
+      where: { role: UserRole.ADMIN },
+      select: { id: true },
+    });
+
+    for (const admin of admins) {
+      await createNotification({
+        userId: admin.id,
+        type: NotificationType.ORDER_REFUND_FAILED,
+        metadata: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          refundId: refund.id,
+          refundAmount: refund.amount.toNumber(),
+          failureReason: message,
+          recipientRole: "ADMIN",
+          actionRequired: true,
+        },
+      });
+    }
+  } catch (notifError) {
+    console.error("[Refund] Failed to send notification:", notifError);
+  }
+
+  return updated;
+}
+
+/**
+ * Re-attempt PENDING refunds whose retry time has passed
+ * Intended to be run periodically by the socket server.
+ *
+ * @returns Number of refunds that succeeded in this run
+ */
+export async function retryDueRefunds(): Promise<number> {
+  const dueRefunds = await prisma.refund.findMany({
+    where: {
+      status: "PENDING",
+      // null = never attempted (e.g. the request that created it crashed)
+      OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: new Date() } }],
+    },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+    take: 50,
+  });
+
+  let succeeded = 0;
+
+  for (const { id } of dueRefunds) {
+    try {
+      const refund = await attemptRefund(id);
+      if (refund.status === "SUCCEEDED") succeeded++;
+    } catch (error) {
+      console.error(`[Refund] Retry failed for refund ${id}:`, error);
+    }
+  }
+
+  if (dueRefunds.length > 0) {
+    console.log(`[Refund] Retried ${dueRefunds.length} refund(s), ${succeeded} succeeded`);
+  }
+
+  return succeeded;
+}
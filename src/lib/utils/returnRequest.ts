@@ -0,0 +1,831 @@
+/**
+ * Return request (RMA) utilities
+ *
+ * A customer return covers items of one vendor; a request spanning several
+ * vendors is split into one return per vendor so each seller handles their
+ * own parcel. The order sits in RETURN_REQUESTED while any return is open.
+ *
+ * Lifecycle:
+ *   createReturnRequests → REQUESTED  (order → RETURN_REQUESTED, vendors notified)
+ *   approveReturn        → APPROVED   (return label issued to the customer)
+ *   rejectReturn         → REJECTED   (order restored once no return is open)
+ *   receiveReturn        → RECEIVED   (restock chosen units, wallet refund, order → RETURNED)
+ *   escalateReturn       → ESCALATED  (dispute opened for admin review, order → DISPUTED)
+ *
+ * The refund of a received return goes through createItemRefund / attemptRefund,
+ * so the order moves on to (PARTIALLY_)REFUNDED once PayHere confirms it.
+ */
+
+import { randomBytes } from "crypto";
+import { format } from "date-fns";
+import {
+  Prisma,
+  UserRole,
+  type OrderStatus,
+  type ReturnReason,
+  type ReturnRequest,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { createItemRefund, attemptRefund, lockOrder } from "@/lib/utils/refund";
+import { restockReturnedItems } from "@/lib/utils/stock";
+import { formatAddressOneLine } from "@/lib/utils/address";
+import { createNotification } from "@/lib/notifications/notificationService";
+import { NotificationType } from "@/types/notification";
+import { DisputeReason, DisputeStatus } from "@/types/dispute";
+import type { AddressSnapshot } from "@/types/address";
+import type { OrderItemSnapshot, VariantSnapshot } from "@/types/order";
+import {
+  OPEN_RETURN_STATUSES,
+  RETURN_ESCALATION_DAYS,
+  RETURN_REASON_LABELS,
+  type ReturnLabel,
+  type ReturnRequestView,
+} from "@/types/returnRequest";
+
+/**
+ * Thrown when a return action is not allowed (bad quantity, wrong status, ...)
+ */
+export class ReturnRequestError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "ReturnRequestError";
+  }
+}
+
+// Units in these returns can't be requested again
+const BLOCKING_RETURN_STATUSES = [...OPEN_RETURN_STATUSES, "ESCALATED" as const];
+
+// Dispute opened on escalation, by return reason
+const DISPUTE_REASON_BY_RETURN_REASON: Record<ReturnReason, DisputeReason> = {
+  DAMAGED: DisputeReason.DAMAGED_PRODUCT,
+  DEFECTIVE: DisputeReason.QUALITY_ISSUE,
+  WRONG_ITEM: DisputeReason.WRONG_ITEM,
+  NOT_AS_DESCRIBED: DisputeReason.NOT_AS_DESCRIBED,
+  SIZE_FIT: DisputeReason.OTHER,
+  CHANGED_MIND: DisputeReason.OTHER,
+  OTHER: DisputeReason.OTHER,
+};
+
+export const RETURN_VIEW_INCLUDE = {
+  order: { select: { orderNumber: true } },
+  vendor: { select: { businessName: true } },
+  refund: { select: { amount: true, status: true } },
+  items: {
+    include: {
+      orderItem: {
+        select: { productSnapshot: true, variantSnapshot: true, unitPrice: true },
+      },
+    },
+  },
+} satisfies Prisma.ReturnRequestInclude;
+
+export type ReturnRequestWithDetails = Prisma.ReturnRequestGetPayload<{
+  include: typeof RETURN_VIEW_INCLUDE;
+}>;
+
+/**
+ * Generate a return number (e.g., RMA-20240101-3F9A0C1B)
+ * Random, so a collision is rare but possible; see withReturnNumberRetry.
+ */
+export function generateReturnNumber(): string {
+  return `RMA-${format(new Date(), "yyyyMMdd")}-${randomBytes(4).toString("hex").toUpperCase()}`;
+}
+
+// Attempts before a return number collision is given up on
+const RETURN_NUMBER_ATTEMPTS = 3;
+
+/**
+ * Run a transaction that creates returns, retrying when a generated return
+ * number is already taken (the unique index rejects it and it rolls back)
+ */
+async function withReturnNumberRetry<T>(write: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write();
+    } catch (error) {
+      const isCollision =
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002" &&
+        String(error.meta?.target).includes("returnNumber");
+      if (!isCollision || attempt >= RETURN_NUMBER_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * Read the photo URLs stored on a return
+ */
+export function getReturnPhotos(photos: Prisma.JsonValue | null): string[] {
+  return Array.isArray(photos)
+    ? photos.filter((url): url is string => typeof url === "string")
+    : [];
+}
+
+/**
+ * Whether the customer may escalate a return to a dispute:
+ * after a rejection, or when the vendor has not acted within RETURN_ESCALATION_DAYS
+ */
+export function canEscalateReturn(
+  returnRequest: Pick<ReturnRequest, "status" | "createdAt" | "respondedAt">,
+  now: Date = new Date()
+): boolean {
+  if (returnRequest.status === "REJECTED") return true;
+  if (!OPEN_RETURN_STATUSES.includes(returnRequest.status)) return false;
+
+  const waitingSince = returnRequest.respondedAt ?? returnRequest.createdAt;
+  return now.getTime() - waitingSince.getTime() > RETURN_ESCALATION_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Units of each order item that can still be returned
+ * (ordered - refunded - already in an open or escalated return)
+ */
+export async function getReturnableQuantities(
+  orderId: string,
+  tx: Prisma.TransactionClient = prisma
+): Promise<Map<string, number>> {
+  const [items, returnItems] = await Promise.all([
+    tx.orderItem.findMany({
+      where: { orderId },
+      select: { id: true, quantity: true, refundedQuantity: true },
+    }),
+    tx.returnItem.findMany({
+      where: {
+        returnRequest: { orderId, status: { in: BLOCKING_RETURN_STATUSES } },
+      },
+      select: { orderItemId: true, quantity: true },
+    }),
+  ]);
+
+  return new Map(
+    items.map((item) => {
+      const inReturn = returnItems
+        .filter((line) => line.orderItemId === item.id)
+        .reduce((sum, line) => sum + line.quantity, 0);
+      return [item.id, Math.max(item.quantity - item.refundedQuantity - inReturn, 0)];
+    })
+  );
+}
+
+/**
+ * Return as sent to customers and vendors
+ */
+export function toReturnRequestView(returnRequest: ReturnRequestWithDetails): ReturnRequestView {
+  return {
+    id: returnRequest.id,
+    returnNumber: returnRequest.returnNumber,
+    orderId: returnRequest.orderId,
+    orderNumber: returnRequest.order.orderNumber,
+    vendorName: returnRequest.vendor.businessName,
+    status: returnRequest.status,
+    reason: returnRequest.reason,
+    description: returnRequest.description,
+    photos: getReturnPhotos(returnRequest.photos),
+    vendorNote: returnRequest.vendorNote,
+    returnLabel: (returnRequest.returnLabel as ReturnLabel | null) ?? null,
+    refundAmount: returnRequest.refund?.amount.toNumber() ?? null,
+    refundStatus: returnRequest.refund?.status ?? null,
+    disputeId: returnRequest.disputeId,
+    canEscalate: canEscalateReturn(returnRequest),
+    items: returnRequest.items.map((line) => {
+      const product = line.orderItem.productSnapshot as unknown as OrderItemSnapshot;
+      const variant = line.orderItem.variantSnapshot as unknown as VariantSnapshot | null;
+      return {
+        id: line.id,
+        orderItemId: line.orderItemId,
+        productName: product.name,
+        variantLabel: variant?.value ?? null,
+        image: variant?.imageUrl || product.image || null,
+        quantity: line.quantity,
+        unitPrice: line.orderItem.unitPrice.toNumber(),
+        restocked: line.restocked,
+      };
+    }),
+    respondedAt: returnRequest.respondedAt?.toISOString() ?? null,
+    receivedAt: returnRequest.receivedAt?.toISOString() ?? null,
+    escalatedAt: returnRequest.escalatedAt?.toISOString() ?? null,
+    createdAt: returnRequest.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Move the order out of RETURN_REQUESTED once none of its returns is open:
+ * RETURNED if any return was received, otherwise the status before the returns
+ */
+async function settleOrderStatus(
+  orderId: string,
+  note: string,
+  createdBy: string | null,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const order = await tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: { status: true },
+  });
+
+  // Refunded or disputed in the meantime; leave it alone
+  if (order.status !== "RETURN_REQUESTED") return;
+
+  const returns = await tx.returnRequest.findMany({
+    where: { orderId },
+    select: { status: true, orderStatusBefore: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (returns.some((r) => OPEN_RETURN_STATUSES.includes(r.status))) return;
+
+  const status: OrderStatus = returns.some((r) => r.status === "RECEIVED")
+    ? "RETURNED"
+    : returns[0]?.orderStatusBefore ?? "DELIVERED";
+
+  await tx.order.update({
+    where: { id: orderId },
+    data: { status },
+  });
+
+  await tx.orderStatusHistory.create({
+    data: { orderId, status, note, createdBy },
+  });
+}
+
+/**
+ * Claim a return for a status change so two concurrent actions can't both apply
+ *
+ * @throws ReturnRequestError if the return is no longer in one of the expected statuses
+ */
+async function claimReturn(
+  returnRequest: ReturnRequest,
+  from: ReturnRequest["status"][],
+  data: Prisma.ReturnRequestUncheckedUpdateManyInput,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const claimed = await tx.returnRequest.updateMany({
+    where: { id: returnRequest.id, status: { in: from } },
+    data,
+  });
+
+  if (claimed.count === 0) {
+    throw new ReturnRequestError("This return has already been updated. Please refresh.", 409);
+  }
+}
+
+/**
+ * Load a vendor's return
+ *
+ * @throws ReturnRequestError (404) if it does not exist or belongs to another vendor
+ */
+async function getVendorReturn(returnId: string, vendorId: string) {
+  const returnRequest = await prisma.returnRequest.findUnique({
+    where: { id: returnId },
+    include: {
+      order: {
+        select: {
+          id: true,
+          orderNumber: true,
+          shippingAddressJson: true,
+          customer: { select: { userId: true } },
+        },
+      },
+      vendor: true,
+      items: true,
+    },
+  });
+
+  if (!returnRequest || returnRequest.vendorId !== vendorId) {
+    throw new ReturnRequestError("Return request not found", 404);
+  }
+
+  return returnRequest;
+}
+
+/**
+ * Create return requests for an order, one per vendor
+ * Quantities are checked against what is still returnable while holding the
+ * order lock (see lockOrder), so parallel requests can't return the same units twice.
+ *
+ * @returns The created returns
+ * @throws ReturnRequestError if an item is not in the order or a quantity is not returnable
+ */
+export async function createReturnRequests(params: {
+  order: { id: string; orderNumber: string; status: OrderStatus };
+  customerId: string;
+  reason: ReturnReason;
+  description?: string | null;
+  photos: string[];
+  items: Array<{ orderItemId: string; quantity: number }>;
+}): Promise<ReturnRequest[]> {
+  const { order } = params;
+
+  const returns = await withReturnNumberRetry(() => prisma.$transaction(async (tx) => {
+    await lockOrder(order.id, tx);
+
+    const [orderItems, returnable, openReturn] = await Promise.all([
+      tx.orderItem.findMany({
+        where: { orderId: order.id },
+        select: { id: true, vendorId: true, productSnapshot: true },
+      }),
+      getReturnableQuantities(order.id, tx),
+      tx.returnRequest.findFirst({
+        where: { orderId: order.id, status: { in: OPEN_RETURN_STATUSES } },
+        select: { orderStatusBefore: true },
+      }),
+    ]);
+
+    const byVendor = new Map<string, Array<{ orderItemId: string; quantity: number }>>();
+
+    for (const line of params.items) {
+      const item = orderItems.find((candidate) => candidate.id === line.orderItemId);
+      if (!item) {
+        throw new ReturnRequestError("Item does not belong to this order");
+      }
+
+      const available = returnable.get(item.id) ?? 0;
+      if (line.quantity > available) {
+        const name = (item.productSnapshot as unknown as OrderItemSnapshot).name;
+        throw new ReturnRequestError(
+          available === 0
+            ? `${name} can no longer be returned`
+            : `${name}: only ${available} unit(s) can be returned`
+        );
+      }
+
+      byVendor.set(item.vendorId, [...(byVendor.get(item.vendorId) ?? []), line]);
+    }
+
+    // Keep the status from before the first open return so rejections can restore it
+    const orderStatusBefore = openReturn?.orderStatusBefore ?? order.status;
+    const created: ReturnRequest[] = [];
+
+    for (const [vendorId, lines] of byVendor) {
+      created.push(
+        await tx.returnRequest.create({
+          data: {
+            returnNumber: generateReturnNumber(),
+            orderId: order.id,
+            customerId: params.customerId,
+            vendorId,
+            reason: params.reason,
+            description: params.description || null,
+            photos: params.photos,
+            orderStatusBefore,
+            items: {
+              create: lines.map((line) => ({
+                orderItemId: line.orderItemId,
+                quantity: line.quantity,
+              })),
+            },
+          },
+        })
+      );
+    }
+
+    if (order.status !== "RETURN_REQUESTED") {
+      await tx.order.update({
+        where: { id: order.id },
+        data: { status: "RETURN_REQUESTED" },
+      });
+    }
+
+    await tx.orderStatusHistory.create({
+      data: {
+        orderId: order.id,
+        status: "RETURN_REQUESTED",
+        note: `Return requested by customer (${created.map((r) => r.returnNumber).join(", ")}): ${RETURN_REASON_LABELS[params.reason]}${
+          params.description ? `\n${params.description}` : ""
+        }`,
+        createdBy: null, // Customer action
+      },
+    });
+
+    return created;
+  }));
+
+  console.log(`[Return] Return requested for order ${order.orderNumber}:`, {
+    returns: returns.map((r) => r.returnNumber),
+    reason: params.reason,
+  });
+
+  await notifyReturnRequested(order, returns);
+
+  return returns;
+}
+
+/**
+ * Notify the customer and each vendor of new returns. Never throws.
+ */
+async function notifyReturnRequested(
+  order: { id: string; orderNumber: string },
+  returns: ReturnRequest[]
+): Promise<void> {
+  try {
+    const [customer, vendors] = await Promise.all([
+      prisma.customer.findUnique({
+        where: { id: returns[0].customerId },
+        select: { userId: true },
+      }),
+      prisma.vendor.findMany({
+        where: { id: { in: returns.map((r) => r.vendorId) } },
+        select: { id: true, userId: true },
+      }),
+    ]);
+
+    if (customer) {
+      await createNotification({
+        userId: customer.userId,
+        type: NotificationType.ORDER_RETURN_REQUESTED,
+        metadata: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          returnNumber: returns.map((r) => r.returnNumber).join(", "),
+          reason: RETURN_REASON_LABELS[returns[0].reason],
+        },
+      });
+    }
+
+    for (const returnRequest of returns) {
+      const vendor = vendors.find((v) => v.id === returnRequest.vendorId);
+      if (!vendor) continue;
+
+      await createNotification({
+        userId: vendor.userId,
+        type: NotificationType.ORDER_RETURN_REQUESTED,
+        metadata: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          returnId: returnRequest.id,
+          returnNumber: returnRequest.returnNumber,
+          reason: RETURN_REASON_LABELS[returnRequest.reason],
+          recipientRole: "VENDOR",
+          actionRequired: true,
+        },
+      });
+    }
+  } catch (notifError) {
+    console.error("[Return] Failed to send return requested notifications:", notifError);
+  }
+}
+
+/**
+ * Approve a return and issue the return label
+ * The label ships the parcel from the order's delivery address to the vendor;
+ * the return number is the reference the vendor matches the parcel against.
+ */
+export async function approveReturn(params: {
+  returnId: string;
+  vendorId: string;
+  note?: string | null;
+  userId: string;
+}): Promise<ReturnRequest> {
+  const returnRequest = await getVendorReturn(params.returnId, params.vendorId);
+
+  if (returnRequest.status !== "REQUESTED") {
+    throw new ReturnRequestError("Only pending returns can be approved");
+  }
+
+  const shippingAddress = returnRequest.order.shippingAddressJson as unknown as AddressSnapshot;
+  const label: ReturnLabel = {
+    reference: returnRequest.returnNumber,
+    shipTo: {
+      name: returnRequest.vendor.businessName,
+      phone: returnRequest.vendor.businessPhone,
+      address: returnRequest.vendor.businessAddress,
+    },
+    shipFrom: {
+      name: shippingAddress.fullName,
+      phone: shippingAddress.phone ?? null,
+      address: formatAddressOneLine(shippingAddress),
+    },
+    issuedAt: new Date().toISOString(),
+  };
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await claimReturn(
+      returnRequest,
+      ["REQUESTED"],
+      {
+        status: "APPROVED",
+        vendorNote: params.note || null,
+        returnLabel: label as unknown as Prisma.InputJsonValue,
+        respondedAt: new Date(),
+      },
+      tx
+    );
+
+    await tx.orderStatusHistory.create({
+      data: {
+        orderId: returnRequest.orderId,
+        status: "RETURN_REQUESTED",
+        note: `Return ${returnRequest.returnNumber} approved by ${returnRequest.vendor.businessName}; return label issued`,
+        createdBy: params.userId,
+      },
+    });
+
+    return tx.returnRequest.findUniqueOrThrow({ where: { id: returnRequest.id } });
+  });
+
+  console.log(`[Return] Return ${returnRequest.returnNumber} approved by vendor ${params.vendorId}`);
+
+  await notifyCustomer(returnRequest, NotificationType.ORDER_RETURN_APPROVED, {
+    reason: params.note || undefined,
+  });
+
+  return updated;
+}
+
+/**
+ * Reject a return; the order goes back to its previous status once no return is open
+ */
+export async function rejectReturn(params: {
+  returnId: string;
+  vendorId: string;
+  note: string;
+  userId: string;
+}): Promise<ReturnRequest> {
+  const returnRequest = await getVendorReturn(params.returnId, params.vendorId);
+
+  if (returnRequest.status !== "REQUESTED") {
+    throw new ReturnRequestError("Only pending returns can be rejected");
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await claimReturn(
+      returnRequest,
+      ["REQUESTED"],
+      { status: "REJECTED", vendorNote: params.note, respondedAt: new Date() },
+      tx
+    );
+
+    await settleOrderStatus(
+      returnRequest.orderId,
+      `Return ${returnRequest.returnNumber} rejected by ${returnRequest.vendor.businessName}: ${params.note}`,
+      params.userId,
+      tx
+    );
+
+    return tx.returnRequest.findUniqueOrThrow({ where: { id: returnRequest.id } });
+  });
+
+  console.log(`[Return] Return ${returnRequest.returnNumber} rejected by vendor ${params.vendorId}`);
+
+  await notifyCustomer(returnRequest, NotificationType.ORDER_RETURN_REJECTED, {
+    reason: params.note,
+  });
+
+  return updated;
+}
+
+/**
+ * Confirm the returned parcel arrived
+ * Restocks the units the vendor marks as resellable and refunds every returned
+ * unit from the vendor's wallet, in one transaction; the refund is then sent
+ * to PayHere (retried by the socket server if this attempt fails).
+ *
+ * @param params.restock - Order item IDs to put back into inventory
+ */
+export async function receiveReturn(params: {
+  returnId: string;
+  vendorId: string;
+  restock: string[];
+  note?: string | null;
+  userId: string;
+}): Promise<ReturnRequest> {
+  const returnRequest = await getVendorReturn(params.returnId, params.vendorId);
+
+  if (returnRequest.status !== "APPROVED") {
+    throw new ReturnRequestError("Only approved returns can be marked as received");
+  }
+
+  const reason = `Return ${returnRequest.returnNumber}: ${RETURN_REASON_LABELS[returnRequest.reason]}`;
+
+  const { updated, refundId } = await prisma.$transaction(async (tx) => {
+    await claimReturn(
+      returnRequest,
+      ["APPROVED"],
+      {
+        status: "RECEIVED",
+        receivedAt: new Date(),
+        ...(params.note && { vendorNote: params.note }),
+      },
+      tx
+    );
+
+    for (const line of returnRequest.items) {
+      await tx.returnItem.update({
+        where: { id: line.id },
+        data: { restocked: params.restock.includes(line.orderItemId) },
+      });
+    }
+
+    await restockReturnedItems(
+      returnRequest.orderId,
+      returnRequest.items.filter((line) => params.restock.includes(line.orderItemId)),
+      `Return ${returnRequest.returnNumber} received`,
+      tx,
+      params.userId
+    );
+
+    const refund = await createItemRefund(
+      {
+        orderId: returnRequest.orderId,
+        items: returnRequest.items.map((line) => ({
+          orderItemId: line.orderItemId,
+          quantity: line.quantity,
+        })),
+        reason,
+        requestedBy: params.userId,
+      },
+      tx
+    );
+
+    await settleOrderStatus(
+      returnRequest.orderId,
+      `Return ${returnRequest.returnNumber} received by ${returnRequest.vendor.businessName}; refund of Rs. ${refund.amount.toFixed(2)} initiated`,
+      params.userId,
+      tx
+    );
+
+    return {
+      updated: await tx.returnRequest.update({
+        where: { id: returnRequest.id },
+        data: { refundId: refund.id },
+      }),
+      refundId: refund.id,
+    };
+  });
+
+  console.log(`[Return] Return ${returnRequest.returnNumber} received by vendor ${params.vendorId}:`, {
+    refundId,
+    restocked: params.restock,
+  });
+
+  const refund = await attemptRefund(refundId);
+
+  await notifyCustomer(returnRequest, NotificationType.ORDER_RETURN_RECEIVED, {
+    refundId,
+    refundAmount: refund.amount.toNumber(),
+  });
+
+  return updated;
+}
+
+/**
+ * Escalate a return to a dispute for admin review
+ * The dispute carries the return's photos as evidence.
+ *
+ * @throws ReturnRequestError if the return can't be escalated yet or the order already has an active dispute
+ */
+export async function escalateReturn(params: {
+  returnId: string;
+  customerId: string;
+  message: string;
+}): Promise<{ returnRequest: ReturnRequest; disputeId: string }> {
+  const returnRequest = await prisma.returnRequest.findUnique({
+    where: { id: params.returnId },
+    include: {
+      order: { select: { id: true, orderNumber: true } },
+      vendor: { select: { userId: true, businessName: true } },
+    },
+  });
+
+  if (!returnRequest || returnRequest.customerId !== params.customerId) {
+    throw new ReturnRequestError("Return request not found", 404);
+  }
+
+  if (!canEscalateReturn(returnRequest)) {
+    throw new ReturnRequestError(
+      returnRequest.status === "REQUESTED" || returnRequest.status === "APPROVED"
+        ? `You can escalate this return if the seller has not acted on it within ${RETURN_ESCALATION_DAYS} days`
+        : "This return can no longer be escalated"
+    );
+  }
+
+  const activeDispute = await prisma.dispute.findFirst({
+    where: {
+      orderId: returnRequest.orderId,
+      status: { in: [DisputeStatus.OPEN, DisputeStatus.IN_REVIEW] },
+    },
+    select: { id: true },
+  });
+
+  if (activeDispute) {
+    throw new ReturnRequestError("An active dispute already exists for this order");
+  }
+
+  const disputeReason = DISPUTE_REASON_BY_RETURN_REASON[returnRequest.reason];
+
+  const { updated, disputeId } = await prisma.$transaction(async (tx) => {
+    const dispute = await tx.dispute.create({
+      data: {
+        orderId: returnRequest.orderId,
+        customerId: params.customerId,
+        reason: disputeReason,
+        description: [
+          `Escalated from return ${returnRequest.returnNumber} (${RETURN_REASON_LABELS[returnRequest.reason]}).`,
+          returnRequest.vendorNote ? `Seller's response: ${returnRequest.vendorNote}` : null,
+          params.message,
+        ]
+          .filter(Boolean)
+          .join("\n\n"),
+        evidence: getReturnPhotos(returnRequest.photos),
+        status: DisputeStatus.OPEN,
+      },
+    });
+
+    await claimReturn(
+      returnRequest,
+      ["REQUESTED", "APPROVED", "REJECTED"],
+      { status: "ESCALATED", disputeId: dispute.id, escalatedAt: new Date() },
+      tx
+    );
+
+    await tx.order.update({
+      where: { id: returnRequest.orderId },
+      data: { status: "DISPUTED" },
+    });
+
+    await tx.orderStatusHistory.create({
+      data: {
+        orderId: returnRequest.orderId,
+        status: "DISPUTED",
+        note: `Dispute opened: return ${returnRequest.returnNumber} escalated by customer`,
+      },
+    });
+
+    return {
+      updated: await tx.returnRequest.findUniqueOrThrow({ where: { id: returnRequest.id } }),
+      disputeId: dispute.id,
+    };
+  });
+
+  console.log(`[Return] Return ${returnRequest.returnNumber} escalated to dispute ${disputeId}`);
+
+  // Notify vendor and admins (non-blocking)
+  try {
+    await createNotification({
+      userId: returnRequest.vendor.userId,
+      type: NotificationType.ORDER_RETURN_ESCALATED,
+      metadata: {
+        orderId: returnRequest.order.id,
+        orderNumber: returnRequest.order.orderNumber,
+        returnId: returnRequest.id,
+        returnNumber: returnRequest.returnNumber,
+        disputeId,
+        recipientRole: "VENDOR",
+      },
+    });
+
+    const admins = await prisma.user.findMany({
+      where: { role: UserRole.ADMIN },
+      select: { id: true },
+    });
+
+    for (const admin of admins) {
+      await createNotification({
+        userId: admin.id,
+        type: NotificationType.DISPUTE_CREATED,
+        title: "Return Escalated to Dispute",
+        message: `Return ${returnRequest.returnNumber} for order ${returnRequest.order.orderNumber} was escalated by the customer. Reason: ${disputeReason}`,
+        link: `/admin/disputes/${disputeId}`,
+        metadata: {
+          disputeId,
+          orderId: returnRequest.order.id,
+          orderNumber: returnRequest.order.orderNumber,
+          returnNumber: returnRequest.returnNumber,
+        },
+      });
+    }
+  } catch (notifError) {
+    console.error("[Return] Failed to send escalation notifications:", notifError);
+  }
+
+  return { returnRequest: updated, disputeId };
+}
+
+/**
+ * Notify the customer of a vendor decision on their return. Never throws.
+ */
+async function notifyCustomer(
+  returnRequest: Awaited<ReturnType<typeof getVendorReturn>>,
+  type: NotificationType,
+  metadata: { reason?: string; refundId?: string; refundAmount?: number }
+): Promise<void> {
+  try {
+    await createNotification({
+      userId: returnRequest.order.customer.userId,
+      type,
+      metadata: {
+        orderId: returnRequest.order.id,
+        orderNumber: returnRequest.order.orderNumber,
+        returnId: returnRequest.id,
+        returnNumber: returnRequest.returnNumber,
+        vendorName: returnRequest.vendor.businessName,
+        ...metadata,
+      },
+    });
+  } catch (notifError) {
+    console.error("[Return] Failed to send notification:", notifError);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Product review utilities
+ *
+ * Photos are stored on the review as a JSON array of upload URLs (like
+ * dispute evidence). Vendor replies are public, so they pass through the
+ * contact filter before they are saved; only the masked text is stored.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { PublicReview, RatingSummary } from "@/types/review";
+import { filterContactInfo } from "./contactFilter";
+
+/**
+ * Read the photo URLs stored on a review
+ */
+export function getReviewPhotos(photos: Prisma.JsonValue | null): string[] {
+  return Array.isArray(photos)
+    ? photos.filter((url): url is string => typeof url === "string")
+    : [];
+}
+
+/**
+ * Mask contact details in a vendor reply
+ */
+export function maskReviewReply(reply: string): string {
+  const result = filterContactInfo(reply);
+  return result.hasBlockedContent ? result.filteredContent : reply;
+}
+
+/**
+ * Average rating, review count and star histogram of a product's visible reviews
+ */
+export async function getRatingSummary(productId: string): Promise<RatingSummary> {
+  const groups = await prisma.productReview.groupBy({
+    by: ["rating"],
+    where: { productId, isVisible: true },
+    _count: { _all: true },
+  });
+
+  const histogram: RatingSummary["histogram"] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  let reviewCount = 0;
+  let ratingTotal = 0;
+
+  for (const group of groups) {
+    if (group.rating < 1 || group.rating > 5) continue;
+    histogram[group.rating as keyof RatingSummary["histogram"]] = group._count._all;
+    reviewCount += group._count._all;
+    ratingTotal += group.rating * group._count._all;
+  }
+
+  return {
+    averageRating: reviewCount > 0 ? Math.round((ratingTotal / reviewCount) * 10) / 10 : 0,
+    reviewCount,
+    histogram,
+  };
+}
+
+/**
+ * Convert a review to its product page representation
+ */
+export function toPublicReview(review: {
+  id: string;
+  rating: number;
+  comment: string | null;
+  photos: Prisma.JsonValue | null;
+  helpfulCount: number;
+  vendorReply: string | null;
+  vendorRepliedAt: Date | null;
+  isReplyVisible: boolean;
+  createdAt: Date;
+  customer: { user: { firstName: string | null; lastName: string | null } };
+}): PublicReview {
+  return {
+    id: review.id,
+    rating: review.rating,
+    comment: review.comment,
+    photos: getReviewPhotos(review.photos),
+    helpfulCount: review.helpfulCount,
+    createdAt: review.createdAt.toISOString(),
+    customerName:
+      [review.customer.user.firstName, review.customer.user.lastName]
+        .filter(Boolean)
+        .join(" ") || null,
+    vendorReply:
+      review.vendorReply && review.vendorRepliedAt && review.isReplyVisible
+        ? {
+            content: review.vendorReply,
+            repliedAt: review.vendorRepliedAt.toISOString(),
+          }
+        : null,
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * Shipping rate utilities
+ * Calculates one shipping line per vendor from the vendor's shipping profile
+ * and the customer's shipping province.
+ *
+ * Rate rules (per vendor shipment):
+ *   vendor subtotal >= free threshold → 0
+ *   base rate   = zone rate for the province, otherwise profile base rate
+ *   FLAT            → base rate
+ *   WEIGHT_TIERED   → base rate + tier rate for total weight (grams)
+ *   QUANTITY_TIERED → base rate + tier rate for total item quantity
+ *   no profile      → DEFAULT_SHIPPING_RATE
+ */
+
+import { Prisma, ShippingRateType } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma } from "@/lib/prisma";
+import {
+  ShippingQuote,
+  ShippingSnapshot,
+  ShippingTier,
+  VendorShippingLine,
+} from "@/types/shipping";
+
+// Rate charged per vendor shipment when the vendor has no shipping profile
+export const DEFAULT_SHIPPING_RATE = parseFloat(
+  process.env.DEFAULT_SHIPPING_RATE || "0"
+);
+
+export interface ShippableItem {
+  vendorId: string;
+  vendorName: string;
+  quantity: number;
+  totalPrice: number;
+  weightGrams: number | null;
+}
+
+type ProfileWithZones = Prisma.ShippingProfileGetPayload<{
+  include: { zones: true };
+}>;
+
+/**
+ * Round to 2 decimal places (currency)
+ */
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toNumber(value: Decimal | number | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === "number" ? value : value.toNumber();
+}
+
+/**
+ * Parse tiers stored as JSON on the profile
+ * Invalid entries are dropped; result is sorted with the open-ended tier last
+ */
+export function parseShippingTiers(json: Prisma.JsonValue | null): ShippingTier[] {
+  if (!Array.isArray(json)) return [];
+
+  const tiers: ShippingTier[] = [];
+  for (const entry of json) {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) continue;
+    const { upTo, rate } = entry as Record<string, unknown>;
+    if (typeof rate !== "number") continue;
+    if (upTo !== null && typeof upTo !== "number") continue;
+    tiers.push({ upTo, rate });
+  }
+
+  return tiers.sort((a, b) => {
+    if (a.upTo === null) return 1;
+    if (b.upTo === null) return -1;
+    return a.upTo - b.upTo;
+  });
+}
+
+/**
+ * Find the tier covering a measure (weight or quantity)
+ * Falls back to the highest tier when the measure exceeds every bound
+ */
+export function findShippingTier(
+  tiers: ShippingTier[],
+  measure: number
+): ShippingTier | null {
+  if (tiers.length === 0) return null;
+
+  const match = tiers.find((tier) => tier.upTo === null || measure <= tier.upTo);
+  return match || tiers[tiers.length - 1];
+}
+
+/**
+ * Calculate the shipping amount for one vendor's items
+ *
+ * @param profile - Vendor shipping profile with zones (null if not configured)
+ * @param items - The vendor's items
+ * @param province - Shipping address province
+ */
+export function calculateVendorShipping(
+  profile: ProfileWithZones | null,
+  items: ShippableItem[],
+  province: string
+): { amount: number; snapshot: ShippingSnapshot } {
+  const subtotal = roundCurrency(
+    items.reduce((sum, item) => sum + item.totalPrice, 0)
+  );
+  const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0);
+  const totalWeightGrams = items.reduce(
+    (sum, item) => sum + (item.weightGrams || 0) * item.quantity,
+    0
+  );
+
+  if (!profile) {
+    return {
+      amount: roundCurrency(DEFAULT_SHIPPING_RATE),
+      snapshot: {
+        source: "DEFAULT",
+        rateType: null,
+        province,
+        zoneId: null,
+        zoneName: null,
+        tierUpTo: null,
+        rate: roundCurrency(DEFAULT_SHIPPING_RATE),
+        freeShippingThreshold: null,
+        isFree: false,
+        subtotal,
+        totalQuantity,
+        totalWeightGrams,
+      },
+    };
+  }
+
+  const zone =
+    profile.zones.find((z) => z.provinces.includes(province)) || null;
+
+  const baseRate = zone ? zone.rate.toNumber() : profile.baseRate.toNumber();
+  const freeShippingThreshold = toNumber(
+    zone?.freeShippingThreshold ?? profile.freeShippingThreshold
+  );
+
+  let tier: ShippingTier | null = null;
+  if (profile.rateType === ShippingRateType.WEIGHT_TIERED) {
+    tier = findShippingTier(parseShippingTiers(profile.tiers), totalWeightGrams);
+  } else if (profile.rateType === ShippingRateType.QUANTITY_TIERED) {
+    tier = findShippingTier(parseShippingTiers(profile.tiers), totalQuantity);
+  }
+
+  const rate = roundCurrency(baseRate + (tier?.rate || 0));
+  const isFree =
+    freeShippingThreshold !== null && subtotal >= freeShippingThreshold;
+
+  return {
+    amount: isFree ? 0 : rate,
+    snapshot: {
+      source: "PROFILE",
+      rateType: profile.rateType,
+      province,
+      zoneId: zone?.id || null,
+      zoneName: zone?.name || null,
+      tierUpTo: tier?.upTo ?? null,
+      rate,
+      freeShippingThreshold,
+      isFree,
+      subtotal,
+      totalQuantity,
+      totalWeightGrams,
+    },
+  };
+}
+
+/**
+ * Quote shipping for a cart or order: one line per vendor
+ *
+ * @param items - Items from all vendors
+ * @param province - Shipping address province
+ * @param db - Prisma client or transaction client
+ */
+export async function quoteShipping(
+  items: ShippableItem[],
+  province: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<ShippingQuote> {
+  // Group items by vendor
+  const vendorGroups = new Map<string, ShippableItem[]>();
+  for (const item of items) {
+    if (!vendorGroups.has(item.vendorId)) {
+      vendorGroups.set(item.vendorId, []);
+    }
+    vendorGroups.get(item.vendorId)!.push(item);
+  }
+
+  const profiles = await db.shippingProfile.findMany({
+    where: { vendorId: { in: Array.from(vendorGroups.keys()) } },
+    include: { zones: true },
+  });
+  const profileByVendor = new Map(profiles.map((p) => [p.vendorId, p]));
+
+  const lines: VendorShippingLine[] = [];
+  for (const [vendorId, vendorItems] of vendorGroups.entries()) {
+    const { amount, snapshot } = calculateVendorShipping(
+      profileByVendor.get(vendorId) || null,
+      vendorItems,
+      province
+    );
+
+    lines.push({
+      vendorId,
+      vendorName: vendorItems[0].vendorName,
+      amount,
+      snapshot,
+    });
+  }
+
+  return {
+    lines,
+    totalAmount: roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0)),
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Vendor shop open/closed state
+ *
+ * A closed shop's products are left out of storefront listings and search,
+ * and can't be added to the cart or checked out. Vendors can:
+ * - close the shop now, optionally with a time it reopens automatically
+ * - schedule a holiday: the shop-schedule job closes the shop when it starts
+ *   and reopens it when it ends
+ */
+
+import type { Vendor } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { ShopStatus } from "@/types/vendor";
+
+const DEFAULT_HOLIDAY_REASON = "On holiday";
+
+type ShopStatusFields = Pick<
+  Vendor,
+  | "isShopOpen"
+  | "shopClosedReason"
+  | "shopReopensAt"
+  | "holidayStartsAt"
+  | "holidayEndsAt"
+  | "holidayReason"
+>;
+
+/**
+ * Convert a vendor's shop fields to the client representation
+ */
+export function toShopStatus(vendor: ShopStatusFields): ShopStatus {
+  return {
+    isOpen: vendor.isShopOpen,
+    closedReason: vendor.isShopOpen ? null : vendor.shopClosedReason,
+    reopensAt: vendor.isShopOpen ? null : vendor.shopReopensAt?.toISOString() ?? null,
+    holiday:
+      vendor.holidayStartsAt && vendor.holidayEndsAt
+        ? {
+            startsAt: vendor.holidayStartsAt.toISOString(),
+            endsAt: vendor.holidayEndsAt.toISOString(),
+            reason: vendor.holidayReason,
+          }
+        : null,
+  };
+}
+
+/**
+ * Open or close a shop now. Opening also ends a holiday that is in progress.
+ */
+export async function setShopOpen(
+  vendorId: string,
+  isOpen: boolean,
+  reason?: string,
+  reopensAt?: Date
+): Promise<ShopStatus> {
+  const vendor = await prisma.vendor.update({
+    where: { id: vendorId },
+    data: isOpen
+      ? { isShopOpen: true, shopClosedReason: null, shopReopensAt: null }
+      : {
+          isShopOpen: false,
+          shopClosedReason: reason || null,
+          shopReopensAt: reopensAt ?? null,
+        },
+  });
+
+  return toShopStatus(vendor);
+}
+
+/**
+ * Schedule a holiday closure, replacing any scheduled one. A holiday that
+ * has already started closes the shop straight away.
+ */
+export async function scheduleHoliday(
+  vendorId: string,
+  startsAt: Date,
+  endsAt: Date,
+  reason?: string
+): Promise<ShopStatus> {
+  const vendor =
+    startsAt <= new Date()
+      ? await prisma.vendor.update({
+          where: { id: vendorId },
+          data: {
+            isShopOpen: false,
+            shopClosedReason: reason || DEFAULT_HOLIDAY_REASON,
+            shopReopensAt: endsAt,
+            holidayStartsAt: null,
+            holidayEndsAt: null,
+            holidayReason: null,
+          },
+        })
+      : await prisma.vendor.update({
+          where: { id: vendorId },
+          data: {
+            holidayStartsAt: startsAt,
+            holidayEndsAt: endsAt,
+            holidayReason: reason || null,
+          },
+        });
+
+  return toShopStatus(vendor);
+}
+
+/**
+ * Cancel a scheduled holiday that hasn't started yet
+ */
+export async function cancelHoliday(vendorId: string): Promise<ShopStatus> {
+  const vendor = await prisma.vendor.update({
+    where: { id: vendorId },
+    data: { holidayStartsAt: null, holidayEndsAt: null, holidayReason: null },
+  });
+
+  return toShopStatus(vendor);
+}
+
+/**
+ * Start due holidays and reopen shops whose closure has ended (background job)
+ */
+export async function processShopSchedules(): Promise<{ closed: number; reopened: number }> {
+  const now = new Date();
+  let closed = 0;
+
+  const dueHolidays = await prisma.vendor.findMany({
+    where: { holidayStartsAt: { lte: now } },
+    select: { id: true, holidayEndsAt: true, holidayReason: true },
+  });
+
+  for (const vendor of dueHolidays) {
+    try {
+      const stillRunning = vendor.holidayEndsAt && vendor.holidayEndsAt > now;
+
+      await prisma.vendor.update({
+        where: { id: vendor.id },
+        data: {
+          // A holiday that already ended (e.g. the job was down) is just dropped
+          ...(stillRunning && {
+            isShopOpen: false,
+            shopClosedReason: vendor.holidayReason || DEFAULT_HOLIDAY_REASON,
+            shopReopensAt: vendor.holidayEndsAt,
+          }),
+          holidayStartsAt: null,
+          holidayEndsAt: null,
+          holidayReason: null,
+        },
+      });
+
+      if (stillRunning) closed++;
+    } catch (error) {
+      console.error(`[ShopSchedule] Failed to start holiday for vendor ${vendor.id}:`, error);
+    }
+  }
+
+  const { count: reopened } = await prisma.vendor.updateMany({
+    where: { isShopOpen: false, shopReopensAt: { lte: now } },
+    data: { isShopOpen: true, shopClosedReason: null, shopReopensAt: null },
+  });
+
+  if (closed > 0 || reopened > 0) {
+    console.log(`[ShopSchedule] Closed ${closed} shop(s) for holidays, reopened ${reopened}`);
+  }
+
+  return { closed, reopened };
+}
@@ -0,0 +1,445 @@
+/**
+ * Stock reservation utilities
+ * Holds inventory for unpaid orders, commits it on payment and returns it on
+ * cancellation or expiry. Every change to Product.stock / ProductVariant.stock
+ * made here is recorded as a StockMovement for vendor auditing.
+ *
+ * Lifecycle:
+ *   order created      → RESERVE  (stock decremented, reservation ACTIVE)
+ *   payment confirmed  → COMMIT   (no stock change, reservation COMMITTED)
+ *   unpaid cancel/expiry → RELEASE (stock incremented, reservation RELEASED)
+ *   paid cancel        → RESTOCK  (stock incremented, reservation RELEASED)
+ *   return received    → RESTOCK  (stock incremented for the units the vendor restocks)
+ */
+
+import { Prisma, StockMovementType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+// Minutes an unpaid order may hold stock before it is released
+export const STOCK_RESERVATION_MINUTES = parseInt(
+  process.env.STOCK_RESERVATION_MINUTES || "30",
+  10
+);
+
+/**
+ * Thrown when an item cannot be reserved because stock ran out
+ * between cart validation and order creation
+ */
+export class InsufficientStockError extends Error {
+  constructor(
+    public productName: string,
+    public requested: number,
+    public available: number
+  ) {
+    super(
+      available === 0
+        ? `${productName} is out of stock`
+        : `${productName}: Only ${available} available (requested ${requested})`
+    );
+    this.name = "InsufficientStockError";
+  }
+}
+
+export interface ReservableItem {
+  orderItemId: string;
+  productId: string;
+  productName: string;
+  variantId: string | null;
+  quantity: number;
+}
+
+interface StockTarget {
+  productId: string;
+  variantId: string | null;
+}
+
+/**
+ * Get reservation expiry timestamp for a new order
+ */
+export function getReservationExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + STOCK_RESERVATION_MINUTES * 60 * 1000);
+}
+
+/**
+ * Read current stock level of a product or variant
+ */
+async function readStock(
+  target: StockTarget,
+  tx: Prisma.TransactionClient
+): Promise<number> {
+  if (target.variantId) {
+    const variant = await tx.productVariant.findUnique({
+      where: { id: target.variantId },
+      select: { stock: true },
+    });
+    return variant?.stock ?? 0;
+  }
+
+  const product = await tx.product.findUnique({
+    where: { id: target.productId },
+    select: { stock: true },
+  });
+  return product?.stock ?? 0;
+}
+
+/**
+ * Atomically decrement stock if enough is available.
+ * Uses a conditional updateMany so concurrent checkouts cannot oversell.
+ *
+ * @returns Stock level after the decrement, or null if insufficient
+ */
+async function decrementStock(
+  target: StockTarget,
+  quantity: number,
+  tx: Prisma.TransactionClient
+): Promise<number | null> {
+  const result = target.variantId
+    ? await tx.productVariant.updateMany({
+        where: { id: target.variantId, stock: { gte: quantity } },
+        data: { stock: { decrement: quantity } },
+      })
+    : await tx.product.updateMany({
+        where: { id: target.productId, stock: { gte: quantity } },
+        data: { stock: { decrement: quantity } },
+      });
+
+  if (result.count === 0) {
+    return null;
+  }
+
+  return readStock(target, tx);
+}
+
+/**
+ * Increment stock and return the new level
+ */
+async function incrementStock(
+  target: StockTarget,
+  quantity: number,
+  tx: Prisma.TransactionClient
+): Promise<number> {
+  if (target.variantId) {
+    const variant = await tx.productVariant.update({
+      where: { id: target.variantId },
+      data: { stock: { increment: quantity } },
+      select: { stock: true },
+    });
+    return variant.stock;
+  }
+
+  const product = await tx.product.update({
+    where: { id: target.productId },
+    data: { stock: { increment: quantity } },
+    select: { stock: true },
+  });
+  return product.stock;
+}
+
+/**
+ * Record a stock movement for the audit trail
+ */
+export async function recordStockMovement(
+  data: {
+    productId: string;
+    variantId?: string | null;
+    orderId?: string | null;
+    orderItemId?: string | null;
+    type: StockMovementType;
+    quantity: number;
+    stockBefore: number;
+    stockAfter: number;
+    note?: string;
+    createdBy?: string | null;
+  },
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  await tx.stockMovement.create({
+    data: {
+      productId: data.productId,
+      variantId: data.variantId || null,
+      orderId: data.orderId || null,
+      orderItemId: data.orderItemId || null,
+      type: data.type,
+      quantity: data.quantity,
+      stockBefore: data.stockBefore,
+      stockAfter: data.stockAfter,
+      note: data.note || null,
+      createdBy: data.createdBy || null,
+    },
+  });
+}
+
+/**
+ * Reserve stock for all items of a new order.
+ * Must run inside the order creation transaction so a failed reservation
+ * rolls back the order as well.
+ *
+ * @param orderId - Order ID
+ * @param orderNumber - Order number (for movement notes)
+ * @param items - Order items to reserve
+ * @param expiresAt - When the hold expires if the order stays unpaid
+ * @param tx - Prisma transaction client
+ * @throws InsufficientStockError if any item cannot be reserved
+ */
+export async function reserveOrderStock(
+  orderId: string,
+  orderNumber: string,
+  items: ReservableItem[],
+  expiresAt: Date,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  for (const item of items) {
+    const target = { productId: item.productId, variantId: item.variantId };
+    const stockAfter = await decrementStock(target, item.quantity, tx);
+
+    if (stockAfter === null) {
+      const available = await readStock(target, tx);
+      throw new InsufficientStockError(item.productName, item.quantity, available);
+    }
+
+    await tx.stockReservation.create({
+      data: {
+        orderId,
+        orderItemId: item.orderItemId,
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        status: "ACTIVE",
+        expiresAt,
+      },
+    });
+
+    await recordStockMovement(
+      {
+        productId: item.productId,
+        variantId: item.variantId,
+        orderId,
+        orderItemId: item.orderItemId,
+        type: "RESERVE",
+        quantity: -item.quantity,
+        stockBefore: stockAfter + item.quantity,
+        stockAfter,
+        note: `Reserved for order ${orderNumber}`,
+      },
+      tx
+    );
+  }
+}
+
+/**
+ * Commit active reservations once payment is confirmed.
+ * Stock was already decremented at reservation time, so this only changes
+ * the reservation state and records a COMMIT movement.
+ *
+ * @returns Number of reservations committed
+ */
+export async function commitOrderStock(
+  orderId: string,
+  orderNumber: string,
+  tx: Prisma.TransactionClient
+): Promise<number> {
+  const reservations = await tx.stockReservation.findMany({
+    where: { orderId, status: "ACTIVE" },
+  });
+
+  for (const reservation of reservations) {
+    await tx.stockReservation.update({
+      where: { id: reservation.id },
+      data: { status: "COMMITTED", committedAt: new Date() },
+    });
+
+    const stock = await readStock(reservation, tx);
+
+    await recordStockMovement(
+      {
+        productId: reservation.productId,
+        variantId: reservation.variantId,
+        orderId,
+        orderItemId: reservation.orderItemId,
+        type: "COMMIT",
+        quantity: 0,
+        stockBefore: stock,
+        stockAfter: stock,
+        note: `Payment confirmed for order ${orderNumber}`,
+      },
+      tx
+    );
+  }
+
+  return reservations.length;
+}
+
+/**
+ * Return reserved or sold stock for an order.
+ * ACTIVE reservations produce RELEASE movements, COMMITTED ones RESTOCK.
+ * Idempotent: reservations already RELEASED are skipped.
+ *
+ * @param orderId - Order ID
+ * @param note - Reason recorded on each movement
+ * @param tx - Prisma transaction client
+ * @param createdBy - User ID performing the action (null for system)
+ * @returns Number of reservations released
+ */
+export async function releaseOrderStock(
+  orderId: string,
+  note: string,
+  tx: Prisma.TransactionClient,
+  createdBy?: string | null
+): Promise<number> {
+  const reservations = await tx.stockReservation.findMany({
+    where: { orderId, status: { in: ["ACTIVE", "COMMITTED"] } },
+  });
+
+  for (const reservation of reservations) {
+    // Claim the reservation first so two concurrent releases can't both restock
+    const claimed = await tx.stockReservation.updateMany({
+      where: { id: reservation.id, status: reservation.status },
+      data: { status: "RELEASED", releasedAt: new Date() },
+    });
+
+    if (claimed.count === 0) continue;
+
+    const stockAfter = await incrementStock(reservation, reservation.quantity, tx);
+
+    await recordStockMovement(
+      {
+        productId: reservation.productId,
+        variantId: reservation.variantId,
+        orderId,
+        orderItemId: reservation.orderItemId,
+        type: reservation.status === "COMMITTED" ? "RESTOCK" : "RELEASE",
+        quantity: reservation.quantity,
+        stockBefore: stockAfter - reservation.quantity,
+        stockAfter,
+        note,
+        createdBy,
+      },
+      tx
+    );
+  }
+
+  return reservations.length;
+}
+
+/**
+ * Put returned units back into inventory
+ * Only called for items the vendor chose to restock; the order's reservations
+ * stay COMMITTED because the rest of the order was still sold.
+ *
+ * @param items - Order item IDs and returned quantities
+ */
+export async function restockReturnedItems(
+  orderId: string,
+  items: Array<{ orderItemId: string; quantity: number }>,
+  note: string,
+  tx: Prisma.TransactionClient,
+  createdBy?: string | null
+): Promise<void> {
+  const orderItems = await tx.orderItem.findMany({
+    where: { orderId, id: { in: items.map((item) => item.orderItemId) } },
+    select: { id: true, productId: true, variantId: true },
+  });
+
+  for (const item of items) {
+    const orderItem = orderItems.find((candidate) => candidate.id === item.orderItemId);
+    if (!orderItem || item.quantity <= 0) continue;
+
+    const stockAfter = await incrementStock(orderItem, item.quantity, tx);
+
+    await recordStockMovement(
+      {
+        productId: orderItem.productId,
+        variantId: orderItem.variantId,
+        orderId,
+        orderItemId: orderItem.id,
+        type: "RESTOCK",
+        quantity: item.quantity,
+        stockBefore: stockAfter - item.quantity,
+        stockAfter,
+        note,
+        createdBy,
+      },
+      tx
+    );
+  }
+}
+
+/**
+ * Cancel unpaid orders whose stock hold has expired and return their stock.
+ * Orders placed before reservations existed (no reservationExpiresAt) are
+ * treated as stale once they are older than the reservation window.
+ * Run by the reservation-sweep background job.
+ *
+ * @returns Number of orders cancelled
+ */
+export async function releaseExpiredReservations(): Promise<number> {
+  const now = new Date();
+  const staleBefore = new Date(
+    now.getTime() - STOCK_RESERVATION_MINUTES * 60 * 1000
+  );
+
+  const expiredOrders = await prisma.order.findMany({
+    where: {
+      status: "PENDING_PAYMENT",
+      OR: [
+        { reservationExpiresAt: { lt: now } },
+        { reservationExpiresAt: null, createdAt: { lt: staleBefore } },
+      ],
+    },
+    select: { id: true, orderNumber: true },
+    take: 100,
+  });
+
+  let cancelled = 0;
+
+  for (const order of expiredOrders) {
+    try {
+      await prisma.$transaction(async (tx) => {
+        // Re-check status inside the transaction in case payment just arrived
+        const updated = await tx.order.updateMany({
+          where: { id: order.id, status: "PENDING_PAYMENT" },
+          data: {
+            status: "CANCELLED",
+            cancelReason: "Payment not received in time",
+            cancelledAt: now,
+          },
+        });
+
+        if (updated.count === 0) return;
+
+        await tx.orderItem.updateMany({
+          where: { orderId: order.id },
+          data: { status: "CANCELLED" },
+        });
+
+        await tx.orderStatusHistory.create({
+          data: {
+            orderId: order.id,
+            status: "CANCELLED",
+            note: "Stock reservation expired before payment",
+            createdBy: null, // System action
+          },
+        });
+
+        await releaseOrderStock(
+          order.id,
+          `Reservation expired for order ${order.orderNumber}`,
+          tx
+        );
+
+        cancelled++;
+      });
+    } catch (error) {
+      console.error(
+        `[Stock] Failed to release expired reservation for ${order.orderNumber}:`,
+        error
+      );
+    }
+  }
+
+  if (cancelled > 0) {
+    console.log(`[Stock] Released ${cancelled} expired reservation(s)`);
+  }
+
+  return cancelled;
+}
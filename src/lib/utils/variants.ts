@@ -0,0 +1,286 @@
+/**
+ * Product variant matrix utilities
+ *
+ * A product has up to MAX_PRODUCT_OPTIONS options (Size, Colour, Fit), each
+ * with a list of values. A variant is one combination of a value per option
+ * and carries its own SKU, price adjustment, stock and optional image.
+ *
+ * Variants also keep a display label in name/value, with the options joined
+ * in option order: name = "Size / Colour", value = "L / Black". Single-option
+ * variants created before options existed use the same format, so order
+ * snapshots and carts display both alike.
+ */
+
+import type { Prisma } from "@prisma/client";
+
+export const MAX_PRODUCT_OPTIONS = 3;
+export const MAX_PRODUCT_VARIANTS = 100;
+export const VARIANT_LABEL_SEPARATOR = " / ";
+
+export interface VariantOption {
+  name: string;
+  value: string;
+}
+
+export interface ProductOptionInput {
+  name: string;
+  values: string[];
+}
+
+export interface VariantInput {
+  options: Record<string, string>; // { Size: "L", Colour: "Black" }
+  priceAdjustment?: number;
+  stock: number;
+  sku?: string;
+  imageUrl?: string | null;
+}
+
+/**
+ * Build a variant's display label from its options (in product option order)
+ */
+export function buildVariantLabel(options: VariantOption[]): {
+  name: string;
+  value: string;
+} {
+  return {
+    name: options.map((o) => o.name).join(VARIANT_LABEL_SEPARATOR),
+    value: options.map((o) => o.value).join(VARIANT_LABEL_SEPARATOR),
+  };
+}
+
+/**
+ * Split a variant's display label back into its options
+ * Example: ("Size / Colour", "L / Black") → [{ Size, L }, { Colour, Black }]
+ */
+export function parseVariantLabel(name: string, value: string): VariantOption[] {
+  const names = name.split(VARIANT_LABEL_SEPARATOR);
+  const values = value.split(VARIANT_LABEL_SEPARATOR);
+
+  // A label that doesn't split evenly is shown as a single option
+  if (names.length !== values.length) {
+    return [{ name, value }];
+  }
+
+  return names.map((optionName, i) => ({ name: optionName, value: values[i] }));
+}
+
+/**
+ * Map a variant's options by option name
+ */
+export function getVariantOptionMap(variant: {
+  name: string;
+  value: string;
+}): Record<string, string> {
+  return Object.fromEntries(
+    parseVariantLabel(variant.name, variant.value).map((o) => [o.name, o.value])
+  );
+}
+
+/**
+ * Check that variants form a valid matrix over the product's options:
+ * every variant picks exactly one existing value per option, and no
+ * combination appears twice
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateVariantMatrix(
+  options: ProductOptionInput[],
+  variants: VariantInput[]
+): string | null {
+  if (options.length > MAX_PRODUCT_OPTIONS) {
+    return `Maximum ${MAX_PRODUCT_OPTIONS} options per product`;
+  }
+
+  const optionNames = new Set<string>();
+  for (const option of options) {
+    const key = option.name.toLowerCase();
+    if (optionNames.has(key)) {
+      return `Option "${option.name}" is listed more than once`;
+    }
+    optionNames.add(key);
+
+    if (new Set(option.values.map((v) => v.toLowerCase())).size !== option.values.length) {
+      return `Option "${option.name}" has duplicate values`;
+    }
+  }
+
+  if (variants.length === 0) return null;
+
+  if (options.length === 0) {
+    return "Add product options before adding variants";
+  }
+
+  if (variants.length > MAX_PRODUCT_VARIANTS) {
+    return `Maximum ${MAX_PRODUCT_VARIANTS} variants per product`;
+  }
+
+  const combinations = new Set<string>();
+
+  for (const variant of variants) {
+    if (Object.keys(variant.options).length !== options.length) {
+      return `Each variant must have a value for ${options.map((o) => o.name).join(", ")}`;
+    }
+
+    for (const option of options) {
+      const value = variant.options[option.name];
+      if (value === undefined) {
+        return `Each variant must have a value for ${option.name}`;
+      }
+      if (!option.values.includes(value)) {
+        return `"${value}" is not a value of option ${option.name}`;
+      }
+    }
+
+    const combination = buildVariantLabel(
+      options.map((o) => ({ name: o.name, value: variant.options[o.name] }))
+    ).value;
+    if (combinations.has(combination)) {
+      return `Variant ${combination} is listed more than once`;
+    }
+    combinations.add(combination);
+  }
+
+  return null;
+}
+
+const optionValueKey = (name: string, value: string) => `${name}\u0000${value}`;
+
+/**
+ * Replace a product's options and option values (in the given order)
+ *
+ * @returns Option value IDs keyed by option name + value
+ */
+export async function syncProductOptions(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  options: ProductOptionInput[]
+): Promise<Map<string, string>> {
+  await tx.productOption.deleteMany({
+    where: { productId, name: { notIn: options.map((o) => o.name) } },
+  });
+
+  const valueIds = new Map<string, string>();
+
+  for (const [position, option] of options.entries()) {
+    const saved = await tx.productOption.upsert({
+      where: { productId_name: { productId, name: option.name } },
+      update: { position },
+      create: { productId, name: option.name, position },
+    });
+
+    await tx.productOptionValue.deleteMany({
+      where: { optionId: saved.id, value: { notIn: option.values } },
+    });
+
+    for (const [valuePosition, value] of option.values.entries()) {
+      const savedValue = await tx.productOptionValue.upsert({
+        where: { optionId_value: { optionId: saved.id, value } },
+        update: { position: valuePosition },
+        create: { optionId: saved.id, value, position: valuePosition },
+      });
+      valueIds.set(optionValueKey(option.name, value), savedValue.id);
+    }
+  }
+
+  return valueIds;
+}
+
+/**
+ * Build the data for one variant combination
+ */
+export function buildVariantData(
+  options: ProductOptionInput[],
+  variant: VariantInput,
+  valueIds: Map<string, string>
+) {
+  const ordered = options.map((o) => ({ name: o.name, value: variant.options[o.name] }));
+  const label = buildVariantLabel(ordered);
+
+  return {
+    ...label,
+    optionValueIds: ordered.map((o) => ({ id: valueIds.get(optionValueKey(o.name, o.value))! })),
+    priceAdjustment: variant.priceAdjustment ?? 0,
+    stock: variant.stock,
+    sku: variant.sku || null,
+    imageUrl: variant.imageUrl ?? null,
+  };
+}
+
+/**
+ * Replace a product's options and variant matrix (validate first with
+ * validateVariantMatrix). Variants whose combination already exists keep
+ * their ID, so carts and stock history referring to them stay valid;
+ * combinations no longer listed are deleted.
+ */
+export async function syncProductVariants(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  options: ProductOptionInput[],
+  variants: VariantInput[]
+): Promise<void> {
+  const valueIds = await syncProductOptions(tx, productId, options);
+
+  const existing = await tx.productVariant.findMany({
+    where: { productId },
+    select: { id: true, name: true, value: true },
+  });
+  const existingByLabel = new Map(existing.map((v) => [`${v.name}|${v.value}`, v.id]));
+  const keptIds: string[] = [];
+
+  for (const variant of variants) {
+    const { optionValueIds, ...data } = buildVariantData(options, variant, valueIds);
+    const existingId = existingByLabel.get(`${data.name}|${data.value}`);
+
+    if (existingId) {
+      await tx.productVariant.update({
+        where: { id: existingId },
+        data: { ...data, optionValues: { set: optionValueIds } },
+      });
+      keptIds.push(existingId);
+    } else {
+      const created = await tx.productVariant.create({
+        data: { ...data, productId, optionValues: { connect: optionValueIds } },
+      });
+      keptIds.push(created.id);
+    }
+  }
+
+  await tx.productVariant.deleteMany({
+    where: { productId, id: { notIn: keptIds } },
+  });
+}
+
+/**
+ * Prisma include for a product's options and values, in display order
+ */
+export const PRODUCT_OPTIONS_INCLUDE = {
+  orderBy: { position: "asc" },
+  include: { values: { orderBy: { position: "asc" } } },
+} as const;
+
+/**
+ * A product's options for API responses. Products whose variants predate
+ * options get them derived from the variant labels.
+ */
+export function getProductOptions(product: {
+  options?: { name: string; values: { value: string }[] }[];
+  variants: { name: string; value: string }[];
+}): ProductOptionInput[] {
+  if (product.options && product.options.length > 0) {
+    return product.options.map((option) => ({
+      name: option.name,
+      values: option.values.map((v) => v.value),
+    }));
+  }
+
+  const derived = new Map<string, string[]>();
+  for (const variant of product.variants) {
+    for (const option of parseVariantLabel(variant.name, variant.value)) {
+      const values = derived.get(option.name) ?? [];
+      if (!values.includes(option.value)) values.push(option.value);
+      derived.set(option.name, values);
+    }
+  }
+
+  return [...derived.entries()].map(([name, values]) => ({ name, values }));
+}
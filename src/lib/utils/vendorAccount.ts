@@ -0,0 +1,105 @@
+/**
+ * Vendor account provisioning
+ *
+ * Creates the User, Vendor and Wallet of a new vendor in one transaction and
+ * emails the login details with a temporary password. Used when an admin
+ * creates a vendor and when a vendor application is approved.
+ */
+
+import { Prisma, UserRole, type User, type Vendor, type Wallet } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { passwordUtils } from "@/lib/auth";
+import { emailService } from "@/lib/email";
+import { generateSlug, generateUniqueSlug } from "@/lib/utils/slug";
+import { getSetting } from "@/lib/settings";
+import type { CreateVendorInput } from "@/lib/validations/vendor";
+
+export interface CreatedVendorAccount {
+  user: User;
+  vendor: Vendor;
+  wallet: Wallet;
+  tempPassword: string;
+  emailSent: boolean;
+}
+
+/**
+ * Create a vendor with auto-generated credentials
+ *
+ * @param afterCreate - Runs inside the transaction once the vendor exists
+ *                      (e.g. to link the approved application)
+ */
+export async function createVendorAccount(
+  data: CreateVendorInput,
+  afterCreate?: (tx: Prisma.TransactionClient, vendor: Vendor) => Promise<void>
+): Promise<CreatedVendorAccount> {
+  // Vendors created without a rate get the platform default
+  const commissionRate =
+    data.commissionRate ?? (await getSetting("platform_commission")).rate;
+
+  // Generate credentials
+  const tempPassword = passwordUtils.generateRandom(12);
+  const passwordHash = await passwordUtils.hash(tempPassword);
+
+  // Generate unique slug
+  const baseSlug = generateSlug(data.businessName);
+  const slug = await generateUniqueSlug(baseSlug, async (slug) => {
+    const existing = await prisma.vendor.findUnique({ where: { slug } });
+    return !!existing;
+  });
+
+  // Create vendor in transaction (User + Vendor + Wallet)
+  const result = await prisma.$transaction(async (tx) => {
+    // 1. Create User
+    const user = await tx.user.create({
+      data: {
+        email: data.businessEmail,
+        passwordHash,
+        role: UserRole.VENDOR,
+        mustChangePassword: true,
+        isActive: true,
+      },
+    });
+
+    // 2. Create Vendor
+    const vendor = await tx.vendor.create({
+      data: {
+        userId: user.id,
+        businessName: data.businessName,
+        businessEmail: data.businessEmail,
+        businessPhone: data.businessPhone,
+        businessAddress: data.businessAddress,
+        description: data.description,
+        slug,
+        commissionRate,
+        isApproved: true,
+        isShopOpen: true,
+      },
+    });
+
+    // 3. Create Wallet
+    const wallet = await tx.wallet.create({
+      data: {
+        vendorId: vendor.id,
+        pendingBalance: 0,
+        availableBalance: 0,
+        totalEarnings: 0,
+        totalWithdrawn: 0,
+      },
+    });
+
+    if (afterCreate) await afterCreate(tx, vendor);
+
+    return { user, vendor, wallet };
+  });
+
+  // Send welcome email (failures don't undo the account; callers show the
+  // temporary password instead)
+  const emailResult = await emailService.sendVendorWelcomeEmail(
+    data.businessEmail,
+    data.businessName,
+    data.businessEmail,
+    tempPassword
+  );
+
+  return { ...result, tempPassword, emailSent: emailResult.success };
+}
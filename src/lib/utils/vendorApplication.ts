@@ -0,0 +1,155 @@
+/**
+ * Vendor onboarding applications
+ *
+ * Applicants don't have an account until they are approved, so every
+ * application gets a random access token; the status link emailed to the
+ * applicant (/sell/application/<token>) is how they follow and resubmit it.
+ *
+ * Applicants are emailed at every step (received, changes requested,
+ * rejected; approval sends the vendor welcome email with login details) and
+ * admins are notified of new and resubmitted applications.
+ */
+
+import { randomBytes } from "crypto";
+import { UserRole, type Prisma, type VendorApplication } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { emailService } from "@/lib/email";
+import { readPrivateImage } from "@/lib/storage/storageService";
+import { createNotification } from "@/lib/notifications/notificationService";
+import { NotificationType } from "@/types/notification";
+import {
+  VENDOR_APPLICATION_DOCUMENT_TYPES,
+  type VendorApplicationDocument,
+  type VendorApplicationDocumentType,
+} from "@/types/vendor";
+
+/**
+ * Generate the access token of a new application
+ */
+export function generateApplicationToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * Applicant status page for an application
+ */
+export function getApplicationLink(accessToken: string): string {
+  return `/sell/application/${accessToken}`;
+}
+
+/**
+ * Read the documents stored on an application
+ */
+export function getApplicationDocuments(
+  documents: Prisma.JsonValue | null
+): VendorApplicationDocument[] {
+  if (!Array.isArray(documents)) return [];
+
+  return documents.flatMap((doc) => {
+    if (!doc || typeof doc !== "object" || Array.isArray(doc)) return [];
+
+    const type = doc.type as VendorApplicationDocumentType;
+    return typeof doc.key === "string" && VENDOR_APPLICATION_DOCUMENT_TYPES.includes(type)
+      ? [{ type, key: doc.key }]
+      : [];
+  });
+}
+
+/**
+ * Whether every document key is an upload in the "vendor-applications" folder
+ */
+export async function areApplicationUploads(keys: string[]): Promise<boolean> {
+  const unique = [...new Set(keys)];
+  const count = await prisma.storedImage.count({
+    where: { key: { in: unique }, folder: "vendor-applications" },
+  });
+  return count === unique.length;
+}
+
+/**
+ * Read an application document by type. Documents are private: callers must
+ * have checked the requester is an admin or holds the application's access token.
+ *
+ * @returns null if the application has no such document
+ */
+export async function readApplicationDocument(
+  documents: Prisma.JsonValue | null,
+  type: string
+): Promise<{ body: Buffer; contentType: string } | null> {
+  const doc = getApplicationDocuments(documents).find((d) => d.type === type);
+  return doc ? readPrivateImage(doc.key) : null;
+}
+
+/**
+ * Application details without the access token (applicant and admin views)
+ */
+export function toApplicantView(application: VendorApplication) {
+  return {
+    id: application.id,
+    status: application.status,
+    businessName: application.businessName,
+    businessEmail: application.businessEmail,
+    businessPhone: application.businessPhone,
+    businessAddress: application.businessAddress,
+    description: application.description,
+    businessRegistrationNo: application.businessRegistrationNo,
+    ownerName: application.ownerName,
+    nicNumber: application.nicNumber,
+    bankName: application.bankName,
+    branchCode: application.branchCode,
+    accountHolder: application.accountHolder,
+    accountNumber: application.accountNumber,
+    documents: getApplicationDocuments(application.documents),
+    reviewNote: application.reviewNote,
+    reviewedAt: application.reviewedAt,
+    submittedAt: application.submittedAt,
+  };
+}
+
+/**
+ * Email the applicant about their application. Never throws.
+ */
+export async function notifyApplicant(
+  application: Pick<VendorApplication, "businessEmail" | "businessName" | "accessToken" | "reviewNote">,
+  event: "RECEIVED" | "CHANGES_REQUESTED" | "REJECTED"
+): Promise<void> {
+  try {
+    await emailService.sendVendorApplicationUpdateEmail(application.businessEmail, {
+      businessName: application.businessName,
+      event,
+      note: event === "RECEIVED" ? null : application.reviewNote,
+      statusLink: getApplicationLink(application.accessToken),
+    });
+  } catch (error) {
+    console.error("[VendorApplication] Failed to email applicant:", error);
+  }
+}
+
+/**
+ * Notify all admins that an application is waiting for review. Never throws.
+ */
+export async function notifyAdminsOfApplication(
+  application: Pick<VendorApplication, "id" | "businessName">,
+  isResubmission: boolean
+): Promise<void> {
+  try {
+    const admins = await prisma.user.findMany({
+      where: { role: UserRole.ADMIN },
+      select: { id: true },
+    });
+
+    for (const admin of admins) {
+      await createNotification({
+        userId: admin.id,
+        type: NotificationType.VENDOR_APPLICATION_SUBMITTED,
+        metadata: {
+          applicationId: application.id,
+          businessName: application.businessName,
+          isResubmission,
+        },
+      });
+    }
+  } catch (error) {
+    console.error("[VendorApplication] Failed to notify admins:", error);
+  }
+}
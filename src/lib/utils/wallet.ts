@@ -13,17 +13,20 @@ export interface VendorEarnings {
   vendorId: string;
   vendorName: string;
   totalAmount: Decimal; // Sum of all order items for this vendor
+  shippingAmount: Decimal; // Vendor's shipping line (no commission charged)
   commissionRate: Decimal; // Commission rate (e.g., 10.00 for 10%)
   commissionAmount: Decimal; // Calculated commission
-  netAmount: Decimal; // Amount after commission deduction
+  netAmount: Decimal; // Amount after commission deduction, plus shipping
   orderItemIds: string[]; // Order item IDs for this vendor
 }
 
 /**
  * Calculate vendor earnings from order items
- * Groups items by vendor and calculates commission per vendor
+ * Groups items by vendor and calculates commission per vendor.
+ * Shipping is passed through to the vendor in full (commission applies to items only).
  *
  * @param orderItems - Order items with vendor info
+ * @param shippingLines - Order shipping lines (one per vendor)
  * @returns Array of vendor earnings
  */
 export function calculateVendorEarnings(
@@ -36,7 +39,8 @@ export function calculateVendorEarnings(
       businessName: string;
       commissionRate: Decimal;
     };
-  }>
+  }>,
+  shippingLines: Array<{ vendorId: string; amount: Decimal }> = []
 ): VendorEarnings[] {
   // Group items by vendor
   const vendorGroups = new Map<
@@ -79,13 +83,19 @@ export function calculateVendorEarnings(
     // Calculate commission amount
     const commissionAmount = totalAmount.mul(group.commissionRate).div(100);
 
-    // Calculate net amount (after commission deduction)
-    const netAmount = totalAmount.sub(commissionAmount);
+    // Vendor's shipping line
+    const shippingAmount =
+      shippingLines.find((line) => line.vendorId === group.vendorId)?.amount ??
+      new Decimal(0);
+
+    // Calculate net amount (after commission deduction, shipping passed through)
+    const netAmount = totalAmount.sub(commissionAmount).add(shippingAmount);
 
     vendorEarnings.push({
       vendorId: group.vendorId,
       vendorName: group.vendorName,
       totalAmount,
+      shippingAmount,
       commissionRate: group.commissionRate,
       commissionAmount,
       netAmount,
@@ -99,7 +109,7 @@ export function calculateVendorEarnings(
 /**
  * Credit vendor wallets with HOLD and COMMISSION transactions
  * This function performs atomic wallet operations:
- * 1. HOLD transaction - Add total amount to pendingBalance
+ * 1. HOLD transaction - Add total amount (items + shipping) to pendingBalance
  * 2. COMMISSION transaction - Deduct commission from pendingBalance
  *
  * @param vendorEarnings - Array of vendor earnings
@@ -127,13 +137,14 @@ export async function creditVendorWallets(
     const currentPendingBalance = wallet.pendingBalance;
 
     // Step 1: Create HOLD transaction (add to pendingBalance)
-    const balanceAfterHold = currentPendingBalance.add(earning.totalAmount);
+    const holdAmount = earning.totalAmount.add(earning.shippingAmount);
+    const balanceAfterHold = currentPendingBalance.add(holdAmount);
 
     await tx.walletTransaction.create({
       data: {
         walletId: wallet.id,
         type: "HOLD",
-        amount: earning.totalAmount,
+        amount: holdAmount,
         balanceBefore: currentPendingBalance,
         balanceAfter: balanceAfterHold,
         description: `Payment held for order ${orderNumber}`,
@@ -143,6 +154,8 @@ export async function creditVendorWallets(
           vendorId: earning.vendorId,
           vendorName: earning.vendorName,
           itemCount: earning.orderItemIds.length,
+          itemsAmount: earning.totalAmount.toNumber(),
+          shippingAmount: earning.shippingAmount.toNumber(),
         },
       },
     });
@@ -191,6 +204,7 @@ export async function creditVendorWallets(
     // Log for audit trail
     console.log(`[Wallet] Credited vendor ${earning.vendorName} (${earning.vendorId}):`, {
       totalAmount: earning.totalAmount.toFixed(2),
+      shippingAmount: earning.shippingAmount.toFixed(2),
       commissionRate: earning.commissionRate.toFixed(2) + "%",
       commissionAmount: earning.commissionAmount.toFixed(2),
       netAmount: earning.netAmount.toFixed(2),
@@ -221,7 +235,9 @@ export function calculatePlatformCommission(
 /**
  * Release vendor funds from pending to available balance
  * Called when customer confirms delivery
- * Moves funds from pendingBalance to availableBalance (RELEASE transaction)
+ * Moves funds from pendingBalance to availableBalance (RELEASE transaction).
+ * Item refunds made before delivery were already taken out of pendingBalance
+ * and are left out of the release.
  *
  * @param orderId - Order ID
  * @param orderNumber - Order number (e.g., PW-20260204-001)
@@ -232,7 +248,7 @@ export async function releaseVendorFunds(
   orderNumber: string,
   tx: Prisma.TransactionClient
 ): Promise<void> {
-  // 1. Fetch order with items and vendor wallets
+  // 1. Fetch order with items, vendor wallets, item refunds and shipping lines
   const order = await tx.order.findUnique({
     where: { id: orderId },
     include: {
@@ -241,8 +257,12 @@ export async function releaseVendorFunds(
           vendor: {
             include: { wallet: true },
           },
+          walletTransactions: {
+            where: { type: "REFUND" },
+          },
         },
       },
+      shippingLines: true,
     },
   });
 
@@ -273,7 +293,24 @@ export async function releaseVendorFunds(
     }, new Decimal(0));
     const commissionRate = items[0].vendor.commissionRate;
     const commissionAmount = grossAmount.mul(commissionRate).div(100);
-    const netAmount = grossAmount.sub(commissionAmount);
+    const shippingAmount =
+      order.shippingLines.find((line) => line.vendorId === vendorId)?.amount ??
+      new Decimal(0);
+    // Item refunds already debited from pendingBalance (see refundOrderItems)
+    const refundedAmount = items.reduce((sum, item) => {
+      return item.walletTransactions
+        .filter(
+          (transaction) =>
+            (transaction.metadata as { balance?: string } | null)?.balance === "pending"
+        )
+        .reduce((itemSum, transaction) => itemSum.add(transaction.amount), sum);
+    }, new Decimal(0));
+    const netAmount = grossAmount.sub(commissionAmount).add(shippingAmount).sub(refundedAmount);
+
+    // Everything this vendor was holding has been refunded
+    if (netAmount.lessThanOrEqualTo(0)) {
+      continue;
+    }
 
     const currentPendingBalance = wallet.pendingBalance;
     const currentAvailableBalance = wallet.availableBalance;
@@ -305,6 +342,8 @@ export async function releaseVendorFunds(
           vendorId,
           orderItemIds: items.map((i) => i.id),
           deliveryConfirmedAt: new Date().toISOString(),
+          shippingAmount: shippingAmount.toNumber(),
+          refundedAmount: refundedAmount.toNumber(),
           releaseAmount: netAmount.toNumber(),
         },
       },
@@ -331,7 +370,11 @@ export async function releaseVendorFunds(
 /**
  * Refund order and reverse vendor wallet transactions
  * Called when order is cancelled after payment
- * Reverses HOLD and COMMISSION transactions, deducts from pendingBalance
+ * Reverses HOLD and COMMISSION transactions, deducts from pendingBalance.
+ * Items already partly refunded (REFUND transactions from refundOrderItems)
+ * only have their remainder reversed.
+ * The customer's money is returned separately via a Refund record
+ * (see createRefund / attemptRefund in utils/refund).
  *
  * @param orderId - Order ID
  * @param orderNumber - Order number
@@ -352,7 +395,7 @@ export async function refundOrder(
         include: {
           vendor: { include: { wallet: true } },
           walletTransactions: {
-            where: { type: { in: ["HOLD", "COMMISSION"] } },
+            where: { type: { in: ["HOLD", "COMMISSION", "REFUND"] } },
           },
         },
       },
@@ -395,10 +438,19 @@ export async function refundOrder(
       return commTx ? sum.add(commTx.amount) : sum;
     }, new Decimal(0));
 
+    // Item refunds already took their share out of pending balance
+    const itemRefundedAmount = items.reduce(
+      (sum, item) =>
+        item.walletTransactions
+          .filter((t) => t.type === "REFUND")
+          .reduce((itemSum, t) => itemSum.add(t.amount), sum),
+      new Decimal(0)
+    );
+
     // Net amount to deduct from pending balance
-    const netAmount = holdAmount.sub(commissionAmount);
+    const netAmount = holdAmount.sub(commissionAmount).sub(itemRefundedAmount);
 
-    if (netAmount.isZero()) {
+    if (netAmount.lessThanOrEqualTo(0)) {
       console.warn(`[Wallet] No funds to refund for vendor ${vendorId}`);
       continue;
     }
@@ -432,6 +484,7 @@ export async function refundOrder(
           reason,
           holdAmount: holdAmount.toNumber(),
           commissionAmount: commissionAmount.toNumber(),
+          itemRefundedAmount: itemRefundedAmount.toNumber(),
           netAmount: netAmount.toNumber(),
         },
       },
@@ -455,6 +508,231 @@ export async function refundOrder(
     });
   }
 
-  // TODO: In Phase 11, integrate with PayHere refund API to refund customer
-  console.log(`[Wallet] Refund completed for order ${orderNumber}. PayHere refund API integration pending (Phase 11).`);
+  console.log(`[Wallet] Vendor wallets reversed for order ${orderNumber}`);
+}
+
+/**
+ * Item-level refund line (one per refunded order item)
+ */
+export interface ItemRefundLine {
+  orderItemId: string;
+  vendorId: string;
+  quantity: number;
+  grossAmount: Decimal; // unitPrice × quantity
+  discountAmount: Decimal; // Pro-rated coupon discount (customer never paid this)
+  commissionReversed: Decimal; // Platform returns its commission share
+  vendorAmount: Decimal; // Debited from vendor wallet (gross - commission)
+  amount: Decimal; // Returned to customer (gross - discount)
+}
+
+/**
+ * Pro-rate an item total over refunded units
+ * The final units take whatever is left so repeated partial refunds add up exactly.
+ */
+function proRateItemShare(
+  total: Decimal,
+  alreadyRefunded: Decimal,
+  quantity: number,
+  refundQuantity: number,
+  isFinalRefund: boolean
+): Decimal {
+  if (isFinalRefund) {
+    const remaining = total.sub(alreadyRefunded);
+    return remaining.isNegative() ? new Decimal(0) : remaining;
+  }
+  return total.mul(refundQuantity).div(quantity).toDecimalPlaces(2);
+}
+
+/**
+ * Refund specific order items (or quantities) and reverse vendor wallet transactions
+ * Only the wallets of the vendors owning the items are debited. Each item gets a
+ * REFUND transaction linked by orderItemId, reversing its share of the vendor's
+ * COMMISSION transaction and its pro-rated share of the order coupon discount.
+ * Funds are taken from availableBalance once delivery was confirmed, pendingBalance otherwise.
+ *
+ * @param orderId - Order ID
+ * @param orderNumber - Order number
+ * @param items - Order item IDs and quantities to refund
+ * @param reason - Refund reason
+ * @param tx - Prisma transaction client
+ * @returns Refund lines (persist as RefundItem records)
+ * @throws Error if an item is not in the order or the quantity exceeds what is refundable
+ */
+export async function refundOrderItems(
+  orderId: string,
+  orderNumber: string,
+  items: Array<{ orderItemId: string; quantity: number }>,
+  reason: string,
+  tx: Prisma.TransactionClient
+): Promise<ItemRefundLine[]> {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: {
+      items: {
+        include: {
+          vendor: true,
+          refundItems: true,
+        },
+      },
+    },
+  });
+
+  if (!order) {
+    throw new Error("Order not found");
+  }
+
+  const requestedIds = items.map((item) => item.orderItemId);
+  if (new Set(requestedIds).size !== requestedIds.length) {
+    throw new Error("Each order item can only be listed once per refund");
+  }
+
+  const fundsReleased = order.deliveryConfirmedAt !== null;
+  const commissionRates = new Map<string, Decimal>();
+  const lines: ItemRefundLine[] = [];
+
+  for (const request of items) {
+    const item = order.items.find((i) => i.id === request.orderItemId);
+    if (!item) {
+      throw new Error(`Order item ${request.orderItemId} does not belong to order ${orderNumber}`);
+    }
+
+    const refundableQuantity = item.quantity - item.refundedQuantity;
+    if (request.quantity < 1 || request.quantity > refundableQuantity) {
+      throw new Error(
+        `Cannot refund ${request.quantity} unit(s) of item ${item.id}. ` +
+        `Refundable: ${refundableQuantity}`
+      );
+    }
+
+    const wallet = await tx.wallet.findUnique({
+      where: { vendorId: item.vendorId },
+    });
+    if (!wallet) {
+      throw new Error(`Wallet not found for vendor ${item.vendorId}`);
+    }
+
+    // Use the rate the order was actually charged at (vendor rate may have changed since)
+    if (!commissionRates.has(item.vendorId)) {
+      const commissionTx = await tx.walletTransaction.findFirst({
+        where: {
+          walletId: wallet.id,
+          type: "COMMISSION",
+          metadata: { path: ["orderId"], equals: orderId },
+        },
+      });
+      const chargedRate = (commissionTx?.metadata as { commissionRate?: number } | null)
+        ?.commissionRate;
+      commissionRates.set(
+        item.vendorId,
+        chargedRate !== undefined ? new Decimal(chargedRate) : item.vendor.commissionRate
+      );
+    }
+    const commissionRate = commissionRates.get(item.vendorId)!;
+
+    // Item totals across all of its refunds
+    const itemDiscount = order.subtotal.isZero()
+      ? new Decimal(0)
+      : order.discountAmount.mul(item.totalPrice).div(order.subtotal).toDecimalPlaces(2);
+    const itemCommission = item.totalPrice.mul(commissionRate).div(100).toDecimalPlaces(2);
+
+    const previouslyRefunded = item.refundItems.reduce(
+      (sum, line) => ({
+        discount: sum.discount.add(line.discountAmount),
+        commission: sum.commission.add(line.commissionReversed),
+      }),
+      { discount: new Decimal(0), commission: new Decimal(0) }
+    );
+
+    const isFinalRefund = request.quantity === refundableQuantity;
+    const grossAmount = item.unitPrice.mul(request.quantity);
+    const discountAmount = proRateItemShare(
+      itemDiscount,
+      previouslyRefunded.discount,
+      item.quantity,
+      request.quantity,
+      isFinalRefund
+    );
+    const commissionReversed = proRateItemShare(
+      itemCommission,
+      previouslyRefunded.commission,
+      item.quantity,
+      request.quantity,
+      isFinalRefund
+    );
+    const vendorAmount = grossAmount.sub(commissionReversed);
+    const amount = grossAmount.sub(discountAmount);
+
+    const balanceBefore = fundsReleased ? wallet.availableBalance : wallet.pendingBalance;
+    const balanceAfter = balanceBefore.sub(vendorAmount);
+
+    if (balanceAfter.isNegative()) {
+      console.warn(
+        `[Wallet] Item refund exceeds ${fundsReleased ? "available" : "pending"} balance for vendor ${item.vendorId}. ` +
+        `Balance: ${balanceBefore.toFixed(2)}, Required: ${vendorAmount.toFixed(2)}`
+      );
+    }
+
+    // Create REFUND transaction linked to the order item
+    await tx.walletTransaction.create({
+      data: {
+        walletId: wallet.id,
+        orderItemId: item.id,
+        type: "REFUND",
+        amount: vendorAmount,
+        balanceBefore,
+        balanceAfter,
+        description: `Refund of ${request.quantity} × item for order ${orderNumber}: ${reason}`,
+        metadata: {
+          orderId,
+          orderNumber,
+          vendorId: item.vendorId,
+          reason,
+          balance: fundsReleased ? "available" : "pending",
+          quantity: request.quantity,
+          grossAmount: grossAmount.toNumber(),
+          commissionRate: commissionRate.toNumber(),
+          commissionReversed: commissionReversed.toNumber(),
+          discountAmount: discountAmount.toNumber(),
+          netAmount: vendorAmount.toNumber(),
+        },
+      },
+    });
+
+    // Update wallet: Deduct refunded net and reverse totalEarnings
+    await tx.wallet.update({
+      where: { id: wallet.id },
+      data: {
+        ...(fundsReleased
+          ? { availableBalance: balanceAfter }
+          : { pendingBalance: balanceAfter }),
+        totalEarnings: { decrement: vendorAmount },
+      },
+    });
+
+    await tx.orderItem.update({
+      where: { id: item.id },
+      data: { refundedQuantity: { increment: request.quantity } },
+    });
+
+    console.log(`[Wallet] Refunded ${request.quantity} unit(s) of item ${item.id} for vendor ${item.vendorId}:`, {
+      grossAmount: grossAmount.toFixed(2),
+      commissionReversed: commissionReversed.toFixed(2),
+      discountAmount: discountAmount.toFixed(2),
+      vendorAmount: vendorAmount.toFixed(2),
+      balanceAfter: balanceAfter.toFixed(2),
+    });
+
+    lines.push({
+      orderItemId: item.id,
+      vendorId: item.vendorId,
+      quantity: request.quantity,
+      grossAmount,
+      discountAmount,
+      commissionReversed,
+      vendorAmount,
+      amount,
+    });
+  }
+
+  return lines;
 }
@@ -0,0 +1,307 @@
+/**
+ * Wishlist utilities
+ *
+ * Wishlist items remember the price and stock state they were saved with.
+ * The wishlist-alerts job compares them with the current product and
+ * notifies the customer when:
+ * - the price drops below the saved price (and again only after a further
+ *   drop, or after the price recovered and dropped again)
+ * - a sold-out product or variant is restocked
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { createNotification } from "@/lib/notifications";
+import { NotificationType } from "@/types/notification";
+import type { WishlistItem } from "@/types/wishlist";
+import { calculateFinalPrice, formatVariantDisplay } from "./cart";
+
+const ALERT_BATCH_SIZE = 200;
+
+export const WISHLIST_PRODUCT_INCLUDE = {
+  images: {
+    select: { url: true },
+    orderBy: { position: "asc" },
+    take: 1,
+  },
+  vendor: {
+    select: {
+      businessName: true,
+      isApproved: true,
+      isShopOpen: true,
+      user: { select: { isActive: true } },
+    },
+  },
+  variants: {
+    select: {
+      id: true,
+      name: true,
+      value: true,
+      priceAdjustment: true,
+      stock: true,
+      imageUrl: true,
+    },
+  },
+} satisfies Prisma.ProductInclude;
+
+type WishlistProduct = Prisma.ProductGetPayload<{
+  include: typeof WISHLIST_PRODUCT_INCLUDE;
+}>;
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Current price and stock of a wishlisted product or variant
+ * Without a variant (or if it was removed) the product's lowest variant price
+ * and combined stock are used, as on product cards.
+ */
+export function getWishlistPricing(product: WishlistProduct, variantId: string | null) {
+  const variant = variantId
+    ? product.variants.find((v) => v.id === variantId) ?? null
+    : null;
+
+  if (variant) {
+    return {
+      variant,
+      price: calculateFinalPrice(product.price, variant.priceAdjustment),
+      inStock: variant.stock > 0,
+    };
+  }
+
+  if (product.variants.length > 0) {
+    return {
+      variant: null,
+      price: Math.min(
+        ...product.variants.map((v) => calculateFinalPrice(product.price, v.priceAdjustment))
+      ),
+      inStock: product.variants.some((v) => v.stock > 0),
+    };
+  }
+
+  return {
+    variant: null,
+    price: product.price.toNumber(),
+    inStock: product.stock > 0,
+  };
+}
+
+/**
+ * Whether a product is listed (active, not disabled, approved active vendor)
+ */
+function isProductListed(product: WishlistProduct): boolean {
+  return (
+    product.isActive &&
+    !product.isDisabledByAdmin &&
+    product.vendor.isApproved &&
+    product.vendor.user.isActive
+  );
+}
+
+/**
+ * Whether a product can currently be bought (listed and the shop is open)
+ */
+export function isProductAvailable(product: WishlistProduct): boolean {
+  return isProductListed(product) && product.vendor.isShopOpen;
+}
+
+/**
+ * Convert a database wishlist item to the client representation
+ */
+export function toWishlistItem(item: {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  savedPrice: Prisma.Decimal;
+  product: WishlistProduct;
+}): WishlistItem {
+  const { variant, price, inStock } = getWishlistPricing(item.product, item.variantId);
+
+  return {
+    id: item.id,
+    productId: item.productId,
+    productName: item.product.name,
+    productSlug: item.product.slug,
+    productImage: variant?.imageUrl || item.product.images[0]?.url || null,
+    variantId: variant?.id ?? null,
+    variantLabel: variant ? formatVariantDisplay(variant.name, variant.value) : undefined,
+    price,
+    savedPrice: item.savedPrice.toNumber(),
+    quantity: item.quantity,
+    inStock,
+    isAvailable: isProductAvailable(item.product),
+    shopClosed: isProductListed(item.product) && !item.product.vendor.isShopOpen,
+    vendorName: item.product.vendor.businessName,
+  };
+}
+
+/**
+ * Get a customer's wishlist, newest first
+ */
+export async function getWishlistItems(customerId: string): Promise<WishlistItem[]> {
+  const items = await prisma.wishlistItem.findMany({
+    where: { wishlist: { customerId } },
+    include: { product: { include: WISHLIST_PRODUCT_INCLUDE } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return items.map(toWishlistItem);
+}
+
+/**
+ * Add a product (or one variant) to a customer's wishlist, recording the
+ * current price and stock for alerts. Saving an item that is already on the
+ * wishlist keeps the original saved price.
+ *
+ * @returns false if the product (or variant) does not exist or is unavailable
+ */
+export async function saveToWishlist(
+  db: DbClient,
+  customerId: string,
+  productId: string,
+  variantId: string | null,
+  quantity = 1
+): Promise<boolean> {
+  const product = await db.product.findUnique({
+    where: { id: productId },
+    include: WISHLIST_PRODUCT_INCLUDE,
+  });
+
+  // Products of a temporarily closed shop can still be saved
+  if (!product || !isProductListed(product)) return false;
+  if (variantId && !product.variants.some((v) => v.id === variantId)) return false;
+
+  const wishlist = await db.wishlist.upsert({
+    where: { customerId },
+    create: { customerId },
+    update: {},
+  });
+
+  const existing = await db.wishlistItem.findFirst({
+    where: { wishlistId: wishlist.id, productId, variantId },
+  });
+
+  if (existing) {
+    if (quantity > existing.quantity) {
+      await db.wishlistItem.update({
+        where: { id: existing.id },
+        data: { quantity },
+      });
+    }
+    return true;
+  }
+
+  const { price, inStock } = getWishlistPricing(product, variantId);
+
+  await db.wishlistItem.create({
+    data: {
+      wishlistId: wishlist.id,
+      productId,
+      variantId,
+      quantity,
+      savedPrice: price,
+      wasInStock: inStock,
+    },
+  });
+
+  return true;
+}
+
+// Compare prices in cents to avoid floating point noise
+const toCents = (amount: number | Prisma.Decimal) =>
+  Math.round(Number(amount) * 100);
+
+/**
+ * Send price-drop and back-in-stock notifications for wishlist items
+ * (background job)
+ */
+export async function processWishlistAlerts(): Promise<{
+  checked: number;
+  priceDrops: number;
+  backInStock: number;
+}> {
+  let checked = 0;
+  let priceDrops = 0;
+  let backInStock = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    const items = await prisma.wishlistItem.findMany({
+      where: cursor ? { id: { gt: cursor } } : undefined,
+      include: {
+        product: { include: WISHLIST_PRODUCT_INCLUDE },
+        wishlist: { select: { customer: { select: { userId: true } } } },
+      },
+      orderBy: { id: "asc" },
+      take: ALERT_BATCH_SIZE,
+    });
+    if (items.length === 0) break;
+
+    for (const item of items) {
+      checked++;
+
+      // Hidden products neither alert nor update the stored state, so the
+      // alerts fire once the product is listed again
+      if (!isProductAvailable(item.product)) continue;
+
+      try {
+        const { variant, price, inStock } = getWishlistPricing(item.product, item.variantId);
+        const data: Prisma.WishlistItemUpdateInput = {};
+        const metadata = {
+          productId: item.productId,
+          productName: item.product.name,
+          productSlug: item.product.slug,
+          variantLabel: variant
+            ? formatVariantDisplay(variant.name, variant.value)
+            : undefined,
+        };
+
+        const reference = item.alertedPrice ?? item.savedPrice;
+        if (toCents(price) < toCents(reference)) {
+          await createNotification({
+            userId: item.wishlist.customer.userId,
+            type: NotificationType.WISHLIST_PRICE_DROP,
+            metadata: {
+              ...metadata,
+              previousPrice: reference.toNumber(),
+              newPrice: price,
+            },
+          });
+          data.alertedPrice = price;
+          priceDrops++;
+        } else if (item.alertedPrice && toCents(price) >= toCents(item.savedPrice)) {
+          // Back at (or above) the saved price - alert on the next drop
+          data.alertedPrice = null;
+        }
+
+        if (inStock !== item.wasInStock) {
+          if (inStock) {
+            await createNotification({
+              userId: item.wishlist.customer.userId,
+              type: NotificationType.WISHLIST_BACK_IN_STOCK,
+              metadata,
+            });
+            backInStock++;
+          }
+          data.wasInStock = inStock;
+        }
+
+        if (Object.keys(data).length > 0) {
+          await prisma.wishlistItem.update({ where: { id: item.id }, data });
+        }
+      } catch (error) {
+        console.error(`[Wishlist] Failed to process alerts for item ${item.id}:`, error);
+      }
+    }
+
+    cursor = items[items.length - 1].id;
+  }
+
+  if (priceDrops > 0 || backInStock > 0) {
+    console.log(
+      `[Wishlist] Sent ${priceDrops} price drop and ${backInStock} back in stock alert(s)`
+    );
+  }
+
+  return { checked, priceDrops, backInStock };
+}
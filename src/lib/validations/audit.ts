@@ -0,0 +1,23 @@
+/**
+ * Validation schemas for the admin audit log viewer
+ */
+
+import { z } from "zod";
+import { AUDIT_ACTIONS } from "@/types/audit";
+
+export const auditLogFiltersSchema = z.object({
+  action: z.enum(AUDIT_ACTIONS as [string, ...string[]]).optional(),
+  entityType: z.string().trim().max(50).optional(),
+  entityId: z.string().trim().max(100).optional(),
+  actor: z.string().trim().max(255).optional(), // Email, partial match
+  dateFrom: z.coerce.date({ message: "Start date must be a valid date" }).optional(),
+  dateTo: z.coerce.date({ message: "End date must be a valid date" }).optional(),
+});
+
+export const auditLogQuerySchema = auditLogFiltersSchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export type AuditLogFilters = z.infer<typeof auditLogFiltersSchema>;
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
@@ -32,6 +32,16 @@ export const validateCouponSchema = z.object({
 
 export type ValidateCouponInput = z.infer<typeof validateCouponSchema>;
 
+/**
+ * Checkout validation schema
+ * Address is optional; when given, the response includes a shipping quote
+ */
+export const checkoutValidateSchema = z.object({
+  shippingAddressId: z.string().cuid("Invalid address ID").optional().nullable(),
+});
+
+export type CheckoutValidateInput = z.infer<typeof checkoutValidateSchema>;
+
 /**
  * Create order schema
  */
@@ -6,6 +6,7 @@ import {
   MAX_DISPUTE_EVIDENCE_IMAGES,
   MAX_DISPUTE_COMMENT_LENGTH,
 } from '@/types/dispute';
+import { refundItemSchema } from '@/lib/validations/order';
 
 // Create dispute schema
 export const createDisputeSchema = z.object({
@@ -41,28 +42,47 @@ export const addDisputeCommentSchema = z.object({
 export type AddDisputeCommentInput = z.infer<typeof addDisputeCommentSchema>;
 
 // Resolve dispute schema
-export const resolveDisputeSchema = z.object({
-  resolutionType: z.nativeEnum(ResolutionType, {
-    errorMap: () => ({ message: 'Invalid resolution type' }),
-  }),
-  adminNotes: z
-    .string()
-    .min(10, 'Admin notes must be at least 10 characters')
-    .max(1000, 'Admin notes must not exceed 1000 characters')
-    .trim(),
-  refundAmount: z
-    .number()
-    .positive('Refund amount must be positive')
-    .optional()
-    .refine(
-      (val) => {
-        if (val === undefined) return true;
-        // Check if refund amount has max 2 decimal places
-        return /^\d+(\.\d{1,2})?$/.test(val.toString());
-      },
-      { message: 'Refund amount must have at most 2 decimal places' }
-    ),
-});
+export const resolveDisputeSchema = z
+  .object({
+    resolutionType: z.nativeEnum(ResolutionType, {
+      errorMap: () => ({ message: 'Invalid resolution type' }),
+    }),
+    adminNotes: z
+      .string()
+      .min(10, 'Admin notes must be at least 10 characters')
+      .max(1000, 'Admin notes must not exceed 1000 characters')
+      .trim(),
+    refundAmount: z
+      .number()
+      .positive('Refund amount must be positive')
+      .optional()
+      .refine(
+        (val) => {
+          if (val === undefined) return true;
+          // Check if refund amount has max 2 decimal places
+          return /^\d+(\.\d{1,2})?$/.test(val.toString());
+        },
+        { message: 'Refund amount must have at most 2 decimal places' }
+      ),
+    // Refund specific items/quantities instead of an amount
+    items: z
+      .array(refundItemSchema)
+      .min(1, 'Select at least one item to refund')
+      .optional(),
+  })
+  .refine((data) => !(data.refundAmount !== undefined && data.items), {
+    message: 'Provide either a refund amount or items to refund, not both',
+    path: ['items'],
+  })
+  .refine(
+    (data) =>
+      !data.items ||
+      new Set(data.items.map((item) => item.orderItemId)).size === data.items.length,
+    {
+      message: 'Each order item can only be listed once',
+      path: ['items'],
+    }
+  );
 
 export type ResolveDisputeInput = z.infer<typeof resolveDisputeSchema>;
 
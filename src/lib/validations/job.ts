@@ -0,0 +1,14 @@
+/**
+ * Validation schemas for admin background job endpoints
+ */
+
+import { z } from "zod";
+import { JobRunStatus } from "@prisma/client";
+
+export const jobRunsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.nativeEnum(JobRunStatus).optional(),
+});
+
+export type JobRunsQuery = z.infer<typeof jobRunsQuerySchema>;
@@ -0,0 +1,59 @@
+/**
+ * Validation schemas for scheduled maintenance windows
+ */
+
+import { z } from "zod";
+
+const windowFields = {
+  startsAt: z.coerce.date({ message: "Start time must be a valid date" }),
+  endsAt: z.coerce.date({ message: "End time must be a valid date" }),
+  message: z
+    .string()
+    .trim()
+    .max(500, "Message must not exceed 500 characters")
+    .nullable()
+    .optional(),
+  noticeHours: z
+    .number()
+    .int("Notice must be a whole number of hours")
+    .min(0, "Notice must be at least 0 hours")
+    .max(336, "Notice must not exceed 14 days"),
+};
+
+export const createMaintenanceWindowSchema = z
+  .object({
+    ...windowFields,
+    noticeHours: windowFields.noticeHours.default(24),
+  })
+  .refine((data) => data.endsAt > data.startsAt, {
+    message: "End time must be after start time",
+    path: ["endsAt"],
+  })
+  .refine((data) => data.endsAt > new Date(), {
+    message: "Maintenance window must end in the future",
+    path: ["endsAt"],
+  });
+
+/**
+ * Reschedule or edit a window. Start/end ordering is checked against the
+ * stored window in the route, since either side may be omitted.
+ */
+export const updateMaintenanceWindowSchema = z
+  .object(windowFields)
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field is required",
+  });
+
+export const maintenanceWindowsQuerySchema = z.object({
+  includePast: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type CreateMaintenanceWindowInput = z.infer<typeof createMaintenanceWindowSchema>;
+export type UpdateMaintenanceWindowInput = z.infer<typeof updateMaintenanceWindowSchema>;
+export type MaintenanceWindowsQuery = z.infer<typeof maintenanceWindowsQuerySchema>;
@@ -5,6 +5,7 @@
 
 import { z } from "zod";
 import { OrderStatus } from "@prisma/client";
+import { CARRIER_SLUGS } from "@/lib/tracking/carriers";
 
 /**
  * Cancel order schema
@@ -18,24 +19,6 @@ export const cancelOrderSchema = z.object({
     .trim(),
 });
 
-/**
- * Request return schema
- * Used when customer requests return within 24h of delivery confirmation
- */
-export const requestReturnSchema = z.object({
-  reason: z
-    .string()
-    .min(10, "Reason must be at least 10 characters")
-    .max(500, "Reason must not exceed 500 characters")
-    .trim(),
-  description: z
-    .string()
-    .max(1000, "Description must not exceed 1000 characters")
-    .trim()
-    .optional()
-    .nullable(),
-});
-
 /**
  * Update order item status schema (vendor)
  * Validates status transition and tracking information
@@ -52,6 +35,10 @@ export const updateOrderItemStatusSchema = z
       .trim()
       .optional()
       .nullable(),
+    carrier: z
+      .enum(CARRIER_SLUGS, { message: "Unknown carrier" })
+      .optional()
+      .nullable(),
     trackingUrl: z
       .string()
       .url("Invalid tracking URL")
@@ -94,6 +81,34 @@ export const overrideOrderStatusSchema = z.object({
     .trim(),
 });
 
+/**
+ * Item-level refund line schema
+ * One order item and the number of units to refund
+ */
+export const refundItemSchema = z.object({
+  orderItemId: z.string().min(1, "Order item ID is required"),
+  quantity: z.number().int().positive("Quantity must be at least 1"),
+});
+
+/**
+ * Refund order items schema (admin)
+ * Refunds specific items/quantities outside of a dispute
+ */
+export const refundOrderItemsSchema = z.object({
+  items: z
+    .array(refundItemSchema)
+    .min(1, "Select at least one item to refund")
+    .refine(
+      (items) => new Set(items.map((item) => item.orderItemId)).size === items.length,
+      { message: "Each order item can only be listed once" }
+    ),
+  reason: z
+    .string()
+    .min(10, "Reason must be at least 10 characters")
+    .max(500, "Reason must not exceed 500 characters")
+    .trim(),
+});
+
 /**
  * Order filters schema
  * Used for filtering and paginating order lists
@@ -115,7 +130,8 @@ export const orderFiltersSchema = z.object({
  * Type exports for use in API routes
  */
 export type CancelOrderInput = z.infer<typeof cancelOrderSchema>;
-export type RequestReturnInput = z.infer<typeof requestReturnSchema>;
 export type UpdateOrderItemStatusInput = z.infer<typeof updateOrderItemStatusSchema>;
 export type OverrideOrderStatusInput = z.infer<typeof overrideOrderStatusSchema>;
+export type RefundItemInput = z.infer<typeof refundItemSchema>;
+export type RefundOrderItemsInput = z.infer<typeof refundOrderItemsSchema>;
 export type OrderFiltersInput = z.infer<typeof orderFiltersSchema>;
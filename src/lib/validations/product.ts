@@ -1,4 +1,9 @@
 import { z } from "zod";
+import {
+  MAX_PRODUCT_OPTIONS,
+  MAX_PRODUCT_VARIANTS,
+  VARIANT_LABEL_SEPARATOR,
+} from "@/lib/utils/variants";
 
 // Product image schema
 const productImageSchema = z.object({
@@ -7,15 +12,49 @@ const productImageSchema = z.object({
   position: z.number().int().min(0),
 });
 
-// Product variant schema
+// Option names and values are joined with " / " in variant labels
+const hasNoSeparator = (text: string) => !text.includes(VARIANT_LABEL_SEPARATOR);
+
+const optionNameSchema = z
+  .string()
+  .min(1, "Option name is required")
+  .max(50)
+  .trim()
+  .refine(hasNoSeparator, `Option names cannot contain "${VARIANT_LABEL_SEPARATOR}"`);
+
+const optionValueSchema = z
+  .string()
+  .min(1, "Option value is required")
+  .max(100)
+  .trim()
+  .refine(hasNoSeparator, `Option values cannot contain "${VARIANT_LABEL_SEPARATOR}"`);
+
+// Product option schema (e.g., Size: S, M, L)
+const productOptionSchema = z.object({
+  name: optionNameSchema,
+  values: z
+    .array(optionValueSchema)
+    .min(1, "Each option needs at least one value")
+    .max(30, "Maximum 30 values per option"),
+});
+
+// Product variant schema (one value per product option)
 const productVariantSchema = z.object({
-  name: z.string().min(1).max(50).trim(),
-  value: z.string().min(1).max(100).trim(),
+  options: z.record(optionNameSchema, optionValueSchema),
   priceAdjustment: z.number().optional(),
   stock: z.number().int().min(0),
   sku: z.string().max(100).optional(),
+  imageUrl: z.string().url("Invalid image URL").optional().nullable(),
 });
 
+const productOptionsSchema = z
+  .array(productOptionSchema)
+  .max(MAX_PRODUCT_OPTIONS, `Maximum ${MAX_PRODUCT_OPTIONS} options allowed`);
+
+const productVariantsSchema = z
+  .array(productVariantSchema)
+  .max(MAX_PRODUCT_VARIANTS, `Maximum ${MAX_PRODUCT_VARIANTS} variants allowed`);
+
 // Create product schema
 export const createProductSchema = z
   .object({
@@ -49,14 +88,19 @@ export const createProductSchema = z
     sku: z.string().max(100).optional(),
     stock: z.number().int().min(0, "Stock cannot be negative"),
     lowStockThreshold: z.number().int().min(0).optional(),
+    weightGrams: z
+      .number()
+      .int()
+      .min(0, "Weight cannot be negative")
+      .max(1000000, "Weight is too high")
+      .optional()
+      .nullable(),
     images: z
       .array(productImageSchema)
       .min(1, "At least one image is required")
       .max(10, "Maximum 10 images allowed"),
-    variants: z
-      .array(productVariantSchema)
-      .max(50, "Maximum 50 variants allowed")
-      .optional(),
+    options: productOptionsSchema.optional(),
+    variants: productVariantsSchema.optional(),
   })
   .refine(
     (data) => {
@@ -109,8 +153,16 @@ export const updateProductSchema = z.object({
   sku: z.string().max(100).optional(),
   stock: z.number().int().min(0, "Stock cannot be negative").optional(),
   lowStockThreshold: z.number().int().min(0).optional(),
+  weightGrams: z
+    .number()
+    .int()
+    .min(0, "Weight cannot be negative")
+    .max(1000000, "Weight is too high")
+    .optional()
+    .nullable(),
   isActive: z.boolean().optional(),
-  variants: z.array(productVariantSchema).max(50).optional(),
+  options: productOptionsSchema.optional(),
+  variants: productVariantsSchema.optional(),
 });
 
 export type UpdateProductInput = z.infer<typeof updateProductSchema>;
@@ -162,11 +214,12 @@ export const addVariantSchema = productVariantSchema;
 
 export type AddVariantInput = z.infer<typeof addVariantSchema>;
 
-// Update variant schema
+// Update variant schema (the combination itself cannot change)
 export const updateVariantSchema = z.object({
   priceAdjustment: z.number().optional(),
   stock: z.number().int().min(0).optional(),
   sku: z.string().max(100).optional(),
+  imageUrl: z.string().url("Invalid image URL").optional().nullable(),
 });
 
 export type UpdateVariantInput = z.infer<typeof updateVariantSchema>;
@@ -179,6 +232,18 @@ export const updateStockSchema = z.object({
 
 export type UpdateStockInput = z.infer<typeof updateStockSchema>;
 
+// Stock movement history query schema
+export const stockMovementQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  variantId: z.string().cuid().optional(),
+  type: z
+    .enum(["RESERVE", "COMMIT", "RELEASE", "RESTOCK", "ADJUSTMENT"])
+    .optional(),
+});
+
+export type StockMovementQuery = z.infer<typeof stockMovementQuerySchema>;
+
 // Add image schema
 export const addImageSchema = z.object({
   images: z
@@ -200,3 +265,14 @@ export const reorderImagesSchema = z.object({
 });
 
 export type ReorderImagesInput = z.infer<typeof reorderImagesSchema>;
+
+// Product CSV import schema
+export const productImportSchema = z.object({
+  csv: z
+    .string()
+    .min(1, "CSV content is required")
+    .max(5000000, "CSV file is too large (max 5 MB)"),
+  dryRun: z.boolean().default(false),
+});
+
+export type ProductImportInput = z.infer<typeof productImportSchema>;
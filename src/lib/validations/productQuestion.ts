@@ -0,0 +1,45 @@
+/**
+ * Product Q&A Validation Schemas
+ * Zod schemas for product question and answer requests
+ */
+
+import { z } from "zod";
+
+/**
+ * Ask question schema (customer)
+ */
+export const askQuestionSchema = z.object({
+  productId: z.string().cuid("Invalid product ID"),
+  question: z
+    .string()
+    .trim()
+    .min(10, "Question must be at least 10 characters")
+    .max(500, "Question is too long (max 500 characters)"),
+});
+
+/**
+ * Answer question schema (vendor)
+ * Answering again replaces the previous answer
+ */
+export const answerQuestionSchema = z.object({
+  answer: z
+    .string()
+    .trim()
+    .min(2, "Answer cannot be empty")
+    .max(1000, "Answer is too long (max 1000 characters)"),
+});
+
+/**
+ * Moderation schema (admin)
+ * - approve: clear the flag and publish (if answered)
+ * - hide: remove from the product page
+ * - restore: undo hide
+ */
+export const moderateQuestionSchema = z.object({
+  action: z.enum(["approve", "hide", "restore"]),
+});
+
+// Type exports
+export type AskQuestionInput = z.infer<typeof askQuestionSchema>;
+export type AnswerQuestionInput = z.infer<typeof answerQuestionSchema>;
+export type ModerateQuestionInput = z.infer<typeof moderateQuestionSchema>;
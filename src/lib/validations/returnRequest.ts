@@ -0,0 +1,91 @@
+/**
+ * Return request validation schemas
+ * Zod schemas for customer return requests and vendor decisions
+ */
+
+import { z } from "zod";
+import { ReturnReason, ReturnStatus } from "@prisma/client";
+import { MAX_RETURN_PHOTOS } from "@/types/returnRequest";
+
+/**
+ * Request return schema (customer)
+ * Items of several vendors are split into one return per vendor
+ */
+export const requestReturnSchema = z.object({
+  reason: z.nativeEnum(ReturnReason, { message: "Please select a reason for the return" }),
+  description: z
+    .string()
+    .max(1000, "Description must not exceed 1000 characters")
+    .trim()
+    .optional()
+    .nullable(),
+  photos: z
+    .array(z.string().url("Invalid image URL"))
+    .max(MAX_RETURN_PHOTOS, `Maximum ${MAX_RETURN_PHOTOS} photos allowed`)
+    .optional()
+    .default([]),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().min(1, "Order item ID is required"),
+        quantity: z.number().int().positive("Quantity must be at least 1"),
+      })
+    )
+    .min(1, "Select at least one item to return")
+    .refine(
+      (items) => new Set(items.map((item) => item.orderItemId)).size === items.length,
+      { message: "Each order item can only be listed once" }
+    ),
+});
+
+/**
+ * Escalate return schema (customer)
+ * Opens a dispute; same minimum detail as a dispute description
+ */
+export const escalateReturnSchema = z.object({
+  message: z
+    .string()
+    .trim()
+    .min(20, "Please explain why you are escalating (minimum 20 characters)")
+    .max(1000, "Message must not exceed 1000 characters"),
+});
+
+/**
+ * Vendor decision schema
+ * - approve: issue the return label (optional instructions for the customer)
+ * - reject: a reason is required so the customer can decide whether to escalate
+ * - receive: confirm the parcel arrived; restock lists the order items that go back into inventory
+ */
+export const vendorReturnActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("approve"),
+    note: z.string().trim().max(500, "Note must not exceed 500 characters").optional().nullable(),
+  }),
+  z.object({
+    action: z.literal("reject"),
+    note: z
+      .string()
+      .trim()
+      .min(10, "Please give a reason (minimum 10 characters)")
+      .max(500, "Reason must not exceed 500 characters"),
+  }),
+  z.object({
+    action: z.literal("receive"),
+    restock: z.array(z.string().min(1)).default([]),
+    note: z.string().trim().max(500, "Note must not exceed 500 characters").optional().nullable(),
+  }),
+]);
+
+/**
+ * Vendor return list filters
+ */
+export const vendorReturnFiltersSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.nativeEnum(ReturnStatus).optional(),
+});
+
+export type RequestReturnInput = z.infer<typeof requestReturnSchema>;
+export type EscalateReturnInput = z.infer<typeof escalateReturnSchema>;
+export type VendorReturnActionInput = z.infer<typeof vendorReturnActionSchema>;
+export type VendorReturnFiltersInput = z.infer<typeof vendorReturnFiltersSchema>;
@@ -0,0 +1,55 @@
+/**
+ * Product Review Validation Schemas
+ * Zod schemas for reviews, vendor replies and review moderation
+ */
+
+import { z } from "zod";
+import { MAX_REVIEW_PHOTOS, MAX_REVIEW_REPLY_LENGTH } from "@/types/review";
+
+/**
+ * Create/update review schema (customer)
+ * Photos are URLs returned by POST /api/upload (folder "reviews")
+ */
+export const createReviewSchema = z.object({
+  orderItemId: z.string().min(1),
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().max(1000).optional().nullable(),
+  photos: z
+    .array(z.string().url("Invalid image URL"))
+    .max(MAX_REVIEW_PHOTOS, `Maximum ${MAX_REVIEW_PHOTOS} photos allowed`)
+    .optional()
+    .default([]),
+});
+
+/**
+ * Vendor reply schema
+ * Replying again replaces the previous reply
+ */
+export const reviewReplySchema = z.object({
+  reply: z
+    .string()
+    .trim()
+    .min(2, "Reply cannot be empty")
+    .max(MAX_REVIEW_REPLY_LENGTH, `Reply is too long (max ${MAX_REVIEW_REPLY_LENGTH} characters)`),
+});
+
+/**
+ * Moderation schema (admin)
+ * - toggleVisibility: show/hide the whole review
+ * - hideReply / showReply: moderate the vendor reply
+ * - removePhoto: delete one photo (photoUrl required)
+ */
+export const moderateReviewSchema = z
+  .object({
+    action: z.enum(["toggleVisibility", "hideReply", "showReply", "removePhoto"]),
+    photoUrl: z.string().url().optional(),
+  })
+  .refine((data) => data.action !== "removePhoto" || !!data.photoUrl, {
+    message: "photoUrl is required to remove a photo",
+    path: ["photoUrl"],
+  });
+
+// Type exports
+export type CreateReviewInput = z.infer<typeof createReviewSchema>;
+export type ReviewReplyInput = z.infer<typeof reviewReplySchema>;
+export type ModerateReviewInput = z.infer<typeof moderateReviewSchema>;
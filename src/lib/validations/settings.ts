@@ -0,0 +1,99 @@
+/**
+ * Validation schemas for platform settings (SystemSetting values)
+ * One schema per setting key; see src/lib/settings.ts for defaults.
+ */
+
+import { z } from "zod";
+
+export const platformCommissionSettingSchema = z.object({
+  rate: z
+    .number()
+    .min(0, "Commission rate must be at least 0%")
+    .max(100, "Commission rate must not exceed 100%"),
+});
+
+export const payoutMinimumSettingSchema = z.object({
+  amount: z
+    .number()
+    .min(0, "Minimum payout must be at least Rs. 0")
+    .max(1000000, "Minimum payout must not exceed Rs. 1,000,000"),
+});
+
+export const returnWindowSettingSchema = z.object({
+  days: z
+    .number()
+    .min(0, "Return window must be at least 0 days")
+    .max(90, "Return window must not exceed 90 days"),
+});
+
+export const disputeWindowSettingSchema = z.object({
+  days: z
+    .number()
+    .min(1, "Dispute window must be at least 1 day")
+    .max(90, "Dispute window must not exceed 90 days"),
+});
+
+export const otpExpirySettingSchema = z.object({
+  minutes: z
+    .number()
+    .int("OTP expiry must be a whole number of minutes")
+    .min(1, "OTP expiry must be at least 1 minute")
+    .max(60, "OTP expiry must not exceed 60 minutes"),
+});
+
+export const maintenanceModeSettingSchema = z.object({
+  enabled: z.boolean(),
+  message: z.string().trim().max(500, "Message must not exceed 500 characters").nullable(),
+});
+
+export const lowStockThresholdSettingSchema = z.object({
+  defaultThreshold: z
+    .number()
+    .int("Threshold must be a whole number")
+    .min(0, "Threshold must be at least 0")
+    .max(10000, "Threshold must not exceed 10,000"),
+});
+
+export const deliveryAutoConfirmSettingSchema = z.object({
+  enabled: z.boolean(),
+  daysAfterShipped: z
+    .number()
+    .int("Days must be a whole number")
+    .min(1, "Auto-confirm must be at least 1 day after shipping")
+    .max(90, "Auto-confirm must not exceed 90 days after shipping"),
+  warningDays: z
+    .number()
+    .int("Days must be a whole number")
+    .min(0, "Warning days must be at least 0")
+    .max(30, "Warning days must not exceed 30"),
+});
+
+/**
+ * Admin settings update: any subset of keys, each with any subset of fields.
+ * Missing fields keep their current value.
+ */
+export const updateSettingsSchema = z
+  .object({
+    platform_commission: platformCommissionSettingSchema.partial(),
+    payout_minimum: payoutMinimumSettingSchema.partial(),
+    return_window: returnWindowSettingSchema.partial(),
+    dispute_window: disputeWindowSettingSchema.partial(),
+    otp_expiry: otpExpirySettingSchema.partial(),
+    maintenance_mode: maintenanceModeSettingSchema.partial(),
+    low_stock_threshold: lowStockThresholdSettingSchema.partial(),
+    delivery_auto_confirm: deliveryAutoConfirmSettingSchema.partial(),
+  })
+  .partial()
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one setting is required",
+  });
+
+export const settingHistoryQuerySchema = z.object({
+  key: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type UpdateSettingsInput = z.infer<typeof updateSettingsSchema>;
+export type SettingHistoryQuery = z.infer<typeof settingHistoryQuerySchema>;
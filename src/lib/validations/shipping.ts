@@ -0,0 +1,92 @@
+/**
+ * Validation schemas for vendor shipping profiles
+ */
+
+import { z } from "zod";
+
+// Province enum (matches ShippingAddress.province values)
+const PROVINCES = [
+  "Western",
+  "Central",
+  "Southern",
+  "Northern",
+  "Eastern",
+  "North Western",
+  "North Central",
+  "Uva",
+  "Sabaragamuwa",
+] as const;
+
+const rateSchema = z
+  .number()
+  .min(0, "Rate cannot be negative")
+  .max(999999.99, "Rate is too high");
+
+/**
+ * Rate tier schema
+ */
+export const shippingTierSchema = z.object({
+  upTo: z
+    .number()
+    .int()
+    .min(1, "Tier limit must be at least 1")
+    .nullable(),
+  rate: rateSchema,
+});
+
+/**
+ * Shipping zone schema
+ */
+export const shippingZoneSchema = z.object({
+  name: z
+    .string()
+    .min(2, "Zone name must be at least 2 characters")
+    .max(100, "Zone name must not exceed 100 characters")
+    .trim(),
+  provinces: z
+    .array(z.enum(PROVINCES))
+    .min(1, "Select at least one province"),
+  rate: rateSchema,
+  freeShippingThreshold: z.number().min(0).max(9999999.99).optional().nullable(),
+});
+
+/**
+ * Update (upsert) vendor shipping profile schema
+ * Zones and tiers are replaced as a whole
+ */
+export const updateShippingProfileSchema = z
+  .object({
+    rateType: z.enum(["FLAT", "WEIGHT_TIERED", "QUANTITY_TIERED"]),
+    baseRate: rateSchema,
+    tiers: z.array(shippingTierSchema).max(20, "Maximum 20 tiers allowed").default([]),
+    freeShippingThreshold: z.number().min(0).max(9999999.99).optional().nullable(),
+    zones: z.array(shippingZoneSchema).max(20, "Maximum 20 zones allowed").default([]),
+  })
+  .refine(
+    (data) => data.rateType === "FLAT" || data.tiers.length > 0,
+    {
+      message: "Tiered shipping requires at least one tier",
+      path: ["tiers"],
+    }
+  )
+  .refine(
+    (data) => data.tiers.filter((tier) => tier.upTo === null).length <= 1,
+    {
+      message: "Only one tier can be open-ended",
+      path: ["tiers"],
+    }
+  )
+  .refine(
+    (data) => {
+      const provinces = data.zones.flatMap((zone) => zone.provinces);
+      return new Set(provinces).size === provinces.length;
+    },
+    {
+      message: "A province can only belong to one zone",
+      path: ["zones"],
+    }
+  );
+
+export type ShippingTierInput = z.infer<typeof shippingTierSchema>;
+export type ShippingZoneInput = z.infer<typeof shippingZoneSchema>;
+export type UpdateShippingProfileInput = z.infer<typeof updateShippingProfileSchema>;
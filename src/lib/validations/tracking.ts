@@ -0,0 +1,52 @@
+/**
+ * Validation schemas for shipment tracking ingest
+ */
+
+import { z } from "zod";
+import { CARRIER_SLUGS } from "@/lib/tracking/carriers";
+
+/**
+ * One checkpoint pushed by a local courier (webhook body or CSV row)
+ */
+export const courierTrackingEventSchema = z.object({
+  trackingNumber: z
+    .string()
+    .trim()
+    .min(1, "Tracking number is required")
+    .max(50, "Tracking number too long"),
+  status: z
+    .string()
+    .trim()
+    .min(1, "Status is required")
+    .max(100, "Status too long"),
+  description: z.string().trim().max(500, "Description too long").optional().nullable(),
+  location: z.string().trim().max(200, "Location too long").optional().nullable(),
+  occurredAt: z.coerce.date().optional(),
+});
+
+/**
+ * Courier webhook body: a single event or a batch
+ */
+export const courierWebhookSchema = z.union([
+  courierTrackingEventSchema,
+  z.object({
+    events: z
+      .array(courierTrackingEventSchema)
+      .min(1, "At least one event is required")
+      .max(500, "Maximum 500 events per request"),
+  }),
+]);
+
+/**
+ * Admin CSV import of a courier's tracking export
+ */
+export const trackingImportSchema = z.object({
+  carrier: z.enum(CARRIER_SLUGS, { message: "Unknown carrier" }),
+  csv: z
+    .string()
+    .min(1, "CSV content is required")
+    .max(2000000, "CSV file is too large (max 2 MB)"),
+});
+
+export type CourierTrackingEventInput = z.infer<typeof courierTrackingEventSchema>;
+export type TrackingImportInput = z.infer<typeof trackingImportSchema>;
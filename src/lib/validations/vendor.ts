@@ -1,8 +1,18 @@
 import { z } from "zod";
+import { bankAccountSchema } from "./wallet";
+import {
+  MAX_APPLICATION_DOCUMENTS,
+  REQUIRED_APPLICATION_DOCUMENTS,
+  VENDOR_APPLICATION_DOCUMENT_LABELS,
+  VENDOR_APPLICATION_DOCUMENT_TYPES,
+} from "@/types/vendor";
 
 // Sri Lankan phone number regex (071, 072, 075, 076, 077, 078, 070)
 const SL_PHONE_REGEX = /^(?:\+94|0)7[01245678]\d{7}$/;
 
+// Sri Lankan NIC: old format (9 digits + V/X) or new format (12 digits)
+const SL_NIC_REGEX = /^(?:\d{9}[VvXx]|\d{12})$/;
+
 // Create vendor schema
 export const createVendorSchema = z.object({
   businessName: z
@@ -62,6 +72,49 @@ export const updateVendorSchema = z.object({
 
 export type UpdateVendorInput = z.infer<typeof updateVendorSchema>;
 
+// Vendor shop status schema (vendor closes or reopens their shop)
+export const updateShopStatusSchema = z
+  .object({
+    isOpen: z.boolean(),
+    reason: z.string().max(500).trim().optional(),
+    reopensAt: z.coerce.date().optional(), // Only when closing
+  })
+  .refine((data) => !data.reopensAt || data.reopensAt > new Date(), {
+    message: "Reopening time must be in the future",
+    path: ["reopensAt"],
+  });
+
+export type UpdateShopStatusInput = z.infer<typeof updateShopStatusSchema>;
+
+// Maximum length of a scheduled holiday closure
+export const MAX_HOLIDAY_DAYS = 90;
+
+// Scheduled holiday closure schema
+export const scheduleHolidaySchema = z
+  .object({
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date(),
+    reason: z.string().max(500).trim().optional(),
+  })
+  .refine((data) => data.endsAt > data.startsAt, {
+    message: "Holiday must end after it starts",
+    path: ["endsAt"],
+  })
+  .refine((data) => data.endsAt > new Date(), {
+    message: "Holiday must end in the future",
+    path: ["endsAt"],
+  })
+  .refine(
+    (data) =>
+      data.endsAt.getTime() - data.startsAt.getTime() <= MAX_HOLIDAY_DAYS * 24 * 60 * 60 * 1000,
+    {
+      message: `Holiday cannot be longer than ${MAX_HOLIDAY_DAYS} days`,
+      path: ["endsAt"],
+    }
+  );
+
+export type ScheduleHolidayInput = z.infer<typeof scheduleHolidaySchema>;
+
 // List vendors query schema
 export const vendorListQuerySchema = z.object({
   page: z.coerce.number().int().min(1).default(1),
@@ -74,3 +127,67 @@ export const vendorListQuerySchema = z.object({
 });
 
 export type VendorListQuery = z.infer<typeof vendorListQuerySchema>;
+
+// Vendor application schema (public "sell on PrimeWear" form, also used to resubmit)
+export const vendorApplicationSchema = bankAccountSchema
+  .extend({
+    businessName: createVendorSchema.shape.businessName,
+    businessEmail: createVendorSchema.shape.businessEmail,
+    businessPhone: createVendorSchema.shape.businessPhone,
+    businessAddress: z
+      .string()
+      .min(5, "Business address is required")
+      .max(500)
+      .trim(),
+    description: z.string().max(1000).trim().optional(),
+    businessRegistrationNo: z
+      .string()
+      .min(3, "Business registration number is required")
+      .max(30, "Business registration number must not exceed 30 characters")
+      .trim(),
+    ownerName: z
+      .string()
+      .min(2, "Owner name must be at least 2 characters")
+      .max(100, "Owner name must not exceed 100 characters")
+      .trim(),
+    nicNumber: z
+      .string()
+      .trim()
+      .regex(SL_NIC_REGEX, "Invalid NIC number (e.g., 901234567V or 199012345678)")
+      .transform((nic) => nic.toUpperCase()),
+    documents: z
+      .array(
+        z.object({
+          type: z.enum(VENDOR_APPLICATION_DOCUMENT_TYPES),
+          key: z.string().regex(/^vendor-applications\/[\w-]+\.\w+$/, "Invalid document"),
+        })
+      )
+      .max(MAX_APPLICATION_DOCUMENTS, `Maximum ${MAX_APPLICATION_DOCUMENTS} documents allowed`),
+  })
+  .superRefine((data, ctx) => {
+    for (const type of REQUIRED_APPLICATION_DOCUMENTS) {
+      if (!data.documents.some((doc) => doc.type === type)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Please upload your ${VENDOR_APPLICATION_DOCUMENT_LABELS[type].toLowerCase()}`,
+          path: ["documents"],
+        });
+      }
+    }
+  });
+
+export type VendorApplicationInput = z.infer<typeof vendorApplicationSchema>;
+
+// Admin decision on a vendor application
+export const reviewVendorApplicationSchema = z
+  .object({
+    action: z.enum(["approve", "reject", "requestChanges"]),
+    note: z.string().max(1000).trim().optional(),
+    commissionRate: createVendorSchema.shape.commissionRate, // Approve only
+  })
+  .refine((data) => data.action === "approve" || (data.note?.length ?? 0) >= 5, {
+    message: "Please explain the decision to the applicant",
+    path: ["note"],
+  });
+
+export type ReviewVendorApplicationInput = z.infer<typeof reviewVendorApplicationSchema>;
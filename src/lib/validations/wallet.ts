@@ -57,7 +57,7 @@ export const requestPayoutSchema = bankAccountSchema.extend({
       required_error: "Amount is required",
       invalid_type_error: "Amount must be a number",
     })
-    .min(1000, "Minimum payout amount is Rs. 1,000")
+    .positive("Amount must be greater than 0") // Minimum is the payout_minimum setting
     .max(1000000, "Maximum payout amount is Rs. 1,000,000")
     .multipleOf(0.01, "Invalid amount precision"),
   notes: z
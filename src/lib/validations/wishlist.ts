@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+/**
+ * Validation schema for adding a product to the wishlist
+ */
+export const addToWishlistSchema = z.object({
+  productId: z.string().cuid("Invalid product ID"),
+  variantId: z.string().cuid("Invalid variant ID").optional().nullable(),
+});
+
+/**
+ * Validation schema for merging the guest wishlist after login
+ */
+export const mergeWishlistSchema = z.object({
+  guestItems: z
+    .array(
+      z.object({
+        productId: z.string().cuid("Invalid product ID"),
+        variantId: z.string().cuid().optional().nullable(),
+      })
+    )
+    .max(100, "Too many items to merge (maximum 100)"),
+});
+
+/**
+ * Export inferred types
+ */
+export type AddToWishlistInput = z.infer<typeof addToWishlistSchema>;
+export type MergeWishlistInput = z.infer<typeof mergeWishlistSchema>;
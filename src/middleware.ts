@@ -4,15 +4,27 @@ import { jwtVerify } from "jose";
 // Plain string role type — avoids importing @prisma/client in Edge Runtime
 type Role = "ADMIN" | "VENDOR" | "CUSTOMER";
 
+interface AuthPayload {
+  userId: string;
+  email: string;
+  role: Role;
+  sessionId: string;
+  twoFactorSetupRequired: boolean;
+}
+
 // Verify JWT using jose (Edge Runtime compatible)
-async function verifyToken(token: string): Promise<{ userId: string; email: string; role: Role } | null> {
+async function verifyToken(token: string): Promise<AuthPayload | null> {
   try {
     const secret = new TextEncoder().encode(process.env.JWT_SECRET || "");
     const { payload } = await jwtVerify(token, secret);
+    // Tokens issued before server-side sessions have no session to check
+    if (!payload.sessionId) return null;
     return {
       userId: payload.userId as string,
       email: payload.email as string,
       role: payload.role as Role,
+      sessionId: payload.sessionId as string,
+      twoFactorSetupRequired: payload.twoFactorSetupRequired === true,
     };
   } catch {
     return null;
@@ -32,22 +44,29 @@ const protectedRoutes: Record<string, Role[]> = {
   "/notifications": ["CUSTOMER", "ADMIN", "VENDOR"],
   // ── Customer API routes ───────────────────────────────────────────────────
   "/api/cart": ["CUSTOMER"],
+  "/api/wishlist": ["CUSTOMER"],
   "/api/addresses": ["CUSTOMER"],
   "/api/checkout": ["CUSTOMER"],
   "/api/orders": ["CUSTOMER", "ADMIN"],
   "/api/disputes": ["CUSTOMER"],
   "/api/reviews": ["CUSTOMER"],
+  "/api/questions": ["CUSTOMER"],
   "/api/payments/initiate": ["CUSTOMER"],
   "/api/coupons": ["CUSTOMER"],
   // ── Shared API routes ─────────────────────────────────────────────────────
   "/api/chat": ["CUSTOMER", "VENDOR"],
   "/api/upload": ["CUSTOMER", "VENDOR", "ADMIN"],
   "/api/notifications": ["CUSTOMER", "ADMIN", "VENDOR"],
+  "/api/sessions": ["CUSTOMER", "ADMIN", "VENDOR"],
+  "/api/returns": ["CUSTOMER", "VENDOR", "ADMIN"],
   // ── Role-restricted API routes ────────────────────────────────────────────
   "/api/admin": ["ADMIN"],
   "/api/vendor": ["VENDOR"],
 };
 
+// The only page available to admins until they enrol in two-factor auth
+const TWO_FACTOR_SETUP_PATH = "/admin/two-factor-setup";
+
 // Public routes that don't require authentication
 const publicRoutes = [
   "/",
@@ -57,16 +76,21 @@ const publicRoutes = [
   "/products",
   "/categories",
   "/vendors",
+  "/sell", // Vendor applications
   "/deals",
+  "/wishlist", // Guests keep a local wishlist
   "/api/deals",
   "/api/auth/login",
   "/api/auth/logout",
   "/api/auth/refresh",
   "/api/auth/otp",
   "/api/payments/webhook", // PayHere webhook must be public
+  "/api/webhooks", // Courier webhooks authenticate with a shared secret
+  "/api/uploads", // Locally stored images
   "/api/products",
   "/api/categories",
   "/api/vendors",
+  "/api/vendor-applications",
   "/shipping",
   "/returns",
   "/terms",
@@ -77,6 +101,113 @@ const publicRoutes = [
   "/new-arrivals",
 ];
 
+// Routes that stay available during maintenance: the admin dashboard and
+// APIs, auth, the maintenance page itself, and PayHere/courier webhooks
+// (payments made just before the window must still be confirmed)
+const maintenanceExemptRoutes = [
+  "/admin",
+  "/api/admin",
+  "/api/auth",
+  "/api/payments/webhook",
+  "/api/webhooks",
+  "/api/maintenance",
+  "/api/uploads",
+  "/maintenance",
+  "/403",
+];
+
+interface MaintenanceState {
+  active: boolean;
+  message: string | null;
+  endsAt: string | null;
+}
+
+// Maintenance status is read from /api/maintenance (no database access in
+// Edge Runtime) and cached per instance for a few seconds
+const MAINTENANCE_CHECK_TTL_MS = 15000;
+let maintenanceCache: { state: MaintenanceState; expiresAt: number } | null = null;
+
+async function getMaintenanceState(request: NextRequest): Promise<MaintenanceState> {
+  if (maintenanceCache && maintenanceCache.expiresAt > Date.now()) {
+    return maintenanceCache.state;
+  }
+
+  let state: MaintenanceState = { active: false, message: null, endsAt: null };
+
+  try {
+    const response = await fetch(new URL("/api/maintenance", request.url), {
+      cache: "no-store",
+    });
+    const result = await response.json();
+    if (result.success) {
+      state = {
+        active: Boolean(result.data.active),
+        message: result.data.message ?? null,
+        endsAt: result.data.endsAt ?? null,
+      };
+    }
+  } catch (error) {
+    // Fail open - an unreachable status endpoint must not take the site down
+    console.error("[Middleware] Maintenance status check failed:", error);
+  }
+
+  maintenanceCache = { state, expiresAt: Date.now() + MAINTENANCE_CHECK_TTL_MS };
+  return state;
+}
+
+// Session status is read from /api/auth/session (no database access in Edge
+// Runtime) and cached per instance, so a revoked session stops working within
+// SESSION_CHECK_TTL_MS
+const SESSION_CHECK_TTL_MS = 30000;
+const sessionCache = new Map<string, { active: boolean; expiresAt: number }>();
+
+async function isSessionActive(request: NextRequest, token: string, sessionId: string): Promise<boolean> {
+  const cached = sessionCache.get(sessionId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.active;
+  }
+
+  let active = true;
+
+  try {
+    const response = await fetch(new URL("/api/auth/session", request.url), {
+      headers: { Authorization: `Bearer ${token}` },
+      cache: "no-store",
+    });
+    const result = await response.json();
+    if (result.success) {
+      active = Boolean(result.data.active);
+    } else if (response.status === 401) {
+      active = false;
+    }
+  } catch (error) {
+    // Fail open like the maintenance check - the token itself is still verified
+    console.error("[Middleware] Session status check failed:", error);
+  }
+
+  // Drop expired entries so the cache doesn't grow without bound
+  if (sessionCache.size > 5000) {
+    const now = Date.now();
+    for (const [id, entry] of sessionCache) {
+      if (entry.expiresAt <= now) sessionCache.delete(id);
+    }
+  }
+
+  sessionCache.set(sessionId, { active, expiresAt: Date.now() + SESSION_CHECK_TTL_MS });
+  return active;
+}
+
+// Get the access token from the cookie or Authorization header
+function getToken(request: NextRequest): string | null {
+  const tokenFromCookie = request.cookies.get("accessToken")?.value;
+  const authHeader = request.headers.get("Authorization");
+  const tokenFromHeader = authHeader?.startsWith("Bearer ")
+    ? authHeader.substring(7)
+    : null;
+
+  return tokenFromCookie || tokenFromHeader;
+}
+
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
@@ -89,6 +220,39 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // Maintenance mode — everyone except admins gets the maintenance page
+  const isMaintenanceExempt = maintenanceExemptRoutes.some(
+    (route) => pathname === route || pathname.startsWith(route + "/")
+  );
+
+  if (!isMaintenanceExempt) {
+    const maintenance = await getMaintenanceState(request);
+
+    if (maintenance.active) {
+      const token = getToken(request);
+      const payload = token ? await verifyToken(token) : null;
+
+      if (payload?.role !== "ADMIN") {
+        if (pathname.startsWith("/api/")) {
+          const headers: Record<string, string> = {};
+          if (maintenance.endsAt) {
+            const retryAfter = Math.ceil((new Date(maintenance.endsAt).getTime() - Date.now()) / 1000);
+            headers["Retry-After"] = String(Math.max(retryAfter, 0));
+          }
+          return NextResponse.json(
+            { success: false, error: maintenance.message, maintenance: true },
+            { status: 503, headers }
+          );
+        }
+
+        const url = request.nextUrl.clone();
+        url.pathname = "/maintenance";
+        url.search = "";
+        return NextResponse.rewrite(url);
+      }
+    }
+  }
+
   // Check if route is public
   const isPublicRoute = publicRoutes.some(
     (route) => pathname === route || pathname.startsWith(route + "/") || pathname === route
@@ -109,14 +273,7 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
-  // Get token from cookie or Authorization header
-  const tokenFromCookie = request.cookies.get("accessToken")?.value;
-  const authHeader = request.headers.get("Authorization");
-  const tokenFromHeader = authHeader?.startsWith("Bearer ")
-    ? authHeader.substring(7)
-    : null;
-
-  const token = tokenFromCookie || tokenFromHeader;
+  const token = getToken(request);
 
   // No token — redirect to the appropriate login page
   if (!token) {
@@ -132,11 +289,15 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(url);
   }
 
-  // Verify token (jose — Edge Runtime compatible)
+  // Verify token (jose — Edge Runtime compatible), then that its session
+  // hasn't been logged out or revoked
   const payload = await verifyToken(token);
+  const sessionEnded = payload
+    ? !(await isSessionActive(request, token, payload.sessionId))
+    : false;
 
-  if (!payload) {
-    // Invalid / expired token — redirect to login and clear the cookie
+  if (!payload || sessionEnded) {
+    // Invalid / expired token or ended session — redirect to login and clear the cookie
     const url = request.nextUrl.clone();
     if (pathname.startsWith("/admin")) {
       url.pathname = "/admin/login";
@@ -148,6 +309,7 @@ export async function middleware(request: NextRequest) {
     url.searchParams.set("redirect", pathname);
     const response = NextResponse.redirect(url);
     response.cookies.delete("accessToken");
+    if (sessionEnded) response.cookies.delete("refreshToken");
     return response;
   }
 
@@ -159,11 +321,28 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(url);
   }
 
+  // Admins without 2FA can only finish enrolment (the setup APIs live under
+  // /api/auth, which the middleware doesn't run for)
+  if (payload.twoFactorSetupRequired && pathname !== TWO_FACTOR_SETUP_PATH) {
+    if (pathname.startsWith("/api/")) {
+      return NextResponse.json(
+        { success: false, error: "Two-factor authentication setup required" },
+        { status: 403 }
+      );
+    }
+
+    const url = request.nextUrl.clone();
+    url.pathname = TWO_FACTOR_SETUP_PATH;
+    url.search = "";
+    return NextResponse.redirect(url);
+  }
+
   // Authenticated & authorized — forward user info to route handlers via headers
   const requestHeaders = new Headers(request.headers);
   requestHeaders.set("X-User-Id", payload.userId);
   requestHeaders.set("X-User-Role", payload.role);
   requestHeaders.set("X-User-Email", payload.email);
+  requestHeaders.set("X-Session-Id", payload.sessionId);
 
   return NextResponse.next({
     request: { headers: requestHeaders },
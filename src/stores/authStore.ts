@@ -2,7 +2,7 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { UserRole } from "@prisma/client";
 
-interface User {
+export interface User {
   id: string;
   email: string | null;
   role: UserRole;
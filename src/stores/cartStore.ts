@@ -31,6 +31,7 @@ interface CartState {
   ) => Promise<boolean>;
   updateCartItem: (itemId: string, quantity: number) => Promise<void>;
   removeCartItem: (itemId: string) => Promise<void>;
+  saveForLater: (itemId: string) => Promise<boolean>;
   clearCart: () => Promise<void>;
   mergeGuestCart: () => Promise<void>;
 
@@ -255,6 +256,45 @@ export const useCartStore = create<CartState>()(
         }
       },
 
+      saveForLater: async (itemId) => {
+        set({ isLoading: true, error: null });
+
+        // Optimistic update
+        const previousItems = get().items;
+        set({ items: previousItems.filter((item) => item.id !== itemId) });
+
+        try {
+          const response = await fetch(`/api/cart/${itemId}/save-for-later`, {
+            method: "POST",
+            credentials: "include",
+          });
+
+          const data: CartResponse = await response.json();
+
+          if (data.success && data.data) {
+            set({ items: data.data.cart.items as any, isLoading: false });
+            return true;
+          } else {
+            // Rollback
+            set({
+              items: previousItems,
+              error: data.error || "Failed to save item for later",
+              isLoading: false,
+            });
+            return false;
+          }
+        } catch (error) {
+          console.error("Error saving cart item for later:", error);
+          // Rollback
+          set({
+            items: previousItems,
+            error: "Failed to save item for later",
+            isLoading: false,
+          });
+          return false;
+        }
+      },
+
       clearCart: async () => {
         set({ isLoading: true, error: null });
 
@@ -0,0 +1,245 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  WishlistItem,
+  GuestWishlistItem,
+  WishlistResponse,
+} from "@/types/wishlist";
+import { generateCartItemId } from "@/lib/utils/cart";
+
+interface WishlistState {
+  // State
+  items: WishlistItem[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Guest wishlist actions (localStorage)
+  addToGuestWishlist: (item: WishlistItem) => void;
+  removeGuestWishlistItem: (itemId: string) => void;
+  clearGuestWishlist: () => void;
+  getGuestWishlistItems: () => GuestWishlistItem[];
+
+  // Logged-in wishlist actions (API)
+  fetchWishlist: () => Promise<void>;
+  addToWishlist: (productId: string, variantId?: string | null) => Promise<boolean>;
+  removeWishlistItem: (itemId: string) => Promise<void>;
+  moveToCart: (itemId: string) => Promise<boolean>;
+  mergeGuestWishlist: () => Promise<void>;
+
+  // Utility
+  setError: (error: string | null) => void;
+  findItem: (productId: string, variantId?: string | null) => WishlistItem | undefined;
+}
+
+export const useWishlistStore = create<WishlistState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      items: [],
+      isLoading: false,
+      error: null,
+
+      // Guest wishlist actions
+      addToGuestWishlist: (item) => {
+        const { items } = get();
+        const itemId = generateCartItemId(item.productId, item.variantId);
+
+        if (items.some((i) => i.id === itemId)) return;
+
+        set({ items: [{ ...item, id: itemId }, ...items] });
+      },
+
+      removeGuestWishlistItem: (itemId) => {
+        const { items } = get();
+        set({ items: items.filter((item) => item.id !== itemId) });
+      },
+
+      clearGuestWishlist: () => {
+        set({ items: [] });
+      },
+
+      getGuestWishlistItems: () => {
+        const { items } = get();
+        return items.map((item) => ({
+          productId: item.productId,
+          variantId: item.variantId || null,
+        }));
+      },
+
+      // Logged-in wishlist actions
+      fetchWishlist: async () => {
+        set({ isLoading: true, error: null });
+
+        try {
+          const response = await fetch("/api/wishlist", {
+            credentials: "include",
+          });
+
+          // Silently ignore 401 — user is not a customer (vendor/admin browsing storefront)
+          if (response.status === 401 || response.status === 403) {
+            set({ isLoading: false });
+            return;
+          }
+
+          const data: WishlistResponse = await response.json();
+
+          if (data.success && data.data) {
+            set({ items: data.data.items, isLoading: false });
+          } else {
+            set({ error: data.error || "Failed to fetch wishlist", isLoading: false });
+          }
+        } catch (error) {
+          console.error("Error fetching wishlist:", error);
+          set({ error: "Failed to fetch wishlist", isLoading: false });
+        }
+      },
+
+      addToWishlist: async (productId, variantId) => {
+        set({ isLoading: true, error: null });
+
+        try {
+          const response = await fetch("/api/wishlist", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            credentials: "include",
+            body: JSON.stringify({ productId, variantId }),
+          });
+
+          const data: WishlistResponse = await response.json();
+
+          if (data.success && data.data) {
+            set({ items: data.data.items, isLoading: false });
+            return true;
+          }
+
+          set({
+            error: data.error || "Failed to add to wishlist",
+            isLoading: false,
+          });
+          return false;
+        } catch (error) {
+          console.error("Error adding to wishlist:", error);
+          set({ error: "Failed to add to wishlist", isLoading: false });
+          return false;
+        }
+      },
+
+      removeWishlistItem: async (itemId) => {
+        set({ isLoading: true, error: null });
+
+        // Optimistic update
+        const previousItems = get().items;
+        set({ items: previousItems.filter((item) => item.id !== itemId) });
+
+        try {
+          const response = await fetch(`/api/wishlist/${itemId}`, {
+            method: "DELETE",
+            credentials: "include",
+          });
+
+          const data: WishlistResponse = await response.json();
+
+          if (data.success && data.data) {
+            set({ items: data.data.items, isLoading: false });
+          } else {
+            // Rollback
+            set({
+              items: previousItems,
+              error: data.error || "Failed to remove item",
+              isLoading: false,
+            });
+          }
+        } catch (error) {
+          console.error("Error removing wishlist item:", error);
+          // Rollback
+          set({
+            items: previousItems,
+            error: "Failed to remove item",
+            isLoading: false,
+          });
+        }
+      },
+
+      moveToCart: async (itemId) => {
+        set({ isLoading: true, error: null });
+
+        try {
+          const response = await fetch(`/api/wishlist/${itemId}/move-to-cart`, {
+            method: "POST",
+            credentials: "include",
+          });
+
+          const data: WishlistResponse = await response.json();
+
+          if (data.success && data.data) {
+            set({ items: data.data.items, isLoading: false });
+            return true;
+          }
+
+          set({
+            error: data.error || "Failed to move item to cart",
+            isLoading: false,
+          });
+          return false;
+        } catch (error) {
+          console.error("Error moving wishlist item to cart:", error);
+          set({ error: "Failed to move item to cart", isLoading: false });
+          return false;
+        }
+      },
+
+      mergeGuestWishlist: async () => {
+        set({ isLoading: true, error: null });
+
+        const guestItems = get().getGuestWishlistItems();
+
+        try {
+          const response = await fetch("/api/wishlist/merge", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            credentials: "include",
+            body: JSON.stringify({ guestItems }),
+          });
+
+          const data: WishlistResponse = await response.json();
+
+          if (data.success && data.data) {
+            // Replaces the guest items with the merged server wishlist
+            set({ items: data.data.items, isLoading: false });
+          } else {
+            set({
+              error: data.error || "Failed to merge wishlist",
+              isLoading: false,
+            });
+          }
+        } catch (error) {
+          console.error("Error merging wishlist:", error);
+          set({ error: "Failed to merge wishlist", isLoading: false });
+        }
+      },
+
+      // Utility
+      setError: (error) => set({ error }),
+
+      findItem: (productId, variantId) => {
+        const { items } = get();
+        return items.find(
+          (item) =>
+            item.productId === productId &&
+            (item.variantId || null) === (variantId || null)
+        );
+      },
+    }),
+    {
+      name: "guest-wishlist-storage", // localStorage key
+      partialize: (state) => ({
+        // Only persist guest wishlist items
+        items: state.items,
+      }),
+    }
+  )
+);
@@ -0,0 +1,71 @@
+// Admin audit log (see lib/audit.ts)
+
+// Every action the audit log records, with its label in the viewer
+export const AUDIT_ACTION_LABELS = {
+  "order.status_override": "Order status overridden",
+  "order.refund": "Order refunded",
+  "refund.retry": "Refund retried",
+  "dispute.resolve": "Dispute resolved",
+  "dispute.comment": "Dispute comment added",
+  "payout.process": "Payout processing",
+  "payout.complete": "Payout completed",
+  "payout.fail": "Payout failed",
+  "product.disable": "Product disabled",
+  "product.enable": "Product enabled",
+  "review.moderate": "Review moderated",
+  "review.delete": "Review deleted",
+  "question.moderate": "Question moderated",
+  "question.delete": "Question deleted",
+  "vendor.create": "Vendor created",
+  "vendor.update": "Vendor updated",
+  "vendor.status": "Vendor status changed",
+  "vendor.reset_password": "Vendor password reset",
+  "vendor.sessions_revoke": "Vendor logged out everywhere",
+  "vendor_application.review": "Vendor application reviewed",
+  "category.create": "Category created",
+  "category.update": "Category updated",
+  "category.delete": "Category deleted",
+  "category.toggle_status": "Category status changed",
+  "coupon.create": "Coupon created",
+  "coupon.update": "Coupon updated",
+  "coupon.delete": "Coupon deleted",
+  "settings.update": "Platform settings updated",
+  "maintenance.schedule": "Maintenance scheduled",
+  "maintenance.update": "Maintenance updated",
+  "maintenance.cancel": "Maintenance cancelled",
+  "notification.broadcast": "Notification broadcast",
+  "job.run": "Background job run",
+  "tracking.import": "Tracking CSV imported",
+  "report.export": "Report exported",
+} as const;
+
+export type AuditAction = keyof typeof AUDIT_ACTION_LABELS;
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[];
+
+export interface AuditLogView {
+  id: string;
+  sequence: number;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  metadata: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export interface AuditChainResult {
+  valid: boolean;
+  checked: number;
+  // First entry that doesn't match the chain
+  brokenAt?: {
+    sequence: number;
+    id: string | null;
+    reason: string;
+  };
+}
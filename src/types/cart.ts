@@ -57,6 +57,7 @@ export interface DbCartItem {
     value: string;
     priceAdjustment: Decimal | null;
     stock: number;
+    imageUrl?: string | null;
   } | null;
 }
 
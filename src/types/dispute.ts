@@ -222,9 +222,11 @@ export const DISPUTE_ELIGIBLE_ORDER_STATUSES = [
   'DELIVERED',
   'DELIVERY_CONFIRMED',
   'RETURNED',
+  'PARTIALLY_REFUNDED',
 ] as const;
 
-// Dispute time window (days after delivery)
+// Default dispute time window (days after delivery); admins can change it
+// through the dispute_window platform setting
 export const DISPUTE_WINDOW_DAYS = 7;
 
 // Max evidence images per dispute
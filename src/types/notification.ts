@@ -2,14 +2,26 @@
 // Defines all notification types, priorities, and default settings
 
 export enum NotificationType {
-  // Orders (7)
+  // Orders (15)
   ORDER_PAYMENT_CONFIRMED = 'ORDER_PAYMENT_CONFIRMED',
   ORDER_CANCELLED = 'ORDER_CANCELLED',
   ORDER_DELIVERY_CONFIRMED = 'ORDER_DELIVERY_CONFIRMED',
+  ORDER_DELIVERY_AUTO_CONFIRM_WARNING = 'ORDER_DELIVERY_AUTO_CONFIRM_WARNING',
   ORDER_RETURN_REQUESTED = 'ORDER_RETURN_REQUESTED',
+  ORDER_SHIPMENT_EXCEPTION = 'ORDER_SHIPMENT_EXCEPTION',
   ORDER_ITEM_PROCESSING = 'ORDER_ITEM_PROCESSING',
   ORDER_ITEM_SHIPPED = 'ORDER_ITEM_SHIPPED',
   ORDER_STATUS_OVERRIDE = 'ORDER_STATUS_OVERRIDE',
+  ORDER_REFUND_COMPLETED = 'ORDER_REFUND_COMPLETED',
+  ORDER_REFUND_FAILED = 'ORDER_REFUND_FAILED',
+  ORDER_RETURN_APPROVED = 'ORDER_RETURN_APPROVED',
+  ORDER_RETURN_REJECTED = 'ORDER_RETURN_REJECTED',
+  ORDER_RETURN_RECEIVED = 'ORDER_RETURN_RECEIVED',
+  ORDER_RETURN_ESCALATED = 'ORDER_RETURN_ESCALATED',
+
+  // Wishlist (2)
+  WISHLIST_PRICE_DROP = 'WISHLIST_PRICE_DROP',
+  WISHLIST_BACK_IN_STOCK = 'WISHLIST_BACK_IN_STOCK',
 
   // Disputes (4)
   DISPUTE_CREATED = 'DISPUTE_CREATED',
@@ -25,6 +37,13 @@ export enum NotificationType {
   // Chat (1)
   CHAT_NEW_MESSAGE = 'CHAT_NEW_MESSAGE',
 
+  // Product Q&A (2)
+  PRODUCT_QUESTION_ASKED = 'PRODUCT_QUESTION_ASKED',
+  PRODUCT_QUESTION_ANSWERED = 'PRODUCT_QUESTION_ANSWERED',
+
+  // Vendor onboarding (1)
+  VENDOR_APPLICATION_SUBMITTED = 'VENDOR_APPLICATION_SUBMITTED',
+
   // System (2)
   SYSTEM_ANNOUNCEMENT = 'SYSTEM_ANNOUNCEMENT',
   SYSTEM_MAINTENANCE = 'SYSTEM_MAINTENANCE',
@@ -56,12 +75,30 @@ export interface NotificationMetadata {
   productName?: string;
   trackingNumber?: string;
   trackingUrl?: string;
+  trackingStatus?: string; // TrackingEventStatus of the latest checkpoint
+  autoConfirmAt?: string; // ISO date delivery will be auto-confirmed
+  newStatus?: string;
+  previousStatus?: string;
+  reason?: string;
+
+  // Return-related
+  returnId?: string;
+  returnNumber?: string;
+
+  // Wishlist-related
+  productId?: string;
+  productSlug?: string;
+  variantLabel?: string; // e.g. "XL / Black"
+  previousPrice?: number;
+  newPrice?: number;
 
   // Dispute-related
   disputeId?: string;
   disputeReason?: string;
   resolutionType?: string;
   refundAmount?: number;
+  refundId?: string;
+  payhereRefundId?: string;
 
   // Payout-related
   payoutId?: string;
@@ -76,6 +113,16 @@ export interface NotificationMetadata {
   messagePreview?: string; // First 50 chars
   senderName?: string;
 
+  // Q&A-related
+  questionId?: string;
+  questionPreview?: string; // Masked, first 100 chars
+  answerPreview?: string; // Masked, first 100 chars
+
+  // Vendor application-related
+  applicationId?: string;
+  businessName?: string;
+  isResubmission?: boolean;
+
   // System-related
   announcementType?: string;
   maintenanceWindow?: string;
@@ -130,6 +177,16 @@ export const NOTIFICATION_CONFIGS: Record<NotificationType, NotificationConfig>
     icon: 'Package',
     color: 'text-green-600',
   },
+  [NotificationType.ORDER_DELIVERY_AUTO_CONFIRM_WARNING]: {
+    type: NotificationType.ORDER_DELIVERY_AUTO_CONFIRM_WARNING,
+    category: NotificationCategory.ORDER,
+    priority: NotificationPriority.HIGH,
+    emailTemplate: 'orderDeliveryAutoConfirmWarning',
+    defaultEmailEnabled: true, // Last chance to report a problem
+    defaultInAppEnabled: true,
+    icon: 'Clock',
+    color: 'text-amber-600',
+  },
   [NotificationType.ORDER_RETURN_REQUESTED]: {
     type: NotificationType.ORDER_RETURN_REQUESTED,
     category: NotificationCategory.ORDER,
@@ -140,6 +197,16 @@ export const NOTIFICATION_CONFIGS: Record<NotificationType, NotificationConfig>
     icon: 'RotateCcw',
     color: 'text-amber-600',
   },
+  [NotificationType.ORDER_SHIPMENT_EXCEPTION]: {
+    type: NotificationType.ORDER_SHIPMENT_EXCEPTION,
+    category: NotificationCategory.ORDER,
+    priority: NotificationPriority.HIGH,
+    emailTemplate: 'orderShipmentException',
+    defaultEmailEnabled: true, // Redelivery may need action
+    defaultInAppEnabled: true,
+    icon: 'AlertTriangle',
+    color: 'text-amber-600',
+  },
   [NotificationType.ORDER_ITEM_PROCESSING]: {
     type: NotificationType.ORDER_ITEM_PROCESSING,
     category: NotificationCategory.ORDER,
@@ -170,6 +237,89 @@ export const NOTIFICATION_CONFIGS: Record<NotificationType, NotificationConfig>
     icon: 'AlertTriangle',
     color: 'text-amber-600',
   },
+  [NotificationType.ORDER_REFUND_COMPLETED]: {
+    type: NotificationType.ORDER_REFUND_COMPLETED,
+    category: NotificationCategory.ORDER,
+    priority: NotificationPriority.HIGH,
+    emailTemplate: 'orderRefundCompleted',
+    defaultEmailEnabled: true,
+    defaultInAppEnabled: true,
+    icon: 'DollarSign',
+    color: 'text-green-600',
+  },
+  [NotificationType.ORDER_REFUND_FAILED]: {
+    type: NotificationType.ORDER_REFUND_FAILED,
+    category: NotificationCategory.ORDER,
+    priority: NotificationPriority.CRITICAL,
+    emailTemplate: 'orderRefundFailed',
+    defaultEmailEnabled: true, // Admin must refund manually
+    defaultInAppEnabled: true,
+    icon: 'XOctagon',
+    color: 'text-red-600',
+  },
+  [NotificationType.ORDER_RETURN_APPROVED]: {
+    type: NotificationType.ORDER_RETURN_APPROVED,
+    category: NotificationCategory.ORDER,
+    priority: NotificationPriority.HIGH,
+    emailTemplate: 'orderReturnUpdate',
+    defaultEmailEnabled: true, // Customer needs the return label
+    defaultInAppEnabled: true,
+    icon: 'PackageCheck',
+    color: 'text-green-600',
+  },
+  [NotificationType.ORDER_RETURN_REJECTED]: {
+    type: NotificationType.ORDER_RETURN_REJECTED,
+    category: NotificationCategory.ORDER,
+    priority: NotificationPriority.HIGH,
+    emailTemplate: 'orderReturnUpdate',
+    defaultEmailEnabled: true,
+    defaultInAppEnabled: true,
+    icon: 'XCircle',
+    color: 'text-red-600',
+  },
+  [NotificationType.ORDER_RETURN_RECEIVED]: {
+    type: NotificationType.ORDER_RETURN_RECEIVED,
+    category: NotificationCategory.ORDER,
+    priority: NotificationPriority.MEDIUM,
+    emailTemplate: 'orderReturnUpdate',
+    defaultEmailEnabled: true,
+    defaultInAppEnabled: true,
+    icon: 'RotateCcw',
+    color: 'text-green-600',
+  },
+  [NotificationType.ORDER_RETURN_ESCALATED]: {
+    type: NotificationType.ORDER_RETURN_ESCALATED,
+    category: NotificationCategory.DISPUTE,
+    priority: NotificationPriority.HIGH,
+    emailTemplate: 'orderReturnUpdate',
+    defaultEmailEnabled: true,
+    defaultInAppEnabled: true,
+    icon: 'AlertTriangle',
+    color: 'text-red-600',
+  },
+
+  // ==================== WISHLIST ====================
+  // Shopping updates, so they follow the ORDER category preferences
+  [NotificationType.WISHLIST_PRICE_DROP]: {
+    type: NotificationType.WISHLIST_PRICE_DROP,
+    category: NotificationCategory.ORDER,
+    priority: NotificationPriority.LOW,
+    emailTemplate: 'wishlistPriceDrop',
+    defaultEmailEnabled: true,
+    defaultInAppEnabled: true,
+    icon: 'TrendingDown',
+    color: 'text-green-600',
+  },
+  [NotificationType.WISHLIST_BACK_IN_STOCK]: {
+    type: NotificationType.WISHLIST_BACK_IN_STOCK,
+    category: NotificationCategory.ORDER,
+    priority: NotificationPriority.LOW,
+    emailTemplate: 'wishlistBackInStock',
+    defaultEmailEnabled: true,
+    defaultInAppEnabled: true,
+    icon: 'PackageCheck',
+    color: 'text-blue-600',
+  },
 
   // ==================== DISPUTES ====================
   [NotificationType.DISPUTE_CREATED]: {
@@ -257,6 +407,43 @@ export const NOTIFICATION_CONFIGS: Record<NotificationType, NotificationConfig>
     color: 'text-purple-600',
   },
 
+  // ==================== PRODUCT Q&A ====================
+  // Pre-purchase conversations, so they follow the CHAT category preferences
+  // (emailed only to users who switched on chat emails)
+  [NotificationType.PRODUCT_QUESTION_ASKED]: {
+    type: NotificationType.PRODUCT_QUESTION_ASKED,
+    category: NotificationCategory.CHAT,
+    priority: NotificationPriority.MEDIUM,
+    emailTemplate: 'productQuestionAsked',
+    defaultEmailEnabled: true,
+    defaultInAppEnabled: true,
+    icon: 'HelpCircle',
+    color: 'text-purple-600',
+  },
+  [NotificationType.PRODUCT_QUESTION_ANSWERED]: {
+    type: NotificationType.PRODUCT_QUESTION_ANSWERED,
+    category: NotificationCategory.CHAT,
+    priority: NotificationPriority.LOW,
+    emailTemplate: 'productQuestionAnswered',
+    defaultEmailEnabled: true,
+    defaultInAppEnabled: true,
+    icon: 'MessageSquareReply',
+    color: 'text-purple-600',
+  },
+
+  // ==================== VENDOR ONBOARDING ====================
+  // Admin review queue alert
+  [NotificationType.VENDOR_APPLICATION_SUBMITTED]: {
+    type: NotificationType.VENDOR_APPLICATION_SUBMITTED,
+    category: NotificationCategory.SYSTEM,
+    priority: NotificationPriority.MEDIUM,
+    emailTemplate: 'systemAnnouncement',
+    defaultEmailEnabled: true,
+    defaultInAppEnabled: true,
+    icon: 'Store',
+    color: 'text-blue-600',
+  },
+
   // ==================== SYSTEM ====================
   [NotificationType.SYSTEM_ANNOUNCEMENT]: {
     type: NotificationType.SYSTEM_ANNOUNCEMENT,
@@ -2,8 +2,9 @@
  * Order types for order creation and management
  */
 
-import { OrderStatus } from "@prisma/client";
+import { OrderStatus, ReturnReason, TrackingEventStatus } from "@prisma/client";
 import { AddressSnapshot } from "./address";
+import { ShippingQuote } from "./shipping";
 
 /**
  * Order creation request
@@ -32,8 +33,11 @@ export interface OrderItemSnapshot {
  */
 export interface VariantSnapshot {
   variantId: string;
-  name: string;
-  value: string;
+  name: string; // "Size / Colour"
+  value: string; // "L / Black"
+  options?: { name: string; value: string }[]; // Absent on orders placed before variant options
+  sku?: string | null;
+  imageUrl?: string | null;
   priceAdjustment: number;
 }
 
@@ -44,7 +48,9 @@ export interface OrderCreationResult {
   orderId: string;
   orderNumber: string;
   totalAmount: number;
+  shippingAmount: number;
   itemCount: number;
+  reservationExpiresAt: string;
 }
 
 /**
@@ -71,6 +77,7 @@ export interface CheckoutValidation {
     message: string;
     productId: string;
   }[];
+  shipping: ShippingQuote | null; // Present when a shipping address was given
 }
 
 /**
@@ -126,6 +133,31 @@ export interface OrderListItem {
 export interface VendorOrderGroup {
   vendorName: string;
   items: OrderItemDetails[];
+  shippingAmount: number;
+  shipments?: ShipmentDetails[];
+}
+
+/**
+ * Courier checkpoint shown on the shipment timeline
+ */
+export interface TrackingEventDetails {
+  id: string;
+  status: TrackingEventStatus;
+  description: string;
+  location: string | null;
+  occurredAt: string;
+}
+
+/**
+ * One tracked shipment (items shipped under the same tracking number)
+ */
+export interface ShipmentDetails {
+  trackingNumber: string;
+  trackingUrl: string | null;
+  carrier: string | null;
+  carrierName: string;
+  trackingStatus: TrackingEventStatus | null;
+  events: TrackingEventDetails[]; // Newest first
 }
 
 /**
@@ -136,11 +168,14 @@ export interface OrderItemDetails {
   productSnapshot: OrderItemSnapshot;
   variantSnapshot?: VariantSnapshot | null;
   quantity: number;
+  refundedQuantity?: number;
   unitPrice: number;
   totalPrice: number;
   status: OrderStatus;
   trackingNumber?: string | null;
   trackingUrl?: string | null;
+  carrier?: string | null;
+  trackingStatus?: TrackingEventStatus | null;
 }
 
 /**
@@ -153,6 +188,7 @@ export interface OrderDetails {
     status: OrderStatus;
     subtotal: number;
     discountAmount: number;
+    shippingAmount: number;
     totalAmount: number;
     notes: string | null;
     createdAt: string;
@@ -192,8 +228,10 @@ export interface CancelOrderRequest {
  * Request return request
  */
 export interface RequestReturnRequest {
-  reason: string;
+  reason: ReturnReason;
   description?: string | null;
+  photos?: string[];
+  items: Array<{ orderItemId: string; quantity: number }>;
 }
 
 /**
@@ -202,6 +240,7 @@ export interface RequestReturnRequest {
 export interface UpdateOrderItemStatusRequest {
   status: "PROCESSING" | "SHIPPED";
   trackingNumber?: string | null;
+  carrier?: string | null;
   trackingUrl?: string | null;
   note?: string | null;
 }
@@ -66,16 +66,22 @@ export interface ProductFormData {
   sku?: string;
   stock: number;
   lowStockThreshold?: number;
+  weightGrams?: number | null;
   images: {
     url: string;
     altText?: string;
     position: number;
   }[];
+  options?: {
+    name: string; // e.g., "Size"
+    values: string[]; // e.g., ["S", "M", "L"]
+  }[];
   variants?: {
-    name: string;
-    value: string;
+    id?: string;
+    options: Record<string, string>; // One value per option
     priceAdjustment?: number;
     stock: number;
     sku?: string;
+    imageUrl?: string | null;
   }[];
 }
@@ -0,0 +1,102 @@
+/**
+ * Return request (RMA) types
+ */
+
+import type { ReturnReason, ReturnStatus } from "@prisma/client";
+
+// Max photos per return request
+export const MAX_RETURN_PHOTOS = 5;
+
+// Days the vendor has to approve/reject (or receive an approved return)
+// before the customer can escalate it to a dispute
+export const RETURN_ESCALATION_DAYS = 5;
+
+// Order statuses a (further) return can be requested from
+export const RETURN_ELIGIBLE_ORDER_STATUSES = [
+  "DELIVERED",
+  "DELIVERY_CONFIRMED",
+  "RETURN_REQUESTED",
+  "RETURNED",
+  "PARTIALLY_REFUNDED",
+] as const;
+
+// Returns still waiting on the vendor
+export const OPEN_RETURN_STATUSES: ReturnStatus[] = ["REQUESTED", "APPROVED"];
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  DAMAGED: "Arrived damaged",
+  DEFECTIVE: "Defective / doesn't work",
+  WRONG_ITEM: "Wrong item received",
+  NOT_AS_DESCRIBED: "Not as described",
+  SIZE_FIT: "Size or fit issue",
+  CHANGED_MIND: "Changed my mind",
+  OTHER: "Other",
+};
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  REQUESTED: "Awaiting Seller",
+  APPROVED: "Approved - Ship Back",
+  REJECTED: "Rejected",
+  RECEIVED: "Received & Refunded",
+  ESCALATED: "Escalated to Dispute",
+};
+
+export const RETURN_STATUS_COLORS: Record<
+  ReturnStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  REQUESTED: "secondary",
+  APPROVED: "default",
+  REJECTED: "destructive",
+  RECEIVED: "outline",
+  ESCALATED: "destructive",
+};
+
+// Snapshot stored on approval; the printable label is rendered from it
+export interface ReturnLabel {
+  reference: string; // Return number, written on the parcel
+  shipTo: {
+    name: string;
+    phone: string;
+    address: string | null;
+  };
+  shipFrom: {
+    name: string;
+    phone: string | null;
+    address: string;
+  };
+  issuedAt: string;
+}
+
+// Return as returned by the customer and vendor APIs
+export interface ReturnRequestView {
+  id: string;
+  returnNumber: string;
+  orderId: string;
+  orderNumber: string;
+  vendorName: string;
+  status: ReturnStatus;
+  reason: ReturnReason;
+  description: string | null;
+  photos: string[];
+  vendorNote: string | null;
+  returnLabel: ReturnLabel | null;
+  refundAmount: number | null;
+  refundStatus: string | null;
+  disputeId: string | null;
+  canEscalate: boolean;
+  items: Array<{
+    id: string;
+    orderItemId: string;
+    productName: string;
+    variantLabel: string | null;
+    image: string | null;
+    quantity: number;
+    unitPrice: number;
+    restocked: boolean | null;
+  }>;
+  respondedAt: string | null;
+  receivedAt: string | null;
+  escalatedAt: string | null;
+  createdAt: string;
+}
@@ -0,0 +1,39 @@
+/**
+ * Product review types
+ */
+
+// Max photos per review
+export const MAX_REVIEW_PHOTOS = 5;
+
+// Max vendor reply length
+export const MAX_REVIEW_REPLY_LENGTH = 1000;
+
+export const REVIEW_SORT_OPTIONS = ["helpful", "newest"] as const;
+export type ReviewSort = (typeof REVIEW_SORT_OPTIONS)[number];
+
+/**
+ * Review as shown on the product page
+ */
+export interface PublicReview {
+  id: string;
+  rating: number;
+  comment: string | null;
+  photos: string[];
+  helpfulCount: number;
+  createdAt: string;
+  customerName: string | null;
+  vendorReply: {
+    content: string;
+    repliedAt: string;
+  } | null;
+}
+
+/**
+ * Rating summary for a product
+ * histogram maps each star rating (1-5) to its number of reviews
+ */
+export interface RatingSummary {
+  averageRating: number;
+  reviewCount: number;
+  histogram: Record<1 | 2 | 3 | 4 | 5, number>;
+}
@@ -0,0 +1,76 @@
+/**
+ * Shipping types for vendor shipping profiles and checkout quotes
+ */
+
+import { ShippingRateType } from "@prisma/client";
+
+/**
+ * Rate tier (weight in grams or item quantity, depending on rate type)
+ * `upTo: null` marks the open-ended last tier
+ */
+export interface ShippingTier {
+  upTo: number | null;
+  rate: number;
+}
+
+/**
+ * Province-based shipping zone
+ */
+export interface ShippingZoneData {
+  id: string;
+  name: string;
+  provinces: string[];
+  rate: number;
+  freeShippingThreshold: number | null;
+}
+
+/**
+ * Vendor shipping profile (API shape)
+ */
+export interface ShippingProfileData {
+  id: string;
+  vendorId: string;
+  rateType: ShippingRateType;
+  baseRate: number;
+  tiers: ShippingTier[];
+  freeShippingThreshold: number | null;
+  zones: ShippingZoneData[];
+  updatedAt: string;
+}
+
+/**
+ * How a vendor's shipping amount was calculated
+ * Stored on OrderShippingLine.snapshot (immutable)
+ */
+export interface ShippingSnapshot {
+  source: "PROFILE" | "DEFAULT";
+  rateType: ShippingRateType | null;
+  province: string;
+  zoneId: string | null;
+  zoneName: string | null;
+  tierUpTo: number | null;
+  rate: number;
+  freeShippingThreshold: number | null;
+  isFree: boolean;
+  subtotal: number;
+  totalQuantity: number;
+  totalWeightGrams: number;
+}
+
+/**
+ * Shipping line for one vendor in a cart or order
+ */
+export interface VendorShippingLine {
+  vendorId: string;
+  vendorName: string;
+  amount: number;
+  snapshot: ShippingSnapshot;
+}
+
+/**
+ * Shipping quote for a whole cart
+ */
+export interface ShippingQuote {
+  lines: VendorShippingLine[];
+  totalAmount: number;
+}
@@ -1,4 +1,4 @@
-import { Vendor, User, Wallet } from "@prisma/client";
+import { Vendor, User, Wallet, VendorApplicationStatus } from "@prisma/client";
 import { Decimal } from "@prisma/client/runtime/library";
 
 // Vendor with relations
@@ -59,3 +59,88 @@ export interface VendorListQuery {
   sortBy?: "createdAt" | "businessName" | "commissionRate";
   sortOrder?: "asc" | "desc";
 }
+
+// Shop open/closed state shown to the vendor (dates as ISO strings)
+export interface ShopStatus {
+  isOpen: boolean;
+  closedReason: string | null;
+  reopensAt: string | null; // Automatic reopening of the current closure
+  holiday: {
+    startsAt: string;
+    endsAt: string;
+    reason: string | null;
+  } | null; // Upcoming scheduled closure
+}
+
+// Vendor onboarding application documents (private image uploads, e.g. scans)
+export const VENDOR_APPLICATION_DOCUMENT_TYPES = [
+  "BUSINESS_REGISTRATION",
+  "NIC_FRONT",
+  "NIC_BACK",
+  "BANK_PROOF",
+  "OTHER",
+] as const;
+
+export type VendorApplicationDocumentType = (typeof VENDOR_APPLICATION_DOCUMENT_TYPES)[number];
+
+export const VENDOR_APPLICATION_DOCUMENT_LABELS: Record<VendorApplicationDocumentType, string> = {
+  BUSINESS_REGISTRATION: "Business registration certificate",
+  NIC_FRONT: "NIC (front)",
+  NIC_BACK: "NIC (back)",
+  BANK_PROOF: "Bank statement or passbook",
+  OTHER: "Other",
+};
+
+// Documents every application must include
+export const REQUIRED_APPLICATION_DOCUMENTS: VendorApplicationDocumentType[] = [
+  "BUSINESS_REGISTRATION",
+  "NIC_FRONT",
+  "NIC_BACK",
+  "BANK_PROOF",
+];
+
+export const MAX_APPLICATION_DOCUMENTS = 10;
+
+export interface VendorApplicationDocument {
+  type: VendorApplicationDocumentType;
+  key: string; // Private storage key; served by the admin and applicant document routes
+}
+
+export const VENDOR_APPLICATION_STATUS_LABELS: Record<VendorApplicationStatus, string> = {
+  PENDING: "Under Review",
+  CHANGES_REQUESTED: "Changes Requested",
+  APPROVED: "Approved",
+  REJECTED: "Rejected",
+};
+
+export const VENDOR_APPLICATION_STATUS_COLORS: Record<
+  VendorApplicationStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  PENDING: "secondary",
+  CHANGES_REQUESTED: "outline",
+  APPROVED: "default",
+  REJECTED: "destructive",
+};
+
+// Application as returned by the applicant and admin APIs (never includes the access token)
+export interface VendorApplicationView {
+  id: string;
+  status: VendorApplicationStatus;
+  businessName: string;
+  businessEmail: string;
+  businessPhone: string;
+  businessAddress: string;
+  description: string | null;
+  businessRegistrationNo: string;
+  ownerName: string;
+  nicNumber: string;
+  bankName: string;
+  branchCode: string | null;
+  accountHolder: string;
+  accountNumber: string;
+  documents: VendorApplicationDocument[];
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  submittedAt: string;
+}
@@ -25,6 +25,7 @@ export interface WalletStats {
 export interface WalletData {
   balance: WalletBalance;
   stats: WalletStats;
+  minimumPayoutAmount: number;
 }
 
 /**
@@ -0,0 +1,43 @@
+/**
+ * Client-side wishlist item representation
+ * Used in localStorage (guest wishlist) and components
+ */
+export interface WishlistItem {
+  id: string; // productId-variantId for guest, WishlistItem.id for logged-in
+  productId: string;
+  productName: string;
+  productSlug: string;
+  productImage: string | null;
+  variantId?: string | null;
+  variantLabel?: string; // e.g., "Size: XL, Colour: Black"
+  price: number; // Current price (lowest variant price when no variant is saved)
+  savedPrice: number; // Price when saved
+  quantity: number; // Restored when moved to the cart
+  inStock: boolean;
+  isAvailable: boolean; // Product is still listed and its shop is open
+  shopClosed?: boolean; // Unavailable only because the shop is temporarily closed
+  vendorName: string;
+}
+
+/**
+ * Guest wishlist item sent for merging after login
+ */
+export interface GuestWishlistItem {
+  productId: string;
+  variantId?: string | null;
+}
+
+/**
+ * API response for wishlist operations
+ */
+export interface WishlistResponse {
+  success: boolean;
+  data?: {
+    items: WishlistItem[];
+    merged?: {
+      itemsAdded: number;
+      itemsSkipped: number;
+    };
+  };
+  error?: string;
+}